@@ -111,7 +111,7 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
     quantityBySize: Array.isArray(body.quantityBySize) ? body.quantityBySize : undefined,
   };
   try {
-    const updated = await updateWarehouseProduct(productId, effectiveWarehouseId, normalizedBody);
+    const updated = await updateWarehouseProduct(productId, effectiveWarehouseId, normalizedBody, { actor: auth.email });
     if (!updated) {
       return NextResponse.json({ message: 'Product not found' }, { status: 404 });
     }
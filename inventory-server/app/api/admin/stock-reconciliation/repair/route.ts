@@ -0,0 +1,99 @@
+/**
+ * POST /api/admin/stock-reconciliation/repair — repair one discrepancy from GET /api/admin/stock-reconciliation.
+ * Body: { warehouseId, productId, sizeCode, kind, action: 'restore' | 'accept', note? }.
+ * restore posts a 'correction' stock adjustment back to the expected quantity; accept (ledger rows only) keeps the
+ * stock on hand and records the change the ledger missed. Both are audited in stock_reconciliations.
+ * Admin/super_admin only.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAdmin } from '@/lib/auth/session';
+import { notifyProductsUpdated } from '@/lib/cache/productsCache';
+import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+import { isDiscrepancyKind, isRepairAction, repairStockDiscrepancy } from '@/lib/data/stockReconciliation';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAdmin(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    let body: {
+      warehouseId?: unknown;
+      productId?: unknown;
+      sizeCode?: unknown;
+      kind?: unknown;
+      action?: unknown;
+      note?: unknown;
+    };
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const warehouseId = typeof body?.warehouseId === 'string' ? body.warehouseId.trim() : '';
+    const productId = typeof body?.productId === 'string' ? body.productId.trim() : '';
+    if (!warehouseId || !productId) return fail(400, 'warehouseId and productId are required.');
+    if (body.sizeCode != null && typeof body.sizeCode !== 'string') return fail(400, 'sizeCode must be a string or null.');
+    if (!isDiscrepancyKind(body.kind)) return fail(400, 'kind must be total_vs_sizes or ledger.');
+    const action = body.action ?? 'restore';
+    if (!isRepairAction(action)) return fail(400, 'action must be restore or accept.');
+    if (body.kind === 'total_vs_sizes' && action !== 'restore') {
+      return fail(400, 'A total can only be restored to the sum of its sizes.', 'INVALID_REPAIR_ACTION');
+    }
+
+    let result;
+    try {
+      result = await repairStockDiscrepancy({
+        warehouseId,
+        productId,
+        sizeCode: typeof body.sizeCode === 'string' && body.sizeCode.trim() ? body.sizeCode.trim() : null,
+        kind: body.kind,
+        action,
+        note: typeof body.note === 'string' ? body.note : null,
+        actor: auth.email ?? null,
+      });
+    } catch (e) {
+      const msg = (e as { message?: string })?.message ?? '';
+      if (/DISCREPANCY_NOT_FOUND/.test(msg)) {
+        return fail(409, 'This discrepancy no longer exists. Refresh the report.', 'DISCREPANCY_NOT_FOUND');
+      }
+      if (/INVALID_REPAIR_ACTION/.test(msg)) return fail(400, 'That repair does not apply here.', 'INVALID_REPAIR_ACTION');
+      if ((e as { code?: string })?.code === 'P0001') return fail(422, msg);
+      throw e;
+    }
+
+    if (result.action === 'restore') {
+      await notifyProductsUpdated(warehouseId);
+      await notifyInventoryUpdated(warehouseId);
+    }
+
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(result, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/admin/stock-reconciliation/repair]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to repair discrepancy.');
+  }
+}
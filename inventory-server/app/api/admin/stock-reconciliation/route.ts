@@ -0,0 +1,48 @@
+/**
+ * GET /api/admin/stock-reconciliation?warehouse_id= — products / sizes whose stock does not add up: a total that is
+ * not the sum of its sizes, or a stock row that is not the replay of its ledger. Each row lists likely causes.
+ * Admin/super_admin only. Omit warehouse_id for every warehouse.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAdmin } from '@/lib/auth/session';
+import { listStockDiscrepancies } from '@/lib/data/stockReconciliation';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 30;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAdmin(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const warehouseId = new URL(req.url).searchParams.get('warehouse_id')?.trim() || undefined;
+    const data = await listStockDiscrepancies(warehouseId);
+
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ data }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/admin/stock-reconciliation]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load stock discrepancies.');
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * GET /api/customers/[id]/ledger — loyalty points and store-credit balances with their latest entries
+ * (?limit=, default 50 per ledger). Entries are append-only; there is no write endpoint.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getCustomer } from '@/lib/data/customers';
+import { getLoyaltyConfig, listLoyaltyEntries, listStoreCreditEntries } from '@/lib/data/loyalty';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+    const limit = Number(new URL(req.url).searchParams.get('limit')) || 50;
+
+    const customer = await getCustomer(id);
+    if (!customer) return fail(404, 'Customer not found.');
+
+    const [points, storeCredit] = await Promise.all([listLoyaltyEntries(id, limit), listStoreCreditEntries(id, limit)]);
+
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(
+      NextResponse.json(
+        {
+          customerId: id,
+          pointsBalance: customer.pointsBalance,
+          pointsValue: customer.pointsValue,
+          storeCreditBalance: customer.storeCreditBalance,
+          config: getLoyaltyConfig(),
+          points,
+          storeCredit,
+        },
+        { status: 200, headers: h }
+      ),
+      req
+    );
+  } catch (e) {
+    console.error('[GET /api/customers/[id]/ledger]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load balances.');
+  }
+}
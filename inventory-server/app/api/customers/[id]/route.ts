@@ -0,0 +1,146 @@
+/**
+ * /api/customers/[id] — GET profile (visits, lifetime spend, past receipts); PATCH { name?, phone?, email?, notes? };
+ * DELETE removes the customer (managers and admins only; past sales keep their receipt snapshot; 409 once the
+ * customer has loyalty / store-credit entries).
+ * Non-admins only see receipts from the warehouses in their scope.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import {
+  deleteCustomer,
+  getCustomer,
+  listCustomerReceipts,
+  normalizePhone,
+  updateCustomer,
+  type CustomerInput,
+} from '@/lib/data/customers';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    const customer = await getCustomer(id);
+    if (!customer) return fail(404, 'Customer not found.');
+
+    const isAdmin = /^(admin|super_admin)$/i.test(auth.role ?? '');
+    const warehouseIds = isAdmin ? undefined : (await getScopeForUser(auth.email)).allowedWarehouseIds;
+    const receipts = await listCustomerReceipts(id, { warehouseIds });
+
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ ...customer, receipts }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/customers/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load customer.');
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    let body: CustomerInput;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    if (body?.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+      return fail(400, 'name cannot be empty.');
+    }
+    let phone: string | undefined;
+    if (body?.phone !== undefined) {
+      phone = normalizePhone(body.phone) ?? undefined;
+      if (!phone) return fail(400, 'A valid phone number is required.');
+    }
+
+    try {
+      const customer = await updateCustomer(id, { name: body.name, phone, email: body.email, notes: body.notes });
+      if (!customer) return fail(404, 'Customer not found.');
+      logApiResponse(req, 200, Date.now() - start);
+      return withCors(NextResponse.json(customer, { status: 200, headers: h }), req);
+    } catch (e) {
+      if ((e as { code?: string })?.code === '23505') {
+        return fail(409, 'A customer with this phone number already exists.', 'DUPLICATE_CUSTOMER');
+      }
+      throw e;
+    }
+  } catch (e) {
+    console.error('[PATCH /api/customers/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to update customer.');
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    if (!/^(admin|super_admin|manager)$/i.test(auth.role ?? '')) {
+      return fail(403, 'Only a manager can delete customers.');
+    }
+
+    let deleted: boolean;
+    try {
+      deleted = await deleteCustomer(id);
+    } catch (e) {
+      if ((e as { code?: string })?.code === '23503') {
+        return fail(409, 'This customer has loyalty points or store credit history and cannot be deleted.', 'CUSTOMER_HAS_LEDGER');
+      }
+      throw e;
+    }
+    if (!deleted) return fail(404, 'Customer not found.');
+    logApiResponse(req, 204, Date.now() - start);
+    return withCors(new NextResponse(null, { status: 204, headers: h }), req);
+  } catch (e) {
+    console.error('[DELETE /api/customers/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to delete customer.');
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * /api/customers — customer directory (shared by all warehouses).
+ * GET ?q= type-ahead by phone digits or name (up to 10, with visits and lifetime spend); ?phone= exact lookup.
+ * POST { phone, name, email?, notes? } creates a customer; phone is normalised (0244… → 233244…) and unique.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import {
+  createCustomer,
+  getCustomerByPhone,
+  normalizePhone,
+  searchCustomers,
+  type CustomerInput,
+} from '@/lib/data/customers';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const { searchParams } = new URL(req.url);
+    const phone = searchParams.get('phone');
+    if (phone != null) {
+      const customer = await getCustomerByPhone(phone);
+      logApiResponse(req, 200, Date.now() - start);
+      return withCors(NextResponse.json({ data: customer ? [customer] : [] }, { status: 200, headers: h }), req);
+    }
+
+    const data = await searchCustomers(searchParams.get('q') ?? '', Number(searchParams.get('limit')) || 10);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ data }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/customers]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load customers.');
+  }
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    let body: CustomerInput;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    if (typeof body?.name !== 'string' || !body.name.trim()) return fail(400, 'name is required.');
+    const phone = normalizePhone(body.phone);
+    if (!phone) return fail(400, 'A valid phone number is required.');
+
+    try {
+      const customer = await createCustomer({ name: body.name, phone, email: body.email, notes: body.notes });
+      logApiResponse(req, 201, Date.now() - start);
+      return withCors(NextResponse.json(customer, { status: 201, headers: h }), req);
+    } catch (e) {
+      if ((e as { code?: string })?.code === '23505') {
+        return fail(409, 'A customer with this phone number already exists.', 'DUPLICATE_CUSTOMER');
+      }
+      throw e;
+    }
+  } catch (e) {
+    console.error('[POST /api/customers]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to create customer.');
+  }
+}
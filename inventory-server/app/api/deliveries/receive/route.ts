@@ -0,0 +1,111 @@
+/**
+ * POST /api/deliveries/receive — receive inbound goods into a warehouse and store a goods-received note.
+ * Body: warehouseId, lines[{ productId, sizeCode?, qty }], supplierName?, reference?, notes?.
+ * Stock is added by record_goods_receipt (receive_delivery for sized lines); each line writes a
+ * stock_movements row with reference_type = 'receipt'. Returns 201 with the stored GRN.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import { notifyProductsUpdated } from '@/lib/cache/productsCache';
+import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+import { getGoodsReceipt } from '@/lib/data/goodsReceipts';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+interface ReceiveLineBody {
+  productId: string;
+  sizeCode?: string | null;
+  qty: number;
+}
+
+interface ReceiveBody {
+  warehouseId: string;
+  lines: ReceiveLineBody[];
+  supplierName?: string | null;
+  reference?: string | null;
+  notes?: string | null;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    let body: ReceiveBody;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+
+    const warehouseId = typeof body?.warehouseId === 'string' ? body.warehouseId.trim() : '';
+    if (!warehouseId) return fail(400, 'warehouseId is required.');
+
+    const isAdmin = /^(admin|super_admin)$/i.test(auth.role ?? '');
+    if (!isAdmin) {
+      const scope = await getScopeForUser(auth.email);
+      if (!scope.allowedWarehouseIds.includes(warehouseId)) {
+        return fail(403, 'You do not have access to this warehouse.');
+      }
+    }
+
+    const lines = (Array.isArray(body.lines) ? body.lines : [])
+      .filter((l) => l && typeof l.productId === 'string' && Number(l.qty) > 0)
+      .map((l) => ({
+        productId: l.productId,
+        sizeCode: l.sizeCode != null ? String(l.sizeCode).trim() || null : null,
+        qty: Math.floor(Number(l.qty)),
+      }));
+    if (lines.length === 0) return fail(422, 'At least one line with qty > 0 is required.');
+
+    const db = getSupabase();
+    const { data, error } = await withStockLedgerContext(db.rpc('record_goods_receipt', {
+      p_warehouse_id: warehouseId,
+      p_lines: lines,
+      p_supplier_name: typeof body.supplierName === 'string' ? body.supplierName : null,
+      p_reference: typeof body.reference === 'string' ? body.reference : null,
+      p_notes: typeof body.notes === 'string' ? body.notes : null,
+      p_received_by_email: auth.email ?? null,
+    }), { actor: auth.email });
+    if (error) {
+      if (error.code === 'P0001') return fail(422, error.message);
+      console.error('[POST /api/deliveries/receive]', error);
+      return fail(500, error.message ?? 'Failed to record receipt.');
+    }
+
+    await notifyProductsUpdated(warehouseId);
+    await notifyInventoryUpdated(warehouseId);
+
+    const receipt = await getGoodsReceipt((data as { id: string }).id);
+    logApiResponse(req, 201, Date.now() - start);
+    return withCors(NextResponse.json(receipt, { status: 201, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/deliveries/receive]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * GET /api/fiscal/invoices — sales not yet signed by the e-VAT API (pending retries and failed), newest first.
+ * Query: warehouse_id (optional; scope-checked). Managers only.
+ * POST /api/fiscal/invoices — { saleId } puts a failed invoice back in the retry queue, rebuilt from the sale.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { listUnsignedFiscalInvoices, requeueFiscalInvoice } from '@/lib/data/fiscalInvoices';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    if (!/^(admin|super_admin|manager)$/i.test(auth.role ?? '')) {
+      return fail(403, 'Only a manager can see fiscal invoices.');
+    }
+    const warehouseId = new URL(req.url).searchParams.get('warehouse_id')?.trim() || null;
+    if (warehouseId) {
+      const scope = await getScopeForUser(auth.email);
+      if (scope.allowedWarehouseIds.length > 0 && !scope.allowedWarehouseIds.includes(warehouseId)) {
+        return fail(403, 'Forbidden: warehouse not in scope');
+      }
+    }
+    const data = await listUnsignedFiscalInvoices(warehouseId);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ data }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/fiscal/invoices]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load fiscal invoices.');
+  }
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    if (!/^(admin|super_admin|manager)$/i.test(auth.role ?? '')) {
+      return fail(403, 'Only a manager can resubmit fiscal invoices.');
+    }
+    let body: { saleId?: string };
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const saleId = typeof body?.saleId === 'string' ? body.saleId.trim() : '';
+    if (!saleId) return fail(400, 'saleId is required.');
+
+    const data = await requeueFiscalInvoice(saleId);
+    if (!data) return fail(404, 'No fiscal invoice for that sale.');
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(data, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/fiscal/invoices]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to requeue fiscal invoice.');
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * GET /api/fiscal/retry — Vercel cron (vercel.json): submits fiscal invoices whose retry is due. Needs
+ * Authorization: Bearer <CRON_SECRET>, which Vercel sends for cron jobs.
+ * POST /api/fiscal/retry — the same run on demand (managers only).
+ * Answers { signed, pending, failed } for the invoices submitted in this run; 200 { skipped: true } when
+ * FISCAL_PROVIDER is not set.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getFiscalClient } from '@/lib/fiscal/provider';
+import { retryDueFiscalInvoices } from '@/lib/data/fiscalInvoices';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+function cronSecretOk(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET?.trim();
+  if (!secret) return false;
+  const given = Buffer.from(req.headers.get('authorization') ?? '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function run(req: NextRequest, start: number, fail: (status: number, message: string) => NextResponse): Promise<NextResponse> {
+  const client = getFiscalClient();
+  if (!client) {
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ skipped: true }, { status: 200, headers: corsHeaders(req) }), req);
+  }
+  try {
+    const counts = await retryDueFiscalInvoices(client);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(counts, { status: 200, headers: corsHeaders(req) }), req);
+  } catch (e) {
+    console.error('[/api/fiscal/retry]', e);
+    return fail(500, e instanceof Error ? e.message : 'Fiscal retry failed.');
+  }
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const fail = (status: number, message: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message });
+    return withCors(jsonError(status, message, { requestId, headers: corsHeaders(req) }), req);
+  };
+  if (!cronSecretOk(req)) return fail(401, 'Unauthorized');
+  return run(req, start, fail);
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const fail = (status: number, message: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message });
+    return withCors(jsonError(status, message, { requestId, headers: corsHeaders(req) }), req);
+  };
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return withCors(auth, req);
+  if (!/^(admin|super_admin|manager)$/i.test(auth.role ?? '')) {
+    return fail(403, 'Only a manager can resubmit fiscal invoices.');
+  }
+  return run(req, start, fail);
+}
@@ -0,0 +1,59 @@
+/**
+ * POST /api/held-carts/[id]/recall — recall (or discard) a held cart: deletes it and returns it, so only one till
+ * gets it and its soft reservation ends. 404 HELD_CART_GONE when it was already recalled elsewhere or has expired.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getHeldCart, takeHeldCart } from '@/lib/data/heldCarts';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function POST(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    const current = await getHeldCart(id);
+    if (!current) return fail(404, 'This held cart was already recalled or has expired.', 'HELD_CART_GONE');
+    if (!/^(admin|super_admin)$/i.test(auth.role ?? '')) {
+      const scope = await getScopeForUser(auth.email);
+      if (!scope.allowedWarehouseIds.includes(current.warehouseId)) {
+        return fail(403, 'You do not have access to this warehouse.');
+      }
+    }
+
+    const cart = await takeHeldCart(id);
+    if (!cart) return fail(404, 'This held cart was already recalled or has expired.', 'HELD_CART_GONE');
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(cart, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/held-carts/[id]/recall]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to recall held cart.');
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * /api/held-carts — carts parked at the POS ("Hold sale").
+ * GET ?warehouse_id= unexpired held carts at that warehouse, newest first (any till there can recall them).
+ * POST { warehouseId, name, lines, reserveStock? } holds a cart (201). It expires after HELD_CART_HOURS (default 24).
+ * Recall or discard with POST /api/held-carts/[id]/recall.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { createHeldCart, listHeldCarts, parseHeldCartLines, type HeldCartInput } from '@/lib/data/heldCarts';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+const MAX_NAME_LENGTH = 80;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+async function canAccess(auth: { email: string; role: string }, warehouseId: string): Promise<boolean> {
+  if (/^(admin|super_admin)$/i.test(auth.role ?? '')) return true;
+  const scope = await getScopeForUser(auth.email);
+  return scope.allowedWarehouseIds.includes(warehouseId);
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const warehouseId = new URL(req.url).searchParams.get('warehouse_id')?.trim() ?? '';
+    if (!warehouseId) return fail(400, 'warehouse_id is required.');
+    if (!(await canAccess(auth, warehouseId))) return fail(403, 'You do not have access to this warehouse.');
+
+    const data = await listHeldCarts(warehouseId);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ data }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/held-carts]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load held carts.');
+  }
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    let body: HeldCartInput;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const warehouseId = typeof body?.warehouseId === 'string' ? body.warehouseId.trim() : '';
+    if (!warehouseId) return fail(400, 'warehouseId is required.');
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) return fail(400, 'name is required.');
+    if (name.length > MAX_NAME_LENGTH) return fail(400, `name must be at most ${MAX_NAME_LENGTH} characters.`);
+    const lines = parseHeldCartLines(body.lines);
+    if (typeof lines === 'string') return fail(400, lines);
+    if (!(await canAccess(auth, warehouseId))) return fail(403, 'You do not have access to this warehouse.');
+
+    const cart = await createHeldCart({ warehouseId, name, lines, reserveStock: body.reserveStock === true }, auth.email ?? null);
+    logApiResponse(req, 201, Date.now() - start);
+    return withCors(NextResponse.json(cart, { status: 201, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/held-carts]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to hold cart.');
+  }
+}
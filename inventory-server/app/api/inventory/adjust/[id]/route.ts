@@ -0,0 +1,129 @@
+/**
+ * /api/inventory/adjust/[id] — GET one adjustment; POST { action: 'approve' | 'reject' } decides a pending one.
+ * Managers and admins only. Approving posts the adjustment to stock; rejecting leaves stock unchanged.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
+import { notifyProductsUpdated } from '@/lib/cache/productsCache';
+import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+import { getStockAdjustment } from '@/lib/data/stockAdjustments';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+async function canAccess(auth: { email: string; role: string }, warehouseId: string): Promise<boolean> {
+  if (/^(admin|super_admin)$/i.test(auth.role ?? '')) return true;
+  const scope = await getScopeForUser(auth.email);
+  return scope.allowedWarehouseIds.includes(warehouseId);
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    const adjustment = await getStockAdjustment(id);
+    if (!adjustment) return fail(404, 'Adjustment not found.');
+    if (!(await canAccess(auth, adjustment.warehouseId))) return fail(403, 'You do not have access to this adjustment.');
+
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(adjustment, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/inventory/adjust/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load adjustment.');
+  }
+}
+
+export async function POST(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    if (!/^(admin|super_admin|manager)$/i.test(auth.role ?? '')) {
+      return fail(403, 'Only a manager can approve or reject adjustments.');
+    }
+
+    let body: { action?: string };
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    if (body?.action !== 'approve' && body?.action !== 'reject') {
+      return fail(400, 'action must be approve or reject.');
+    }
+
+    const adjustment = await getStockAdjustment(id);
+    if (!adjustment) return fail(404, 'Adjustment not found.');
+    if (!(await canAccess(auth, adjustment.warehouseId))) return fail(403, 'You do not have access to this adjustment.');
+
+    const db = getSupabase();
+    const { error } = await withStockLedgerContext(
+      db.rpc(body.action === 'approve' ? 'approve_stock_adjustment' : 'reject_stock_adjustment', {
+        p_adjustment_id: id,
+        p_by_email: auth.email ?? null,
+      }),
+      { referenceId: id, actor: auth.email }
+    );
+    if (error) {
+      const msg = error.message ?? '';
+      if (/ADJUSTMENT_NOT_PENDING/.test(msg)) {
+        return fail(409, 'This adjustment has already been decided.', 'ADJUSTMENT_NOT_PENDING');
+      }
+      if (/INSUFFICIENT_STOCK/.test(msg)) {
+        return fail(409, 'Adjustment would take stock below zero.', 'INSUFFICIENT_STOCK');
+      }
+      if (error.code === 'P0001') return fail(422, msg);
+      console.error('[POST /api/inventory/adjust/[id]]', error);
+      return fail(500, msg || 'Failed to update adjustment.');
+    }
+
+    if (body.action === 'approve') {
+      await notifyProductsUpdated(adjustment.warehouseId);
+      await notifyInventoryUpdated(adjustment.warehouseId);
+    }
+
+    const updated = await getStockAdjustment(id);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(updated, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/inventory/adjust/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * /api/inventory/adjust — reason-coded stock adjustments.
+ * POST { warehouseId, reason, note, lines[{ productId, sizeCode?, delta }] }. reason is one of damaged, lost, theft,
+ * found, gift, correction; note is required. Managers and admins post straight to stock (201). Other staff post at
+ * once only within the approval limits (STOCK_ADJUSTMENT_APPROVAL_UNITS / _VALUE); bigger adjustments are stored
+ * as pending (202) until a manager approves them via /api/inventory/adjust/[id].
+ * GET ?warehouse_id=&status= lists adjustments (e.g. status=pending for the approval queue).
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
+import { notifyProductsUpdated } from '@/lib/cache/productsCache';
+import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+import {
+  ADJUSTMENT_REASONS,
+  getAdjustmentApprovalLimits,
+  getStockAdjustment,
+  isAdjustmentReason,
+  listStockAdjustments,
+  type StockAdjustmentStatus,
+} from '@/lib/data/stockAdjustments';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+interface AdjustBody {
+  warehouseId?: string;
+  reason?: string;
+  note?: string;
+  lines?: Array<{ productId?: string; sizeCode?: string | null; delta?: number }>;
+}
+
+async function canAccess(auth: { email: string; role: string }, warehouseId: string): Promise<boolean> {
+  if (/^(admin|super_admin)$/i.test(auth.role ?? '')) return true;
+  const scope = await getScopeForUser(auth.email);
+  return scope.allowedWarehouseIds.includes(warehouseId);
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const { searchParams } = new URL(req.url);
+    const warehouseId = searchParams.get('warehouse_id')?.trim() ?? '';
+    if (!warehouseId) return fail(400, 'warehouse_id is required.');
+    if (!(await canAccess(auth, warehouseId))) return fail(403, 'You do not have access to this warehouse.');
+
+    const statusParam = searchParams.get('status');
+    const status = statusParam && ['pending', 'applied', 'rejected'].includes(statusParam)
+      ? (statusParam as StockAdjustmentStatus)
+      : undefined;
+    const data = await listStockAdjustments({ warehouseId, status, limit: Number(searchParams.get('limit')) || undefined });
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ data }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/inventory/adjust]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load adjustments.');
+  }
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    let body: AdjustBody;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const warehouseId = typeof body?.warehouseId === 'string' ? body.warehouseId.trim() : '';
+    if (!warehouseId) return fail(400, 'warehouseId is required.');
+    if (!isAdjustmentReason(body.reason)) {
+      return fail(400, `reason must be one of ${ADJUSTMENT_REASONS.join(', ')}.`);
+    }
+    const note = typeof body.note === 'string' ? body.note.trim() : '';
+    if (!note) return fail(400, 'note is required.');
+    if (!(await canAccess(auth, warehouseId))) return fail(403, 'You do not have access to this warehouse.');
+
+    const lines = (Array.isArray(body.lines) ? body.lines : [])
+      .filter((l) => l && typeof l.productId === 'string' && Number.isInteger(Number(l.delta)) && Number(l.delta) !== 0)
+      .map((l) => ({
+        productId: l.productId as string,
+        sizeCode: typeof l.sizeCode === 'string' && l.sizeCode.trim() ? l.sizeCode.trim().toUpperCase() : null,
+        delta: Number(l.delta),
+      }));
+    if (lines.length === 0) return fail(422, 'At least one line with a non-zero whole-number delta is required.');
+
+    const canApprove = /^(admin|super_admin|manager)$/i.test(auth.role ?? '');
+    const { maxUnits, maxValue } = getAdjustmentApprovalLimits();
+
+    const db = getSupabase();
+    const { data, error } = await withStockLedgerContext(db.rpc('create_stock_adjustment', {
+      p_warehouse_id: warehouseId,
+      p_reason_code: body.reason,
+      p_note: note,
+      p_lines: lines,
+      p_requested_by_email: auth.email ?? null,
+      p_can_approve: canApprove,
+      p_max_units: maxUnits,
+      p_max_value: maxValue,
+    }), { actor: auth.email });
+    if (error) {
+      const msg = error.message ?? '';
+      if (/INSUFFICIENT_STOCK/.test(msg)) {
+        return fail(409, 'Adjustment would take stock below zero.', 'INSUFFICIENT_STOCK');
+      }
+      if (error.code === 'P0001') return fail(422, msg);
+      console.error('[POST /api/inventory/adjust]', error);
+      return fail(500, msg || 'Failed to adjust stock.');
+    }
+
+    const result = data as { id: string; status: StockAdjustmentStatus };
+    if (result.status === 'applied') {
+      await notifyProductsUpdated(warehouseId);
+      await notifyInventoryUpdated(warehouseId);
+    }
+
+    const adjustment = await getStockAdjustment(result.id);
+    const status = result.status === 'applied' ? 201 : 202;
+    logApiResponse(req, status, Date.now() - start);
+    return withCors(NextResponse.json(adjustment, { status, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/inventory/adjust]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * PUT /api/manager-approvals/pin — a manager (or admin) sets their own override PIN. Body: { pin } (4–8 digits).
+ * The role is captured from the session now, so a manager who is later demoted must have their PIN row removed.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { isApproverRole, isValidPin, setManagerPin } from '@/lib/auth/managerApproval';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function PUT(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    if (!isApproverRole(auth.role)) return fail(403, 'Only managers can set an approval PIN.');
+
+    let body: { pin?: string };
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    if (!isValidPin(body?.pin)) return fail(400, 'PIN must be 4 to 8 digits.');
+
+    await setManagerPin(auth.email, auth.role, body.pin);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ ok: true }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[PUT /api/manager-approvals/pin]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to set PIN.');
+  }
+}
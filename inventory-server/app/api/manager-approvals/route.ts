@@ -0,0 +1,113 @@
+/**
+ * POST /api/manager-approvals — manager override on the cashier's device.
+ * Body: { managerEmail, pin, action: 'discount' | 'void' | 'refund', amount?, warehouseId?, saleId?, reason? }; amount is
+ * the discount % or the refund total and is required for both (the token covers up to that much).
+ * Called with the cashier's session; the manager proves themselves with their PIN (PUT /api/manager-approvals/pin).
+ * Returns { token, expiresAt, approvedBy }: a 5-minute signed approval the cashier sends back as managerApproval to
+ * POST /api/sales (discount %), PATCH /api/sales or POST /api/sales/void (void) and POST /api/sales/returns (refund).
+ * Wrong PIN → 403 WRONG_PIN; five in a row lock the PIN for 15 minutes → 429 PIN_LOCKED.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth, getEffectiveWarehouseId } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { APPROVAL_ACTIONS, type ApprovalAction } from '@/lib/data/roleLimits';
+import { approverLimitReason, checkManagerPin, issueManagerApproval, isValidPin } from '@/lib/auth/managerApproval';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface ApprovalBody {
+  managerEmail?: string;
+  pin?: string;
+  action?: string;
+  amount?: number | null;
+  warehouseId?: string | null;
+  saleId?: string | null;
+  reason?: string | null;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    let body: ApprovalBody;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+
+    const managerEmail = typeof body?.managerEmail === 'string' ? body.managerEmail.trim().toLowerCase() : '';
+    if (!managerEmail) return fail(400, 'managerEmail is required.');
+    if (!isValidPin(body.pin)) return fail(400, 'PIN must be 4 to 8 digits.');
+    const action = body.action as ApprovalAction;
+    if (!APPROVAL_ACTIONS.includes(action)) return fail(400, `action must be one of: ${APPROVAL_ACTIONS.join(', ')}.`);
+    if (managerEmail === auth.email.trim().toLowerCase()) {
+      return fail(403, 'Another manager has to approve this.', 'SELF_APPROVAL');
+    }
+
+    const amount = body.amount != null && Number.isFinite(Number(body.amount)) ? Math.max(0, Number(body.amount)) : null;
+    if (action === 'discount' && amount == null) return fail(400, 'amount (discount %) is required.');
+    if (action === 'refund' && amount == null) return fail(400, 'amount (refund total) is required.');
+    const saleId = typeof body.saleId === 'string' && UUID_RE.test(body.saleId) ? body.saleId : null;
+    if (action !== 'discount' && !saleId) return fail(400, 'saleId is required.');
+
+    let warehouseId: string | null = null;
+    if (typeof body.warehouseId === 'string' && body.warehouseId.trim()) {
+      warehouseId = await getEffectiveWarehouseId(auth, body.warehouseId);
+      if (!warehouseId) return fail(403, 'You do not have access to this warehouse.');
+    }
+
+    const pin = await checkManagerPin(managerEmail, body.pin);
+    if (!pin.ok) return fail(pin.code === 'PIN_LOCKED' ? 429 : 403, pin.message, pin.code);
+
+    if (warehouseId && !/^(admin|super_admin)$/i.test(pin.role)) {
+      const scope = await getScopeForUser(pin.email);
+      if (!scope.allowedWarehouseIds.includes(warehouseId)) {
+        return fail(403, 'That manager does not have access to this location.', 'APPROVER_SCOPE');
+      }
+    }
+    const overLimit = await approverLimitReason(pin.role, action, amount ?? 0);
+    if (overLimit) return fail(403, overLimit, 'APPROVER_LIMIT');
+
+    const issued = await issueManagerApproval({
+      action,
+      amount,
+      warehouseId,
+      saleId,
+      requestedBy: auth.email,
+      approvedBy: pin.email,
+      reason: typeof body.reason === 'string' ? body.reason.trim() || null : null,
+    });
+
+    logApiResponse(req, 201, Date.now() - start);
+    return withCors(NextResponse.json({ ...issued, approvedBy: pin.email }, { status: 201, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/manager-approvals]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to approve.');
+  }
+}
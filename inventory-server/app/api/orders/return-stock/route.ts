@@ -32,7 +32,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
     const { warehouseId, items } = parsed.data;
 
-    await processReturnStock(warehouseId, items);
+    await processReturnStock(warehouseId, items, auth.email);
     await notifyInventoryUpdated(warehouseId);
     return withCors(NextResponse.json({ ok: true }), request);
   } catch (e: unknown) {
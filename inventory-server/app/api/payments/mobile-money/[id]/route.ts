@@ -0,0 +1,66 @@
+/**
+ * GET /api/payments/mobile-money/[id] — status of a mobile money prompt. While pending, asks the provider first
+ * (the webhook may not have arrived), so the POS can poll this until it is successful or failed.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth, getEffectiveWarehouseId } from '@/lib/auth/session';
+import { getMobileMoneyProvider } from '@/lib/payments/provider';
+import { MobileMoneyProviderError } from '@/lib/payments/mobileMoney';
+import { getMobileMoneyPayment, refreshMobileMoneyPayment } from '@/lib/data/mobileMoneyPayments';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    let payment = await getMobileMoneyPayment(id);
+    if (!payment) return fail(404, 'Mobile money payment not found.');
+    if ((await getEffectiveWarehouseId(auth, payment.warehouseId)) !== payment.warehouseId) {
+      return fail(403, 'You do not have access to this payment.');
+    }
+
+    const provider = getMobileMoneyProvider();
+    if (provider) {
+      try {
+        payment = await refreshMobileMoneyPayment(payment, provider);
+      } catch (e) {
+        // Provider hiccup: report the stored status; the POS keeps polling.
+        if (!(e instanceof MobileMoneyProviderError)) throw e;
+        console.warn('[GET /api/payments/mobile-money/[id]] provider', e.status, e.message);
+      }
+    }
+
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(payment, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/payments/mobile-money/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load payment.');
+  }
+}
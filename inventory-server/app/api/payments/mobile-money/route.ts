@@ -0,0 +1,98 @@
+/**
+ * /api/payments/mobile-money — mobile money prompts sent to the customer's phone.
+ * GET: { enabled, provider, currency } — whether a provider is configured (MOMO_PROVIDER); when it is not, the POS
+ * records mobile money without a prompt, as before.
+ * POST { warehouseId, phone, amount } sends a collection request and returns the pending payment (201). The POS
+ * then polls GET /api/payments/mobile-money/[id] until it is successful or failed, and sends the payment id with
+ * the sale (see POST /api/sales). Bad number → 400 INVALID_PHONE; provider refused → 502 PROVIDER_ERROR.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth, getEffectiveWarehouseId } from '@/lib/auth/session';
+import { getMobileMoneyProvider } from '@/lib/payments/provider';
+import { MobileMoneyProviderError, normalizeMsisdn } from '@/lib/payments/mobileMoney';
+import { requestMobileMoneyPayment } from '@/lib/data/mobileMoneyPayments';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 20;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const h = corsHeaders(req);
+  const auth = await requireAuth(req);
+  if (auth instanceof NextResponse) return withCors(auth, req);
+  const provider = getMobileMoneyProvider();
+  return withCors(
+    NextResponse.json(
+      { enabled: provider != null, provider: provider?.name ?? null, currency: provider?.currency ?? null },
+      { status: 200, headers: h }
+    ),
+    req
+  );
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const provider = getMobileMoneyProvider();
+    if (!provider) return fail(503, 'Mobile money prompts are not set up on this server.', 'MOMO_DISABLED');
+
+    let body: { warehouseId?: string; phone?: string; amount?: number };
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const warehouseId = typeof body?.warehouseId === 'string' ? body.warehouseId.trim() : '';
+    if (!warehouseId) return fail(400, 'warehouseId is required.');
+    const phone = normalizeMsisdn(typeof body.phone === 'string' ? body.phone : '');
+    if (!phone) return fail(400, 'Enter a valid mobile money number.', 'INVALID_PHONE');
+    const amount = Number(body.amount);
+    if (!Number.isFinite(amount) || amount <= 0) return fail(400, 'amount must be more than 0.');
+
+    const effectiveWarehouseId = await getEffectiveWarehouseId(auth, warehouseId);
+    if (!effectiveWarehouseId) return fail(403, 'You do not have access to this warehouse.');
+
+    let payment;
+    try {
+      payment = await requestMobileMoneyPayment(provider, {
+        warehouseId: effectiveWarehouseId,
+        phone,
+        amount,
+        requestedByEmail: auth.email ?? null,
+      });
+    } catch (e) {
+      if (e instanceof MobileMoneyProviderError) {
+        console.error('[POST /api/payments/mobile-money] provider', e.status, e.message);
+        return fail(502, 'The mobile money provider did not accept the request. Try again or take another payment.', 'PROVIDER_ERROR');
+      }
+      throw e;
+    }
+    logApiResponse(req, 201, Date.now() - start);
+    return withCors(NextResponse.json(payment, { status: 201, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/payments/mobile-money]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
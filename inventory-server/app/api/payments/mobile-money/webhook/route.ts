@@ -0,0 +1,65 @@
+/**
+ * POST|PUT /api/payments/mobile-money/webhook — provider callback (MOMO_CALLBACK_URL points here). No session: the
+ * provider calls it. MTN does not sign callbacks, so the body is only used to find the payment (externalId = our
+ * id, or the reference id); the status is then re-read from the provider. When MOMO_WEBHOOK_SECRET is set the
+ * callback URL must carry ?token=<secret>. Always answers 200 once the token checks out so the provider stops
+ * retrying; the POS poll picks up anything missed here.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { getMobileMoneyProvider } from '@/lib/payments/provider';
+import { getMobileMoneyPayment, refreshMobileMoneyPayment } from '@/lib/data/mobileMoneyPayments';
+import { getSupabase } from '@/lib/supabase';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function tokenOk(req: NextRequest): boolean {
+  const secret = process.env.MOMO_WEBHOOK_SECRET?.trim();
+  if (!secret) return true;
+  const given = Buffer.from(req.nextUrl.searchParams.get('token') ?? '');
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function findPaymentId(body: Record<string, unknown>): Promise<string | null> {
+  const externalId = typeof body.externalId === 'string' ? body.externalId.trim() : '';
+  if (UUID_RE.test(externalId)) return externalId;
+  const ref = typeof body.referenceId === 'string' ? body.referenceId.trim() : '';
+  if (!ref) return null;
+  const { data } = await getSupabase()
+    .from('mobile_money_payments')
+    .select('id')
+    .eq('provider_ref', ref)
+    .maybeSingle();
+  return (data?.id as string | undefined) ?? null;
+}
+
+async function handle(req: NextRequest): Promise<NextResponse> {
+  if (!tokenOk(req)) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  try {
+    let body: Record<string, unknown> = {};
+    try {
+      body = (await req.json()) as Record<string, unknown>;
+    } catch {
+      // Empty or non-JSON callback: nothing to match.
+    }
+    const provider = getMobileMoneyProvider();
+    const id = body && typeof body === 'object' ? await findPaymentId(body) : null;
+    const payment = id ? await getMobileMoneyPayment(id) : null;
+    if (provider && payment) await refreshMobileMoneyPayment(payment, provider);
+  } catch (e) {
+    console.error('[webhook /api/payments/mobile-money]', e);
+  }
+  return NextResponse.json({ received: true }, { status: 200 });
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  return handle(req);
+}
+
+export async function PUT(req: NextRequest): Promise<NextResponse> {
+  return handle(req);
+}
@@ -13,7 +13,8 @@ import { isValidId } from '@/lib/validation';
 import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
 import { notifyProductsUpdated } from '@/lib/cache/productsCache';
 import { getSizeCodes } from '@/lib/data/sizeCodes';
-import { deleteWarehouseProduct } from '@/lib/data/warehouseProducts';
+import { deleteWarehouseProduct, getProductById } from '@/lib/data/warehouseProducts';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
 import { uploadProductImages } from '@/lib/storage/productImages';
 
 function withCors(res: NextResponse, req: NextRequest): NextResponse {
@@ -166,6 +167,12 @@ async function handleUpdate(req: NextRequest, ctx: RouteCtx) {
     }
 
     const existing = existingRow as { id?: string; version?: number; size_kind?: string };
+    // A product with colour variants has no stock of its own (its sizes here are the variants' summed).
+    const { count: variantCount } = await db
+      .from('warehouse_products')
+      .select('id', { count: 'exact', head: true })
+      .eq('parent_id', id);
+    const hasVariants = (variantCount ?? 0) > 0;
     const currentVersion = Number(existing.version ?? 0);
     const sizeKind       = normSK(body, existing.size_kind ?? '');
     const rawSizes       = parseRawSizes(body);
@@ -226,6 +233,8 @@ async function handleUpdate(req: NextRequest, ctx: RouteCtx) {
       }
     }
 
+    if (hasVariants) sizesToWrite = null;
+
     // Validate size codes against catalog before DB write (trigger would reject invalid codes). ONE_?SIZE is always allowed (synthetic/legacy).
     if (sizesToWrite && sizesToWrite.length > 0) {
       const catalog = await getSizeCodes();
@@ -276,23 +285,47 @@ async function handleUpdate(req: NextRequest, ctx: RouteCtx) {
     }
 
     // Write by_size and warehouse_inventory (single source of truth for update path).
+    // Remove only the sizes that are gone and upsert the rest, so the stock ledger records real changes only.
     if (sizesToWrite !== null) {
-      await db.from('warehouse_inventory_by_size').delete().eq('warehouse_id', wid).eq('product_id', id);
-      if (sizesToWrite.length > 0) {
-        const { error: bySizeErr } = await db.from('warehouse_inventory_by_size').insert(
-          sizesToWrite.map(r => ({
-            warehouse_id: wid,
-            product_id: id,
-            size_code: r.sizeCode,
-            quantity: Math.max(0, r.quantity),
-            updated_at: now,
-          }))
+      const ledger = { referenceType: 'product_edit', referenceId: id, actor: auth.email };
+      let rowsToWrite = sizesToWrite;
+      if (rowsToWrite.length === 0 && totalQty > 0) {
+        // No sizes: keep the single NA/OS row the backfill trigger made and set its quantity, rather than deleting it
+        // and letting the trigger re-create it (two ledger rows for one edit).
+        const { data: current } = await db
+          .from('warehouse_inventory_by_size')
+          .select('size_code')
+          .eq('warehouse_id', wid)
+          .eq('product_id', id);
+        const codes = (current ?? []).map((r: { size_code: string }) => r.size_code);
+        if (codes.length === 1 && /^(NA|OS)$/i.test(codes[0])) rowsToWrite = [{ sizeCode: codes[0], quantity: totalQty }];
+      }
+      const keep = rowsToWrite.map(r => r.sizeCode);
+      let removeSizes = db.from('warehouse_inventory_by_size').delete().eq('warehouse_id', wid).eq('product_id', id);
+      if (keep.length > 0) removeSizes = removeSizes.not('size_code', 'in', `(${keep.map(c => `"${c}"`).join(',')})`);
+      await withStockLedgerContext(removeSizes, ledger);
+      if (rowsToWrite.length > 0) {
+        const { error: bySizeErr } = await withStockLedgerContext(
+          db.from('warehouse_inventory_by_size').upsert(
+            rowsToWrite.map(r => ({
+              warehouse_id: wid,
+              product_id: id,
+              size_code: r.sizeCode,
+              quantity: Math.max(0, r.quantity),
+              updated_at: now,
+            })),
+            { onConflict: 'warehouse_id,product_id,size_code' }
+          ),
+          ledger
         );
         if (bySizeErr) throw new Error(`Failed to save sizes: ${bySizeErr.message}`);
       }
-      await db.from('warehouse_inventory').upsert(
-        { warehouse_id: wid, product_id: id, quantity: totalQty, updated_at: now },
-        { onConflict: 'warehouse_id,product_id' }
+      await withStockLedgerContext(
+        db.from('warehouse_inventory').upsert(
+          { warehouse_id: wid, product_id: id, quantity: totalQty, updated_at: now },
+          { onConflict: 'warehouse_id,product_id' }
+        ),
+        ledger
       );
     }
 
@@ -361,9 +394,9 @@ type DB = ReturnType<typeof getSupabase>;
 
 /** Select list when warehouse_products has no warehouse_id (one row per product). */
 const PRODUCT_SELECT = `
-  id, sku, barcode, name, description, category,
+  id, parent_id, sku, barcode, name, description, category,
   size_kind, selling_price, cost_price, reorder_level,
-  location, supplier, tags, images, version, created_at, updated_at
+  location, supplier, tags, images, color, tax_class_id, version, created_at, updated_at
 `;
 
 async function fetchOne(db: DB, id: string, wid: string) {
@@ -375,6 +408,15 @@ async function fetchOne(db: DB, id: string, wid: string) {
 
   if (!p) return null;
 
+  // A product with colour variants: stock summed from the variants, which come with it.
+  if ((p as { parent_id?: string | null }).parent_id == null) {
+    const { count } = await db
+      .from('warehouse_products')
+      .select('id', { count: 'exact', head: true })
+      .eq('parent_id', id);
+    if ((count ?? 0) > 0) return getProductById(wid, id);
+  }
+
   const { data: invRow } = await db
     .from('warehouse_inventory')
     .select('quantity')
@@ -427,6 +469,7 @@ function toShape(row: Record<string, unknown>, quantity: number, sizes: SizeEntr
   return {
     id:           String(row.id ?? ''),
     warehouseId:  String(row.warehouse_id ?? ''),
+    parentId:     row.parent_id != null ? String(row.parent_id) : null,
     sku:          String(row.sku ?? ''),
     barcode:      row.barcode ?? null,
     name:         String(row.name ?? ''),
@@ -442,9 +485,12 @@ function toShape(row: Record<string, unknown>, quantity: number, sizes: SizeEntr
     supplier:     row.supplier ?? null,
     tags:         Array.isArray(row.tags)   ? row.tags   : [],
     images:       ensureImagesArray(row.images),
+    color:        row.color != null ? String(row.color).trim() || null : null,
+    taxClassId:   row.tax_class_id != null ? String(row.tax_class_id) : null,
     version:      Number(row.version ?? 0),
     createdAt:    String(row.created_at  ?? ''),
     updatedAt:    String(row.updated_at  ?? ''),
+    variants:     [],
   };
 }
 
@@ -471,6 +517,9 @@ function buildRow(
     supplier:      b.supplier  ?? null,
     tags:          Array.isArray(b.tags)   ? b.tags   : [],
     images:        Array.isArray(b.images) ? b.images : [],
+    // Left alone when the form does not send it (older clients), so an edit does not clear the class.
+    ...(b.taxClassId !== undefined ? { tax_class_id: b.taxClassId ? String(b.taxClassId).trim() : null } : {}),
+    ...(b.color !== undefined ? { color: b.color != null ? String(b.color).trim() || null : null } : {}),
     version,
     updated_at: now,
   };
@@ -0,0 +1,74 @@
+/**
+ * GET /api/products/changes — incremental product sync for a warehouse.
+ * Query: warehouse_id (required), since (cursor from the last call), limit (max 250), view=list|full (default list).
+ * Without since: { cursor } only — read it before a full product load, then sync from it.
+ * With since: { data, deleted, cursor, hasMore }. data are products changed or added (price, details or stock at
+ * this warehouse), as in GET /api/products; deleted are ids deleted or no longer stocked here. Call again with the
+ * returned cursor while hasMore. A product may come back again on a later call when a slow transaction that changed it
+ * commits after the cursor was read; apply it the same way.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getProductChangeCursor, getProductChanges, parseCursor } from '@/lib/data/productChanges';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+async function canAccess(auth: { email: string; role: string }, warehouseId: string): Promise<boolean> {
+  const scope = await getScopeForUser(auth.email);
+  if (/^(admin|super_admin)$/i.test(auth.role ?? '') && scope.allowedWarehouseIds.length === 0) return true;
+  return scope.allowedWarehouseIds.includes(warehouseId);
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const { searchParams } = new URL(req.url);
+    const warehouseId = searchParams.get('warehouse_id')?.trim() ?? '';
+    if (!warehouseId) return fail(400, 'warehouse_id is required.');
+    if (!(await canAccess(auth, warehouseId))) return fail(403, 'You do not have access to this warehouse.');
+
+    const rawSince = searchParams.get('since');
+    let body: object;
+    if (rawSince == null || rawSince.trim() === '') {
+      body = { cursor: await getProductChangeCursor() };
+    } else {
+      const since = parseCursor(rawSince);
+      if (since == null) return fail(400, 'since must be a cursor returned by this endpoint.', 'INVALID_CURSOR');
+      const limit = Number(searchParams.get('limit') ?? '') || undefined;
+      const view = searchParams.get('view')?.toLowerCase() === 'full' ? 'full' : 'list';
+      body = await getProductChanges(warehouseId, since, { limit, view });
+    }
+    const res = NextResponse.json(body, { status: 200, headers: h });
+    res.headers.set('Cache-Control', 'private, no-store, max-age=0');
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(res, req);
+  } catch (e) {
+    console.error('[GET /api/products/changes]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load product changes.');
+  }
+}
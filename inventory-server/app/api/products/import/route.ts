@@ -0,0 +1,97 @@
+/**
+ * POST /api/products/import — bulk create / update products from a CSV, keyed by SKU.
+ * Body: { warehouseId, csv, fileName?, dryRun? }. Columns: see lib/data/productImport.ts.
+ * dryRun (default true) returns the diff per row (create / update / unchanged / error) without writing. Otherwise the
+ * file is applied in one transaction, only when no row has an error; applying it again changes nothing.
+ * Admin/super_admin only.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAdmin, getEffectiveWarehouseId } from '@/lib/auth/session';
+import { notifyProductsUpdated } from '@/lib/cache/productsCache';
+import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+import { MAX_IMPORT_ROWS, applyProductImport, planProductImport } from '@/lib/data/productImport';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/** About MAX_IMPORT_ROWS rows with a few image URLs each. */
+const MAX_CSV_LENGTH = 2_000_000;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAdmin(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    let body: { warehouseId?: unknown; csv?: unknown; fileName?: unknown; dryRun?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const bodyWarehouseId = typeof body?.warehouseId === 'string' ? body.warehouseId.trim() : '';
+    const warehouseId = await getEffectiveWarehouseId(auth, bodyWarehouseId || undefined);
+    if (!warehouseId) return fail(400, 'warehouseId is required and must be in your scope.');
+    const csv = typeof body.csv === 'string' ? body.csv : '';
+    if (!csv.trim()) return fail(400, 'csv is required.', 'IMPORT_EMPTY');
+    if (csv.length > MAX_CSV_LENGTH) return fail(413, 'The file is too large. Split it into smaller files.', 'IMPORT_TOO_LARGE');
+    const dryRun = body.dryRun !== false;
+
+    let result;
+    try {
+      result = dryRun
+        ? await planProductImport(warehouseId, csv)
+        : await applyProductImport(warehouseId, csv, {
+            fileName: typeof body.fileName === 'string' ? body.fileName : null,
+            actor: auth.email ?? null,
+          });
+    } catch (e) {
+      const msg = (e as { message?: string })?.message ?? '';
+      if (/IMPORT_EMPTY/.test(msg)) return fail(400, 'The file has no rows.', 'IMPORT_EMPTY');
+      if (/IMPORT_NO_SKU_COLUMN/.test(msg)) {
+        return fail(400, 'The file needs a header row with a SKU column.', 'IMPORT_NO_SKU_COLUMN');
+      }
+      if (/IMPORT_TOO_LARGE/.test(msg)) {
+        return fail(413, `At most ${MAX_IMPORT_ROWS} products per file. Split it into smaller files.`, 'IMPORT_TOO_LARGE');
+      }
+      if (/IMPORT_HAS_ERRORS/.test(msg)) {
+        return fail(422, 'Some rows have errors. Fix them and preview the file again.', 'IMPORT_HAS_ERRORS');
+      }
+      if ((e as { code?: string })?.code === 'P0001' || (e as { code?: string })?.code === '23505') {
+        return fail(409, `Products changed while importing (${msg}). Preview the file again.`, 'IMPORT_CONFLICT');
+      }
+      throw e;
+    }
+
+    if (!dryRun && 'importId' in result && result.importId) {
+      await notifyProductsUpdated(warehouseId);
+      await notifyInventoryUpdated(warehouseId);
+    }
+
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(result, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/products/import]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to import products.');
+  }
+}
@@ -323,7 +323,7 @@ export async function PUT(req: NextRequest): Promise<NextResponse> {
   };
 
   try {
-    const updated = await updateWarehouseProduct(productId, effectiveWarehouseId, normalizedBody);
+    const updated = await updateWarehouseProduct(productId, effectiveWarehouseId, normalizedBody, { actor: auth.email });
     if (!updated) {
       return withCors(NextResponse.json({ error: 'Product not found' }, { status: 404, headers: h }), req);
     }
@@ -0,0 +1,133 @@
+/**
+ * /api/products/variants/[id] — one colour variant.
+ * PUT { warehouseId, color?, sku?, barcode?, images?, sizeKind?, quantity?, quantityBySize? } updates what the
+ * variant has of its own, and its stock at the warehouse when stock fields are sent.
+ * DELETE ?warehouse_id= removes a variant without stock in any warehouse.
+ * Both return the product with its variants, as in GET /api/products. Admin/super_admin only.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAdmin, getEffectiveWarehouseId } from '@/lib/auth/session';
+import { isValidId } from '@/lib/validation';
+import { notifyProductsUpdated } from '@/lib/cache/productsCache';
+import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+import { uploadProductImages } from '@/lib/storage/productImages';
+import { deleteProductVariant, parseVariantInput, updateProductVariant } from '@/lib/data/productVariants';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 30;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function PUT(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAdmin(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+    if (!isValidId(id)) return fail(400, 'Invalid variant id.');
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const bodyWarehouseId = typeof body?.warehouseId === 'string' ? body.warehouseId.trim() : '';
+    const warehouseId = await getEffectiveWarehouseId(auth, bodyWarehouseId || undefined);
+    if (!warehouseId) return fail(400, 'warehouseId is required and must be in your scope.');
+
+    const input = parseVariantInput(body);
+    if (input.color !== undefined && !input.color) return fail(400, 'Choose a colour for the variant.', 'COLOR_REQUIRED');
+    if (input.images && input.images.length > 0) {
+      try {
+        input.images = await uploadProductImages(input.images, id);
+      } catch (e) {
+        console.error('[PUT /api/products/variants/[id]] image upload failed:', e instanceof Error ? e.message : e);
+      }
+    }
+
+    let product;
+    try {
+      product = await updateProductVariant(id, warehouseId, input, { actor: auth.email });
+    } catch (e) {
+      const msg = (e as { message?: string })?.message ?? '';
+      if (/VARIANT_NOT_FOUND/.test(msg)) return fail(404, 'Variant not found.', 'VARIANT_NOT_FOUND');
+      if (/already has a variant in that colour/.test(msg)) return fail(409, msg, 'DUPLICATE_COLOR');
+      if (/already exists/.test(msg)) return fail(409, msg, 'DUPLICATE_SKU');
+      if (/Invalid size code/i.test(msg)) return fail(400, msg, 'INVALID_SIZE_CODE');
+      throw e;
+    }
+
+    await notifyProductsUpdated(warehouseId);
+    await notifyInventoryUpdated(warehouseId);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(product, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[PUT /api/products/variants/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to update variant.');
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAdmin(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+    if (!isValidId(id)) return fail(400, 'Invalid variant id.');
+
+    const queryWarehouseId = req.nextUrl.searchParams.get('warehouse_id')?.trim() ?? '';
+    const warehouseId = await getEffectiveWarehouseId(auth, queryWarehouseId || undefined);
+    if (!warehouseId) return fail(400, 'warehouse_id is required and must be in your scope.');
+
+    let product;
+    try {
+      product = await deleteProductVariant(id, warehouseId);
+    } catch (e) {
+      const msg = (e as { message?: string })?.message ?? '';
+      if (/VARIANT_NOT_FOUND/.test(msg)) return fail(404, 'Variant not found.', 'VARIANT_NOT_FOUND');
+      if (/VARIANT_HAS_STOCK/.test(msg)) {
+        return fail(409, 'This colour still has stock. Transfer or adjust it out first.', 'VARIANT_HAS_STOCK');
+      }
+      if (/foreign key/i.test(msg)) {
+        return fail(409, 'This colour has sales or stock history and cannot be removed.', 'VARIANT_IN_USE');
+      }
+      throw e;
+    }
+
+    await notifyProductsUpdated(warehouseId);
+    await notifyInventoryUpdated(warehouseId);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(product, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[DELETE /api/products/variants/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to remove variant.');
+  }
+}
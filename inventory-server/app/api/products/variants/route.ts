@@ -0,0 +1,96 @@
+/**
+ * POST /api/products/variants — add a colour variant to a product.
+ * Body: { productId, warehouseId, color, sku?, barcode?, images?, sizeKind?, quantity?, quantityBySize? }.
+ * The first variant of a product takes the product's stock over; stock fields, when sent, set the new variant's
+ * stock at the warehouse. Returns the product with its variants, as in GET /api/products.
+ * Admin/super_admin only.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAdmin, getEffectiveWarehouseId } from '@/lib/auth/session';
+import { isValidId } from '@/lib/validation';
+import { notifyProductsUpdated } from '@/lib/cache/productsCache';
+import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+import { uploadProductImages } from '@/lib/storage/productImages';
+import { addProductVariant, parseVariantInput } from '@/lib/data/productVariants';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 30;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAdmin(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const productId = typeof body?.productId === 'string' ? body.productId.trim() : '';
+    if (!productId || !isValidId(productId)) return fail(400, 'productId is required.');
+    const bodyWarehouseId = typeof body.warehouseId === 'string' ? body.warehouseId.trim() : '';
+    const warehouseId = await getEffectiveWarehouseId(auth, bodyWarehouseId || undefined);
+    if (!warehouseId) return fail(400, 'warehouseId is required and must be in your scope.');
+
+    const input = parseVariantInput(body);
+    if (!input.color) return fail(400, 'Choose a colour for the variant.', 'COLOR_REQUIRED');
+    if (input.images && input.images.length > 0) {
+      try {
+        input.images = await uploadProductImages(input.images, productId);
+      } catch (e) {
+        console.error('[POST /api/products/variants] image upload failed:', e instanceof Error ? e.message : e);
+      }
+    }
+
+    let product;
+    try {
+      product = await addProductVariant(productId, warehouseId, input, { actor: auth.email });
+    } catch (e) {
+      const err = e as { message?: string; code?: string };
+      const msg = err?.message ?? '';
+      if (/PRODUCT_NOT_FOUND/.test(msg)) return fail(404, 'Product not found.', 'PRODUCT_NOT_FOUND');
+      if (/VARIANT_OF_VARIANT/.test(msg)) {
+        return fail(400, 'A variant cannot have variants of its own.', 'VARIANT_OF_VARIANT');
+      }
+      if (/COLOR_REQUIRED/.test(msg)) return fail(400, 'Choose a colour for the variant.', 'COLOR_REQUIRED');
+      if (err?.code === '23505') {
+        return /variant_color/i.test(msg)
+          ? fail(409, 'This product already has a variant in that colour.', 'DUPLICATE_COLOR')
+          : fail(409, 'A product with this SKU already exists. Use a unique SKU.', 'DUPLICATE_SKU');
+      }
+      if (/Invalid size code/i.test(msg)) return fail(400, msg, 'INVALID_SIZE_CODE');
+      if (err?.code === 'P0001') return fail(422, msg);
+      throw e;
+    }
+
+    await notifyProductsUpdated(warehouseId);
+    await notifyInventoryUpdated(warehouseId);
+    logApiResponse(req, 201, Date.now() - start);
+    return withCors(NextResponse.json(product, { status: 201, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/products/variants]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to add variant.');
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * /api/promotions/[id] — GET one promotion; PATCH any field (managers only), including { active: false } to end
+ * it early. There is no DELETE: sale lines keep pointing at the promotion that priced them.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import {
+  getPromotion,
+  promotionToInput,
+  updatePromotion,
+  validatePromotion,
+  type PromotionInput,
+} from '@/lib/data/promotions';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    const promotion = await getPromotion(id);
+    if (!promotion) return fail(404, 'Promotion not found.');
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(promotion, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/promotions/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load promotion.');
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    if (!/^(admin|super_admin|manager)$/i.test(auth.role ?? '')) {
+      return fail(403, 'Only a manager can change promotions.');
+    }
+    const { id } = await params;
+
+    let body: PromotionInput;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+
+    const current = await getPromotion(id);
+    if (!current) return fail(404, 'Promotion not found.');
+    const invalid = validatePromotion({ ...promotionToInput(current), ...body });
+    if (invalid) return fail(400, invalid);
+
+    const promotion = await updatePromotion(id, body);
+    if (!promotion) return fail(404, 'Promotion not found.');
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(promotion, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[PATCH /api/promotions/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to update promotion.');
+  }
+}
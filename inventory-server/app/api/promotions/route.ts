@@ -0,0 +1,100 @@
+/**
+ * /api/promotions — POS pricing rules.
+ * GET ?warehouse_id= promotions running now at that warehouse (what the cart evaluates); without it, every
+ * promotion (managers only, for the management screen).
+ * POST { name, kind, productIds?, categories?, warehouseIds?, percentOff | amountOff | buyQty+getQty |
+ * bundleQty+bundlePrice, startsAt?, endsAt? } creates a promotion (managers only).
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth, getEffectiveWarehouseId } from '@/lib/auth/session';
+import {
+  createPromotion,
+  listActivePromotions,
+  listPromotions,
+  validatePromotion,
+  type PromotionInput,
+} from '@/lib/data/promotions';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const warehouseId = new URL(req.url).searchParams.get('warehouse_id')?.trim();
+    if (warehouseId) {
+      const effectiveWarehouseId = await getEffectiveWarehouseId(auth, warehouseId);
+      if (!effectiveWarehouseId) return fail(403, 'You do not have access to this warehouse.');
+      const data = await listActivePromotions(effectiveWarehouseId);
+      logApiResponse(req, 200, Date.now() - start);
+      return withCors(NextResponse.json({ data }, { status: 200, headers: h }), req);
+    }
+
+    if (!/^(admin|super_admin|manager)$/i.test(auth.role ?? '')) {
+      return fail(403, 'Only a manager can list all promotions.');
+    }
+    const data = await listPromotions();
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ data }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/promotions]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load promotions.');
+  }
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    if (!/^(admin|super_admin|manager)$/i.test(auth.role ?? '')) {
+      return fail(403, 'Only a manager can create promotions.');
+    }
+
+    let body: PromotionInput;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const invalid = validatePromotion(body ?? {});
+    if (invalid) return fail(400, invalid);
+
+    const promotion = await createPromotion(body, auth.email);
+    logApiResponse(req, 201, Date.now() - start);
+    return withCors(NextResponse.json(promotion, { status: 201, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/promotions]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to create promotion.');
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * POST /api/purchase-orders/[id]/receive — receive goods against a sent PO.
+ * Body: lines[{ poLineId, qty }], reference?, notes?. Writes a GRN (reference defaults to the PO number),
+ * adds stock, updates cost_price from the PO line cost and moves the PO to partially_received or closed.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
+import { notifyProductsUpdated } from '@/lib/cache/productsCache';
+import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+import { getPurchaseOrder } from '@/lib/data/purchaseOrders';
+import { getGoodsReceipt } from '@/lib/data/goodsReceipts';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+interface ReceiveBody {
+  lines: Array<{ poLineId: string; qty: number }>;
+  reference?: string | null;
+  notes?: string | null;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function POST(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    let body: ReceiveBody;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+
+    const po = await getPurchaseOrder(id);
+    if (!po) return fail(404, 'Purchase order not found.');
+    const isAdmin = /^(admin|super_admin)$/i.test(auth.role ?? '');
+    if (!isAdmin) {
+      const scope = await getScopeForUser(auth.email);
+      if (!scope.allowedWarehouseIds.includes(po.warehouseId)) {
+        return fail(403, 'You do not have access to this purchase order.');
+      }
+    }
+
+    const lines = (Array.isArray(body?.lines) ? body.lines : [])
+      .filter((l) => l && typeof l.poLineId === 'string' && Number(l.qty) > 0)
+      .map((l) => ({ poLineId: l.poLineId, qty: Math.floor(Number(l.qty)) }));
+    if (lines.length === 0) return fail(422, 'At least one line with qty > 0 is required.');
+
+    const db = getSupabase();
+    const { data, error } = await withStockLedgerContext(db.rpc('receive_purchase_order', {
+      p_po_id: id,
+      p_lines: lines,
+      p_reference: typeof body.reference === 'string' ? body.reference : null,
+      p_notes: typeof body.notes === 'string' ? body.notes : null,
+      p_received_by_email: auth.email ?? null,
+    }), { actor: auth.email });
+    if (error) {
+      const msg = error.message ?? '';
+      if (/PO_NOT_RECEIVABLE/.test(msg)) {
+        return fail(409, 'Only sent or partially received purchase orders can be received.', 'PO_NOT_RECEIVABLE');
+      }
+      if (/PO_QTY_EXCEEDS_ORDERED/.test(msg)) {
+        return fail(422, 'Received qty is more than is still outstanding on the PO.', 'PO_QTY_EXCEEDS_ORDERED');
+      }
+      if (error.code === 'P0001') return fail(422, msg);
+      console.error('[POST /api/purchase-orders/[id]/receive]', error);
+      return fail(500, msg || 'Failed to receive purchase order.');
+    }
+
+    await notifyProductsUpdated(po.warehouseId);
+    await notifyInventoryUpdated(po.warehouseId);
+
+    const [updated, receipt] = await Promise.all([
+      getPurchaseOrder(id),
+      getGoodsReceipt((data as { receiptId: string }).receiptId),
+    ]);
+    logApiResponse(req, 201, Date.now() - start);
+    return withCors(NextResponse.json({ purchaseOrder: updated, receipt }, { status: 201, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/purchase-orders/[id]/receive]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
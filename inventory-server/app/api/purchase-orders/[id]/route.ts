@@ -0,0 +1,140 @@
+/**
+ * /api/purchase-orders/[id] — GET one PO.
+ * PATCH { action: 'send' } marks a draft as sent to the supplier; { action: 'close' } short-closes a sent or
+ * partially received PO (outstanding qty is no longer expected). Without an action, a draft can be edited:
+ * { lines?, expectedDate?, notes? }.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import {
+  getPurchaseOrder,
+  normalizePurchaseOrderLines,
+  setPurchaseOrderStatus,
+} from '@/lib/data/purchaseOrders';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+interface PatchBody {
+  action?: string;
+  lines?: unknown;
+  expectedDate?: string | null;
+  notes?: string | null;
+}
+
+async function canAccess(auth: { email: string; role: string }, warehouseId: string): Promise<boolean> {
+  if (/^(admin|super_admin)$/i.test(auth.role ?? '')) return true;
+  const scope = await getScopeForUser(auth.email);
+  return scope.allowedWarehouseIds.includes(warehouseId);
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    const po = await getPurchaseOrder(id);
+    if (!po) return fail(404, 'Purchase order not found.');
+    if (!(await canAccess(auth, po.warehouseId))) return fail(403, 'You do not have access to this purchase order.');
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(po, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/purchase-orders/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load purchase order.');
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    let body: PatchBody;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+
+    const po = await getPurchaseOrder(id);
+    if (!po) return fail(404, 'Purchase order not found.');
+    if (!(await canAccess(auth, po.warehouseId))) return fail(403, 'You do not have access to this purchase order.');
+
+    const action = body?.action?.trim()?.toLowerCase();
+    if (action === 'send') {
+      const ok = await setPurchaseOrderStatus(id, ['draft'], 'sent', { sent_at: new Date().toISOString() });
+      if (!ok) return fail(409, 'Only draft purchase orders can be sent.', 'PO_NOT_DRAFT');
+    } else if (action === 'close') {
+      const ok = await setPurchaseOrderStatus(id, ['sent', 'partially_received'], 'closed', {
+        closed_at: new Date().toISOString(),
+      });
+      if (!ok) return fail(409, 'Only sent or partially received purchase orders can be closed.', 'PO_NOT_CLOSABLE');
+    } else if (action) {
+      return fail(400, 'action must be one of: send, close.');
+    } else {
+      if (po.status !== 'draft') return fail(409, 'Only draft purchase orders can be edited.', 'PO_NOT_DRAFT');
+      const db = getSupabase();
+      if (body.lines !== undefined) {
+        const lines = normalizePurchaseOrderLines(body.lines);
+        if (lines.length === 0) return fail(422, 'At least one line with qty > 0 is required.');
+        const { error } = await db.rpc('save_purchase_order_lines', { p_po_id: id, p_lines: lines });
+        if (error) {
+          if (/PO_NOT_DRAFT/.test(error.message ?? '')) {
+            return fail(409, 'Only draft purchase orders can be edited.', 'PO_NOT_DRAFT');
+          }
+          if (error.code === 'P0001') return fail(422, error.message);
+          throw error;
+        }
+      }
+      const updates: Record<string, unknown> = {};
+      if (body.expectedDate !== undefined) updates.expected_date = body.expectedDate || null;
+      if (body.notes !== undefined) updates.notes = typeof body.notes === 'string' ? body.notes.trim() || null : null;
+      if (Object.keys(updates).length > 0) {
+        const { error } = await db.from('purchase_orders').update(updates).eq('id', id);
+        if (error) throw error;
+      }
+    }
+
+    const updated = await getPurchaseOrder(id);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(updated, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[PATCH /api/purchase-orders/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
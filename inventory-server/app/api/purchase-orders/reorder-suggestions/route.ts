@@ -0,0 +1,68 @@
+/**
+ * GET /api/purchase-orders/reorder-suggestions?warehouse_id=&days=30&cover_days=14
+ * Products at/below reorder level or with less than cover_days of stock at the last `days` sales rate.
+ * Open PO qty counts towards stock so items already ordered are not suggested twice.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getReorderSuggestions } from '@/lib/data/purchaseOrders';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+function clampInt(raw: string | null, fallback: number, max: number): number {
+  const n = Math.floor(Number(raw));
+  return Number.isFinite(n) && n >= 1 ? Math.min(n, max) : fallback;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const { searchParams } = new URL(req.url);
+    const warehouseId = searchParams.get('warehouse_id')?.trim() ?? '';
+    if (!warehouseId) return fail(400, 'warehouse_id is required.');
+
+    const isAdmin = /^(admin|super_admin)$/i.test(auth.role ?? '');
+    if (!isAdmin) {
+      const scope = await getScopeForUser(auth.email);
+      if (!scope.allowedWarehouseIds.includes(warehouseId)) {
+        return fail(403, 'You do not have access to this warehouse.');
+      }
+    }
+
+    const data = await getReorderSuggestions({
+      warehouseId,
+      days: clampInt(searchParams.get('days'), 30, 365),
+      coverDays: clampInt(searchParams.get('cover_days'), 14, 180),
+    });
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ data }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/purchase-orders/reorder-suggestions]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load reorder suggestions.');
+  }
+}
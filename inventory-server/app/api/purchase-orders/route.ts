@@ -0,0 +1,134 @@
+/**
+ * /api/purchase-orders — GET ?warehouse_id=&status=&supplier_id= lists POs for a warehouse; POST creates a draft.
+ * POST body: supplierId, warehouseId, lines[{ productId, sizeCode?, qty, unitCost? }], expectedDate?, notes?.
+ * See /api/purchase-orders/[id] for send / close / line edits and /api/purchase-orders/[id]/receive.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import {
+  getPurchaseOrder,
+  listPurchaseOrders,
+  normalizePurchaseOrderLines,
+  type PurchaseOrderStatus,
+} from '@/lib/data/purchaseOrders';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+interface CreatePurchaseOrderBody {
+  supplierId: string;
+  warehouseId: string;
+  lines: unknown;
+  expectedDate?: string | null;
+  notes?: string | null;
+}
+
+const STATUSES: PurchaseOrderStatus[] = ['draft', 'sent', 'partially_received', 'closed'];
+
+async function canAccess(auth: { email: string; role: string }, warehouseId: string): Promise<boolean> {
+  if (/^(admin|super_admin)$/i.test(auth.role ?? '')) return true;
+  const scope = await getScopeForUser(auth.email);
+  return scope.allowedWarehouseIds.includes(warehouseId);
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const { searchParams } = new URL(req.url);
+    const warehouseId = searchParams.get('warehouse_id')?.trim() ?? '';
+    if (!warehouseId) return fail(400, 'warehouse_id is required.');
+    if (!(await canAccess(auth, warehouseId))) return fail(403, 'You do not have access to this warehouse.');
+
+    const status = searchParams.get('status')?.trim() as PurchaseOrderStatus | undefined;
+    if (status && !STATUSES.includes(status)) return fail(400, `status must be one of: ${STATUSES.join(', ')}.`);
+
+    const data = await listPurchaseOrders({
+      warehouseId,
+      status,
+      supplierId: searchParams.get('supplier_id')?.trim() || undefined,
+      limit: Number(searchParams.get('limit')) || undefined,
+    });
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ data }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/purchase-orders]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load purchase orders.');
+  }
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    let body: CreatePurchaseOrderBody;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+
+    const supplierId = typeof body?.supplierId === 'string' ? body.supplierId.trim() : '';
+    const warehouseId = typeof body?.warehouseId === 'string' ? body.warehouseId.trim() : '';
+    if (!supplierId || !warehouseId) return fail(400, 'supplierId and warehouseId are required.');
+    if (!(await canAccess(auth, warehouseId))) return fail(403, 'You do not have access to this warehouse.');
+
+    const lines = normalizePurchaseOrderLines(body.lines);
+    if (lines.length === 0) return fail(422, 'At least one line with qty > 0 is required.');
+
+    const db = getSupabase();
+    const { data, error } = await db.rpc('create_purchase_order', {
+      p_supplier_id: supplierId,
+      p_warehouse_id: warehouseId,
+      p_lines: lines,
+      p_expected_date: typeof body.expectedDate === 'string' && body.expectedDate ? body.expectedDate : null,
+      p_notes: typeof body.notes === 'string' ? body.notes : null,
+      p_created_by_email: auth.email ?? null,
+    });
+    if (error) {
+      if (error.code === 'P0001') return fail(422, error.message);
+      console.error('[POST /api/purchase-orders]', error);
+      return fail(500, error.message ?? 'Failed to create purchase order.');
+    }
+
+    const po = await getPurchaseOrder((data as { id: string }).id);
+    logApiResponse(req, 201, Date.now() - start);
+    return withCors(NextResponse.json(po, { status: 201, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/purchase-orders]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
@@ -1,5 +1,5 @@
 /**
- * GET /api/reports/sales — sales report from get_sales_report RPC (revenue, COGS, profit, top products, by day).
+ * GET /api/reports/sales — sales report from get_sales_report RPC (revenue, COGS, profit, promotion cost, top products, by day).
  * Query: warehouse_id (required), from, to (ISO datetime).
  */
 import { NextRequest, NextResponse } from 'next/server';
@@ -0,0 +1,58 @@
+/**
+ * GET /api/reports/tax — tax summary for filing from get_tax_summary RPC: taxable value and tax by tax class and by
+ * component (VAT, NHIL, GETFund, COVID-19), net of returns made in the period.
+ * Query: warehouse_id (required), from, to (ISO datetime).
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getTaxSummary } from '@/lib/data/taxClasses';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 20;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  Object.entries(corsHeaders(req)).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const { searchParams } = new URL(req.url);
+    const warehouseId = searchParams.get('warehouse_id')?.trim() ?? '';
+    if (!warehouseId) return fail(400, 'warehouse_id is required');
+    const scope = await getScopeForUser(auth.email);
+    if (scope.allowedWarehouseIds.length > 0 && !scope.allowedWarehouseIds.includes(warehouseId)) {
+      return fail(403, 'Forbidden: warehouse not in scope');
+    }
+
+    const data = await getTaxSummary(
+      warehouseId,
+      searchParams.get('from')?.trim() || null,
+      searchParams.get('to')?.trim() || null
+    );
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(data, { headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/reports/tax]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load tax report');
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * /api/role-limits — POS limits per role (see lib/data/roleLimits.ts).
+ * GET → { mine, data }: the caller's own limits (the cart uses them to ask for approval up front) and, for managers,
+ * every role's row. PATCH { role, maxDiscountPct?, maxRefundAmount?, requireApprovalVoid?, requireApprovalRefund? }
+ * (admins only; null limit = unlimited).
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import {
+  getRoleLimits,
+  isUnlimitedRole,
+  listRoleLimits,
+  normalizeRole,
+  upsertRoleLimits,
+  validateRoleLimits,
+  type RoleLimitsInput,
+} from '@/lib/data/roleLimits';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const mine = await getRoleLimits(auth.role);
+    const data = /^(admin|super_admin|manager)$/i.test(auth.role ?? '') ? await listRoleLimits() : [];
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ mine, data }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/role-limits]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load role limits.');
+  }
+}
+
+export async function PATCH(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    if (!/^(admin|super_admin)$/i.test(auth.role ?? '')) return fail(403, 'Only an admin can change role limits.');
+
+    let body: RoleLimitsInput & { role?: string };
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const role = normalizeRole(body?.role);
+    if (!role) return fail(400, 'role is required.');
+    if (isUnlimitedRole(role)) return fail(400, 'Admins are never limited.');
+    const invalid = validateRoleLimits(body);
+    if (invalid) return fail(400, invalid);
+
+    const limits = await upsertRoleLimits(role, body, auth.email);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(limits, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[PATCH /api/role-limits]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to update role limits.');
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * POST /api/sales/layaway/release — release an open layaway before its release date (customer changed their
+ * mind). Body { saleId }. Managers only. The reserved stock goes back on sale and the sale is cancelled; deposits
+ * are not refunded here (pay them back as a till paid out if the store does). 409 LAYAWAY_NOT_OPEN.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import { notifyProductsUpdated } from '@/lib/cache/productsCache';
+import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    if (!/^(admin|super_admin|manager)$/i.test(auth.role ?? '')) {
+      return fail(403, 'Only a manager can release a layaway.');
+    }
+
+    let body: { saleId?: string };
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const saleId = typeof body?.saleId === 'string' ? body.saleId.trim() : '';
+    if (!saleId) return fail(400, 'saleId is required.');
+
+    const db = getSupabase();
+    const { data: saleRow, error: fetchErr } = await db.from('sales').select('id, warehouse_id').eq('id', saleId).maybeSingle();
+    if (fetchErr) {
+      console.error('[POST /api/sales/layaway/release] fetch', fetchErr);
+      return fail(500, fetchErr.message ?? 'Failed to load sale.');
+    }
+    if (!saleRow) return fail(404, 'Sale not found.');
+    const warehouseId = (saleRow as { warehouse_id: string }).warehouse_id;
+    if (!/^(admin|super_admin)$/i.test(auth.role ?? '')) {
+      const scope = await getScopeForUser(auth.email);
+      if (!scope.allowedWarehouseIds.includes(warehouseId)) return fail(403, 'You do not have access to this sale.');
+    }
+
+    const { error } = await db.rpc('release_layaway', { p_sale_id: saleId });
+    if (error) {
+      const msg = error.message ?? 'Release failed';
+      if (msg.includes('LAYAWAY_NOT_OPEN')) return fail(409, 'This layaway is no longer open.', 'LAYAWAY_NOT_OPEN');
+      console.error('[POST /api/sales/layaway/release] RPC error:', error.code, error.message);
+      return fail(500, msg);
+    }
+    await notifyProductsUpdated(warehouseId);
+    await notifyInventoryUpdated(warehouseId);
+
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ saleId, status: 'cancelled', layawayStatus: 'released' }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/sales/layaway/release]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * POST /api/sales/layaway — take an instalment on an open layaway. Body { saleId, amount, paymentMethod
+ * (cash | card | mobile_money), tillSessionId? }. Mobile money instalments are recorded without a prompt.
+ * Idempotency-Key header: a replayed key answers with the layaway as it is now. Paying off the balance
+ * completes the sale: the reserved stock is deducted, a linked customer earns points on the total and the sale is
+ * submitted to GRA e-VAT (response fiscal, as for POST /api/sales).
+ * 409 LAYAWAY_NOT_OPEN (paid off, released or voided); 422 LAYAWAY_OVERPAYMENT when amount > balance due.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import { notifyProductsUpdated } from '@/lib/cache/productsCache';
+import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+import { readIdempotencyKey, IDEMPOTENCY_CONFLICT } from '@/lib/idempotency';
+import { getLoyaltyConfig } from '@/lib/data/loyalty';
+import { LAYAWAY_ERRORS } from '@/lib/data/layaways';
+import { resolveTillSessionId } from '@/lib/data/tillSessions';
+import { fiscaliseSale } from '@/lib/data/fiscalInvoices';
+import { getFiscalClient } from '@/lib/fiscal/provider';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+const PAYMENT_METHODS = ['cash', 'card', 'mobile_money'];
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    let idempotencyKey: string | null;
+    try {
+      idempotencyKey = readIdempotencyKey(req.headers);
+    } catch (e) {
+      return fail(400, e instanceof Error ? e.message : 'Invalid Idempotency-Key.');
+    }
+
+    let body: { saleId?: string; amount?: number; paymentMethod?: string; tillSessionId?: string | null };
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const saleId = typeof body?.saleId === 'string' ? body.saleId.trim() : '';
+    if (!saleId) return fail(400, 'saleId is required.');
+    const amount = Math.round(Number(body.amount) * 100) / 100;
+    if (!Number.isFinite(amount) || amount <= 0) return fail(400, 'amount must be more than 0.');
+    const paymentMethod = typeof body.paymentMethod === 'string' ? body.paymentMethod.trim().toLowerCase() : '';
+    if (!PAYMENT_METHODS.includes(paymentMethod)) {
+      return fail(400, `paymentMethod must be one of: ${PAYMENT_METHODS.join(', ')}.`);
+    }
+
+    const db = getSupabase();
+    const { data: saleRow, error: fetchErr } = await db.from('sales').select('id, warehouse_id').eq('id', saleId).maybeSingle();
+    if (fetchErr) {
+      console.error('[POST /api/sales/layaway] fetch', fetchErr);
+      return fail(500, fetchErr.message ?? 'Failed to load sale.');
+    }
+    if (!saleRow) return fail(404, 'Sale not found.');
+    const warehouseId = (saleRow as { warehouse_id: string }).warehouse_id;
+    if (!/^(admin|super_admin)$/i.test(auth.role ?? '')) {
+      const scope = await getScopeForUser(auth.email);
+      if (!scope.allowedWarehouseIds.includes(warehouseId)) return fail(403, 'You do not have access to this sale.');
+    }
+
+    const { data, error } = await db.rpc('record_layaway_payment', {
+      p_sale_id: saleId,
+      p_amount: amount,
+      p_payment_method: paymentMethod,
+      p_email: auth.email ?? null,
+      p_till_session_id: await resolveTillSessionId(body.tillSessionId, warehouseId),
+      p_idempotency_key: idempotencyKey,
+      p_points_per_cedi: getLoyaltyConfig().pointsPerCedi,
+    });
+    if (error) {
+      const msg = error.message ?? 'Payment failed';
+      if (msg.includes(IDEMPOTENCY_CONFLICT)) {
+        return fail(422, 'Idempotency-Key was already used for a different layaway.', IDEMPOTENCY_CONFLICT);
+      }
+      if (msg.includes('LAYAWAY_NOT_OPEN')) {
+        return fail(409, 'This layaway is no longer open.', 'LAYAWAY_NOT_OPEN');
+      }
+      if (msg.includes('LAYAWAY_OVERPAYMENT')) {
+        return fail(422, LAYAWAY_ERRORS.LAYAWAY_OVERPAYMENT, 'LAYAWAY_OVERPAYMENT');
+      }
+      if (error.code === 'P0001') return fail(422, msg);
+      console.error('[POST /api/sales/layaway] RPC error:', error.code, error.message);
+      return fail(500, msg);
+    }
+
+    const result = (data ?? {}) as { paidOff?: boolean; idempotentReplay?: boolean };
+    // Paid off: the reserved stock was deducted.
+    if (result.paidOff && !result.idempotentReplay) {
+      await notifyProductsUpdated(warehouseId);
+      await notifyInventoryUpdated(warehouseId);
+    }
+    const fiscalClient = getFiscalClient();
+    const fiscal =
+      result.paidOff && fiscalClient
+        ? await fiscaliseSale(saleId, fiscalClient).catch((fiscalErr) => {
+            console.error('[POST /api/sales/layaway] fiscalise', fiscalErr);
+            return null;
+          })
+        : null;
+
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ ...(data as Record<string, unknown>), fiscal }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/sales/layaway]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * /api/sales/returns — partial returns and exchanges against a recorded sale.
+ * POST body: saleId, lines[{ saleLineId, qty }], refundMethod, reason?, exchangeLines?[] (POST /api/sales line shape).
+ * record_return() restocks the returned sizes, records the refund and, for exchanges, sells the replacement
+ * lines in the same transaction. GET ?sale_id= lists returns for one sale.
+ * Refunds over the role's limit (or any refund, for roles that always need approval) → 403 APPROVAL_REQUIRED unless
+ * managerApproval is a valid approval token for this sale; each token covers one return.
+ * tillSessionId links the refund (and any exchange sale) to the cash drawer session that paid it out.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
+import { notifyProductsUpdated } from '@/lib/cache/productsCache';
+import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+import { enforceRoleLimit } from '@/lib/auth/managerApproval';
+import { linkToTillSession, resolveTillSessionId } from '@/lib/data/tillSessions';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+interface ReturnLineBody {
+  saleLineId: string;
+  qty: number;
+}
+
+interface ExchangeLineBody {
+  productId: string;
+  sizeCode?: string | null;
+  qty: number;
+  unitPrice: number;
+  name: string;
+  sku?: string;
+  imageUrl?: string | null;
+}
+
+interface ReturnBody {
+  saleId: string;
+  lines: ReturnLineBody[];
+  refundMethod: string;
+  reason?: string | null;
+  exchangeLines?: ExchangeLineBody[];
+  managerApproval?: string | null;
+  tillSessionId?: string | null;
+}
+
+/** store_credit credits the sale's directory customer (store_credit_ledger). */
+const REFUND_METHODS = ['cash', 'card', 'mobile_money', 'store_credit'];
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+/**
+ * Load the sale's warehouse and check it is in the caller's scope. Returns warehouse id or an error response.
+ * completedOnly: open layaways (stock not handed over) and released ones cannot be returned → 409.
+ */
+async function authorizeSale(
+  saleId: string,
+  auth: { email: string; role: string },
+  fail: (status: number, message: string, code?: string) => NextResponse,
+  opts: { completedOnly?: boolean } = {}
+): Promise<string | NextResponse> {
+  const db = getSupabase();
+  const { data: saleRow, error } = await db.from('sales').select('id, warehouse_id, status').eq('id', saleId).maybeSingle();
+  if (error) {
+    console.error('[/api/sales/returns] fetch sale', error);
+    return fail(500, error.message ?? 'Failed to load sale.');
+  }
+  if (!saleRow) return fail(404, 'Sale not found.');
+  const status = (saleRow as { status?: string }).status;
+  if (opts.completedOnly && (status === 'layaway' || status === 'cancelled')) {
+    return fail(409, 'Only completed sales can be returned; a layaway can be returned once it is paid off.', 'SALE_NOT_COMPLETED');
+  }
+  const saleWarehouseId = (saleRow as { warehouse_id?: string }).warehouse_id ?? '';
+  const isAdmin = /^(admin|super_admin)$/i.test(auth.role ?? '');
+  if (!isAdmin) {
+    const scope = await getScopeForUser(auth.email);
+    if (!scope.allowedWarehouseIds.includes(saleWarehouseId)) {
+      return fail(403, 'You do not have access to this sale.');
+    }
+  }
+  return saleWarehouseId;
+}
+
+/** Refund record_return will pay for these lines (line_total share, scaled by the sale's total / subtotal). */
+async function estimateRefund(saleId: string, lines: Array<{ saleLineId: string; qty: number }>): Promise<number> {
+  const db = getSupabase();
+  const [{ data: sale, error: saleErr }, { data: saleLines, error: linesErr }] = await Promise.all([
+    db.from('sales').select('subtotal, total').eq('id', saleId).maybeSingle(),
+    db.from('sale_lines').select('id, qty, line_total').eq('sale_id', saleId),
+  ]);
+  if (saleErr) throw saleErr;
+  if (linesErr) throw linesErr;
+  const subtotal = Number((sale as { subtotal?: number } | null)?.subtotal ?? 0);
+  const total = Number((sale as { total?: number } | null)?.total ?? 0);
+  const ratio = subtotal > 0 ? total / subtotal : 1;
+  const byId = new Map(((saleLines ?? []) as Array<{ id: string; qty: number; line_total: number }>).map((l) => [l.id, l]));
+  let refund = 0;
+  for (const l of lines) {
+    const line = byId.get(l.saleLineId);
+    if (!line || !(Number(line.qty) > 0)) continue;
+    refund += Math.round((Number(line.line_total) / Number(line.qty)) * l.qty * ratio * 100) / 100;
+  }
+  return Math.round(refund * 100) / 100;
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const saleId = req.nextUrl.searchParams.get('sale_id')?.trim() ?? '';
+    if (!saleId) return fail(400, 'sale_id is required.');
+
+    const authorized = await authorizeSale(saleId, auth, fail);
+    if (authorized instanceof NextResponse) return authorized;
+
+    const db = getSupabase();
+    const { data, error } = await db
+      .from('sale_returns')
+      .select(
+        'id, sale_id, return_type, refund_amount, refund_method, exchange_sale_id, reason, created_by_email, created_at, sale_return_lines(sale_line_id, product_id, size_code, qty, refund_amount)'
+      )
+      .eq('sale_id', saleId)
+      .order('created_at', { ascending: true });
+    if (error) {
+      console.error('[GET /api/sales/returns]', error);
+      return fail(500, error.message ?? 'Failed to load returns.');
+    }
+
+    const list = (data ?? []).map((r: Record<string, unknown>) => ({
+      id: r.id,
+      saleId: r.sale_id,
+      type: r.return_type,
+      refundAmount: Number(r.refund_amount ?? 0),
+      refundMethod: r.refund_method,
+      exchangeSaleId: r.exchange_sale_id ?? null,
+      reason: r.reason ?? null,
+      createdBy: r.created_by_email ?? null,
+      createdAt: r.created_at,
+      lines: ((r.sale_return_lines as Array<Record<string, unknown>> | null) ?? []).map((l) => ({
+        saleLineId: l.sale_line_id,
+        productId: l.product_id,
+        sizeCode: l.size_code ?? null,
+        qty: l.qty,
+        refundAmount: Number(l.refund_amount ?? 0),
+      })),
+    }));
+
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ data: list }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/sales/returns]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    let body: ReturnBody;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+
+    const saleId = typeof body?.saleId === 'string' ? body.saleId.trim() : '';
+    if (!saleId) return fail(400, 'saleId is required.');
+
+    const lines = (Array.isArray(body.lines) ? body.lines : [])
+      .filter((l) => l && typeof l.saleLineId === 'string' && Number(l.qty) > 0)
+      .map((l) => ({ saleLineId: l.saleLineId, qty: Math.floor(Number(l.qty)) }));
+    if (lines.length === 0) return fail(422, 'Select at least one item to return.');
+
+    const refundMethod = typeof body.refundMethod === 'string' ? body.refundMethod.trim().toLowerCase() : '';
+    if (!REFUND_METHODS.includes(refundMethod)) {
+      return fail(400, `refundMethod must be one of: ${REFUND_METHODS.join(', ')}.`);
+    }
+
+    const exchangeLines = (Array.isArray(body.exchangeLines) ? body.exchangeLines : []).map((l) => ({
+      productId: l.productId,
+      sizeCode: l.sizeCode ?? null,
+      qty: Math.max(1, Number(l.qty) || 1),
+      unitPrice: Number(l.unitPrice) || 0,
+      lineTotal: (Number(l.unitPrice) || 0) * Math.max(1, Number(l.qty) || 1),
+      name: typeof l.name === 'string' ? l.name : 'Unknown',
+      sku: typeof l.sku === 'string' ? l.sku : '',
+      imageUrl: l.imageUrl != null ? String(l.imageUrl).trim() || null : null,
+    }));
+
+    const warehouseId = await authorizeSale(saleId, auth, fail, { completedOnly: true });
+    if (warehouseId instanceof NextResponse) return warehouseId;
+
+    const refundCheck = await enforceRoleLimit(auth, 'refund', {
+      amount: await estimateRefund(saleId, lines),
+      token: body.managerApproval,
+      warehouseId: warehouseId || null,
+      saleId,
+      ref: null,
+    });
+    if (!refundCheck.ok) return fail(403, refundCheck.message, refundCheck.code);
+
+    const db = getSupabase();
+    const { data, error } = await withStockLedgerContext(db.rpc('record_return', {
+      p_sale_id: saleId,
+      p_lines: lines,
+      p_refund_method: refundMethod,
+      p_reason: typeof body.reason === 'string' ? body.reason.trim() || null : null,
+      p_created_by: null,
+      p_created_by_email: auth.email ?? null,
+      p_exchange_lines: exchangeLines.length > 0 ? exchangeLines : null,
+    }), { actor: auth.email });
+
+    if (error) {
+      const msg = error.message ?? 'Return failed';
+      if (/INSUFFICIENT_STOCK/i.test(msg)) {
+        return fail(422, 'Not enough stock for the exchange item.', 'INSUFFICIENT_STOCK');
+      }
+      if (msg.includes('RETURN_QTY_EXCEEDS_SOLD')) {
+        return fail(422, 'Return quantity is more than was sold (or has already been returned).', 'RETURN_QTY_EXCEEDS_SOLD');
+      }
+      if (msg.includes('CUSTOMER_REQUIRED')) {
+        return fail(422, 'Store credit needs a sale linked to a customer.', 'CUSTOMER_REQUIRED');
+      }
+      if (msg.includes('INSUFFICIENT_STORE_CREDIT')) {
+        return fail(422, 'Store credit does not cover the exchange item.', 'INSUFFICIENT_STORE_CREDIT');
+      }
+      if (msg.includes('SALE_VOIDED')) {
+        return fail(409, 'This sale has been voided.', 'SALE_VOIDED');
+      }
+      if (error.code === 'P0001') return fail(422, msg);
+      console.error('[POST /api/sales/returns] RPC error:', error.code, error.message);
+      return fail(500, msg);
+    }
+
+
+    const tillSessionId = warehouseId ? await resolveTillSessionId(body.tillSessionId, warehouseId) : null;
+    if (tillSessionId) {
+      const result = data as { id?: string; exchangeSale?: { id?: string } | null };
+      await linkToTillSession(tillSessionId, { returnId: result.id ?? null, saleIds: [result.exchangeSale?.id] });
+    }
+
+    if (warehouseId) {
+      await notifyProductsUpdated(warehouseId);
+      await notifyInventoryUpdated(warehouseId);
+    }
+
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(data, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/sales/returns]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
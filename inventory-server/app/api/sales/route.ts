@@ -1,7 +1,34 @@
 /**
  * POST /api/sales — record a sale via record_sale() RPC (inserts sale + sale_lines, deducts stock).
  * Auth: Bearer or session cookie; warehouse_id must be in user scope.
- * Body: warehouseId, customerName?, customerEmail?, paymentMethod, payments?, subtotal, discountPct?, discountAmt?, total, lines[], deliverySchedule?.
+ * Body: warehouseId, customerId?, customerName?, customerEmail?, paymentMethod, payments?, subtotal, discountPct?, discountAmt?, total, lines[], deliverySchedule?, offline?.
+ * Idempotency-Key header: persisted by record_sale (sale_idempotency_keys, and for good on the sale). Replays of the
+ * same key + body return the first response (rebuilt from the sale once the stored one has expired); same key with a
+ * different body → 422 IDEMPOTENCY_KEY_CONFLICT. Offline-queued sales
+ * (body.offline set, UUID key) that fail with INSUFFICIENT_STOCK are recorded in sync_rejections.
+ * paymentMethod 'points' / 'store_credit' (or such legs in a mixed payments[]) spend the customer's balances;
+ * a linked customer earns points on the rest (see lib/data/loyalty.ts).
+ * Lines may carry promotionId + discountAmt worked out by the cart; the promotion must be active for the warehouse
+ * at the time of sale (see saleTime) and the discount must be what its rule gives that line
+ * (lib/data/promotionPricing.ts) → else 422 PROMOTION_NOT_AVAILABLE. Each line's total is unitPrice × qty less that
+ * discount, worked out here (a client lineTotal is ignored).
+ * subtotal must be the sum of the line totals, discountAmt discountPct of it, and total subtotal − discountAmt plus
+ * any tax added on top → else 422 TOTALS_MISMATCH. A discount above the role's limit (role_limits) → 403
+ * APPROVAL_REQUIRED unless body.managerApproval carries a valid approval token (403 APPROVAL_INVALID otherwise); the
+ * token is claimed for the Idempotency-Key before the sale is recorded.
+ * tillSessionId links the sale to the cash drawer session it was rung up on (see /api/till-sessions).
+ * mobileMoneyPaymentId (paymentMethod 'mobile_money', or on a mobile_money leg of payments[]) is a prompt from
+ * /api/payments/mobile-money; it must be paid, cover the amount and not belong to another sale → else 422
+ * MOMO_NOT_CONFIRMED. The provider reference is stored on the sale's payment leg.
+ * layaway { deposit } takes a deposit instead of the total: the payment (method / payments[] / mobile money prompt)
+ * is the deposit, stock is reserved and the sale stays status 'layaway' until paid off via /api/sales/layaway
+ * (released after LAYAWAY_RELEASE_DAYS). Needs a customer; no delivery, points or store credit → else 422.
+ * Tax per line is worked out by the sale_lines trigger from the product's tax class; the response carries the
+ * sale's tax (included in prices, added on top, per component) for the receipt. The tax added on top is worked out
+ * before recording (sale_exclusive_tax) for the total check above; the cart works it out with the same classes.
+ * With FISCAL_PROVIDER set, a completed sale is submitted to GRA e-VAT before answering; the response's fiscal
+ * carries the signature and QR code, or status 'pending' when the API could not be reached (retried by
+ * /api/fiscal/retry). Layaways are submitted when paid off.
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { corsHeaders } from '@/lib/cors';
@@ -12,6 +39,26 @@ import { getScopeForUser } from '@/lib/data/userScopes';
 import { getSupabase } from '@/lib/supabase';
 import { notifyProductsUpdated } from '@/lib/cache/productsCache';
 import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+import {
+  getPurgedSaleReplay,
+  readIdempotencyKey,
+  requestFingerprint,
+  IDEMPOTENCY_CONFLICT,
+  SALE_IDEMPOTENCY_INDEX,
+} from '@/lib/idempotency';
+import { recordRejection } from '@/lib/data/syncRejections';
+import { getLoyaltyConfig } from '@/lib/data/loyalty';
+import { getProductCategories, listActivePromotions } from '@/lib/data/promotions';
+import { applyPromotions } from '@/lib/data/promotionPricing';
+import { enforceRoleLimit, linkManagerApprovalSale } from '@/lib/auth/managerApproval';
+import { linkToTillSession, resolveTillSessionId } from '@/lib/data/tillSessions';
+import { checkMobileMoneyForSale, legRef, markMobileMoneyPaymentsUsed, type MobileMoneyLegRef } from '@/lib/data/mobileMoneyPayments';
+import { getMobileMoneyProvider } from '@/lib/payments/provider';
+import { LAYAWAY_ERRORS, layawayExpiresAt, listLayawayPayments } from '@/lib/data/layaways';
+import { getExclusiveSaleTax, getSaleTax, summariseLineTax } from '@/lib/data/taxClasses';
+import { fiscaliseSale, getFiscalReceipts } from '@/lib/data/fiscalInvoices';
+import { getFiscalClient } from '@/lib/fiscal/provider';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 15;
@@ -31,10 +78,14 @@ interface SaleLineBody {
   name: string;
   sku?: string;
   imageUrl?: string | null;
+  promotionId?: string | null;
+  discountAmt?: number;
 }
 
 interface SaleBody {
   warehouseId: string;
+  /** Customer directory id (GET /api/customers); name / email default from the profile. */
+  customerId?: string | null;
   customerName?: string | null;
   customerEmail?: string | null;
   paymentMethod: string;
@@ -45,13 +96,76 @@ interface SaleBody {
   total: number;
   lines: SaleLineBody[];
   deliverySchedule?: unknown;
+  /** Set by the POS offline queue on replay. */
+  offline?: { queuedAt?: string; localReceiptId?: string } | null;
+  /** Approval token from POST /api/manager-approvals when discountPct is over the role's limit. */
+  managerApproval?: string | null;
+  /** Open till session on this device (GET /api/till-sessions/current). */
+  tillSessionId?: string | null;
+  /** Paid prompt from POST /api/payments/mobile-money when paymentMethod is 'mobile_money'. */
+  mobileMoneyPaymentId?: string | null;
+  /** Layaway: the payment is this deposit; the rest is paid in instalments. */
+  layaway?: { deposit?: number } | null;
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const DEFAULT_OFFLINE_SALE_MAX_AGE_HOURS = 48;
+/** GH₵ the client's subtotal, discount and total may differ from the server's (the cart rounds differently). */
+const TOTALS_TOLERANCE = 0.05;
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * When the sale was rung up: offline.queuedAt for a replay from a till's queue, trusted only when it falls within
+ * OFFLINE_SALE_MAX_AGE_HOURS (default 48) before now; otherwise now. queuedAt comes from the client, so this bounds
+ * how far back a request can date itself (promotion windows); manager approvals are still judged by server time.
+ */
+function saleTime(offline: SaleBody['offline'], now: Date = new Date()): Date {
+  const hours = Number(process.env.OFFLINE_SALE_MAX_AGE_HOURS);
+  const maxAgeMs = (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_OFFLINE_SALE_MAX_AGE_HOURS) * 3_600_000;
+  const queuedAt = offline?.queuedAt ? Date.parse(offline.queuedAt) : NaN;
+  if (!Number.isFinite(queuedAt) || queuedAt > now.getTime() || now.getTime() - queuedAt > maxAgeMs) return now;
+  return new Date(queuedAt);
+}
+
+/** Sale failures from record_sale that are about the customer's balances, not stock. */
+const BALANCE_ERRORS: Record<string, string> = {
+  INSUFFICIENT_POINTS: 'Not enough loyalty points for this payment.',
+  INSUFFICIENT_STORE_CREDIT: 'Not enough store credit for this payment.',
+  CUSTOMER_REQUIRED: 'Pick a customer to pay with points or store credit.',
+};
+
+type PaymentLeg = { method: string; amount: number; mobileMoneyPaymentId?: string } & Partial<MobileMoneyLegRef>;
+
+/** Mixed payment legs with a positive amount; null when the body has none. Mobile money legs keep their prompt id. */
+function normalizePayments(raw: unknown): PaymentLeg[] | null {
+  if (!Array.isArray(raw)) return null;
+  const legs = raw
+    .filter((p): p is { method: unknown; amount: unknown; mobileMoneyPaymentId?: unknown } => p != null && typeof p === 'object')
+    .map((p): PaymentLeg => {
+      const leg: PaymentLeg = {
+        method: String(p.method ?? '').trim().toLowerCase(),
+        amount: Math.round(Number(p.amount) * 100) / 100,
+      };
+      const momoId = p.mobileMoneyPaymentId;
+      if (leg.method === 'mobile_money' && typeof momoId === 'string' && UUID_RE.test(momoId)) leg.mobileMoneyPaymentId = momoId;
+      return leg;
+    })
+    .filter((p) => p.method && Number.isFinite(p.amount) && p.amount > 0);
+  return legs.length > 0 ? legs : null;
 }
 
 export async function OPTIONS(req: NextRequest) {
   return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
 }
 
-/** GET /api/sales — list sales (warehouse_id required). pending=true = delivery sales not yet delivered; else from/to for history. */
+/**
+ * GET /api/sales — list sales (warehouse_id required). pending=true = delivery sales not yet delivered;
+ * layaway=open = open layaways (balances due), soonest release first; else from/to for history.
+ */
 export async function GET(req: NextRequest): Promise<NextResponse> {
   const h = corsHeaders(req);
   const auth = await requireAuth(req);
@@ -61,6 +175,7 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
   const { searchParams } = new URL(req.url);
   const warehouseId = searchParams.get('warehouse_id')?.trim() ?? '';
   const pending = searchParams.get('pending') === 'true';
+  const openLayaways = searchParams.get('layaway') === 'open';
   const from = searchParams.get('from')?.trim() ?? '';
   const to = searchParams.get('to')?.trim() ?? '';
   const limit = Math.min(Number(searchParams.get('limit')) || 500, 2000);
@@ -82,13 +197,15 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
     let query = db
       .from('sales')
       .select(
-        'id, warehouse_id, customer_name, payment_method, subtotal, discount_pct, discount_amt, total, receipt_id, status, sold_by_email, item_count, created_at, delivery_schedule, delivery_status, delivered_at'
+        'id, warehouse_id, customer_name, customer_id, payment_method, subtotal, discount_pct, discount_amt, total, receipt_id, status, sold_by_email, item_count, created_at, delivery_schedule, delivery_status, delivered_at, payment_status, amount_paid, layaway_status, layaway_expires_at'
       )
       .eq('warehouse_id', effectiveWarehouseId)
-      .order('created_at', { ascending: false })
+      .order(openLayaways ? 'layaway_expires_at' : 'created_at', { ascending: openLayaways })
       .limit(limit);
 
-    if (pending) {
+    if (openLayaways) {
+      query = query.eq('layaway_status', 'open').eq('status', 'layaway');
+    } else if (pending) {
       query = query.not('delivery_status', 'is', null).in('delivery_status', ['pending', 'dispatched', 'cancelled']);
     } else {
       if (from) query = query.gte('created_at', from);
@@ -113,9 +230,29 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
 
     const { data: linesRows } = await db
       .from('sale_lines')
-      .select('sale_id, product_id, size_code, product_name, product_sku, unit_price, qty, line_total, product_image_url')
+      .select('id, sale_id, product_id, size_code, product_name, product_sku, unit_price, qty, line_total, product_image_url, promotion_id, discount_amt, tax_inclusive, tax_amount, tax_breakdown')
       .in('sale_id', saleIds);
 
+    // Partial returns (sale_return_lines) so the client knows how much of each line is still returnable.
+    const lineIds = (linesRows ?? []).map((r) => (r as { id: string }).id).filter(Boolean);
+    const returnedByLine: Record<string, number> = {};
+    if (lineIds.length > 0) {
+      const { data: returnRows } = await db
+        .from('sale_return_lines')
+        .select('sale_line_id, qty')
+        .in('sale_line_id', lineIds);
+      for (const r of (returnRows ?? []) as Array<{ sale_line_id: string; qty: number }>) {
+        returnedByLine[r.sale_line_id] = (returnedByLine[r.sale_line_id] ?? 0) + Number(r.qty ?? 0);
+      }
+    }
+
+    const layawayIds = sales.filter((s) => s.layaway_status != null).map((s) => s.id as string);
+    const layawayPayments = await listLayawayPayments(layawayIds);
+    const fiscalBySale = await getFiscalReceipts(saleIds).catch((fiscalErr) => {
+      console.error('[GET /api/sales] fiscal receipts', fiscalErr);
+      return {} as Awaited<ReturnType<typeof getFiscalReceipts>>;
+    });
+
     const linesBySale = (linesRows ?? []).reduce<Record<string, Array<Record<string, unknown>>>>((acc, row) => {
       const sid = (row as { sale_id: string }).sale_id;
       if (!acc[sid]) acc[sid] = [];
@@ -129,19 +266,33 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
         qty: (row as { qty: number }).qty,
         lineTotal: (row as { line_total: number }).line_total,
         imageUrl: (row as { product_image_url?: string | null }).product_image_url ?? null,
+        promotionId: (row as { promotion_id?: string | null }).promotion_id ?? null,
+        discountAmt: Number((row as { discount_amt?: number | null }).discount_amt ?? 0),
+        taxInclusive: (row as { tax_inclusive?: boolean | null }).tax_inclusive ?? null,
+        taxAmount: Number((row as { tax_amount?: number | null }).tax_amount ?? 0),
+        returnedQty: returnedByLine[(row as { id: string }).id] ?? 0,
       });
       return acc;
     }, {});
 
+    const taxRowsBySale = (linesRows ?? []).reduce<Record<string, Parameters<typeof summariseLineTax>[0]>>((acc, row) => {
+      const sid = (row as { sale_id: string }).sale_id;
+      (acc[sid] ??= []).push(row as Parameters<typeof summariseLineTax>[0][number]);
+      return acc;
+    }, {});
+
     const list = sales.map((s) => {
       const id = s.id as string;
       const schedule = s.delivery_schedule as Record<string, unknown> | null | undefined;
       const sch = schedule && typeof schedule === 'object' ? schedule : {};
+      const total = Number(s.total ?? 0);
+      const amountPaid = s.amount_paid != null ? Number(s.amount_paid) : total;
       return {
         id,
         receiptId: s.receipt_id,
         warehouseId: s.warehouse_id,
         customerName: s.customer_name ?? null,
+        customerId: s.customer_id ?? null,
         recipientName: (sch.recipientName as string) ?? (sch.recipient_name as string) ?? null,
         recipientPhone: (sch.recipientPhone as string) ?? (sch.recipient_phone as string) ?? null,
         deliveryAddress: (sch.deliveryAddress as string) ?? (sch.delivery_address as string) ?? null,
@@ -158,6 +309,14 @@ export async function GET(req: NextRequest): Promise<NextResponse> {
         deliverySchedule: schedule ?? null,
         deliveryStatus: (s.delivery_status as string) ?? 'pending',
         deliveredAt: s.delivered_at ?? null,
+        paymentStatus: (s.payment_status as string) ?? 'paid',
+        amountPaid,
+        balanceDue: Math.max(0, Math.round((total - amountPaid) * 100) / 100),
+        layawayStatus: (s.layaway_status as string | null) ?? null,
+        layawayExpiresAt: (s.layaway_expires_at as string | null) ?? null,
+        layawayPayments: layawayPayments.get(id) ?? [],
+        tax: summariseLineTax(taxRowsBySale[id] ?? []),
+        fiscal: fiscalBySale[id] ?? null,
         lines: linesBySale[id] ?? [],
       };
     });
@@ -189,6 +348,13 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
     const auth = await requireAuth(req);
     if (auth instanceof NextResponse) return withCors(auth, req);
 
+    let idempotencyKey: string | null;
+    try {
+      idempotencyKey = readIdempotencyKey(req.headers);
+    } catch (e) {
+      return fail(400, e instanceof Error ? e.message : 'Invalid Idempotency-Key.');
+    }
+
     let body: SaleBody;
     try {
       body = await req.json();
@@ -213,39 +379,207 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
     const discountAmt = body.discountAmt != null ? Number(body.discountAmt) : 0;
     const paymentMethod = typeof body.paymentMethod === 'string' ? body.paymentMethod.trim() || 'cash' : 'cash';
     const customerName = body.customerName != null ? String(body.customerName).trim() || null : null;
+    const customerEmail = body.customerEmail != null ? String(body.customerEmail).trim() || null : null;
+    const customerId = typeof body.customerId === 'string' && UUID_RE.test(body.customerId) ? body.customerId : null;
+    const payments = paymentMethod.toLowerCase() === 'mixed' ? normalizePayments(body.payments) : null;
+    const loyalty = getLoyaltyConfig();
+
+    const rpcLines = lines.map((l: SaleLineBody) => {
+      const qty = Math.max(1, Number(l.qty) || 1);
+      const gross = (Number(l.unitPrice) || 0) * qty;
+      const promotionId = typeof l.promotionId === 'string' && UUID_RE.test(l.promotionId) ? l.promotionId : null;
+      const lineDiscount = promotionId ? Math.min(gross, Math.max(0, Number(l.discountAmt) || 0)) : 0;
+      return {
+        productId: l.productId,
+        sizeCode: l.sizeCode ?? null,
+        qty,
+        unitPrice: Number(l.unitPrice) ?? 0,
+        lineTotal: round2(gross - lineDiscount),
+        name: typeof l.name === 'string' ? l.name : 'Unknown',
+        sku: typeof l.sku === 'string' ? l.sku : '',
+        imageUrl: l.imageUrl != null ? String(l.imageUrl).trim() || null : null,
+        promotionId,
+        discountAmt: round2(lineDiscount),
+      };
+    });
+
+    // Promotions and manager approvals are checked as of when the sale was rung up (bounded for offline replays).
+    const at = saleTime(body.offline);
 
-    const rpcLines = lines.map((l: SaleLineBody) => ({
-      productId: l.productId,
-      sizeCode: l.sizeCode ?? null,
-      qty: Math.max(1, Number(l.qty) || 1),
-      unitPrice: Number(l.unitPrice) ?? 0,
-      lineTotal: l.lineTotal != null ? Number(l.lineTotal) : (Number(l.unitPrice) || 0) * (Math.max(1, Number(l.qty) || 1)),
-      name: typeof l.name === 'string' ? l.name : 'Unknown',
-      sku: typeof l.sku === 'string' ? l.sku : '',
-      imageUrl: l.imageUrl != null ? String(l.imageUrl).trim() || null : null,
-    }));
+    const promotionIds = new Set(rpcLines.map((l) => l.promotionId).filter((id): id is string => id != null));
+    if (promotionIds.size > 0) {
+      const claimed = (await listActivePromotions(effectiveWarehouseId, at)).filter((p) => promotionIds.has(p.id));
+      if (claimed.length < promotionIds.size) {
+        return fail(422, 'A promotion in this cart has ended or does not apply to this location.', 'PROMOTION_NOT_AVAILABLE');
+      }
+      // Re-run the cart's rules with the promotions it used: the same lines must get the same discounts. A line the
+      // cart left at full price is fine; one discounted more (or by another promotion) is refused.
+      const categories = await getProductCategories(
+        rpcLines.map((l) => l.productId).filter((id): id is string => typeof id === 'string' && UUID_RE.test(id))
+      );
+      const expected = applyPromotions(
+        rpcLines.map((l, i) => ({
+          key: String(i),
+          productId: l.productId,
+          category: categories.get(l.productId) ?? null,
+          unitPrice: l.unitPrice,
+          qty: l.qty,
+        })),
+        claimed,
+        { warehouseId: effectiveWarehouseId, now: at }
+      );
+      for (const [i, line] of rpcLines.entries()) {
+        if (!line.promotionId) continue;
+        const rule = expected[String(i)];
+        if (!rule || rule.promotionId !== line.promotionId || Math.abs(rule.discountAmt - line.discountAmt) > 0.01) {
+          return fail(
+            422,
+            'The promotion discounts in this cart are out of date. Refresh the cart and charge again.',
+            'PROMOTION_NOT_AVAILABLE'
+          );
+        }
+        line.discountAmt = rule.discountAmt;
+        line.lineTotal = round2(line.unitPrice * line.qty - line.discountAmt);
+      }
+    }
+
+    // subtotal, discountAmt, discountPct and total must add up from the verified lines; the role limit is checked
+    // against the discount that actually comes off, not just the % the client reports.
+    const lineSum = round2(rpcLines.reduce((s, l) => s + l.lineTotal, 0));
+    const saleDiscount = round2(discountAmt);
+    const taxAdded =
+      Number.isFinite(lineSum) && Number.isFinite(saleDiscount) && saleDiscount >= 0 && saleDiscount <= lineSum
+        ? await getExclusiveSaleTax(rpcLines, lineSum, saleDiscount)
+        : 0;
+    if (
+      !Number.isFinite(lineSum) ||
+      !Number.isFinite(subtotal) ||
+      !Number.isFinite(total) ||
+      !Number.isFinite(discountPct) ||
+      !Number.isFinite(saleDiscount) ||
+      saleDiscount < 0 ||
+      saleDiscount > lineSum ||
+      Math.abs(subtotal - lineSum) > TOTALS_TOLERANCE ||
+      Math.abs(saleDiscount - (lineSum * discountPct) / 100) > TOTALS_TOLERANCE ||
+      Math.abs(total - Math.max(0, lineSum - saleDiscount + taxAdded)) > TOTALS_TOLERANCE
+    ) {
+      return fail(
+        422,
+        'The sale totals do not add up: total must be the line totals less the discount, plus any tax added on top.',
+        'TOTALS_MISMATCH'
+      );
+    }
+    const effectiveDiscountPct = lineSum > 0 ? (saleDiscount / lineSum) * 100 : 0;
+
+    const discountCheck = await enforceRoleLimit(auth, 'discount', {
+      amount: Math.max(discountPct, effectiveDiscountPct),
+      token: body.managerApproval,
+      warehouseId: effectiveWarehouseId,
+      ref: idempotencyKey,
+      at,
+    });
+    if (!discountCheck.ok) return fail(403, discountCheck.message, discountCheck.code);
 
     const hasDelivery = body.deliverySchedule != null && typeof body.deliverySchedule === 'object';
+    const isLayaway = body.layaway != null && typeof body.layaway === 'object';
+    const deposit = isLayaway ? Math.round(Number(body.layaway?.deposit) * 100) / 100 : null;
+    if (isLayaway) {
+      if (deposit == null || !Number.isFinite(deposit) || deposit <= 0 || deposit >= total) {
+        return fail(422, LAYAWAY_ERRORS.LAYAWAY_DEPOSIT_INVALID, 'LAYAWAY_DEPOSIT_INVALID');
+      }
+      if (hasDelivery) return fail(422, 'A layaway cannot be a delivery sale.', 'LAYAWAY_DEPOSIT_INVALID');
+      if (!customerId && !customerName) {
+        return fail(422, 'Pick or name the customer for a layaway.', 'LAYAWAY_CUSTOMER_REQUIRED');
+      }
+    }
+    // Amount taken now: the total, or the deposit for a layaway.
+    const paidNow = deposit ?? total;
+
+    // Mobile money prompts this sale claims to be paid by: the single payment, or each mobile money leg.
+    const momoClaims: Array<{ id: string; amount: number; leg: PaymentLeg | null }> = [];
+    if (paymentMethod.toLowerCase() === 'mobile_money') {
+      const id = body.mobileMoneyPaymentId;
+      if (typeof id === 'string' && UUID_RE.test(id)) momoClaims.push({ id, amount: paidNow, leg: null });
+    }
+    for (const leg of payments ?? []) {
+      if (leg.mobileMoneyPaymentId) momoClaims.push({ id: leg.mobileMoneyPaymentId, amount: leg.amount, leg });
+    }
+    if (new Set(momoClaims.map((c) => c.id)).size < momoClaims.length) {
+      return fail(422, 'The same mobile money payment cannot pay for two parts of a sale.', 'MOMO_NOT_CONFIRMED');
+    }
+    let singleMomoRef: MobileMoneyLegRef | null = null;
+    if (momoClaims.length > 0) {
+      const provider = getMobileMoneyProvider();
+      for (const claim of momoClaims) {
+        const check = await checkMobileMoneyForSale(claim.id, {
+          warehouseId: effectiveWarehouseId,
+          amount: claim.amount,
+          saleRef: idempotencyKey,
+          provider,
+        });
+        if (!check.ok) return fail(422, check.message, 'MOMO_NOT_CONFIRMED');
+        if (claim.leg) Object.assign(claim.leg, legRef(check.payment));
+        else singleMomoRef = legRef(check.payment);
+      }
+    }
+
+    // Offline metadata is added when a failed online attempt is replayed from the queue; not part of the sale.
+    const requestHash = idempotencyKey ? requestFingerprint(body, ['offline']) : null;
     const db = getSupabase();
-    const { data, error } = await db.rpc('record_sale', {
+    const { data: recorded, error: rpcError } = await withStockLedgerContext(db.rpc('record_sale', {
       p_warehouse_id: effectiveWarehouseId,
       p_lines: rpcLines,
-      p_subtotal: subtotal,
+      p_subtotal: lineSum,
       p_discount_pct: discountPct,
-      p_discount_amt: discountAmt,
+      p_discount_amt: saleDiscount,
       p_total: total,
       p_payment_method: paymentMethod,
       p_customer_name: customerName,
       p_sold_by: null,
       p_sold_by_email: auth.email ?? null,
       p_delivery_schedule: hasDelivery ? body.deliverySchedule : null,
-    });
+      p_idempotency_key: idempotencyKey,
+      p_request_hash: requestHash,
+      p_customer_id: customerId,
+      p_customer_email: customerEmail,
+      p_payments: payments,
+      p_points_per_cedi: loyalty.pointsPerCedi,
+      p_point_value: loyalty.pointValue,
+      p_layaway: isLayaway ? { deposit, expiresAt: layawayExpiresAt(at) } : null,
+    }), { actor: auth.email });
+    // A replay after the key's stored response was purged trips the key kept on the sale; answer it from the sale.
+    const purgedReplay =
+      idempotencyKey && rpcError?.code === '23505' && rpcError.message?.includes(SALE_IDEMPOTENCY_INDEX)
+        ? await getPurgedSaleReplay(idempotencyKey, requestHash)
+        : null;
+    const data = purgedReplay ?? recorded;
+    const error = purgedReplay ? null : rpcError;
 
     if (error) {
       const msg = error.message ?? 'Sale failed';
       const code = error.code ?? '';
+      if (msg.includes(IDEMPOTENCY_CONFLICT) || (code === '23505' && msg.includes(SALE_IDEMPOTENCY_INDEX))) {
+        return fail(422, 'Idempotency-Key was already used for a different sale.', IDEMPOTENCY_CONFLICT);
+      }
+      const balanceCode = Object.keys(BALANCE_ERRORS).find((k) => msg.includes(k));
+      if (balanceCode) return fail(422, BALANCE_ERRORS[balanceCode], balanceCode);
+      const layawayCode = Object.keys(LAYAWAY_ERRORS).find((k) => msg.includes(k));
+      if (layawayCode) return fail(422, LAYAWAY_ERRORS[layawayCode], layawayCode);
       if (code === 'P0001' || /INSUFFICIENT_STOCK|insufficient stock/i.test(msg)) {
         logApiResponse(req, 422, Date.now() - start, { message: msg, code });
+        if (body.offline && idempotencyKey && UUID_RE.test(idempotencyKey)) {
+          const localRef = body.offline.localReceiptId ? ` (${body.offline.localReceiptId})` : '';
+          try {
+            await recordRejection({
+              idempotencyKey,
+              storeId: auth.store_id ?? null,
+              warehouseId: effectiveWarehouseId,
+              reason: `INSUFFICIENT_STOCK: offline sale${localRef} queued ${body.offline.queuedAt ?? 'unknown'} by ${auth.email}`,
+            });
+          } catch (rejErr) {
+            console.error('[POST /api/sales] recordRejection failed:', rejErr);
+          }
+        }
         return withCors(
           jsonError(422, 'Insufficient stock for one or more items.', { code: 'INSUFFICIENT_STOCK', requestId, headers: h }),
           req
@@ -259,17 +593,62 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
       return fail(500, 'Unexpected response from database.');
     }
 
-    await notifyProductsUpdated(effectiveWarehouseId);
-    await notifyInventoryUpdated(effectiveWarehouseId);
-
-    const result = data as { id?: string; receiptId?: string; total?: number; itemCount?: number; status?: string; createdAt?: string };
+    const result = data as {
+      id?: string;
+      receiptId?: string;
+      total?: number;
+      itemCount?: number;
+      status?: string;
+      createdAt?: string;
+      idempotentReplay?: boolean;
+      loyalty?: Record<string, number>;
+      layaway?: { amountPaid: number; balanceDue: number; expiresAt: string };
+    };
+    if (discountCheck.tokenId && result.id) await linkManagerApprovalSale(discountCheck.tokenId, result.id);
+    const tillSessionId = await resolveTillSessionId(body.tillSessionId, effectiveWarehouseId);
+    if (tillSessionId) await linkToTillSession(tillSessionId, { saleIds: [result.id] });
+    if (result.id && momoClaims.length > 0) {
+      if (singleMomoRef && !result.idempotentReplay) {
+        // record_sale only keeps a breakdown for mixed sales; store the single mobile money leg here.
+        const { error: legErr } = await db
+          .from('sales')
+          .update({ payments_breakdown: [{ method: 'mobile_money', amount: paidNow, ...singleMomoRef }] })
+          .eq('id', result.id);
+        if (legErr) console.error('[POST /api/sales] mobile money leg', legErr);
+      }
+      await markMobileMoneyPaymentsUsed(momoClaims.map((c) => c.id), result.id, idempotencyKey);
+    }
+    // Replayed key: the sale was recorded by an earlier request; caches were already notified then.
+    if (!result.idempotentReplay) {
+      await notifyProductsUpdated(effectiveWarehouseId);
+      await notifyInventoryUpdated(effectiveWarehouseId);
+    }
+    const fiscalClient = getFiscalClient();
+    const status = result.status ?? 'completed';
     const response = {
       id: result.id,
       receiptId: result.receiptId,
       total: result.total ?? total,
       itemCount: result.itemCount,
-      status: result.status ?? 'completed',
+      status,
       createdAt: result.createdAt ?? new Date().toISOString(),
+      loyalty: result.loyalty ?? null,
+      layaway: result.layaway ?? null,
+      tax: result.id
+        ? await getSaleTax(result.id).catch((taxErr) => {
+            // The sale is recorded; the receipt falls back to the cart's own tax figures.
+            console.error('[POST /api/sales] sale tax', taxErr);
+            return null;
+          })
+        : null,
+      fiscal:
+        result.id && fiscalClient && status === 'completed'
+          ? await fiscaliseSale(result.id, fiscalClient).catch((fiscalErr) => {
+              // Not queued (database error): the sale stands; the receipt goes out without a fiscal signature.
+              console.error('[POST /api/sales] fiscalise', fiscalErr);
+              return null;
+            })
+          : null,
     };
 
     logApiResponse(req, 200, Date.now() - start);
@@ -280,7 +659,10 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
   }
 }
 
-/** PATCH /api/sales — update delivery status (dispatched | delivered | cancelled). Delivered = deduct reserved stock; cancelled = release reservations. */
+/**
+ * PATCH /api/sales — update delivery status (dispatched | delivered | cancelled). Delivered = deduct reserved stock; cancelled = release reservations.
+ * action 'void' voids the sale; roles whose limits require approval must send managerApproval (403 APPROVAL_REQUIRED).
+ */
 export async function PATCH(req: NextRequest): Promise<NextResponse> {
   const start = Date.now();
   const requestId = getRequestId(req);
@@ -294,7 +676,7 @@ export async function PATCH(req: NextRequest): Promise<NextResponse> {
     const auth = await requireAuth(req);
     if (auth instanceof NextResponse) return withCors(auth, req);
 
-    let body: { saleId?: string; deliveryStatus?: string; warehouseId?: string; action?: string };
+    let body: { saleId?: string; deliveryStatus?: string; warehouseId?: string; action?: string; managerApproval?: string };
     try {
       body = await req.json();
     } catch {
@@ -334,7 +716,20 @@ export async function PATCH(req: NextRequest): Promise<NextResponse> {
     }
 
     if (action === 'void') {
-      const { error: rpcErr } = await db.rpc('void_sale', { p_sale_id: saleId });
+      if ((saleRow as { status?: string }).status === 'cancelled') {
+        return fail(409, 'A released layaway cannot be voided.', 'SALE_NOT_COMPLETED');
+      }
+      const voidCheck = await enforceRoleLimit(auth, 'void', {
+        token: body.managerApproval,
+        warehouseId: saleWarehouseId || null,
+        saleId,
+        ref: saleId,
+      });
+      if (!voidCheck.ok) return fail(403, voidCheck.message, voidCheck.code);
+      const { error: rpcErr } = await withStockLedgerContext(db.rpc('void_sale', { p_sale_id: saleId }), {
+        referenceId: saleId,
+        actor: auth.email,
+      });
       if (rpcErr) {
         console.error('[PATCH /api/sales] void_sale', rpcErr);
         return fail(500, rpcErr.message ?? 'Failed to void sale.');
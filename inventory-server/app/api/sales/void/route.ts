@@ -1,5 +1,6 @@
 /**
  * POST /api/sales/void — set sale status to voided. Requires POS void permission (admin/manager).
+ * Roles whose limits require approval for voids must send managerApproval (POST /api/manager-approvals) → else 403.
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { corsHeaders } from '@/lib/cors';
@@ -7,6 +8,8 @@ import { requirePosRole } from '@/lib/auth/session';
 import { getScopeForUser } from '@/lib/data/userScopes';
 import { getSupabase } from '@/lib/supabase';
 import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+import { enforceRoleLimit } from '@/lib/auth/managerApproval';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
 
 export const dynamic = 'force-dynamic';
 
@@ -24,7 +27,7 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
   const auth = await requirePosRole(req);
   if (auth instanceof NextResponse) return withCors(auth, req);
   const scope = await getScopeForUser(auth.email);
-  let body: { saleId?: string; warehouseId?: string };
+  let body: { saleId?: string; warehouseId?: string; managerApproval?: string };
   try {
     body = await req.json();
   } catch {
@@ -61,7 +64,28 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
     if (warehouseId && saleWarehouseId && saleWarehouseId !== warehouseId) {
       return withCors(NextResponse.json({ error: 'Sale not in specified warehouse' }, { status: 400, headers: h }), req);
     }
-    const { error: rpcError } = await supabase.rpc('void_sale', { p_sale_id: saleId });
+    if ((saleRow as { status?: string }).status === 'cancelled') {
+      return withCors(
+        NextResponse.json({ error: 'A released layaway cannot be voided', code: 'SALE_NOT_COMPLETED' }, { status: 409, headers: h }),
+        req
+      );
+    }
+    const voidCheck = await enforceRoleLimit(auth, 'void', {
+      token: body.managerApproval,
+      warehouseId: saleWarehouseId || null,
+      saleId,
+      ref: saleId,
+    });
+    if (!voidCheck.ok) {
+      return withCors(
+        NextResponse.json({ error: voidCheck.message, code: voidCheck.code }, { status: 403, headers: h }),
+        req
+      );
+    }
+    const { error: rpcError } = await withStockLedgerContext(supabase.rpc('void_sale', { p_sale_id: saleId }), {
+      referenceId: saleId,
+      actor: auth.email,
+    });
     if (rpcError) {
       console.error('[POST /api/sales/void] RPC', rpcError);
       const msg = rpcError.message ?? 'Failed to void sale';
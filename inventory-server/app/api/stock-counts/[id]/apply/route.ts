@@ -0,0 +1,97 @@
+/**
+ * POST /api/stock-counts/[id]/apply — apply approved variances as 'adjustment' stock movements.
+ * Managers and admins only. Deltas (counted − expected) are added to current stock, so sales made after the
+ * count started are kept. Returns the applied session and a summary of units and value adjusted.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
+import { notifyProductsUpdated } from '@/lib/cache/productsCache';
+import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+import { getStockCount, getStockCountLines } from '@/lib/data/stockCounts';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 30;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function POST(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    if (!/^(admin|super_admin|manager)$/i.test(auth.role ?? '')) {
+      return fail(403, 'Only a manager can apply stock count adjustments.');
+    }
+
+    const count = await getStockCount(id);
+    if (!count) return fail(404, 'Stock count not found.');
+    if (!/^(admin|super_admin)$/i.test(auth.role ?? '')) {
+      const scope = await getScopeForUser(auth.email);
+      if (!scope.allowedWarehouseIds.includes(count.warehouseId)) {
+        return fail(403, 'You do not have access to this stock count.');
+      }
+    }
+
+    const db = getSupabase();
+    const { data, error } = await withStockLedgerContext(db.rpc('apply_stock_count', {
+      p_count_id: id,
+      p_by_email: auth.email ?? null,
+    }), { referenceId: id, actor: auth.email });
+    if (error) {
+      const msg = error.message ?? '';
+      if (/COUNT_NOT_OPEN/.test(msg)) {
+        return fail(409, 'This stock count has already been applied or cancelled.', 'COUNT_NOT_OPEN');
+      }
+      if (error.code === 'P0001') return fail(422, msg);
+      console.error('[POST /api/stock-counts/[id]/apply]', error);
+      return fail(500, msg || 'Failed to apply stock count.');
+    }
+
+    await notifyProductsUpdated(count.warehouseId);
+    await notifyInventoryUpdated(count.warehouseId);
+
+    const [updated, lines] = await Promise.all([getStockCount(id), getStockCountLines(id)]);
+    const result = data as { linesAdjusted: number; unitsDelta: number; valueDelta: number };
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(
+      NextResponse.json(
+        {
+          stockCount: { ...updated, lines },
+          linesAdjusted: Number(result?.linesAdjusted ?? 0),
+          unitsDelta: Number(result?.unitsDelta ?? 0),
+          valueDelta: Number(result?.valueDelta ?? 0),
+        },
+        { status: 200, headers: h }
+      ),
+      req
+    );
+  } catch (e) {
+    console.error('[POST /api/stock-counts/[id]/apply]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * POST /api/stock-counts/[id]/entries — record counts while the session is counting.
+ * Body: entries[{ productId, sizeCode?, qty, mode? }]. mode 'add' (default) increments, so several staff can scan
+ * the same shelf; 'set' overwrites the counted qty (manual entry / corrections).
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import { getStockCount, getStockCountLines } from '@/lib/data/stockCounts';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+interface EntriesBody {
+  entries: Array<{ productId: string; sizeCode?: string | null; qty: number; mode?: string }>;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function POST(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    let body: EntriesBody;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+
+    const count = await getStockCount(id);
+    if (!count) return fail(404, 'Stock count not found.');
+    const isAdmin = /^(admin|super_admin)$/i.test(auth.role ?? '');
+    if (!isAdmin) {
+      const scope = await getScopeForUser(auth.email);
+      if (!scope.allowedWarehouseIds.includes(count.warehouseId)) {
+        return fail(403, 'You do not have access to this stock count.');
+      }
+    }
+
+    const entries = (Array.isArray(body?.entries) ? body.entries : [])
+      .filter((e) => e && typeof e.productId === 'string' && Number.isFinite(Number(e.qty)) && Number(e.qty) >= 0)
+      .map((e) => ({
+        productId: e.productId,
+        sizeCode: typeof e.sizeCode === 'string' && e.sizeCode.trim() ? e.sizeCode.trim().toUpperCase() : null,
+        qty: Math.floor(Number(e.qty)),
+        mode: e.mode === 'set' ? 'set' : 'add',
+      }));
+    if (entries.length === 0) return fail(422, 'At least one entry is required.');
+
+    const db = getSupabase();
+    const { error } = await db.rpc('record_stock_count', {
+      p_count_id: id,
+      p_entries: entries,
+      p_by_email: auth.email ?? null,
+    });
+    if (error) {
+      const msg = error.message ?? '';
+      if (/COUNT_NOT_OPEN/.test(msg)) {
+        return fail(409, 'This stock count is no longer accepting counts.', 'COUNT_NOT_OPEN');
+      }
+      if (error.code === 'P0001') return fail(422, msg);
+      console.error('[POST /api/stock-counts/[id]/entries]', error);
+      return fail(500, msg || 'Failed to record counts.');
+    }
+
+    const lines = await getStockCountLines(id);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ ...count, lines }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/stock-counts/[id]/entries]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
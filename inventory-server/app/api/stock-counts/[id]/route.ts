@@ -0,0 +1,130 @@
+/**
+ * /api/stock-counts/[id] — GET a session with its lines (expected vs counted).
+ * PATCH { action: 'submit' } moves counting → review; 'reopen' moves review → counting; 'cancel' abandons an open
+ * session. { approvals: { [lineId]: boolean } } approves or rejects variance lines while the session is open.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import {
+  getStockCount,
+  getStockCountLines,
+  setStockCountApprovals,
+  setStockCountStatus,
+  type StockCountStatus,
+} from '@/lib/data/stockCounts';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+interface PatchBody {
+  action?: string;
+  approvals?: Record<string, unknown>;
+}
+
+const TRANSITIONS: Record<string, { from: StockCountStatus[]; to: StockCountStatus }> = {
+  submit: { from: ['counting'], to: 'review' },
+  reopen: { from: ['review'], to: 'counting' },
+  cancel: { from: ['counting', 'review'], to: 'cancelled' },
+};
+
+async function canAccess(auth: { email: string; role: string }, warehouseId: string): Promise<boolean> {
+  if (/^(admin|super_admin)$/i.test(auth.role ?? '')) return true;
+  const scope = await getScopeForUser(auth.email);
+  return scope.allowedWarehouseIds.includes(warehouseId);
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    const count = await getStockCount(id);
+    if (!count) return fail(404, 'Stock count not found.');
+    if (!(await canAccess(auth, count.warehouseId))) return fail(403, 'You do not have access to this stock count.');
+
+    const lines = await getStockCountLines(id);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ ...count, lines }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/stock-counts/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load stock count.');
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    let body: PatchBody;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+
+    const count = await getStockCount(id);
+    if (!count) return fail(404, 'Stock count not found.');
+    if (!(await canAccess(auth, count.warehouseId))) return fail(403, 'You do not have access to this stock count.');
+
+    if (body?.action) {
+      const t = TRANSITIONS[body.action];
+      if (!t) return fail(400, 'action must be submit, reopen or cancel.');
+      const extra = t.to === 'review' ? { submitted_at: new Date().toISOString() } : {};
+      const ok = await setStockCountStatus(id, t.from, t.to, extra);
+      if (!ok) return fail(409, `Cannot ${body.action} a stock count that is ${count.status}.`, 'COUNT_NOT_OPEN');
+    } else if (body?.approvals && typeof body.approvals === 'object') {
+      if (count.status !== 'counting' && count.status !== 'review') {
+        return fail(409, 'Approvals can only change while the count is open.', 'COUNT_NOT_OPEN');
+      }
+      const approvals: Record<string, boolean> = {};
+      for (const [lineId, v] of Object.entries(body.approvals)) {
+        if (typeof v === 'boolean') approvals[lineId] = v;
+      }
+      await setStockCountApprovals(id, approvals);
+    } else {
+      return fail(400, 'Provide an action or approvals.');
+    }
+
+    const [updated, lines] = await Promise.all([getStockCount(id), getStockCountLines(id)]);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ ...updated, lines }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[PATCH /api/stock-counts/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
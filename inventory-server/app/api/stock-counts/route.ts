@@ -0,0 +1,104 @@
+/**
+ * /api/stock-counts — stock take sessions.
+ * GET ?warehouse_id= lists sessions for a warehouse. POST { warehouseId, category?, notes? } starts one and
+ * freezes expected quantities (see start_stock_count).
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import { getStockCount, listStockCounts } from '@/lib/data/stockCounts';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 30;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+async function canAccess(auth: { email: string; role: string }, warehouseId: string): Promise<boolean> {
+  if (/^(admin|super_admin)$/i.test(auth.role ?? '')) return true;
+  const scope = await getScopeForUser(auth.email);
+  return scope.allowedWarehouseIds.includes(warehouseId);
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const { searchParams } = new URL(req.url);
+    const warehouseId = searchParams.get('warehouse_id')?.trim() ?? '';
+    if (!warehouseId) return fail(400, 'warehouse_id is required.');
+    if (!(await canAccess(auth, warehouseId))) return fail(403, 'You do not have access to this warehouse.');
+
+    const data = await listStockCounts({ warehouseId, limit: Number(searchParams.get('limit')) || undefined });
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ data }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/stock-counts]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load stock counts.');
+  }
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    let body: { warehouseId?: string; category?: string | null; notes?: string | null };
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const warehouseId = typeof body?.warehouseId === 'string' ? body.warehouseId.trim() : '';
+    if (!warehouseId) return fail(400, 'warehouseId is required.');
+    if (!(await canAccess(auth, warehouseId))) return fail(403, 'You do not have access to this warehouse.');
+
+    const db = getSupabase();
+    const { data, error } = await db.rpc('start_stock_count', {
+      p_warehouse_id: warehouseId,
+      p_category: typeof body.category === 'string' ? body.category : null,
+      p_notes: typeof body.notes === 'string' ? body.notes : null,
+      p_created_by_email: auth.email ?? null,
+    });
+    if (error) {
+      if (error.code === 'P0001') return fail(422, error.message);
+      console.error('[POST /api/stock-counts]', error);
+      return fail(500, error.message ?? 'Failed to start stock count.');
+    }
+
+    const count = await getStockCount((data as { id: string }).id);
+    logApiResponse(req, 201, Date.now() - start);
+    return withCors(NextResponse.json(count, { status: 201, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/stock-counts]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
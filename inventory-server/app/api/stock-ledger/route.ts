@@ -0,0 +1,74 @@
+/**
+ * GET /api/stock-ledger — stock card for a product at a warehouse: every stock change with the balance before and
+ * after, what caused it and who, newest first (opening balances last).
+ * Query: warehouse_id, product_id (required); size_code (one size; empty for the product-level lane; omit for all);
+ * limit (max 500); before (nextBefore from the previous page).
+ * Returns { data, nextBefore }.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getStockCard } from '@/lib/data/stockLedger';
+
+export const dynamic = 'force-dynamic';
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+async function canAccess(auth: { email: string; role: string }, warehouseId: string): Promise<boolean> {
+  const scope = await getScopeForUser(auth.email);
+  if (/^(admin|super_admin)$/i.test(auth.role ?? '') && scope.allowedWarehouseIds.length === 0) return true;
+  return scope.allowedWarehouseIds.includes(warehouseId);
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const { searchParams } = new URL(req.url);
+    const warehouseId = searchParams.get('warehouse_id')?.trim() ?? '';
+    const productId = searchParams.get('product_id')?.trim() ?? '';
+    if (!warehouseId || !productId) return fail(400, 'warehouse_id and product_id are required.');
+    if (!(await canAccess(auth, warehouseId))) return fail(403, 'You do not have access to this warehouse.');
+
+    const before = searchParams.get('before')?.trim() || undefined;
+    if (before && !/^\d{1,18}$/.test(before)) return fail(400, 'before must be a nextBefore value.', 'INVALID_CURSOR');
+    const sizeCode = searchParams.has('size_code')
+      ? searchParams.get('size_code')!.trim().toUpperCase() || null
+      : undefined;
+
+    const result = await getStockCard({
+      warehouseId,
+      productId,
+      sizeCode,
+      limit: Number(searchParams.get('limit') ?? '') || undefined,
+      before,
+    });
+    const res = NextResponse.json(result, { status: 200, headers: h });
+    res.headers.set('Cache-Control', 'private, no-store, max-age=0');
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(res, req);
+  } catch (e) {
+    console.error('[GET /api/stock-ledger]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load stock card.');
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * /api/suppliers/[id] — GET one; PATCH updates (name, contactName, phone, email, notes, isActive);
+ * DELETE deactivates so existing POs and GRNs keep their supplier.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getSupplier, updateSupplier, type SupplierInput } from '@/lib/data/suppliers';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    const supplier = await getSupplier(id);
+    if (!supplier) return fail(404, 'Supplier not found.');
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(supplier, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/suppliers/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load supplier.');
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    let body: SupplierInput;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    if (body?.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+      return fail(400, 'name cannot be empty.');
+    }
+
+    try {
+      const supplier = await updateSupplier(id, {
+        name: body.name,
+        contactName: body.contactName,
+        phone: body.phone,
+        email: body.email,
+        notes: body.notes,
+        isActive: typeof body.isActive === 'boolean' ? body.isActive : undefined,
+      });
+      if (!supplier) return fail(404, 'Supplier not found.');
+      logApiResponse(req, 200, Date.now() - start);
+      return withCors(NextResponse.json(supplier, { status: 200, headers: h }), req);
+    } catch (e) {
+      if ((e as { code?: string })?.code === '23505') {
+        return fail(409, 'A supplier with this name already exists.', 'DUPLICATE_SUPPLIER');
+      }
+      throw e;
+    }
+  } catch (e) {
+    console.error('[PATCH /api/suppliers/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to update supplier.');
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    const supplier = await updateSupplier(id, { isActive: false });
+    if (!supplier) return fail(404, 'Supplier not found.');
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(supplier, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[DELETE /api/suppliers/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to deactivate supplier.');
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * /api/suppliers — GET lists active suppliers (?include_inactive=1 for all); POST creates one.
+ * Body: name (required), contactName?, phone?, email?, notes?.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { createSupplier, listSuppliers, type SupplierInput } from '@/lib/data/suppliers';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const includeInactive = new URL(req.url).searchParams.get('include_inactive') === '1';
+    const data = await listSuppliers({ includeInactive });
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ data }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/suppliers]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load suppliers.');
+  }
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    let body: SupplierInput;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    if (typeof body?.name !== 'string' || !body.name.trim()) return fail(400, 'name is required.');
+
+    try {
+      const supplier = await createSupplier({
+        name: body.name,
+        contactName: body.contactName,
+        phone: body.phone,
+        email: body.email,
+        notes: body.notes,
+      });
+      logApiResponse(req, 201, Date.now() - start);
+      return withCors(NextResponse.json(supplier, { status: 201, headers: h }), req);
+    } catch (e) {
+      if ((e as { code?: string })?.code === '23505') {
+        return fail(409, 'A supplier with this name already exists.', 'DUPLICATE_SUPPLIER');
+      }
+      throw e;
+    }
+  } catch (e) {
+    console.error('[POST /api/suppliers]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to create supplier.');
+  }
+}
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAdmin } from '@/lib/auth/session';
-import { listRejections } from '@/lib/data/syncRejections';
+import { requireAdmin, requireAuth, getEffectiveWarehouseId } from '@/lib/auth/session';
+import { listRejections, recordDiscardedSale } from '@/lib/data/syncRejections';
 import { corsHeaders } from '@/lib/cors';
 
 export const dynamic = 'force-dynamic';
 
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_REASON_LENGTH = 300;
+
 function withCors(res: NextResponse, req: NextRequest): NextResponse {
   Object.entries(corsHeaders(req)).forEach(([k, v]) => res.headers.set(k, v));
   return res;
@@ -38,3 +41,50 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     );
   }
 }
+
+/**
+ * POST /api/sync-rejections — a till discards an offline sale it could not sync (any signed-in user, own warehouse).
+ * Body: { idempotencyKey, warehouseId, reason, localReceiptId?, error? }. Listed for the admin like a rejection.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return withCors(auth, request);
+  const badRequest = (message: string) =>
+    withCors(NextResponse.json({ message }, { status: 400 }), request);
+  try {
+    let body: { idempotencyKey?: unknown; warehouseId?: unknown; reason?: unknown; localReceiptId?: unknown; error?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest('Invalid JSON body.');
+    }
+    const idempotencyKey = typeof body?.idempotencyKey === 'string' ? body.idempotencyKey.trim() : '';
+    if (!UUID_RE.test(idempotencyKey)) return badRequest('idempotencyKey must be a UUID.');
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+    if (!reason) return badRequest('reason is required.');
+    if (reason.length > MAX_REASON_LENGTH) return badRequest(`reason must be at most ${MAX_REASON_LENGTH} characters.`);
+    const bodyWarehouseId = typeof body.warehouseId === 'string' ? body.warehouseId.trim() : '';
+    const warehouseId = await getEffectiveWarehouseId(auth, bodyWarehouseId || undefined);
+    if (!warehouseId || warehouseId !== bodyWarehouseId) {
+      return withCors(NextResponse.json({ message: 'You do not have access to this warehouse.' }, { status: 403 }), request);
+    }
+    const localRef = typeof body.localReceiptId === 'string' && body.localReceiptId.trim() ? ` (${body.localReceiptId.trim()})` : '';
+    const lastError = typeof body.error === 'string' && body.error.trim() ? ` Last error: ${body.error.trim().slice(0, 200)}` : '';
+
+    await recordDiscardedSale({
+      idempotencyKey,
+      warehouseId,
+      reason: `DISCARDED at the till: offline sale${localRef} by ${auth.email}: ${reason}.${lastError}`,
+    });
+    return withCors(NextResponse.json({ ok: true }, { status: 201 }), request);
+  } catch (e) {
+    console.error('[api/sync-rejections POST]', e);
+    return withCors(
+      NextResponse.json(
+        { message: e instanceof Error ? e.message : 'Failed to record discarded sale' },
+        { status: 500 }
+      ),
+      request
+    );
+  }
+}
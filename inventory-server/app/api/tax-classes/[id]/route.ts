@@ -0,0 +1,77 @@
+/**
+ * PATCH /api/tax-classes/[id] — change a tax class (managers only): name, inclusive, components, isDefault, active.
+ * The code is fixed once created. The default class cannot be switched off or un-defaulted; make another class the
+ * default instead. There is no DELETE: sale lines keep pointing at the class they were taxed under. Changes apply
+ * to sales from now on; sales already recorded keep their tax.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import {
+  getTaxClass,
+  taxClassToInput,
+  updateTaxClass,
+  validateTaxClass,
+  type TaxClassInput,
+} from '@/lib/data/taxClasses';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    if (!/^(admin|super_admin|manager)$/i.test(auth.role ?? '')) {
+      return fail(403, 'Only a manager can change tax classes.');
+    }
+    const { id } = await params;
+
+    let body: TaxClassInput;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const changes: TaxClassInput = { ...(body ?? {}) };
+    delete changes.code;
+
+    const current = await getTaxClass(id);
+    if (!current) return fail(404, 'Tax class not found.');
+    if (current.isDefault && changes.isDefault === false) {
+      return fail(400, 'Make another class the default instead.');
+    }
+    const invalid = validateTaxClass({ ...taxClassToInput(current), ...changes });
+    if (invalid) return fail(400, invalid);
+
+    const taxClass = await updateTaxClass(id, changes, auth.email);
+    if (!taxClass) return fail(404, 'Tax class not found.');
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(taxClass, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[PATCH /api/tax-classes/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to update tax class.');
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * PUT /api/tax-classes/categories — { category, taxClassId } assigns a tax class to every product in a category
+ * that has no class of its own; taxClassId null puts the category back on the default class (managers only).
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getTaxClass, listCategoryTaxClasses, setCategoryTaxClass } from '@/lib/data/taxClasses';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function PUT(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    if (!/^(admin|super_admin|manager)$/i.test(auth.role ?? '')) {
+      return fail(403, 'Only a manager can assign tax classes.');
+    }
+
+    let body: { category?: string; taxClassId?: string | null };
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const category = typeof body?.category === 'string' ? body.category.trim() : '';
+    if (!category) return fail(400, 'category is required.');
+    const taxClassId = typeof body.taxClassId === 'string' && body.taxClassId.trim() ? body.taxClassId.trim() : null;
+    if (taxClassId) {
+      const taxClass = await getTaxClass(taxClassId);
+      if (!taxClass) return fail(404, 'Tax class not found.');
+      if (!taxClass.active) return fail(400, 'That tax class is switched off.');
+    }
+
+    await setCategoryTaxClass(category, taxClassId, auth.email);
+    const data = await listCategoryTaxClasses();
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ data }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[PUT /api/tax-classes/categories]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to assign tax class.');
+  }
+}
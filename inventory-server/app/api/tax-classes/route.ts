@@ -0,0 +1,91 @@
+/**
+ * /api/tax-classes — tax classes and which categories use them.
+ * GET { data: { classes, categories } } for the POS (cart tax) and the settings screen.
+ * POST { code, name, inclusive?, components: [{ code, label, rate, compound? }], isDefault? } creates a class
+ * (managers only). Making it the default takes the default off the previous one.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import {
+  createTaxClass,
+  listCategoryTaxClasses,
+  listTaxClasses,
+  validateTaxClass,
+  type TaxClassInput,
+} from '@/lib/data/taxClasses';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const [classes, categories] = await Promise.all([listTaxClasses(), listCategoryTaxClasses()]);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ data: { classes, categories } }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/tax-classes]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load tax classes.');
+  }
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    if (!/^(admin|super_admin|manager)$/i.test(auth.role ?? '')) {
+      return fail(403, 'Only a manager can create tax classes.');
+    }
+
+    let body: TaxClassInput;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const input: TaxClassInput = { components: [], ...(body ?? {}) };
+    const invalid = validateTaxClass(input);
+    if (invalid) return fail(400, invalid);
+
+    const existing = await listTaxClasses();
+    if (existing.some((c) => c.code === input.code)) return fail(409, `A tax class with code ${input.code} already exists.`);
+
+    const taxClass = await createTaxClass(input, auth.email);
+    logApiResponse(req, 201, Date.now() - start);
+    return withCors(NextResponse.json(taxClass, { status: 201, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/tax-classes]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to create tax class.');
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * POST /api/till-sessions/[id]/close — close the drawer with a blind cash count.
+ * Body { countedCash, note? }. Only the person who opened the session or a manager can close it. Returns the Z
+ * report ({ type: 'Z', session, movements }); session.summary holds the figures and session.variance is
+ * countedCash − expected cash. Already closed → 409 TILL_SESSION_CLOSED.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import { getTillSession, listTillMovements } from '@/lib/data/tillSessions';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function POST(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    let body: { countedCash?: number; note?: string | null };
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const countedCash = Number(body?.countedCash);
+    if (body?.countedCash == null || !Number.isFinite(countedCash) || countedCash < 0) {
+      return fail(400, 'countedCash must be 0 or more.');
+    }
+
+    const session = await getTillSession(id);
+    if (!session) return fail(404, 'Till session not found.');
+    const isManager = /^(admin|super_admin|manager)$/i.test(auth.role ?? '');
+    if (!/^(admin|super_admin)$/i.test(auth.role ?? '')) {
+      const scope = await getScopeForUser(auth.email);
+      if (!scope.allowedWarehouseIds.includes(session.warehouseId)) {
+        return fail(403, 'You do not have access to this till session.');
+      }
+    }
+    if (!isManager && (session.openedBy ?? '').toLowerCase() !== (auth.email ?? '').toLowerCase()) {
+      return fail(403, 'Only the person who opened this till or a manager can close it.');
+    }
+
+    const db = getSupabase();
+    const { error } = await db.rpc('close_till_session', {
+      p_session_id: id,
+      p_counted_cash: countedCash,
+      p_email: auth.email ?? null,
+      p_note: typeof body.note === 'string' ? body.note : null,
+    });
+    if (error) {
+      const msg = error.message ?? '';
+      if (/TILL_SESSION_CLOSED/.test(msg)) return fail(409, 'This till session is already closed.', 'TILL_SESSION_CLOSED');
+      if (error.code === 'P0001') return fail(422, msg);
+      console.error('[POST /api/till-sessions/[id]/close]', error);
+      return fail(500, msg || 'Failed to close till.');
+    }
+
+    const [closed, movements] = await Promise.all([getTillSession(id), listTillMovements(id)]);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ type: 'Z', session: closed, movements }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/till-sessions/[id]/close]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
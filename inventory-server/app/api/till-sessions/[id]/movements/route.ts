@@ -0,0 +1,77 @@
+/**
+ * POST /api/till-sessions/[id]/movements — record cash put into (paid_in) or taken out of (paid_out) the drawer.
+ * Body { kind, amount, reason }; reason is required. The session must still be open → else 409 TILL_SESSION_CLOSED.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { addTillMovement, getTillSession } from '@/lib/data/tillSessions';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function POST(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    let body: { kind?: string; amount?: number; reason?: string };
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    if (body?.kind !== 'paid_in' && body?.kind !== 'paid_out') return fail(400, 'kind must be paid_in or paid_out.');
+    const amount = Number(body.amount);
+    if (!Number.isFinite(amount) || amount <= 0) return fail(400, 'amount must be more than 0.');
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+    if (!reason) return fail(400, 'reason is required.');
+
+    const session = await getTillSession(id);
+    if (!session) return fail(404, 'Till session not found.');
+    if (!/^(admin|super_admin)$/i.test(auth.role ?? '')) {
+      const scope = await getScopeForUser(auth.email);
+      if (!scope.allowedWarehouseIds.includes(session.warehouseId)) {
+        return fail(403, 'You do not have access to this till session.');
+      }
+    }
+    if (session.status !== 'open') return fail(409, 'This till session is closed.', 'TILL_SESSION_CLOSED');
+
+    const movement = await addTillMovement({
+      sessionId: id,
+      kind: body.kind,
+      amount,
+      reason,
+      createdByEmail: auth.email ?? null,
+    });
+    logApiResponse(req, 201, Date.now() - start);
+    return withCors(NextResponse.json(movement, { status: 201, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/till-sessions/[id]/movements]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
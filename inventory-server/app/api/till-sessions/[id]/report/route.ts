@@ -0,0 +1,73 @@
+/**
+ * GET /api/till-sessions/[id]/report — X or Z report for a till session.
+ * Open session: X report with the running figures (managers only, so the cashier's count stays blind).
+ * Closed session: Z report from the snapshot taken at close; anyone with access to the warehouse can reprint it.
+ * Response { type: 'X' | 'Z', session, movements }; session.summary holds the figures.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getTillSession, getTillSummary, listTillMovements } from '@/lib/data/tillSessions';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    const session = await getTillSession(id);
+    if (!session) return fail(404, 'Till session not found.');
+    if (!/^(admin|super_admin)$/i.test(auth.role ?? '')) {
+      const scope = await getScopeForUser(auth.email);
+      if (!scope.allowedWarehouseIds.includes(session.warehouseId)) {
+        return fail(403, 'You do not have access to this till session.');
+      }
+    }
+
+    const isOpen = session.status === 'open';
+    if (isOpen && !/^(admin|super_admin|manager)$/i.test(auth.role ?? '')) {
+      return fail(403, 'Only a manager can print an X report while the till is open.');
+    }
+
+    const [summary, movements] = await Promise.all([
+      isOpen || !session.summary ? getTillSummary(id) : Promise.resolve(session.summary),
+      listTillMovements(id),
+    ]);
+    const report = {
+      type: isOpen ? 'X' : 'Z',
+      session: { ...session, summary, expectedCash: session.expectedCash ?? summary.expectedCash },
+      movements,
+    };
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(report, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/till-sessions/[id]/report]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load till report.');
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * /api/till-sessions — cash drawer sessions.
+ * POST { warehouseId, deviceId, openingFloat } opens a session for this device (201); a device can only have one
+ * open session per warehouse → 409 TILL_SESSION_ALREADY_OPEN.
+ * GET ?warehouse_id=&status=&limit= lists sessions with their expected cash and variance (managers only).
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import { getTillSession, listTillSessions, type TillSessionStatus } from '@/lib/data/tillSessions';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+async function canAccess(auth: { email: string; role: string }, warehouseId: string): Promise<boolean> {
+  if (/^(admin|super_admin)$/i.test(auth.role ?? '')) return true;
+  const scope = await getScopeForUser(auth.email);
+  return scope.allowedWarehouseIds.includes(warehouseId);
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    if (!/^(admin|super_admin|manager)$/i.test(auth.role ?? '')) {
+      return fail(403, 'Only a manager can review till sessions.');
+    }
+
+    const { searchParams } = new URL(req.url);
+    const warehouseId = searchParams.get('warehouse_id')?.trim() ?? '';
+    if (!warehouseId) return fail(400, 'warehouse_id is required.');
+    if (!(await canAccess(auth, warehouseId))) return fail(403, 'You do not have access to this warehouse.');
+
+    const statusParam = searchParams.get('status');
+    const status = statusParam === 'open' || statusParam === 'closed' ? (statusParam as TillSessionStatus) : undefined;
+    const data = await listTillSessions({ warehouseId, status, limit: Number(searchParams.get('limit')) || undefined });
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ data }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/till-sessions]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load till sessions.');
+  }
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    let body: { warehouseId?: string; deviceId?: string; openingFloat?: number };
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const warehouseId = typeof body?.warehouseId === 'string' ? body.warehouseId.trim() : '';
+    if (!warehouseId) return fail(400, 'warehouseId is required.');
+    const deviceId = typeof body.deviceId === 'string' ? body.deviceId.trim() : '';
+    if (!deviceId) return fail(400, 'deviceId is required.');
+    const openingFloat = Number(body.openingFloat);
+    if (!Number.isFinite(openingFloat) || openingFloat < 0) return fail(400, 'openingFloat must be 0 or more.');
+    if (!(await canAccess(auth, warehouseId))) return fail(403, 'You do not have access to this warehouse.');
+
+    const db = getSupabase();
+    const { data, error } = await db.rpc('open_till_session', {
+      p_warehouse_id: warehouseId,
+      p_device_id: deviceId,
+      p_opening_float: openingFloat,
+      p_email: auth.email ?? null,
+    });
+    if (error) {
+      const msg = error.message ?? '';
+      if (/TILL_SESSION_ALREADY_OPEN/.test(msg)) {
+        return fail(409, 'This till already has an open session.', 'TILL_SESSION_ALREADY_OPEN');
+      }
+      if (error.code === 'P0001') return fail(422, msg);
+      console.error('[POST /api/till-sessions]', error);
+      return fail(500, msg || 'Failed to open till.');
+    }
+
+    const session = await getTillSession(data as string);
+    logApiResponse(req, 201, Date.now() - start);
+    return withCors(NextResponse.json({ session, movements: [] }, { status: 201, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/till-sessions]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * /api/transfers/[id] — GET one transfer; PATCH { action: 'dispatch' | 'receive' | 'cancel' }.
+ * dispatch/cancel need access to the source warehouse, receive to the destination.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
+import { notifyProductsUpdated } from '@/lib/cache/productsCache';
+import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+import { getStockTransfer } from '@/lib/data/stockTransfers';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+type RouteCtx = { params: Promise<{ id: string }> };
+
+const ACTIONS = {
+  dispatch: { rpc: 'dispatch_stock_transfer', side: 'from' },
+  receive: { rpc: 'receive_stock_transfer', side: 'to' },
+  cancel: { rpc: 'cancel_stock_transfer', side: 'from' },
+} as const;
+
+const STATE_ERRORS: Record<string, string> = {
+  TRANSFER_NOT_DRAFT: 'Only draft transfers can be dispatched.',
+  TRANSFER_NOT_IN_TRANSIT: 'Only in-transit transfers can be received.',
+  TRANSFER_NOT_CANCELLABLE: 'Received or cancelled transfers cannot be cancelled.',
+};
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+async function canAccess(auth: { email: string; role: string }, warehouseIds: string[]): Promise<boolean> {
+  if (/^(admin|super_admin)$/i.test(auth.role ?? '')) return true;
+  const scope = await getScopeForUser(auth.email);
+  return warehouseIds.some((id) => scope.allowedWarehouseIds.includes(id));
+}
+
+export async function GET(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    const transfer = await getStockTransfer(id);
+    if (!transfer) return fail(404, 'Transfer not found.');
+    if (!(await canAccess(auth, [transfer.fromWarehouseId, transfer.toWarehouseId]))) {
+      return fail(403, 'You do not have access to this transfer.');
+    }
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(transfer, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/transfers/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load transfer.');
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteCtx): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+    const { id } = await params;
+
+    let body: { action?: string };
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+    const action = body?.action?.trim()?.toLowerCase() as keyof typeof ACTIONS | undefined;
+    if (!action || !(action in ACTIONS)) {
+      return fail(400, 'action must be one of: dispatch, receive, cancel.');
+    }
+    const { rpc, side } = ACTIONS[action];
+
+    const transfer = await getStockTransfer(id);
+    if (!transfer) return fail(404, 'Transfer not found.');
+    const warehouseId = side === 'from' ? transfer.fromWarehouseId : transfer.toWarehouseId;
+    if (!(await canAccess(auth, [warehouseId]))) {
+      return fail(403, `You do not have access to the ${side === 'from' ? 'source' : 'destination'} warehouse.`);
+    }
+
+    const db = getSupabase();
+    const { error } = await withStockLedgerContext(db.rpc(rpc, { p_transfer_id: id, p_by_email: auth.email ?? null }), {
+      referenceId: id,
+      actor: auth.email,
+    });
+    if (error) {
+      const msg = error.message ?? '';
+      if (/INSUFFICIENT_STOCK/.test(msg)) {
+        return fail(422, 'Not enough stock at the source for one or more lines.', 'INSUFFICIENT_STOCK');
+      }
+      const stateCode = Object.keys(STATE_ERRORS).find((code) => msg.includes(code));
+      if (stateCode) return fail(409, STATE_ERRORS[stateCode], stateCode);
+      console.error(`[PATCH /api/transfers/[id]] ${rpc}`, error);
+      return fail(500, msg || 'Transfer update failed.');
+    }
+
+    // receive changes the destination; dispatch and cancel change the source.
+    await notifyProductsUpdated(warehouseId);
+    await notifyInventoryUpdated(warehouseId);
+
+    const updated = await getStockTransfer(id);
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json(updated, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[PATCH /api/transfers/[id]]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * /api/transfers — inter-warehouse stock transfers.
+ * GET ?warehouse_id=&status= lists transfers from or to the warehouse; ?view=in_transit returns per product/size
+ * incoming/outgoing quantities instead. POST creates a draft (body: fromWarehouseId, toWarehouseId, lines[{ productId,
+ * sizeCode?, qty }], notes?, dispatch?). dispatch=true also deducts the source in the same request.
+ * Stock moves only via RPCs; see PATCH /api/transfers/[id] for dispatch / receive / cancel.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeaders } from '@/lib/cors';
+import { getRequestId, jsonError } from '@/lib/apiResponse';
+import { logApiResponse } from '@/lib/requestLog';
+import { requireAuth } from '@/lib/auth/session';
+import { getScopeForUser } from '@/lib/data/userScopes';
+import { getSupabase } from '@/lib/supabase';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
+import { notifyProductsUpdated } from '@/lib/cache/productsCache';
+import { notifyInventoryUpdated } from '@/lib/cache/dashboardStatsCache';
+import {
+  listStockTransfers,
+  getStockTransfer,
+  getInTransitForWarehouse,
+  type StockTransferStatus,
+} from '@/lib/data/stockTransfers';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 15;
+
+function withCors(res: NextResponse, req: NextRequest): NextResponse {
+  const h = corsHeaders(req);
+  Object.entries(h).forEach(([k, v]) => res.headers.set(k, v));
+  return res;
+}
+
+interface TransferLineBody {
+  productId: string;
+  sizeCode?: string | null;
+  qty: number;
+}
+
+interface TransferBody {
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  lines: TransferLineBody[];
+  notes?: string | null;
+  dispatch?: boolean;
+}
+
+const STATUSES: StockTransferStatus[] = ['draft', 'in_transit', 'received', 'cancelled'];
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    const { searchParams } = new URL(req.url);
+    const warehouseId = searchParams.get('warehouse_id')?.trim() ?? '';
+    if (!warehouseId) return fail(400, 'warehouse_id is required.');
+
+    const isAdmin = /^(admin|super_admin)$/i.test(auth.role ?? '');
+    if (!isAdmin) {
+      const scope = await getScopeForUser(auth.email);
+      if (!scope.allowedWarehouseIds.includes(warehouseId)) {
+        return fail(403, 'You do not have access to this warehouse.');
+      }
+    }
+
+    if (searchParams.get('view') === 'in_transit') {
+      const rows = await getInTransitForWarehouse(warehouseId);
+      logApiResponse(req, 200, Date.now() - start);
+      return withCors(NextResponse.json({ data: rows }, { status: 200, headers: h }), req);
+    }
+
+    const statusParam = searchParams.get('status')?.trim() as StockTransferStatus | undefined;
+    if (statusParam && !STATUSES.includes(statusParam)) {
+      return fail(400, `status must be one of: ${STATUSES.join(', ')}.`);
+    }
+    const limit = Number(searchParams.get('limit')) || undefined;
+    const data = await listStockTransfers({ warehouseId, status: statusParam, limit });
+    logApiResponse(req, 200, Date.now() - start);
+    return withCors(NextResponse.json({ data }, { status: 200, headers: h }), req);
+  } catch (e) {
+    console.error('[GET /api/transfers]', e);
+    return fail(500, e instanceof Error ? e.message : 'Failed to load transfers.');
+  }
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  const start = Date.now();
+  const requestId = getRequestId(req);
+  const h = corsHeaders(req);
+  const fail = (status: number, message: string, code?: string): NextResponse => {
+    logApiResponse(req, status, Date.now() - start, { message, code });
+    return withCors(jsonError(status, message, { code, requestId, headers: h }), req);
+  };
+
+  try {
+    const auth = await requireAuth(req);
+    if (auth instanceof NextResponse) return withCors(auth, req);
+
+    let body: TransferBody;
+    try {
+      body = await req.json();
+    } catch {
+      return fail(400, 'Invalid JSON body.');
+    }
+
+    const fromWarehouseId = typeof body?.fromWarehouseId === 'string' ? body.fromWarehouseId.trim() : '';
+    const toWarehouseId = typeof body?.toWarehouseId === 'string' ? body.toWarehouseId.trim() : '';
+    if (!fromWarehouseId || !toWarehouseId) return fail(400, 'fromWarehouseId and toWarehouseId are required.');
+    if (fromWarehouseId === toWarehouseId) return fail(400, 'Source and destination must be different warehouses.');
+
+    const isAdmin = /^(admin|super_admin)$/i.test(auth.role ?? '');
+    if (!isAdmin) {
+      const scope = await getScopeForUser(auth.email);
+      if (!scope.allowedWarehouseIds.includes(fromWarehouseId)) {
+        return fail(403, 'You do not have access to the source warehouse.');
+      }
+    }
+
+    const lines = (Array.isArray(body.lines) ? body.lines : [])
+      .filter((l) => l && typeof l.productId === 'string' && Number(l.qty) > 0)
+      .map((l) => ({
+        productId: l.productId,
+        sizeCode: l.sizeCode != null ? String(l.sizeCode).trim() || null : null,
+        qty: Math.floor(Number(l.qty)),
+      }));
+    if (lines.length === 0) return fail(422, 'At least one line with qty > 0 is required.');
+
+    const db = getSupabase();
+    const { data: created, error: createErr } = await db.rpc('create_stock_transfer', {
+      p_from_warehouse_id: fromWarehouseId,
+      p_to_warehouse_id: toWarehouseId,
+      p_lines: lines,
+      p_notes: typeof body.notes === 'string' ? body.notes : null,
+      p_created_by_email: auth.email ?? null,
+    });
+    if (createErr) {
+      if (createErr.code === 'P0001') return fail(422, createErr.message);
+      console.error('[POST /api/transfers] create', createErr);
+      return fail(500, createErr.message ?? 'Failed to create transfer.');
+    }
+    const transferId = (created as { id: string }).id;
+
+    if (body.dispatch === true) {
+      const { error: dispatchErr } = await withStockLedgerContext(db.rpc('dispatch_stock_transfer', {
+        p_transfer_id: transferId,
+        p_by_email: auth.email ?? null,
+      }), { referenceId: transferId, actor: auth.email });
+      if (dispatchErr) {
+        // Draft stays so the user can fix quantities and dispatch again.
+        if (/INSUFFICIENT_STOCK/.test(dispatchErr.message ?? '')) {
+          return fail(422, 'Transfer saved as draft: not enough stock at the source to dispatch.', 'INSUFFICIENT_STOCK');
+        }
+        console.error('[POST /api/transfers] dispatch', dispatchErr);
+        return fail(500, dispatchErr.message ?? 'Transfer saved as draft but dispatch failed.');
+      }
+      await notifyProductsUpdated(fromWarehouseId);
+      await notifyInventoryUpdated(fromWarehouseId);
+    }
+
+    const transfer = await getStockTransfer(transferId);
+    logApiResponse(req, 201, Date.now() - start);
+    return withCors(NextResponse.json(transfer, { status: 201, headers: h }), req);
+  } catch (e) {
+    console.error('[POST /api/transfers]', e);
+    return fail(500, e instanceof Error ? e.message : 'Something went wrong.');
+  }
+}
@@ -25,10 +25,10 @@ export async function handlePutProductById(
   id: string,
   body: PutProductBody,
   warehouseId: string,
-  _auth: Session
+  auth: Session
 ): Promise<NextResponse> {
   try {
-    const updated = await updateWarehouseProduct(id, warehouseId, body);
+    const updated = await updateWarehouseProduct(id, warehouseId, body, { actor: auth.email });
     if (!updated) {
       return NextResponse.json({ error: 'Product not found' }, { status: 404 });
     }
@@ -0,0 +1,296 @@
+/**
+ * Manager override: a manager types their PIN on the cashier's device, the server checks it and issues a short-lived
+ * signed approval token for one action (discount %, void or refund of a given sale). The sales, void and returns
+ * routes verify the token and claim it in manager_approvals, which doubles as the audit log.
+ */
+
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { SignJWT, jwtVerify } from 'jose';
+import { getSupabase } from '@/lib/supabase';
+import type { Session } from '@/lib/auth/session';
+import { approvalRequiredReason, getRoleLimits, type ApprovalAction } from '@/lib/data/roleLimits';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const TOKEN_AUDIENCE = 'manager-approval';
+const TOKEN_TTL_SECONDS = 5 * 60;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+
+const APPROVER_ROLE_RE = /^(admin|super_admin|manager)$/i;
+/** GH₵ the server's refund estimate may exceed the one the manager saw (the till rounds per line differently). */
+const REFUND_ROUNDING_TOLERANCE = 0.05;
+
+export interface ApprovalClaims {
+  tokenId: string;
+  action: ApprovalAction;
+  /** Discount % approved, or the refund total the manager saw; null for voids. */
+  amount: number | null;
+  warehouseId: string | null;
+  saleId: string | null;
+  requestedBy: string;
+  approvedBy: string;
+}
+
+export type PinCheck =
+  | { ok: true; email: string; role: string }
+  | { ok: false; code: 'NO_PIN' | 'PIN_LOCKED' | 'WRONG_PIN'; message: string };
+
+function getSecret(): Uint8Array {
+  const secret = process.env.SESSION_SECRET ?? process.env.JWT_SECRET;
+  if (!secret || secret.length < 16) throw new Error('SESSION_SECRET or JWT_SECRET (min 16 chars) required for manager approvals');
+  return new TextEncoder().encode(secret);
+}
+
+export function isValidPin(pin: unknown): pin is string {
+  return typeof pin === 'string' && /^\d{4,8}$/.test(pin);
+}
+
+export function isApproverRole(role: string | null | undefined): boolean {
+  return APPROVER_ROLE_RE.test(role ?? '');
+}
+
+async function hashPin(pin: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(pin, salt, 32);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+async function pinMatches(pin: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(pin, Buffer.from(saltHex, 'hex'), expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/** Sets (or replaces) the signed-in manager's PIN and clears any lockout. */
+export async function setManagerPin(email: string, role: string, pin: string): Promise<void> {
+  const db = getSupabase();
+  const { error } = await db.from('manager_pins').upsert(
+    {
+      email: email.trim().toLowerCase(),
+      role: role.trim().toLowerCase(),
+      pin_hash: await hashPin(pin),
+      failed_attempts: 0,
+      locked_until: null,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'email' }
+  );
+  if (error) throw error;
+}
+
+/** Checks a manager's PIN, counting failures; MAX_FAILED_ATTEMPTS wrong PINs in a row lock it for LOCKOUT_MINUTES. */
+export async function checkManagerPin(email: string, pin: string): Promise<PinCheck> {
+  const normalized = email.trim().toLowerCase();
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('manager_pins')
+    .select('email, role, pin_hash, failed_attempts, locked_until')
+    .eq('email', normalized)
+    .maybeSingle();
+  if (error) throw error;
+  const row = data as { role: string; pin_hash: string; failed_attempts: number; locked_until: string | null } | null;
+  if (!row || !isApproverRole(row.role)) {
+    return { ok: false, code: 'NO_PIN', message: 'No manager PIN is set up for that account.' };
+  }
+  if (row.locked_until && Date.parse(row.locked_until) > Date.now()) {
+    return { ok: false, code: 'PIN_LOCKED', message: 'Too many wrong PINs. Try again later.' };
+  }
+
+  if (await pinMatches(pin, row.pin_hash)) {
+    if (row.failed_attempts > 0 || row.locked_until) {
+      await db.from('manager_pins').update({ failed_attempts: 0, locked_until: null }).eq('email', normalized);
+    }
+    return { ok: true, email: normalized, role: row.role };
+  }
+
+  const attempts = (row.failed_attempts ?? 0) + 1;
+  const locked = attempts >= MAX_FAILED_ATTEMPTS;
+  await db
+    .from('manager_pins')
+    .update({
+      failed_attempts: locked ? 0 : attempts,
+      locked_until: locked ? new Date(Date.now() + LOCKOUT_MINUTES * 60_000).toISOString() : null,
+    })
+    .eq('email', normalized);
+  return locked
+    ? { ok: false, code: 'PIN_LOCKED', message: 'Too many wrong PINs. Try again later.' }
+    : { ok: false, code: 'WRONG_PIN', message: 'Wrong PIN.' };
+}
+
+/** Null when the approver's own limits cover the action; a manager cannot approve past their own limit. */
+export async function approverLimitReason(approverRole: string, action: ApprovalAction, amount: number): Promise<string | null> {
+  const reason = approvalRequiredReason(await getRoleLimits(approverRole), action, amount);
+  return reason ? 'This is above the approving manager\'s own limit.' : null;
+}
+
+/** Logs the approval and returns the signed token. */
+export async function issueManagerApproval(
+  claims: Omit<ApprovalClaims, 'tokenId'> & { reason?: string | null }
+): Promise<{ token: string; expiresAt: string }> {
+  const tokenId = randomUUID();
+  const expiresAt = new Date(Date.now() + TOKEN_TTL_SECONDS * 1000);
+  const db = getSupabase();
+  const { error } = await db.from('manager_approvals').insert({
+    token_id: tokenId,
+    action: claims.action,
+    amount: claims.amount,
+    warehouse_id: claims.warehouseId,
+    sale_id: claims.saleId,
+    requested_by_email: claims.requestedBy,
+    approved_by_email: claims.approvedBy,
+    reason: claims.reason ?? null,
+    expires_at: expiresAt.toISOString(),
+  });
+  if (error) throw error;
+
+  const token = await new SignJWT({
+    action: claims.action,
+    amount: claims.amount,
+    warehouseId: claims.warehouseId,
+    saleId: claims.saleId,
+    requestedBy: claims.requestedBy,
+    approvedBy: claims.approvedBy,
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setAudience(TOKEN_AUDIENCE)
+    .setJti(tokenId)
+    .setIssuedAt()
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1000))
+    .sign(getSecret());
+  return { token, expiresAt: expiresAt.toISOString() };
+}
+
+export interface ApprovalExpectation {
+  action: ApprovalAction;
+  requestedBy: string;
+  warehouseId?: string | null;
+  saleId?: string | null;
+  /** Discount % or refund total: the token must approve at least this much. */
+  amount?: number;
+  /** What consumes the token (Idempotency-Key or sale id); a replay with the same ref is accepted. */
+  ref: string | null;
+  /**
+   * When a replayed offline sale was rung up. Expiry is still judged by the server's clock; the queue delay can
+   * stretch a token by at most one more TTL, and the token must have been issued before the sale.
+   */
+  at?: Date;
+}
+
+/**
+ * Verifies signature, expiry and the claims against the request, then claims the token for expected.ref (refused
+ * when another request already used it). Returns the claims or the reason it was refused.
+ */
+export async function verifyManagerApproval(
+  token: string,
+  expected: ApprovalExpectation
+): Promise<{ ok: true; claims: ApprovalClaims } | { ok: false; message: string }> {
+  const now = Date.now();
+  const rungUpAt = expected.at && expected.at.getTime() < now ? expected.at.getTime() : now;
+  let claims: ApprovalClaims;
+  try {
+    const { payload } = await jwtVerify(token, getSecret(), {
+      algorithms: ['HS256'],
+      audience: TOKEN_AUDIENCE,
+      currentDate: new Date(Math.max(rungUpAt, now - TOKEN_TTL_SECONDS * 1000)),
+      clockTolerance: 60,
+    });
+    if (payload.iat != null && rungUpAt < payload.iat * 1000 - 60_000) {
+      return { ok: false, message: 'Manager approval was given after the sale.' };
+    }
+    claims = {
+      tokenId: String(payload.jti ?? ''),
+      action: payload.action as ApprovalAction,
+      amount: payload.amount == null ? null : Number(payload.amount),
+      warehouseId: (payload.warehouseId as string | null) ?? null,
+      saleId: (payload.saleId as string | null) ?? null,
+      requestedBy: String(payload.requestedBy ?? ''),
+      approvedBy: String(payload.approvedBy ?? ''),
+    };
+  } catch {
+    return { ok: false, message: 'Manager approval is invalid or has expired.' };
+  }
+
+  if (!claims.tokenId || claims.action !== expected.action) {
+    return { ok: false, message: 'Manager approval is for a different action.' };
+  }
+  if (claims.requestedBy.toLowerCase() !== expected.requestedBy.trim().toLowerCase()) {
+    return { ok: false, message: 'Manager approval was given to a different user.' };
+  }
+  if (expected.warehouseId && claims.warehouseId && claims.warehouseId !== expected.warehouseId) {
+    return { ok: false, message: 'Manager approval is for a different location.' };
+  }
+  if (expected.saleId && claims.saleId !== expected.saleId) {
+    return { ok: false, message: 'Manager approval is for a different sale.' };
+  }
+  const tolerance = expected.action === 'refund' ? REFUND_ROUNDING_TOLERANCE : 0;
+  if (expected.amount != null && (claims.amount == null || expected.amount > claims.amount + tolerance)) {
+    return { ok: false, message: 'The amount is more than the manager approved.' };
+  }
+
+  // Claim the token in the same statement that checks it, so two requests cannot both use it.
+  const db = getSupabase();
+  const claim: Record<string, unknown> = { used_at: new Date().toISOString(), used_ref: expected.ref };
+  if (expected.saleId) claim.sale_id = expected.saleId;
+  let query = db.from('manager_approvals').update(claim).eq('token_id', claims.tokenId);
+  query = expected.ref ? query.or(`used_at.is.null,used_ref.eq.${quoteFilterValue(expected.ref)}`) : query.is('used_at', null);
+  const { data, error } = await query.select('token_id');
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    const { data: issued, error: readErr } = await db
+      .from('manager_approvals')
+      .select('token_id')
+      .eq('token_id', claims.tokenId)
+      .maybeSingle();
+    if (readErr) throw readErr;
+    return { ok: false, message: issued ? 'Manager approval has already been used.' : 'Manager approval is invalid or has expired.' };
+  }
+  return { ok: true, claims };
+}
+
+/** A PostgREST filter value in double quotes, for values that may contain , . : ( ). */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/** Records the sale a discount approval went to, once record_sale has created it (audit only). */
+export async function linkManagerApprovalSale(tokenId: string, saleId: string): Promise<void> {
+  const db = getSupabase();
+  const { error } = await db.from('manager_approvals').update({ sale_id: saleId }).eq('token_id', tokenId).is('sale_id', null);
+  if (error) console.error('[managerApproval] link sale', error);
+}
+
+export type RoleLimitCheck =
+  | { ok: true; tokenId: string | null }
+  | { ok: false; code: 'APPROVAL_REQUIRED' | 'APPROVAL_INVALID'; message: string };
+
+/**
+ * Route helper: passes when the caller's role limits allow the action, or when `token` is a valid approval for it.
+ * amount is the discount % or refund total the limit is checked against. A token is used up by the check itself, so
+ * call this right before the action and refuse the action when it fails.
+ */
+export async function enforceRoleLimit(
+  auth: Session,
+  action: ApprovalAction,
+  opts: { amount?: number; token?: unknown; warehouseId?: string | null; saleId?: string | null; ref: string | null; at?: Date }
+): Promise<RoleLimitCheck> {
+  const reason = approvalRequiredReason(await getRoleLimits(auth.role), action, opts.amount ?? 0);
+  if (!reason) return { ok: true, tokenId: null };
+  if (typeof opts.token !== 'string' || !opts.token.trim()) {
+    return { ok: false, code: 'APPROVAL_REQUIRED', message: reason };
+  }
+  const result = await verifyManagerApproval(opts.token.trim(), {
+    action,
+    requestedBy: auth.email,
+    warehouseId: opts.warehouseId,
+    saleId: opts.saleId,
+    amount: action === 'void' ? undefined : opts.amount,
+    ref: opts.ref,
+    at: opts.at,
+  });
+  if (!result.ok) return { ok: false, code: 'APPROVAL_INVALID', message: result.message };
+  return { ok: true, tokenId: result.claims.tokenId };
+}
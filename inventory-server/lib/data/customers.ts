@@ -0,0 +1,206 @@
+/**
+ * Customer directory: CRUD on customers (keyed by phone), type-ahead search and purchase history from sales.
+ */
+
+import { getSupabase } from '@/lib/supabase';
+import { getCustomerBalances } from '@/lib/data/loyalty';
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string;
+  email: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+  visitCount: number;
+  lifetimeSpend: number;
+  lastVisitAt: string | null;
+  pointsBalance: number;
+  pointsValue: number;
+  storeCreditBalance: number;
+}
+
+export interface CustomerReceipt {
+  id: string;
+  receiptId: string;
+  warehouseId: string;
+  total: number;
+  status: string;
+  paymentMethod: string;
+  createdAt: string;
+  lines: Array<{ name: string; sizeCode: string | null; qty: number; lineTotal: number }>;
+}
+
+export interface CustomerInput {
+  name?: string;
+  phone?: string;
+  email?: string | null;
+  notes?: string | null;
+}
+
+const SELECT = 'id, name, phone, email, notes, created_at, updated_at';
+
+/**
+ * Digits only; Ghana local numbers (0XXXXXXXXX or 9 digits without the 0) become 233XXXXXXXXX so the same parent
+ * typed two ways is one customer. Returns null when the result is not a plausible phone number.
+ */
+export function normalizePhone(raw: string | null | undefined): string | null {
+  let digits = String(raw ?? '').replace(/\D/g, '');
+  if (digits.startsWith('00')) digits = digits.slice(2);
+  if (digits.length === 10 && digits.startsWith('0')) digits = `233${digits.slice(1)}`;
+  else if (digits.length === 9 && !digits.startsWith('0')) digits = `233${digits}`;
+  return digits.length >= 7 && digits.length <= 15 ? digits : null;
+}
+
+function clean(v: string | null | undefined): string | null {
+  const s = typeof v === 'string' ? v.trim() : '';
+  return s || null;
+}
+
+type SummaryRow = { customer_id: string; visit_count: number; lifetime_spend: number; last_visit_at: string | null };
+
+function rowToApi(
+  row: Record<string, unknown>,
+  summary?: SummaryRow,
+  balances?: { pointsBalance: number; pointsValue: number; storeCreditBalance: number }
+): Customer {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    phone: row.phone as string,
+    email: (row.email as string | null) ?? null,
+    notes: (row.notes as string | null) ?? null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+    visitCount: Number(summary?.visit_count ?? 0),
+    lifetimeSpend: Number(summary?.lifetime_spend ?? 0),
+    lastVisitAt: summary?.last_visit_at ?? null,
+    pointsBalance: balances?.pointsBalance ?? 0,
+    pointsValue: balances?.pointsValue ?? 0,
+    storeCreditBalance: balances?.storeCreditBalance ?? 0,
+  };
+}
+
+async function withSummaries(rows: Array<Record<string, unknown>>): Promise<Customer[]> {
+  if (rows.length === 0) return [];
+  const db = getSupabase();
+  const ids = rows.map((r) => r.id as string);
+  const [{ data, error }, balances] = await Promise.all([
+    db.from('customer_sales_summary').select('customer_id, visit_count, lifetime_spend, last_visit_at').in('customer_id', ids),
+    getCustomerBalances(ids),
+  ]);
+  if (error) throw error;
+  const byId = new Map(((data ?? []) as SummaryRow[]).map((s) => [s.customer_id, s]));
+  return rows.map((r) => rowToApi(r, byId.get(r.id as string), balances.get(r.id as string)));
+}
+
+/** Type-ahead: digits search the phone (leading 0 ignored), anything else searches the name. */
+export async function searchCustomers(q: string, limit = 10): Promise<Customer[]> {
+  const db = getSupabase();
+  const term = q.trim();
+  let query = db.from('customers').select(SELECT).limit(Math.min(Math.max(1, limit), 50));
+  const digits = term.replace(/[\s+()-]/g, '');
+  if (/^\d{3,}$/.test(digits)) {
+    query = query.like('phone', `%${digits.replace(/^0+/, '')}%`);
+  } else if (term) {
+    query = query.ilike('name', `%${term.replace(/[%_]/g, '')}%`);
+  }
+  const { data, error } = await query.order('updated_at', { ascending: false });
+  if (error) throw error;
+  return withSummaries((data ?? []) as Array<Record<string, unknown>>);
+}
+
+export async function getCustomer(id: string): Promise<Customer | null> {
+  const db = getSupabase();
+  const { data, error } = await db.from('customers').select(SELECT).eq('id', id).maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const [customer] = await withSummaries([data as Record<string, unknown>]);
+  return customer;
+}
+
+export async function getCustomerByPhone(phone: string): Promise<Customer | null> {
+  const normalized = normalizePhone(phone);
+  if (!normalized) return null;
+  const db = getSupabase();
+  const { data, error } = await db.from('customers').select(SELECT).eq('phone', normalized).maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const [customer] = await withSummaries([data as Record<string, unknown>]);
+  return customer;
+}
+
+/** Input → column updates; only keys present in the input are written. Phone must already be normalised. */
+function inputToRow(input: CustomerInput): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  if (input.name !== undefined) row.name = (input.name ?? '').trim();
+  if (input.phone !== undefined) row.phone = input.phone;
+  if (input.email !== undefined) row.email = clean(input.email);
+  if (input.notes !== undefined) row.notes = clean(input.notes);
+  return row;
+}
+
+export async function createCustomer(input: CustomerInput): Promise<Customer> {
+  const db = getSupabase();
+  const { data, error } = await db.from('customers').insert(inputToRow(input)).select(SELECT).single();
+  if (error) throw error;
+  return rowToApi(data as Record<string, unknown>);
+}
+
+export async function updateCustomer(id: string, input: CustomerInput): Promise<Customer | null> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('customers')
+    .update({ ...inputToRow(input), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select(SELECT)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const [customer] = await withSummaries([data as Record<string, unknown>]);
+  return customer;
+}
+
+/**
+ * Hard delete; the customer's sales keep their receipt snapshot and lose the link (ON DELETE SET NULL).
+ * Customers with loyalty or store-credit entries cannot be deleted (23503 from the ledger FKs).
+ */
+export async function deleteCustomer(id: string): Promise<boolean> {
+  const db = getSupabase();
+  const { data, error } = await db.from('customers').delete().eq('id', id).select('id');
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+/** Past receipts, newest first, optionally limited to the warehouses the caller can see. */
+export async function listCustomerReceipts(
+  customerId: string,
+  opts: { warehouseIds?: string[]; limit?: number } = {}
+): Promise<CustomerReceipt[]> {
+  const db = getSupabase();
+  let query = db
+    .from('sales')
+    .select('id, receipt_id, warehouse_id, total, status, payment_method, created_at, sale_lines(product_name, size_code, qty, line_total)')
+    .eq('customer_id', customerId)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(Math.max(1, opts.limit ?? 50), 200));
+  if (opts.warehouseIds) query = query.in('warehouse_id', opts.warehouseIds);
+  const { data, error } = await query;
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map((s) => ({
+    id: s.id as string,
+    receiptId: (s.receipt_id as string) ?? '',
+    warehouseId: s.warehouse_id as string,
+    total: Number(s.total ?? 0),
+    status: (s.status as string) ?? 'completed',
+    paymentMethod: (s.payment_method as string) ?? '',
+    createdAt: s.created_at as string,
+    lines: ((s.sale_lines as Array<Record<string, unknown>> | null) ?? []).map((l) => ({
+      name: (l.product_name as string) ?? '',
+      sizeCode: (l.size_code as string | null) ?? null,
+      qty: Number(l.qty ?? 0),
+      lineTotal: Number(l.line_total ?? 0),
+    })),
+  }));
+}
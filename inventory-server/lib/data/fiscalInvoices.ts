@@ -0,0 +1,238 @@
+/**
+ * Fiscal invoices (fiscal_invoices): submitting a sale to the e-VAT API, the retry queue for submissions that
+ * failed, and the signature / QR code for receipts. The invoice payload and clients live in lib/fiscal.
+ */
+
+import { getSupabase } from '@/lib/supabase';
+import { buildEvatInvoice, FiscalClientError, type EvatInvoice, type FiscalClient, type FiscalSale } from '@/lib/fiscal/evat';
+import type { TaxBreakdownItem } from '@/lib/data/taxClasses';
+
+export type FiscalStatus = 'pending' | 'signed' | 'failed';
+
+/** What the receipt needs; qrCode is set once signed. */
+export interface FiscalReceipt {
+  status: FiscalStatus;
+  invoiceNumber: string;
+  sdcId: string | null;
+  receiptNumber: string | null;
+  signature: string | null;
+  qrCode: string | null;
+  signedAt: string | null;
+  lastError: string | null;
+}
+
+interface FiscalRow {
+  id: string;
+  sale_id: string;
+  invoice_number: string;
+  status: FiscalStatus;
+  payload: EvatInvoice;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  sdc_id: string | null;
+  receipt_number: string | null;
+  signature: string | null;
+  qr_code: string | null;
+  signed_at: string | null;
+}
+
+/** Retryable failures after which the invoice is marked failed for a manager to requeue. */
+export const MAX_FISCAL_ATTEMPTS = 12;
+
+const SELECT =
+  'id, sale_id, invoice_number, status, payload, attempts, last_error, next_attempt_at, sdc_id, receipt_number, signature, qr_code, signed_at';
+
+function toReceipt(row: FiscalRow): FiscalReceipt {
+  return {
+    status: row.status,
+    invoiceNumber: row.invoice_number,
+    sdcId: row.sdc_id,
+    receiptNumber: row.receipt_number,
+    signature: row.signature,
+    qrCode: row.qr_code,
+    signedAt: row.signed_at,
+    lastError: row.last_error,
+  };
+}
+
+/** 1, 2, 4 … minutes after each failed attempt, capped at 6 hours. */
+export function fiscalRetryDelayMs(attempts: number): number {
+  return Math.min(6 * 60 * 60_000, 60_000 * 2 ** Math.max(0, attempts - 1));
+}
+
+async function loadFiscalSale(saleId: string): Promise<{ warehouseId: string; sale: FiscalSale } | null> {
+  const db = getSupabase();
+  const { data: s, error } = await db
+    .from('sales')
+    .select('id, warehouse_id, receipt_id, created_at, sold_by_email, customer_name')
+    .eq('id', saleId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!s) return null;
+  const { data: lines, error: linesErr } = await db
+    .from('sale_lines')
+    .select('product_sku, product_name, qty, line_total, taxable_amount, tax_breakdown')
+    .eq('sale_id', saleId);
+  if (linesErr) throw linesErr;
+  const row = s as Record<string, unknown>;
+  return {
+    warehouseId: row.warehouse_id as string,
+    sale: {
+      receiptId: (row.receipt_id as string | null) ?? saleId,
+      createdAt: row.created_at as string,
+      soldByEmail: (row.sold_by_email as string | null) ?? null,
+      customerName: (row.customer_name as string | null) ?? null,
+      lines: ((lines ?? []) as Record<string, unknown>[]).map((l) => ({
+        sku: (l.product_sku as string | null) ?? '',
+        name: (l.product_name as string | null) ?? '',
+        qty: Number(l.qty ?? 0),
+        lineTotal: Number(l.line_total ?? 0),
+        taxableAmount: l.taxable_amount != null ? Number(l.taxable_amount) : null,
+        taxBreakdown: Array.isArray(l.tax_breakdown) ? (l.tax_breakdown as TaxBreakdownItem[]) : [],
+      })),
+    },
+  };
+}
+
+/** Sends the stored payload and records the outcome. Never throws for API failures; they go on the row. */
+async function submitRow(row: FiscalRow, client: FiscalClient): Promise<FiscalRow> {
+  const db = getSupabase();
+  const attempts = row.attempts + 1;
+  let patch: Record<string, unknown>;
+  try {
+    const signed = await client.submitInvoice(row.payload);
+    patch = {
+      status: 'signed',
+      attempts,
+      last_error: null,
+      sdc_id: signed.sdcId,
+      receipt_number: signed.receiptNumber,
+      signature: signed.signature,
+      qr_code: signed.qrCode,
+      signed_at: signed.signedAt,
+      response: signed.raw ?? null,
+    };
+  } catch (e) {
+    const retryable = e instanceof FiscalClientError ? e.retryable : true;
+    const message = e instanceof Error ? e.message : String(e);
+    const giveUp = !retryable || attempts >= MAX_FISCAL_ATTEMPTS;
+    patch = {
+      status: giveUp ? 'failed' : 'pending',
+      attempts,
+      last_error: message,
+      next_attempt_at: new Date(Date.now() + fiscalRetryDelayMs(attempts)).toISOString(),
+    };
+    console.warn(`[fiscal] ${row.invoice_number} attempt ${attempts}${giveUp ? ' (giving up)' : ''}: ${message}`);
+  }
+  const { data, error } = await db
+    .from('fiscal_invoices')
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', row.id)
+    .select(SELECT)
+    .single();
+  if (error) throw error;
+  return data as FiscalRow;
+}
+
+/**
+ * Fiscalises a completed sale: queues the invoice and submits it straight away. A sale already queued (an
+ * idempotent replay, or a retry in flight) is not sent twice; its current state is returned.
+ */
+export async function fiscaliseSale(saleId: string, client: FiscalClient): Promise<FiscalReceipt | null> {
+  const db = getSupabase();
+  const { data: existing, error: existingErr } = await db.from('fiscal_invoices').select(SELECT).eq('sale_id', saleId).maybeSingle();
+  if (existingErr) throw existingErr;
+  if (existing) return toReceipt(existing as FiscalRow);
+
+  const loaded = await loadFiscalSale(saleId);
+  if (!loaded) return null;
+  const payload = buildEvatInvoice(loaded.sale);
+  const { data: inserted, error } = await db
+    .from('fiscal_invoices')
+    .upsert(
+      {
+        sale_id: saleId,
+        warehouse_id: loaded.warehouseId,
+        invoice_number: payload.invoiceNumber,
+        provider: client.name,
+        payload,
+      },
+      { onConflict: 'sale_id', ignoreDuplicates: true }
+    )
+    .select(SELECT)
+    .maybeSingle();
+  if (error) throw error;
+  // Another request queued it first.
+  if (!inserted) return getFiscalReceipt(saleId);
+  return toReceipt(await submitRow(inserted as FiscalRow, client));
+}
+
+export async function getFiscalReceipt(saleId: string): Promise<FiscalReceipt | null> {
+  const db = getSupabase();
+  const { data, error } = await db.from('fiscal_invoices').select(SELECT).eq('sale_id', saleId).maybeSingle();
+  if (error) throw error;
+  return data ? toReceipt(data as FiscalRow) : null;
+}
+
+/** Receipts for a page of sales (sales history reprints), by sale id. */
+export async function getFiscalReceipts(saleIds: string[]): Promise<Record<string, FiscalReceipt>> {
+  if (saleIds.length === 0) return {};
+  const db = getSupabase();
+  const { data, error } = await db.from('fiscal_invoices').select(SELECT).in('sale_id', saleIds);
+  if (error) throw error;
+  return Object.fromEntries(((data ?? []) as FiscalRow[]).map((r) => [r.sale_id, toReceipt(r)]));
+}
+
+/** Submits invoices whose retry is due (claim_fiscal_invoices). Returns how each came out. */
+export async function retryDueFiscalInvoices(
+  client: FiscalClient,
+  limit = 20
+): Promise<{ signed: number; pending: number; failed: number }> {
+  const db = getSupabase();
+  const { data, error } = await db.rpc('claim_fiscal_invoices', { p_limit: limit, p_lease_seconds: 120 });
+  if (error) throw error;
+  const counts = { signed: 0, pending: 0, failed: 0 };
+  for (const row of (data ?? []) as FiscalRow[]) {
+    const after = await submitRow(row, client);
+    counts[after.status] += 1;
+  }
+  return counts;
+}
+
+/** Puts a failed invoice back in the queue with a payload rebuilt from the sale (e.g. after fixing a product). */
+export async function requeueFiscalInvoice(saleId: string): Promise<FiscalReceipt | null> {
+  const loaded = await loadFiscalSale(saleId);
+  if (!loaded) return null;
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('fiscal_invoices')
+    .update({
+      status: 'pending',
+      payload: buildEvatInvoice(loaded.sale),
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('sale_id', saleId)
+    .eq('status', 'failed')
+    .select(SELECT)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toReceipt(data as FiscalRow) : getFiscalReceipt(saleId);
+}
+
+/** Invoices still waiting to be signed or given up on, newest first. */
+export async function listUnsignedFiscalInvoices(warehouseId: string | null, limit = 100): Promise<Array<FiscalReceipt & { saleId: string; attempts: number; nextAttemptAt: string }>> {
+  const db = getSupabase();
+  let q = db.from('fiscal_invoices').select(SELECT).neq('status', 'signed').order('created_at', { ascending: false }).limit(limit);
+  if (warehouseId) q = q.eq('warehouse_id', warehouseId);
+  const { data, error } = await q;
+  if (error) throw error;
+  return ((data ?? []) as FiscalRow[]).map((r) => ({
+    ...toReceipt(r),
+    saleId: r.sale_id,
+    attempts: r.attempts,
+    nextAttemptAt: r.next_attempt_at,
+  }));
+}
@@ -0,0 +1,77 @@
+/**
+ * Goods-received notes (GRN): read side. Receipts are written by the record_goods_receipt RPC.
+ */
+
+import { getSupabase } from '@/lib/supabase';
+
+export interface GoodsReceiptLine {
+  id: string;
+  productId: string;
+  productName: string | null;
+  sku: string | null;
+  sizeCode: string | null;
+  qty: number;
+}
+
+export interface GoodsReceipt {
+  id: string;
+  grnNumber: string;
+  warehouseId: string;
+  supplierName: string | null;
+  reference: string | null;
+  notes: string | null;
+  receivedBy: string | null;
+  createdAt: string;
+  totalUnits: number;
+  lines: GoodsReceiptLine[];
+}
+
+const SELECT =
+  'id, grn_number, warehouse_id, supplier_name, reference, notes, received_by_email, created_at, goods_receipt_lines(id, product_id, size_code, qty, warehouse_products(name, sku))';
+
+function rowToApi(row: Record<string, unknown>): GoodsReceipt {
+  const rawLines = (row.goods_receipt_lines as Array<Record<string, unknown>> | null) ?? [];
+  const lines = rawLines.map((l) => {
+    const product = l.warehouse_products as { name?: string; sku?: string } | null;
+    return {
+      id: l.id as string,
+      productId: l.product_id as string,
+      productName: product?.name ?? null,
+      sku: product?.sku ?? null,
+      sizeCode: (l.size_code as string | null) ?? null,
+      qty: Number(l.qty ?? 0),
+    };
+  });
+  return {
+    id: row.id as string,
+    grnNumber: row.grn_number as string,
+    warehouseId: row.warehouse_id as string,
+    supplierName: (row.supplier_name as string | null) ?? null,
+    reference: (row.reference as string | null) ?? null,
+    notes: (row.notes as string | null) ?? null,
+    receivedBy: (row.received_by_email as string | null) ?? null,
+    createdAt: row.created_at as string,
+    totalUnits: lines.reduce((n, l) => n + l.qty, 0),
+    lines,
+  };
+}
+
+/** Receipts for a warehouse, newest first. */
+export async function listGoodsReceipts(params: { warehouseId: string; limit?: number }): Promise<GoodsReceipt[]> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('goods_receipts')
+    .select(SELECT)
+    .eq('warehouse_id', params.warehouseId)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(Math.max(1, params.limit ?? 50), 200));
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map(rowToApi);
+}
+
+export async function getGoodsReceipt(id: string): Promise<GoodsReceipt | null> {
+  const db = getSupabase();
+  const { data, error } = await db.from('goods_receipts').select(SELECT).eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
@@ -0,0 +1,162 @@
+/**
+ * Held carts: carts parked at the POS ("Hold sale") so a reload or a customer stepping away does not lose them.
+ * Any till at the warehouse can list and recall them; recalling deletes the cart. A hold can softly reserve its
+ * stock (the POS leaves it out of what it offers). The hourly purge_expired_held_carts job drops old holds.
+ */
+
+import { getSupabase } from '@/lib/supabase';
+
+export interface HeldCartLine {
+  productId: string;
+  sizeCode: string | null;
+  sizeLabel: string | null;
+  name: string;
+  sku: string;
+  unitPrice: number;
+  qty: number;
+  imageUrl: string | null;
+  category: string | null;
+}
+
+export interface HeldCart {
+  id: string;
+  warehouseId: string;
+  name: string;
+  lines: HeldCartLine[];
+  itemCount: number;
+  subtotal: number;
+  reserveStock: boolean;
+  expiresAt: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface HeldCartInput {
+  warehouseId?: string;
+  name?: string;
+  lines?: unknown;
+  reserveStock?: boolean;
+}
+
+const SELECT = 'id, warehouse_id, name, lines, item_count, subtotal, reserve_stock, expires_at, created_by_email, created_at';
+
+const DEFAULT_HOLD_HOURS = 24;
+const MAX_LINES = 100;
+
+/** Hours a held cart is kept (HELD_CART_HOURS, default 24). */
+export function getHeldCartHours(): number {
+  const hours = Number(process.env.HELD_CART_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_HOLD_HOURS;
+}
+
+function str(v: unknown): string | null {
+  return typeof v === 'string' && v.trim() ? v.trim() : null;
+}
+
+function rowToApi(row: Record<string, unknown>): HeldCart {
+  return {
+    id: row.id as string,
+    warehouseId: row.warehouse_id as string,
+    name: row.name as string,
+    lines: (row.lines as HeldCartLine[] | null) ?? [],
+    itemCount: Number(row.item_count ?? 0),
+    subtotal: Number(row.subtotal ?? 0),
+    reserveStock: row.reserve_stock === true,
+    expiresAt: row.expires_at as string,
+    createdBy: (row.created_by_email as string | null) ?? null,
+    createdAt: row.created_at as string,
+  };
+}
+
+/**
+ * Cleans the POS cart lines into what is stored. Returns the lines, or a message for the first bad one so it is
+ * a 400 rather than a half-usable cart on recall.
+ */
+export function parseHeldCartLines(raw: unknown): HeldCartLine[] | string {
+  if (!Array.isArray(raw) || raw.length === 0) return 'lines must be a non-empty array.';
+  if (raw.length > MAX_LINES) return `A held cart can have at most ${MAX_LINES} lines.`;
+  const lines: HeldCartLine[] = [];
+  for (const item of raw) {
+    const l = (item ?? {}) as Record<string, unknown>;
+    const productId = str(l.productId);
+    const qty = Number(l.qty);
+    const unitPrice = Number(l.unitPrice);
+    if (!productId) return 'Each line needs a productId.';
+    if (!Number.isInteger(qty) || qty < 1) return 'Each line needs a whole qty of at least 1.';
+    if (!Number.isFinite(unitPrice) || unitPrice < 0) return 'Each line needs a unitPrice of 0 or more.';
+    lines.push({
+      productId,
+      sizeCode: str(l.sizeCode)?.toUpperCase() ?? null,
+      sizeLabel: str(l.sizeLabel),
+      name: str(l.name) ?? 'Unknown',
+      sku: str(l.sku) ?? '',
+      unitPrice,
+      qty,
+      imageUrl: str(l.imageUrl),
+      category: str(l.category),
+    });
+  }
+  return lines;
+}
+
+/** Unexpired held carts at a warehouse, newest first. */
+export async function listHeldCarts(warehouseId: string): Promise<HeldCart[]> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('held_carts')
+    .select(SELECT)
+    .eq('warehouse_id', warehouseId)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map(rowToApi);
+}
+
+export async function getHeldCart(id: string): Promise<HeldCart | null> {
+  const db = getSupabase();
+  const { data, error } = await db.from('held_carts').select(SELECT).eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
+
+export async function createHeldCart(
+  input: { warehouseId: string; name: string; lines: HeldCartLine[]; reserveStock: boolean },
+  email: string | null
+): Promise<HeldCart> {
+  const itemCount = input.lines.reduce((s, l) => s + l.qty, 0);
+  const subtotal = Math.round(input.lines.reduce((s, l) => s + l.unitPrice * l.qty, 0) * 100) / 100;
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('held_carts')
+    .insert({
+      warehouse_id: input.warehouseId,
+      name: input.name,
+      lines: input.lines,
+      item_count: itemCount,
+      subtotal,
+      reserve_stock: input.reserveStock,
+      expires_at: new Date(Date.now() + getHeldCartHours() * 60 * 60 * 1000).toISOString(),
+      created_by_email: email,
+    })
+    .select(SELECT)
+    .single();
+  if (error) throw error;
+  return rowToApi(data as Record<string, unknown>);
+}
+
+/**
+ * Deletes the held cart and returns it (recall or discard). Null when another till got there first or it expired,
+ * so two tills cannot both recall the same cart.
+ */
+export async function takeHeldCart(id: string): Promise<HeldCart | null> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('held_carts')
+    .delete()
+    .eq('id', id)
+    .gt('expires_at', new Date().toISOString())
+    .select(SELECT)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
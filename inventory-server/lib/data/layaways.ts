@@ -0,0 +1,73 @@
+/**
+ * Layaways: sales taken with a deposit that hold their stock (sale_reservations) until paid off.
+ * record_sale writes the deposit, record_layaway_payment the instalments; release_layaway (and the hourly
+ * release_expired_layaways job) gives the stock back. This module is the read side and the release window.
+ */
+
+import { getSupabase } from '@/lib/supabase';
+
+export type LayawayPaymentKind = 'deposit' | 'installment';
+
+export interface LayawayPayment {
+  id: string;
+  saleId: string;
+  kind: LayawayPaymentKind;
+  paymentMethod: string;
+  amount: number;
+  tillSessionId: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/** record_sale / record_layaway_payment failures the POS can act on. */
+export const LAYAWAY_ERRORS: Record<string, string> = {
+  LAYAWAY_DEPOSIT_INVALID: 'The deposit must be more than 0 and less than the total.',
+  LAYAWAY_TENDER_NOT_ALLOWED: 'Layaway deposits cannot be paid with points or store credit.',
+  LAYAWAY_OVERPAYMENT: 'The payment is more than the balance due.',
+};
+
+const DEFAULT_RELEASE_DAYS = 30;
+
+/** Days an unpaid layaway holds its stock (LAYAWAY_RELEASE_DAYS, default 30). */
+export function getLayawayReleaseDays(): number {
+  const days = Number(process.env.LAYAWAY_RELEASE_DAYS);
+  return Number.isFinite(days) && days >= 1 ? Math.floor(days) : DEFAULT_RELEASE_DAYS;
+}
+
+/** Release date for a layaway taken at `at`. */
+export function layawayExpiresAt(at: Date): string {
+  return new Date(at.getTime() + getLayawayReleaseDays() * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function rowToApi(row: Record<string, unknown>): LayawayPayment {
+  return {
+    id: row.id as string,
+    saleId: row.sale_id as string,
+    kind: row.kind as LayawayPaymentKind,
+    paymentMethod: (row.payment_method as string) ?? '',
+    amount: Number(row.amount ?? 0),
+    tillSessionId: (row.till_session_id as string | null) ?? null,
+    createdBy: (row.created_by_email as string | null) ?? null,
+    createdAt: row.created_at as string,
+  };
+}
+
+/** Payments per sale, oldest first. Sales without payments are not in the map. */
+export async function listLayawayPayments(saleIds: string[]): Promise<Map<string, LayawayPayment[]>> {
+  const out = new Map<string, LayawayPayment[]>();
+  if (saleIds.length === 0) return out;
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('layaway_payments')
+    .select('id, sale_id, kind, payment_method, amount, till_session_id, created_by_email, created_at')
+    .in('sale_id', saleIds)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  for (const row of (data ?? []) as Array<Record<string, unknown>>) {
+    const payment = rowToApi(row);
+    const list = out.get(payment.saleId) ?? [];
+    list.push(payment);
+    out.set(payment.saleId, list);
+  }
+  return out;
+}
@@ -0,0 +1,130 @@
+/**
+ * Loyalty points and store credit: earn / redeem settings and read side of the ledgers.
+ * Entries are written by record_sale (earn, redeem), record_return (store-credit refunds, points clawback)
+ * and void_sale (reversals); balances are sums over customer_balances.
+ */
+
+import { getSupabase } from '@/lib/supabase';
+
+export interface LoyaltyConfig {
+  /** Points earned per GH₵1 paid with money (not with points or store credit). */
+  pointsPerCedi: number;
+  /** GH₵ value of one point when redeemed. */
+  pointValue: number;
+}
+
+export interface CustomerBalances {
+  pointsBalance: number;
+  /** pointsBalance × pointValue: what the points are worth at the till. */
+  pointsValue: number;
+  storeCreditBalance: number;
+}
+
+export interface LoyaltyEntry {
+  id: string;
+  points: number;
+  entryType: 'earn' | 'redeem' | 'reversal' | 'adjustment';
+  saleId: string | null;
+  receiptId: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface StoreCreditEntry {
+  id: string;
+  amount: number;
+  entryType: 'refund' | 'redeem' | 'reversal' | 'adjustment';
+  saleId: string | null;
+  receiptId: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export function getLoyaltyConfig(): LoyaltyConfig {
+  const rate = Number(process.env.LOYALTY_POINTS_PER_CEDI);
+  const value = Number(process.env.LOYALTY_POINT_VALUE);
+  return {
+    pointsPerCedi: Number.isFinite(rate) && rate >= 0 ? rate : 1,
+    pointValue: Number.isFinite(value) && value > 0 ? value : 0.01,
+  };
+}
+
+type BalanceRow = { customer_id: string; points_balance: number; store_credit_balance: number };
+
+/** Balances for many customers at once; customers without entries get zeros. */
+export async function getCustomerBalances(customerIds: string[]): Promise<Map<string, CustomerBalances>> {
+  const out = new Map<string, CustomerBalances>();
+  if (customerIds.length === 0) return out;
+  const { pointValue } = getLoyaltyConfig();
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('customer_balances')
+    .select('customer_id, points_balance, store_credit_balance')
+    .in('customer_id', customerIds);
+  if (error) throw error;
+  for (const row of (data ?? []) as BalanceRow[]) {
+    const points = Number(row.points_balance ?? 0);
+    out.set(row.customer_id, {
+      pointsBalance: points,
+      pointsValue: Math.floor(points * pointValue * 100) / 100,
+      storeCreditBalance: Number(row.store_credit_balance ?? 0),
+    });
+  }
+  return out;
+}
+
+/** Receipt numbers for ledger rows (sale_id is a plain reference; cleared sales come back as null). */
+async function receiptIdsFor(saleIds: string[]): Promise<Map<string, string>> {
+  const ids = Array.from(new Set(saleIds));
+  if (ids.length === 0) return new Map();
+  const db = getSupabase();
+  const { data, error } = await db.from('sales').select('id, receipt_id').in('id', ids);
+  if (error) throw error;
+  return new Map(((data ?? []) as Array<{ id: string; receipt_id: string }>).map((s) => [s.id, s.receipt_id]));
+}
+
+/** Newest first. */
+export async function listLoyaltyEntries(customerId: string, limit = 50): Promise<LoyaltyEntry[]> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('loyalty_ledger')
+    .select('id, points, entry_type, sale_id, note, created_at')
+    .eq('customer_id', customerId)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(Math.max(1, limit), 200));
+  if (error) throw error;
+  const rows = (data ?? []) as Array<Record<string, unknown>>;
+  const receipts = await receiptIdsFor(rows.map((r) => r.sale_id as string).filter(Boolean));
+  return rows.map((r) => ({
+    id: r.id as string,
+    points: Number(r.points ?? 0),
+    entryType: r.entry_type as LoyaltyEntry['entryType'],
+    saleId: (r.sale_id as string | null) ?? null,
+    receiptId: r.sale_id ? receipts.get(r.sale_id as string) ?? null : null,
+    note: (r.note as string | null) ?? null,
+    createdAt: r.created_at as string,
+  }));
+}
+
+/** Newest first. */
+export async function listStoreCreditEntries(customerId: string, limit = 50): Promise<StoreCreditEntry[]> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('store_credit_ledger')
+    .select('id, amount, entry_type, sale_id, note, created_at')
+    .eq('customer_id', customerId)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(Math.max(1, limit), 200));
+  if (error) throw error;
+  const rows = (data ?? []) as Array<Record<string, unknown>>;
+  const receipts = await receiptIdsFor(rows.map((r) => r.sale_id as string).filter(Boolean));
+  return rows.map((r) => ({
+    id: r.id as string,
+    amount: Number(r.amount ?? 0),
+    entryType: r.entry_type as StoreCreditEntry['entryType'],
+    saleId: (r.sale_id as string | null) ?? null,
+    receiptId: r.sale_id ? receipts.get(r.sale_id as string) ?? null : null,
+    note: (r.note as string | null) ?? null,
+    createdAt: r.created_at as string,
+  }));
+}
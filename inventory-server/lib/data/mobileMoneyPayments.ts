@@ -0,0 +1,172 @@
+/**
+ * Mobile money collections (mobile_money_payments): request, status refresh from the provider, and checking a
+ * payment before a sale uses it. The provider adapters live in lib/payments.
+ */
+
+import { randomUUID } from 'crypto';
+import { getSupabase } from '@/lib/supabase';
+import type { MobileMoneyProvider, MobileMoneyStatus } from '@/lib/payments/mobileMoney';
+
+export interface MobileMoneyPayment {
+  id: string;
+  provider: string;
+  providerRef: string;
+  warehouseId: string;
+  phone: string;
+  amount: number;
+  currency: string;
+  status: MobileMoneyStatus;
+  reason: string | null;
+  financialTransactionId: string | null;
+  requestedBy: string | null;
+  saleId: string | null;
+  saleRef: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** What the sale's payments_breakdown leg records about the collection. */
+export interface MobileMoneyLegRef {
+  mobileMoneyPaymentId: string;
+  provider: string;
+  providerRef: string;
+  financialTransactionId: string | null;
+}
+
+const SELECT =
+  'id, provider, provider_ref, warehouse_id, phone, amount, currency, status, reason, financial_transaction_id, requested_by_email, sale_id, sale_ref, created_at, updated_at';
+
+function rowToApi(row: Record<string, unknown>): MobileMoneyPayment {
+  return {
+    id: row.id as string,
+    provider: row.provider as string,
+    providerRef: row.provider_ref as string,
+    warehouseId: row.warehouse_id as string,
+    phone: row.phone as string,
+    amount: Number(row.amount ?? 0),
+    currency: (row.currency as string) ?? 'GHS',
+    status: row.status as MobileMoneyStatus,
+    reason: (row.reason as string | null) ?? null,
+    financialTransactionId: (row.financial_transaction_id as string | null) ?? null,
+    requestedBy: (row.requested_by_email as string | null) ?? null,
+    saleId: (row.sale_id as string | null) ?? null,
+    saleRef: (row.sale_ref as string | null) ?? null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+export function legRef(payment: MobileMoneyPayment): MobileMoneyLegRef {
+  return {
+    mobileMoneyPaymentId: payment.id,
+    provider: payment.provider,
+    providerRef: payment.providerRef,
+    financialTransactionId: payment.financialTransactionId,
+  };
+}
+
+export async function getMobileMoneyPayment(id: string): Promise<MobileMoneyPayment | null> {
+  const db = getSupabase();
+  const { data, error } = await db.from('mobile_money_payments').select(SELECT).eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
+
+/** Sends the prompt to the customer's phone and records the pending payment. phone must be a normalized MSISDN. */
+export async function requestMobileMoneyPayment(
+  provider: MobileMoneyProvider,
+  input: { warehouseId: string; phone: string; amount: number; requestedByEmail: string | null; payerMessage?: string }
+): Promise<MobileMoneyPayment> {
+  const id = randomUUID();
+  const amount = Math.round(input.amount * 100) / 100;
+  const { providerRef } = await provider.requestToPay({
+    externalId: id,
+    phone: input.phone,
+    amount,
+    currency: provider.currency,
+    payerMessage: input.payerMessage,
+  });
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('mobile_money_payments')
+    .insert({
+      id,
+      provider: provider.name,
+      provider_ref: providerRef,
+      warehouse_id: input.warehouseId,
+      phone: input.phone,
+      amount,
+      currency: provider.currency,
+      requested_by_email: input.requestedByEmail,
+    })
+    .select(SELECT)
+    .single();
+  if (error) throw error;
+  return rowToApi(data as Record<string, unknown>);
+}
+
+/**
+ * Asks the provider for the status of a pending payment and stores any change. Settled payments are returned as
+ * they are. Used by polling, the webhook (which re-reads rather than trusting the callback body) and the sale check.
+ */
+export async function refreshMobileMoneyPayment(
+  payment: MobileMoneyPayment,
+  provider: MobileMoneyProvider
+): Promise<MobileMoneyPayment> {
+  if (payment.status !== 'pending' || payment.provider !== provider.name) return payment;
+  const result = await provider.getStatus(payment.providerRef);
+  if (result.status === 'pending') return payment;
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('mobile_money_payments')
+    .update({
+      status: result.status,
+      reason: result.reason ?? null,
+      financial_transaction_id: result.financialTransactionId ?? null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', payment.id)
+    .eq('status', 'pending')
+    .select(SELECT)
+    .maybeSingle();
+  if (error) throw error;
+  // Another request settled it first: return what it stored.
+  return data ? rowToApi(data as Record<string, unknown>) : ((await getMobileMoneyPayment(payment.id)) ?? payment);
+}
+
+/**
+ * Checks the mobile money payment a sale leg points at: same warehouse, paid, at least the leg amount, and not
+ * used by another sale (saleRef = Idempotency-Key; a replay of the same sale may reuse it).
+ */
+export async function checkMobileMoneyForSale(
+  id: string,
+  opts: { warehouseId: string; amount: number; saleRef: string | null; provider: MobileMoneyProvider | null }
+): Promise<{ ok: true; payment: MobileMoneyPayment } | { ok: false; message: string }> {
+  let payment = await getMobileMoneyPayment(id);
+  if (!payment || payment.warehouseId !== opts.warehouseId) {
+    return { ok: false, message: 'Mobile money payment not found for this location.' };
+  }
+  if (payment.status === 'pending' && opts.provider) payment = await refreshMobileMoneyPayment(payment, opts.provider);
+  if (payment.status !== 'successful') {
+    return { ok: false, message: 'The mobile money payment has not been confirmed.' };
+  }
+  if (payment.amount + 0.005 < opts.amount) {
+    return { ok: false, message: 'The mobile money payment is less than the amount charged to it.' };
+  }
+  if (payment.saleId && (!opts.saleRef || payment.saleRef !== opts.saleRef)) {
+    return { ok: false, message: 'This mobile money payment has already been used for another sale.' };
+  }
+  return { ok: true, payment };
+}
+
+/** Records which sale used the payments. Only the first use is kept. */
+export async function markMobileMoneyPaymentsUsed(ids: string[], saleId: string, saleRef: string | null): Promise<void> {
+  if (ids.length === 0) return;
+  const db = getSupabase();
+  const { error } = await db
+    .from('mobile_money_payments')
+    .update({ sale_id: saleId, sale_ref: saleRef, updated_at: new Date().toISOString() })
+    .in('id', ids)
+    .is('sale_id', null);
+  if (error) console.error('[mobileMoneyPayments] mark used', error);
+}
@@ -0,0 +1,82 @@
+/**
+ * Product change feed (get_product_changes): the products that changed at a warehouse after a cursor, so devices
+ * update their catalog without re-downloading it. The cursor is '<seq>:<xmin>', passed around as an opaque string:
+ * seq is the last product_change_seq read, xmin the oldest transaction still open at that read. Rows written by
+ * transactions >= xmin may have committed behind seq, so each read also re-sends them ("overlap"). A bare '<seq>'
+ * (cursors handed out before the watermark) is still accepted.
+ */
+
+import { getSupabase } from '@/lib/supabase';
+import { getWarehouseProducts, type ListProduct } from '@/lib/data/warehouseProducts';
+
+export const PRODUCT_CHANGES_PAGE_SIZE = 250;
+
+export interface ProductChanges {
+  /** Changed or added products, as in GET /api/products. */
+  data: ListProduct[];
+  /** Products deleted, or no longer stocked at the warehouse. */
+  deleted: string[];
+  /** Pass as `since` for the next page / next sync. */
+  cursor: string;
+  /** More changes after this page. */
+  hasMore: boolean;
+}
+
+/** A `since` value from the query string, normalised, or null when it is not a cursor. */
+export function parseCursor(raw: string | null | undefined): string | null {
+  const m = /^(\d{1,18})(?::(\d{1,20}))?$/.exec((raw ?? '').trim());
+  if (!m) return null;
+  const seq = String(BigInt(m[1]));
+  return m[2] == null ? seq : `${seq}:${BigInt(m[2])}`;
+}
+
+export async function getProductChangeCursor(): Promise<string> {
+  const { data, error } = await getSupabase().rpc('product_change_cursor');
+  if (error) throw error;
+  return String(data ?? '0');
+}
+
+export async function getProductChanges(
+  warehouseId: string,
+  since: string,
+  options: { limit?: number; view?: 'list' | 'full'; signal?: AbortSignal } = {}
+): Promise<ProductChanges> {
+  const [sinceSeq, sinceXmin = null] = since.split(':');
+  const limit = Math.min(Math.max(options.limit ?? PRODUCT_CHANGES_PAGE_SIZE, 1), PRODUCT_CHANGES_PAGE_SIZE);
+  const { data, error } = await getSupabase().rpc('get_product_changes', {
+    p_warehouse_id: warehouseId,
+    p_since: sinceSeq,
+    p_since_xmin: sinceXmin,
+    p_limit: limit,
+  });
+  if (error) throw error;
+  const page = (data ?? {}) as {
+    changes?: Array<{ product_id: string; change_seq: string }>;
+    overlap?: string[];
+    xmin?: string;
+  };
+  const changes = page.changes ?? [];
+  const ids = [...changes.map((r) => r.product_id), ...(page.overlap ?? [])];
+  const seq = changes.length > 0 ? changes[changes.length - 1].change_seq : sinceSeq;
+  const cursor = page.xmin ? `${seq}:${page.xmin}` : since;
+  if (ids.length === 0) return { data: [], deleted: [], cursor, hasMore: false };
+
+  const products: ListProduct[] = [];
+  for (let i = 0; i < ids.length; i += PRODUCT_CHANGES_PAGE_SIZE) {
+    const chunk = ids.slice(i, i + PRODUCT_CHANGES_PAGE_SIZE);
+    const { data: rows } = await getWarehouseProducts(warehouseId, {
+      ids: chunk,
+      limit: chunk.length,
+      view: options.view,
+      signal: options.signal,
+    });
+    products.push(...rows);
+  }
+  const found = new Set(products.map((p) => p.id));
+  return {
+    data: products,
+    deleted: ids.filter((id) => !found.has(id)),
+    cursor,
+    hasMore: changes.length === limit,
+  };
+}
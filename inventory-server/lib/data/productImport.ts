@@ -0,0 +1,474 @@
+/**
+ * Bulk product import (migration 20260403100000_product_import.sql): a CSV of products keyed by SKU, checked and
+ * compared with the catalogue as a dry-run diff (planProductImport), then applied in one transaction by the
+ * import_products RPC (applyProductImport). Applying the same file again finds every row unchanged.
+ *
+ * Columns (header row; case, spaces and underscores do not matter):
+ *   sku (required) · name (required for a new product) · category · selling_price · cost_price · barcode ·
+ *   description · color · reorder_level · images (URLs separated by spaces or |) ·
+ *   quantity (products without sizes), or sizes ("EU40:2; EU41:3") and / or one "size EU40" column per size.
+ * An empty cell keeps the product's current value; sizes a row leaves out keep their stock.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabase } from '@/lib/supabase';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
+import { getSizeCodes, normalizeSizeCode } from '@/lib/data/sizeCodes';
+
+export const MAX_IMPORT_ROWS = 2000;
+const MAX_IMAGES = 5;
+const BATCH = 100;
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface ImportChange {
+  /** name, category, description, barcode, color, sellingPrice, costPrice, reorderLevel, images, sizeKind,
+   *  quantity, or size:<code> for the stock of one size. */
+  field: string;
+  from: string | number | string[] | null;
+  to: string | number | string[] | null;
+}
+
+export interface ImportRowResult {
+  /** Row in the file, the header being row 1. */
+  line: number;
+  sku: string;
+  name: string;
+  action: ImportAction;
+  productId: string | null;
+  changes: ImportChange[];
+  errors: string[];
+}
+
+export interface ImportPlan {
+  rows: ImportRowResult[];
+  summary: Record<ImportAction, number>;
+  /** Header cells that are not import columns; their values are not imported. */
+  ignoredColumns: string[];
+}
+
+export interface ImportApplyResult extends ImportPlan {
+  /** product_imports id; null when nothing needed writing. */
+  importId: string | null;
+}
+
+type TextField = 'name' | 'category' | 'description' | 'barcode' | 'color';
+type NumberField = 'sellingPrice' | 'costPrice' | 'reorderLevel';
+type Column =
+  | { kind: 'sku' | 'images' | 'quantity' | 'sizes' }
+  | { kind: 'text'; field: TextField }
+  | { kind: 'number'; field: NumberField }
+  | { kind: 'size'; raw: string };
+
+interface ImportRow {
+  line: number;
+  sku: string;
+  text: Partial<Record<TextField, string>>;
+  numbers: Partial<Record<NumberField, number>>;
+  images?: string[];
+  quantity?: number;
+  sizes?: Array<{ sizeCode: string; quantity: number }>;
+  errors: string[];
+}
+
+interface ExistingProduct {
+  id: string;
+  parentId: string | null;
+  text: Record<TextField, string | null>;
+  numbers: Record<NumberField, number>;
+  images: string[];
+  sizeKind: string;
+  hasVariants: boolean;
+  /** warehouse_inventory quantity at the warehouse; null when the product is not listed there. */
+  quantity: number | null;
+  sizes: Map<string, number>;
+}
+
+const COLUMNS: Record<string, Column> = {
+  sku: { kind: 'sku' },
+  name: { kind: 'text', field: 'name' },
+  product_name: { kind: 'text', field: 'name' },
+  category: { kind: 'text', field: 'category' },
+  description: { kind: 'text', field: 'description' },
+  barcode: { kind: 'text', field: 'barcode' },
+  color: { kind: 'text', field: 'color' },
+  colour: { kind: 'text', field: 'color' },
+  selling_price: { kind: 'number', field: 'sellingPrice' },
+  price: { kind: 'number', field: 'sellingPrice' },
+  cost_price: { kind: 'number', field: 'costPrice' },
+  cost: { kind: 'number', field: 'costPrice' },
+  reorder_level: { kind: 'number', field: 'reorderLevel' },
+  quantity: { kind: 'quantity' },
+  qty: { kind: 'quantity' },
+  stock: { kind: 'quantity' },
+  sizes: { kind: 'sizes' },
+  images: { kind: 'images' },
+  image_urls: { kind: 'images' },
+  image_url: { kind: 'images' },
+};
+const SIZE_COLUMN = /^size[\s:_-]+(.+)$/i;
+
+const LABELS: Record<TextField | NumberField, string> = {
+  name: 'Name',
+  category: 'Category',
+  description: 'Description',
+  barcode: 'Barcode',
+  color: 'Color',
+  sellingPrice: 'Selling price',
+  costPrice: 'Cost price',
+  reorderLevel: 'Reorder level',
+};
+
+/** RFC 4180 CSV (quoted cells, "" escapes, CRLF), comma- or semicolon-separated as spreadsheets save it. */
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, '');
+  const firstLine = src.slice(0, src.search(/\r?\n|$/));
+  const sep = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c !== '"') cell += c;
+      else if (src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else quoted = false;
+    } else if (c === '"' && cell === '') {
+      quoted = true;
+    } else if (c === sep) {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && src[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function columnOf(header: string): Column | null {
+  const size = header.trim().match(SIZE_COLUMN);
+  if (size) return { kind: 'size', raw: size[1] };
+  return COLUMNS[header.trim().toLowerCase().replace(/[\s_-]+/g, '_')] ?? null;
+}
+
+/** Money: GH₵ / GHS and thousands separators allowed. null when not a number of 0 or more. */
+function parseAmount(cell: string): number | null {
+  const n = Number(cell.replace(/GH₵|GHS|[,\s]/gi, ''));
+  return Number.isFinite(n) && n >= 0 ? Math.round(n * 100) / 100 : null;
+}
+
+/** Whole number of 0 or more, else null. */
+function parseCount(cell: string): number | null {
+  const n = Number(cell.replace(/[,\s]/g, ''));
+  return Number.isInteger(n) && n >= 0 ? n : null;
+}
+
+function readImportRows(csv: string, catalog: Set<string>): { rows: ImportRow[]; ignoredColumns: string[] } {
+  const [header, ...records] = parseCsv(csv);
+  if (!header) throw new Error('IMPORT_EMPTY');
+  const columns = header.map(columnOf);
+  if (!columns.some((c) => c?.kind === 'sku')) throw new Error('IMPORT_NO_SKU_COLUMN');
+  const ignoredColumns = header.filter((h, i) => h.trim() && !columns[i]).map((h) => h.trim());
+
+  const rows: ImportRow[] = [];
+  records.forEach((cells, r) => {
+    if (cells.every((c) => !c.trim())) return;
+    const row: ImportRow = { line: r + 2, sku: '', text: {}, numbers: {}, errors: [] };
+    const sizes: Array<{ raw: string; qty: string }> = [];
+
+    columns.forEach((col, i) => {
+      const cell = (cells[i] ?? '').trim();
+      if (!col || !cell) return;
+      switch (col.kind) {
+        case 'sku':
+          row.sku = cell;
+          break;
+        case 'text':
+          row.text[col.field] = cell;
+          break;
+        case 'number': {
+          const n = col.field === 'reorderLevel' ? parseCount(cell) : parseAmount(cell);
+          if (n === null) row.errors.push(`${LABELS[col.field]} "${cell}" is not a number of 0 or more.`);
+          else row.numbers[col.field] = n;
+          break;
+        }
+        case 'images': {
+          const urls = cell.split(/[\s|]+/).filter(Boolean);
+          const bad = urls.find((u) => !/^https?:\/\/\S+$/i.test(u));
+          if (bad) row.errors.push(`Image "${bad}" is not an http(s) URL.`);
+          else if (urls.length > MAX_IMAGES) row.errors.push(`At most ${MAX_IMAGES} images.`);
+          else row.images = urls;
+          break;
+        }
+        case 'quantity': {
+          const n = parseCount(cell);
+          if (n === null) row.errors.push(`Quantity "${cell}" is not a whole number of 0 or more.`);
+          else row.quantity = n;
+          break;
+        }
+        case 'sizes':
+          for (const part of cell.split(/[;,|]/).map((p) => p.trim()).filter(Boolean)) {
+            const m = part.match(/^(.+?)\s*[:=]\s*(\S+)$/);
+            if (m) sizes.push({ raw: m[1], qty: m[2] });
+            else row.errors.push(`Size "${part}" should be written as CODE:QUANTITY (e.g. EU42:3).`);
+          }
+          break;
+        case 'size':
+          sizes.push({ raw: col.raw, qty: cell });
+          break;
+      }
+    });
+
+    if (!row.sku) row.errors.push('SKU is required.');
+    if (sizes.length > 0) {
+      const bySize = new Map<string, number>();
+      for (const { raw, qty } of sizes) {
+        const code = normalizeSizeCode(raw);
+        const n = parseCount(qty);
+        if (!catalog.has(code)) row.errors.push(`Unknown size code "${raw.trim()}". Use a size from the catalog (e.g. US9, EU42, M, 6Y).`);
+        else if (n === null) row.errors.push(`Quantity "${qty}" for ${code} is not a whole number of 0 or more.`);
+        else if (bySize.has(code)) row.errors.push(`Size ${code} is listed twice.`);
+        else bySize.set(code, n);
+      }
+      row.sizes = [...bySize].map(([sizeCode, quantity]) => ({ sizeCode, quantity }));
+      if (row.quantity !== undefined) row.errors.push('Give either a quantity or sizes, not both.');
+    }
+    rows.push(row);
+  });
+
+  if (rows.length > MAX_IMPORT_ROWS) throw new Error('IMPORT_TOO_LARGE');
+  return { rows, ignoredColumns };
+}
+
+async function inBatches<T>(ids: string[], fetchBatch: (batch: string[]) => Promise<T[]>): Promise<T[]> {
+  const out: T[] = [];
+  for (let i = 0; i < ids.length; i += BATCH) out.push(...(await fetchBatch(ids.slice(i, i + BATCH))));
+  return out;
+}
+
+/** Products with these SKUs, with their stock at the warehouse, by SKU. */
+async function fetchExisting(db: SupabaseClient, warehouseId: string, skus: string[]): Promise<Map<string, ExistingProduct>> {
+  type ProductRow = {
+    id: string;
+    parent_id: string | null;
+    sku: string;
+    name: string | null;
+    category: string | null;
+    description: string | null;
+    barcode: string | null;
+    color: string | null;
+    selling_price: number | null;
+    cost_price: number | null;
+    reorder_level: number | null;
+    images: unknown;
+    size_kind: string | null;
+  };
+  const products = await inBatches(skus, async (batch) => {
+    const { data, error } = await db
+      .from('warehouse_products')
+      .select('id, parent_id, sku, name, category, description, barcode, color, selling_price, cost_price, reorder_level, images, size_kind')
+      .in('sku', batch);
+    if (error) throw error;
+    return (data ?? []) as ProductRow[];
+  });
+  const ids = products.map((p) => p.id);
+
+  const [variantRows, invRows, sizeRows] = await Promise.all([
+    inBatches(ids, async (batch) => {
+      const { data, error } = await db.from('warehouse_products').select('parent_id').in('parent_id', batch);
+      if (error) throw error;
+      return (data ?? []) as Array<{ parent_id: string }>;
+    }),
+    inBatches(ids, async (batch) => {
+      const { data, error } = await db
+        .from('warehouse_inventory')
+        .select('product_id, quantity')
+        .eq('warehouse_id', warehouseId)
+        .in('product_id', batch);
+      if (error) throw error;
+      return (data ?? []) as Array<{ product_id: string; quantity: number | null }>;
+    }),
+    inBatches(ids, async (batch) => {
+      const { data, error } = await db
+        .from('warehouse_inventory_by_size')
+        .select('product_id, size_code, quantity')
+        .eq('warehouse_id', warehouseId)
+        .in('product_id', batch);
+      if (error) throw error;
+      return (data ?? []) as Array<{ product_id: string; size_code: string; quantity: number | null }>;
+    }),
+  ]);
+
+  const parents = new Set(variantRows.map((v) => v.parent_id));
+  const quantities = new Map(invRows.map((r) => [r.product_id, Number(r.quantity ?? 0)]));
+  const sizes = new Map<string, Map<string, number>>();
+  for (const r of sizeRows) {
+    if (!sizes.has(r.product_id)) sizes.set(r.product_id, new Map());
+    sizes.get(r.product_id)!.set(String(r.size_code).toUpperCase(), Number(r.quantity ?? 0));
+  }
+
+  return new Map(
+    products.map((p) => [
+      p.sku,
+      {
+        id: p.id,
+        parentId: p.parent_id ?? null,
+        text: {
+          name: p.name ?? '',
+          category: p.category ?? '',
+          description: p.description ?? '',
+          barcode: p.barcode ?? '',
+          color: p.color?.trim() || null,
+        },
+        numbers: {
+          sellingPrice: Number(p.selling_price ?? 0),
+          costPrice: Number(p.cost_price ?? 0),
+          reorderLevel: Number(p.reorder_level ?? 0),
+        },
+        images: Array.isArray(p.images) ? (p.images as string[]) : [],
+        sizeKind: p.size_kind ?? 'na',
+        hasVariants: parents.has(p.id),
+        quantity: quantities.get(p.id) ?? null,
+        sizes: sizes.get(p.id) ?? new Map(),
+      },
+    ])
+  );
+}
+
+/** What applying the row changes, as import_products writes it. */
+function rowChanges(row: ImportRow, product: ExistingProduct | undefined): ImportChange[] {
+  const changes: ImportChange[] = [];
+  for (const [field, to] of Object.entries(row.text) as Array<[TextField, string]>) {
+    const from = product ? product.text[field] : null;
+    if (from !== to) changes.push({ field, from, to });
+  }
+  for (const [field, to] of Object.entries(row.numbers) as Array<[NumberField, number]>) {
+    const from = product ? product.numbers[field] : null;
+    if (from !== to) changes.push({ field, from, to });
+  }
+  if (row.images && JSON.stringify(row.images) !== JSON.stringify(product?.images ?? null)) {
+    changes.push({ field: 'images', from: product?.images ?? null, to: row.images });
+  }
+
+  if (row.sizes) {
+    if (product && product.sizeKind !== 'sized') changes.push({ field: 'sizeKind', from: product.sizeKind, to: 'sized' });
+    const after = new Map(product?.sizes ?? []);
+    for (const { sizeCode, quantity } of row.sizes) {
+      const from = product?.sizes.get(sizeCode) ?? null;
+      if (from !== quantity) changes.push({ field: `size:${sizeCode}`, from, to: quantity });
+      after.set(sizeCode, quantity);
+    }
+    const total = [...after.values()].reduce((s, q) => s + q, 0);
+    if ((product?.quantity ?? null) !== total) changes.push({ field: 'quantity', from: product?.quantity ?? null, to: total });
+  } else if (row.quantity !== undefined) {
+    if ((product?.quantity ?? null) !== row.quantity) {
+      changes.push({ field: 'quantity', from: product?.quantity ?? null, to: row.quantity });
+    }
+  } else if (!product || (product.quantity === null && !product.hasVariants)) {
+    changes.push({ field: 'quantity', from: null, to: 0 });
+  }
+  return changes;
+}
+
+function diffRow(row: ImportRow, existing: Map<string, ExistingProduct>, seen: Map<string, number>): ImportRowResult {
+  const errors = [...row.errors];
+  const product = row.sku ? existing.get(row.sku) : undefined;
+  const firstLine = seen.get(row.sku);
+  if (row.sku && firstLine !== undefined) errors.push(`SKU is already on row ${firstLine}.`);
+  else if (row.sku) seen.set(row.sku, row.line);
+
+  const setsStock = row.quantity !== undefined || row.sizes !== undefined;
+  if (product?.parentId) errors.push("This SKU is a colour variant; edit it under its product's colours.");
+  else if (product?.hasVariants && setsStock) errors.push('This product keeps its stock on its colours; leave quantity and sizes empty.');
+  if (!product && !row.text.name) errors.push('Name is required for a new product.');
+  if (product && row.quantity !== undefined && product.sizes.size > 0) {
+    errors.push('This product has sizes at this warehouse; give its stock as sizes.');
+  }
+
+  const base = {
+    line: row.line,
+    sku: row.sku,
+    name: row.text.name ?? product?.text.name ?? '',
+    productId: product?.id ?? null,
+  };
+  if (errors.length > 0) return { ...base, action: 'error', changes: [], errors };
+  const changes = rowChanges(row, product);
+  const action: ImportAction = !product ? 'create' : changes.length > 0 ? 'update' : 'unchanged';
+  return { ...base, action, changes, errors };
+}
+
+async function buildPlan(warehouseId: string, csv: string): Promise<{ plan: ImportPlan; rows: ImportRow[] }> {
+  const catalog = new Set((await getSizeCodes()).map((r) => String(r.size_code).toUpperCase().trim()));
+  const { rows, ignoredColumns } = readImportRows(csv, catalog);
+  const skus = [...new Set(rows.map((r) => r.sku).filter(Boolean))];
+  const existing = await fetchExisting(getSupabase(), warehouseId, skus);
+
+  const seen = new Map<string, number>();
+  const results = rows.map((row) => diffRow(row, existing, seen));
+  const summary: Record<ImportAction, number> = { create: 0, update: 0, unchanged: 0, error: 0 };
+  for (const r of results) summary[r.action] += 1;
+  return { plan: { rows: results, summary, ignoredColumns }, rows };
+}
+
+/**
+ * Dry run: every row of the file with what applying it would do at the warehouse. Throws IMPORT_EMPTY,
+ * IMPORT_NO_SKU_COLUMN or IMPORT_TOO_LARGE for a file that cannot be read as an import.
+ */
+export async function planProductImport(warehouseId: string, csv: string): Promise<ImportPlan> {
+  return (await buildPlan(warehouseId, csv)).plan;
+}
+
+function rpcRow(row: ImportRow): Record<string, unknown> {
+  const { text, numbers } = row;
+  return {
+    sku: row.sku,
+    ...text,
+    ...(numbers.sellingPrice !== undefined && { selling_price: numbers.sellingPrice }),
+    ...(numbers.costPrice !== undefined && { cost_price: numbers.costPrice }),
+    ...(numbers.reorderLevel !== undefined && { reorder_level: numbers.reorderLevel }),
+    ...(row.images && { images: row.images }),
+    ...(row.quantity !== undefined && { quantity: row.quantity }),
+    ...(row.sizes && { sizes: row.sizes.map((s) => ({ size_code: s.sizeCode, quantity: s.quantity })) }),
+  };
+}
+
+/**
+ * Applies the file at the warehouse: all its rows or none. Plans it again first, so it applies what the catalogue
+ * is now, and refuses a file with any error row (IMPORT_HAS_ERRORS). The import_products RPC raises P0001 when the
+ * catalogue changed in between in a way the plan did not allow for.
+ */
+export async function applyProductImport(
+  warehouseId: string,
+  csv: string,
+  options: { fileName?: string | null; actor?: string | null } = {}
+): Promise<ImportApplyResult> {
+  const { plan, rows } = await buildPlan(warehouseId, csv);
+  if (plan.summary.error > 0) throw new Error('IMPORT_HAS_ERRORS');
+  const writes = rows.filter((_, i) => plan.rows[i].action === 'create' || plan.rows[i].action === 'update');
+  if (writes.length === 0) return { ...plan, importId: null };
+
+  const { data, error } = await withStockLedgerContext(
+    getSupabase().rpc('import_products', {
+      p_warehouse_id: warehouseId,
+      p_rows: writes.map(rpcRow),
+      p_file_name: options.fileName ?? null,
+      p_actor: options.actor ?? null,
+    }),
+    { referenceType: 'import', actor: options.actor }
+  );
+  if (error) throw error;
+  return { ...plan, importId: String((data as { importId?: string } | null)?.importId ?? '') || null };
+}
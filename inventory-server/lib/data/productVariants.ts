@@ -0,0 +1,153 @@
+/**
+ * Colour variants (migration 20260402100000_product_variants.sql): a product's colourways, each with its own colour,
+ * SKU, barcode, images and stock, sharing the rest of the product. Every function returns the product with its
+ * variants, as in GET /api/products.
+ */
+
+import { getSupabase } from '@/lib/supabase';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
+import {
+  deleteWarehouseProduct,
+  getProductById,
+  updateWarehouseProduct,
+  type ListProduct,
+  type PutProductBody,
+} from '@/lib/data/warehouseProducts';
+
+/** What a variant has of its own; the rest comes from its product. */
+export interface VariantInput {
+  color?: string;
+  sku?: string;
+  barcode?: string | null;
+  images?: string[];
+  sizeKind?: string;
+  quantity?: number;
+  quantityBySize?: Array<{ sizeCode: string; quantity: number }>;
+}
+
+function variantBody(input: VariantInput): PutProductBody {
+  const body: PutProductBody = {};
+  if (input.color !== undefined) body.color = input.color;
+  if (input.sku !== undefined) body.sku = input.sku;
+  if (input.barcode !== undefined) body.barcode = input.barcode;
+  if (input.images !== undefined) body.images = input.images;
+  if (input.sizeKind !== undefined) body.sizeKind = input.sizeKind;
+  if (input.quantity !== undefined) body.quantity = input.quantity;
+  if (input.quantityBySize !== undefined) body.quantityBySize = input.quantityBySize;
+  return body;
+}
+
+function hasStock(input: VariantInput): boolean {
+  return input.quantity !== undefined || input.quantityBySize !== undefined || input.sizeKind !== undefined;
+}
+
+/** The product a variant belongs to; throws VARIANT_NOT_FOUND when the id is not a variant. */
+async function getParentId(variantId: string): Promise<string> {
+  const { data, error } = await getSupabase()
+    .from('warehouse_products')
+    .select('parent_id')
+    .eq('id', variantId)
+    .maybeSingle();
+  if (error) throw error;
+  const parentId = (data as { parent_id?: string | null } | null)?.parent_id;
+  if (!parentId) throw new Error('VARIANT_NOT_FOUND');
+  return parentId;
+}
+
+/**
+ * Adds a colour to a product, with its stock at the warehouse when given. The first variant of a product takes the
+ * product's stock over in every warehouse. Throws the RPC error (COLOR_REQUIRED, PRODUCT_NOT_FOUND,
+ * VARIANT_OF_VARIANT, 23505 for a duplicate colour or SKU) as-is.
+ */
+export async function addProductVariant(
+  productId: string,
+  warehouseId: string,
+  input: VariantInput,
+  options: { actor?: string } = {}
+): Promise<ListProduct | null> {
+  const { data, error } = await withStockLedgerContext(
+    getSupabase().rpc('add_product_variant', {
+      p_parent_id: productId,
+      p_color: input.color ?? '',
+      p_sku: input.sku ?? '',
+      p_barcode: input.barcode ?? null,
+      p_images: input.images ?? [],
+    }),
+    { referenceType: 'variant', referenceId: productId, actor: options.actor }
+  );
+  if (error) throw error;
+
+  const variantId = String(data ?? '');
+  if (hasStock(input)) {
+    const { sizeKind, quantity, quantityBySize } = input;
+    await updateWarehouseProduct(variantId, warehouseId, variantBody({ sizeKind, quantity, quantityBySize }), options);
+  }
+  return getProductById(warehouseId, productId);
+}
+
+/** Updates a variant's colour, SKU, barcode, images and / or stock at the warehouse. */
+export async function updateProductVariant(
+  variantId: string,
+  warehouseId: string,
+  input: VariantInput,
+  options: { actor?: string } = {}
+): Promise<ListProduct | null> {
+  const parentId = await getParentId(variantId);
+  await updateWarehouseProduct(variantId, warehouseId, variantBody(input), options);
+  return getProductById(warehouseId, parentId);
+}
+
+/**
+ * Removes a variant that has no stock in any warehouse (VARIANT_HAS_STOCK otherwise: move or adjust it out first so
+ * the ledger shows where it went). Removing the last variant leaves the product an ordinary one, still listed at the
+ * warehouse with no stock.
+ */
+export async function deleteProductVariant(variantId: string, warehouseId: string): Promise<ListProduct | null> {
+  const db = getSupabase();
+  const parentId = await getParentId(variantId);
+
+  const { data: stockRows, error: stockErr } = await db
+    .from('warehouse_inventory')
+    .select('quantity')
+    .eq('product_id', variantId)
+    .gt('quantity', 0)
+    .limit(1);
+  if (stockErr) throw stockErr;
+  if ((stockRows ?? []).length > 0) throw new Error('VARIANT_HAS_STOCK');
+
+  await deleteWarehouseProduct(variantId, warehouseId);
+
+  const { count } = await db
+    .from('warehouse_products')
+    .select('id', { count: 'exact', head: true })
+    .eq('parent_id', parentId);
+  if ((count ?? 0) === 0) {
+    await db
+      .from('warehouse_inventory')
+      .upsert(
+        { product_id: parentId, warehouse_id: warehouseId, quantity: 0 },
+        { onConflict: 'warehouse_id,product_id', ignoreDuplicates: true }
+      );
+  }
+  return getProductById(warehouseId, parentId);
+}
+
+/** VariantInput from a request body: only the fields present, with the right types. */
+export function parseVariantInput(body: Record<string, unknown>): VariantInput {
+  const input: VariantInput = {};
+  if (typeof body.color === 'string') input.color = body.color.trim();
+  if (typeof body.sku === 'string') input.sku = body.sku.trim();
+  if (body.barcode === null || typeof body.barcode === 'string') input.barcode = body.barcode;
+  if (Array.isArray(body.images)) input.images = body.images.filter((i): i is string => typeof i === 'string');
+  if (typeof body.sizeKind === 'string') input.sizeKind = body.sizeKind;
+  if (body.quantity !== undefined && Number.isFinite(Number(body.quantity))) {
+    input.quantity = Math.max(0, Math.floor(Number(body.quantity)));
+  }
+  if (Array.isArray(body.quantityBySize)) {
+    input.quantityBySize = (body.quantityBySize as Array<{ sizeCode?: unknown; quantity?: unknown }>).map((r) => ({
+      sizeCode: String(r?.sizeCode ?? '').trim().toUpperCase(),
+      quantity: Math.max(0, Math.floor(Number(r?.quantity ?? 0))),
+    }));
+  }
+  return input;
+}
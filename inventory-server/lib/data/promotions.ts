@@ -0,0 +1,226 @@
+/**
+ * Promotions: pricing rules the POS cart evaluates (percent / fixed off, buy-X-get-Y, bundle price,
+ * second item half off). The cart works out the discounts and POST /api/sales re-checks them against the same rules
+ * (promotionPricing.ts); record_sale stores promotion_id and discount_amt per line and get_sales_report totals them
+ * as promotion cost.
+ */
+
+import { getSupabase } from '@/lib/supabase';
+
+export const PROMOTION_KINDS = ['percent_off', 'fixed_off', 'buy_x_get_y', 'bundle_price', 'second_half_off'] as const;
+export type PromotionKind = (typeof PROMOTION_KINDS)[number];
+
+export interface Promotion {
+  id: string;
+  name: string;
+  kind: PromotionKind;
+  /** Empty productIds and categories = every product. */
+  productIds: string[];
+  categories: string[];
+  /** Empty = every warehouse. */
+  warehouseIds: string[];
+  percentOff: number | null;
+  amountOff: number | null;
+  buyQty: number | null;
+  getQty: number | null;
+  bundleQty: number | null;
+  bundlePrice: number | null;
+  startsAt: string;
+  endsAt: string | null;
+  active: boolean;
+  createdByEmail: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromotionInput {
+  name?: string;
+  kind?: string;
+  productIds?: string[];
+  categories?: string[];
+  warehouseIds?: string[];
+  percentOff?: number | null;
+  amountOff?: number | null;
+  buyQty?: number | null;
+  getQty?: number | null;
+  bundleQty?: number | null;
+  bundlePrice?: number | null;
+  startsAt?: string;
+  endsAt?: string | null;
+  active?: boolean;
+}
+
+const SELECT =
+  'id, name, kind, product_ids, categories, warehouse_ids, percent_off, amount_off, buy_qty, get_qty, bundle_qty, bundle_price, starts_at, ends_at, active, created_by_email, created_at, updated_at';
+
+function num(v: unknown): number | null {
+  return v == null ? null : Number(v);
+}
+
+function rowToApi(row: Record<string, unknown>): Promotion {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    kind: row.kind as PromotionKind,
+    productIds: (row.product_ids as string[] | null) ?? [],
+    categories: (row.categories as string[] | null) ?? [],
+    warehouseIds: (row.warehouse_ids as string[] | null) ?? [],
+    percentOff: num(row.percent_off),
+    amountOff: num(row.amount_off),
+    buyQty: num(row.buy_qty),
+    getQty: num(row.get_qty),
+    bundleQty: num(row.bundle_qty),
+    bundlePrice: num(row.bundle_price),
+    startsAt: row.starts_at as string,
+    endsAt: (row.ends_at as string | null) ?? null,
+    active: row.active !== false,
+    createdByEmail: (row.created_by_email as string | null) ?? null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function isValidDate(v: unknown): boolean {
+  return typeof v === 'string' && !Number.isNaN(Date.parse(v));
+}
+
+/**
+ * Checks a full promotion (create, or an update merged onto the current one). Returns a message for the
+ * first problem, or null. Mirrors promotions_params_check so bad input is a 400, not a constraint error.
+ */
+export function validatePromotion(p: PromotionInput): string | null {
+  if (typeof p.name !== 'string' || !p.name.trim()) return 'name is required.';
+  if (!PROMOTION_KINDS.includes(p.kind as PromotionKind)) return `kind must be one of ${PROMOTION_KINDS.join(', ')}.`;
+  if (p.startsAt != null && !isValidDate(p.startsAt)) return 'startsAt must be a date.';
+  if (p.endsAt != null && !isValidDate(p.endsAt)) return 'endsAt must be a date.';
+  if (p.startsAt && p.endsAt && Date.parse(p.endsAt) <= Date.parse(p.startsAt)) return 'endsAt must be after startsAt.';
+  const pos = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v > 0;
+  const count = (v: unknown, min: number) => Number.isInteger(v) && (v as number) >= min;
+  switch (p.kind) {
+    case 'percent_off':
+      if (!pos(p.percentOff) || (p.percentOff as number) > 100) return 'percentOff must be between 0 and 100.';
+      break;
+    case 'fixed_off':
+      if (!pos(p.amountOff)) return 'amountOff must be greater than 0.';
+      break;
+    case 'buy_x_get_y':
+      if (!count(p.buyQty, 1) || !count(p.getQty, 1)) return 'buyQty and getQty must be whole numbers of at least 1.';
+      break;
+    case 'bundle_price':
+      if (!count(p.bundleQty, 2)) return 'bundleQty must be a whole number of at least 2.';
+      if (typeof p.bundlePrice !== 'number' || !Number.isFinite(p.bundlePrice) || p.bundlePrice < 0) {
+        return 'bundlePrice must be 0 or more.';
+      }
+      break;
+  }
+  return null;
+}
+
+function strings(v: unknown): string[] {
+  return Array.isArray(v) ? Array.from(new Set(v.filter((s): s is string => typeof s === 'string' && !!s.trim()).map((s) => s.trim()))) : [];
+}
+
+/** Input → column updates; only keys present in the input are written. */
+function inputToRow(input: PromotionInput): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  if (input.name !== undefined) row.name = (input.name ?? '').trim();
+  if (input.kind !== undefined) row.kind = input.kind;
+  if (input.productIds !== undefined) row.product_ids = strings(input.productIds);
+  if (input.categories !== undefined) row.categories = strings(input.categories);
+  if (input.warehouseIds !== undefined) row.warehouse_ids = strings(input.warehouseIds);
+  if (input.percentOff !== undefined) row.percent_off = input.percentOff;
+  if (input.amountOff !== undefined) row.amount_off = input.amountOff;
+  if (input.buyQty !== undefined) row.buy_qty = input.buyQty;
+  if (input.getQty !== undefined) row.get_qty = input.getQty;
+  if (input.bundleQty !== undefined) row.bundle_qty = input.bundleQty;
+  if (input.bundlePrice !== undefined) row.bundle_price = input.bundlePrice;
+  if (input.startsAt !== undefined) row.starts_at = input.startsAt;
+  if (input.endsAt !== undefined) row.ends_at = input.endsAt;
+  if (input.active !== undefined) row.active = input.active;
+  return row;
+}
+
+/** Every promotion, newest first (management screen). */
+export async function listPromotions(): Promise<Promotion[]> {
+  const db = getSupabase();
+  const { data, error } = await db.from('promotions').select(SELECT).order('created_at', { ascending: false });
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map(rowToApi);
+}
+
+/** Active promotions whose window contains `at` and whose scope includes the warehouse. */
+export async function listActivePromotions(warehouseId: string, at: Date = new Date()): Promise<Promotion[]> {
+  const db = getSupabase();
+  const iso = at.toISOString();
+  const { data, error } = await db
+    .from('promotions')
+    .select(SELECT)
+    .eq('active', true)
+    .lte('starts_at', iso)
+    .or(`ends_at.is.null,ends_at.gt.${iso}`)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>)
+    .map(rowToApi)
+    .filter((p) => p.warehouseIds.length === 0 || p.warehouseIds.includes(warehouseId));
+}
+
+/** Category of each product (promotion scope by category), keyed by product id. */
+export async function getProductCategories(productIds: string[]): Promise<Map<string, string | null>> {
+  const ids = Array.from(new Set(productIds));
+  if (ids.length === 0) return new Map();
+  const db = getSupabase();
+  const { data, error } = await db.from('warehouse_products').select('id, category').in('id', ids);
+  if (error) throw error;
+  return new Map(((data ?? []) as Array<{ id: string; category: string | null }>).map((r) => [r.id, r.category ?? null]));
+}
+
+export async function getPromotion(id: string): Promise<Promotion | null> {
+  const db = getSupabase();
+  const { data, error } = await db.from('promotions').select(SELECT).eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
+
+export async function createPromotion(input: PromotionInput, createdByEmail: string): Promise<Promotion> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('promotions')
+    .insert({ ...inputToRow(input), created_by_email: createdByEmail })
+    .select(SELECT)
+    .single();
+  if (error) throw error;
+  return rowToApi(data as Record<string, unknown>);
+}
+
+export async function updatePromotion(id: string, input: PromotionInput): Promise<Promotion | null> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('promotions')
+    .update({ ...inputToRow(input), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select(SELECT)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
+
+/** Promotion → the input shape, so a PATCH can be validated as the whole promotion it produces. */
+export function promotionToInput(p: Promotion): PromotionInput {
+  return {
+    name: p.name,
+    kind: p.kind,
+    productIds: p.productIds,
+    categories: p.categories,
+    warehouseIds: p.warehouseIds,
+    percentOff: p.percentOff,
+    amountOff: p.amountOff,
+    buyQty: p.buyQty,
+    getQty: p.getQty,
+    bundleQty: p.bundleQty,
+    bundlePrice: p.bundlePrice,
+    startsAt: p.startsAt,
+    endsAt: p.endsAt,
+    active: p.active,
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Purchase orders: read side plus status changes that do not move stock (send, close).
+ * Creating, editing lines and receiving go through RPCs (create_purchase_order, save_purchase_order_lines,
+ * receive_purchase_order).
+ */
+
+import { getSupabase } from '@/lib/supabase';
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'closed';
+
+export interface PurchaseOrderLine {
+  id: string;
+  productId: string;
+  productName: string | null;
+  sku: string | null;
+  sizeCode: string | null;
+  qtyOrdered: number;
+  qtyReceived: number;
+  unitCost: number | null;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  supplierId: string;
+  supplierName: string | null;
+  warehouseId: string;
+  status: PurchaseOrderStatus;
+  expectedDate: string | null;
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  sentAt: string | null;
+  closedAt: string | null;
+  totalCost: number;
+  lines: PurchaseOrderLine[];
+}
+
+export interface ReorderSuggestion {
+  productId: string;
+  name: string;
+  sku: string;
+  supplierId: string | null;
+  supplierName: string | null;
+  onHand: number;
+  onOrder: number;
+  reorderLevel: number;
+  sold: number;
+  dailyRate: number;
+  daysOfCover: number | null;
+  suggestedQty: number;
+}
+
+const SELECT =
+  'id, po_number, supplier_id, warehouse_id, status, expected_date, notes, created_by_email, created_at, sent_at, closed_at, suppliers(name), purchase_order_lines(id, product_id, size_code, qty_ordered, qty_received, unit_cost, warehouse_products(name, sku))';
+
+function rowToApi(row: Record<string, unknown>): PurchaseOrder {
+  const rawLines = (row.purchase_order_lines as Array<Record<string, unknown>> | null) ?? [];
+  const lines = rawLines.map((l) => {
+    const product = l.warehouse_products as { name?: string; sku?: string } | null;
+    return {
+      id: l.id as string,
+      productId: l.product_id as string,
+      productName: product?.name ?? null,
+      sku: product?.sku ?? null,
+      sizeCode: (l.size_code as string | null) ?? null,
+      qtyOrdered: Number(l.qty_ordered ?? 0),
+      qtyReceived: Number(l.qty_received ?? 0),
+      unitCost: l.unit_cost != null ? Number(l.unit_cost) : null,
+    };
+  });
+  const supplier = row.suppliers as { name?: string } | null;
+  return {
+    id: row.id as string,
+    poNumber: row.po_number as string,
+    supplierId: row.supplier_id as string,
+    supplierName: supplier?.name ?? null,
+    warehouseId: row.warehouse_id as string,
+    status: row.status as PurchaseOrderStatus,
+    expectedDate: (row.expected_date as string | null) ?? null,
+    notes: (row.notes as string | null) ?? null,
+    createdBy: (row.created_by_email as string | null) ?? null,
+    createdAt: row.created_at as string,
+    sentAt: (row.sent_at as string | null) ?? null,
+    closedAt: (row.closed_at as string | null) ?? null,
+    totalCost: lines.reduce((sum, l) => sum + (l.unitCost ?? 0) * l.qtyOrdered, 0),
+    lines,
+  };
+}
+
+/** POs for a warehouse, newest first. */
+export async function listPurchaseOrders(params: {
+  warehouseId: string;
+  status?: PurchaseOrderStatus;
+  supplierId?: string;
+  limit?: number;
+}): Promise<PurchaseOrder[]> {
+  const db = getSupabase();
+  let query = db
+    .from('purchase_orders')
+    .select(SELECT)
+    .eq('warehouse_id', params.warehouseId)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(Math.max(1, params.limit ?? 100), 500));
+  if (params.status) query = query.eq('status', params.status);
+  if (params.supplierId) query = query.eq('supplier_id', params.supplierId);
+  const { data, error } = await query;
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map(rowToApi);
+}
+
+export async function getPurchaseOrder(id: string): Promise<PurchaseOrder | null> {
+  const db = getSupabase();
+  const { data, error } = await db.from('purchase_orders').select(SELECT).eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
+
+/**
+ * Conditional status update (only from one of `from`); returns false when the PO was not in an allowed status.
+ * extra: additional columns (sent_at, closed_at, expected_date, notes).
+ */
+export async function setPurchaseOrderStatus(
+  id: string,
+  from: PurchaseOrderStatus[],
+  to: PurchaseOrderStatus,
+  extra: Record<string, unknown> = {}
+): Promise<boolean> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('purchase_orders')
+    .update({ status: to, ...extra })
+    .eq('id', id)
+    .in('status', from)
+    .select('id');
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+export async function getReorderSuggestions(params: {
+  warehouseId: string;
+  days?: number;
+  coverDays?: number;
+}): Promise<ReorderSuggestion[]> {
+  const db = getSupabase();
+  const { data, error } = await db.rpc('reorder_suggestions', {
+    p_warehouse_id: params.warehouseId,
+    p_days: params.days ?? 30,
+    p_cover_days: params.coverDays ?? 14,
+  });
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map((r) => ({
+    productId: r.product_id as string,
+    name: r.name as string,
+    sku: r.sku as string,
+    supplierId: (r.supplier_id as string | null) ?? null,
+    supplierName: (r.supplier_name as string | null) ?? null,
+    onHand: Number(r.on_hand ?? 0),
+    onOrder: Number(r.on_order ?? 0),
+    reorderLevel: Number(r.reorder_level ?? 0),
+    sold: Number(r.sold ?? 0),
+    dailyRate: Number(r.daily_rate ?? 0),
+    daysOfCover: r.days_of_cover != null ? Number(r.days_of_cover) : null,
+    suggestedQty: Number(r.suggested_qty ?? 0),
+  }));
+}
+
+export interface PurchaseOrderLineInput {
+  productId: string;
+  sizeCode: string | null;
+  qty: number;
+  unitCost: number | null;
+}
+
+/** Request body lines → RPC lines; drops lines without a product or with qty < 1. */
+export function normalizePurchaseOrderLines(raw: unknown): PurchaseOrderLineInput[] {
+  if (!Array.isArray(raw)) return [];
+  return (raw as Array<Record<string, unknown>>)
+    .filter((l) => l && typeof l.productId === 'string' && Number(l.qty) >= 1)
+    .map((l) => {
+      const cost = l.unitCost != null && l.unitCost !== '' ? Number(l.unitCost) : NaN;
+      return {
+        productId: l.productId as string,
+        sizeCode: l.sizeCode != null ? String(l.sizeCode).trim() || null : null,
+        qty: Math.floor(Number(l.qty)),
+        unitCost: Number.isFinite(cost) ? Math.round(cost * 100) / 100 : null,
+      };
+    });
+}
@@ -0,0 +1,152 @@
+/**
+ * Role limits: how far each role can go at the till before a manager has to approve.
+ * Stored in role_limits; admins are never limited and any role without a row gets the cashier limits, so a
+ * new or misspelt role is never more permissive than a cashier.
+ */
+
+import { getSupabase } from '@/lib/supabase';
+
+export type ApprovalAction = 'discount' | 'void' | 'refund';
+export const APPROVAL_ACTIONS: ApprovalAction[] = ['discount', 'void', 'refund'];
+
+export interface RoleLimits {
+  role: string;
+  /** Highest discount % without approval; null = unlimited. */
+  maxDiscountPct: number | null;
+  /** Highest refund (GH₵) per return without approval; null = unlimited. */
+  maxRefundAmount: number | null;
+  requireApprovalVoid: boolean;
+  requireApprovalRefund: boolean;
+  updatedByEmail: string | null;
+  updatedAt: string | null;
+}
+
+export interface RoleLimitsInput {
+  maxDiscountPct?: number | null;
+  maxRefundAmount?: number | null;
+  requireApprovalVoid?: boolean;
+  requireApprovalRefund?: boolean;
+}
+
+const SELECT = 'role, max_discount_pct, max_refund_amount, require_approval_void, require_approval_refund, updated_by_email, updated_at';
+
+/** Used when the table has no row for cashier (e.g. before the migration's seed ran). Matches src/types/permissions.ts. */
+const CASHIER_DEFAULTS: Omit<RoleLimits, 'role'> = {
+  maxDiscountPct: 10,
+  maxRefundAmount: null,
+  requireApprovalVoid: true,
+  requireApprovalRefund: true,
+  updatedByEmail: null,
+  updatedAt: null,
+};
+
+const UNLIMITED: Omit<RoleLimits, 'role'> = {
+  maxDiscountPct: null,
+  maxRefundAmount: null,
+  requireApprovalVoid: false,
+  requireApprovalRefund: false,
+  updatedByEmail: null,
+  updatedAt: null,
+};
+
+export function normalizeRole(role: string | null | undefined): string {
+  return (role ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+export function isUnlimitedRole(role: string | null | undefined): boolean {
+  return /^(admin|super_?admin|administrator)$/.test(normalizeRole(role));
+}
+
+function num(v: unknown): number | null {
+  return v == null ? null : Number(v);
+}
+
+function rowToApi(row: Record<string, unknown>): RoleLimits {
+  return {
+    role: row.role as string,
+    maxDiscountPct: num(row.max_discount_pct),
+    maxRefundAmount: num(row.max_refund_amount),
+    requireApprovalVoid: row.require_approval_void === true,
+    requireApprovalRefund: row.require_approval_refund === true,
+    updatedByEmail: (row.updated_by_email as string | null) ?? null,
+    updatedAt: (row.updated_at as string | null) ?? null,
+  };
+}
+
+export async function listRoleLimits(): Promise<RoleLimits[]> {
+  const db = getSupabase();
+  const { data, error } = await db.from('role_limits').select(SELECT).order('role', { ascending: true });
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map(rowToApi);
+}
+
+/** Limits that apply to a signed-in role. */
+export async function getRoleLimits(role: string | null | undefined): Promise<RoleLimits> {
+  const normalized = normalizeRole(role) || 'cashier';
+  if (isUnlimitedRole(normalized)) return { role: normalized, ...UNLIMITED };
+  const db = getSupabase();
+  const { data, error } = await db.from('role_limits').select(SELECT).in('role', [normalized, 'cashier']);
+  if (error) throw error;
+  const rows = ((data ?? []) as Array<Record<string, unknown>>).map(rowToApi);
+  const own = rows.find((r) => r.role === normalized);
+  if (own) return own;
+  const cashier = rows.find((r) => r.role === 'cashier');
+  return { ...(cashier ?? CASHIER_DEFAULTS), role: normalized };
+}
+
+/** Returns a message for the first invalid field, or null. */
+export function validateRoleLimits(input: RoleLimitsInput): string | null {
+  const pct = input.maxDiscountPct;
+  if (pct !== undefined && pct !== null && (typeof pct !== 'number' || !Number.isFinite(pct) || pct < 0 || pct > 100)) {
+    return 'maxDiscountPct must be between 0 and 100, or null for no limit.';
+  }
+  const refund = input.maxRefundAmount;
+  if (refund !== undefined && refund !== null && (typeof refund !== 'number' || !Number.isFinite(refund) || refund < 0)) {
+    return 'maxRefundAmount must be 0 or more, or null for no limit.';
+  }
+  if (input.requireApprovalVoid !== undefined && typeof input.requireApprovalVoid !== 'boolean') {
+    return 'requireApprovalVoid must be true or false.';
+  }
+  if (input.requireApprovalRefund !== undefined && typeof input.requireApprovalRefund !== 'boolean') {
+    return 'requireApprovalRefund must be true or false.';
+  }
+  return null;
+}
+
+export async function upsertRoleLimits(role: string, input: RoleLimitsInput, updatedByEmail: string): Promise<RoleLimits> {
+  const row: Record<string, unknown> = {
+    role: normalizeRole(role),
+    updated_by_email: updatedByEmail,
+    updated_at: new Date().toISOString(),
+  };
+  if (input.maxDiscountPct !== undefined) row.max_discount_pct = input.maxDiscountPct;
+  if (input.maxRefundAmount !== undefined) row.max_refund_amount = input.maxRefundAmount;
+  if (input.requireApprovalVoid !== undefined) row.require_approval_void = input.requireApprovalVoid;
+  if (input.requireApprovalRefund !== undefined) row.require_approval_refund = input.requireApprovalRefund;
+  const db = getSupabase();
+  const { data, error } = await db.from('role_limits').upsert(row, { onConflict: 'role' }).select(SELECT).single();
+  if (error) throw error;
+  return rowToApi(data as Record<string, unknown>);
+}
+
+/**
+ * Why this action needs a manager's approval under `limits`, or null when the role may do it alone.
+ * amount: discount % for 'discount', refund total (GH₵) for 'refund'; ignored for 'void'.
+ */
+export function approvalRequiredReason(limits: RoleLimits, action: ApprovalAction, amount = 0): string | null {
+  switch (action) {
+    case 'discount':
+      if (limits.maxDiscountPct != null && amount > limits.maxDiscountPct) {
+        return `Discounts above ${limits.maxDiscountPct}% need a manager's approval.`;
+      }
+      return null;
+    case 'void':
+      return limits.requireApprovalVoid ? "Voiding a sale needs a manager's approval." : null;
+    case 'refund':
+      if (limits.requireApprovalRefund) return "Refunds need a manager's approval.";
+      if (limits.maxRefundAmount != null && amount > limits.maxRefundAmount) {
+        return `Refunds above GH₵${limits.maxRefundAmount.toLocaleString('en-GH')} need a manager's approval.`;
+      }
+      return null;
+  }
+}
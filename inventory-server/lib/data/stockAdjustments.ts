@@ -0,0 +1,112 @@
+/**
+ * Reason-coded stock adjustments: read side and approval limits.
+ * Creating / approving / rejecting go through the create_stock_adjustment / approve_ / reject_ RPCs.
+ */
+
+import { getSupabase } from '@/lib/supabase';
+
+export const ADJUSTMENT_REASONS = ['damaged', 'lost', 'theft', 'found', 'gift', 'correction'] as const;
+export type AdjustmentReason = (typeof ADJUSTMENT_REASONS)[number];
+
+export type StockAdjustmentStatus = 'pending' | 'applied' | 'rejected';
+
+export interface StockAdjustmentLine {
+  id: string;
+  productId: string;
+  productName: string | null;
+  sku: string | null;
+  sizeCode: string | null;
+  qtyDelta: number;
+  unitCost: number;
+}
+
+export interface StockAdjustment {
+  id: string;
+  adjustmentNumber: string;
+  warehouseId: string;
+  reason: AdjustmentReason;
+  note: string;
+  status: StockAdjustmentStatus;
+  unitsDelta: number;
+  valueDelta: number;
+  requestedBy: string | null;
+  decidedBy: string | null;
+  createdAt: string;
+  decidedAt: string | null;
+  lines: StockAdjustmentLine[];
+}
+
+/**
+ * Adjustments by staff without approval rights are posted at once only while both the absolute units and the
+ * absolute cost value stay within these limits; anything bigger waits for a manager.
+ */
+export function getAdjustmentApprovalLimits(): { maxUnits: number; maxValue: number } {
+  const units = Number(process.env.STOCK_ADJUSTMENT_APPROVAL_UNITS);
+  const value = Number(process.env.STOCK_ADJUSTMENT_APPROVAL_VALUE);
+  return {
+    maxUnits: Number.isFinite(units) && units >= 0 ? Math.floor(units) : 10,
+    maxValue: Number.isFinite(value) && value >= 0 ? value : 500,
+  };
+}
+
+export function isAdjustmentReason(value: unknown): value is AdjustmentReason {
+  return typeof value === 'string' && (ADJUSTMENT_REASONS as readonly string[]).includes(value);
+}
+
+const SELECT =
+  'id, adjustment_number, warehouse_id, reason_code, note, status, units_delta, value_delta, requested_by_email, decided_by_email, created_at, decided_at, stock_adjustment_lines(id, product_id, size_code, qty_delta, unit_cost, warehouse_products(name, sku))';
+
+function rowToApi(row: Record<string, unknown>): StockAdjustment {
+  const lines = (row.stock_adjustment_lines as Array<Record<string, unknown>> | null) ?? [];
+  return {
+    id: row.id as string,
+    adjustmentNumber: row.adjustment_number as string,
+    warehouseId: row.warehouse_id as string,
+    reason: row.reason_code as AdjustmentReason,
+    note: (row.note as string) ?? '',
+    status: row.status as StockAdjustmentStatus,
+    unitsDelta: Number(row.units_delta ?? 0),
+    valueDelta: Number(row.value_delta ?? 0),
+    requestedBy: (row.requested_by_email as string | null) ?? null,
+    decidedBy: (row.decided_by_email as string | null) ?? null,
+    createdAt: row.created_at as string,
+    decidedAt: (row.decided_at as string | null) ?? null,
+    lines: lines.map((l) => {
+      const product = l.warehouse_products as { name?: string; sku?: string } | null;
+      return {
+        id: l.id as string,
+        productId: l.product_id as string,
+        productName: product?.name ?? null,
+        sku: product?.sku ?? null,
+        sizeCode: (l.size_code as string | null) ?? null,
+        qtyDelta: Number(l.qty_delta ?? 0),
+        unitCost: Number(l.unit_cost ?? 0),
+      };
+    }),
+  };
+}
+
+export async function listStockAdjustments(params: {
+  warehouseId: string;
+  status?: StockAdjustmentStatus;
+  limit?: number;
+}): Promise<StockAdjustment[]> {
+  const db = getSupabase();
+  let query = db
+    .from('stock_adjustments')
+    .select(SELECT)
+    .eq('warehouse_id', params.warehouseId)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(Math.max(1, params.limit ?? 50), 200));
+  if (params.status) query = query.eq('status', params.status);
+  const { data, error } = await query;
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map(rowToApi);
+}
+
+export async function getStockAdjustment(id: string): Promise<StockAdjustment | null> {
+  const db = getSupabase();
+  const { data, error } = await db.from('stock_adjustments').select(SELECT).eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
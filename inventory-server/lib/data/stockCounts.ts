@@ -0,0 +1,150 @@
+/**
+ * Stock take sessions: read side, status changes and line approvals.
+ * Counting and applying go through record_stock_count / apply_stock_count (RPCs).
+ */
+
+import { getSupabase } from '@/lib/supabase';
+
+export type StockCountStatus = 'counting' | 'review' | 'applied' | 'cancelled';
+
+export interface StockCount {
+  id: string;
+  countNumber: string;
+  warehouseId: string;
+  category: string | null;
+  status: StockCountStatus;
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  submittedAt: string | null;
+  appliedBy: string | null;
+  appliedAt: string | null;
+}
+
+export interface StockCountLine {
+  id: string;
+  productId: string;
+  productName: string | null;
+  sku: string | null;
+  barcode: string | null;
+  sizeCode: string | null;
+  expectedQty: number;
+  countedQty: number | null;
+  unitCost: number;
+  approved: boolean;
+  countedBy: string | null;
+  updatedAt: string;
+}
+
+const SELECT =
+  'id, count_number, warehouse_id, category, status, notes, created_by_email, created_at, submitted_at, applied_by_email, applied_at';
+
+const LINE_SELECT =
+  'id, product_id, size_code, expected_qty, counted_qty, unit_cost, approved, counted_by_email, updated_at, warehouse_products(name, sku, barcode)';
+
+function rowToApi(row: Record<string, unknown>): StockCount {
+  return {
+    id: row.id as string,
+    countNumber: row.count_number as string,
+    warehouseId: row.warehouse_id as string,
+    category: (row.category as string | null) ?? null,
+    status: row.status as StockCountStatus,
+    notes: (row.notes as string | null) ?? null,
+    createdBy: (row.created_by_email as string | null) ?? null,
+    createdAt: row.created_at as string,
+    submittedAt: (row.submitted_at as string | null) ?? null,
+    appliedBy: (row.applied_by_email as string | null) ?? null,
+    appliedAt: (row.applied_at as string | null) ?? null,
+  };
+}
+
+function lineToApi(l: Record<string, unknown>): StockCountLine {
+  const product = l.warehouse_products as { name?: string; sku?: string; barcode?: string } | null;
+  return {
+    id: l.id as string,
+    productId: l.product_id as string,
+    productName: product?.name ?? null,
+    sku: product?.sku ?? null,
+    barcode: product?.barcode || null,
+    sizeCode: (l.size_code as string | null) ?? null,
+    expectedQty: Number(l.expected_qty ?? 0),
+    countedQty: l.counted_qty != null ? Number(l.counted_qty) : null,
+    unitCost: Number(l.unit_cost ?? 0),
+    approved: l.approved !== false,
+    countedBy: (l.counted_by_email as string | null) ?? null,
+    updatedAt: l.updated_at as string,
+  };
+}
+
+export async function listStockCounts(params: { warehouseId: string; limit?: number }): Promise<StockCount[]> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('stock_counts')
+    .select(SELECT)
+    .eq('warehouse_id', params.warehouseId)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(Math.max(1, params.limit ?? 50), 200));
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map(rowToApi);
+}
+
+export async function getStockCount(id: string): Promise<StockCount | null> {
+  const db = getSupabase();
+  const { data, error } = await db.from('stock_counts').select(SELECT).eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
+
+/** All lines of a session (a full-store count can exceed the default 1000-row page, so page through). */
+export async function getStockCountLines(countId: string): Promise<StockCountLine[]> {
+  const db = getSupabase();
+  const pageSize = 1000;
+  const lines: StockCountLine[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await db
+      .from('stock_count_lines')
+      .select(LINE_SELECT)
+      .eq('count_id', countId)
+      .order('id', { ascending: true })
+      .range(from, from + pageSize - 1);
+    if (error) throw error;
+    const rows = (data ?? []) as Array<Record<string, unknown>>;
+    lines.push(...rows.map(lineToApi));
+    if (rows.length < pageSize) break;
+  }
+  return lines;
+}
+
+/** Conditional status update; returns false when the session was not in one of `from`. */
+export async function setStockCountStatus(
+  id: string,
+  from: StockCountStatus[],
+  to: StockCountStatus,
+  extra: Record<string, unknown> = {}
+): Promise<boolean> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('stock_counts')
+    .update({ status: to, ...extra })
+    .eq('id', id)
+    .in('status', from)
+    .select('id');
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+/** Approve or reject individual variance lines before applying. */
+export async function setStockCountApprovals(countId: string, approvals: Record<string, boolean>): Promise<void> {
+  const db = getSupabase();
+  const byValue: Record<'true' | 'false', string[]> = { true: [], false: [] };
+  for (const [lineId, approved] of Object.entries(approvals)) byValue[approved ? 'true' : 'false'].push(lineId);
+  for (const [value, ids] of Object.entries(byValue)) {
+    if (ids.length === 0) continue;
+    const { error } = await db
+      .from('stock_count_lines')
+      .update({ approved: value === 'true' })
+      .eq('count_id', countId)
+      .in('id', ids);
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Stock ledger (stock_ledger): one row per stock change per warehouse / product / size with the balance before and
+ * after, written by DB triggers whatever path changed the stock. Callers tag their writes with
+ * withStockLedgerContext so rows carry the actor and the document they belong to; untagged writes fall back to the
+ * RPC name (see migration 20260331100000_stock_ledger.sql).
+ */
+
+import { getSupabase } from '@/lib/supabase';
+
+export const STOCK_CARD_PAGE_SIZE = 100;
+const MAX_STOCK_CARD_PAGE_SIZE = 500;
+
+export interface StockLedgerContext {
+  /** e.g. sale, void, receipt, product_edit. Defaults to the RPC name. */
+  referenceType?: string;
+  /** Sale / receipt / product id the change belongs to. */
+  referenceId?: string | null;
+  /** Email of the user who made the change. */
+  actor?: string | null;
+}
+
+export interface StockLedgerEntry {
+  id: string;
+  warehouseId: string;
+  productId: string;
+  /** null: product-level quantity (no sizes, or a total changed without a size). */
+  sizeCode: string | null;
+  quantityDelta: number;
+  balanceBefore: number;
+  balanceAfter: number;
+  referenceType: string;
+  referenceId: string | null;
+  actor: string | null;
+  createdAt: string;
+}
+
+export interface StockCardFilters {
+  warehouseId: string;
+  productId: string;
+  /** A size code, null for the product-level lane, undefined for every lane. */
+  sizeCode?: string | null;
+  limit?: number;
+  /** Entry id from the previous page's nextBefore. */
+  before?: string;
+}
+
+interface StockLedgerRow {
+  id: number | string;
+  warehouse_id: string;
+  product_id: string;
+  size_code: string | null;
+  quantity_delta: number;
+  balance_before: number;
+  balance_after: number;
+  reference_type: string;
+  reference_id: string | null;
+  actor: string | null;
+  created_at: string;
+}
+
+/** Sets the x-stock-* headers the ledger triggers read on a Supabase query or RPC call. */
+export function withStockLedgerContext<B extends { setHeader(name: string, value: string): B }>(
+  builder: B,
+  context: StockLedgerContext
+): B {
+  let b = builder;
+  if (context.referenceType) b = b.setHeader('x-stock-reference-type', context.referenceType);
+  if (context.referenceId) b = b.setHeader('x-stock-reference-id', context.referenceId);
+  if (context.actor) b = b.setHeader('x-stock-actor', context.actor);
+  return b;
+}
+
+function toEntry(row: StockLedgerRow): StockLedgerEntry {
+  return {
+    id: String(row.id),
+    warehouseId: row.warehouse_id,
+    productId: row.product_id,
+    sizeCode: row.size_code,
+    quantityDelta: Number(row.quantity_delta),
+    balanceBefore: Number(row.balance_before),
+    balanceAfter: Number(row.balance_after),
+    referenceType: row.reference_type,
+    referenceId: row.reference_id,
+    actor: row.actor,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Stock card: ledger entries for a product at a warehouse, newest first, paged by entry id. Opening balances come
+ * last, after the oldest change: they were backfilled with ids above the history they precede.
+ */
+export async function getStockCard(filters: StockCardFilters): Promise<{
+  data: StockLedgerEntry[];
+  nextBefore: string | null;
+}> {
+  const limit = Math.min(Math.max(1, filters.limit ?? STOCK_CARD_PAGE_SIZE), MAX_STOCK_CARD_PAGE_SIZE);
+  const lane = () => {
+    let query = getSupabase()
+      .from('stock_ledger')
+      .select('*')
+      .eq('warehouse_id', filters.warehouseId)
+      .eq('product_id', filters.productId);
+    if (filters.sizeCode === null) query = query.is('size_code', null);
+    else if (filters.sizeCode !== undefined) query = query.eq('size_code', filters.sizeCode);
+    return query;
+  };
+
+  let query = lane().neq('reference_type', 'opening').order('id', { ascending: false }).limit(limit);
+  if (filters.before) query = query.lt('id', filters.before);
+  const { data, error } = await query;
+  if (error) throw error;
+  const entries = ((data ?? []) as StockLedgerRow[]).map(toEntry);
+  if (entries.length === limit) {
+    return { data: entries, nextBefore: entries[entries.length - 1].id };
+  }
+
+  // End of the history: the opening balances (at most one per lane) close the last page.
+  const { data: openings, error: openingError } = await lane()
+    .eq('reference_type', 'opening')
+    .order('id', { ascending: false });
+  if (openingError) throw openingError;
+  return { data: [...entries, ...((openings ?? []) as StockLedgerRow[]).map(toEntry)], nextBefore: null };
+}
@@ -20,6 +20,12 @@ export interface StockMovementRow {
   product_id: string;
   quantity_delta: number;
   reference_type: string;
+  /** Set for per-size movements (e.g. transfers); null for older rows. */
+  size_code: string | null;
+  /** Source document id when not a transaction (e.g. stock_transfers.id). */
+  reference_id: string | null;
+  /** Adjustment reason (damaged, lost, theft, …); null for non-adjustment movements. */
+  reason_code: string | null;
   created_at: string;
 }
 
@@ -0,0 +1,176 @@
+/**
+ * Stock reconciliation: where warehouse_inventory is not the sum of warehouse_inventory_by_size, or a stock row is
+ * not the replay of its stock_ledger history, with likely causes, and the repair that corrects one of them through
+ * a 'correction' stock adjustment audited in stock_reconciliations (see migration
+ * 20260401100000_stock_reconciliation.sql).
+ */
+
+import { getSupabase } from '@/lib/supabase';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
+
+export type DiscrepancyKind = 'total_vs_sizes' | 'ledger';
+/** restore: set stock to the expected quantity. accept: keep on-hand, record the missed change (ledger only). */
+export type RepairAction = 'restore' | 'accept';
+
+export interface StockDiscrepancy {
+  warehouseId: string;
+  productId: string;
+  productName: string | null;
+  sku: string | null;
+  /** null: the product total (total_vs_sizes) or a product without sizes (ledger). */
+  sizeCode: string | null;
+  kind: DiscrepancyKind;
+  onHand: number;
+  /** Sum of sizes (total_vs_sizes) or the ledger replay (ledger). */
+  expected: number;
+  difference: number;
+  hasTotalRow: boolean;
+  ledgerEntries: number;
+  ledgerBalance: number | null;
+  chainBreaks: number;
+  lastReferenceType: string | null;
+  lastEntryAt: string | null;
+  causes: string[];
+}
+
+export interface StockRepairResult {
+  id: string;
+  action: RepairAction;
+  onHandBefore: number;
+  onHandAfter: number;
+  adjustmentId: string | null;
+  adjustmentNumber: string | null;
+}
+
+interface DiscrepancyRow {
+  warehouse_id: string;
+  product_id: string;
+  product_name: string | null;
+  sku: string | null;
+  size_code: string | null;
+  kind: DiscrepancyKind;
+  on_hand: number;
+  expected: number;
+  has_total_row: boolean;
+  ledger_entries: number;
+  ledger_balance: number | null;
+  chain_breaks: number;
+  last_reference_type: string | null;
+  last_entry_at: string | null;
+}
+
+/** Size-less changes that legitimately move a sized product's total away from its sizes. */
+const TOTAL_ONLY_REFERENCES: Record<string, string> = {
+  order_deduct: 'an order dispatch',
+  order_return: 'an order stock return',
+};
+
+export function isRepairAction(value: unknown): value is RepairAction {
+  return value === 'restore' || value === 'accept';
+}
+
+export function isDiscrepancyKind(value: unknown): value is DiscrepancyKind {
+  return value === 'total_vs_sizes' || value === 'ledger';
+}
+
+/** Likely causes for a discrepancy, most specific first. */
+export function discrepancyCauses(d: Omit<StockDiscrepancy, 'causes'>): string[] {
+  const causes: string[] = [];
+  if (d.kind === 'total_vs_sizes') {
+    if (!d.hasTotalRow) {
+      causes.push('The product has sizes but no total row.');
+    } else if (d.lastReferenceType && d.lastReferenceType in TOTAL_ONLY_REFERENCES) {
+      causes.push(`The total was last changed by ${TOTAL_ONLY_REFERENCES[d.lastReferenceType]}, which has no size.`);
+    } else if (d.lastReferenceType === 'manual') {
+      causes.push('The total was written directly to the database, outside the API.');
+    } else if (d.lastReferenceType) {
+      causes.push(`The total was last changed without a size (${d.lastReferenceType.replace(/_/g, ' ')}).`);
+    }
+    if (d.hasTotalRow && (d.ledgerEntries === 0 || d.ledgerBalance !== d.onHand)) {
+      causes.push('The total changed without a ledger row (before the ledger existed, or with its triggers off).');
+    }
+    if (causes.length === 0) causes.push('The sizes changed without updating the total.');
+    return causes;
+  }
+
+  if (d.ledgerEntries === 0) {
+    causes.push('No ledger history: the stock row was written without the ledger triggers.');
+    return causes;
+  }
+  if (d.chainBreaks > 0) {
+    causes.push(
+      `${d.chainBreaks} change${d.chainBreaks === 1 ? '' : 's'} between ledger entries ${d.chainBreaks === 1 ? 'was' : 'were'} not recorded.`
+    );
+  }
+  if (d.ledgerBalance !== null && d.ledgerBalance !== d.onHand) {
+    causes.push('The stock changed after the last ledger entry without a ledger row.');
+  }
+  if (causes.length === 0) causes.push('The ledger history does not add up to its own balance.');
+  return causes;
+}
+
+function rowToApi(row: DiscrepancyRow): StockDiscrepancy {
+  const onHand = Number(row.on_hand ?? 0);
+  const expected = Number(row.expected ?? 0);
+  const base = {
+    warehouseId: row.warehouse_id,
+    productId: row.product_id,
+    productName: row.product_name ?? null,
+    sku: row.sku ?? null,
+    sizeCode: row.size_code ?? null,
+    kind: row.kind,
+    onHand,
+    expected,
+    difference: onHand - expected,
+    hasTotalRow: Boolean(row.has_total_row),
+    ledgerEntries: Number(row.ledger_entries ?? 0),
+    ledgerBalance: row.ledger_balance == null ? null : Number(row.ledger_balance),
+    chainBreaks: Number(row.chain_breaks ?? 0),
+    lastReferenceType: row.last_reference_type ?? null,
+    lastEntryAt: row.last_entry_at ?? null,
+  };
+  return { ...base, causes: discrepancyCauses(base) };
+}
+
+/** Every discrepancy at a warehouse (or all warehouses). */
+export async function listStockDiscrepancies(warehouseId?: string): Promise<StockDiscrepancy[]> {
+  const { data, error } = await getSupabase().rpc('get_stock_discrepancies', {
+    p_warehouse_id: warehouseId ?? null,
+  });
+  if (error) throw error;
+  return ((data ?? []) as DiscrepancyRow[]).map(rowToApi);
+}
+
+/** Repairs one discrepancy. Throws the RPC error (DISCREPANCY_NOT_FOUND, INVALID_REPAIR_ACTION) as-is. */
+export async function repairStockDiscrepancy(params: {
+  warehouseId: string;
+  productId: string;
+  sizeCode: string | null;
+  kind: DiscrepancyKind;
+  action: RepairAction;
+  note?: string | null;
+  actor?: string | null;
+}): Promise<StockRepairResult> {
+  const { data, error } = await withStockLedgerContext(
+    getSupabase().rpc('repair_stock_discrepancy', {
+      p_warehouse_id: params.warehouseId,
+      p_product_id: params.productId,
+      p_size_code: params.sizeCode,
+      p_kind: params.kind,
+      p_action: params.action,
+      p_actor: params.actor ?? null,
+      p_note: params.note ?? null,
+    }),
+    { referenceType: 'reconciliation', actor: params.actor }
+  );
+  if (error) throw error;
+  const result = (data ?? {}) as Record<string, unknown>;
+  return {
+    id: result.id as string,
+    action: result.action as RepairAction,
+    onHandBefore: Number(result.onHandBefore ?? 0),
+    onHandAfter: Number(result.onHandAfter ?? 0),
+    adjustmentId: (result.adjustmentId as string | null) ?? null,
+    adjustmentNumber: (result.adjustmentNumber as string | null) ?? null,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Inter-warehouse stock transfers: read side (list, get, in-transit totals).
+ * Stock changes go through the create/dispatch/receive/cancel_stock_transfer RPCs.
+ */
+
+import { getSupabase } from '@/lib/supabase';
+
+export type StockTransferStatus = 'draft' | 'in_transit' | 'received' | 'cancelled';
+
+export interface StockTransferLine {
+  id: string;
+  productId: string;
+  productName: string | null;
+  sku: string | null;
+  sizeCode: string | null;
+  qty: number;
+}
+
+export interface StockTransfer {
+  id: string;
+  transferNumber: string;
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  status: StockTransferStatus;
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  dispatchedBy: string | null;
+  dispatchedAt: string | null;
+  receivedBy: string | null;
+  receivedAt: string | null;
+  cancelledAt: string | null;
+  lines: StockTransferLine[];
+}
+
+export interface InTransitRow {
+  productId: string;
+  sizeCode: string | null;
+  incoming: number;
+  outgoing: number;
+}
+
+const SELECT =
+  'id, transfer_number, from_warehouse_id, to_warehouse_id, status, notes, created_by_email, created_at, dispatched_by_email, dispatched_at, received_by_email, received_at, cancelled_at, stock_transfer_lines(id, product_id, size_code, qty, warehouse_products(name, sku))';
+
+function rowToApi(row: Record<string, unknown>): StockTransfer {
+  const lines = (row.stock_transfer_lines as Array<Record<string, unknown>> | null) ?? [];
+  return {
+    id: row.id as string,
+    transferNumber: row.transfer_number as string,
+    fromWarehouseId: row.from_warehouse_id as string,
+    toWarehouseId: row.to_warehouse_id as string,
+    status: row.status as StockTransferStatus,
+    notes: (row.notes as string | null) ?? null,
+    createdBy: (row.created_by_email as string | null) ?? null,
+    createdAt: row.created_at as string,
+    dispatchedBy: (row.dispatched_by_email as string | null) ?? null,
+    dispatchedAt: (row.dispatched_at as string | null) ?? null,
+    receivedBy: (row.received_by_email as string | null) ?? null,
+    receivedAt: (row.received_at as string | null) ?? null,
+    cancelledAt: (row.cancelled_at as string | null) ?? null,
+    lines: lines.map((l) => {
+      const product = l.warehouse_products as { name?: string; sku?: string } | null;
+      return {
+        id: l.id as string,
+        productId: l.product_id as string,
+        productName: product?.name ?? null,
+        sku: product?.sku ?? null,
+        sizeCode: (l.size_code as string | null) ?? null,
+        qty: Number(l.qty ?? 0),
+      };
+    }),
+  };
+}
+
+/** Transfers where the warehouse is source or destination, newest first. */
+export async function listStockTransfers(params: {
+  warehouseId: string;
+  status?: StockTransferStatus;
+  limit?: number;
+}): Promise<StockTransfer[]> {
+  const db = getSupabase();
+  let query = db
+    .from('stock_transfers')
+    .select(SELECT)
+    .or(`from_warehouse_id.eq.${params.warehouseId},to_warehouse_id.eq.${params.warehouseId}`)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(Math.max(1, params.limit ?? 100), 500));
+  if (params.status) query = query.eq('status', params.status);
+  const { data, error } = await query;
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map(rowToApi);
+}
+
+export async function getStockTransfer(id: string): Promise<StockTransfer | null> {
+  const db = getSupabase();
+  const { data, error } = await db.from('stock_transfers').select(SELECT).eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
+
+/** Per product/size quantities in transit to or from a warehouse. */
+export async function getInTransitForWarehouse(warehouseId: string): Promise<InTransitRow[]> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('warehouse_stock_in_transit')
+    .select('product_id, size_code, incoming, outgoing')
+    .eq('warehouse_id', warehouseId);
+  if (error) throw error;
+  return ((data ?? []) as Array<{ product_id: string; size_code: string | null; incoming: number; outgoing: number }>).map(
+    (r) => ({
+      productId: r.product_id,
+      sizeCode: r.size_code ?? null,
+      incoming: Number(r.incoming ?? 0),
+      outgoing: Number(r.outgoing ?? 0),
+    })
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * Suppliers: CRUD on the suppliers table. Deleting only deactivates (POs and GRNs keep their reference).
+ */
+
+import { getSupabase } from '@/lib/supabase';
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName: string | null;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SupplierInput {
+  name?: string;
+  contactName?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  notes?: string | null;
+  isActive?: boolean;
+}
+
+const SELECT = 'id, name, contact_name, phone, email, notes, is_active, created_at, updated_at';
+
+function rowToApi(row: Record<string, unknown>): Supplier {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    contactName: (row.contact_name as string | null) ?? null,
+    phone: (row.phone as string | null) ?? null,
+    email: (row.email as string | null) ?? null,
+    notes: (row.notes as string | null) ?? null,
+    isActive: row.is_active !== false,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function clean(v: string | null | undefined): string | null {
+  const s = typeof v === 'string' ? v.trim() : '';
+  return s || null;
+}
+
+/** Input → column updates; only keys present in the input are written. */
+function inputToRow(input: SupplierInput): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  if (input.name !== undefined) row.name = (input.name ?? '').trim();
+  if (input.contactName !== undefined) row.contact_name = clean(input.contactName);
+  if (input.phone !== undefined) row.phone = clean(input.phone);
+  if (input.email !== undefined) row.email = clean(input.email);
+  if (input.notes !== undefined) row.notes = clean(input.notes);
+  if (input.isActive !== undefined) row.is_active = input.isActive;
+  return row;
+}
+
+export async function listSuppliers(opts: { includeInactive?: boolean } = {}): Promise<Supplier[]> {
+  const db = getSupabase();
+  let query = db.from('suppliers').select(SELECT).order('name', { ascending: true });
+  if (!opts.includeInactive) query = query.eq('is_active', true);
+  const { data, error } = await query;
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map(rowToApi);
+}
+
+export async function getSupplier(id: string): Promise<Supplier | null> {
+  const db = getSupabase();
+  const { data, error } = await db.from('suppliers').select(SELECT).eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
+
+export async function createSupplier(input: SupplierInput): Promise<Supplier> {
+  const db = getSupabase();
+  const { data, error } = await db.from('suppliers').insert(inputToRow(input)).select(SELECT).single();
+  if (error) throw error;
+  return rowToApi(data as Record<string, unknown>);
+}
+
+export async function updateSupplier(id: string, input: SupplierInput): Promise<Supplier | null> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('suppliers')
+    .update({ ...inputToRow(input), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select(SELECT)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
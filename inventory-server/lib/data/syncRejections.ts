@@ -1,6 +1,6 @@
 /**
  * Phase 4: Sync rejections — record and query failed offline sync attempts.
- * Used when server cannot apply an event (e.g. INSUFFICIENT_STOCK). Admin can void.
+ * Used when server cannot apply an event (e.g. INSUFFICIENT_STOCK) or a till discards a queued sale. Admin can void.
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
@@ -70,6 +70,28 @@ export async function recordRejection(params: {
   if (error) throw error;
 }
 
+/**
+ * Record an offline sale the till gave up on (discarded from its queue), with the cashier's reason. A sale the
+ * server already rejected keeps its row; the reason is appended so the admin sees both.
+ */
+export async function recordDiscardedSale(params: {
+  idempotencyKey: string;
+  warehouseId: string;
+  reason: string;
+}): Promise<void> {
+  const existing = await getRejectionByKey(params.idempotencyKey);
+  const supabase = getSupabase();
+  if (existing) {
+    const { error } = await supabase
+      .from(TABLE)
+      .update({ reason: `${existing.reason} — ${params.reason.trim()}` })
+      .eq('id', existing.id);
+    if (error) throw error;
+    return;
+  }
+  await recordRejection(params);
+}
+
 /** Get rejection by idempotency key, if any. */
 export async function getRejectionByKey(idempotencyKey: string): Promise<SyncRejection | null> {
   const supabase = getSupabase();
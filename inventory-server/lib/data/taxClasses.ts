@@ -0,0 +1,283 @@
+/**
+ * Tax classes: the VAT regime a product is sold under, as components (VAT, NHIL, GETFund levy, COVID-19 levy)
+ * charged inclusive or exclusive of the shelf price. A product's own class wins over its category's, which wins
+ * over the default class. The sale_lines trigger resolves the class and stores the tax per line; the POS mirrors
+ * the same arithmetic (src/lib/tax.ts) to show the total before charging.
+ */
+
+import { getSupabase } from '@/lib/supabase';
+
+export interface TaxComponent {
+  code: string;
+  label: string;
+  /** Percent. */
+  rate: number;
+  /** Charged on the base plus the non-compound components (Ghana VAT on top of the levies). */
+  compound: boolean;
+}
+
+export interface TaxClass {
+  id: string;
+  code: string;
+  name: string;
+  inclusive: boolean;
+  components: TaxComponent[];
+  isDefault: boolean;
+  active: boolean;
+  updatedByEmail: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CategoryTaxClass {
+  /** Lower-cased warehouse_products.category. */
+  category: string;
+  taxClassId: string;
+}
+
+export interface TaxClassInput {
+  code?: string;
+  name?: string;
+  inclusive?: boolean;
+  components?: unknown;
+  isDefault?: boolean;
+  active?: boolean;
+}
+
+export interface TaxBreakdownItem {
+  code: string;
+  label: string;
+  rate: number;
+  amount: number;
+}
+
+/** Tax on one sale, summed from its lines: what was inside the prices, what was added, and per component. */
+export interface SaleTax {
+  included: number;
+  added: number;
+  breakdown: TaxBreakdownItem[];
+}
+
+const SELECT = 'id, code, name, inclusive, components, is_default, active, updated_by_email, created_at, updated_at';
+
+const MAX_COMPONENTS = 8;
+
+function rowToApi(row: Record<string, unknown>): TaxClass {
+  return {
+    id: row.id as string,
+    code: row.code as string,
+    name: row.name as string,
+    inclusive: row.inclusive !== false,
+    components: (row.components as TaxComponent[] | null) ?? [],
+    isDefault: row.is_default === true,
+    active: row.active !== false,
+    updatedByEmail: (row.updated_by_email as string | null) ?? null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Cleans components from the settings screen. Returns them, or a message for the first bad one. */
+export function parseTaxComponents(raw: unknown): TaxComponent[] | string {
+  if (!Array.isArray(raw)) return 'components must be an array.';
+  if (raw.length > MAX_COMPONENTS) return `A tax class can have at most ${MAX_COMPONENTS} components.`;
+  const components: TaxComponent[] = [];
+  for (const item of raw) {
+    const c = (item ?? {}) as Record<string, unknown>;
+    const code = typeof c.code === 'string' ? c.code.trim().toUpperCase() : '';
+    const label = typeof c.label === 'string' && c.label.trim() ? c.label.trim() : code;
+    const rate = Number(c.rate);
+    if (!/^[A-Z0-9_]{1,20}$/.test(code)) return 'Each component needs a code of letters, digits or _.';
+    if (components.some((x) => x.code === code)) return `Component ${code} appears twice.`;
+    if (!Number.isFinite(rate) || rate < 0 || rate > 100) return 'Each component rate must be between 0 and 100.';
+    components.push({ code, label, rate, compound: c.compound === true });
+  }
+  return components;
+}
+
+/** Checks a full class (create, or an update merged onto the current one). Returns a message or null. */
+export function validateTaxClass(input: TaxClassInput): string | null {
+  if (typeof input.code !== 'string' || !/^[a-z0-9_]{1,40}$/.test(input.code)) {
+    return 'code must be lower-case letters, digits or _.';
+  }
+  if (typeof input.name !== 'string' || !input.name.trim()) return 'name is required.';
+  const components = parseTaxComponents(input.components ?? []);
+  if (typeof components === 'string') return components;
+  if (input.isDefault && input.active === false) return 'The default tax class cannot be inactive.';
+  return null;
+}
+
+/** Input → column updates; only keys present in the input are written. */
+function inputToRow(input: TaxClassInput): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  if (input.code !== undefined) row.code = input.code;
+  if (input.name !== undefined) row.name = (input.name ?? '').trim();
+  if (input.inclusive !== undefined) row.inclusive = input.inclusive !== false;
+  if (input.components !== undefined) row.components = parseTaxComponents(input.components);
+  if (input.isDefault !== undefined) row.is_default = input.isDefault === true;
+  if (input.active !== undefined) row.active = input.active !== false;
+  return row;
+}
+
+export function taxClassToInput(c: TaxClass): TaxClassInput {
+  return {
+    code: c.code,
+    name: c.name,
+    inclusive: c.inclusive,
+    components: c.components,
+    isDefault: c.isDefault,
+    active: c.active,
+  };
+}
+
+/** Every class, default first (settings screen and the POS). */
+export async function listTaxClasses(): Promise<TaxClass[]> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('tax_classes')
+    .select(SELECT)
+    .order('is_default', { ascending: false })
+    .order('name', { ascending: true });
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map(rowToApi);
+}
+
+export async function getTaxClass(id: string): Promise<TaxClass | null> {
+  const db = getSupabase();
+  const { data, error } = await db.from('tax_classes').select(SELECT).eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
+
+/** The one-default index would reject a second default; clear the old one first. */
+async function clearDefault(exceptId: string | null): Promise<void> {
+  const db = getSupabase();
+  let q = db.from('tax_classes').update({ is_default: false, updated_at: new Date().toISOString() }).eq('is_default', true);
+  if (exceptId) q = q.neq('id', exceptId);
+  const { error } = await q;
+  if (error) throw error;
+}
+
+export async function createTaxClass(input: TaxClassInput, email: string): Promise<TaxClass> {
+  if (input.isDefault) await clearDefault(null);
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('tax_classes')
+    .insert({ ...inputToRow(input), updated_by_email: email })
+    .select(SELECT)
+    .single();
+  if (error) throw error;
+  return rowToApi(data as Record<string, unknown>);
+}
+
+export async function updateTaxClass(id: string, input: TaxClassInput, email: string): Promise<TaxClass | null> {
+  if (input.isDefault) await clearDefault(id);
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('tax_classes')
+    .update({ ...inputToRow(input), updated_by_email: email, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select(SELECT)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
+
+export async function listCategoryTaxClasses(): Promise<CategoryTaxClass[]> {
+  const db = getSupabase();
+  const { data, error } = await db.from('category_tax_classes').select('category, tax_class_id').order('category');
+  if (error) throw error;
+  return ((data ?? []) as Array<{ category: string; tax_class_id: string }>).map((r) => ({
+    category: r.category,
+    taxClassId: r.tax_class_id,
+  }));
+}
+
+/** Assigns a class to a category; null puts the category back on the default class. */
+export async function setCategoryTaxClass(category: string, taxClassId: string | null, email: string): Promise<void> {
+  const db = getSupabase();
+  const key = category.trim().toLowerCase();
+  if (!taxClassId) {
+    const { error } = await db.from('category_tax_classes').delete().eq('category', key);
+    if (error) throw error;
+    return;
+  }
+  const { error } = await db
+    .from('category_tax_classes')
+    .upsert(
+      { category: key, tax_class_id: taxClassId, updated_by_email: email, updated_at: new Date().toISOString() },
+      { onConflict: 'category' }
+    );
+  if (error) throw error;
+}
+
+/** Sums sale_lines tax columns into one sale's tax (receipt). Lines sold before tax classes add nothing. */
+export function summariseLineTax(
+  lines: Array<{ tax_inclusive?: boolean | null; tax_amount?: number | string | null; tax_breakdown?: unknown }>
+): SaleTax {
+  let included = 0;
+  let added = 0;
+  const byCode = new Map<string, TaxBreakdownItem>();
+  for (const l of lines) {
+    if (l.tax_inclusive == null) continue;
+    const amount = Number(l.tax_amount ?? 0);
+    if (l.tax_inclusive) included += amount;
+    else added += amount;
+    for (const b of (Array.isArray(l.tax_breakdown) ? l.tax_breakdown : []) as TaxBreakdownItem[]) {
+      const key = `${b.code}@${b.rate}`;
+      const prev = byCode.get(key);
+      byCode.set(key, { code: b.code, label: b.label, rate: Number(b.rate), amount: round2((prev?.amount ?? 0) + Number(b.amount)) });
+    }
+  }
+  return {
+    included: round2(included),
+    added: round2(added),
+    breakdown: Array.from(byCode.values()).filter((b) => b.amount !== 0),
+  };
+}
+
+/** Tax recorded on a sale's lines by the sale_lines trigger. */
+export async function getSaleTax(saleId: string): Promise<SaleTax> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('sale_lines')
+    .select('tax_inclusive, tax_amount, tax_breakdown')
+    .eq('sale_id', saleId);
+  if (error) throw error;
+  return summariseLineTax((data ?? []) as Array<Record<string, unknown>> as Parameters<typeof summariseLineTax>[0]);
+}
+
+/**
+ * Tax the sale_lines trigger will add on top for these lines (tax-exclusive classes), with the sale discount shared
+ * out as the trigger does. Pass the subtotal and discount as they will be stored (to the pesewa).
+ */
+export async function getExclusiveSaleTax(
+  lines: Array<{ productId: string; lineTotal: number }>,
+  subtotal: number,
+  discountAmt: number
+): Promise<number> {
+  const db = getSupabase();
+  const { data, error } = await db.rpc('sale_exclusive_tax', {
+    p_lines: lines.map((l) => ({ productId: l.productId, lineTotal: l.lineTotal })),
+    p_subtotal: subtotal,
+    p_discount_amt: discountAmt,
+  });
+  if (error) throw error;
+  return round2(Number(data ?? 0));
+}
+
+/** get_tax_summary for the tax report. */
+export async function getTaxSummary(warehouseId: string | null, from: string | null, to: string | null): Promise<Record<string, unknown>> {
+  const db = getSupabase();
+  const { data, error } = await db.rpc('get_tax_summary', {
+    p_warehouse_id: warehouseId,
+    p_from: from,
+    p_to: to,
+  });
+  if (error) throw error;
+  return (data ?? {}) as Record<string, unknown>;
+}
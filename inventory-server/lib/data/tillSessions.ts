@@ -0,0 +1,261 @@
+/**
+ * Cash drawer (till) sessions: read side, paid in / paid out, and linking sales and refunds to a drawer.
+ * Opening, the running summary (X report) and closing (Z report) go through open_till_session /
+ * get_till_session_summary / close_till_session (RPCs).
+ */
+
+import { getSupabase } from '@/lib/supabase';
+
+export type TillSessionStatus = 'open' | 'closed';
+export type TillMovementKind = 'paid_in' | 'paid_out';
+
+export interface TillSummary {
+  openingFloat: number;
+  salesCount: number;
+  salesTotal: number;
+  discountTotal: number;
+  /** Takings per payment method, mixed sales split into their legs. */
+  byMethod: Record<string, number>;
+  voidCount: number;
+  voidTotal: number;
+  /** Layaway deposits and instalments taken (also in byMethod); layaway sales are not in salesTotal. */
+  layawayCount: number;
+  layawayTotal: number;
+  refundCount: number;
+  refundTotal: number;
+  cashSales: number;
+  cashRefunds: number;
+  paidIn: number;
+  paidOut: number;
+  expectedCash: number;
+}
+
+export interface TillSession {
+  id: string;
+  sessionNumber: string;
+  warehouseId: string;
+  deviceId: string;
+  status: TillSessionStatus;
+  openingFloat: number;
+  openedBy: string | null;
+  openedAt: string;
+  countedCash: number | null;
+  expectedCash: number | null;
+  variance: number | null;
+  /** Snapshot taken at close; null while open. */
+  summary: TillSummary | null;
+  note: string | null;
+  closedBy: string | null;
+  closedAt: string | null;
+}
+
+export interface TillMovement {
+  id: string;
+  sessionId: string;
+  kind: TillMovementKind;
+  amount: number;
+  reason: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+const SELECT =
+  'id, session_number, warehouse_id, device_id, status, opening_float, opened_by_email, opened_at, counted_cash, expected_cash, variance, summary, note, closed_by_email, closed_at';
+
+const MOVEMENT_SELECT = 'id, session_id, kind, amount, reason, created_by_email, created_at';
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function num(v: unknown): number | null {
+  return v == null ? null : Number(v);
+}
+
+export function summaryFromRpc(raw: Record<string, unknown>): TillSummary {
+  const byMethod = (raw.byMethod as Record<string, unknown> | null) ?? {};
+  return {
+    openingFloat: Number(raw.openingFloat ?? 0),
+    salesCount: Number(raw.salesCount ?? 0),
+    salesTotal: Number(raw.salesTotal ?? 0),
+    discountTotal: Number(raw.discountTotal ?? 0),
+    byMethod: Object.fromEntries(Object.entries(byMethod).map(([k, v]) => [k, Number(v ?? 0)])),
+    voidCount: Number(raw.voidCount ?? 0),
+    voidTotal: Number(raw.voidTotal ?? 0),
+    layawayCount: Number(raw.layawayCount ?? 0),
+    layawayTotal: Number(raw.layawayTotal ?? 0),
+    refundCount: Number(raw.refundCount ?? 0),
+    refundTotal: Number(raw.refundTotal ?? 0),
+    cashSales: Number(raw.cashSales ?? 0),
+    cashRefunds: Number(raw.cashRefunds ?? 0),
+    paidIn: Number(raw.paidIn ?? 0),
+    paidOut: Number(raw.paidOut ?? 0),
+    expectedCash: Number(raw.expectedCash ?? 0),
+  };
+}
+
+function rowToApi(row: Record<string, unknown>): TillSession {
+  return {
+    id: row.id as string,
+    sessionNumber: row.session_number as string,
+    warehouseId: row.warehouse_id as string,
+    deviceId: row.device_id as string,
+    status: row.status as TillSessionStatus,
+    openingFloat: Number(row.opening_float ?? 0),
+    openedBy: (row.opened_by_email as string | null) ?? null,
+    openedAt: row.opened_at as string,
+    countedCash: num(row.counted_cash),
+    expectedCash: num(row.expected_cash),
+    variance: num(row.variance),
+    summary: row.summary ? summaryFromRpc(row.summary as Record<string, unknown>) : null,
+    note: (row.note as string | null) ?? null,
+    closedBy: (row.closed_by_email as string | null) ?? null,
+    closedAt: (row.closed_at as string | null) ?? null,
+  };
+}
+
+function movementToApi(row: Record<string, unknown>): TillMovement {
+  return {
+    id: row.id as string,
+    sessionId: row.session_id as string,
+    kind: row.kind as TillMovementKind,
+    amount: Number(row.amount ?? 0),
+    reason: (row.reason as string) ?? '',
+    createdBy: (row.created_by_email as string | null) ?? null,
+    createdAt: row.created_at as string,
+  };
+}
+
+/**
+ * What a cashier may see of their own open session: the float and their paid in / out, but not the expected
+ * cash, so the closing count stays blind.
+ */
+export function blindSession(session: TillSession): TillSession {
+  return { ...session, countedCash: null, expectedCash: null, variance: null, summary: null };
+}
+
+export async function getTillSession(id: string): Promise<TillSession | null> {
+  const db = getSupabase();
+  const { data, error } = await db.from('till_sessions').select(SELECT).eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
+
+export async function getOpenTillSession(warehouseId: string, deviceId: string): Promise<TillSession | null> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('till_sessions')
+    .select(SELECT)
+    .eq('warehouse_id', warehouseId)
+    .eq('device_id', deviceId)
+    .eq('status', 'open')
+    .maybeSingle();
+  if (error) throw error;
+  return data ? rowToApi(data as Record<string, unknown>) : null;
+}
+
+export async function listTillSessions(params: {
+  warehouseId: string;
+  status?: TillSessionStatus;
+  limit?: number;
+}): Promise<TillSession[]> {
+  const db = getSupabase();
+  let query = db
+    .from('till_sessions')
+    .select(SELECT)
+    .eq('warehouse_id', params.warehouseId)
+    .order('opened_at', { ascending: false })
+    .limit(Math.min(Math.max(1, params.limit ?? 50), 200));
+  if (params.status) query = query.eq('status', params.status);
+  const { data, error } = await query;
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map(rowToApi);
+}
+
+export async function listTillMovements(sessionId: string): Promise<TillMovement[]> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('till_cash_movements')
+    .select(MOVEMENT_SELECT)
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map(movementToApi);
+}
+
+export async function addTillMovement(input: {
+  sessionId: string;
+  kind: TillMovementKind;
+  amount: number;
+  reason: string;
+  createdByEmail: string | null;
+}): Promise<TillMovement> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('till_cash_movements')
+    .insert({
+      session_id: input.sessionId,
+      kind: input.kind,
+      amount: Math.round(input.amount * 100) / 100,
+      reason: input.reason.trim(),
+      created_by_email: input.createdByEmail,
+    })
+    .select(MOVEMENT_SELECT)
+    .single();
+  if (error) throw error;
+  return movementToApi(data as Record<string, unknown>);
+}
+
+export async function getTillSummary(sessionId: string): Promise<TillSummary> {
+  const db = getSupabase();
+  const { data, error } = await db.rpc('get_till_session_summary', { p_session_id: sessionId });
+  if (error) throw error;
+  return summaryFromRpc((data ?? {}) as Record<string, unknown>);
+}
+
+/**
+ * Checks that a till session id sent with a sale or return is a session of that warehouse. Returns the id, or
+ * null when it is missing or unknown so the sale still goes through without a drawer.
+ */
+export async function resolveTillSessionId(raw: unknown, warehouseId: string): Promise<string | null> {
+  if (typeof raw !== 'string' || !UUID_RE.test(raw.trim())) return null;
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('till_sessions')
+    .select('id')
+    .eq('id', raw.trim())
+    .eq('warehouse_id', warehouseId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? (data as { id: string }).id : null;
+}
+
+/**
+ * Stamps sales (with their layaway deposits) and a return with the drawer that took the money. Rows already
+ * linked keep their session, so a replayed request cannot move a sale between drawers. Offline sales replayed after their session closed are
+ * still linked, but the closed session's Z figures do not change.
+ */
+export async function linkToTillSession(
+  sessionId: string,
+  refs: { saleIds?: Array<string | null | undefined>; returnId?: string | null }
+): Promise<void> {
+  const db = getSupabase();
+  const saleIds = (refs.saleIds ?? []).filter((id): id is string => typeof id === 'string' && id.length > 0);
+  if (saleIds.length > 0) {
+    const { error } = await db.from('sales').update({ till_session_id: sessionId }).in('id', saleIds).is('till_session_id', null);
+    if (error) console.error('[tillSessions] link sales', error);
+    const { error: depositErr } = await db
+      .from('layaway_payments')
+      .update({ till_session_id: sessionId })
+      .in('sale_id', saleIds)
+      .eq('kind', 'deposit')
+      .is('till_session_id', null);
+    if (depositErr) console.error('[tillSessions] link layaway deposits', depositErr);
+  }
+  if (refs.returnId) {
+    const { error } = await db
+      .from('sale_returns')
+      .update({ till_session_id: sessionId })
+      .eq('id', refs.returnId)
+      .is('till_session_id', null);
+    if (error) console.error('[tillSessions] link return', error);
+  }
+}
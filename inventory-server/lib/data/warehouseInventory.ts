@@ -4,6 +4,7 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
 
 const TABLE = 'warehouse_inventory';
 
@@ -107,7 +108,8 @@ export interface DeductItem {
  */
 export async function processSaleDeductions(
   warehouseId: string,
-  items: DeductItem[]
+  items: DeductItem[],
+  actor?: string
 ): Promise<void> {
   if (items.length === 0) return;
   const supabase = getSupabase();
@@ -115,10 +117,10 @@ export async function processSaleDeductions(
     productId: i.productId,
     quantity: Math.max(0, Math.floor(i.quantity)),
   }));
-  const { error } = await supabase.rpc('process_sale_deductions', {
-    p_warehouse_id: warehouseId,
-    p_items: payload,
-  });
+  const { error } = await withStockLedgerContext(
+    supabase.rpc('process_sale_deductions', { p_warehouse_id: warehouseId, p_items: payload }),
+    { actor }
+  );
   if (error) {
     const err = new Error(error.message) as Error & { status?: number };
     err.status = error.message?.includes('INSUFFICIENT_STOCK') ? 409 : 400;
@@ -137,7 +139,8 @@ export interface ReturnItem {
  */
 export async function processReturnStock(
   warehouseId: string,
-  items: ReturnItem[]
+  items: ReturnItem[],
+  actor?: string
 ): Promise<void> {
   if (items.length === 0) return;
   const supabase = getSupabase();
@@ -145,10 +148,10 @@ export async function processReturnStock(
     productId: i.productId,
     quantity: Math.max(0, Math.floor(i.quantity)),
   }));
-  const { error } = await supabase.rpc('process_return_stock', {
-    p_warehouse_id: warehouseId,
-    p_items: payload,
-  });
+  const { error } = await withStockLedgerContext(
+    supabase.rpc('process_return_stock', { p_warehouse_id: warehouseId, p_items: payload }),
+    { actor }
+  );
   if (error) {
     const err = new Error(error.message) as Error & { status?: number };
     err.status = 400;
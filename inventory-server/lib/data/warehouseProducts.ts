@@ -4,6 +4,7 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { getSupabase } from '@/lib/supabase';
 import { getSizeCodes } from '@/lib/data/sizeCodes';
+import { withStockLedgerContext } from '@/lib/data/stockLedger';
 
 export interface ListOptions {
   limit?: number;
@@ -16,6 +17,8 @@ export interface ListOptions {
   view?: 'list' | 'full';
   /** When set, passed to fetch() for all Supabase queries so the request can be aborted (e.g. timeout). */
   signal?: AbortSignal;
+  /** Only these products (the change feed); at most `limit` of them. */
+  ids?: string[];
 }
 
 export interface ListResult {
@@ -26,6 +29,8 @@ export interface ListResult {
 export interface ListProduct {
   id: string;
   warehouseId: string;
+  /** Set on a colour variant (getProductById of a variant id); null on a product. */
+  parentId: string | null;
   sku: string;
   barcode: string | null;
   name: string;
@@ -36,17 +41,38 @@ export interface ListProduct {
   costPrice: number;
   reorderLevel: number;
   quantity: number;
-  quantityBySize: Array<{ sizeCode: string; sizeLabel?: string; quantity: number }>;
+  quantityBySize: SizeEntry[];
   location: unknown;
   supplier: unknown;
   tags: unknown[];
   images: string[];
   color: string | null;
+  /** Own tax class; null = the category's class or the default (see lib/data/taxClasses.ts). */
+  taxClassId: string | null;
   version: number;
   createdAt: string;
   updatedAt: string;
+  /**
+   * Colour variants (see migration 20260402100000_product_variants.sql). A product with variants has no stock of its
+   * own: quantity / quantityBySize are the variants' summed.
+   */
+  variants: ListVariant[];
 }
 
+/** A colour of a product, with its own SKU, barcode, images and stock; the rest is the product's. */
+export interface ListVariant {
+  id: string;
+  color: string;
+  sku: string;
+  barcode: string | null;
+  images: string[];
+  sizeKind: string;
+  quantity: number;
+  quantityBySize: SizeEntry[];
+}
+
+type SizeEntry = { sizeCode: string; sizeLabel?: string; quantity: number };
+
 /** Alias for ListProduct (dashboard stats and other consumers). */
 export type ProductRecord = ListProduct;
 
@@ -64,6 +90,7 @@ export interface PutProductBody {
   quantityBySize?: Array<{ sizeCode: string; quantity: number }>;
   images?: string[];
   color?: string | null;
+  taxClassId?: string | null;
   [key: string]: unknown;
 }
 
@@ -74,6 +101,9 @@ function getDb(): SupabaseClient {
 /** Turn DB constraint errors into clear 400-style messages for the client. */
 function normalizeDbConstraintError(dbMessage: string, action: 'create' | 'update', code?: string): string {
   if (code === '23505' || /unique constraint|duplicate key value|already exists/i.test(dbMessage)) {
+    if (/idx_warehouse_products_variant_color/i.test(dbMessage)) {
+      return 'This product already has a variant in that colour.';
+    }
     if (/sku|idx_warehouse_products_sku_unique/i.test(dbMessage)) {
       return 'A product with this SKU already exists. Use a unique SKU or edit the existing product.';
     }
@@ -93,11 +123,11 @@ function normalizeDbConstraintError(dbMessage: string, action: 'create' | 'updat
  * Quantity is resolved from warehouse_inventory / warehouse_inventory_by_size per warehouse.
  */
 const WAREHOUSE_PRODUCTS_SELECT =
-  'id, sku, barcode, name, description, category, size_kind, selling_price, cost_price, reorder_level, location, supplier, tags, images, color, version, created_at, updated_at';
+  'id, parent_id, sku, barcode, name, description, category, size_kind, selling_price, cost_price, reorder_level, location, supplier, tags, images, color, tax_class_id, version, created_at, updated_at';
 
 /** Slimmer select for list view — omits description, location, supplier, tags to reduce payload. */
 const WAREHOUSE_PRODUCTS_SELECT_LIST =
-  'id, sku, barcode, name, category, size_kind, selling_price, cost_price, reorder_level, images, color, version, created_at, updated_at';
+  'id, parent_id, sku, barcode, name, category, size_kind, selling_price, cost_price, reorder_level, images, color, tax_class_id, version, created_at, updated_at';
 
 function isStatementTimeoutError(err: { message?: string }): boolean {
   const m = (err?.message ?? '').toLowerCase();
@@ -125,11 +155,200 @@ async function fetchAllSizeRows(
   return results;
 }
 
+interface WarehouseStock {
+  /** warehouse_inventory quantity per product (absent: no row at this warehouse). */
+  invMap: Record<string, number>;
+  /** warehouse_inventory_by_size rows per product, sorted by size. */
+  sizeMap: Record<string, SizeEntry[]>;
+}
+
+/** warehouse_inventory and warehouse_inventory_by_size for these products at one warehouse. */
+async function fetchWarehouseStock(
+  db: SupabaseClient,
+  warehouseId: string,
+  productIds: string[],
+  fetchOpts?: { fetch: RequestInit }
+): Promise<WarehouseStock> {
+  const idSet = new Set(productIds);
+  const [invRes, sizeData] = await Promise.all([
+    db
+      .from('warehouse_inventory')
+      .select('product_id, quantity', fetchOpts as object)
+      .eq('warehouse_id', warehouseId)
+      .in('product_id', productIds)
+      .limit(5000),
+    fetchAllSizeRows(db, warehouseId, productIds),
+  ]);
+
+  const invData = (invRes as { data?: { product_id: string; quantity?: number }[] | null }).data ?? [];
+  const invMap: Record<string, number> = {};
+  for (const inv of invData) {
+    const pid = String(inv.product_id ?? '');
+    if (idSet.has(pid)) invMap[pid] = Number(inv.quantity ?? 0);
+  }
+
+  // quantity_by_size built from size rows only (same warehouse_id). Never use size_codes join or other-warehouse data.
+  const sizeMap: Record<string, SizeEntry[]> = {};
+  for (const r of sizeData) {
+    const pid = String(r.product_id ?? '');
+    if (!idSet.has(pid)) continue;
+    if (!sizeMap[pid]) sizeMap[pid] = [];
+    sizeMap[pid].push({
+      sizeCode: String(r.size_code),
+      sizeLabel: String(r.size_code),
+      quantity: Number(r.quantity ?? 0),
+    });
+  }
+  for (const sizes of Object.values(sizeMap)) {
+    sizes.sort((a, b) => a.sizeCode.localeCompare(b.sizeCode, undefined, { numeric: true }));
+  }
+  return { invMap, sizeMap };
+}
+
+function hasStockRows(stock: WarehouseStock, productId: string): boolean {
+  return stock.invMap[productId] !== undefined || (stock.sizeMap[productId]?.length ?? 0) > 0;
+}
+
+/** Quantity and sizes of one product from its stock rows. */
+function stockOf(
+  stock: WarehouseStock,
+  productId: string,
+  rawSizeKind: string
+): Pick<ListProduct, 'sizeKind' | 'quantity' | 'quantityBySize'> {
+  let sizes = stock.sizeMap[productId] ?? [];
+  const hasSizeRows = sizes.length > 0;
+  const quantity = hasSizeRows ? sizes.reduce((s, r) => s + r.quantity, 0) : (stock.invMap[productId] ?? 0);
+  let sizeKind = rawSizeKind;
+  // When product has no per-size rows but has quantity in warehouse_inventory, return a synthetic "One size" row so sizes "come back" in inventory and user can add more when editing.
+  if (!hasSizeRows && quantity > 0) {
+    sizes = [{ sizeCode: 'ONE_SIZE', sizeLabel: 'One size', quantity }];
+    sizeKind = 'one_size';
+  }
+  return { sizeKind, quantity, quantityBySize: sizes };
+}
+
+/** A product with variants: its stock is theirs, size by size. */
+function stockOfVariants(variants: ListVariant[]): Pick<ListProduct, 'sizeKind' | 'quantity' | 'quantityBySize'> {
+  const bySize = new Map<string, SizeEntry>();
+  for (const v of variants) {
+    for (const s of v.quantityBySize) {
+      const row = bySize.get(s.sizeCode);
+      if (row) row.quantity += s.quantity;
+      else bySize.set(s.sizeCode, { ...s });
+    }
+  }
+  const quantityBySize = [...bySize.values()].sort((a, b) =>
+    a.sizeCode.localeCompare(b.sizeCode, undefined, { numeric: true })
+  );
+  return {
+    sizeKind: variants.some((v) => v.sizeKind === 'sized') ? 'sized' : (variants[0]?.sizeKind ?? 'na'),
+    quantity: variants.reduce((s, v) => s + v.quantity, 0),
+    quantityBySize,
+  };
+}
+
+/** List view: first URL image, else a small base64 one. */
+function listViewImages(rawImages: string[]): string[] {
+  const urlFirst = rawImages
+    .filter((img): img is string => typeof img === 'string' && !img.startsWith('data:'))
+    .slice(0, 1);
+  if (urlFirst.length > 0) return urlFirst;
+  const firstBase64 = rawImages.find(
+    (img): img is string => typeof img === 'string' && img.startsWith('data:') && img.length <= 80_000
+  );
+  return firstBase64 ? [firstBase64] : [];
+}
+
+const VARIANT_SELECT = 'id, parent_id, sku, barcode, color, images, size_kind';
+
+/** Variant rows of these products, oldest first. */
+async function fetchVariantRows(
+  db: SupabaseClient,
+  parentIds: string[],
+  fetchOpts?: { fetch: RequestInit }
+): Promise<Record<string, unknown>[]> {
+  if (parentIds.length === 0) return [];
+  const { data, error } = await db
+    .from('warehouse_products')
+    .select(VARIANT_SELECT, fetchOpts as object)
+    .in('parent_id', parentIds)
+    .order('created_at');
+  if (error) throw new Error(`Failed to list product variants: ${error.message}`);
+  return (data ?? []) as unknown as Record<string, unknown>[];
+}
+
+function toListVariant(row: Record<string, unknown>, stock: WarehouseStock, view?: 'list' | 'full'): ListVariant {
+  const id = String(row.id ?? '');
+  const rawImages = Array.isArray(row.images) ? (row.images as string[]) : [];
+  return {
+    id,
+    color: String(row.color ?? '').trim(),
+    sku: String(row.sku ?? ''),
+    barcode: row.barcode != null ? String(row.barcode) : null,
+    images: view === 'list' ? listViewImages(rawImages) : rawImages,
+    ...stockOf(stock, id, String(row.size_kind ?? 'na')),
+  };
+}
+
+function groupVariants(
+  variantRows: Record<string, unknown>[],
+  stock: WarehouseStock,
+  view?: 'list' | 'full'
+): Map<string, ListVariant[]> {
+  const byParent = new Map<string, ListVariant[]>();
+  for (const row of variantRows) {
+    const parentId = String(row.parent_id ?? '');
+    const list = byParent.get(parentId) ?? [];
+    list.push(toListVariant(row, stock, view));
+    byParent.set(parentId, list);
+  }
+  return byParent;
+}
+
+function toListProduct(
+  row: Record<string, unknown>,
+  warehouseId: string,
+  stock: WarehouseStock,
+  variants: ListVariant[],
+  view?: 'list' | 'full'
+): ListProduct {
+  const id = String(row.id ?? '');
+  const rawImages = Array.isArray(row.images) ? (row.images as string[]) : [];
+  const own = variants.length > 0 ? stockOfVariants(variants) : stockOf(stock, id, String(row.size_kind ?? 'na'));
+  return {
+    id,
+    warehouseId,
+    parentId: row.parent_id != null ? String(row.parent_id) : null,
+    sku: String(row.sku ?? ''),
+    barcode: row.barcode != null ? String(row.barcode) : null,
+    name: String(row.name ?? ''),
+    description: row.description != null ? String(row.description) : null,
+    category: String(row.category ?? ''),
+    sizeKind: own.sizeKind,
+    sellingPrice: Number(row.selling_price ?? 0),
+    costPrice: Number(row.cost_price ?? 0),
+    reorderLevel: Number(row.reorder_level ?? 0),
+    quantity: own.quantity,
+    quantityBySize: own.quantityBySize,
+    location: row.location ?? null,
+    supplier: row.supplier ?? null,
+    tags: Array.isArray(row.tags) ? row.tags : [],
+    images: view === 'list' ? listViewImages(rawImages) : rawImages,
+    color: row.color != null ? String(row.color).trim() || null : null,
+    taxClassId: row.tax_class_id != null ? String(row.tax_class_id) : null,
+    version: Number(row.version ?? 0),
+    createdAt: String(row.created_at ?? ''),
+    updatedAt: String(row.updated_at ?? ''),
+    variants,
+  };
+}
+
 /**
  * List products for a warehouse.
  * Single-path query: products + LEFT JOIN semantics for warehouse_inventory_by_size (same warehouse_id).
  * quantity_by_size and total_quantity are built from the size query only; no fallback query, no size_codes join.
  * Includes all products that have inventory in this warehouse; never drops products due to join failure.
+ * Colour variants are nested in their product, not listed on their own.
  */
 export async function getWarehouseProducts(
   warehouseId: string | undefined,
@@ -153,15 +372,29 @@ export async function getWarehouseProducts(
   let productsQuery = db
     .from('warehouse_products')
     .select(selectColumns, selectOpts({ count: 'exact' }))
+    .is('parent_id', null)
     .order('name')
     .range(offset, offset + limit - 1);
   if (options.q?.trim()) {
     const search = options.q.trim();
-    productsQuery = productsQuery.or(`name.ilike.%${search}%,sku.ilike.%${search}%`);
+    // A variant's SKU, barcode or colour finds its product.
+    const { data: variantHits } = await db
+      .from('warehouse_products')
+      .select('parent_id', selectOpts())
+      .not('parent_id', 'is', null)
+      .or(`sku.ilike.%${search}%,barcode.ilike.%${search}%,color.ilike.%${search}%`)
+      .limit(250);
+    const parentIds = [...new Set((variantHits ?? []).map((r: { parent_id: string }) => r.parent_id))];
+    const byVariant = parentIds.length > 0 ? `,id.in.(${parentIds.join(',')})` : '';
+    productsQuery = productsQuery.or(`name.ilike.%${search}%,sku.ilike.%${search}%,barcode.ilike.%${search}%${byVariant}`);
   }
   if (options.category?.trim()) {
     productsQuery = productsQuery.eq('category', options.category.trim());
   }
+  if (options.ids) {
+    if (options.ids.length === 0) return { data: [], total: 0 };
+    productsQuery = productsQuery.in('id', options.ids);
+  }
 
   const productsResult = await productsQuery;
   const rows: Record<string, unknown>[] = (productsResult as { data: Record<string, unknown>[] | null }).data ?? [];
@@ -174,111 +407,44 @@ export async function getWarehouseProducts(
   }
 
   const productIds = rows.map((r) => String(r.id ?? ''));
-  const productIdSet = new Set(productIds);
   if (productIds.length === 0) {
     return { data: [], total: count ?? 0 };
   }
 
-  // 2) Same warehouse_id: fetch warehouse_inventory (for one-size fallback) and warehouse_inventory_by_size (for quantity_by_size + total_quantity).
-  const [invRes, allSizeRows] = await Promise.all([
-    db
-      .from('warehouse_inventory')
-      .select('product_id, quantity', selectOpts())
-      .eq('warehouse_id', effectiveWarehouseId)
-      .in('product_id', productIds)
-      .limit(5000),
-    fetchAllSizeRows(db, effectiveWarehouseId, productIds),
-  ]);
-
-  const invData = (invRes as { data?: { product_id: string; quantity?: number }[] | null }).data ?? [];
-  const sizeData = allSizeRows;
-  const invMap: Record<string, number> = {};
-  for (const inv of invData) {
-    const pid = String(inv.product_id ?? '');
-    if (productIdSet.has(pid)) invMap[pid] = Number(inv.quantity ?? 0);
-  }
-
-  // quantity_by_size built from size rows only (same warehouse_id). Never use size_codes join or other-warehouse data.
-  const sizeMap: Record<string, Array<{ sizeCode: string; sizeLabel?: string; quantity: number }>> = {};
-  for (const r of sizeData) {
-    const pid = String(r.product_id ?? '');
-    if (!productIdSet.has(pid)) continue;
-    if (!sizeMap[pid]) sizeMap[pid] = [];
-    sizeMap[pid].push({
-      sizeCode: String(r.size_code),
-      sizeLabel: String(r.size_code),
-      quantity: Number(r.quantity ?? 0),
-    });
-  }
+  // 2) Variants of these products, then warehouse_inventory (for one-size fallback) and warehouse_inventory_by_size
+  // (for quantity_by_size + total_quantity) of products and variants at the same warehouse_id.
+  const variantRows = await fetchVariantRows(db, productIds, fetchOpts);
+  const stock = await fetchWarehouseStock(
+    db,
+    effectiveWarehouseId,
+    [...productIds, ...variantRows.map((r) => String(r.id ?? ''))],
+    fetchOpts
+  );
+  const variantsByParent = groupVariants(variantRows, stock, options.view);
 
   const data = rows.map((row) => {
     const rowId = String(row.id ?? '');
-    let sizes = (sizeMap[rowId] ?? []).sort((a, b) => a.sizeCode.localeCompare(b.sizeCode, undefined, { numeric: true }));
-    const hasSizeRows = sizes.length > 0;
-    const totalQuantity = hasSizeRows ? sizes.reduce((s, r) => s + r.quantity, 0) : (invMap[rowId] ?? 0);
-    const rawSizeKind = String(row.size_kind ?? 'na');
-    // When product has no per-size rows but has quantity in warehouse_inventory, return a synthetic "One size" row so sizes "come back" in inventory and user can add more when editing.
-    let sizeKind = rawSizeKind;
-    if (!hasSizeRows && totalQuantity > 0) {
-      sizes = [{ sizeCode: 'ONE_SIZE', sizeLabel: 'One size', quantity: totalQuantity }];
-      sizeKind = 'one_size';
-    }
+    const variants = variantsByParent.get(rowId) ?? [];
+    // Only return products that have inventory in this warehouse (inv or by_size for same warehouse_id), themselves
+    // or through a variant.
+    if (!hasStockRows(stock, rowId) && !variants.some((v) => hasStockRows(stock, v.id))) return null;
 
-    if (options.lowStock && totalQuantity > (Number(row.reorder_level ?? 0) || 3)) return null;
-    if (options.outOfStock && totalQuantity > 0) return null;
-
-    const rawImages = Array.isArray(row.images) ? (row.images as string[]) : [];
-    const images =
-      options.view === 'list'
-        ? (() => {
-            const urlFirst = rawImages
-              .filter((img): img is string => typeof img === 'string' && !img.startsWith('data:'))
-              .slice(0, 1);
-            if (urlFirst.length > 0) return urlFirst;
-            const firstBase64 = rawImages.find(
-              (img): img is string => typeof img === 'string' && img.startsWith('data:') && img.length <= 80_000
-            );
-            return firstBase64 ? [firstBase64] : [];
-          })()
-        : rawImages;
-
-    return {
-      id: rowId,
-      warehouseId: effectiveWarehouseId,
-      sku: String(row.sku ?? ''),
-      barcode: row.barcode ?? null,
-      name: String(row.name ?? ''),
-      description: row.description ?? null,
-      category: String(row.category ?? ''),
-      sizeKind,
-      sellingPrice: Number(row.selling_price ?? 0),
-      costPrice: Number(row.cost_price ?? 0),
-      reorderLevel: Number(row.reorder_level ?? 0),
-      quantity: totalQuantity,
-      quantityBySize: sizes,
-      location: row.location ?? null,
-      supplier: row.supplier ?? null,
-      tags: Array.isArray(row.tags) ? row.tags : [],
-      images,
-      color: row.color != null ? String(row.color).trim() || null : null,
-      version: Number(row.version ?? 0),
-      createdAt: String(row.created_at ?? ''),
-      updatedAt: String(row.updated_at ?? ''),
-    };
-  }).filter((p) => p !== null) as ListProduct[];
-
-  // Only return products that have inventory in this warehouse (inv or by_size for same warehouse_id).
-  const filtered = data.filter(
-    (p) => invMap[p.id] !== undefined || (sizeMap[p.id]?.length ?? 0) > 0
-  );
+    const product = toListProduct(row, effectiveWarehouseId, stock, variants, options.view);
+    if (options.lowStock && product.quantity > (product.reorderLevel || 3)) return null;
+    if (options.outOfStock && product.quantity > 0) return null;
+    return product;
+  }).filter((p): p is ListProduct => p !== null);
 
   return {
-    data: filtered,
-    total: count ?? filtered.length,
+    data,
+    total: count ?? data.length,
   };
 }
 
-/** Get one product by id and warehouse (for GET ?id=). Works when warehouse_products has no warehouse_id. */
+/**
+ * Get one product by id and warehouse (for GET ?id=). Works when warehouse_products has no warehouse_id.
+ * A product comes with its variants; a variant id returns the variant alone (parentId set).
+ */
 export async function getProductById(
   warehouseId: string,
   productId: string
@@ -293,59 +459,11 @@ export async function getProductById(
   if (!row) return null;
 
   const r = row as Record<string, unknown>;
-
-  let quantity = 0;
-  const { data: invRow } = await db
-    .from('warehouse_inventory')
-    .select('quantity')
-    .eq('warehouse_id', warehouseId)
-    .eq('product_id', productId)
-    .maybeSingle();
+  const variantRows = r.parent_id == null ? await fetchVariantRows(db, [productId]) : [];
   // Phase 4: query sizes without size_codes join so we always get quantities (no drop when join fails).
-  const { data: sizeData } = await db
-    .from('warehouse_inventory_by_size')
-    .select('size_code, quantity')
-    .eq('warehouse_id', warehouseId)
-    .eq('product_id', productId);
-  const sizeRows = (sizeData ?? []) as Array<{ size_code: string; quantity: number }>;
-  let sizes = sizeRows.map((s) => ({
-    sizeCode: String(s.size_code),
-    sizeLabel: String(s.size_code),
-    quantity: Number(s.quantity ?? 0),
-  })).sort((a, b) => a.sizeCode.localeCompare(b.sizeCode));
-  const hasSizeRows = sizes.length > 0;
-  quantity = hasSizeRows ? sizes.reduce((s, x) => s + x.quantity, 0) : Number((invRow as { quantity?: number } | null)?.quantity ?? 0);
-  const rawSizeKind = String(r.size_kind ?? 'na');
-  let sizeKind = rawSizeKind;
-  // When no per-size rows but we have quantity, return a synthetic "One size" row so sizes show again in inventory and user can add more when editing.
-  if (!hasSizeRows && quantity > 0) {
-    sizes = [{ sizeCode: 'ONE_SIZE', sizeLabel: 'One size', quantity }];
-    sizeKind = 'one_size';
-  }
-
-  return {
-    id: String(r.id ?? ''),
-    warehouseId,
-    sku: String(r.sku ?? ''),
-    barcode: r.barcode != null ? String(r.barcode) : null,
-    name: String(r.name ?? ''),
-    description: r.description != null ? String(r.description) : null,
-    category: String(r.category ?? ''),
-    sizeKind,
-    sellingPrice: Number(r.selling_price ?? 0),
-    costPrice: Number(r.cost_price ?? 0),
-    reorderLevel: Number(r.reorder_level ?? 0),
-    quantity,
-    quantityBySize: sizes,
-    location: r.location ?? null,
-    supplier: r.supplier ?? null,
-    tags: Array.isArray(r.tags) ? r.tags : [],
-    images: Array.isArray(r.images) ? (r.images as string[]) : [],
-    color: r.color != null ? String(r.color).trim() || null : null,
-    version: Number(r.version ?? 0),
-    createdAt: String(r.created_at ?? ''),
-    updatedAt: String(r.updated_at ?? ''),
-  };
+  const stock = await fetchWarehouseStock(db, warehouseId, [productId, ...variantRows.map((v) => String(v.id ?? ''))]);
+  const variants = groupVariants(variantRows, stock).get(productId) ?? [];
+  return toListProduct(r, warehouseId, stock, variants);
 }
 
 /**
@@ -382,6 +500,7 @@ export async function createWarehouseProduct(body: Record<string, unknown>): Pro
   const now = new Date().toISOString();
 
   const colorVal = body.color != null ? String(body.color).trim() || null : null;
+  const taxClassId = typeof body.taxClassId === 'string' && body.taxClassId.trim() ? body.taxClassId.trim() : null;
   const productRow = {
     id,
     sku,
@@ -398,6 +517,7 @@ export async function createWarehouseProduct(body: Record<string, unknown>): Pro
     tags: Array.isArray(body.tags) ? body.tags : [],
     images: Array.isArray(body.images) ? body.images : [],
     color: colorVal,
+    tax_class_id: taxClassId,
     version: 1,
     created_at: now,
     updated_at: now,
@@ -477,22 +597,27 @@ export async function createWarehouseProduct(body: Record<string, unknown>): Pro
     tags: productRow.tags,
     images: productRow.images,
     color: colorVal,
+    taxClassId,
     version: productRow.version,
     createdAt: now,
     updatedAt: now,
+    parentId: null,
+    variants: [],
   };
 }
 
 /**
- * Update product: patch warehouse_products, then replace warehouse_inventory and warehouse_inventory_by_size for the given warehouse.
+ * Update product: patch warehouse_products, then write warehouse_inventory and warehouse_inventory_by_size for the given warehouse.
  * Body may use camelCase; only provided fields are updated. Returns updated product in ListProduct shape.
  */
 export async function updateWarehouseProduct(
   productId: string,
   warehouseId: string,
-  body: PutProductBody
+  body: PutProductBody,
+  options: { actor?: string } = {}
 ): Promise<ListProduct | null> {
   const db = getDb();
+  const ledger = { referenceType: 'product_edit', referenceId: productId, actor: options.actor };
 
   const existing = await getProductById(warehouseId, productId);
   if (!existing) return null;
@@ -516,6 +641,7 @@ export async function updateWarehouseProduct(
   if (body.tags !== undefined) updates.tags = Array.isArray(body.tags) ? body.tags : [];
   if (body.images !== undefined) updates.images = Array.isArray(body.images) ? body.images : [];
   if (body.color !== undefined) updates.color = body.color != null ? String(body.color).trim() || null : null;
+  if (body.taxClassId !== undefined) updates.tax_class_id = body.taxClassId ? String(body.taxClassId).trim() : null;
 
   updates.version = (existing.version ?? 0) + 1;
 
@@ -524,8 +650,11 @@ export async function updateWarehouseProduct(
     .update(updates)
     .eq('id', productId);
   if (updateError) {
-    throw new Error(normalizeDbConstraintError(updateError.message, 'update'));
+    const code = (updateError as { code?: string }).code;
+    throw new Error(normalizeDbConstraintError(updateError.message, 'update', code));
   }
+  // Stock of a product with colour variants is its variants'; it is edited per variant.
+  if (existing.variants.length > 0) return getProductById(warehouseId, productId);
 
   const sizeKind = String(body.sizeKind ?? existing.sizeKind ?? 'na').toLowerCase();
   const bodySizes = Array.isArray(body.quantityBySize) ? (body.quantityBySize as Array<{ sizeCode: string; quantity: number }>) : null;
@@ -556,12 +685,15 @@ export async function updateWarehouseProduct(
       (row: { size_code: string }) => !payloadCodes.has(String(row.size_code).toUpperCase())
     );
     for (const row of toRemove) {
-      await db
-        .from('warehouse_inventory_by_size')
-        .delete()
-        .eq('warehouse_id', warehouseId)
-        .eq('product_id', productId)
-        .eq('size_code', row.size_code);
+      await withStockLedgerContext(
+        db
+          .from('warehouse_inventory_by_size')
+          .delete()
+          .eq('warehouse_id', warehouseId)
+          .eq('product_id', productId)
+          .eq('size_code', row.size_code),
+        ledger
+      );
     }
     const sizeRows = quantityBySize
       .filter((r) => String(r.sizeCode ?? '').trim() || true)
@@ -584,30 +716,52 @@ export async function updateWarehouseProduct(
           `Invalid size code(s): ${unique.join(', ')}. Use a size from the catalog (e.g. US9, EU42, M, 6Y).`
         );
       }
-      const { error: upsertSizeError } = await db
-        .from('warehouse_inventory_by_size')
-        .upsert(sizeRows, { onConflict: 'warehouse_id,product_id,size_code', ignoreDuplicates: false });
+      const { error: upsertSizeError } = await withStockLedgerContext(
+        db
+          .from('warehouse_inventory_by_size')
+          .upsert(sizeRows, { onConflict: 'warehouse_id,product_id,size_code', ignoreDuplicates: false }),
+        ledger
+      );
       if (upsertSizeError) {
         throw new Error(`Failed to update inventory by size: ${upsertSizeError.message}`);
       }
     }
   } else {
-    await db.from('warehouse_inventory_by_size').delete().eq('product_id', productId).eq('warehouse_id', warehouseId);
+    const { data: currentSizes } = await db
+      .from('warehouse_inventory_by_size')
+      .select('size_code')
+      .eq('warehouse_id', warehouseId)
+      .eq('product_id', productId);
+    const codes = (currentSizes ?? []).map((r: { size_code: string }) => r.size_code);
+    if (totalQty > 0 && codes.length === 1 && /^(NA|OS)$/i.test(codes[0])) {
+      // Set the backfilled NA/OS row in place; deleting it would have the backfill trigger re-create it.
+      await withStockLedgerContext(
+        db
+          .from('warehouse_inventory_by_size')
+          .update({ quantity: totalQty, updated_at: now })
+          .eq('warehouse_id', warehouseId)
+          .eq('product_id', productId)
+          .eq('size_code', codes[0]),
+        ledger
+      );
+    } else {
+      await withStockLedgerContext(
+        db.from('warehouse_inventory_by_size').delete().eq('product_id', productId).eq('warehouse_id', warehouseId),
+        ledger
+      );
+    }
   }
 
-  const { error: delInvErr } = await db
-    .from('warehouse_inventory')
-    .delete()
-    .eq('product_id', productId)
-    .eq('warehouse_id', warehouseId);
-  if (delInvErr) {
-    throw new Error(`Failed to clear warehouse inventory for update: ${delInvErr.message}`);
-  }
-  const { error: insertInvErr } = await db.from('warehouse_inventory').insert({
-    product_id: productId,
-    warehouse_id: warehouseId,
-    quantity: totalQty,
-  });
+  // Upsert rather than delete + insert so the stock ledger sees one change, not a drop to zero and back.
+  const { error: insertInvErr } = await withStockLedgerContext(
+    db
+      .from('warehouse_inventory')
+      .upsert(
+        { product_id: productId, warehouse_id: warehouseId, quantity: totalQty },
+        { onConflict: 'warehouse_id,product_id' }
+      ),
+    ledger
+  );
   if (insertInvErr) {
     throw new Error(`Failed to update warehouse inventory: ${insertInvErr.message}`);
   }
@@ -616,16 +770,20 @@ export async function updateWarehouseProduct(
 }
 
 /**
- * Delete product: remove all inventory and by-size rows for this product, then delete the product row.
- * Product is removed from every warehouse so it does not reappear on list poll.
+ * Delete product: remove all inventory and by-size rows for this product and its colour variants, then the variants
+ * and the product row. Product is removed from every warehouse so it does not reappear on list poll.
  */
 export async function deleteWarehouseProduct(productId: string, _warehouseId: string): Promise<void> {
   const db = getDb();
 
+  const { data: variantRows } = await db.from('warehouse_products').select('id').eq('parent_id', productId);
+  const variantIds = (variantRows ?? []).map((r: { id: string }) => r.id);
+  const ids = [productId, ...variantIds];
+
   const { error: delSizeErr } = await db
     .from('warehouse_inventory_by_size')
     .delete()
-    .eq('product_id', productId);
+    .in('product_id', ids);
   if (delSizeErr) {
     throw new Error(`Failed to delete inventory by size: ${delSizeErr.message}`);
   }
@@ -633,11 +791,18 @@ export async function deleteWarehouseProduct(productId: string, _warehouseId: st
   const { error: delInvErr } = await db
     .from('warehouse_inventory')
     .delete()
-    .eq('product_id', productId);
+    .in('product_id', ids);
   if (delInvErr) {
     throw new Error(`Failed to delete warehouse inventory: ${delInvErr.message}`);
   }
 
+  if (variantIds.length > 0) {
+    const { error: delVariantsErr } = await db.from('warehouse_products').delete().in('id', variantIds);
+    if (delVariantsErr) {
+      throw new Error(`Failed to delete product variants: ${delVariantsErr.message}`);
+    }
+  }
+
   const { error: delProdErr } = await db.from('warehouse_products').delete().eq('id', productId);
   if (delProdErr) {
     throw new Error(`Failed to delete product: ${delProdErr.message}`);
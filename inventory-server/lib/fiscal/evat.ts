@@ -0,0 +1,162 @@
+/**
+ * GRA e-VAT fiscalisation. A completed sale is turned into an e-VAT invoice (buildEvatInvoice) and sent to a
+ * fiscal client, which returns the signature and the QR code text printed on the receipt. Clients: graEvat.ts
+ * (the GRA e-VAT HTTP API, or scripts/gra-evat-stub.mjs locally); provider.ts picks one from FISCAL_PROVIDER.
+ * lib/data/fiscalInvoices.ts stores the outcome and retries failed submissions.
+ */
+
+import type { TaxBreakdownItem } from '@/lib/data/taxClasses';
+
+/** GRA's TIN for a customer who did not give one (walk-in). */
+export const WALK_IN_TIN = 'C0000000000';
+
+/** One item of an e-VAT invoice. Prices exclude tax; levies A–E are NHIL, GETFund, COVID-19, CST and tourism. */
+export interface EvatInvoiceItem {
+  itemCode: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discountAmount: number;
+  levyAmountA: number;
+  levyAmountB: number;
+  levyAmountC: number;
+  levyAmountD: number;
+  levyAmountE: number;
+  vatAmount: number;
+}
+
+/** e-VAT invoice as sent to the API. Always EXCLUSIVE: sale discounts are already out of the unit prices. */
+export interface EvatInvoice {
+  currency: 'GHS';
+  exchangeRate: 1;
+  flag: 'INVOICE';
+  calculationType: 'EXCLUSIVE';
+  saleType: 'NORMAL';
+  invoiceNumber: string;
+  transactionDate: string;
+  userName: string;
+  businessPartnerName: string;
+  businessPartnerTin: string;
+  discountType: 'GENERAL';
+  discountAmount: number;
+  totalLevy: number;
+  totalVat: number;
+  totalAmount: number;
+  items: EvatInvoiceItem[];
+}
+
+/** What buildEvatInvoice needs from sales / sale_lines. */
+export interface FiscalSale {
+  receiptId: string;
+  createdAt: string;
+  soldByEmail: string | null;
+  customerName: string | null;
+  lines: Array<{
+    sku: string;
+    name: string;
+    qty: number;
+    lineTotal: number;
+    /** null for lines recorded before tax classes. */
+    taxableAmount: number | null;
+    taxBreakdown: TaxBreakdownItem[];
+  }>;
+}
+
+/** Signed invoice as returned by the API. */
+export interface FiscalSignature {
+  /** Signing device (SDC) id. */
+  sdcId: string | null;
+  /** The device's receipt counter for this invoice. */
+  receiptNumber: string | null;
+  signature: string;
+  /** Verification text to print as a QR code. */
+  qrCode: string;
+  signedAt: string;
+  raw: unknown;
+}
+
+export interface FiscalClient {
+  /** Stored in fiscal_invoices.provider. */
+  readonly name: string;
+  submitInvoice(invoice: EvatInvoice): Promise<FiscalSignature>;
+}
+
+/**
+ * Submission failed. retryable: the API was down, timed out or overloaded, so the same invoice is sent again
+ * later; otherwise the API rejected it and a manager has to look at it.
+ */
+export class FiscalClientError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'FiscalClientError';
+  }
+}
+
+const LEVY_FIELDS: Record<string, keyof EvatInvoiceItem> = {
+  NHIL: 'levyAmountA',
+  GETFUND: 'levyAmountB',
+  COVID: 'levyAmountC',
+  CST: 'levyAmountD',
+  TOURISM: 'levyAmountE',
+  VAT: 'vatAmount',
+};
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * e-VAT invoice for a sale. Each line is sent at its taxable value per unit (after promotions and the sale
+ * discount) with its levies and VAT as recorded by the sale_lines trigger. Tax components GRA has no field for
+ * are left out.
+ */
+export function buildEvatInvoice(sale: FiscalSale): EvatInvoice {
+  const items = sale.lines.map((l): EvatInvoiceItem => {
+    const qty = Math.max(1, l.qty);
+    const item: EvatInvoiceItem = {
+      itemCode: l.sku || l.name,
+      description: l.name,
+      quantity: qty,
+      unitPrice: Math.round(((l.taxableAmount ?? l.lineTotal) / qty) * 10_000) / 10_000,
+      discountAmount: 0,
+      levyAmountA: 0,
+      levyAmountB: 0,
+      levyAmountC: 0,
+      levyAmountD: 0,
+      levyAmountE: 0,
+      vatAmount: 0,
+    };
+    for (const b of l.taxBreakdown) {
+      const field = LEVY_FIELDS[b.code.toUpperCase()];
+      if (field) (item[field] as number) = round2((item[field] as number) + b.amount);
+    }
+    return item;
+  });
+  const totalLevy = round2(
+    items.reduce((s, i) => s + i.levyAmountA + i.levyAmountB + i.levyAmountC + i.levyAmountD + i.levyAmountE, 0)
+  );
+  const totalVat = round2(items.reduce((s, i) => s + i.vatAmount, 0));
+  const taxable = sale.lines.reduce((s, l) => s + (l.taxableAmount ?? l.lineTotal), 0);
+  return {
+    currency: 'GHS',
+    exchangeRate: 1,
+    flag: 'INVOICE',
+    calculationType: 'EXCLUSIVE',
+    saleType: 'NORMAL',
+    invoiceNumber: sale.receiptId,
+    transactionDate: sale.createdAt,
+    userName: sale.soldByEmail ?? 'pos',
+    businessPartnerName: sale.customerName?.trim() || 'Cash customer',
+    businessPartnerTin: WALK_IN_TIN,
+    discountType: 'GENERAL',
+    discountAmount: 0,
+    totalLevy,
+    totalVat,
+    totalAmount: round2(taxable + totalLevy + totalVat),
+    items,
+  };
+}
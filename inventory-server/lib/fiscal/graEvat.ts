@@ -0,0 +1,80 @@
+/**
+ * GRA e-VAT API client. POST {GRA_EVAT_BASE_URL}/invoice with the taxpayer's security_key header; the answer is
+ * { response: { status: 'SUCCESS', message: { ysdcid, ysdcrecnum, ysdcregsig, ysdctime, ... }, qr_code } }.
+ * Timeouts, network errors, 429 and 5xx are retryable; other errors mean the invoice was rejected.
+ * Point GRA_EVAT_BASE_URL at scripts/gra-evat-stub.mjs (npm run stub:evat) to work without the real API.
+ *
+ * Env: GRA_EVAT_BASE_URL, GRA_EVAT_SECURITY_KEY, GRA_EVAT_TIMEOUT_MS (default 5000; the sale waits for it).
+ */
+
+import { FiscalClientError, type EvatInvoice, type FiscalClient, type FiscalSignature } from '@/lib/fiscal/evat';
+
+const DEFAULT_TIMEOUT_MS = 5_000;
+
+function readConfig(): { baseUrl: string; securityKey: string; timeoutMs: number } {
+  const baseUrl = process.env.GRA_EVAT_BASE_URL?.trim() ?? '';
+  const securityKey = process.env.GRA_EVAT_SECURITY_KEY?.trim() ?? '';
+  if (!baseUrl || !securityKey) {
+    throw new FiscalClientError('GRA e-VAT is not configured (GRA_EVAT_BASE_URL, GRA_EVAT_SECURITY_KEY).', true);
+  }
+  const timeoutMs = Number(process.env.GRA_EVAT_TIMEOUT_MS);
+  return {
+    baseUrl: baseUrl.replace(/\/$/, ''),
+    securityKey,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS,
+  };
+}
+
+function errorText(body: unknown, fallback: string): string {
+  const r = (body as { response?: { message?: unknown } } | null)?.response;
+  if (typeof r?.message === 'string' && r.message) return r.message;
+  const m = (body as { message?: unknown } | null)?.message;
+  return typeof m === 'string' && m ? m : fallback;
+}
+
+/** Signing answer → FiscalSignature; null when it is not a success or lacks the signature / QR code. */
+export function parseEvatResponse(body: unknown): FiscalSignature | null {
+  const r = (body as { response?: Record<string, unknown> } | null)?.response;
+  if (!r || String(r.status ?? '').toUpperCase() !== 'SUCCESS') return null;
+  const m = (r.message ?? {}) as Record<string, unknown>;
+  const signature = typeof m.ysdcregsig === 'string' ? m.ysdcregsig : '';
+  const qrCode = typeof r.qr_code === 'string' ? r.qr_code : '';
+  if (!signature || !qrCode) return null;
+  return {
+    sdcId: m.ysdcid != null ? String(m.ysdcid) : null,
+    receiptNumber: m.ysdcrecnum != null ? String(m.ysdcrecnum) : null,
+    signature,
+    qrCode,
+    signedAt: typeof m.ysdctime === 'string' && !Number.isNaN(Date.parse(m.ysdctime)) ? m.ysdctime : new Date().toISOString(),
+    raw: body,
+  };
+}
+
+export function createGraEvatClient(): FiscalClient {
+  return {
+    name: 'gra',
+
+    async submitInvoice(invoice: EvatInvoice): Promise<FiscalSignature> {
+      const config = readConfig();
+      let res: Response;
+      try {
+        res = await fetch(`${config.baseUrl}/invoice`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', security_key: config.securityKey },
+          body: JSON.stringify(invoice),
+          signal: AbortSignal.timeout(config.timeoutMs),
+        });
+      } catch (e) {
+        throw new FiscalClientError(`e-VAT request failed: ${e instanceof Error ? e.message : String(e)}`, true);
+      }
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        const retryable = res.status === 429 || res.status >= 500;
+        throw new FiscalClientError(errorText(body, `e-VAT API answered ${res.status}.`), retryable, res.status);
+      }
+      const signed = parseEvatResponse(body);
+      if (!signed) throw new FiscalClientError(errorText(body, 'e-VAT API did not sign the invoice.'), false, res.status);
+      return signed;
+    },
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Picks the fiscal client from FISCAL_PROVIDER: 'gra' (GRA e-VAT API, or the local stub via GRA_EVAT_BASE_URL).
+ * Unset = sales are not fiscalised, for businesses that are not VAT-registered.
+ */
+
+import { createGraEvatClient } from '@/lib/fiscal/graEvat';
+import type { FiscalClient } from '@/lib/fiscal/evat';
+
+let cached: { key: string; client: FiscalClient | null } | null = null;
+
+/** The configured client, or null when fiscalisation is off. */
+export function getFiscalClient(): FiscalClient | null {
+  const key = (process.env.FISCAL_PROVIDER ?? '').trim().toLowerCase();
+  if (cached && cached.key === key) return cached.client;
+  const client = key === 'gra' ? createGraEvatClient() : null;
+  cached = { key, client };
+  return client;
+}
@@ -1,52 +1,95 @@
 /**
- * In-memory idempotency store for POST /api/sales.
- * Deduplicates retries with the same Idempotency-Key within TTL (same or cross-request within instance).
- * Not distributed: duplicate requests to different instances may both succeed. For full deduplication use Redis/DB.
+ * Idempotency for POST /api/sales.
+ * Keys and stored responses live in Postgres (sale_idempotency_keys); record_sale checks and writes
+ * them in the same transaction as the sale, so duplicates are caught across serverless instances.
+ * Stored responses expire; the key is also kept on the sale itself (sales.idempotency_key, unique) so a late
+ * replay from an offline queue is answered from the sale instead of recording it again.
+ * This module validates the header, fingerprints the request body and rebuilds such late replays.
  */
-const TTL_MS = 5 * 60 * 1000; // 5 minutes
-const MAX_ENTRIES = 500;
+import { createHash } from 'crypto';
+import { getSupabase } from '@/lib/supabase';
 
-interface Entry {
-  body: Record<string, unknown>;
-  expiresAt: number;
-}
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 200;
+
+/** Error raised by record_sale when a key is reused with a different request body. */
+export const IDEMPOTENCY_CONFLICT = 'IDEMPOTENCY_KEY_CONFLICT';
 
-const store = new Map<string, Entry>();
+/** Unique index on sales.idempotency_key; record_sale fails on it when a key's stored response was purged. */
+export const SALE_IDEMPOTENCY_INDEX = 'idx_sales_idempotency_key';
 
-function prune(): void {
-  const now = Date.now();
-  for (const [k, v] of store.entries()) {
-    if (v.expiresAt <= now) store.delete(k);
+/**
+ * Read Idempotency-Key from request headers. Returns null when absent; throws on an over-long key
+ * (keys are stored as primary keys, so reject junk early).
+ */
+export function readIdempotencyKey(headers: Headers): string | null {
+  const key = headers.get('idempotency-key')?.trim();
+  if (!key) return null;
+  if (key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+    throw new Error(`Idempotency-Key must be at most ${IDEMPOTENCY_KEY_MAX_LENGTH} characters.`);
   }
-  while (store.size > MAX_ENTRIES) {
-    const first = store.keys().next().value;
-    if (first != null) store.delete(first);
+  return key;
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((acc, k) => {
+        const v = (value as Record<string, unknown>)[k];
+        if (v !== undefined) acc[k] = canonicalize(v);
+        return acc;
+      }, {});
   }
+  return value;
 }
 
 /**
- * Return cached response body if key was used recently; otherwise null.
+ * SHA-256 of the body with keys sorted. `ignoreKeys` are dropped at the top level — e.g. the offline
+ * queue's `offline` metadata, which is added on replay of a request first sent online.
  */
-export function getCachedResponse(idempotencyKey: string): Record<string, unknown> | null {
-  const entry = store.get(idempotencyKey);
-  if (!entry) return null;
-  if (entry.expiresAt <= Date.now()) {
-    store.delete(idempotencyKey);
-    return null;
+export function requestFingerprint(body: unknown, ignoreKeys: string[] = []): string {
+  let subject = body;
+  if (body && typeof body === 'object' && !Array.isArray(body) && ignoreKeys.length > 0) {
+    subject = Object.fromEntries(
+      Object.entries(body as Record<string, unknown>).filter(([k]) => !ignoreKeys.includes(k))
+    );
   }
-  return entry.body;
+  return createHash('sha256').update(JSON.stringify(canonicalize(subject))).digest('hex');
 }
 
 /**
- * Store response for this idempotency key. Call after successfully recording the sale.
+ * The replay response for a key whose stored response has been purged, from the sale recorded under it.
+ * Null when no sale has the key or it was recorded for a different body (a conflict).
  */
-export function setCachedResponse(
-  idempotencyKey: string,
-  body: Record<string, unknown>
-): void {
-  prune();
-  store.set(idempotencyKey, {
-    body,
-    expiresAt: Date.now() + TTL_MS,
-  });
+export async function getPurgedSaleReplay(
+  key: string,
+  requestHash: string | null
+): Promise<Record<string, unknown> | null> {
+  const db = getSupabase();
+  const { data, error } = await db
+    .from('sales')
+    .select('id, receipt_id, total, item_count, status, created_at, idempotency_request_hash')
+    .eq('idempotency_key', key)
+    .maybeSingle();
+  if (error) throw error;
+  const row = data as {
+    id: string;
+    receipt_id: string;
+    total: number | string;
+    item_count: number | null;
+    status: string;
+    created_at: string;
+    idempotency_request_hash: string | null;
+  } | null;
+  if (!row || row.idempotency_request_hash !== requestHash) return null;
+  return {
+    id: row.id,
+    receiptId: row.receipt_id,
+    total: Number(row.total),
+    itemCount: row.item_count,
+    status: row.status,
+    createdAt: row.created_at,
+    idempotentReplay: true,
+  };
 }
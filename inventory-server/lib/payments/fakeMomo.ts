@@ -0,0 +1,42 @@
+/**
+ * Fake mobile money provider for local development and tests (MOMO_PROVIDER=fake). Nothing leaves the server.
+ * The outcome is picked by the phone number's last two digits and encoded in the reference, so it works across
+ * serverless instances without shared state:
+ *   ...99 → declined (failed), ...98 → never answers (stays pending), anything else → paid.
+ * A payment stays pending for FAKE_MOMO_DELAY_MS (default 3000) after the request, like a customer typing a PIN.
+ */
+
+import { randomUUID } from 'crypto';
+import type { CollectionRequest, CollectionStatus, MobileMoneyProvider } from '@/lib/payments/mobileMoney';
+
+type Outcome = 'paid' | 'declined' | 'silent';
+
+function outcomeFor(phone: string): Outcome {
+  if (phone.endsWith('99')) return 'declined';
+  if (phone.endsWith('98')) return 'silent';
+  return 'paid';
+}
+
+function delayMs(): number {
+  const n = Number(process.env.FAKE_MOMO_DELAY_MS);
+  return Number.isFinite(n) && n >= 0 ? n : 3000;
+}
+
+export function createFakeMomoProvider(): MobileMoneyProvider {
+  return {
+    name: 'fake',
+    currency: 'GHS',
+
+    async requestToPay(req: CollectionRequest) {
+      return { providerRef: `fake.${outcomeFor(req.phone)}.${Date.now()}.${randomUUID()}` };
+    },
+
+    async getStatus(providerRef: string): Promise<CollectionStatus> {
+      const [prefix, outcome, requestedAt] = providerRef.split('.');
+      if (prefix !== 'fake') return { status: 'failed', reason: 'Unknown fake payment reference.' };
+      if (outcome === 'silent' || Date.now() - Number(requestedAt) < delayMs()) return { status: 'pending' };
+      if (outcome === 'declined') return { status: 'failed', reason: 'Payer declined the request.' };
+      return { status: 'successful', financialTransactionId: `FAKE-${requestedAt}` };
+    },
+  };
+}
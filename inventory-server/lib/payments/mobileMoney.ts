@@ -0,0 +1,59 @@
+/**
+ * Mobile money provider interface. A provider sends a collection prompt ("request to pay") to the customer's
+ * phone and reports its status; the routes in app/api/payments/mobile-money poll it or take its webhook.
+ * Adapters: mtnMomo.ts (MTN MoMo collection API) and fakeMomo.ts (local development and tests); provider.ts
+ * picks one from MOMO_PROVIDER.
+ */
+
+export type MobileMoneyStatus = 'pending' | 'successful' | 'failed';
+
+export interface CollectionRequest {
+  /** Our mobile_money_payments id; providers echo it back (MTN externalId) so webhooks can be matched. */
+  externalId: string;
+  /** MSISDN in international form without '+', e.g. 233241234567. */
+  phone: string;
+  amount: number;
+  currency: string;
+  payerMessage?: string;
+}
+
+export interface CollectionStatus {
+  status: MobileMoneyStatus;
+  /** Provider's transaction id once the payment went through. */
+  financialTransactionId?: string | null;
+  /** Why it failed, in the provider's words. */
+  reason?: string | null;
+}
+
+export interface MobileMoneyProvider {
+  /** Stored in mobile_money_payments.provider and the sale's payment leg. */
+  readonly name: string;
+  readonly currency: string;
+  /** Sends the prompt; returns the provider's reference for status checks. */
+  requestToPay(req: CollectionRequest): Promise<{ providerRef: string }>;
+  getStatus(providerRef: string): Promise<CollectionStatus>;
+}
+
+/** Provider call failed (bad credentials, rejected request, provider down). status is the provider's HTTP status. */
+export class MobileMoneyProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'MobileMoneyProviderError';
+  }
+}
+
+/**
+ * Ghana mobile number to MSISDN: 0241234567, +233 24 123 4567 and 233241234567 all give 233241234567.
+ * Returns null when it is not a 9-digit subscriber number after the country code.
+ */
+export function normalizeMsisdn(phone: string, countryCode = '233'): string | null {
+  const digits = phone.replace(/\D/g, '');
+  let subscriber: string;
+  if (digits.startsWith(countryCode)) subscriber = digits.slice(countryCode.length);
+  else if (digits.startsWith('0')) subscriber = digits.slice(1);
+  else subscriber = digits;
+  return /^\d{9}$/.test(subscriber) ? `${countryCode}${subscriber}` : null;
+}
@@ -0,0 +1,152 @@
+/**
+ * MTN MoMo collection adapter (momodeveloper.mtn.com "Collection" product).
+ * Access token: POST /collection/token/ with Basic apiUser:apiKey. Prompt: POST /collection/v1_0/requesttopay
+ * with our X-Reference-Id (the provider reference), answered 202. Status: GET /collection/v1_0/requesttopay/{ref}.
+ * MTN calls X-Callback-Url when the customer approves or declines; the webhook route re-reads the status here
+ * rather than trusting the callback body.
+ *
+ * Env: MTN_MOMO_SUBSCRIPTION_KEY, MTN_MOMO_API_USER, MTN_MOMO_API_KEY, MTN_MOMO_BASE_URL (default sandbox),
+ * MTN_MOMO_TARGET_ENV (default sandbox), MTN_MOMO_CURRENCY (default GHS; the sandbox only accepts EUR),
+ * MOMO_CALLBACK_URL (optional).
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  MobileMoneyProviderError,
+  type CollectionRequest,
+  type CollectionStatus,
+  type MobileMoneyProvider,
+} from '@/lib/payments/mobileMoney';
+
+const DEFAULT_BASE_URL = 'https://sandbox.momodeveloper.mtn.com';
+const REQUEST_TIMEOUT_MS = 10_000;
+
+interface MtnConfig {
+  baseUrl: string;
+  subscriptionKey: string;
+  apiUser: string;
+  apiKey: string;
+  targetEnvironment: string;
+  currency: string;
+  callbackUrl: string | null;
+}
+
+function readConfig(): MtnConfig {
+  const subscriptionKey = process.env.MTN_MOMO_SUBSCRIPTION_KEY?.trim() ?? '';
+  const apiUser = process.env.MTN_MOMO_API_USER?.trim() ?? '';
+  const apiKey = process.env.MTN_MOMO_API_KEY?.trim() ?? '';
+  if (!subscriptionKey || !apiUser || !apiKey) {
+    throw new MobileMoneyProviderError('MTN MoMo is not configured (MTN_MOMO_SUBSCRIPTION_KEY, MTN_MOMO_API_USER, MTN_MOMO_API_KEY).');
+  }
+  return {
+    baseUrl: (process.env.MTN_MOMO_BASE_URL?.trim() || DEFAULT_BASE_URL).replace(/\/$/, ''),
+    subscriptionKey,
+    apiUser,
+    apiKey,
+    targetEnvironment: process.env.MTN_MOMO_TARGET_ENV?.trim() || 'sandbox',
+    currency: process.env.MTN_MOMO_CURRENCY?.trim() || 'GHS',
+    callbackUrl: process.env.MOMO_CALLBACK_URL?.trim() || null,
+  };
+}
+
+/** MTN status → ours. PENDING stays pending; SUCCESSFUL is paid; FAILED, REJECTED, TIMEOUT etc. are failures. */
+export function mapMtnStatus(status: unknown): CollectionStatus['status'] {
+  const s = String(status ?? '').toUpperCase();
+  if (s === 'SUCCESSFUL') return 'successful';
+  if (s === 'PENDING' || s === 'CREATED' || s === '') return 'pending';
+  return 'failed';
+}
+
+function reasonText(reason: unknown): string | null {
+  if (reason == null) return null;
+  if (typeof reason === 'string') return reason;
+  const r = reason as { message?: string; code?: string };
+  return r.message ?? r.code ?? null;
+}
+
+export function createMtnMomoProvider(): MobileMoneyProvider {
+  let token: { value: string; expiresAt: number } | null = null;
+
+  async function call(path: string, init: RequestInit): Promise<Response> {
+    const config = readConfig();
+    try {
+      return await fetch(`${config.baseUrl}${path}`, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    } catch (e) {
+      throw new MobileMoneyProviderError(`MTN MoMo request failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  async function accessToken(): Promise<string> {
+    if (token && token.expiresAt > Date.now() + 60_000) return token.value;
+    const config = readConfig();
+    const res = await call('/collection/token/', {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${config.apiUser}:${config.apiKey}`).toString('base64')}`,
+        'Ocp-Apim-Subscription-Key': config.subscriptionKey,
+      },
+    });
+    if (!res.ok) throw new MobileMoneyProviderError('MTN MoMo rejected the API credentials.', res.status);
+    const body = (await res.json()) as { access_token?: string; expires_in?: number };
+    if (!body.access_token) throw new MobileMoneyProviderError('MTN MoMo returned no access token.', res.status);
+    token = { value: body.access_token, expiresAt: Date.now() + (Number(body.expires_in) || 3600) * 1000 };
+    return token.value;
+  }
+
+  return {
+    name: 'mtn',
+    get currency() {
+      return process.env.MTN_MOMO_CURRENCY?.trim() || 'GHS';
+    },
+
+    async requestToPay(req: CollectionRequest) {
+      const config = readConfig();
+      const referenceId = randomUUID();
+      const headers: Record<string, string> = {
+        Authorization: `Bearer ${await accessToken()}`,
+        'X-Reference-Id': referenceId,
+        'X-Target-Environment': config.targetEnvironment,
+        'Ocp-Apim-Subscription-Key': config.subscriptionKey,
+        'Content-Type': 'application/json',
+      };
+      if (config.callbackUrl) headers['X-Callback-Url'] = config.callbackUrl;
+      const res = await call('/collection/v1_0/requesttopay', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          amount: req.amount.toFixed(2),
+          currency: req.currency,
+          externalId: req.externalId,
+          payer: { partyIdType: 'MSISDN', partyId: req.phone },
+          payerMessage: req.payerMessage ?? 'Payment',
+          payeeNote: req.externalId,
+        }),
+      });
+      if (res.status !== 202) {
+        const text = await res.text().catch(() => '');
+        throw new MobileMoneyProviderError(`MTN MoMo refused the payment request${text ? `: ${text.slice(0, 200)}` : '.'}`, res.status);
+      }
+      return { providerRef: referenceId };
+    },
+
+    async getStatus(providerRef: string) {
+      const config = readConfig();
+      const res = await call(`/collection/v1_0/requesttopay/${encodeURIComponent(providerRef)}`, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${await accessToken()}`,
+          'X-Target-Environment': config.targetEnvironment,
+          'Ocp-Apim-Subscription-Key': config.subscriptionKey,
+        },
+      });
+      if (res.status === 404) return { status: 'failed', reason: 'Payment request not found at MTN MoMo.' };
+      if (!res.ok) throw new MobileMoneyProviderError('Could not read the payment status from MTN MoMo.', res.status);
+      const body = (await res.json()) as { status?: string; financialTransactionId?: string; reason?: unknown };
+      return {
+        status: mapMtnStatus(body.status),
+        financialTransactionId: body.financialTransactionId ?? null,
+        reason: reasonText(body.reason),
+      };
+    },
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * Picks the mobile money adapter from MOMO_PROVIDER: 'mtn' (MTN MoMo) or 'fake' (local development and tests).
+ * Unset = no provider; the POS then records mobile money as before, without a prompt to the customer's phone.
+ */
+
+import { createFakeMomoProvider } from '@/lib/payments/fakeMomo';
+import { createMtnMomoProvider } from '@/lib/payments/mtnMomo';
+import type { MobileMoneyProvider } from '@/lib/payments/mobileMoney';
+
+let cached: { key: string; provider: MobileMoneyProvider | null } | null = null;
+
+/** The configured provider, or null when mobile money prompts are off. */
+export function getMobileMoneyProvider(): MobileMoneyProvider | null {
+  const key = (process.env.MOMO_PROVIDER ?? '').trim().toLowerCase();
+  if (cached && cached.key === key) return cached.provider;
+  let provider: MobileMoneyProvider | null = null;
+  if (key === 'mtn') provider = createMtnMomoProvider();
+  else if (key === 'fake') provider = createFakeMomoProvider();
+  cached = { key, provider };
+  return provider;
+}
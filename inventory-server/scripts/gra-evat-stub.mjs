@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the GRA e-VAT API, so fiscalisation can be run and tested offline.
+ *   npm run stub:evat            (listens on GRA_EVAT_STUB_PORT, default 4010)
+ * Then run the server with FISCAL_PROVIDER=gra, GRA_EVAT_BASE_URL=http://localhost:4010 and any
+ * GRA_EVAT_SECURITY_KEY (the stub only checks it when GRA_EVAT_SECURITY_KEY is set for the stub too).
+ *
+ * POST /invoice   signs the invoice: an HMAC of the body as ysdcregsig and a verification URL as qr_code.
+ *                 Checks the totals add up (422 otherwise), like the real API.
+ * POST /__mode    { "mode": "ok" | "down" | "reject" } — down answers 503 (the server queues a retry),
+ *                 reject answers 400 (the invoice is marked failed). Also settable with GRA_EVAT_STUB_MODE.
+ * GET  /__invoices  everything signed since the stub started.
+ */
+import { createServer } from 'node:http';
+import { createHmac, randomUUID } from 'node:crypto';
+
+const port = Number(process.env.GRA_EVAT_STUB_PORT) || 4010;
+const securityKey = process.env.GRA_EVAT_SECURITY_KEY?.trim() || '';
+const sdcId = process.env.GRA_EVAT_STUB_SDC_ID || 'SDC-STUB-0001';
+let mode = process.env.GRA_EVAT_STUB_MODE || 'ok';
+let counter = 0;
+const signed = [];
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readJson(req) {
+  return new Promise((resolve) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(raw || '{}'));
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+}
+
+const round2 = (n) => Math.round(n * 100) / 100;
+
+function invoiceProblem(inv) {
+  if (!inv || typeof inv !== 'object') return 'Body must be a JSON invoice.';
+  if (!inv.invoiceNumber) return 'invoiceNumber is required.';
+  if (!Array.isArray(inv.items) || inv.items.length === 0) return 'items are required.';
+  const levy = (i) => i.levyAmountA + i.levyAmountB + i.levyAmountC + i.levyAmountD + i.levyAmountE;
+  const taxable = inv.items.reduce((s, i) => s + i.unitPrice * i.quantity, 0);
+  const totalLevy = round2(inv.items.reduce((s, i) => s + levy(i), 0));
+  const totalVat = round2(inv.items.reduce((s, i) => s + i.vatAmount, 0));
+  if (Math.abs(totalLevy - inv.totalLevy) > 0.05) return `totalLevy ${inv.totalLevy} does not match the items (${totalLevy}).`;
+  if (Math.abs(totalVat - inv.totalVat) > 0.05) return `totalVat ${inv.totalVat} does not match the items (${totalVat}).`;
+  if (Math.abs(round2(taxable + totalLevy + totalVat) - inv.totalAmount) > 0.05) {
+    return `totalAmount ${inv.totalAmount} does not match the items.`;
+  }
+  return null;
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+
+  if (req.method === 'POST' && url.pathname === '/__mode') {
+    const body = await readJson(req);
+    if (!['ok', 'down', 'reject'].includes(body?.mode)) return send(res, 400, { message: 'mode must be ok, down or reject' });
+    mode = body.mode;
+    return send(res, 200, { mode });
+  }
+  if (req.method === 'GET' && url.pathname === '/__invoices') return send(res, 200, signed);
+
+  if (req.method === 'POST' && url.pathname === '/invoice') {
+    if (securityKey && req.headers.security_key !== securityKey) {
+      return send(res, 401, { response: { status: 'ERROR', message: 'Invalid security key' } });
+    }
+    if (mode === 'down') return send(res, 503, { response: { status: 'ERROR', message: 'VSDC unavailable (stub)' } });
+    const invoice = await readJson(req);
+    const problem = mode === 'reject' ? 'Invoice rejected (stub reject mode)' : invoiceProblem(invoice);
+    if (problem) return send(res, mode === 'reject' ? 400 : 422, { response: { status: 'ERROR', message: problem } });
+
+    counter += 1;
+    const signature = createHmac('sha256', sdcId).update(JSON.stringify(invoice)).digest('hex').slice(0, 32).toUpperCase();
+    const time = new Date().toISOString();
+    const message = {
+      ysdcid: sdcId,
+      ysdcrecnum: `${counter}/${counter} NS`,
+      ysdcintdata: randomUUID(),
+      ysdcregsig: signature,
+      ysdcmrc: 'STUB',
+      ysdctime: time,
+      num: invoice.invoiceNumber,
+      flag: invoice.flag ?? 'INVOICE',
+    };
+    const qr = `https://evat-stub.local/verify?sdc=${encodeURIComponent(sdcId)}&inv=${encodeURIComponent(invoice.invoiceNumber)}&sig=${signature}`;
+    signed.push({ invoice, message, qr_code: qr });
+    console.log(`[gra-evat-stub] signed ${invoice.invoiceNumber} (${invoice.totalAmount} GHS)`);
+    return send(res, 200, { response: { status: 'SUCCESS', message, qr_code: qr } });
+  }
+
+  send(res, 404, { message: 'Not found' });
+});
+
+server.listen(port, () => {
+  console.log(`[gra-evat-stub] listening on http://localhost:${port} (mode ${mode})`);
+});
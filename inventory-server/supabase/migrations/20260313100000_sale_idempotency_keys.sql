@@ -0,0 +1,352 @@
+-- Database-backed idempotency for POST /api/sales.
+-- The in-memory Map in lib/idempotency.ts only deduplicated within one serverless instance; retries
+-- landing on another instance could record the same sale twice.
+-- 1) sale_idempotency_keys: key → request fingerprint + stored response (24h TTL)
+-- 2) record_sale: p_idempotency_key / p_request_hash. Same key + same hash → stored response;
+--    same key + different hash → IDEMPOTENCY_KEY_CONFLICT. Key row is written in the sale's transaction.
+-- 3) Hourly pg_cron purge of expired keys.
+-- 4) sales.idempotency_key: the key is also copied onto the sale (unique, never purged), so a replay arriving after
+--    its key row expired fails the insert instead of recording the sale twice; the route answers it from the sale.
+
+-- 1) Keys table
+CREATE TABLE IF NOT EXISTS sale_idempotency_keys (
+  idempotency_key text PRIMARY KEY,
+  request_hash    text,
+  warehouse_id    uuid REFERENCES warehouses(id) ON DELETE CASCADE,
+  sale_id         uuid REFERENCES sales(id) ON DELETE SET NULL,
+  response        jsonb NOT NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  expires_at      timestamptz NOT NULL DEFAULT (now() + interval '24 hours')
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_idempotency_keys_expires_at ON sale_idempotency_keys(expires_at);
+
+COMMENT ON TABLE sale_idempotency_keys IS 'Idempotency-Key → stored POST /api/sales response. Written by record_sale in the same transaction as the sale.';
+COMMENT ON COLUMN sale_idempotency_keys.request_hash IS 'SHA-256 of the canonical request body (lib/idempotency.ts). Mismatch on reuse = conflict.';
+
+ALTER TABLE sale_idempotency_keys ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_sale_idempotency_keys" ON sale_idempotency_keys;
+CREATE POLICY "service_role_sale_idempotency_keys" ON sale_idempotency_keys
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 2) record_sale with idempotency (replace 11-param overload so only one candidate exists)
+DROP FUNCTION IF EXISTS record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb);
+
+CREATE OR REPLACE FUNCTION record_sale(
+  p_warehouse_id    uuid,
+  p_lines           jsonb,
+  p_subtotal        numeric,
+  p_discount_pct    numeric,
+  p_discount_amt    numeric,
+  p_total           numeric,
+  p_payment_method  text,
+  p_customer_name   text DEFAULT NULL,
+  p_sold_by         uuid DEFAULT NULL,
+  p_sold_by_email   text DEFAULT NULL,
+  p_delivery_schedule jsonb DEFAULT NULL,
+  p_idempotency_key   text  DEFAULT NULL,
+  p_request_hash      text  DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale_id           uuid := gen_random_uuid();
+  v_receipt_id        text;
+  v_item_count        int  := 0;
+  v_line              jsonb;
+  v_product_id         uuid;
+  v_size_code         text;
+  v_qty               int;
+  v_unit_price        numeric;
+  v_line_total        numeric;
+  v_name              text;
+  v_sku               text;
+  v_image_url         text;
+  v_size_kind         text;
+  v_current_qty        int;
+  v_reserved_qty      int;
+  v_cost_price        numeric;
+  v_is_delivery       boolean;
+  v_single_size_code  text;   -- for one-size when sizeCode is null
+  v_size_row_count     int;
+  v_idem              sale_idempotency_keys%ROWTYPE;
+  v_result            jsonb;
+BEGIN
+  -- Idempotency: serialize concurrent requests with the same key, then replay or reject.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended('sale_idempotency:' || p_idempotency_key, 0));
+    SELECT * INTO v_idem
+    FROM sale_idempotency_keys
+    WHERE idempotency_key = p_idempotency_key AND expires_at > now();
+    IF FOUND THEN
+      IF v_idem.request_hash IS DISTINCT FROM p_request_hash THEN
+        RAISE EXCEPTION 'IDEMPOTENCY_KEY_CONFLICT' USING ERRCODE = 'P0001';
+      END IF;
+      RETURN v_idem.response || jsonb_build_object('idempotentReplay', true);
+    END IF;
+  END IF;
+
+  v_is_delivery := (p_delivery_schedule IS NOT NULL AND jsonb_typeof(p_delivery_schedule) = 'object');
+
+  v_receipt_id := 'RCP-'
+    || to_char(now(), 'YYYYMMDD')
+    || '-'
+    || lpad((nextval('receipt_seq') % 10000)::text, 4, '0');
+
+  INSERT INTO sales (
+    id, warehouse_id, customer_name, payment_method,
+    subtotal, discount_pct, discount_amt, total,
+    receipt_id, status, sold_by, sold_by_email, created_at,
+    delivery_schedule, delivery_status
+  ) VALUES (
+    v_sale_id, p_warehouse_id, p_customer_name, p_payment_method,
+    p_subtotal, p_discount_pct, p_discount_amt, p_total,
+    v_receipt_id, 'completed', p_sold_by, p_sold_by_email, now(),
+    CASE WHEN v_is_delivery THEN p_delivery_schedule ELSE NULL END,
+    CASE WHEN v_is_delivery THEN 'pending'::text ELSE NULL END
+  );
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_product_id := (v_line->>'productId')::uuid;
+    v_size_code  := NULLIF(trim(upper(v_line->>'sizeCode')), '');
+    v_qty        := GREATEST(1, (v_line->>'qty')::int);
+    v_unit_price := COALESCE((v_line->>'unitPrice')::numeric, 0);
+    v_line_total := COALESCE((v_line->>'lineTotal')::numeric, v_unit_price * v_qty);
+    v_name       := COALESCE(v_line->>'name', 'Unknown');
+    v_sku        := COALESCE(v_line->>'sku', '');
+    v_image_url  := NULLIF(trim(v_line->>'imageUrl'), '');
+    v_item_count := v_item_count + v_qty;
+
+    SELECT cost_price INTO v_cost_price FROM warehouse_products WHERE id = v_product_id;
+    v_cost_price := COALESCE(v_cost_price, 0);
+    SELECT size_kind INTO v_size_kind FROM warehouse_products WHERE id = v_product_id;
+
+    IF v_is_delivery THEN
+      -- Scheduled delivery: reserve (check available = quantity - reserved >= qty)
+      IF v_size_kind = 'sized' AND v_size_code IS NOT NULL THEN
+        SELECT COALESCE(quantity, 0) INTO v_current_qty
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+          AND upper(trim(size_code)) = v_size_code
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        SELECT COALESCE(SUM(sr.qty), 0)::int INTO v_reserved_qty
+        FROM sale_reservations sr
+        WHERE sr.warehouse_id = p_warehouse_id AND sr.product_id = v_product_id
+          AND upper(trim(COALESCE(sr.size_code, ''))) = v_size_code;
+        IF (v_current_qty - v_reserved_qty) < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        INSERT INTO sale_reservations (sale_id, warehouse_id, product_id, size_code, qty)
+        VALUES (v_sale_id, p_warehouse_id, v_product_id, v_size_code, v_qty);
+      ELSE
+        SELECT COALESCE(quantity, 0) INTO v_current_qty
+        FROM warehouse_inventory
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        SELECT COALESCE(SUM(sr.qty), 0)::int INTO v_reserved_qty
+        FROM sale_reservations sr
+        WHERE sr.warehouse_id = p_warehouse_id AND sr.product_id = v_product_id
+          AND (sr.size_code IS NULL OR trim(sr.size_code) = '');
+        IF (v_current_qty - v_reserved_qty) < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        INSERT INTO sale_reservations (sale_id, warehouse_id, product_id, size_code, qty)
+        VALUES (v_sale_id, p_warehouse_id, v_product_id, NULL, v_qty);
+      END IF;
+      INSERT INTO sale_lines (
+        id, sale_id, product_id, size_code, product_name, product_sku,
+        unit_price, qty, line_total, product_image_url, cost_price, created_at
+      ) VALUES (
+        gen_random_uuid(), v_sale_id, v_product_id, v_size_code, v_name, v_sku,
+        v_unit_price, v_qty, v_line_total, v_image_url, v_cost_price, now()
+      );
+    ELSE
+      -- Direct sale: deduct immediately
+      IF v_size_kind = 'sized' AND v_size_code IS NOT NULL THEN
+        -- Sized product with size selected: case-insensitive match
+        SELECT quantity INTO v_current_qty
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+          AND upper(trim(size_code)) = v_size_code
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        IF v_current_qty < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        UPDATE warehouse_inventory_by_size
+        SET quantity = quantity - v_qty, updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+          AND upper(trim(size_code)) = v_size_code;
+        UPDATE warehouse_inventory
+        SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id),
+            updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+      ELSIF v_size_kind = 'sized' AND v_size_code IS NULL THEN
+        -- One-size product (sizeCode not sent): deduct from the single by_size row if exactly one
+        SELECT count(*) INTO v_size_row_count
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+        IF v_size_row_count = 0 THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        IF v_size_row_count > 1 THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK: size required for multi-size product' USING ERRCODE = 'P0001';
+        END IF;
+        SELECT size_code, quantity INTO v_single_size_code, v_current_qty
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+        FOR UPDATE;
+        IF v_current_qty < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        UPDATE warehouse_inventory_by_size
+        SET quantity = quantity - v_qty, updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+        UPDATE warehouse_inventory
+        SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id),
+            updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+        v_size_code := v_single_size_code;  -- for sale_lines.size_code
+      ELSE
+        -- Non-sized: deduct from warehouse_inventory
+        SELECT quantity INTO v_current_qty
+        FROM warehouse_inventory
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        IF v_current_qty < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        UPDATE warehouse_inventory
+        SET quantity = quantity - v_qty, updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+      END IF;
+      INSERT INTO sale_lines (
+        id, sale_id, product_id, size_code, product_name, product_sku,
+        unit_price, qty, line_total, product_image_url, cost_price, created_at
+      ) VALUES (
+        gen_random_uuid(), v_sale_id, v_product_id, v_size_code, v_name, v_sku,
+        v_unit_price, v_qty, v_line_total, v_image_url, v_cost_price, now()
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE sales SET item_count = v_item_count WHERE id = v_sale_id;
+
+  v_result := jsonb_build_object(
+    'id',         v_sale_id,
+    'receiptId',  v_receipt_id,
+    'total',      p_total,
+    'itemCount',  v_item_count,
+    'status',     'completed',
+    'createdAt',  now()
+  );
+
+  -- Stored in the same transaction as the sale: either both commit or neither does.
+  IF p_idempotency_key IS NOT NULL THEN
+    INSERT INTO sale_idempotency_keys (idempotency_key, request_hash, warehouse_id, sale_id, response, created_at, expires_at)
+    VALUES (p_idempotency_key, p_request_hash, p_warehouse_id, v_sale_id, v_result, now(), now() + interval '24 hours')
+    ON CONFLICT (idempotency_key) DO UPDATE
+      SET request_hash = EXCLUDED.request_hash,
+          warehouse_id = EXCLUDED.warehouse_id,
+          sale_id      = EXCLUDED.sale_id,
+          response     = EXCLUDED.response,
+          created_at   = EXCLUDED.created_at,
+          expires_at   = EXCLUDED.expires_at;
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+COMMENT ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text) IS
+  'Record sale: direct sale = deduct stock now; delivery sale = reserve only. Optional idempotency key: replays return the stored response, different payload raises IDEMPOTENCY_KEY_CONFLICT.';
+
+REVOKE ALL ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text) FROM anon;
+REVOKE EXECUTE ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text) TO service_role;
+
+-- 3) TTL cleanup
+CREATE OR REPLACE FUNCTION purge_expired_sale_idempotency_keys()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted int;
+BEGIN
+  DELETE FROM sale_idempotency_keys WHERE expires_at <= now();
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION purge_expired_sale_idempotency_keys() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION purge_expired_sale_idempotency_keys() FROM anon;
+REVOKE EXECUTE ON FUNCTION purge_expired_sale_idempotency_keys() FROM authenticated;
+GRANT EXECUTE ON FUNCTION purge_expired_sale_idempotency_keys() TO service_role;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'purge-sale-idempotency-keys') THEN
+    PERFORM cron.unschedule('purge-sale-idempotency-keys');
+  END IF;
+END
+$$;
+
+SELECT cron.schedule(
+  'purge-sale-idempotency-keys',
+  '15 * * * *',
+  $$ SELECT purge_expired_sale_idempotency_keys(); $$
+);
+
+-- 4) Permanent key on the sale. Offline tills can replay a queued sale long after 24h; the keys table only keeps the
+-- stored response, the unique index is what stops the second sale.
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS idempotency_key text;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS idempotency_request_hash text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_idempotency_key ON sales(idempotency_key) WHERE idempotency_key IS NOT NULL;
+
+COMMENT ON COLUMN sales.idempotency_key IS 'Idempotency-Key the sale was recorded under. Unique and kept for good: a reuse after the sale_idempotency_keys row is purged violates idx_sales_idempotency_key.';
+
+CREATE OR REPLACE FUNCTION sale_idempotency_keys_stamp_sale()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.sale_id IS NOT NULL THEN
+    UPDATE sales
+    SET idempotency_key = NEW.idempotency_key,
+        idempotency_request_hash = NEW.request_hash
+    WHERE id = NEW.sale_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sale_idempotency_keys_stamp_sale ON sale_idempotency_keys;
+CREATE TRIGGER trg_sale_idempotency_keys_stamp_sale
+  AFTER INSERT OR UPDATE OF sale_id ON sale_idempotency_keys
+  FOR EACH ROW EXECUTE FUNCTION sale_idempotency_keys_stamp_sale();
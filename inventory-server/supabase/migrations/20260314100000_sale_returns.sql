@@ -0,0 +1,278 @@
+-- Partial returns and exchanges against a recorded sale.
+-- Until now the only reversal was void_sale (whole sale, all stock back).
+-- 1) sale_returns / sale_return_lines: which sale_lines came back, how many, and the refund.
+-- 2) record_return: validate qty against what is still returnable, restock (by_size case-insensitive,
+--    then recompute warehouse_inventory), record refund + method. Optional p_exchange_lines are sold
+--    through record_sale in the same transaction, so a size swap is all-or-nothing.
+-- 3) void_sale: only restore what has not already been returned.
+
+-- 1) Tables
+CREATE TABLE IF NOT EXISTS sale_returns (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id          uuid NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  warehouse_id     uuid NOT NULL REFERENCES warehouses(id),
+  return_type      text NOT NULL DEFAULT 'return' CHECK (return_type IN ('return', 'exchange')),
+  refund_amount    numeric(12,2) NOT NULL DEFAULT 0,
+  refund_method    text NOT NULL CHECK (lower(trim(refund_method)) IN ('cash', 'card', 'mobile_money')),
+  exchange_sale_id uuid REFERENCES sales(id) ON DELETE SET NULL,
+  reason           text,
+  created_by       uuid,
+  created_by_email text,
+  created_at       timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_returns_sale_id ON sale_returns(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_returns_warehouse_created ON sale_returns(warehouse_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS sale_return_lines (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_id     uuid NOT NULL REFERENCES sale_returns(id) ON DELETE CASCADE,
+  sale_line_id  uuid NOT NULL REFERENCES sale_lines(id) ON DELETE CASCADE,
+  product_id    uuid NOT NULL REFERENCES warehouse_products(id),
+  size_code     text,
+  qty           int NOT NULL CHECK (qty > 0),
+  refund_amount numeric(12,2) NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_return_lines_return_id ON sale_return_lines(return_id);
+CREATE INDEX IF NOT EXISTS idx_sale_return_lines_sale_line_id ON sale_return_lines(sale_line_id);
+
+COMMENT ON TABLE sale_returns IS 'Partial return or exchange against a sale. refund_amount is the value of goods returned (after the sale discount).';
+COMMENT ON COLUMN sale_returns.exchange_sale_id IS 'For exchanges: the sale recorded for the replacement items (same transaction).';
+
+ALTER TABLE sale_returns ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_sale_returns" ON sale_returns;
+CREATE POLICY "service_role_sale_returns" ON sale_returns
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER TABLE sale_return_lines ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_sale_return_lines" ON sale_return_lines;
+CREATE POLICY "service_role_sale_return_lines" ON sale_return_lines
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 2) record_return
+-- p_lines: [{ saleLineId, qty }]. p_exchange_lines: record_sale line shape ({ productId, sizeCode, qty, unitPrice, name, sku }).
+-- Exchange sale is charged at full price with p_refund_method; netAmount > 0 means the customer pays the difference.
+CREATE OR REPLACE FUNCTION record_return(
+  p_sale_id          uuid,
+  p_lines            jsonb,
+  p_refund_method    text,
+  p_reason           text  DEFAULT NULL,
+  p_created_by       uuid  DEFAULT NULL,
+  p_created_by_email text  DEFAULT NULL,
+  p_exchange_lines   jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return_id         uuid := gen_random_uuid();
+  v_warehouse_id      uuid;
+  v_status            text;
+  v_delivery_status   text;
+  v_customer_name     text;
+  v_subtotal          numeric;
+  v_total             numeric;
+  v_ratio             numeric;
+  v_line              jsonb;
+  v_sale_line         sale_lines%ROWTYPE;
+  v_qty               int;
+  v_returned          int;
+  v_size_kind         text;
+  v_line_refund       numeric;
+  v_refund_total      numeric := 0;
+  v_item_count        int := 0;
+  v_is_exchange       boolean;
+  v_exchange_subtotal numeric := 0;
+  v_exchange          jsonb;
+  v_exchange_sale_id  uuid;
+BEGIN
+  SELECT warehouse_id, status, delivery_status, customer_name, subtotal, total
+  INTO v_warehouse_id, v_status, v_delivery_status, v_customer_name, v_subtotal, v_total
+  FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_status = 'voided' THEN
+    RAISE EXCEPTION 'SALE_VOIDED' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_delivery_status IS NOT NULL AND v_delivery_status <> 'delivered' THEN
+    RAISE EXCEPTION 'Cannot return items from a delivery that has not been delivered' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'At least one line to return is required' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_is_exchange := p_exchange_lines IS NOT NULL
+    AND jsonb_typeof(p_exchange_lines) = 'array'
+    AND jsonb_array_length(p_exchange_lines) > 0;
+
+  -- Refund at the price actually paid: spread the sale-level discount across lines.
+  v_ratio := CASE WHEN COALESCE(v_subtotal, 0) > 0 THEN v_total / v_subtotal ELSE 1 END;
+
+  INSERT INTO sale_returns (
+    id, sale_id, warehouse_id, return_type, refund_amount, refund_method,
+    reason, created_by, created_by_email, created_at
+  ) VALUES (
+    v_return_id, p_sale_id, v_warehouse_id,
+    CASE WHEN v_is_exchange THEN 'exchange' ELSE 'return' END,
+    0, lower(trim(p_refund_method)),
+    NULLIF(trim(p_reason), ''), p_created_by, p_created_by_email, now()
+  );
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_qty := (v_line->>'qty')::int;
+    IF v_qty IS NULL OR v_qty < 1 THEN
+      RAISE EXCEPTION 'Return qty must be at least 1' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT * INTO v_sale_line
+    FROM sale_lines
+    WHERE id = (v_line->>'saleLineId')::uuid AND sale_id = p_sale_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Sale line not found on this sale' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT COALESCE(SUM(qty), 0)::int INTO v_returned
+    FROM sale_return_lines WHERE sale_line_id = v_sale_line.id;
+    IF v_returned + v_qty > v_sale_line.qty THEN
+      RAISE EXCEPTION 'RETURN_QTY_EXCEEDS_SOLD' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT size_kind INTO v_size_kind FROM warehouse_products WHERE id = v_sale_line.product_id;
+
+    IF v_size_kind = 'sized' AND v_sale_line.size_code IS NOT NULL AND trim(v_sale_line.size_code) <> '' THEN
+      UPDATE warehouse_inventory_by_size
+      SET quantity = quantity + v_qty, updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id
+        AND upper(trim(size_code)) = upper(trim(v_sale_line.size_code));
+      IF NOT FOUND THEN
+        INSERT INTO warehouse_inventory_by_size (warehouse_id, product_id, size_code, quantity, updated_at)
+        VALUES (v_warehouse_id, v_sale_line.product_id, upper(trim(v_sale_line.size_code)), v_qty, now());
+      END IF;
+      UPDATE warehouse_inventory
+      SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id),
+          updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id;
+    ELSE
+      UPDATE warehouse_inventory
+      SET quantity = quantity + v_qty, updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id;
+    END IF;
+
+    v_line_refund := round(v_sale_line.line_total / v_sale_line.qty * v_qty * v_ratio, 2);
+    v_refund_total := v_refund_total + v_line_refund;
+    v_item_count := v_item_count + v_qty;
+
+    INSERT INTO sale_return_lines (return_id, sale_line_id, product_id, size_code, qty, refund_amount)
+    VALUES (v_return_id, v_sale_line.id, v_sale_line.product_id, v_sale_line.size_code, v_qty, v_line_refund);
+  END LOOP;
+
+  IF v_is_exchange THEN
+    SELECT COALESCE(SUM(COALESCE((l->>'lineTotal')::numeric,
+                                 COALESCE((l->>'unitPrice')::numeric, 0) * GREATEST(1, (l->>'qty')::int))), 0)
+    INTO v_exchange_subtotal
+    FROM jsonb_array_elements(p_exchange_lines) l;
+
+    -- record_sale raises INSUFFICIENT_STOCK for the new size; that rolls back the restock above too.
+    v_exchange := record_sale(
+      v_warehouse_id, p_exchange_lines, v_exchange_subtotal, 0, 0, v_exchange_subtotal,
+      lower(trim(p_refund_method)),
+      v_customer_name, p_created_by, p_created_by_email
+    );
+    v_exchange_sale_id := (v_exchange->>'id')::uuid;
+  END IF;
+
+  UPDATE sale_returns
+  SET refund_amount = v_refund_total, exchange_sale_id = v_exchange_sale_id
+  WHERE id = v_return_id;
+
+  RETURN jsonb_build_object(
+    'id',             v_return_id,
+    'saleId',         p_sale_id,
+    'type',           CASE WHEN v_is_exchange THEN 'exchange' ELSE 'return' END,
+    'refundAmount',   v_refund_total,
+    'refundMethod',   lower(trim(p_refund_method)),
+    'itemCount',      v_item_count,
+    'exchangeSale',   v_exchange,
+    'netAmount',      v_exchange_subtotal - v_refund_total,
+    'createdAt',      now()
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_return(uuid, jsonb, text, text, uuid, text, jsonb) FROM PUBLIC;
+REVOKE ALL ON FUNCTION record_return(uuid, jsonb, text, text, uuid, text, jsonb) FROM anon;
+REVOKE ALL ON FUNCTION record_return(uuid, jsonb, text, text, uuid, text, jsonb) FROM authenticated;
+GRANT EXECUTE ON FUNCTION record_return(uuid, jsonb, text, text, uuid, text, jsonb) TO service_role;
+
+COMMENT ON FUNCTION record_return(uuid, jsonb, text, text, uuid, text, jsonb) IS
+  'Partial return / exchange: restock selected sale_lines, record refund, optionally sell replacement lines via record_sale (one transaction).';
+
+-- 3) void_sale: subtract already-returned qty so a later void does not restock those units twice
+CREATE OR REPLACE FUNCTION void_sale(p_sale_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_warehouse_id     uuid;
+  v_status           text;
+  v_delivery_status  text;
+  v_line             record;
+  v_size_kind        text;
+  v_has_reservations boolean;
+BEGIN
+  SELECT warehouse_id, status, delivery_status INTO v_warehouse_id, v_status, v_delivery_status
+  FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_status = 'voided' THEN
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (SELECT 1 FROM sale_reservations WHERE sale_id = p_sale_id LIMIT 1) INTO v_has_reservations;
+
+  IF v_has_reservations THEN
+    DELETE FROM sale_reservations WHERE sale_id = p_sale_id;
+    UPDATE sales SET status = 'voided' WHERE id = p_sale_id;
+    RETURN;
+  END IF;
+
+  FOR v_line IN
+    SELECT sl.product_id, sl.size_code,
+           sl.qty - COALESCE((SELECT SUM(srl.qty) FROM sale_return_lines srl WHERE srl.sale_line_id = sl.id), 0) AS qty
+    FROM sale_lines sl WHERE sl.sale_id = p_sale_id
+  LOOP
+    CONTINUE WHEN v_line.qty <= 0;
+    SELECT size_kind INTO v_size_kind FROM warehouse_products WHERE id = v_line.product_id;
+
+    IF v_size_kind = 'sized' AND v_line.size_code IS NOT NULL AND trim(v_line.size_code) <> '' THEN
+      UPDATE warehouse_inventory_by_size
+      SET quantity = quantity + v_line.qty, updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_line.product_id
+        AND upper(trim(size_code)) = upper(trim(v_line.size_code));
+      UPDATE warehouse_inventory
+      SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                      WHERE warehouse_id = v_warehouse_id AND product_id = v_line.product_id),
+          updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_line.product_id;
+    ELSE
+      UPDATE warehouse_inventory
+      SET quantity = quantity + v_line.qty, updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_line.product_id;
+    END IF;
+  END LOOP;
+
+  UPDATE sales SET status = 'voided', stock_restored_at = now() WHERE id = p_sale_id;
+END;
+$$;
@@ -0,0 +1,355 @@
+-- Inter-warehouse stock transfers (e.g. Main Town → Main Store) with an in-transit state.
+-- 1) stock_movements: size_code + reference_id so transfer steps are traceable per size and per document.
+-- 2) stock_transfers / stock_transfer_lines: draft → in_transit (dispatch deducts source) → received
+--    (receive adds to destination with receive_delivery semantics). Cancelling an in-transit transfer
+--    puts the stock back at the source.
+-- 3) warehouse_stock_in_transit view: per warehouse/product/size incoming and outgoing qty.
+-- 4) RPCs: create_stock_transfer, dispatch_stock_transfer, receive_stock_transfer, cancel_stock_transfer.
+
+-- 1) stock_movements columns
+ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS size_code text;
+ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS reference_id uuid;
+CREATE INDEX IF NOT EXISTS idx_stock_movements_reference ON stock_movements(reference_type, reference_id);
+
+COMMENT ON COLUMN stock_movements.reference_id IS 'Source document for non-transaction movements (e.g. stock_transfers.id).';
+
+-- 2) Transfer documents
+CREATE SEQUENCE IF NOT EXISTS stock_transfer_seq;
+
+CREATE TABLE IF NOT EXISTS stock_transfers (
+  id                  uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_number     text NOT NULL UNIQUE,
+  from_warehouse_id   uuid NOT NULL REFERENCES warehouses(id),
+  to_warehouse_id     uuid NOT NULL REFERENCES warehouses(id),
+  status              text NOT NULL DEFAULT 'draft'
+                      CHECK (status IN ('draft', 'in_transit', 'received', 'cancelled')),
+  notes               text,
+  created_by_email    text,
+  created_at          timestamptz NOT NULL DEFAULT now(),
+  dispatched_by_email text,
+  dispatched_at       timestamptz,
+  received_by_email   text,
+  received_at         timestamptz,
+  cancelled_at        timestamptz,
+  CONSTRAINT stock_transfers_distinct_warehouses CHECK (from_warehouse_id <> to_warehouse_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_from ON stock_transfers(from_warehouse_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_to ON stock_transfers(to_warehouse_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_status ON stock_transfers(status);
+
+CREATE TABLE IF NOT EXISTS stock_transfer_lines (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_id uuid NOT NULL REFERENCES stock_transfers(id) ON DELETE CASCADE,
+  product_id  uuid NOT NULL REFERENCES warehouse_products(id),
+  size_code   text,
+  qty         int NOT NULL CHECK (qty > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfer_lines_transfer ON stock_transfer_lines(transfer_id);
+CREATE INDEX IF NOT EXISTS idx_stock_transfer_lines_product ON stock_transfer_lines(product_id);
+
+COMMENT ON TABLE stock_transfers IS 'Stock moved between warehouses. in_transit = deducted at source, not yet added at destination.';
+
+ALTER TABLE stock_transfers ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_stock_transfers" ON stock_transfers;
+CREATE POLICY "service_role_stock_transfers" ON stock_transfers
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER TABLE stock_transfer_lines ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_stock_transfer_lines" ON stock_transfer_lines;
+CREATE POLICY "service_role_stock_transfer_lines" ON stock_transfer_lines
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 3) In-transit quantities, visible from both ends
+CREATE OR REPLACE VIEW warehouse_stock_in_transit AS
+SELECT t.from_warehouse_id AS warehouse_id, l.product_id, l.size_code,
+       0::int AS incoming, SUM(l.qty)::int AS outgoing
+FROM stock_transfers t JOIN stock_transfer_lines l ON l.transfer_id = t.id
+WHERE t.status = 'in_transit'
+GROUP BY t.from_warehouse_id, l.product_id, l.size_code
+UNION ALL
+SELECT t.to_warehouse_id AS warehouse_id, l.product_id, l.size_code,
+       SUM(l.qty)::int AS incoming, 0::int AS outgoing
+FROM stock_transfers t JOIN stock_transfer_lines l ON l.transfer_id = t.id
+WHERE t.status = 'in_transit'
+GROUP BY t.to_warehouse_id, l.product_id, l.size_code;
+
+COMMENT ON VIEW warehouse_stock_in_transit IS 'Per warehouse/product/size: qty in transit to (incoming) and from (outgoing) the warehouse.';
+
+REVOKE ALL ON warehouse_stock_in_transit FROM anon, authenticated;
+GRANT SELECT ON warehouse_stock_in_transit TO service_role;
+
+-- 4a) create_stock_transfer — p_lines: [{ productId, sizeCode, qty }]. Sized products require sizeCode.
+CREATE OR REPLACE FUNCTION create_stock_transfer(
+  p_from_warehouse_id uuid,
+  p_to_warehouse_id   uuid,
+  p_lines             jsonb,
+  p_notes             text DEFAULT NULL,
+  p_created_by_email  text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer_id uuid := gen_random_uuid();
+  v_number      text;
+  v_line        jsonb;
+  v_product_id  uuid;
+  v_size_code   text;
+  v_qty         int;
+  v_size_kind   text;
+BEGIN
+  IF p_from_warehouse_id = p_to_warehouse_id THEN
+    RAISE EXCEPTION 'Source and destination must be different warehouses' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'At least one line is required' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_number := 'TRF-'
+    || to_char(now(), 'YYYYMMDD')
+    || '-'
+    || lpad((nextval('stock_transfer_seq') % 10000)::text, 4, '0');
+
+  INSERT INTO stock_transfers (id, transfer_number, from_warehouse_id, to_warehouse_id, status, notes, created_by_email)
+  VALUES (v_transfer_id, v_number, p_from_warehouse_id, p_to_warehouse_id, 'draft', NULLIF(trim(p_notes), ''), p_created_by_email);
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_product_id := (v_line->>'productId')::uuid;
+    v_size_code  := NULLIF(trim(upper(v_line->>'sizeCode')), '');
+    v_qty        := (v_line->>'qty')::int;
+    IF v_qty IS NULL OR v_qty < 1 THEN
+      RAISE EXCEPTION 'Line qty must be at least 1' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT size_kind INTO v_size_kind FROM warehouse_products WHERE id = v_product_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_size_kind = 'sized' AND v_size_code IS NULL THEN
+      RAISE EXCEPTION 'Size is required for sized products' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_size_kind IS DISTINCT FROM 'sized' THEN
+      v_size_code := NULL;
+    END IF;
+
+    INSERT INTO stock_transfer_lines (transfer_id, product_id, size_code, qty)
+    VALUES (v_transfer_id, v_product_id, v_size_code, v_qty);
+  END LOOP;
+
+  RETURN jsonb_build_object('id', v_transfer_id, 'transferNumber', v_number, 'status', 'draft');
+END;
+$$;
+
+-- 4b) dispatch_stock_transfer — deduct every line at the source (all or nothing), status → in_transit.
+CREATE OR REPLACE FUNCTION dispatch_stock_transfer(
+  p_transfer_id uuid,
+  p_by_email    text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer    stock_transfers%ROWTYPE;
+  v_line        stock_transfer_lines%ROWTYPE;
+  v_current_qty int;
+BEGIN
+  SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_transfer.status <> 'draft' THEN
+    RAISE EXCEPTION 'TRANSFER_NOT_DRAFT' USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_line IN SELECT * FROM stock_transfer_lines WHERE transfer_id = p_transfer_id
+  LOOP
+    IF v_line.size_code IS NOT NULL THEN
+      SELECT quantity INTO v_current_qty
+      FROM warehouse_inventory_by_size
+      WHERE warehouse_id = v_transfer.from_warehouse_id AND product_id = v_line.product_id
+        AND upper(trim(size_code)) = v_line.size_code
+      FOR UPDATE;
+      IF NOT FOUND OR v_current_qty IS NULL OR v_current_qty < v_line.qty THEN
+        RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+      END IF;
+      UPDATE warehouse_inventory_by_size
+      SET quantity = quantity - v_line.qty, updated_at = now()
+      WHERE warehouse_id = v_transfer.from_warehouse_id AND product_id = v_line.product_id
+        AND upper(trim(size_code)) = v_line.size_code;
+      UPDATE warehouse_inventory
+      SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                      WHERE warehouse_id = v_transfer.from_warehouse_id AND product_id = v_line.product_id),
+          updated_at = now()
+      WHERE warehouse_id = v_transfer.from_warehouse_id AND product_id = v_line.product_id;
+    ELSE
+      SELECT quantity INTO v_current_qty
+      FROM warehouse_inventory
+      WHERE warehouse_id = v_transfer.from_warehouse_id AND product_id = v_line.product_id
+      FOR UPDATE;
+      IF NOT FOUND OR v_current_qty IS NULL OR v_current_qty < v_line.qty THEN
+        RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+      END IF;
+      UPDATE warehouse_inventory
+      SET quantity = quantity - v_line.qty, updated_at = now()
+      WHERE warehouse_id = v_transfer.from_warehouse_id AND product_id = v_line.product_id;
+    END IF;
+
+    INSERT INTO stock_movements (warehouse_id, product_id, size_code, quantity_delta, reference_type, reference_id)
+    VALUES (v_transfer.from_warehouse_id, v_line.product_id, v_line.size_code, -v_line.qty, 'transfer_out', p_transfer_id);
+  END LOOP;
+
+  UPDATE stock_transfers
+  SET status = 'in_transit', dispatched_at = now(), dispatched_by_email = p_by_email
+  WHERE id = p_transfer_id;
+
+  RETURN jsonb_build_object('id', p_transfer_id, 'status', 'in_transit');
+END;
+$$;
+
+-- 4c) receive_stock_transfer — add every line at the destination, status → received.
+-- Sized lines go through receive_delivery (upsert into warehouse_inventory_by_size); others add to warehouse_inventory.
+CREATE OR REPLACE FUNCTION receive_stock_transfer(
+  p_transfer_id uuid,
+  p_by_email    text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer stock_transfers%ROWTYPE;
+  v_line     stock_transfer_lines%ROWTYPE;
+  v_sized    jsonb;
+BEGIN
+  SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_transfer.status <> 'in_transit' THEN
+    RAISE EXCEPTION 'TRANSFER_NOT_IN_TRANSIT' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('product_id', product_id, 'size_code', size_code, 'quantity', qty)), '[]'::jsonb)
+  INTO v_sized
+  FROM stock_transfer_lines
+  WHERE transfer_id = p_transfer_id AND size_code IS NOT NULL;
+
+  PERFORM receive_delivery(v_transfer.to_warehouse_id, NULL, v_sized);
+
+  FOR v_line IN SELECT * FROM stock_transfer_lines WHERE transfer_id = p_transfer_id
+  LOOP
+    IF v_line.size_code IS NOT NULL THEN
+      -- Destination may never have stocked this product: upsert the total row.
+      INSERT INTO warehouse_inventory (warehouse_id, product_id, quantity, updated_at)
+      SELECT v_transfer.to_warehouse_id, v_line.product_id, COALESCE(SUM(quantity), 0), now()
+      FROM warehouse_inventory_by_size
+      WHERE warehouse_id = v_transfer.to_warehouse_id AND product_id = v_line.product_id
+      ON CONFLICT (warehouse_id, product_id)
+      DO UPDATE SET quantity = EXCLUDED.quantity, updated_at = now();
+    ELSE
+      INSERT INTO warehouse_inventory (warehouse_id, product_id, quantity, updated_at)
+      VALUES (v_transfer.to_warehouse_id, v_line.product_id, v_line.qty, now())
+      ON CONFLICT (warehouse_id, product_id)
+      DO UPDATE SET quantity = warehouse_inventory.quantity + v_line.qty, updated_at = now();
+    END IF;
+
+    INSERT INTO stock_movements (warehouse_id, product_id, size_code, quantity_delta, reference_type, reference_id)
+    VALUES (v_transfer.to_warehouse_id, v_line.product_id, v_line.size_code, v_line.qty, 'transfer_in', p_transfer_id);
+  END LOOP;
+
+  UPDATE stock_transfers
+  SET status = 'received', received_at = now(), received_by_email = p_by_email
+  WHERE id = p_transfer_id;
+
+  RETURN jsonb_build_object('id', p_transfer_id, 'status', 'received');
+END;
+$$;
+
+-- 4d) cancel_stock_transfer — draft: just cancel. in_transit: return stock to the source.
+CREATE OR REPLACE FUNCTION cancel_stock_transfer(
+  p_transfer_id uuid,
+  p_by_email    text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer stock_transfers%ROWTYPE;
+  v_line     stock_transfer_lines%ROWTYPE;
+  v_sized    jsonb;
+BEGIN
+  SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_transfer.status NOT IN ('draft', 'in_transit') THEN
+    RAISE EXCEPTION 'TRANSFER_NOT_CANCELLABLE' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_transfer.status = 'in_transit' THEN
+    SELECT COALESCE(jsonb_agg(jsonb_build_object('product_id', product_id, 'size_code', size_code, 'quantity', qty)), '[]'::jsonb)
+    INTO v_sized
+    FROM stock_transfer_lines
+    WHERE transfer_id = p_transfer_id AND size_code IS NOT NULL;
+
+    PERFORM receive_delivery(v_transfer.from_warehouse_id, NULL, v_sized);
+
+    FOR v_line IN SELECT * FROM stock_transfer_lines WHERE transfer_id = p_transfer_id
+    LOOP
+      IF v_line.size_code IS NOT NULL THEN
+        UPDATE warehouse_inventory
+        SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                        WHERE warehouse_id = v_transfer.from_warehouse_id AND product_id = v_line.product_id),
+            updated_at = now()
+        WHERE warehouse_id = v_transfer.from_warehouse_id AND product_id = v_line.product_id;
+      ELSE
+        UPDATE warehouse_inventory
+        SET quantity = quantity + v_line.qty, updated_at = now()
+        WHERE warehouse_id = v_transfer.from_warehouse_id AND product_id = v_line.product_id;
+      END IF;
+
+      INSERT INTO stock_movements (warehouse_id, product_id, size_code, quantity_delta, reference_type, reference_id)
+      VALUES (v_transfer.from_warehouse_id, v_line.product_id, v_line.size_code, v_line.qty, 'transfer_cancel', p_transfer_id);
+    END LOOP;
+  END IF;
+
+  UPDATE stock_transfers SET status = 'cancelled', cancelled_at = now() WHERE id = p_transfer_id;
+
+  RETURN jsonb_build_object('id', p_transfer_id, 'status', 'cancelled');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_stock_transfer(uuid, uuid, jsonb, text, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION create_stock_transfer(uuid, uuid, jsonb, text, text) FROM anon;
+REVOKE ALL ON FUNCTION create_stock_transfer(uuid, uuid, jsonb, text, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION create_stock_transfer(uuid, uuid, jsonb, text, text) TO service_role;
+
+REVOKE ALL ON FUNCTION dispatch_stock_transfer(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION dispatch_stock_transfer(uuid, text) FROM anon;
+REVOKE ALL ON FUNCTION dispatch_stock_transfer(uuid, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION dispatch_stock_transfer(uuid, text) TO service_role;
+
+REVOKE ALL ON FUNCTION receive_stock_transfer(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION receive_stock_transfer(uuid, text) FROM anon;
+REVOKE ALL ON FUNCTION receive_stock_transfer(uuid, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION receive_stock_transfer(uuid, text) TO service_role;
+
+REVOKE ALL ON FUNCTION cancel_stock_transfer(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION cancel_stock_transfer(uuid, text) FROM anon;
+REVOKE ALL ON FUNCTION cancel_stock_transfer(uuid, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION cancel_stock_transfer(uuid, text) TO service_role;
+
+COMMENT ON FUNCTION create_stock_transfer(uuid, uuid, jsonb, text, text) IS 'Create a draft transfer. p_lines: [{ productId, sizeCode, qty }].';
+COMMENT ON FUNCTION dispatch_stock_transfer(uuid, text) IS 'Deduct transfer lines at the source (INSUFFICIENT_STOCK aborts all); status → in_transit.';
+COMMENT ON FUNCTION receive_stock_transfer(uuid, text) IS 'Add transfer lines at the destination (receive_delivery for sized lines); status → received.';
+COMMENT ON FUNCTION cancel_stock_transfer(uuid, text) IS 'Cancel a draft or in-transit transfer; in-transit stock goes back to the source.';
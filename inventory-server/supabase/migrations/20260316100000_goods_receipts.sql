@@ -0,0 +1,152 @@
+-- Inbound goods receiving with a goods-received note (GRN).
+-- 1) goods_receipts / goods_receipt_lines: one GRN per receipt, optional supplier name + reference
+--    (supplier invoice / waybill number).
+-- 2) record_goods_receipt: writes the GRN, adds stock (sized lines via receive_delivery, others to
+--    warehouse_inventory) and one stock_movements row per line with reference_type = 'receipt'.
+-- Called from POST /api/deliveries/receive.
+
+-- 1) GRN documents
+CREATE SEQUENCE IF NOT EXISTS goods_receipt_seq;
+
+CREATE TABLE IF NOT EXISTS goods_receipts (
+  id                uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  grn_number        text NOT NULL UNIQUE,
+  warehouse_id      uuid NOT NULL REFERENCES warehouses(id),
+  supplier_name     text,
+  reference         text,
+  notes             text,
+  received_by_email text,
+  created_at        timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_goods_receipts_warehouse_created ON goods_receipts(warehouse_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS goods_receipt_lines (
+  id         uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_id uuid NOT NULL REFERENCES goods_receipts(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES warehouse_products(id),
+  size_code  text,
+  qty        int NOT NULL CHECK (qty > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_goods_receipt_lines_receipt ON goods_receipt_lines(receipt_id);
+CREATE INDEX IF NOT EXISTS idx_goods_receipt_lines_product ON goods_receipt_lines(product_id);
+
+COMMENT ON TABLE goods_receipts IS 'Goods-received notes: stock received into a warehouse from a supplier.';
+COMMENT ON COLUMN goods_receipts.reference IS 'Supplier invoice, waybill or delivery note number.';
+
+ALTER TABLE goods_receipts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_goods_receipts" ON goods_receipts;
+CREATE POLICY "service_role_goods_receipts" ON goods_receipts
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER TABLE goods_receipt_lines ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_goods_receipt_lines" ON goods_receipt_lines;
+CREATE POLICY "service_role_goods_receipt_lines" ON goods_receipt_lines
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 2) record_goods_receipt — p_lines: [{ productId, sizeCode, qty }]. Sized products require sizeCode.
+CREATE OR REPLACE FUNCTION record_goods_receipt(
+  p_warehouse_id      uuid,
+  p_lines             jsonb,
+  p_supplier_name     text DEFAULT NULL,
+  p_reference         text DEFAULT NULL,
+  p_notes             text DEFAULT NULL,
+  p_received_by_email text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_receipt_id uuid := gen_random_uuid();
+  v_number     text;
+  v_line       jsonb;
+  v_row        goods_receipt_lines%ROWTYPE;
+  v_product_id uuid;
+  v_size_code  text;
+  v_qty        int;
+  v_size_kind  text;
+  v_sized      jsonb;
+BEGIN
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'At least one line is required' USING ERRCODE = 'P0001';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM warehouses WHERE id = p_warehouse_id) THEN
+    RAISE EXCEPTION 'Warehouse not found' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_number := 'GRN-'
+    || to_char(now(), 'YYYYMMDD')
+    || '-'
+    || lpad((nextval('goods_receipt_seq') % 10000)::text, 4, '0');
+
+  INSERT INTO goods_receipts (id, grn_number, warehouse_id, supplier_name, reference, notes, received_by_email)
+  VALUES (
+    v_receipt_id, v_number, p_warehouse_id,
+    NULLIF(trim(p_supplier_name), ''), NULLIF(trim(p_reference), ''), NULLIF(trim(p_notes), ''),
+    p_received_by_email
+  );
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_product_id := (v_line->>'productId')::uuid;
+    v_size_code  := NULLIF(trim(upper(v_line->>'sizeCode')), '');
+    v_qty        := (v_line->>'qty')::int;
+    IF v_qty IS NULL OR v_qty < 1 THEN
+      RAISE EXCEPTION 'Line qty must be at least 1' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT size_kind INTO v_size_kind FROM warehouse_products WHERE id = v_product_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_size_kind = 'sized' AND v_size_code IS NULL THEN
+      RAISE EXCEPTION 'Size is required for sized products' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_size_kind IS DISTINCT FROM 'sized' THEN
+      v_size_code := NULL;
+    END IF;
+
+    INSERT INTO goods_receipt_lines (receipt_id, product_id, size_code, qty)
+    VALUES (v_receipt_id, v_product_id, v_size_code, v_qty);
+  END LOOP;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('product_id', product_id, 'size_code', size_code, 'quantity', qty)), '[]'::jsonb)
+  INTO v_sized
+  FROM goods_receipt_lines
+  WHERE receipt_id = v_receipt_id AND size_code IS NOT NULL;
+
+  PERFORM receive_delivery(p_warehouse_id, NULL, v_sized);
+
+  FOR v_row IN SELECT * FROM goods_receipt_lines WHERE receipt_id = v_receipt_id
+  LOOP
+    IF v_row.size_code IS NOT NULL THEN
+      INSERT INTO warehouse_inventory (warehouse_id, product_id, quantity, updated_at)
+      SELECT p_warehouse_id, v_row.product_id, COALESCE(SUM(quantity), 0), now()
+      FROM warehouse_inventory_by_size
+      WHERE warehouse_id = p_warehouse_id AND product_id = v_row.product_id
+      ON CONFLICT (warehouse_id, product_id)
+      DO UPDATE SET quantity = EXCLUDED.quantity, updated_at = now();
+    ELSE
+      INSERT INTO warehouse_inventory (warehouse_id, product_id, quantity, updated_at)
+      VALUES (p_warehouse_id, v_row.product_id, v_row.qty, now())
+      ON CONFLICT (warehouse_id, product_id)
+      DO UPDATE SET quantity = warehouse_inventory.quantity + v_row.qty, updated_at = now();
+    END IF;
+
+    INSERT INTO stock_movements (warehouse_id, product_id, size_code, quantity_delta, reference_type, reference_id)
+    VALUES (p_warehouse_id, v_row.product_id, v_row.size_code, v_row.qty, 'receipt', v_receipt_id);
+  END LOOP;
+
+  RETURN jsonb_build_object('id', v_receipt_id, 'grnNumber', v_number);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_goods_receipt(uuid, jsonb, text, text, text, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION record_goods_receipt(uuid, jsonb, text, text, text, text) FROM anon;
+REVOKE ALL ON FUNCTION record_goods_receipt(uuid, jsonb, text, text, text, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION record_goods_receipt(uuid, jsonb, text, text, text, text) TO service_role;
+
+COMMENT ON FUNCTION record_goods_receipt(uuid, jsonb, text, text, text, text) IS 'Write a GRN and add its lines to stock (receive_delivery for sized lines); stock_movements reference_type = receipt.';
@@ -0,0 +1,403 @@
+-- Suppliers and purchase orders (replaces restocking from WhatsApp notes).
+-- 1) suppliers: one row per supplier; warehouse_products.supplier_id links products to a supplier.
+--    Backfilled from the free-form warehouse_products.supplier jsonb (name/contact/email), which stays as-is.
+-- 2) purchase_orders / purchase_order_lines: size-level lines with expected unit cost.
+--    Status: draft → sent → partially_received → closed (closed also when a PO is short-closed).
+-- 3) receive_purchase_order: receives against PO lines via record_goods_receipt (GRN + stock + 'receipt'
+--    stock_movements), tracks qty_received and updates warehouse_products.cost_price from the line cost.
+-- 4) reorder_suggestions: per product on hand, open PO qty, sales velocity and suggested order qty.
+
+-- 1) Suppliers
+CREATE TABLE IF NOT EXISTS suppliers (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name         text NOT NULL,
+  contact_name text,
+  phone        text,
+  email        text,
+  notes        text,
+  is_active    boolean NOT NULL DEFAULT true,
+  created_at   timestamptz NOT NULL DEFAULT now(),
+  updated_at   timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppliers_name_lower ON suppliers(lower(name));
+
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_suppliers" ON suppliers;
+CREATE POLICY "service_role_suppliers" ON suppliers
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER TABLE warehouse_products ADD COLUMN IF NOT EXISTS supplier_id uuid REFERENCES suppliers(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_warehouse_products_supplier_id ON warehouse_products(supplier_id);
+
+INSERT INTO suppliers (name, contact_name, email)
+SELECT DISTINCT ON (lower(trim(supplier->>'name')))
+  trim(supplier->>'name'),
+  NULLIF(trim(supplier->>'contact'), ''),
+  NULLIF(trim(supplier->>'email'), '')
+FROM warehouse_products
+WHERE NULLIF(trim(supplier->>'name'), '') IS NOT NULL
+ORDER BY lower(trim(supplier->>'name')), updated_at DESC
+ON CONFLICT (lower(name)) DO NOTHING;
+
+UPDATE warehouse_products wp
+SET supplier_id = s.id
+FROM suppliers s
+WHERE wp.supplier_id IS NULL
+  AND lower(trim(wp.supplier->>'name')) = lower(s.name);
+
+COMMENT ON TABLE suppliers IS 'Suppliers for purchase orders. warehouse_products.supplier (jsonb) is legacy free text.';
+
+-- Product form still writes supplier jsonb: link supplier_id when the name matches a supplier.
+CREATE OR REPLACE FUNCTION link_product_supplier()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NULLIF(trim(NEW.supplier->>'name'), '') IS NOT NULL THEN
+    SELECT id INTO NEW.supplier_id FROM suppliers WHERE lower(name) = lower(trim(NEW.supplier->>'name'));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_link_product_supplier ON warehouse_products;
+CREATE TRIGGER trg_link_product_supplier
+  BEFORE INSERT OR UPDATE OF supplier ON warehouse_products
+  FOR EACH ROW EXECUTE FUNCTION link_product_supplier();
+
+-- 2) Purchase orders
+CREATE SEQUENCE IF NOT EXISTS purchase_order_seq;
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number        text NOT NULL UNIQUE,
+  supplier_id      uuid NOT NULL REFERENCES suppliers(id),
+  warehouse_id     uuid NOT NULL REFERENCES warehouses(id),
+  status           text NOT NULL DEFAULT 'draft'
+                   CHECK (status IN ('draft', 'sent', 'partially_received', 'closed')),
+  expected_date    date,
+  notes            text,
+  created_by_email text,
+  created_at       timestamptz NOT NULL DEFAULT now(),
+  sent_at          timestamptz,
+  closed_at        timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_warehouse_created ON purchase_orders(warehouse_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id);
+
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_id        uuid NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  product_id   uuid NOT NULL REFERENCES warehouse_products(id),
+  size_code    text,
+  qty_ordered  int NOT NULL CHECK (qty_ordered > 0),
+  qty_received int NOT NULL DEFAULT 0 CHECK (qty_received >= 0),
+  unit_cost    numeric(12,2)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_po ON purchase_order_lines(po_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_product ON purchase_order_lines(product_id);
+
+COMMENT ON COLUMN purchase_order_lines.unit_cost IS 'Expected cost per unit; copied to warehouse_products.cost_price on receipt.';
+
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_purchase_orders" ON purchase_orders;
+CREATE POLICY "service_role_purchase_orders" ON purchase_orders
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_purchase_order_lines" ON purchase_order_lines;
+CREATE POLICY "service_role_purchase_order_lines" ON purchase_order_lines
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER TABLE goods_receipts ADD COLUMN IF NOT EXISTS supplier_id uuid REFERENCES suppliers(id);
+ALTER TABLE goods_receipts ADD COLUMN IF NOT EXISTS purchase_order_id uuid REFERENCES purchase_orders(id);
+CREATE INDEX IF NOT EXISTS idx_goods_receipts_purchase_order ON goods_receipts(purchase_order_id);
+
+-- 2a) save_purchase_order_lines — replace the lines of a draft PO.
+-- p_lines: [{ productId, sizeCode, qty, unitCost }]. Sized products require sizeCode.
+CREATE OR REPLACE FUNCTION save_purchase_order_lines(
+  p_po_id uuid,
+  p_lines jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status     text;
+  v_line       jsonb;
+  v_product_id uuid;
+  v_size_code  text;
+  v_qty        int;
+  v_cost       numeric;
+  v_size_kind  text;
+BEGIN
+  SELECT status INTO v_status FROM purchase_orders WHERE id = p_po_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_status <> 'draft' THEN
+    RAISE EXCEPTION 'PO_NOT_DRAFT' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'At least one line is required' USING ERRCODE = 'P0001';
+  END IF;
+
+  DELETE FROM purchase_order_lines WHERE po_id = p_po_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_product_id := (v_line->>'productId')::uuid;
+    v_size_code  := NULLIF(trim(upper(v_line->>'sizeCode')), '');
+    v_qty        := (v_line->>'qty')::int;
+    v_cost       := NULLIF(v_line->>'unitCost', '')::numeric;
+    IF v_qty IS NULL OR v_qty < 1 THEN
+      RAISE EXCEPTION 'Line qty must be at least 1' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_cost IS NOT NULL AND v_cost < 0 THEN
+      RAISE EXCEPTION 'Unit cost cannot be negative' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT size_kind INTO v_size_kind FROM warehouse_products WHERE id = v_product_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_size_kind = 'sized' AND v_size_code IS NULL THEN
+      RAISE EXCEPTION 'Size is required for sized products' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_size_kind IS DISTINCT FROM 'sized' THEN
+      v_size_code := NULL;
+    END IF;
+
+    INSERT INTO purchase_order_lines (po_id, product_id, size_code, qty_ordered, unit_cost)
+    VALUES (p_po_id, v_product_id, v_size_code, v_qty, v_cost);
+  END LOOP;
+
+  RETURN jsonb_build_object('id', p_po_id, 'lineCount', jsonb_array_length(p_lines));
+END;
+$$;
+
+-- 2b) create_purchase_order — draft PO with lines (see save_purchase_order_lines).
+CREATE OR REPLACE FUNCTION create_purchase_order(
+  p_supplier_id      uuid,
+  p_warehouse_id     uuid,
+  p_lines            jsonb,
+  p_expected_date    date DEFAULT NULL,
+  p_notes            text DEFAULT NULL,
+  p_created_by_email text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_po_id  uuid := gen_random_uuid();
+  v_number text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM suppliers WHERE id = p_supplier_id AND is_active) THEN
+    RAISE EXCEPTION 'Supplier not found' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_number := 'PO-'
+    || to_char(now(), 'YYYYMMDD')
+    || '-'
+    || lpad((nextval('purchase_order_seq') % 10000)::text, 4, '0');
+
+  INSERT INTO purchase_orders (id, po_number, supplier_id, warehouse_id, status, expected_date, notes, created_by_email)
+  VALUES (v_po_id, v_number, p_supplier_id, p_warehouse_id, 'draft', p_expected_date, NULLIF(trim(p_notes), ''), p_created_by_email);
+
+  PERFORM save_purchase_order_lines(v_po_id, p_lines);
+
+  RETURN jsonb_build_object('id', v_po_id, 'poNumber', v_number);
+END;
+$$;
+
+-- 3) receive_purchase_order — p_lines: [{ poLineId, qty }]. Qty may not exceed what is still outstanding.
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_po_id             uuid,
+  p_lines             jsonb,
+  p_reference         text DEFAULT NULL,
+  p_notes             text DEFAULT NULL,
+  p_received_by_email text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_po       purchase_orders%ROWTYPE;
+  v_supplier text;
+  v_line     jsonb;
+  v_po_line  purchase_order_lines%ROWTYPE;
+  v_qty      int;
+  v_items    jsonb := '[]'::jsonb;
+  v_receipt  jsonb;
+  v_status   text;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_po_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_po.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'PO_NOT_RECEIVABLE' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'At least one line is required' USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_qty := (v_line->>'qty')::int;
+    CONTINUE WHEN v_qty IS NULL OR v_qty < 1;
+
+    SELECT * INTO v_po_line
+    FROM purchase_order_lines
+    WHERE id = (v_line->>'poLineId')::uuid AND po_id = p_po_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'PO line not found' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_po_line.qty_received + v_qty > v_po_line.qty_ordered THEN
+      RAISE EXCEPTION 'PO_QTY_EXCEEDS_ORDERED' USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE purchase_order_lines SET qty_received = qty_received + v_qty WHERE id = v_po_line.id;
+
+    IF v_po_line.unit_cost IS NOT NULL THEN
+      UPDATE warehouse_products SET cost_price = v_po_line.unit_cost, updated_at = now()
+      WHERE id = v_po_line.product_id;
+    END IF;
+
+    v_items := v_items || jsonb_build_array(jsonb_build_object(
+      'productId', v_po_line.product_id, 'sizeCode', v_po_line.size_code, 'qty', v_qty
+    ));
+  END LOOP;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'At least one line with qty > 0 is required' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT name INTO v_supplier FROM suppliers WHERE id = v_po.supplier_id;
+  v_receipt := record_goods_receipt(
+    v_po.warehouse_id, v_items, v_supplier, COALESCE(NULLIF(trim(p_reference), ''), v_po.po_number),
+    p_notes, p_received_by_email
+  );
+  UPDATE goods_receipts
+  SET purchase_order_id = p_po_id, supplier_id = v_po.supplier_id
+  WHERE id = (v_receipt->>'id')::uuid;
+
+  SELECT CASE WHEN bool_and(qty_received >= qty_ordered) THEN 'closed' ELSE 'partially_received' END
+  INTO v_status
+  FROM purchase_order_lines
+  WHERE po_id = p_po_id;
+
+  UPDATE purchase_orders
+  SET status = v_status, closed_at = CASE WHEN v_status = 'closed' THEN now() ELSE closed_at END
+  WHERE id = p_po_id;
+
+  RETURN jsonb_build_object('id', p_po_id, 'status', v_status, 'receiptId', v_receipt->>'id', 'grnNumber', v_receipt->>'grnNumber');
+END;
+$$;
+
+-- 4) reorder_suggestions — products at or below reorder level, or with less than p_cover_days of stock
+-- at the sales rate of the last p_days days. Open PO qty (sent / partially received) counts as stock.
+CREATE OR REPLACE FUNCTION reorder_suggestions(
+  p_warehouse_id uuid,
+  p_days         int DEFAULT 30,
+  p_cover_days   int DEFAULT 14
+)
+RETURNS TABLE (
+  product_id    uuid,
+  name          text,
+  sku           text,
+  supplier_id   uuid,
+  supplier_name text,
+  on_hand       int,
+  on_order      int,
+  reorder_level int,
+  sold          int,
+  daily_rate    numeric,
+  days_of_cover numeric,
+  suggested_qty int
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH sold AS (
+    SELECT sl.product_id, SUM(sl.qty)::int AS qty
+    FROM sale_lines sl
+    JOIN sales s ON s.id = sl.sale_id
+    WHERE s.warehouse_id = p_warehouse_id
+      AND s.created_at >= now() - make_interval(days => greatest(p_days, 1))
+      AND COALESCE(s.status, 'completed') <> 'voided'
+    GROUP BY sl.product_id
+  ),
+  on_order AS (
+    SELECT l.product_id, SUM(l.qty_ordered - l.qty_received)::int AS qty
+    FROM purchase_order_lines l
+    JOIN purchase_orders po ON po.id = l.po_id
+    WHERE po.warehouse_id = p_warehouse_id AND po.status IN ('sent', 'partially_received')
+    GROUP BY l.product_id
+  ),
+  base AS (
+    SELECT
+      wp.id AS product_id, wp.name, wp.sku, wp.supplier_id,
+      COALESCE(sup.name, NULLIF(trim(wp.supplier->>'name'), '')) AS supplier_name,
+      COALESCE(wi.quantity, 0)::int AS on_hand,
+      COALESCE(oo.qty, 0) AS on_order,
+      wp.reorder_level,
+      COALESCE(so.qty, 0) AS sold,
+      round(COALESCE(so.qty, 0)::numeric / greatest(p_days, 1), 2) AS daily_rate
+    FROM warehouse_products wp
+    LEFT JOIN warehouse_inventory wi ON wi.product_id = wp.id AND wi.warehouse_id = p_warehouse_id
+    LEFT JOIN suppliers sup ON sup.id = wp.supplier_id
+    LEFT JOIN sold so ON so.product_id = wp.id
+    LEFT JOIN on_order oo ON oo.product_id = wp.id
+  )
+  SELECT
+    b.product_id, b.name, b.sku, b.supplier_id, b.supplier_name, b.on_hand, b.on_order, b.reorder_level, b.sold,
+    b.daily_rate,
+    CASE WHEN b.daily_rate > 0 THEN round((b.on_hand + b.on_order) / b.daily_rate, 1) END AS days_of_cover,
+    greatest(
+      greatest(b.reorder_level, ceil(b.daily_rate * p_cover_days)::int) - (b.on_hand + b.on_order),
+      CASE WHEN b.on_hand + b.on_order <= b.reorder_level THEN 1 ELSE 0 END
+    )::int AS suggested_qty
+  FROM base b
+  WHERE (b.reorder_level > 0 AND b.on_hand + b.on_order <= b.reorder_level)
+     OR (b.daily_rate > 0 AND (b.on_hand + b.on_order) < b.daily_rate * p_cover_days)
+  ORDER BY days_of_cover ASC NULLS LAST, b.name;
+$$;
+
+REVOKE ALL ON FUNCTION save_purchase_order_lines(uuid, jsonb) FROM PUBLIC;
+REVOKE ALL ON FUNCTION save_purchase_order_lines(uuid, jsonb) FROM anon;
+REVOKE ALL ON FUNCTION save_purchase_order_lines(uuid, jsonb) FROM authenticated;
+GRANT EXECUTE ON FUNCTION save_purchase_order_lines(uuid, jsonb) TO service_role;
+
+REVOKE ALL ON FUNCTION create_purchase_order(uuid, uuid, jsonb, date, text, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION create_purchase_order(uuid, uuid, jsonb, date, text, text) FROM anon;
+REVOKE ALL ON FUNCTION create_purchase_order(uuid, uuid, jsonb, date, text, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION create_purchase_order(uuid, uuid, jsonb, date, text, text) TO service_role;
+
+REVOKE ALL ON FUNCTION receive_purchase_order(uuid, jsonb, text, text, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION receive_purchase_order(uuid, jsonb, text, text, text) FROM anon;
+REVOKE ALL ON FUNCTION receive_purchase_order(uuid, jsonb, text, text, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION receive_purchase_order(uuid, jsonb, text, text, text) TO service_role;
+
+REVOKE ALL ON FUNCTION reorder_suggestions(uuid, int, int) FROM PUBLIC;
+REVOKE ALL ON FUNCTION reorder_suggestions(uuid, int, int) FROM anon;
+REVOKE ALL ON FUNCTION reorder_suggestions(uuid, int, int) FROM authenticated;
+GRANT EXECUTE ON FUNCTION reorder_suggestions(uuid, int, int) TO service_role;
+
+COMMENT ON FUNCTION save_purchase_order_lines(uuid, jsonb) IS 'Replace the lines of a draft PO. p_lines: [{ productId, sizeCode, qty, unitCost }].';
+COMMENT ON FUNCTION create_purchase_order(uuid, uuid, jsonb, date, text, text) IS 'Create a draft purchase order with lines.';
+COMMENT ON FUNCTION receive_purchase_order(uuid, jsonb, text, text, text) IS 'Receive against PO lines: GRN + stock via record_goods_receipt, qty_received, cost_price; status → partially_received / closed.';
+COMMENT ON FUNCTION reorder_suggestions(uuid, int, int) IS 'Reorder needs per product from reorder_level and sales velocity (p_days window, p_cover_days target cover).';
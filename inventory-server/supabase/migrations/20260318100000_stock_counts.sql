@@ -0,0 +1,261 @@
+-- Stock take / cycle counts with variance approval.
+-- 1) stock_counts / stock_count_lines: a session per warehouse (optionally one category). Starting a session
+--    freezes expected qty per product/size and the unit cost used for value impact.
+-- 2) record_stock_count: several staff count at once; 'add' increments (scans), 'set' overwrites (manual entry).
+-- 3) apply_stock_count: applies approved variances (counted − expected) to current stock in one transaction,
+--    so sales made after the freeze are kept, and writes stock_movements with reference_type = 'adjustment'.
+
+-- 1) Count sessions
+CREATE SEQUENCE IF NOT EXISTS stock_count_seq;
+
+CREATE TABLE IF NOT EXISTS stock_counts (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  count_number     text NOT NULL UNIQUE,
+  warehouse_id     uuid NOT NULL REFERENCES warehouses(id),
+  category         text,
+  status           text NOT NULL DEFAULT 'counting'
+                   CHECK (status IN ('counting', 'review', 'applied', 'cancelled')),
+  notes            text,
+  created_by_email text,
+  created_at       timestamptz NOT NULL DEFAULT now(),
+  submitted_at     timestamptz,
+  applied_by_email text,
+  applied_at       timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_counts_warehouse_created ON stock_counts(warehouse_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS stock_count_lines (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  count_id         uuid NOT NULL REFERENCES stock_counts(id) ON DELETE CASCADE,
+  product_id       uuid NOT NULL REFERENCES warehouse_products(id),
+  size_code        text,
+  expected_qty     int NOT NULL DEFAULT 0,
+  counted_qty      int CHECK (counted_qty IS NULL OR counted_qty >= 0),
+  unit_cost        numeric(12,2) NOT NULL DEFAULT 0,
+  approved         boolean NOT NULL DEFAULT true,
+  counted_by_email text,
+  updated_at       timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_count_lines_unique
+  ON stock_count_lines(count_id, product_id, COALESCE(size_code, ''));
+
+COMMENT ON TABLE stock_counts IS 'Stock take sessions. counting → review → applied (or cancelled).';
+COMMENT ON COLUMN stock_count_lines.expected_qty IS 'System qty frozen when the session started.';
+COMMENT ON COLUMN stock_count_lines.counted_qty IS 'NULL = not counted yet; uncounted lines are not adjusted.';
+
+ALTER TABLE stock_counts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_stock_counts" ON stock_counts;
+CREATE POLICY "service_role_stock_counts" ON stock_counts
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER TABLE stock_count_lines ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_stock_count_lines" ON stock_count_lines;
+CREATE POLICY "service_role_stock_count_lines" ON stock_count_lines
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 1a) start_stock_count — freeze expected qty for every product (in p_category when given).
+-- Sized products get one line per size row; others one line from warehouse_inventory.
+CREATE OR REPLACE FUNCTION start_stock_count(
+  p_warehouse_id     uuid,
+  p_category         text DEFAULT NULL,
+  p_notes            text DEFAULT NULL,
+  p_created_by_email text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count_id uuid := gen_random_uuid();
+  v_number   text;
+  v_category text := NULLIF(trim(p_category), '');
+  v_lines    int;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM warehouses WHERE id = p_warehouse_id) THEN
+    RAISE EXCEPTION 'Warehouse not found' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_number := 'CNT-'
+    || to_char(now(), 'YYYYMMDD')
+    || '-'
+    || lpad((nextval('stock_count_seq') % 10000)::text, 4, '0');
+
+  INSERT INTO stock_counts (id, count_number, warehouse_id, category, notes, created_by_email)
+  VALUES (v_count_id, v_number, p_warehouse_id, v_category, NULLIF(trim(p_notes), ''), p_created_by_email);
+
+  INSERT INTO stock_count_lines (count_id, product_id, size_code, expected_qty, unit_cost)
+  SELECT v_count_id, wp.id, bs.size_code, bs.quantity, COALESCE(wp.cost_price, 0)
+  FROM warehouse_products wp
+  JOIN warehouse_inventory_by_size bs ON bs.product_id = wp.id AND bs.warehouse_id = p_warehouse_id
+  WHERE wp.size_kind = 'sized'
+    AND (v_category IS NULL OR lower(wp.category) = lower(v_category));
+
+  INSERT INTO stock_count_lines (count_id, product_id, size_code, expected_qty, unit_cost)
+  SELECT v_count_id, wp.id, NULL, COALESCE(wi.quantity, 0), COALESCE(wp.cost_price, 0)
+  FROM warehouse_products wp
+  LEFT JOIN warehouse_inventory wi ON wi.product_id = wp.id AND wi.warehouse_id = p_warehouse_id
+  WHERE wp.size_kind IS DISTINCT FROM 'sized'
+    AND (v_category IS NULL OR lower(wp.category) = lower(v_category));
+
+  SELECT count(*) INTO v_lines FROM stock_count_lines WHERE count_id = v_count_id;
+
+  RETURN jsonb_build_object('id', v_count_id, 'countNumber', v_number, 'lineCount', v_lines);
+END;
+$$;
+
+-- 2) record_stock_count — p_entries: [{ productId, sizeCode, qty, mode: 'add' | 'set' }].
+-- A size found on the shelf but not in the system gets a new line with expected 0.
+CREATE OR REPLACE FUNCTION record_stock_count(
+  p_count_id uuid,
+  p_entries  jsonb,
+  p_by_email text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count      stock_counts%ROWTYPE;
+  v_entry      jsonb;
+  v_product_id uuid;
+  v_size_code  text;
+  v_qty        int;
+  v_mode       text;
+  v_size_kind  text;
+  v_cost       numeric;
+BEGIN
+  SELECT * INTO v_count FROM stock_counts WHERE id = p_count_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_count.status <> 'counting' THEN
+    RAISE EXCEPTION 'COUNT_NOT_OPEN' USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_entries, '[]'::jsonb))
+  LOOP
+    v_product_id := (v_entry->>'productId')::uuid;
+    v_size_code  := NULLIF(trim(upper(v_entry->>'sizeCode')), '');
+    v_qty        := (v_entry->>'qty')::int;
+    v_mode       := COALESCE(v_entry->>'mode', 'set');
+    IF v_qty IS NULL OR v_qty < 0 OR (v_mode = 'add' AND v_qty = 0) THEN
+      RAISE EXCEPTION 'Invalid count qty' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT size_kind, COALESCE(cost_price, 0) INTO v_size_kind, v_cost FROM warehouse_products WHERE id = v_product_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_size_kind = 'sized' AND v_size_code IS NULL THEN
+      RAISE EXCEPTION 'Size is required for sized products' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_size_kind IS DISTINCT FROM 'sized' THEN
+      v_size_code := NULL;
+    END IF;
+
+    INSERT INTO stock_count_lines (count_id, product_id, size_code, expected_qty, counted_qty, unit_cost, counted_by_email, updated_at)
+    VALUES (p_count_id, v_product_id, v_size_code, 0, v_qty, v_cost, p_by_email, now())
+    ON CONFLICT (count_id, product_id, COALESCE(size_code, ''))
+    DO UPDATE SET
+      counted_qty = CASE WHEN v_mode = 'add'
+                         THEN COALESCE(stock_count_lines.counted_qty, 0) + v_qty
+                         ELSE v_qty END,
+      counted_by_email = p_by_email,
+      updated_at = now();
+  END LOOP;
+
+  RETURN jsonb_build_object('id', p_count_id, 'entries', jsonb_array_length(COALESCE(p_entries, '[]'::jsonb)));
+END;
+$$;
+
+-- 3) apply_stock_count — apply approved, counted lines with a variance; status → applied.
+CREATE OR REPLACE FUNCTION apply_stock_count(
+  p_count_id uuid,
+  p_by_email text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count    stock_counts%ROWTYPE;
+  v_line     stock_count_lines%ROWTYPE;
+  v_delta    int;
+  v_applied  int := 0;
+  v_units    int := 0;
+  v_value    numeric := 0;
+BEGIN
+  SELECT * INTO v_count FROM stock_counts WHERE id = p_count_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_count.status NOT IN ('counting', 'review') THEN
+    RAISE EXCEPTION 'COUNT_NOT_OPEN' USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM stock_count_lines
+    WHERE count_id = p_count_id AND approved AND counted_qty IS NOT NULL AND counted_qty <> expected_qty
+  LOOP
+    v_delta := v_line.counted_qty - v_line.expected_qty;
+
+    IF v_line.size_code IS NOT NULL THEN
+      INSERT INTO warehouse_inventory_by_size (warehouse_id, product_id, size_code, quantity, updated_at)
+      VALUES (v_count.warehouse_id, v_line.product_id, v_line.size_code, greatest(0, v_delta), now())
+      ON CONFLICT (warehouse_id, product_id, size_code)
+      DO UPDATE SET quantity = greatest(0, warehouse_inventory_by_size.quantity + v_delta), updated_at = now();
+
+      INSERT INTO warehouse_inventory (warehouse_id, product_id, quantity, updated_at)
+      SELECT v_count.warehouse_id, v_line.product_id, COALESCE(SUM(quantity), 0), now()
+      FROM warehouse_inventory_by_size
+      WHERE warehouse_id = v_count.warehouse_id AND product_id = v_line.product_id
+      ON CONFLICT (warehouse_id, product_id)
+      DO UPDATE SET quantity = EXCLUDED.quantity, updated_at = now();
+    ELSE
+      INSERT INTO warehouse_inventory (warehouse_id, product_id, quantity, updated_at)
+      VALUES (v_count.warehouse_id, v_line.product_id, greatest(0, v_delta), now())
+      ON CONFLICT (warehouse_id, product_id)
+      DO UPDATE SET quantity = greatest(0, warehouse_inventory.quantity + v_delta), updated_at = now();
+    END IF;
+
+    INSERT INTO stock_movements (warehouse_id, product_id, size_code, quantity_delta, reference_type, reference_id)
+    VALUES (v_count.warehouse_id, v_line.product_id, v_line.size_code, v_delta, 'adjustment', p_count_id);
+
+    v_applied := v_applied + 1;
+    v_units   := v_units + v_delta;
+    v_value   := v_value + v_delta * v_line.unit_cost;
+  END LOOP;
+
+  UPDATE stock_counts
+  SET status = 'applied', applied_at = now(), applied_by_email = p_by_email,
+      submitted_at = COALESCE(submitted_at, now())
+  WHERE id = p_count_id;
+
+  RETURN jsonb_build_object('id', p_count_id, 'status', 'applied', 'linesAdjusted', v_applied,
+                            'unitsDelta', v_units, 'valueDelta', round(v_value, 2));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION start_stock_count(uuid, text, text, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION start_stock_count(uuid, text, text, text) FROM anon;
+REVOKE ALL ON FUNCTION start_stock_count(uuid, text, text, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION start_stock_count(uuid, text, text, text) TO service_role;
+
+REVOKE ALL ON FUNCTION record_stock_count(uuid, jsonb, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION record_stock_count(uuid, jsonb, text) FROM anon;
+REVOKE ALL ON FUNCTION record_stock_count(uuid, jsonb, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION record_stock_count(uuid, jsonb, text) TO service_role;
+
+REVOKE ALL ON FUNCTION apply_stock_count(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION apply_stock_count(uuid, text) FROM anon;
+REVOKE ALL ON FUNCTION apply_stock_count(uuid, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION apply_stock_count(uuid, text) TO service_role;
+
+COMMENT ON FUNCTION start_stock_count(uuid, text, text, text) IS 'Start a stock take: freeze expected qty and unit cost per product/size (optionally one category).';
+COMMENT ON FUNCTION record_stock_count(uuid, jsonb, text) IS 'Record counts. p_entries: [{ productId, sizeCode, qty, mode: add|set }]. add increments (scanning), set overwrites.';
+COMMENT ON FUNCTION apply_stock_count(uuid, text) IS 'Apply approved variances (counted − expected) to current stock; stock_movements reference_type = adjustment.';
@@ -0,0 +1,263 @@
+-- Reason-coded stock adjustments (damaged, lost, theft, found, gift, correction).
+-- 1) stock_movements.reason_code so shrinkage can be reported by reason.
+-- 2) stock_adjustments / stock_adjustment_lines: one document per adjustment, per-size deltas, cost frozen at
+--    request time. status: pending (waiting for a manager) → applied | rejected.
+-- 3) RPCs: create_stock_adjustment (applies at once when the requester may approve or the adjustment is within
+--    the limits; otherwise leaves it pending), approve_stock_adjustment, reject_stock_adjustment.
+
+-- 1) stock_movements column
+ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS reason_code text;
+CREATE INDEX IF NOT EXISTS idx_stock_movements_reason ON stock_movements(reason_code, created_at DESC)
+  WHERE reason_code IS NOT NULL;
+
+COMMENT ON COLUMN stock_movements.reason_code IS 'Adjustment reason (damaged, lost, theft, found, gift, correction); null for other movements.';
+
+-- 2) Adjustment documents
+CREATE SEQUENCE IF NOT EXISTS stock_adjustment_seq;
+
+CREATE TABLE IF NOT EXISTS stock_adjustments (
+  id                  uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  adjustment_number   text NOT NULL UNIQUE,
+  warehouse_id        uuid NOT NULL REFERENCES warehouses(id),
+  reason_code         text NOT NULL
+                      CHECK (reason_code IN ('damaged', 'lost', 'theft', 'found', 'gift', 'correction')),
+  note                text NOT NULL,
+  status              text NOT NULL DEFAULT 'pending'
+                      CHECK (status IN ('pending', 'applied', 'rejected')),
+  units_delta         int NOT NULL DEFAULT 0,
+  value_delta         numeric(12,2) NOT NULL DEFAULT 0,
+  requested_by_email  text,
+  decided_by_email    text,
+  created_at          timestamptz NOT NULL DEFAULT now(),
+  decided_at          timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_adjustments_warehouse ON stock_adjustments(warehouse_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_adjustments_pending ON stock_adjustments(warehouse_id) WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS stock_adjustment_lines (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  adjustment_id uuid NOT NULL REFERENCES stock_adjustments(id) ON DELETE CASCADE,
+  product_id    uuid NOT NULL REFERENCES warehouse_products(id),
+  size_code     text,
+  qty_delta     int NOT NULL CHECK (qty_delta <> 0),
+  unit_cost     numeric(12,2) NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_adjustment_lines_adjustment ON stock_adjustment_lines(adjustment_id);
+
+COMMENT ON TABLE stock_adjustments IS 'Manual stock corrections with a reason. pending = above the approval limit, waiting for a manager.';
+
+ALTER TABLE stock_adjustments ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_stock_adjustments" ON stock_adjustments;
+CREATE POLICY "service_role_stock_adjustments" ON stock_adjustments
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER TABLE stock_adjustment_lines ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_stock_adjustment_lines" ON stock_adjustment_lines;
+CREATE POLICY "service_role_stock_adjustment_lines" ON stock_adjustment_lines
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 3a) Internal: post a pending adjustment to stock. Caller holds the row lock.
+CREATE OR REPLACE FUNCTION _post_stock_adjustment(p_adjustment_id uuid, p_by_email text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_adj     stock_adjustments%ROWTYPE;
+  v_line    stock_adjustment_lines%ROWTYPE;
+  v_current int;
+BEGIN
+  SELECT * INTO v_adj FROM stock_adjustments WHERE id = p_adjustment_id;
+
+  FOR v_line IN SELECT * FROM stock_adjustment_lines WHERE adjustment_id = p_adjustment_id LOOP
+    IF v_line.size_code IS NOT NULL THEN
+      SELECT quantity INTO v_current FROM warehouse_inventory_by_size
+      WHERE warehouse_id = v_adj.warehouse_id AND product_id = v_line.product_id AND size_code = v_line.size_code
+      FOR UPDATE;
+    ELSE
+      SELECT quantity INTO v_current FROM warehouse_inventory
+      WHERE warehouse_id = v_adj.warehouse_id AND product_id = v_line.product_id
+      FOR UPDATE;
+    END IF;
+    IF COALESCE(v_current, 0) + v_line.qty_delta < 0 THEN
+      RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001',
+        DETAIL = format('product %s size %s: on hand %s, delta %s',
+                        v_line.product_id, COALESCE(v_line.size_code, '-'), COALESCE(v_current, 0), v_line.qty_delta);
+    END IF;
+
+    IF v_line.size_code IS NOT NULL THEN
+      INSERT INTO warehouse_inventory_by_size (warehouse_id, product_id, size_code, quantity, updated_at)
+      VALUES (v_adj.warehouse_id, v_line.product_id, v_line.size_code, v_line.qty_delta, now())
+      ON CONFLICT (warehouse_id, product_id, size_code)
+      DO UPDATE SET quantity = warehouse_inventory_by_size.quantity + v_line.qty_delta, updated_at = now();
+
+      INSERT INTO warehouse_inventory (warehouse_id, product_id, quantity, updated_at)
+      SELECT v_adj.warehouse_id, v_line.product_id, COALESCE(SUM(quantity), 0), now()
+      FROM warehouse_inventory_by_size
+      WHERE warehouse_id = v_adj.warehouse_id AND product_id = v_line.product_id
+      ON CONFLICT (warehouse_id, product_id)
+      DO UPDATE SET quantity = EXCLUDED.quantity, updated_at = now();
+    ELSE
+      INSERT INTO warehouse_inventory (warehouse_id, product_id, quantity, updated_at)
+      VALUES (v_adj.warehouse_id, v_line.product_id, v_line.qty_delta, now())
+      ON CONFLICT (warehouse_id, product_id)
+      DO UPDATE SET quantity = warehouse_inventory.quantity + v_line.qty_delta, updated_at = now();
+    END IF;
+
+    INSERT INTO stock_movements (warehouse_id, product_id, size_code, quantity_delta, reference_type, reference_id, reason_code)
+    VALUES (v_adj.warehouse_id, v_line.product_id, v_line.size_code, v_line.qty_delta, 'adjustment', p_adjustment_id, v_adj.reason_code);
+  END LOOP;
+
+  UPDATE stock_adjustments
+  SET status = 'applied', decided_by_email = p_by_email, decided_at = now()
+  WHERE id = p_adjustment_id;
+END;
+$$;
+
+-- 3b) create_stock_adjustment — p_lines: [{ productId, sizeCode, delta }].
+-- Applied immediately when p_can_approve, or when |units| ≤ p_max_units and |value| ≤ p_max_value.
+CREATE OR REPLACE FUNCTION create_stock_adjustment(
+  p_warehouse_id       uuid,
+  p_reason_code        text,
+  p_note               text,
+  p_lines              jsonb,
+  p_requested_by_email text DEFAULT NULL,
+  p_can_approve        boolean DEFAULT false,
+  p_max_units          int DEFAULT 10,
+  p_max_value          numeric DEFAULT 500
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id        uuid := gen_random_uuid();
+  v_number    text;
+  v_line      jsonb;
+  v_product   warehouse_products%ROWTYPE;
+  v_size      text;
+  v_delta     int;
+  v_units     int := 0;
+  v_abs_units int := 0;
+  v_value     numeric := 0;
+  v_abs_value numeric := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM warehouses WHERE id = p_warehouse_id) THEN
+    RAISE EXCEPTION 'Warehouse not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF NULLIF(trim(p_note), '') IS NULL THEN
+    RAISE EXCEPTION 'A note is required' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_lines IS NULL OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'At least one line is required' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_number := 'ADJ-' || to_char(now(), 'YYYYMMDD') || '-' || lpad((nextval('stock_adjustment_seq') % 10000)::text, 4, '0');
+  INSERT INTO stock_adjustments (id, adjustment_number, warehouse_id, reason_code, note, requested_by_email)
+  VALUES (v_id, v_number, p_warehouse_id, p_reason_code, trim(p_note), p_requested_by_email);
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_delta := (v_line->>'delta')::int;
+    v_size  := NULLIF(upper(trim(COALESCE(v_line->>'sizeCode', ''))), '');
+    IF v_delta IS NULL OR v_delta = 0 THEN
+      RAISE EXCEPTION 'Invalid adjustment delta' USING ERRCODE = 'P0001';
+    END IF;
+    SELECT * INTO v_product FROM warehouse_products WHERE id = (v_line->>'productId')::uuid;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_product.size_kind = 'sized' AND v_size IS NULL THEN
+      RAISE EXCEPTION 'Size is required for sized products' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_product.size_kind <> 'sized' THEN
+      v_size := NULL;
+    END IF;
+
+    INSERT INTO stock_adjustment_lines (adjustment_id, product_id, size_code, qty_delta, unit_cost)
+    VALUES (v_id, v_product.id, v_size, v_delta, COALESCE(v_product.cost_price, 0));
+
+    v_units     := v_units + v_delta;
+    v_abs_units := v_abs_units + abs(v_delta);
+    v_value     := v_value + v_delta * COALESCE(v_product.cost_price, 0);
+    v_abs_value := v_abs_value + abs(v_delta) * COALESCE(v_product.cost_price, 0);
+  END LOOP;
+
+  UPDATE stock_adjustments SET units_delta = v_units, value_delta = round(v_value, 2) WHERE id = v_id;
+
+  IF p_can_approve OR (v_abs_units <= p_max_units AND v_abs_value <= p_max_value) THEN
+    PERFORM _post_stock_adjustment(v_id, CASE WHEN p_can_approve THEN p_requested_by_email END);
+    RETURN jsonb_build_object('id', v_id, 'adjustmentNumber', v_number, 'status', 'applied');
+  END IF;
+
+  RETURN jsonb_build_object('id', v_id, 'adjustmentNumber', v_number, 'status', 'pending');
+END;
+$$;
+
+-- 3c) approve / reject a pending adjustment (manager).
+CREATE OR REPLACE FUNCTION approve_stock_adjustment(p_adjustment_id uuid, p_by_email text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+BEGIN
+  SELECT status INTO v_status FROM stock_adjustments WHERE id = p_adjustment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_status <> 'pending' THEN
+    RAISE EXCEPTION 'ADJUSTMENT_NOT_PENDING' USING ERRCODE = 'P0001';
+  END IF;
+  PERFORM _post_stock_adjustment(p_adjustment_id, p_by_email);
+  RETURN jsonb_build_object('id', p_adjustment_id, 'status', 'applied');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_stock_adjustment(p_adjustment_id uuid, p_by_email text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE stock_adjustments
+  SET status = 'rejected', decided_by_email = p_by_email, decided_at = now()
+  WHERE id = p_adjustment_id AND status = 'pending';
+  IF NOT FOUND THEN
+    IF NOT EXISTS (SELECT 1 FROM stock_adjustments WHERE id = p_adjustment_id) THEN
+      RAISE EXCEPTION 'Adjustment not found' USING ERRCODE = 'P0001';
+    END IF;
+    RAISE EXCEPTION 'ADJUSTMENT_NOT_PENDING' USING ERRCODE = 'P0001';
+  END IF;
+  RETURN jsonb_build_object('id', p_adjustment_id, 'status', 'rejected');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION _post_stock_adjustment(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION _post_stock_adjustment(uuid, text) FROM anon;
+REVOKE ALL ON FUNCTION _post_stock_adjustment(uuid, text) FROM authenticated;
+
+REVOKE ALL ON FUNCTION create_stock_adjustment(uuid, text, text, jsonb, text, boolean, int, numeric) FROM PUBLIC;
+REVOKE ALL ON FUNCTION create_stock_adjustment(uuid, text, text, jsonb, text, boolean, int, numeric) FROM anon;
+REVOKE ALL ON FUNCTION create_stock_adjustment(uuid, text, text, jsonb, text, boolean, int, numeric) FROM authenticated;
+GRANT EXECUTE ON FUNCTION create_stock_adjustment(uuid, text, text, jsonb, text, boolean, int, numeric) TO service_role;
+
+REVOKE ALL ON FUNCTION approve_stock_adjustment(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION approve_stock_adjustment(uuid, text) FROM anon;
+REVOKE ALL ON FUNCTION approve_stock_adjustment(uuid, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION approve_stock_adjustment(uuid, text) TO service_role;
+
+REVOKE ALL ON FUNCTION reject_stock_adjustment(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION reject_stock_adjustment(uuid, text) FROM anon;
+REVOKE ALL ON FUNCTION reject_stock_adjustment(uuid, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION reject_stock_adjustment(uuid, text) TO service_role;
+
+COMMENT ON FUNCTION create_stock_adjustment(uuid, text, text, jsonb, text, boolean, int, numeric) IS 'Reason-coded adjustment. p_lines: [{ productId, sizeCode, delta }]. Applies now if p_can_approve or within p_max_units / p_max_value, else pending.';
+COMMENT ON FUNCTION approve_stock_adjustment(uuid, text) IS 'Manager approval: post a pending adjustment to stock (stock_movements reference_type = adjustment, reason_code set).';
+COMMENT ON FUNCTION reject_stock_adjustment(uuid, text) IS 'Manager rejection of a pending adjustment; stock is not changed.';
@@ -0,0 +1,321 @@
+-- Customer directory keyed by phone number.
+-- 1) customers: one row per phone (stored normalised, e.g. 233244123456). Name / email / notes editable.
+-- 2) sales.customer_id: sales rung up for a directory customer; customer_name / customer_email stay as the
+--    snapshot printed on the receipt.
+-- 3) customer_sales_summary view: visits, lifetime spend (net of returns) and last visit per customer.
+-- 4) record_sale: p_customer_id / p_customer_email (the email-only overload was dropped in 20260312000001).
+
+-- 1) Customers
+CREATE TABLE IF NOT EXISTS customers (
+  id          uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone       text NOT NULL UNIQUE CHECK (phone ~ '^[0-9]{7,15}$'),
+  name        text NOT NULL,
+  email       text,
+  notes       text,
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  updated_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customers_name_lower ON customers(lower(name));
+
+COMMENT ON TABLE customers IS 'Customer directory. phone is digits only, Ghana numbers in 233XXXXXXXXX form (see lib/data/customers.ts normalizePhone).';
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_customers" ON customers;
+CREATE POLICY "service_role_customers" ON customers
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 2) Link sales
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES customers(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_sales_customer_created ON sales(customer_id, created_at DESC) WHERE customer_id IS NOT NULL;
+
+-- 3) Summary view
+CREATE OR REPLACE VIEW customer_sales_summary AS
+SELECT
+  c.id                                                           AS customer_id,
+  COUNT(s.id)::int                                               AS visit_count,
+  (COALESCE(SUM(s.total), 0) - COALESCE(SUM(r.refunded), 0))::numeric(12,2) AS lifetime_spend,
+  MAX(s.created_at)                                              AS last_visit_at
+FROM customers c
+LEFT JOIN sales s ON s.customer_id = c.id AND s.status IS DISTINCT FROM 'voided'
+LEFT JOIN (
+  SELECT sale_id, SUM(refund_amount) AS refunded FROM sale_returns GROUP BY sale_id
+) r ON r.sale_id = s.id
+GROUP BY c.id;
+
+COMMENT ON VIEW customer_sales_summary IS 'Per customer: non-voided visits, lifetime spend net of refunds, last visit.';
+
+REVOKE ALL ON customer_sales_summary FROM anon, authenticated;
+GRANT SELECT ON customer_sales_summary TO service_role;
+
+-- 4) record_sale with customer (replace the 13-param version so only one candidate exists)
+DROP FUNCTION IF EXISTS record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text);
+
+CREATE OR REPLACE FUNCTION record_sale(
+  p_warehouse_id    uuid,
+  p_lines           jsonb,
+  p_subtotal        numeric,
+  p_discount_pct    numeric,
+  p_discount_amt    numeric,
+  p_total           numeric,
+  p_payment_method  text,
+  p_customer_name   text DEFAULT NULL,
+  p_sold_by         uuid DEFAULT NULL,
+  p_sold_by_email   text DEFAULT NULL,
+  p_delivery_schedule jsonb DEFAULT NULL,
+  p_idempotency_key   text  DEFAULT NULL,
+  p_request_hash      text  DEFAULT NULL,
+  p_customer_id       uuid  DEFAULT NULL,
+  p_customer_email    text  DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale_id           uuid := gen_random_uuid();
+  v_receipt_id        text;
+  v_item_count        int  := 0;
+  v_line              jsonb;
+  v_product_id         uuid;
+  v_size_code         text;
+  v_qty               int;
+  v_unit_price        numeric;
+  v_line_total        numeric;
+  v_name              text;
+  v_sku               text;
+  v_image_url         text;
+  v_size_kind         text;
+  v_current_qty        int;
+  v_reserved_qty      int;
+  v_cost_price        numeric;
+  v_is_delivery       boolean;
+  v_single_size_code  text;   -- for one-size when sizeCode is null
+  v_size_row_count     int;
+  v_idem              sale_idempotency_keys%ROWTYPE;
+  v_result            jsonb;
+  v_customer          customers%ROWTYPE;
+  v_customer_name     text := NULLIF(trim(p_customer_name), '');
+  v_customer_email    text := NULLIF(trim(p_customer_email), '');
+  v_customer_id       uuid;
+BEGIN
+  -- Idempotency: serialize concurrent requests with the same key, then replay or reject.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended('sale_idempotency:' || p_idempotency_key, 0));
+    SELECT * INTO v_idem
+    FROM sale_idempotency_keys
+    WHERE idempotency_key = p_idempotency_key AND expires_at > now();
+    IF FOUND THEN
+      IF v_idem.request_hash IS DISTINCT FROM p_request_hash THEN
+        RAISE EXCEPTION 'IDEMPOTENCY_KEY_CONFLICT' USING ERRCODE = 'P0001';
+      END IF;
+      RETURN v_idem.response || jsonb_build_object('idempotentReplay', true);
+    END IF;
+  END IF;
+
+  -- Directory customer: fill name / email from the profile when the cart did not send them. An unknown id
+  -- (e.g. customer deleted before an offline sale synced) just leaves the sale unlinked.
+  IF p_customer_id IS NOT NULL THEN
+    SELECT * INTO v_customer FROM customers WHERE id = p_customer_id;
+    IF FOUND THEN
+      v_customer_id    := v_customer.id;
+      v_customer_name  := COALESCE(v_customer_name, v_customer.name);
+      v_customer_email := COALESCE(v_customer_email, v_customer.email);
+    END IF;
+  END IF;
+
+  v_is_delivery := (p_delivery_schedule IS NOT NULL AND jsonb_typeof(p_delivery_schedule) = 'object');
+
+  v_receipt_id := 'RCP-'
+    || to_char(now(), 'YYYYMMDD')
+    || '-'
+    || lpad((nextval('receipt_seq') % 10000)::text, 4, '0');
+
+  INSERT INTO sales (
+    id, warehouse_id, customer_name, customer_email, customer_id, payment_method,
+    subtotal, discount_pct, discount_amt, total,
+    receipt_id, status, sold_by, sold_by_email, created_at,
+    delivery_schedule, delivery_status
+  ) VALUES (
+    v_sale_id, p_warehouse_id, v_customer_name, v_customer_email, v_customer_id, p_payment_method,
+    p_subtotal, p_discount_pct, p_discount_amt, p_total,
+    v_receipt_id, 'completed', p_sold_by, p_sold_by_email, now(),
+    CASE WHEN v_is_delivery THEN p_delivery_schedule ELSE NULL END,
+    CASE WHEN v_is_delivery THEN 'pending'::text ELSE NULL END
+  );
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_product_id := (v_line->>'productId')::uuid;
+    v_size_code  := NULLIF(trim(upper(v_line->>'sizeCode')), '');
+    v_qty        := GREATEST(1, (v_line->>'qty')::int);
+    v_unit_price := COALESCE((v_line->>'unitPrice')::numeric, 0);
+    v_line_total := COALESCE((v_line->>'lineTotal')::numeric, v_unit_price * v_qty);
+    v_name       := COALESCE(v_line->>'name', 'Unknown');
+    v_sku        := COALESCE(v_line->>'sku', '');
+    v_image_url  := NULLIF(trim(v_line->>'imageUrl'), '');
+    v_item_count := v_item_count + v_qty;
+
+    SELECT cost_price INTO v_cost_price FROM warehouse_products WHERE id = v_product_id;
+    v_cost_price := COALESCE(v_cost_price, 0);
+    SELECT size_kind INTO v_size_kind FROM warehouse_products WHERE id = v_product_id;
+
+    IF v_is_delivery THEN
+      -- Scheduled delivery: reserve (check available = quantity - reserved >= qty)
+      IF v_size_kind = 'sized' AND v_size_code IS NOT NULL THEN
+        SELECT COALESCE(quantity, 0) INTO v_current_qty
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+          AND upper(trim(size_code)) = v_size_code
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        SELECT COALESCE(SUM(sr.qty), 0)::int INTO v_reserved_qty
+        FROM sale_reservations sr
+        WHERE sr.warehouse_id = p_warehouse_id AND sr.product_id = v_product_id
+          AND upper(trim(COALESCE(sr.size_code, ''))) = v_size_code;
+        IF (v_current_qty - v_reserved_qty) < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        INSERT INTO sale_reservations (sale_id, warehouse_id, product_id, size_code, qty)
+        VALUES (v_sale_id, p_warehouse_id, v_product_id, v_size_code, v_qty);
+      ELSE
+        SELECT COALESCE(quantity, 0) INTO v_current_qty
+        FROM warehouse_inventory
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        SELECT COALESCE(SUM(sr.qty), 0)::int INTO v_reserved_qty
+        FROM sale_reservations sr
+        WHERE sr.warehouse_id = p_warehouse_id AND sr.product_id = v_product_id
+          AND (sr.size_code IS NULL OR trim(sr.size_code) = '');
+        IF (v_current_qty - v_reserved_qty) < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        INSERT INTO sale_reservations (sale_id, warehouse_id, product_id, size_code, qty)
+        VALUES (v_sale_id, p_warehouse_id, v_product_id, NULL, v_qty);
+      END IF;
+      INSERT INTO sale_lines (
+        id, sale_id, product_id, size_code, product_name, product_sku,
+        unit_price, qty, line_total, product_image_url, cost_price, created_at
+      ) VALUES (
+        gen_random_uuid(), v_sale_id, v_product_id, v_size_code, v_name, v_sku,
+        v_unit_price, v_qty, v_line_total, v_image_url, v_cost_price, now()
+      );
+    ELSE
+      -- Direct sale: deduct immediately
+      IF v_size_kind = 'sized' AND v_size_code IS NOT NULL THEN
+        -- Sized product with size selected: case-insensitive match
+        SELECT quantity INTO v_current_qty
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+          AND upper(trim(size_code)) = v_size_code
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        IF v_current_qty < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        UPDATE warehouse_inventory_by_size
+        SET quantity = quantity - v_qty, updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+          AND upper(trim(size_code)) = v_size_code;
+        UPDATE warehouse_inventory
+        SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id),
+            updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+      ELSIF v_size_kind = 'sized' AND v_size_code IS NULL THEN
+        -- One-size product (sizeCode not sent): deduct from the single by_size row if exactly one
+        SELECT count(*) INTO v_size_row_count
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+        IF v_size_row_count = 0 THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        IF v_size_row_count > 1 THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK: size required for multi-size product' USING ERRCODE = 'P0001';
+        END IF;
+        SELECT size_code, quantity INTO v_single_size_code, v_current_qty
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+        FOR UPDATE;
+        IF v_current_qty < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        UPDATE warehouse_inventory_by_size
+        SET quantity = quantity - v_qty, updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+        UPDATE warehouse_inventory
+        SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id),
+            updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+        v_size_code := v_single_size_code;  -- for sale_lines.size_code
+      ELSE
+        -- Non-sized: deduct from warehouse_inventory
+        SELECT quantity INTO v_current_qty
+        FROM warehouse_inventory
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        IF v_current_qty < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        UPDATE warehouse_inventory
+        SET quantity = quantity - v_qty, updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+      END IF;
+      INSERT INTO sale_lines (
+        id, sale_id, product_id, size_code, product_name, product_sku,
+        unit_price, qty, line_total, product_image_url, cost_price, created_at
+      ) VALUES (
+        gen_random_uuid(), v_sale_id, v_product_id, v_size_code, v_name, v_sku,
+        v_unit_price, v_qty, v_line_total, v_image_url, v_cost_price, now()
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE sales SET item_count = v_item_count WHERE id = v_sale_id;
+
+  v_result := jsonb_build_object(
+    'id',         v_sale_id,
+    'receiptId',  v_receipt_id,
+    'total',      p_total,
+    'itemCount',  v_item_count,
+    'status',     'completed',
+    'createdAt',  now(),
+    'customerId', v_customer_id
+  );
+
+  -- Stored in the same transaction as the sale: either both commit or neither does.
+  IF p_idempotency_key IS NOT NULL THEN
+    INSERT INTO sale_idempotency_keys (idempotency_key, request_hash, warehouse_id, sale_id, response, created_at, expires_at)
+    VALUES (p_idempotency_key, p_request_hash, p_warehouse_id, v_sale_id, v_result, now(), now() + interval '24 hours')
+    ON CONFLICT (idempotency_key) DO UPDATE
+      SET request_hash = EXCLUDED.request_hash,
+          warehouse_id = EXCLUDED.warehouse_id,
+          sale_id      = EXCLUDED.sale_id,
+          response     = EXCLUDED.response,
+          created_at   = EXCLUDED.created_at,
+          expires_at   = EXCLUDED.expires_at;
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+COMMENT ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text) IS
+  'Record sale: direct sale = deduct stock now; delivery sale = reserve only. Optional idempotency key: replays return the stored response, different payload raises IDEMPOTENCY_KEY_CONFLICT. Optional p_customer_id links the sale to the customer directory.';
+
+REVOKE ALL ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text) FROM anon;
+REVOKE EXECUTE ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text) TO service_role;
@@ -0,0 +1,701 @@
+-- Loyalty points and store credit for directory customers.
+-- 1) loyalty_ledger / store_credit_ledger: append-only; a balance is the sum of a customer's entries.
+-- 2) customer_balances view: points and store-credit balance per customer.
+-- 3) record_sale: p_payments (mixed breakdown, persisted to sales.payments_breakdown again), points / store
+--    credit as tender (whole or as mixed legs), points earned on the rest. Earn rate and point value are passed
+--    by POST /api/sales (env LOYALTY_POINTS_PER_CEDI / LOYALTY_POINT_VALUE).
+-- 4) record_return: refund_method 'store_credit' credits the sale's customer; points earned are clawed back in
+--    proportion to the refund.
+-- 5) void_sale: reverse the sale's points and give back store credit spent on it.
+
+-- 1) Ledgers
+CREATE TABLE IF NOT EXISTS loyalty_ledger (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id      uuid NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+  points           int  NOT NULL CHECK (points <> 0),
+  entry_type       text NOT NULL CHECK (entry_type IN ('earn', 'redeem', 'reversal', 'adjustment')),
+  sale_id          uuid,
+  return_id        uuid,
+  note             text,
+  created_by_email text,
+  created_at       timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_customer_created ON loyalty_ledger(customer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_sale ON loyalty_ledger(sale_id) WHERE sale_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS store_credit_ledger (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id      uuid NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+  amount           numeric(12,2) NOT NULL CHECK (amount <> 0),
+  entry_type       text NOT NULL CHECK (entry_type IN ('refund', 'redeem', 'reversal', 'adjustment')),
+  sale_id          uuid,
+  return_id        uuid,
+  note             text,
+  created_by_email text,
+  created_at       timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_credit_ledger_customer_created ON store_credit_ledger(customer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_store_credit_ledger_sale ON store_credit_ledger(sale_id) WHERE sale_id IS NOT NULL;
+
+COMMENT ON TABLE loyalty_ledger IS 'Append-only points ledger. sale_id / return_id are references only (no FK) so clearing sales history keeps balances.';
+COMMENT ON TABLE store_credit_ledger IS 'Append-only store-credit ledger (GH₵). Refunds in, redemptions out; corrections are new adjustment rows.';
+
+CREATE OR REPLACE FUNCTION _ledger_append_only()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'LEDGER_APPEND_ONLY: % rows cannot be changed or deleted', TG_TABLE_NAME USING ERRCODE = 'P0001';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_loyalty_ledger_append_only ON loyalty_ledger;
+CREATE TRIGGER trg_loyalty_ledger_append_only
+  BEFORE UPDATE OR DELETE ON loyalty_ledger
+  FOR EACH ROW EXECUTE FUNCTION _ledger_append_only();
+
+DROP TRIGGER IF EXISTS trg_store_credit_ledger_append_only ON store_credit_ledger;
+CREATE TRIGGER trg_store_credit_ledger_append_only
+  BEFORE UPDATE OR DELETE ON store_credit_ledger
+  FOR EACH ROW EXECUTE FUNCTION _ledger_append_only();
+
+ALTER TABLE loyalty_ledger ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_loyalty_ledger" ON loyalty_ledger;
+CREATE POLICY "service_role_loyalty_ledger" ON loyalty_ledger
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER TABLE store_credit_ledger ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_store_credit_ledger" ON store_credit_ledger;
+CREATE POLICY "service_role_store_credit_ledger" ON store_credit_ledger
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 2) Balances
+CREATE OR REPLACE VIEW customer_balances AS
+SELECT
+  c.id                                                                          AS customer_id,
+  COALESCE((SELECT SUM(l.points) FROM loyalty_ledger l WHERE l.customer_id = c.id), 0)::int            AS points_balance,
+  COALESCE((SELECT SUM(s.amount) FROM store_credit_ledger s WHERE s.customer_id = c.id), 0)::numeric(12,2) AS store_credit_balance
+FROM customers c;
+
+COMMENT ON VIEW customer_balances IS 'Current loyalty points and store-credit balance per customer (sum of ledger entries).';
+
+REVOKE ALL ON customer_balances FROM anon, authenticated;
+GRANT SELECT ON customer_balances TO service_role;
+
+-- 3) record_sale with tender from balances (replace the 15-param version so only one candidate exists)
+DROP FUNCTION IF EXISTS record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text);
+
+CREATE OR REPLACE FUNCTION record_sale(
+  p_warehouse_id    uuid,
+  p_lines           jsonb,
+  p_subtotal        numeric,
+  p_discount_pct    numeric,
+  p_discount_amt    numeric,
+  p_total           numeric,
+  p_payment_method  text,
+  p_customer_name   text DEFAULT NULL,
+  p_sold_by         uuid DEFAULT NULL,
+  p_sold_by_email   text DEFAULT NULL,
+  p_delivery_schedule jsonb DEFAULT NULL,
+  p_idempotency_key   text  DEFAULT NULL,
+  p_request_hash      text  DEFAULT NULL,
+  p_customer_id       uuid  DEFAULT NULL,
+  p_customer_email    text  DEFAULT NULL,
+  p_payments          jsonb DEFAULT NULL,
+  p_points_per_cedi   numeric DEFAULT 1,
+  p_point_value       numeric DEFAULT 0.01
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale_id           uuid := gen_random_uuid();
+  v_receipt_id        text;
+  v_item_count        int  := 0;
+  v_line              jsonb;
+  v_product_id         uuid;
+  v_size_code         text;
+  v_qty               int;
+  v_unit_price        numeric;
+  v_line_total        numeric;
+  v_name              text;
+  v_sku               text;
+  v_image_url         text;
+  v_size_kind         text;
+  v_current_qty        int;
+  v_reserved_qty      int;
+  v_cost_price        numeric;
+  v_is_delivery       boolean;
+  v_single_size_code  text;   -- for one-size when sizeCode is null
+  v_size_row_count     int;
+  v_idem              sale_idempotency_keys%ROWTYPE;
+  v_result            jsonb;
+  v_customer          customers%ROWTYPE;
+  v_customer_name     text := NULLIF(trim(p_customer_name), '');
+  v_customer_email    text := NULLIF(trim(p_customer_email), '');
+  v_customer_id       uuid;
+  v_method            text := lower(trim(p_payment_method));
+  v_is_mixed          boolean;
+  v_points_tender     numeric := 0;
+  v_credit_tender     numeric := 0;
+  v_points_balance    int;
+  v_credit_balance    numeric;
+  v_points_redeemed   int := 0;
+  v_points_earned     int := 0;
+BEGIN
+  -- Idempotency: serialize concurrent requests with the same key, then replay or reject.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended('sale_idempotency:' || p_idempotency_key, 0));
+    SELECT * INTO v_idem
+    FROM sale_idempotency_keys
+    WHERE idempotency_key = p_idempotency_key AND expires_at > now();
+    IF FOUND THEN
+      IF v_idem.request_hash IS DISTINCT FROM p_request_hash THEN
+        RAISE EXCEPTION 'IDEMPOTENCY_KEY_CONFLICT' USING ERRCODE = 'P0001';
+      END IF;
+      RETURN v_idem.response || jsonb_build_object('idempotentReplay', true);
+    END IF;
+  END IF;
+
+  -- Directory customer: fill name / email from the profile when the cart did not send them. An unknown id
+  -- (e.g. customer deleted before an offline sale synced) just leaves the sale unlinked.
+  -- FOR UPDATE: concurrent sales for one customer take turns checking and spending the balances.
+  IF p_customer_id IS NOT NULL THEN
+    SELECT * INTO v_customer FROM customers WHERE id = p_customer_id FOR UPDATE;
+    IF FOUND THEN
+      v_customer_id    := v_customer.id;
+      v_customer_name  := COALESCE(v_customer_name, v_customer.name);
+      v_customer_email := COALESCE(v_customer_email, v_customer.email);
+    END IF;
+  END IF;
+
+  -- Tender paid from balances: the whole total, or the points / store_credit legs of a mixed payment.
+  v_is_mixed := v_method = 'mixed' AND p_payments IS NOT NULL AND jsonb_typeof(p_payments) = 'array';
+  IF v_method = 'points' THEN
+    v_points_tender := p_total;
+  ELSIF v_method = 'store_credit' THEN
+    v_credit_tender := p_total;
+  ELSIF v_is_mixed THEN
+    SELECT
+      COALESCE(SUM((p->>'amount')::numeric) FILTER (WHERE lower(p->>'method') = 'points'), 0),
+      COALESCE(SUM((p->>'amount')::numeric) FILTER (WHERE lower(p->>'method') = 'store_credit'), 0)
+    INTO v_points_tender, v_credit_tender
+    FROM jsonb_array_elements(p_payments) p;
+  END IF;
+
+  IF (v_points_tender > 0 OR v_credit_tender > 0) AND v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'CUSTOMER_REQUIRED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_customer_id IS NOT NULL THEN
+    SELECT points_balance, store_credit_balance INTO v_points_balance, v_credit_balance
+    FROM customer_balances WHERE customer_id = v_customer_id;
+  END IF;
+
+  IF v_points_tender > 0 THEN
+    v_points_redeemed := ceil(round(v_points_tender / p_point_value, 6))::int;
+    IF v_points_redeemed > v_points_balance THEN
+      RAISE EXCEPTION 'INSUFFICIENT_POINTS' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+  IF v_credit_tender > 0 AND v_credit_tender > v_credit_balance THEN
+    RAISE EXCEPTION 'INSUFFICIENT_STORE_CREDIT' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_is_delivery := (p_delivery_schedule IS NOT NULL AND jsonb_typeof(p_delivery_schedule) = 'object');
+
+  v_receipt_id := 'RCP-'
+    || to_char(now(), 'YYYYMMDD')
+    || '-'
+    || lpad((nextval('receipt_seq') % 10000)::text, 4, '0');
+
+  INSERT INTO sales (
+    id, warehouse_id, customer_name, customer_email, customer_id, payment_method, payments_breakdown,
+    subtotal, discount_pct, discount_amt, total,
+    receipt_id, status, sold_by, sold_by_email, created_at,
+    delivery_schedule, delivery_status
+  ) VALUES (
+    v_sale_id, p_warehouse_id, v_customer_name, v_customer_email, v_customer_id, p_payment_method,
+    CASE WHEN v_is_mixed THEN p_payments ELSE NULL END,
+    p_subtotal, p_discount_pct, p_discount_amt, p_total,
+    v_receipt_id, 'completed', p_sold_by, p_sold_by_email, now(),
+    CASE WHEN v_is_delivery THEN p_delivery_schedule ELSE NULL END,
+    CASE WHEN v_is_delivery THEN 'pending'::text ELSE NULL END
+  );
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_product_id := (v_line->>'productId')::uuid;
+    v_size_code  := NULLIF(trim(upper(v_line->>'sizeCode')), '');
+    v_qty        := GREATEST(1, (v_line->>'qty')::int);
+    v_unit_price := COALESCE((v_line->>'unitPrice')::numeric, 0);
+    v_line_total := COALESCE((v_line->>'lineTotal')::numeric, v_unit_price * v_qty);
+    v_name       := COALESCE(v_line->>'name', 'Unknown');
+    v_sku        := COALESCE(v_line->>'sku', '');
+    v_image_url  := NULLIF(trim(v_line->>'imageUrl'), '');
+    v_item_count := v_item_count + v_qty;
+
+    SELECT cost_price INTO v_cost_price FROM warehouse_products WHERE id = v_product_id;
+    v_cost_price := COALESCE(v_cost_price, 0);
+    SELECT size_kind INTO v_size_kind FROM warehouse_products WHERE id = v_product_id;
+
+    IF v_is_delivery THEN
+      -- Scheduled delivery: reserve (check available = quantity - reserved >= qty)
+      IF v_size_kind = 'sized' AND v_size_code IS NOT NULL THEN
+        SELECT COALESCE(quantity, 0) INTO v_current_qty
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+          AND upper(trim(size_code)) = v_size_code
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        SELECT COALESCE(SUM(sr.qty), 0)::int INTO v_reserved_qty
+        FROM sale_reservations sr
+        WHERE sr.warehouse_id = p_warehouse_id AND sr.product_id = v_product_id
+          AND upper(trim(COALESCE(sr.size_code, ''))) = v_size_code;
+        IF (v_current_qty - v_reserved_qty) < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        INSERT INTO sale_reservations (sale_id, warehouse_id, product_id, size_code, qty)
+        VALUES (v_sale_id, p_warehouse_id, v_product_id, v_size_code, v_qty);
+      ELSE
+        SELECT COALESCE(quantity, 0) INTO v_current_qty
+        FROM warehouse_inventory
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        SELECT COALESCE(SUM(sr.qty), 0)::int INTO v_reserved_qty
+        FROM sale_reservations sr
+        WHERE sr.warehouse_id = p_warehouse_id AND sr.product_id = v_product_id
+          AND (sr.size_code IS NULL OR trim(sr.size_code) = '');
+        IF (v_current_qty - v_reserved_qty) < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        INSERT INTO sale_reservations (sale_id, warehouse_id, product_id, size_code, qty)
+        VALUES (v_sale_id, p_warehouse_id, v_product_id, NULL, v_qty);
+      END IF;
+      INSERT INTO sale_lines (
+        id, sale_id, product_id, size_code, product_name, product_sku,
+        unit_price, qty, line_total, product_image_url, cost_price, created_at
+      ) VALUES (
+        gen_random_uuid(), v_sale_id, v_product_id, v_size_code, v_name, v_sku,
+        v_unit_price, v_qty, v_line_total, v_image_url, v_cost_price, now()
+      );
+    ELSE
+      -- Direct sale: deduct immediately
+      IF v_size_kind = 'sized' AND v_size_code IS NOT NULL THEN
+        -- Sized product with size selected: case-insensitive match
+        SELECT quantity INTO v_current_qty
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+          AND upper(trim(size_code)) = v_size_code
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        IF v_current_qty < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        UPDATE warehouse_inventory_by_size
+        SET quantity = quantity - v_qty, updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+          AND upper(trim(size_code)) = v_size_code;
+        UPDATE warehouse_inventory
+        SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id),
+            updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+      ELSIF v_size_kind = 'sized' AND v_size_code IS NULL THEN
+        -- One-size product (sizeCode not sent): deduct from the single by_size row if exactly one
+        SELECT count(*) INTO v_size_row_count
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+        IF v_size_row_count = 0 THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        IF v_size_row_count > 1 THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK: size required for multi-size product' USING ERRCODE = 'P0001';
+        END IF;
+        SELECT size_code, quantity INTO v_single_size_code, v_current_qty
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+        FOR UPDATE;
+        IF v_current_qty < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        UPDATE warehouse_inventory_by_size
+        SET quantity = quantity - v_qty, updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+        UPDATE warehouse_inventory
+        SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id),
+            updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+        v_size_code := v_single_size_code;  -- for sale_lines.size_code
+      ELSE
+        -- Non-sized: deduct from warehouse_inventory
+        SELECT quantity INTO v_current_qty
+        FROM warehouse_inventory
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        IF v_current_qty < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        UPDATE warehouse_inventory
+        SET quantity = quantity - v_qty, updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+      END IF;
+      INSERT INTO sale_lines (
+        id, sale_id, product_id, size_code, product_name, product_sku,
+        unit_price, qty, line_total, product_image_url, cost_price, created_at
+      ) VALUES (
+        gen_random_uuid(), v_sale_id, v_product_id, v_size_code, v_name, v_sku,
+        v_unit_price, v_qty, v_line_total, v_image_url, v_cost_price, now()
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE sales SET item_count = v_item_count WHERE id = v_sale_id;
+
+  -- Ledgers: spend first, then earn on the part paid with money.
+  IF v_customer_id IS NOT NULL THEN
+    IF v_points_redeemed > 0 THEN
+      INSERT INTO loyalty_ledger (customer_id, points, entry_type, sale_id, created_by_email)
+      VALUES (v_customer_id, -v_points_redeemed, 'redeem', v_sale_id, p_sold_by_email);
+    END IF;
+    IF v_credit_tender > 0 THEN
+      INSERT INTO store_credit_ledger (customer_id, amount, entry_type, sale_id, created_by_email)
+      VALUES (v_customer_id, -round(v_credit_tender, 2), 'redeem', v_sale_id, p_sold_by_email);
+    END IF;
+    v_points_earned := GREATEST(0, floor((p_total - v_points_tender - v_credit_tender) * COALESCE(p_points_per_cedi, 0)))::int;
+    IF v_points_earned > 0 THEN
+      INSERT INTO loyalty_ledger (customer_id, points, entry_type, sale_id, created_by_email)
+      VALUES (v_customer_id, v_points_earned, 'earn', v_sale_id, p_sold_by_email);
+    END IF;
+  END IF;
+
+  v_result := jsonb_build_object(
+    'id',         v_sale_id,
+    'receiptId',  v_receipt_id,
+    'total',      p_total,
+    'itemCount',  v_item_count,
+    'status',     'completed',
+    'createdAt',  now(),
+    'customerId', v_customer_id
+  );
+  IF v_customer_id IS NOT NULL THEN
+    v_result := v_result || jsonb_build_object(
+      'loyalty', jsonb_build_object(
+        'pointsEarned',       v_points_earned,
+        'pointsRedeemed',     v_points_redeemed,
+        'pointsBalance',      v_points_balance - v_points_redeemed + v_points_earned,
+        'storeCreditUsed',    round(v_credit_tender, 2),
+        'storeCreditBalance', v_credit_balance - round(v_credit_tender, 2)
+      )
+    );
+  END IF;
+
+  -- Stored in the same transaction as the sale: either both commit or neither does.
+  IF p_idempotency_key IS NOT NULL THEN
+    INSERT INTO sale_idempotency_keys (idempotency_key, request_hash, warehouse_id, sale_id, response, created_at, expires_at)
+    VALUES (p_idempotency_key, p_request_hash, p_warehouse_id, v_sale_id, v_result, now(), now() + interval '24 hours')
+    ON CONFLICT (idempotency_key) DO UPDATE
+      SET request_hash = EXCLUDED.request_hash,
+          warehouse_id = EXCLUDED.warehouse_id,
+          sale_id      = EXCLUDED.sale_id,
+          response     = EXCLUDED.response,
+          created_at   = EXCLUDED.created_at,
+          expires_at   = EXCLUDED.expires_at;
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+COMMENT ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric) IS
+  'Record sale: direct sale = deduct stock now; delivery sale = reserve only. Optional idempotency key: replays return the stored response, different payload raises IDEMPOTENCY_KEY_CONFLICT. Optional p_customer_id links the sale to the customer directory; points / store_credit tender is taken from their ledgers and points are earned on the rest.';
+
+REVOKE ALL ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric) FROM anon;
+REVOKE EXECUTE ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric) FROM authenticated;
+GRANT EXECUTE ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric) TO service_role;
+
+-- 4) record_return: store_credit refunds
+ALTER TABLE sale_returns DROP CONSTRAINT IF EXISTS sale_returns_refund_method_check;
+ALTER TABLE sale_returns ADD CONSTRAINT sale_returns_refund_method_check
+  CHECK (lower(trim(refund_method)) IN ('cash', 'card', 'mobile_money', 'store_credit'));
+
+CREATE OR REPLACE FUNCTION record_return(
+  p_sale_id          uuid,
+  p_lines            jsonb,
+  p_refund_method    text,
+  p_reason           text  DEFAULT NULL,
+  p_created_by       uuid  DEFAULT NULL,
+  p_created_by_email text  DEFAULT NULL,
+  p_exchange_lines   jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return_id         uuid := gen_random_uuid();
+  v_warehouse_id      uuid;
+  v_status            text;
+  v_delivery_status   text;
+  v_customer_name     text;
+  v_customer_id       uuid;
+  v_subtotal          numeric;
+  v_total             numeric;
+  v_ratio             numeric;
+  v_line              jsonb;
+  v_sale_line         sale_lines%ROWTYPE;
+  v_qty               int;
+  v_returned          int;
+  v_size_kind         text;
+  v_line_refund       numeric;
+  v_refund_total      numeric := 0;
+  v_item_count        int := 0;
+  v_is_exchange       boolean;
+  v_exchange_subtotal numeric := 0;
+  v_exchange          jsonb;
+  v_exchange_sale_id  uuid;
+  v_refund_method     text := lower(trim(p_refund_method));
+  v_points_earned     int;
+  v_points_clawback   int := 0;
+BEGIN
+  SELECT warehouse_id, status, delivery_status, customer_name, customer_id, subtotal, total
+  INTO v_warehouse_id, v_status, v_delivery_status, v_customer_name, v_customer_id, v_subtotal, v_total
+  FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_status = 'voided' THEN
+    RAISE EXCEPTION 'SALE_VOIDED' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_delivery_status IS NOT NULL AND v_delivery_status <> 'delivered' THEN
+    RAISE EXCEPTION 'Cannot return items from a delivery that has not been delivered' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'At least one line to return is required' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_refund_method = 'store_credit' AND v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'CUSTOMER_REQUIRED' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_is_exchange := p_exchange_lines IS NOT NULL
+    AND jsonb_typeof(p_exchange_lines) = 'array'
+    AND jsonb_array_length(p_exchange_lines) > 0;
+
+  -- Refund at the price actually paid: spread the sale-level discount across lines.
+  v_ratio := CASE WHEN COALESCE(v_subtotal, 0) > 0 THEN v_total / v_subtotal ELSE 1 END;
+
+  INSERT INTO sale_returns (
+    id, sale_id, warehouse_id, return_type, refund_amount, refund_method,
+    reason, created_by, created_by_email, created_at
+  ) VALUES (
+    v_return_id, p_sale_id, v_warehouse_id,
+    CASE WHEN v_is_exchange THEN 'exchange' ELSE 'return' END,
+    0, v_refund_method,
+    NULLIF(trim(p_reason), ''), p_created_by, p_created_by_email, now()
+  );
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_qty := (v_line->>'qty')::int;
+    IF v_qty IS NULL OR v_qty < 1 THEN
+      RAISE EXCEPTION 'Return qty must be at least 1' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT * INTO v_sale_line
+    FROM sale_lines
+    WHERE id = (v_line->>'saleLineId')::uuid AND sale_id = p_sale_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Sale line not found on this sale' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT COALESCE(SUM(qty), 0)::int INTO v_returned
+    FROM sale_return_lines WHERE sale_line_id = v_sale_line.id;
+    IF v_returned + v_qty > v_sale_line.qty THEN
+      RAISE EXCEPTION 'RETURN_QTY_EXCEEDS_SOLD' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT size_kind INTO v_size_kind FROM warehouse_products WHERE id = v_sale_line.product_id;
+
+    IF v_size_kind = 'sized' AND v_sale_line.size_code IS NOT NULL AND trim(v_sale_line.size_code) <> '' THEN
+      UPDATE warehouse_inventory_by_size
+      SET quantity = quantity + v_qty, updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id
+        AND upper(trim(size_code)) = upper(trim(v_sale_line.size_code));
+      IF NOT FOUND THEN
+        INSERT INTO warehouse_inventory_by_size (warehouse_id, product_id, size_code, quantity, updated_at)
+        VALUES (v_warehouse_id, v_sale_line.product_id, upper(trim(v_sale_line.size_code)), v_qty, now());
+      END IF;
+      UPDATE warehouse_inventory
+      SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id),
+          updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id;
+    ELSE
+      UPDATE warehouse_inventory
+      SET quantity = quantity + v_qty, updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id;
+    END IF;
+
+    v_line_refund := round(v_sale_line.line_total / v_sale_line.qty * v_qty * v_ratio, 2);
+    v_refund_total := v_refund_total + v_line_refund;
+    v_item_count := v_item_count + v_qty;
+
+    INSERT INTO sale_return_lines (return_id, sale_line_id, product_id, size_code, qty, refund_amount)
+    VALUES (v_return_id, v_sale_line.id, v_sale_line.product_id, v_sale_line.size_code, v_qty, v_line_refund);
+  END LOOP;
+
+  IF v_customer_id IS NOT NULL THEN
+    -- Credit before the exchange sale so store_credit can settle it. Points earned on the sale go back
+    -- in proportion to the refunded value.
+    IF v_refund_method = 'store_credit' AND v_refund_total > 0 THEN
+      INSERT INTO store_credit_ledger (customer_id, amount, entry_type, sale_id, return_id, created_by_email)
+      VALUES (v_customer_id, v_refund_total, 'refund', p_sale_id, v_return_id, p_created_by_email);
+    END IF;
+    SELECT COALESCE(SUM(points), 0)::int INTO v_points_earned
+    FROM loyalty_ledger WHERE sale_id = p_sale_id AND entry_type = 'earn';
+    IF v_points_earned > 0 AND COALESCE(v_total, 0) > 0 THEN
+      v_points_clawback := LEAST(v_points_earned, round(v_points_earned * v_refund_total / v_total))::int;
+      IF v_points_clawback > 0 THEN
+        INSERT INTO loyalty_ledger (customer_id, points, entry_type, sale_id, return_id, created_by_email)
+        VALUES (v_customer_id, -v_points_clawback, 'reversal', p_sale_id, v_return_id, p_created_by_email);
+      END IF;
+    END IF;
+  END IF;
+
+  IF v_is_exchange THEN
+    SELECT COALESCE(SUM(COALESCE((l->>'lineTotal')::numeric,
+                                 COALESCE((l->>'unitPrice')::numeric, 0) * GREATEST(1, (l->>'qty')::int))), 0)
+    INTO v_exchange_subtotal
+    FROM jsonb_array_elements(p_exchange_lines) l;
+
+    -- record_sale raises INSUFFICIENT_STOCK for the new size; that rolls back the restock above too.
+    v_exchange := record_sale(
+      v_warehouse_id, p_exchange_lines, v_exchange_subtotal, 0, 0, v_exchange_subtotal,
+      v_refund_method,
+      v_customer_name, p_created_by, p_created_by_email,
+      p_customer_id => v_customer_id
+    );
+    v_exchange_sale_id := (v_exchange->>'id')::uuid;
+  END IF;
+
+  UPDATE sale_returns
+  SET refund_amount = v_refund_total, exchange_sale_id = v_exchange_sale_id
+  WHERE id = v_return_id;
+
+  RETURN jsonb_build_object(
+    'id',             v_return_id,
+    'saleId',         p_sale_id,
+    'type',           CASE WHEN v_is_exchange THEN 'exchange' ELSE 'return' END,
+    'refundAmount',   v_refund_total,
+    'refundMethod',   v_refund_method,
+    'itemCount',      v_item_count,
+    'exchangeSale',   v_exchange,
+    'netAmount',      v_exchange_subtotal - v_refund_total,
+    'pointsReversed', v_points_clawback,
+    'createdAt',      now()
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION record_return(uuid, jsonb, text, text, uuid, text, jsonb) IS
+  'Partial return / exchange: restock selected sale_lines, record refund (store_credit credits the sale''s customer), claw back points earned on the refunded value, optionally sell replacement lines via record_sale (one transaction).';
+
+-- 5) void_sale: undo the sale's ledger entries as well
+CREATE OR REPLACE FUNCTION void_sale(p_sale_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_warehouse_id     uuid;
+  v_status           text;
+  v_delivery_status  text;
+  v_customer_id      uuid;
+  v_line             record;
+  v_size_kind        text;
+  v_has_reservations boolean;
+  v_points_net       int;
+  v_credit_spent     numeric;
+BEGIN
+  SELECT warehouse_id, status, delivery_status, customer_id INTO v_warehouse_id, v_status, v_delivery_status, v_customer_id
+  FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_status = 'voided' THEN
+    RETURN;
+  END IF;
+
+  -- Points: net out everything booked against this sale (earned, redeemed, clawed back on returns).
+  -- Store credit: give back what was spent on it; credit refunded for earlier returns stays.
+  IF v_customer_id IS NOT NULL THEN
+    SELECT COALESCE(SUM(points), 0)::int INTO v_points_net FROM loyalty_ledger WHERE sale_id = p_sale_id;
+    IF v_points_net <> 0 THEN
+      INSERT INTO loyalty_ledger (customer_id, points, entry_type, sale_id, note)
+      VALUES (v_customer_id, -v_points_net, 'reversal', p_sale_id, 'Sale voided');
+    END IF;
+    SELECT COALESCE(SUM(amount), 0) INTO v_credit_spent
+    FROM store_credit_ledger WHERE sale_id = p_sale_id AND entry_type = 'redeem';
+    IF v_credit_spent <> 0 THEN
+      INSERT INTO store_credit_ledger (customer_id, amount, entry_type, sale_id, note)
+      VALUES (v_customer_id, -v_credit_spent, 'reversal', p_sale_id, 'Sale voided');
+    END IF;
+  END IF;
+
+  SELECT EXISTS (SELECT 1 FROM sale_reservations WHERE sale_id = p_sale_id LIMIT 1) INTO v_has_reservations;
+
+  IF v_has_reservations THEN
+    DELETE FROM sale_reservations WHERE sale_id = p_sale_id;
+    UPDATE sales SET status = 'voided' WHERE id = p_sale_id;
+    RETURN;
+  END IF;
+
+  FOR v_line IN
+    SELECT sl.product_id, sl.size_code,
+           sl.qty - COALESCE((SELECT SUM(srl.qty) FROM sale_return_lines srl WHERE srl.sale_line_id = sl.id), 0) AS qty
+    FROM sale_lines sl WHERE sl.sale_id = p_sale_id
+  LOOP
+    CONTINUE WHEN v_line.qty <= 0;
+    SELECT size_kind INTO v_size_kind FROM warehouse_products WHERE id = v_line.product_id;
+
+    IF v_size_kind = 'sized' AND v_line.size_code IS NOT NULL AND trim(v_line.size_code) <> '' THEN
+      UPDATE warehouse_inventory_by_size
+      SET quantity = quantity + v_line.qty, updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_line.product_id
+        AND upper(trim(size_code)) = upper(trim(v_line.size_code));
+      UPDATE warehouse_inventory
+      SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                      WHERE warehouse_id = v_warehouse_id AND product_id = v_line.product_id),
+          updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_line.product_id;
+    ELSE
+      UPDATE warehouse_inventory
+      SET quantity = quantity + v_line.qty, updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_line.product_id;
+    END IF;
+  END LOOP;
+
+  UPDATE sales SET status = 'voided', stock_restored_at = now() WHERE id = p_sale_id;
+END;
+$$;
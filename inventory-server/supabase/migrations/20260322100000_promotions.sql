@@ -0,0 +1,554 @@
+-- Promotions / pricing rules evaluated by the POS cart.
+-- 1) promotions: date window, warehouse scope, products / categories targeted, one of five kinds.
+-- 2) sale_lines.promotion_id / discount_amt: which promotion priced the line and how much it took off.
+-- 3) record_sale: persist promotionId / discountAmt from each line (lineTotal stays the net amount charged).
+-- 4) get_sales_report: promotionCost and a per-promotion breakdown.
+
+-- 1) Promotions
+CREATE TABLE IF NOT EXISTS promotions (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name             text NOT NULL CHECK (length(trim(name)) > 0),
+  kind             text NOT NULL CHECK (kind IN ('percent_off', 'fixed_off', 'buy_x_get_y', 'bundle_price', 'second_half_off')),
+  product_ids      uuid[] NOT NULL DEFAULT '{}',
+  categories       text[] NOT NULL DEFAULT '{}',
+  warehouse_ids    uuid[] NOT NULL DEFAULT '{}',
+  percent_off      numeric(5,2),
+  amount_off       numeric(12,2),
+  buy_qty          int,
+  get_qty          int,
+  bundle_qty       int,
+  bundle_price     numeric(12,2),
+  starts_at        timestamptz NOT NULL DEFAULT now(),
+  ends_at          timestamptz,
+  active           boolean NOT NULL DEFAULT true,
+  created_by_email text,
+  created_at       timestamptz NOT NULL DEFAULT now(),
+  updated_at       timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT promotions_window_check CHECK (ends_at IS NULL OR ends_at > starts_at),
+  CONSTRAINT promotions_params_check CHECK (
+    (kind = 'percent_off' AND percent_off > 0 AND percent_off <= 100)
+    OR (kind = 'fixed_off' AND amount_off > 0)
+    OR (kind = 'buy_x_get_y' AND buy_qty >= 1 AND get_qty >= 1)
+    OR (kind = 'bundle_price' AND bundle_qty >= 2 AND bundle_price >= 0)
+    OR kind = 'second_half_off'
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotions_active_window ON promotions(starts_at, ends_at) WHERE active;
+
+COMMENT ON TABLE promotions IS 'POS promotions. Empty product_ids and categories = every product; empty warehouse_ids = every warehouse. Not deleted once used; set active = false instead.';
+
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_promotions" ON promotions;
+CREATE POLICY "service_role_promotions" ON promotions
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 2) Per-line promotion
+ALTER TABLE sale_lines ADD COLUMN IF NOT EXISTS promotion_id uuid REFERENCES promotions(id) ON DELETE SET NULL;
+ALTER TABLE sale_lines ADD COLUMN IF NOT EXISTS discount_amt numeric(12,2) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_sale_lines_promotion ON sale_lines(promotion_id) WHERE promotion_id IS NOT NULL;
+
+COMMENT ON COLUMN sale_lines.discount_amt IS 'GH₵ taken off unit_price × qty by the line''s promotion; line_total is net of it.';
+
+-- 3) record_sale with per-line promotions (same signature as 20260321100000)
+CREATE OR REPLACE FUNCTION record_sale(
+  p_warehouse_id    uuid,
+  p_lines           jsonb,
+  p_subtotal        numeric,
+  p_discount_pct    numeric,
+  p_discount_amt    numeric,
+  p_total           numeric,
+  p_payment_method  text,
+  p_customer_name   text DEFAULT NULL,
+  p_sold_by         uuid DEFAULT NULL,
+  p_sold_by_email   text DEFAULT NULL,
+  p_delivery_schedule jsonb DEFAULT NULL,
+  p_idempotency_key   text  DEFAULT NULL,
+  p_request_hash      text  DEFAULT NULL,
+  p_customer_id       uuid  DEFAULT NULL,
+  p_customer_email    text  DEFAULT NULL,
+  p_payments          jsonb DEFAULT NULL,
+  p_points_per_cedi   numeric DEFAULT 1,
+  p_point_value       numeric DEFAULT 0.01
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale_id           uuid := gen_random_uuid();
+  v_receipt_id        text;
+  v_item_count        int  := 0;
+  v_line              jsonb;
+  v_product_id         uuid;
+  v_size_code         text;
+  v_qty               int;
+  v_unit_price        numeric;
+  v_line_total        numeric;
+  v_name              text;
+  v_sku               text;
+  v_image_url         text;
+  v_size_kind         text;
+  v_current_qty        int;
+  v_reserved_qty      int;
+  v_cost_price        numeric;
+  v_is_delivery       boolean;
+  v_single_size_code  text;   -- for one-size when sizeCode is null
+  v_size_row_count     int;
+  v_idem              sale_idempotency_keys%ROWTYPE;
+  v_result            jsonb;
+  v_customer          customers%ROWTYPE;
+  v_customer_name     text := NULLIF(trim(p_customer_name), '');
+  v_customer_email    text := NULLIF(trim(p_customer_email), '');
+  v_customer_id       uuid;
+  v_method            text := lower(trim(p_payment_method));
+  v_is_mixed          boolean;
+  v_points_tender     numeric := 0;
+  v_credit_tender     numeric := 0;
+  v_points_balance    int;
+  v_credit_balance    numeric;
+  v_points_redeemed   int := 0;
+  v_points_earned     int := 0;
+  v_promotion_id      uuid;
+  v_line_discount     numeric;
+BEGIN
+  -- Idempotency: serialize concurrent requests with the same key, then replay or reject.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended('sale_idempotency:' || p_idempotency_key, 0));
+    SELECT * INTO v_idem
+    FROM sale_idempotency_keys
+    WHERE idempotency_key = p_idempotency_key AND expires_at > now();
+    IF FOUND THEN
+      IF v_idem.request_hash IS DISTINCT FROM p_request_hash THEN
+        RAISE EXCEPTION 'IDEMPOTENCY_KEY_CONFLICT' USING ERRCODE = 'P0001';
+      END IF;
+      RETURN v_idem.response || jsonb_build_object('idempotentReplay', true);
+    END IF;
+  END IF;
+
+  -- Directory customer: fill name / email from the profile when the cart did not send them. An unknown id
+  -- (e.g. customer deleted before an offline sale synced) just leaves the sale unlinked.
+  -- FOR UPDATE: concurrent sales for one customer take turns checking and spending the balances.
+  IF p_customer_id IS NOT NULL THEN
+    SELECT * INTO v_customer FROM customers WHERE id = p_customer_id FOR UPDATE;
+    IF FOUND THEN
+      v_customer_id    := v_customer.id;
+      v_customer_name  := COALESCE(v_customer_name, v_customer.name);
+      v_customer_email := COALESCE(v_customer_email, v_customer.email);
+    END IF;
+  END IF;
+
+  -- Tender paid from balances: the whole total, or the points / store_credit legs of a mixed payment.
+  v_is_mixed := v_method = 'mixed' AND p_payments IS NOT NULL AND jsonb_typeof(p_payments) = 'array';
+  IF v_method = 'points' THEN
+    v_points_tender := p_total;
+  ELSIF v_method = 'store_credit' THEN
+    v_credit_tender := p_total;
+  ELSIF v_is_mixed THEN
+    SELECT
+      COALESCE(SUM((p->>'amount')::numeric) FILTER (WHERE lower(p->>'method') = 'points'), 0),
+      COALESCE(SUM((p->>'amount')::numeric) FILTER (WHERE lower(p->>'method') = 'store_credit'), 0)
+    INTO v_points_tender, v_credit_tender
+    FROM jsonb_array_elements(p_payments) p;
+  END IF;
+
+  IF (v_points_tender > 0 OR v_credit_tender > 0) AND v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'CUSTOMER_REQUIRED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_customer_id IS NOT NULL THEN
+    SELECT points_balance, store_credit_balance INTO v_points_balance, v_credit_balance
+    FROM customer_balances WHERE customer_id = v_customer_id;
+  END IF;
+
+  IF v_points_tender > 0 THEN
+    v_points_redeemed := ceil(round(v_points_tender / p_point_value, 6))::int;
+    IF v_points_redeemed > v_points_balance THEN
+      RAISE EXCEPTION 'INSUFFICIENT_POINTS' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+  IF v_credit_tender > 0 AND v_credit_tender > v_credit_balance THEN
+    RAISE EXCEPTION 'INSUFFICIENT_STORE_CREDIT' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_is_delivery := (p_delivery_schedule IS NOT NULL AND jsonb_typeof(p_delivery_schedule) = 'object');
+
+  v_receipt_id := 'RCP-'
+    || to_char(now(), 'YYYYMMDD')
+    || '-'
+    || lpad((nextval('receipt_seq') % 10000)::text, 4, '0');
+
+  INSERT INTO sales (
+    id, warehouse_id, customer_name, customer_email, customer_id, payment_method, payments_breakdown,
+    subtotal, discount_pct, discount_amt, total,
+    receipt_id, status, sold_by, sold_by_email, created_at,
+    delivery_schedule, delivery_status
+  ) VALUES (
+    v_sale_id, p_warehouse_id, v_customer_name, v_customer_email, v_customer_id, p_payment_method,
+    CASE WHEN v_is_mixed THEN p_payments ELSE NULL END,
+    p_subtotal, p_discount_pct, p_discount_amt, p_total,
+    v_receipt_id, 'completed', p_sold_by, p_sold_by_email, now(),
+    CASE WHEN v_is_delivery THEN p_delivery_schedule ELSE NULL END,
+    CASE WHEN v_is_delivery THEN 'pending'::text ELSE NULL END
+  );
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_product_id := (v_line->>'productId')::uuid;
+    v_size_code  := NULLIF(trim(upper(v_line->>'sizeCode')), '');
+    v_qty        := GREATEST(1, (v_line->>'qty')::int);
+    v_unit_price := COALESCE((v_line->>'unitPrice')::numeric, 0);
+    v_line_total := COALESCE((v_line->>'lineTotal')::numeric, v_unit_price * v_qty);
+    v_name       := COALESCE(v_line->>'name', 'Unknown');
+    v_sku        := COALESCE(v_line->>'sku', '');
+    v_image_url  := NULLIF(trim(v_line->>'imageUrl'), '');
+    v_item_count := v_item_count + v_qty;
+    -- lineTotal is already net of discountAmt; an unknown promotionId is dropped, the discount is kept.
+    v_line_discount := GREATEST(0, COALESCE((v_line->>'discountAmt')::numeric, 0));
+    v_promotion_id  := NULL;
+    IF NULLIF(v_line->>'promotionId', '') IS NOT NULL THEN
+      SELECT id INTO v_promotion_id FROM promotions WHERE id = (v_line->>'promotionId')::uuid;
+    END IF;
+
+    SELECT cost_price INTO v_cost_price FROM warehouse_products WHERE id = v_product_id;
+    v_cost_price := COALESCE(v_cost_price, 0);
+    SELECT size_kind INTO v_size_kind FROM warehouse_products WHERE id = v_product_id;
+
+    IF v_is_delivery THEN
+      -- Scheduled delivery: reserve (check available = quantity - reserved >= qty)
+      IF v_size_kind = 'sized' AND v_size_code IS NOT NULL THEN
+        SELECT COALESCE(quantity, 0) INTO v_current_qty
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+          AND upper(trim(size_code)) = v_size_code
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        SELECT COALESCE(SUM(sr.qty), 0)::int INTO v_reserved_qty
+        FROM sale_reservations sr
+        WHERE sr.warehouse_id = p_warehouse_id AND sr.product_id = v_product_id
+          AND upper(trim(COALESCE(sr.size_code, ''))) = v_size_code;
+        IF (v_current_qty - v_reserved_qty) < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        INSERT INTO sale_reservations (sale_id, warehouse_id, product_id, size_code, qty)
+        VALUES (v_sale_id, p_warehouse_id, v_product_id, v_size_code, v_qty);
+      ELSE
+        SELECT COALESCE(quantity, 0) INTO v_current_qty
+        FROM warehouse_inventory
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        SELECT COALESCE(SUM(sr.qty), 0)::int INTO v_reserved_qty
+        FROM sale_reservations sr
+        WHERE sr.warehouse_id = p_warehouse_id AND sr.product_id = v_product_id
+          AND (sr.size_code IS NULL OR trim(sr.size_code) = '');
+        IF (v_current_qty - v_reserved_qty) < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        INSERT INTO sale_reservations (sale_id, warehouse_id, product_id, size_code, qty)
+        VALUES (v_sale_id, p_warehouse_id, v_product_id, NULL, v_qty);
+      END IF;
+      INSERT INTO sale_lines (
+        id, sale_id, product_id, size_code, product_name, product_sku,
+        unit_price, qty, line_total, product_image_url, cost_price, created_at,
+        promotion_id, discount_amt
+      ) VALUES (
+        gen_random_uuid(), v_sale_id, v_product_id, v_size_code, v_name, v_sku,
+        v_unit_price, v_qty, v_line_total, v_image_url, v_cost_price, now(),
+        v_promotion_id, v_line_discount
+      );
+    ELSE
+      -- Direct sale: deduct immediately
+      IF v_size_kind = 'sized' AND v_size_code IS NOT NULL THEN
+        -- Sized product with size selected: case-insensitive match
+        SELECT quantity INTO v_current_qty
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+          AND upper(trim(size_code)) = v_size_code
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        IF v_current_qty < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        UPDATE warehouse_inventory_by_size
+        SET quantity = quantity - v_qty, updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+          AND upper(trim(size_code)) = v_size_code;
+        UPDATE warehouse_inventory
+        SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id),
+            updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+      ELSIF v_size_kind = 'sized' AND v_size_code IS NULL THEN
+        -- One-size product (sizeCode not sent): deduct from the single by_size row if exactly one
+        SELECT count(*) INTO v_size_row_count
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+        IF v_size_row_count = 0 THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        IF v_size_row_count > 1 THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK: size required for multi-size product' USING ERRCODE = 'P0001';
+        END IF;
+        SELECT size_code, quantity INTO v_single_size_code, v_current_qty
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+        FOR UPDATE;
+        IF v_current_qty < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        UPDATE warehouse_inventory_by_size
+        SET quantity = quantity - v_qty, updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+        UPDATE warehouse_inventory
+        SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id),
+            updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+        v_size_code := v_single_size_code;  -- for sale_lines.size_code
+      ELSE
+        -- Non-sized: deduct from warehouse_inventory
+        SELECT quantity INTO v_current_qty
+        FROM warehouse_inventory
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        IF v_current_qty < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        UPDATE warehouse_inventory
+        SET quantity = quantity - v_qty, updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+      END IF;
+      INSERT INTO sale_lines (
+        id, sale_id, product_id, size_code, product_name, product_sku,
+        unit_price, qty, line_total, product_image_url, cost_price, created_at,
+        promotion_id, discount_amt
+      ) VALUES (
+        gen_random_uuid(), v_sale_id, v_product_id, v_size_code, v_name, v_sku,
+        v_unit_price, v_qty, v_line_total, v_image_url, v_cost_price, now(),
+        v_promotion_id, v_line_discount
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE sales SET item_count = v_item_count WHERE id = v_sale_id;
+
+  -- Ledgers: spend first, then earn on the part paid with money.
+  IF v_customer_id IS NOT NULL THEN
+    IF v_points_redeemed > 0 THEN
+      INSERT INTO loyalty_ledger (customer_id, points, entry_type, sale_id, created_by_email)
+      VALUES (v_customer_id, -v_points_redeemed, 'redeem', v_sale_id, p_sold_by_email);
+    END IF;
+    IF v_credit_tender > 0 THEN
+      INSERT INTO store_credit_ledger (customer_id, amount, entry_type, sale_id, created_by_email)
+      VALUES (v_customer_id, -round(v_credit_tender, 2), 'redeem', v_sale_id, p_sold_by_email);
+    END IF;
+    v_points_earned := GREATEST(0, floor((p_total - v_points_tender - v_credit_tender) * COALESCE(p_points_per_cedi, 0)))::int;
+    IF v_points_earned > 0 THEN
+      INSERT INTO loyalty_ledger (customer_id, points, entry_type, sale_id, created_by_email)
+      VALUES (v_customer_id, v_points_earned, 'earn', v_sale_id, p_sold_by_email);
+    END IF;
+  END IF;
+
+  v_result := jsonb_build_object(
+    'id',         v_sale_id,
+    'receiptId',  v_receipt_id,
+    'total',      p_total,
+    'itemCount',  v_item_count,
+    'status',     'completed',
+    'createdAt',  now(),
+    'customerId', v_customer_id
+  );
+  IF v_customer_id IS NOT NULL THEN
+    v_result := v_result || jsonb_build_object(
+      'loyalty', jsonb_build_object(
+        'pointsEarned',       v_points_earned,
+        'pointsRedeemed',     v_points_redeemed,
+        'pointsBalance',      v_points_balance - v_points_redeemed + v_points_earned,
+        'storeCreditUsed',    round(v_credit_tender, 2),
+        'storeCreditBalance', v_credit_balance - round(v_credit_tender, 2)
+      )
+    );
+  END IF;
+
+  -- Stored in the same transaction as the sale: either both commit or neither does.
+  IF p_idempotency_key IS NOT NULL THEN
+    INSERT INTO sale_idempotency_keys (idempotency_key, request_hash, warehouse_id, sale_id, response, created_at, expires_at)
+    VALUES (p_idempotency_key, p_request_hash, p_warehouse_id, v_sale_id, v_result, now(), now() + interval '24 hours')
+    ON CONFLICT (idempotency_key) DO UPDATE
+      SET request_hash = EXCLUDED.request_hash,
+          warehouse_id = EXCLUDED.warehouse_id,
+          sale_id      = EXCLUDED.sale_id,
+          response     = EXCLUDED.response,
+          created_at   = EXCLUDED.created_at,
+          expires_at   = EXCLUDED.expires_at;
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+COMMENT ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric) IS
+  'Record sale: direct sale = deduct stock now; delivery sale = reserve only. Optional idempotency key: replays return the stored response, different payload raises IDEMPOTENCY_KEY_CONFLICT. Optional p_customer_id links the sale to the customer directory; points / store_credit tender is taken from their ledgers and points are earned on the rest. Lines may carry promotionId / discountAmt (lineTotal is net).';
+
+REVOKE ALL ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric) FROM anon;
+REVOKE EXECUTE ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric) FROM authenticated;
+GRANT EXECUTE ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric) TO service_role;
+
+-- 4) get_sales_report with promotion cost
+CREATE OR REPLACE FUNCTION get_sales_report(
+  p_warehouse_id uuid,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revenue        numeric;
+  v_cogs           numeric;
+  v_gross_profit   numeric;
+  v_margin_pct     numeric;
+  v_txn_count      bigint;
+  v_units_sold     bigint;
+  v_aov            numeric;
+  v_promo_cost     numeric;
+  v_top            jsonb;
+  v_by_day         jsonb;
+  v_promotions     jsonb;
+BEGIN
+  -- Core metrics: only completed, non-voided sales in period
+  SELECT
+    COALESCE(SUM(sl.line_total), 0),
+    COALESCE(SUM(sl.qty * COALESCE(sl.cost_price, 0)), 0),
+    COUNT(DISTINCT s.id),
+    COALESCE(SUM(sl.qty), 0)::bigint,
+    COALESCE(SUM(sl.discount_amt), 0)
+  INTO v_revenue, v_cogs, v_txn_count, v_units_sold, v_promo_cost
+  FROM sales s
+  JOIN sale_lines sl ON sl.sale_id = s.id
+  WHERE s.warehouse_id = p_warehouse_id
+    AND s.status = 'completed'
+    AND (s.status IS NULL OR s.status != 'voided')
+    AND (p_from IS NULL OR s.created_at >= p_from)
+    AND (p_to IS NULL OR s.created_at <= p_to);
+
+  v_revenue      := COALESCE(v_revenue, 0);
+  v_cogs         := COALESCE(v_cogs, 0);
+  v_gross_profit := v_revenue - v_cogs;
+  v_margin_pct   := CASE WHEN v_revenue > 0 THEN round((v_gross_profit / v_revenue * 100)::numeric, 1) ELSE 0 END;
+  v_aov          := CASE WHEN v_txn_count > 0 THEN round((v_revenue / v_txn_count)::numeric, 2) ELSE 0 END;
+
+  -- Top 10 products by revenue in period
+  SELECT COALESCE(jsonb_agg(row ORDER BY row->>'revenue' DESC NULLS LAST), '[]'::jsonb)
+  INTO v_top
+  FROM (
+    SELECT jsonb_build_object(
+      'productId', sl.product_id,
+      'productName', COALESCE(MAX(sl.product_name), ''),
+      'unitsSold', SUM(sl.qty),
+      'revenue', SUM(sl.line_total),
+      'cogs', SUM(sl.qty * COALESCE(sl.cost_price, 0)),
+      'profit', SUM(sl.line_total) - SUM(sl.qty * COALESCE(sl.cost_price, 0)),
+      'marginPct', CASE WHEN SUM(sl.line_total) > 0
+        THEN round(((SUM(sl.line_total) - SUM(sl.qty * COALESCE(sl.cost_price, 0))) / SUM(sl.line_total) * 100)::numeric, 1)
+        ELSE 0 END
+    ) AS row
+    FROM sales s
+    JOIN sale_lines sl ON sl.sale_id = s.id
+    WHERE s.warehouse_id = p_warehouse_id
+      AND s.status = 'completed'
+      AND (s.status IS NULL OR s.status != 'voided')
+      AND (p_from IS NULL OR s.created_at >= p_from)
+      AND (p_to IS NULL OR s.created_at <= p_to)
+    GROUP BY sl.product_id
+    ORDER BY SUM(sl.line_total) DESC NULLS LAST
+    LIMIT 10
+  ) sub;
+
+  -- Sales by day (date, revenue, transactions)
+  SELECT COALESCE(jsonb_agg(day_row ORDER BY day_row->>'date'), '[]'::jsonb)
+  INTO v_by_day
+  FROM (
+    SELECT jsonb_build_object(
+      'date', to_char(day_agg.day, 'YYYY-MM-DD'),
+      'revenue', day_agg.revenue,
+      'transactions', day_agg.txn_count
+    ) AS day_row
+    FROM (
+      SELECT
+        date_trunc('day', s.created_at AT TIME ZONE 'UTC') AS day,
+        SUM(s.total)::numeric AS revenue,
+        COUNT(*)::bigint AS txn_count
+      FROM sales s
+      WHERE s.warehouse_id = p_warehouse_id
+        AND s.status = 'completed'
+        AND (s.status IS NULL OR s.status != 'voided')
+        AND (p_from IS NULL OR s.created_at >= p_from)
+        AND (p_to IS NULL OR s.created_at <= p_to)
+      GROUP BY date_trunc('day', s.created_at AT TIME ZONE 'UTC')
+    ) day_agg
+  ) day_rows;
+
+  -- Promotion cost per promotion (lines with a discount whose promotion was since deleted fall under null)
+  SELECT COALESCE(jsonb_agg(promo_row ORDER BY (promo_row->>'discount')::numeric DESC), '[]'::jsonb)
+  INTO v_promotions
+  FROM (
+    SELECT jsonb_build_object(
+      'promotionId', sl.promotion_id,
+      'name', COALESCE(MAX(p.name), 'Other discounts'),
+      'sales', COUNT(DISTINCT s.id),
+      'units', SUM(sl.qty),
+      'revenue', SUM(sl.line_total),
+      'discount', SUM(sl.discount_amt)
+    ) AS promo_row
+    FROM sales s
+    JOIN sale_lines sl ON sl.sale_id = s.id
+    LEFT JOIN promotions p ON p.id = sl.promotion_id
+    WHERE s.warehouse_id = p_warehouse_id
+      AND s.status = 'completed'
+      AND (s.status IS NULL OR s.status != 'voided')
+      AND (p_from IS NULL OR s.created_at >= p_from)
+      AND (p_to IS NULL OR s.created_at <= p_to)
+      AND sl.discount_amt > 0
+    GROUP BY sl.promotion_id
+  ) promo_rows;
+
+  RETURN jsonb_build_object(
+    'revenue', v_revenue,
+    'cogs', v_cogs,
+    'grossProfit', v_gross_profit,
+    'marginPct', v_margin_pct,
+    'transactionCount', v_txn_count,
+    'unitsSold', v_units_sold,
+    'averageOrderValue', v_aov,
+    'promotionCost', COALESCE(v_promo_cost, 0),
+    'topProducts', COALESCE(v_top, '[]'::jsonb),
+    'salesByDay', COALESCE(v_by_day, '[]'::jsonb),
+    'promotions', COALESCE(v_promotions, '[]'::jsonb)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION get_sales_report(uuid, timestamptz, timestamptz) IS
+  'Sales report: revenue, COGS, profit, margin, counts, AOV, promotion cost, top products, sales by day, cost per promotion. All from sales/sale_lines; computed in SQL.';
+
+REVOKE ALL ON FUNCTION public.get_sales_report(uuid, timestamptz, timestamptz) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.get_sales_report(uuid, timestamptz, timestamptz) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.get_sales_report(uuid, timestamptz, timestamptz) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sales_report(uuid, timestamptz, timestamptz) TO service_role;
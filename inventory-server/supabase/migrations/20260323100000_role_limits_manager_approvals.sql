@@ -0,0 +1,72 @@
+-- Server-side role limits and manager PIN overrides.
+-- 1) role_limits: max discount % and refund amount without approval; whether voids / refunds always need one.
+-- 2) manager_pins: hashed PINs managers type on a cashier's device to approve an over-limit action.
+-- 3) manager_approvals: every approval token issued, and which sale / return used it.
+
+-- 1) Role limits (admins are never limited; a role without a row gets the cashier limits)
+CREATE TABLE IF NOT EXISTS role_limits (
+  role                    text PRIMARY KEY CHECK (role = lower(trim(role)) AND length(role) > 0),
+  max_discount_pct        numeric(5,2) CHECK (max_discount_pct IS NULL OR (max_discount_pct >= 0 AND max_discount_pct <= 100)),
+  max_refund_amount       numeric(12,2) CHECK (max_refund_amount IS NULL OR max_refund_amount >= 0),
+  require_approval_void   boolean NOT NULL DEFAULT false,
+  require_approval_refund boolean NOT NULL DEFAULT false,
+  updated_by_email        text,
+  updated_at              timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE role_limits IS 'Per-role POS limits checked by the sales, void and refund routes. NULL limit = unlimited. Over a limit needs a manager approval token.';
+
+INSERT INTO role_limits (role, max_discount_pct, max_refund_amount, require_approval_void, require_approval_refund)
+VALUES
+  ('manager', 25, 10000, false, false),
+  ('cashier', 10, NULL, true, true)
+ON CONFLICT (role) DO NOTHING;
+
+ALTER TABLE role_limits ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_role_limits" ON role_limits;
+CREATE POLICY "service_role_role_limits" ON role_limits
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 2) Manager PINs (scrypt hash; role captured when the manager sets the PIN while signed in)
+CREATE TABLE IF NOT EXISTS manager_pins (
+  email           text PRIMARY KEY CHECK (email = lower(trim(email))),
+  role            text NOT NULL,
+  pin_hash        text NOT NULL,
+  failed_attempts int NOT NULL DEFAULT 0,
+  locked_until    timestamptz,
+  updated_at      timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE manager_pins IS 'Override PINs. Several wrong PINs in a row lock the PIN for a while (locked_until).';
+
+ALTER TABLE manager_pins ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_manager_pins" ON manager_pins;
+CREATE POLICY "service_role_manager_pins" ON manager_pins
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 3) Approval log
+CREATE TABLE IF NOT EXISTS manager_approvals (
+  id                 uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token_id           text NOT NULL UNIQUE,
+  action             text NOT NULL CHECK (action IN ('discount', 'void', 'refund')),
+  amount             numeric(12,2),
+  warehouse_id       uuid,
+  sale_id            uuid,
+  requested_by_email text NOT NULL,
+  approved_by_email  text NOT NULL,
+  reason             text,
+  created_at         timestamptz NOT NULL DEFAULT now(),
+  expires_at         timestamptz NOT NULL,
+  used_at            timestamptz,
+  used_ref           text
+);
+
+CREATE INDEX IF NOT EXISTS idx_manager_approvals_created ON manager_approvals(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_manager_approvals_sale ON manager_approvals(sale_id) WHERE sale_id IS NOT NULL;
+
+COMMENT ON TABLE manager_approvals IS 'Issued manager override tokens (token_id = JWT jti). used_ref is the Idempotency-Key or sale id that consumed it; a replay with the same ref is allowed.';
+
+ALTER TABLE manager_approvals ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_manager_approvals" ON manager_approvals;
+CREATE POLICY "service_role_manager_approvals" ON manager_approvals
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
@@ -0,0 +1,275 @@
+-- Cash drawer (till) sessions per warehouse and device.
+-- 1) till_sessions: opening float, blind closing count, expected cash and variance, Z summary snapshot.
+-- 2) till_cash_movements: paid-in / paid-out entries with a reason.
+-- 3) sales.till_session_id / sale_returns.till_session_id: which drawer took the money.
+-- 4) RPCs: open_till_session, get_till_session_summary (X report), close_till_session (Z report).
+
+CREATE SEQUENCE IF NOT EXISTS till_session_seq;
+
+-- 1) Sessions (one open session per warehouse + device)
+CREATE TABLE IF NOT EXISTS till_sessions (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_number   text NOT NULL UNIQUE,
+  warehouse_id     uuid NOT NULL REFERENCES warehouses(id),
+  device_id        text NOT NULL CHECK (length(trim(device_id)) > 0),
+  status           text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opening_float    numeric(12,2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  opened_by_email  text,
+  opened_at        timestamptz NOT NULL DEFAULT now(),
+  counted_cash     numeric(12,2),
+  expected_cash    numeric(12,2),
+  variance         numeric(12,2),
+  summary          jsonb,
+  note             text,
+  closed_by_email  text,
+  closed_at        timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_till_sessions_one_open
+  ON till_sessions(warehouse_id, device_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_till_sessions_warehouse_opened ON till_sessions(warehouse_id, opened_at DESC);
+
+COMMENT ON TABLE till_sessions IS 'Cash drawer shifts. expected_cash / variance / summary are snapshotted by close_till_session (Z report).';
+
+ALTER TABLE till_sessions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_till_sessions" ON till_sessions;
+CREATE POLICY "service_role_till_sessions" ON till_sessions
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 2) Paid in / paid out
+CREATE TABLE IF NOT EXISTS till_cash_movements (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id       uuid NOT NULL REFERENCES till_sessions(id) ON DELETE CASCADE,
+  kind             text NOT NULL CHECK (kind IN ('paid_in', 'paid_out')),
+  amount           numeric(12,2) NOT NULL CHECK (amount > 0),
+  reason           text NOT NULL CHECK (length(trim(reason)) > 0),
+  created_by_email text,
+  created_at       timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_till_cash_movements_session ON till_cash_movements(session_id, created_at);
+
+ALTER TABLE till_cash_movements ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_till_cash_movements" ON till_cash_movements;
+CREATE POLICY "service_role_till_cash_movements" ON till_cash_movements
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 3) Link sales and refunds to the drawer they went through
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS till_session_id uuid REFERENCES till_sessions(id) ON DELETE SET NULL;
+ALTER TABLE sale_returns ADD COLUMN IF NOT EXISTS till_session_id uuid REFERENCES till_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sales_till_session ON sales(till_session_id) WHERE till_session_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sale_returns_till_session ON sale_returns(till_session_id) WHERE till_session_id IS NOT NULL;
+
+-- 4a) Open a session
+CREATE OR REPLACE FUNCTION open_till_session(
+  p_warehouse_id  uuid,
+  p_device_id     text,
+  p_opening_float numeric,
+  p_email         text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid := gen_random_uuid();
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM warehouses WHERE id = p_warehouse_id) THEN
+    RAISE EXCEPTION 'Warehouse not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF NULLIF(trim(p_device_id), '') IS NULL THEN
+    RAISE EXCEPTION 'A device id is required' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_opening_float IS NULL OR p_opening_float < 0 THEN
+    RAISE EXCEPTION 'Opening float must be 0 or more' USING ERRCODE = 'P0001';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM till_sessions
+    WHERE warehouse_id = p_warehouse_id AND device_id = trim(p_device_id) AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'TILL_SESSION_ALREADY_OPEN' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO till_sessions (id, session_number, warehouse_id, device_id, opening_float, opened_by_email)
+  VALUES (
+    v_id,
+    'TILL-' || to_char(now(), 'YYYYMMDD') || '-' || lpad((nextval('till_session_seq') % 10000)::text, 4, '0'),
+    p_warehouse_id,
+    trim(p_device_id),
+    round(p_opening_float, 2),
+    p_email
+  );
+  RETURN v_id;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'TILL_SESSION_ALREADY_OPEN' USING ERRCODE = 'P0001';
+END;
+$$;
+
+-- 4b) Running figures for a session (X report). Cash = cash sales plus the cash legs of mixed payments
+-- (sales.payments_breakdown), less cash refunds, plus paid in, less paid out. Voided sales are left out.
+CREATE OR REPLACE FUNCTION get_till_session_summary(p_session_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_float        numeric;
+  v_cash_sales   numeric := 0;
+  v_sales_total  numeric := 0;
+  v_sales_count  int := 0;
+  v_discounts    numeric := 0;
+  v_void_total   numeric := 0;
+  v_void_count   int := 0;
+  v_by_method    jsonb;
+  v_cash_refunds numeric := 0;
+  v_refund_total numeric := 0;
+  v_refund_count int := 0;
+  v_paid_in      numeric := 0;
+  v_paid_out     numeric := 0;
+BEGIN
+  SELECT opening_float INTO v_float FROM till_sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Till session not found' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(s.total) FILTER (WHERE s.status IS DISTINCT FROM 'voided'), 0),
+    COUNT(*) FILTER (WHERE s.status IS DISTINCT FROM 'voided'),
+    COALESCE(SUM(s.discount_amt) FILTER (WHERE s.status IS DISTINCT FROM 'voided'), 0),
+    COALESCE(SUM(s.total) FILTER (WHERE s.status = 'voided'), 0),
+    COUNT(*) FILTER (WHERE s.status = 'voided')
+  INTO v_sales_total, v_sales_count, v_discounts, v_void_total, v_void_count
+  FROM sales s
+  WHERE s.till_session_id = p_session_id;
+
+  -- One row per payment leg: mixed sales split by payments_breakdown, everything else is one leg.
+  WITH legs AS (
+    SELECT lower(trim(leg->>'method')) AS method, COALESCE((leg->>'amount')::numeric, 0) AS amount
+    FROM sales s
+    CROSS JOIN LATERAL jsonb_array_elements(s.payments_breakdown) leg
+    WHERE s.till_session_id = p_session_id
+      AND s.status IS DISTINCT FROM 'voided'
+      AND lower(trim(s.payment_method)) = 'mixed'
+      AND jsonb_typeof(s.payments_breakdown) = 'array'
+    UNION ALL
+    SELECT lower(trim(s.payment_method)), s.total
+    FROM sales s
+    WHERE s.till_session_id = p_session_id
+      AND s.status IS DISTINCT FROM 'voided'
+      AND (lower(trim(s.payment_method)) <> 'mixed' OR jsonb_typeof(s.payments_breakdown) IS DISTINCT FROM 'array')
+  ),
+  totals AS (
+    SELECT method, round(SUM(amount), 2) AS amount FROM legs GROUP BY method
+  )
+  SELECT
+    COALESCE(jsonb_object_agg(method, amount), '{}'::jsonb),
+    COALESCE(SUM(amount) FILTER (WHERE method = 'cash'), 0)
+  INTO v_by_method, v_cash_sales
+  FROM totals;
+
+  SELECT
+    COALESCE(SUM(r.refund_amount) FILTER (WHERE lower(r.refund_method) = 'cash'), 0),
+    COALESCE(SUM(r.refund_amount), 0),
+    COUNT(*)
+  INTO v_cash_refunds, v_refund_total, v_refund_count
+  FROM sale_returns r
+  WHERE r.till_session_id = p_session_id;
+
+  SELECT
+    COALESCE(SUM(m.amount) FILTER (WHERE m.kind = 'paid_in'), 0),
+    COALESCE(SUM(m.amount) FILTER (WHERE m.kind = 'paid_out'), 0)
+  INTO v_paid_in, v_paid_out
+  FROM till_cash_movements m
+  WHERE m.session_id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'openingFloat', v_float,
+    'salesCount',   v_sales_count,
+    'salesTotal',   round(v_sales_total, 2),
+    'discountTotal', round(v_discounts, 2),
+    'byMethod',     v_by_method,
+    'voidCount',    v_void_count,
+    'voidTotal',    round(v_void_total, 2),
+    'refundCount',  v_refund_count,
+    'refundTotal',  round(v_refund_total, 2),
+    'cashSales',    round(v_cash_sales, 2),
+    'cashRefunds',  round(v_cash_refunds, 2),
+    'paidIn',       round(v_paid_in, 2),
+    'paidOut',      round(v_paid_out, 2),
+    'expectedCash', round(v_float + v_cash_sales - v_cash_refunds + v_paid_in - v_paid_out, 2)
+  );
+END;
+$$;
+
+-- 4c) Close with the blind count: snapshot the summary, record expected cash and variance (Z report).
+CREATE OR REPLACE FUNCTION close_till_session(
+  p_session_id   uuid,
+  p_counted_cash numeric,
+  p_email        text DEFAULT NULL,
+  p_note         text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status   text;
+  v_summary  jsonb;
+  v_expected numeric;
+BEGIN
+  SELECT status INTO v_status FROM till_sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Till session not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_status <> 'open' THEN
+    RAISE EXCEPTION 'TILL_SESSION_CLOSED' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_counted_cash IS NULL OR p_counted_cash < 0 THEN
+    RAISE EXCEPTION 'Counted cash must be 0 or more' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_summary  := get_till_session_summary(p_session_id);
+  v_expected := (v_summary->>'expectedCash')::numeric;
+
+  UPDATE till_sessions
+  SET status = 'closed',
+      counted_cash = round(p_counted_cash, 2),
+      expected_cash = v_expected,
+      variance = round(p_counted_cash - v_expected, 2),
+      summary = v_summary,
+      note = NULLIF(trim(p_note), ''),
+      closed_by_email = p_email,
+      closed_at = now()
+  WHERE id = p_session_id;
+
+  RETURN v_summary || jsonb_build_object(
+    'countedCash', round(p_counted_cash, 2),
+    'variance',    round(p_counted_cash - v_expected, 2)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION open_till_session(uuid, text, numeric, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION open_till_session(uuid, text, numeric, text) FROM anon;
+REVOKE ALL ON FUNCTION open_till_session(uuid, text, numeric, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION open_till_session(uuid, text, numeric, text) TO service_role;
+
+REVOKE ALL ON FUNCTION get_till_session_summary(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_till_session_summary(uuid) FROM anon;
+REVOKE ALL ON FUNCTION get_till_session_summary(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION get_till_session_summary(uuid) TO service_role;
+
+REVOKE ALL ON FUNCTION close_till_session(uuid, numeric, text, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION close_till_session(uuid, numeric, text, text) FROM anon;
+REVOKE ALL ON FUNCTION close_till_session(uuid, numeric, text, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION close_till_session(uuid, numeric, text, text) TO service_role;
+
+COMMENT ON FUNCTION open_till_session(uuid, text, numeric, text) IS 'Open a till session with its float. One open session per warehouse + device (TILL_SESSION_ALREADY_OPEN).';
+COMMENT ON FUNCTION get_till_session_summary(uuid) IS 'Running till figures (X report): sales by payment method, voids, refunds, paid in/out and expected cash in the drawer.';
+COMMENT ON FUNCTION close_till_session(uuid, numeric, text, text) IS 'Close a till session with the blind cash count; stores the summary, expected cash and variance (Z report).';
@@ -0,0 +1,34 @@
+-- Mobile money collections: a prompt sent to the customer's phone through a provider (MTN MoMo, or the fake
+-- provider locally), its status, and the sale it paid for. The sale's payments_breakdown leg carries the
+-- provider reference too, so the receipt and reports do not need this table.
+
+CREATE TABLE IF NOT EXISTS mobile_money_payments (
+  id                       uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider                 text NOT NULL,
+  provider_ref             text NOT NULL,
+  warehouse_id             uuid NOT NULL REFERENCES warehouses(id),
+  phone                    text NOT NULL,
+  amount                   numeric(12,2) NOT NULL CHECK (amount > 0),
+  currency                 text NOT NULL DEFAULT 'GHS',
+  status                   text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'successful', 'failed')),
+  reason                   text,
+  financial_transaction_id text,
+  requested_by_email       text,
+  sale_id                  uuid REFERENCES sales(id) ON DELETE SET NULL,
+  sale_ref                 text,
+  created_at               timestamptz NOT NULL DEFAULT now(),
+  updated_at               timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (provider, provider_ref)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mobile_money_payments_warehouse_created ON mobile_money_payments(warehouse_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mobile_money_payments_sale ON mobile_money_payments(sale_id) WHERE sale_id IS NOT NULL;
+
+COMMENT ON TABLE mobile_money_payments IS 'Mobile money collection requests. status is updated by polling the provider or by its webhook; sale_ref is the Idempotency-Key of the sale that used the payment (a replay with the same key may use it again).';
+
+ALTER TABLE mobile_money_payments ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_mobile_money_payments" ON mobile_money_payments;
+CREATE POLICY "service_role_mobile_money_payments" ON mobile_money_payments
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+COMMENT ON COLUMN sales.payments_breakdown IS 'For payment_method = mixed: array of { method, amount } per leg. Mobile money legs paid through a provider also carry mobileMoneyPaymentId, provider, providerRef and financialTransactionId (single mobile_money sales get one such leg).';
@@ -0,0 +1,787 @@
+-- Layaway: sales that take a deposit, hold the stock and are paid off in instalments.
+-- 1) sales.payment_status / amount_paid / layaway_status / layaway_expires_at. An open layaway has
+--    status = 'layaway' (left out of sales reports) until it is paid off ('completed') or released ('cancelled').
+-- 2) layaway_payments: the deposit and each instalment, with the till session that took the money.
+-- 3) record_sale: p_layaway { deposit, expiresAt } reserves stock like a delivery sale and records the deposit.
+-- 4) record_layaway_payment: takes an instalment; the last one deducts the reserved stock and earns points.
+-- 5) release_layaway / release_expired_layaways (hourly pg_cron): give the stock back when a layaway is not paid
+--    off by its release date. Deposits are not refunded automatically.
+-- 6) get_till_session_summary: layaway money counts when it is taken (deposit / instalment), not at the sale total.
+
+-- 1) Payment status on sales
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS payment_status     text NOT NULL DEFAULT 'paid';
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS amount_paid        numeric(12,2);
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS layaway_status     text;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS layaway_expires_at timestamptz;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS layaway_closed_at  timestamptz;
+
+ALTER TABLE sales DROP CONSTRAINT IF EXISTS sales_payment_status_check;
+ALTER TABLE sales ADD CONSTRAINT sales_payment_status_check CHECK (payment_status IN ('paid', 'partial'));
+ALTER TABLE sales DROP CONSTRAINT IF EXISTS sales_layaway_status_check;
+ALTER TABLE sales ADD CONSTRAINT sales_layaway_status_check
+  CHECK (layaway_status IS NULL OR layaway_status IN ('open', 'completed', 'released'));
+
+CREATE INDEX IF NOT EXISTS idx_sales_layaway_open ON sales(warehouse_id, layaway_expires_at) WHERE layaway_status = 'open';
+
+COMMENT ON COLUMN sales.payment_status IS 'paid | partial. partial = open layaway with a balance due.';
+COMMENT ON COLUMN sales.amount_paid IS 'Paid so far (deposit plus instalments for layaways). Null on sales before layaways = total.';
+COMMENT ON COLUMN sales.layaway_status IS 'open | completed | released. Null = not a layaway.';
+COMMENT ON COLUMN sales.layaway_expires_at IS 'An open layaway is released (stock back on sale) after this.';
+COMMENT ON COLUMN sales.layaway_closed_at IS 'When the layaway was paid off or released.';
+
+-- 2) Deposits and instalments
+CREATE TABLE IF NOT EXISTS layaway_payments (
+  id                 uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id            uuid NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  warehouse_id       uuid NOT NULL REFERENCES warehouses(id),
+  kind               text NOT NULL CHECK (kind IN ('deposit', 'installment')),
+  payment_method     text NOT NULL,
+  payments_breakdown jsonb,
+  amount             numeric(12,2) NOT NULL CHECK (amount > 0),
+  till_session_id    uuid REFERENCES till_sessions(id),
+  idempotency_key    text UNIQUE,
+  created_by_email   text,
+  created_at         timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_layaway_payments_sale ON layaway_payments(sale_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_layaway_payments_till ON layaway_payments(till_session_id) WHERE till_session_id IS NOT NULL;
+
+COMMENT ON TABLE layaway_payments IS 'Money taken on layaways: the deposit (recorded by record_sale) and instalments (record_layaway_payment). payments_breakdown = mixed legs of the deposit.';
+
+ALTER TABLE layaway_payments ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_layaway_payments" ON layaway_payments;
+CREATE POLICY "service_role_layaway_payments" ON layaway_payments
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 3) record_sale with layaways (replace the 18-param version so only one candidate exists)
+DROP FUNCTION IF EXISTS record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric);
+
+CREATE OR REPLACE FUNCTION record_sale(
+  p_warehouse_id    uuid,
+  p_lines           jsonb,
+  p_subtotal        numeric,
+  p_discount_pct    numeric,
+  p_discount_amt    numeric,
+  p_total           numeric,
+  p_payment_method  text,
+  p_customer_name   text DEFAULT NULL,
+  p_sold_by         uuid DEFAULT NULL,
+  p_sold_by_email   text DEFAULT NULL,
+  p_delivery_schedule jsonb DEFAULT NULL,
+  p_idempotency_key   text  DEFAULT NULL,
+  p_request_hash      text  DEFAULT NULL,
+  p_customer_id       uuid  DEFAULT NULL,
+  p_customer_email    text  DEFAULT NULL,
+  p_payments          jsonb DEFAULT NULL,
+  p_points_per_cedi   numeric DEFAULT 1,
+  p_point_value       numeric DEFAULT 0.01,
+  p_layaway           jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale_id           uuid := gen_random_uuid();
+  v_receipt_id        text;
+  v_item_count        int  := 0;
+  v_line              jsonb;
+  v_product_id         uuid;
+  v_size_code         text;
+  v_qty               int;
+  v_unit_price        numeric;
+  v_line_total        numeric;
+  v_name              text;
+  v_sku               text;
+  v_image_url         text;
+  v_size_kind         text;
+  v_current_qty        int;
+  v_reserved_qty      int;
+  v_cost_price        numeric;
+  v_is_delivery       boolean;
+  v_single_size_code  text;   -- for one-size when sizeCode is null
+  v_size_row_count     int;
+  v_idem              sale_idempotency_keys%ROWTYPE;
+  v_result            jsonb;
+  v_customer          customers%ROWTYPE;
+  v_customer_name     text := NULLIF(trim(p_customer_name), '');
+  v_customer_email    text := NULLIF(trim(p_customer_email), '');
+  v_customer_id       uuid;
+  v_method            text := lower(trim(p_payment_method));
+  v_is_mixed          boolean;
+  v_points_tender     numeric := 0;
+  v_credit_tender     numeric := 0;
+  v_points_balance    int;
+  v_credit_balance    numeric;
+  v_points_redeemed   int := 0;
+  v_points_earned     int := 0;
+  v_promotion_id      uuid;
+  v_line_discount     numeric;
+  v_is_layaway        boolean;
+  v_reserve           boolean;
+  v_deposit           numeric;
+  v_layaway_expires   timestamptz;
+BEGIN
+  -- Idempotency: serialize concurrent requests with the same key, then replay or reject.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended('sale_idempotency:' || p_idempotency_key, 0));
+    SELECT * INTO v_idem
+    FROM sale_idempotency_keys
+    WHERE idempotency_key = p_idempotency_key AND expires_at > now();
+    IF FOUND THEN
+      IF v_idem.request_hash IS DISTINCT FROM p_request_hash THEN
+        RAISE EXCEPTION 'IDEMPOTENCY_KEY_CONFLICT' USING ERRCODE = 'P0001';
+      END IF;
+      RETURN v_idem.response || jsonb_build_object('idempotentReplay', true);
+    END IF;
+  END IF;
+
+  -- Directory customer: fill name / email from the profile when the cart did not send them. An unknown id
+  -- (e.g. customer deleted before an offline sale synced) just leaves the sale unlinked.
+  -- FOR UPDATE: concurrent sales for one customer take turns checking and spending the balances.
+  IF p_customer_id IS NOT NULL THEN
+    SELECT * INTO v_customer FROM customers WHERE id = p_customer_id FOR UPDATE;
+    IF FOUND THEN
+      v_customer_id    := v_customer.id;
+      v_customer_name  := COALESCE(v_customer_name, v_customer.name);
+      v_customer_email := COALESCE(v_customer_email, v_customer.email);
+    END IF;
+  END IF;
+
+  -- Tender paid from balances: the whole total, or the points / store_credit legs of a mixed payment.
+  v_is_mixed := v_method = 'mixed' AND p_payments IS NOT NULL AND jsonb_typeof(p_payments) = 'array';
+  IF v_method = 'points' THEN
+    v_points_tender := p_total;
+  ELSIF v_method = 'store_credit' THEN
+    v_credit_tender := p_total;
+  ELSIF v_is_mixed THEN
+    SELECT
+      COALESCE(SUM((p->>'amount')::numeric) FILTER (WHERE lower(p->>'method') = 'points'), 0),
+      COALESCE(SUM((p->>'amount')::numeric) FILTER (WHERE lower(p->>'method') = 'store_credit'), 0)
+    INTO v_points_tender, v_credit_tender
+    FROM jsonb_array_elements(p_payments) p;
+  END IF;
+
+  IF (v_points_tender > 0 OR v_credit_tender > 0) AND v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'CUSTOMER_REQUIRED' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_customer_id IS NOT NULL THEN
+    SELECT points_balance, store_credit_balance INTO v_points_balance, v_credit_balance
+    FROM customer_balances WHERE customer_id = v_customer_id;
+  END IF;
+
+  IF v_points_tender > 0 THEN
+    v_points_redeemed := ceil(round(v_points_tender / p_point_value, 6))::int;
+    IF v_points_redeemed > v_points_balance THEN
+      RAISE EXCEPTION 'INSUFFICIENT_POINTS' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+  IF v_credit_tender > 0 AND v_credit_tender > v_credit_balance THEN
+    RAISE EXCEPTION 'INSUFFICIENT_STORE_CREDIT' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_is_delivery := (p_delivery_schedule IS NOT NULL AND jsonb_typeof(p_delivery_schedule) = 'object');
+
+  -- Layaway: the payment is a deposit; stock is reserved like a delivery until the balance is paid.
+  v_is_layaway := (p_layaway IS NOT NULL AND jsonb_typeof(p_layaway) = 'object');
+  IF v_is_layaway THEN
+    v_deposit := round(COALESCE((p_layaway->>'deposit')::numeric, 0), 2);
+    v_layaway_expires := COALESCE((p_layaway->>'expiresAt')::timestamptz, now() + interval '30 days');
+    IF v_is_delivery OR v_deposit <= 0 OR v_deposit >= p_total THEN
+      RAISE EXCEPTION 'LAYAWAY_DEPOSIT_INVALID' USING ERRCODE = 'P0001';
+    END IF;
+    IF v_points_tender > 0 OR v_credit_tender > 0 THEN
+      RAISE EXCEPTION 'LAYAWAY_TENDER_NOT_ALLOWED' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+  v_reserve := v_is_delivery OR v_is_layaway;
+
+  v_receipt_id := 'RCP-'
+    || to_char(now(), 'YYYYMMDD')
+    || '-'
+    || lpad((nextval('receipt_seq') % 10000)::text, 4, '0');
+
+  INSERT INTO sales (
+    id, warehouse_id, customer_name, customer_email, customer_id, payment_method, payments_breakdown,
+    subtotal, discount_pct, discount_amt, total,
+    receipt_id, status, sold_by, sold_by_email, created_at,
+    delivery_schedule, delivery_status,
+    payment_status, amount_paid, layaway_status, layaway_expires_at
+  ) VALUES (
+    v_sale_id, p_warehouse_id, v_customer_name, v_customer_email, v_customer_id, p_payment_method,
+    CASE WHEN v_is_mixed THEN p_payments ELSE NULL END,
+    p_subtotal, p_discount_pct, p_discount_amt, p_total,
+    v_receipt_id, CASE WHEN v_is_layaway THEN 'layaway' ELSE 'completed' END, p_sold_by, p_sold_by_email, now(),
+    CASE WHEN v_is_delivery THEN p_delivery_schedule ELSE NULL END,
+    CASE WHEN v_is_delivery THEN 'pending'::text ELSE NULL END,
+    CASE WHEN v_is_layaway THEN 'partial' ELSE 'paid' END,
+    CASE WHEN v_is_layaway THEN v_deposit ELSE p_total END,
+    CASE WHEN v_is_layaway THEN 'open' ELSE NULL END,
+    CASE WHEN v_is_layaway THEN v_layaway_expires ELSE NULL END
+  );
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_product_id := (v_line->>'productId')::uuid;
+    v_size_code  := NULLIF(trim(upper(v_line->>'sizeCode')), '');
+    v_qty        := GREATEST(1, (v_line->>'qty')::int);
+    v_unit_price := COALESCE((v_line->>'unitPrice')::numeric, 0);
+    v_line_total := COALESCE((v_line->>'lineTotal')::numeric, v_unit_price * v_qty);
+    v_name       := COALESCE(v_line->>'name', 'Unknown');
+    v_sku        := COALESCE(v_line->>'sku', '');
+    v_image_url  := NULLIF(trim(v_line->>'imageUrl'), '');
+    v_item_count := v_item_count + v_qty;
+    -- lineTotal is already net of discountAmt; an unknown promotionId is dropped, the discount is kept.
+    v_line_discount := GREATEST(0, COALESCE((v_line->>'discountAmt')::numeric, 0));
+    v_promotion_id  := NULL;
+    IF NULLIF(v_line->>'promotionId', '') IS NOT NULL THEN
+      SELECT id INTO v_promotion_id FROM promotions WHERE id = (v_line->>'promotionId')::uuid;
+    END IF;
+
+    SELECT cost_price INTO v_cost_price FROM warehouse_products WHERE id = v_product_id;
+    v_cost_price := COALESCE(v_cost_price, 0);
+    SELECT size_kind INTO v_size_kind FROM warehouse_products WHERE id = v_product_id;
+
+    IF v_reserve THEN
+      -- Scheduled delivery or layaway: reserve (check available = quantity - reserved >= qty)
+      IF v_size_kind = 'sized' AND v_size_code IS NOT NULL THEN
+        SELECT COALESCE(quantity, 0) INTO v_current_qty
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+          AND upper(trim(size_code)) = v_size_code
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        SELECT COALESCE(SUM(sr.qty), 0)::int INTO v_reserved_qty
+        FROM sale_reservations sr
+        WHERE sr.warehouse_id = p_warehouse_id AND sr.product_id = v_product_id
+          AND upper(trim(COALESCE(sr.size_code, ''))) = v_size_code;
+        IF (v_current_qty - v_reserved_qty) < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        INSERT INTO sale_reservations (sale_id, warehouse_id, product_id, size_code, qty)
+        VALUES (v_sale_id, p_warehouse_id, v_product_id, v_size_code, v_qty);
+      ELSE
+        SELECT COALESCE(quantity, 0) INTO v_current_qty
+        FROM warehouse_inventory
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        SELECT COALESCE(SUM(sr.qty), 0)::int INTO v_reserved_qty
+        FROM sale_reservations sr
+        WHERE sr.warehouse_id = p_warehouse_id AND sr.product_id = v_product_id
+          AND (sr.size_code IS NULL OR trim(sr.size_code) = '');
+        IF (v_current_qty - v_reserved_qty) < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        INSERT INTO sale_reservations (sale_id, warehouse_id, product_id, size_code, qty)
+        VALUES (v_sale_id, p_warehouse_id, v_product_id, NULL, v_qty);
+      END IF;
+      INSERT INTO sale_lines (
+        id, sale_id, product_id, size_code, product_name, product_sku,
+        unit_price, qty, line_total, product_image_url, cost_price, created_at,
+        promotion_id, discount_amt
+      ) VALUES (
+        gen_random_uuid(), v_sale_id, v_product_id, v_size_code, v_name, v_sku,
+        v_unit_price, v_qty, v_line_total, v_image_url, v_cost_price, now(),
+        v_promotion_id, v_line_discount
+      );
+    ELSE
+      -- Direct sale: deduct immediately
+      IF v_size_kind = 'sized' AND v_size_code IS NOT NULL THEN
+        -- Sized product with size selected: case-insensitive match
+        SELECT quantity INTO v_current_qty
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+          AND upper(trim(size_code)) = v_size_code
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        IF v_current_qty < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        UPDATE warehouse_inventory_by_size
+        SET quantity = quantity - v_qty, updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+          AND upper(trim(size_code)) = v_size_code;
+        UPDATE warehouse_inventory
+        SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id),
+            updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+      ELSIF v_size_kind = 'sized' AND v_size_code IS NULL THEN
+        -- One-size product (sizeCode not sent): deduct from the single by_size row if exactly one
+        SELECT count(*) INTO v_size_row_count
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+        IF v_size_row_count = 0 THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        IF v_size_row_count > 1 THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK: size required for multi-size product' USING ERRCODE = 'P0001';
+        END IF;
+        SELECT size_code, quantity INTO v_single_size_code, v_current_qty
+        FROM warehouse_inventory_by_size
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+        FOR UPDATE;
+        IF v_current_qty < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        UPDATE warehouse_inventory_by_size
+        SET quantity = quantity - v_qty, updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+        UPDATE warehouse_inventory
+        SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id),
+            updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+        v_size_code := v_single_size_code;  -- for sale_lines.size_code
+      ELSE
+        -- Non-sized: deduct from warehouse_inventory
+        SELECT quantity INTO v_current_qty
+        FROM warehouse_inventory
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id
+        FOR UPDATE;
+        IF NOT FOUND OR v_current_qty IS NULL THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        IF v_current_qty < v_qty THEN
+          RAISE EXCEPTION 'INSUFFICIENT_STOCK' USING ERRCODE = 'P0001';
+        END IF;
+        UPDATE warehouse_inventory
+        SET quantity = quantity - v_qty, updated_at = now()
+        WHERE warehouse_id = p_warehouse_id AND product_id = v_product_id;
+      END IF;
+      INSERT INTO sale_lines (
+        id, sale_id, product_id, size_code, product_name, product_sku,
+        unit_price, qty, line_total, product_image_url, cost_price, created_at,
+        promotion_id, discount_amt
+      ) VALUES (
+        gen_random_uuid(), v_sale_id, v_product_id, v_size_code, v_name, v_sku,
+        v_unit_price, v_qty, v_line_total, v_image_url, v_cost_price, now(),
+        v_promotion_id, v_line_discount
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE sales SET item_count = v_item_count WHERE id = v_sale_id;
+
+  -- Ledgers: spend first, then earn on the part paid with money.
+  IF v_customer_id IS NOT NULL THEN
+    IF v_points_redeemed > 0 THEN
+      INSERT INTO loyalty_ledger (customer_id, points, entry_type, sale_id, created_by_email)
+      VALUES (v_customer_id, -v_points_redeemed, 'redeem', v_sale_id, p_sold_by_email);
+    END IF;
+    IF v_credit_tender > 0 THEN
+      INSERT INTO store_credit_ledger (customer_id, amount, entry_type, sale_id, created_by_email)
+      VALUES (v_customer_id, -round(v_credit_tender, 2), 'redeem', v_sale_id, p_sold_by_email);
+    END IF;
+    -- Layaways earn when they are paid off (record_layaway_payment).
+    v_points_earned := CASE WHEN v_is_layaway THEN 0
+      ELSE GREATEST(0, floor((p_total - v_points_tender - v_credit_tender) * COALESCE(p_points_per_cedi, 0)))::int END;
+    IF v_points_earned > 0 THEN
+      INSERT INTO loyalty_ledger (customer_id, points, entry_type, sale_id, created_by_email)
+      VALUES (v_customer_id, v_points_earned, 'earn', v_sale_id, p_sold_by_email);
+    END IF;
+  END IF;
+
+  IF v_is_layaway THEN
+    INSERT INTO layaway_payments (sale_id, warehouse_id, kind, payment_method, payments_breakdown, amount, created_by_email)
+    VALUES (v_sale_id, p_warehouse_id, 'deposit', p_payment_method,
+            CASE WHEN v_is_mixed THEN p_payments ELSE NULL END, v_deposit, p_sold_by_email);
+  END IF;
+
+  v_result := jsonb_build_object(
+    'id',         v_sale_id,
+    'receiptId',  v_receipt_id,
+    'total',      p_total,
+    'itemCount',  v_item_count,
+    'status',     CASE WHEN v_is_layaway THEN 'layaway' ELSE 'completed' END,
+    'createdAt',  now(),
+    'customerId', v_customer_id
+  );
+  IF v_is_layaway THEN
+    v_result := v_result || jsonb_build_object(
+      'layaway', jsonb_build_object(
+        'amountPaid', v_deposit,
+        'balanceDue', round(p_total - v_deposit, 2),
+        'expiresAt',  v_layaway_expires
+      )
+    );
+  END IF;
+  IF v_customer_id IS NOT NULL THEN
+    v_result := v_result || jsonb_build_object(
+      'loyalty', jsonb_build_object(
+        'pointsEarned',       v_points_earned,
+        'pointsRedeemed',     v_points_redeemed,
+        'pointsBalance',      v_points_balance - v_points_redeemed + v_points_earned,
+        'storeCreditUsed',    round(v_credit_tender, 2),
+        'storeCreditBalance', v_credit_balance - round(v_credit_tender, 2)
+      )
+    );
+  END IF;
+
+  -- Stored in the same transaction as the sale: either both commit or neither does.
+  IF p_idempotency_key IS NOT NULL THEN
+    INSERT INTO sale_idempotency_keys (idempotency_key, request_hash, warehouse_id, sale_id, response, created_at, expires_at)
+    VALUES (p_idempotency_key, p_request_hash, p_warehouse_id, v_sale_id, v_result, now(), now() + interval '24 hours')
+    ON CONFLICT (idempotency_key) DO UPDATE
+      SET request_hash = EXCLUDED.request_hash,
+          warehouse_id = EXCLUDED.warehouse_id,
+          sale_id      = EXCLUDED.sale_id,
+          response     = EXCLUDED.response,
+          created_at   = EXCLUDED.created_at,
+          expires_at   = EXCLUDED.expires_at;
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+COMMENT ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric, jsonb) IS
+  'Record sale: direct sale = deduct stock now; delivery sale = reserve only. Optional idempotency key: replays return the stored response, different payload raises IDEMPOTENCY_KEY_CONFLICT. Optional p_customer_id links the sale to the customer directory; points / store_credit tender is taken from their ledgers and points are earned on the rest. Lines may carry promotionId / discountAmt (lineTotal is net). p_layaway { deposit, expiresAt } records a layaway: the payment is the deposit, stock is reserved and status is layaway until paid off.';
+
+REVOKE ALL ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric, jsonb) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric, jsonb) FROM anon;
+REVOKE EXECUTE ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric, jsonb) FROM authenticated;
+GRANT EXECUTE ON FUNCTION record_sale(uuid, jsonb, numeric, numeric, numeric, numeric, text, text, uuid, text, jsonb, text, text, uuid, text, jsonb, numeric, numeric, jsonb) TO service_role;
+
+
+-- 4) Instalment. The payment that clears the balance deducts the reserved stock (as complete_delivery does),
+-- completes the sale and earns loyalty points on the total.
+CREATE OR REPLACE FUNCTION record_layaway_payment(
+  p_sale_id          uuid,
+  p_amount           numeric,
+  p_payment_method   text,
+  p_email            text DEFAULT NULL,
+  p_till_session_id  uuid DEFAULT NULL,
+  p_idempotency_key  text DEFAULT NULL,
+  p_points_per_cedi  numeric DEFAULT 1
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale       sales%ROWTYPE;
+  v_amount     numeric := round(p_amount, 2);
+  v_paid       numeric;
+  v_paid_off   boolean := false;
+  v_points     int := 0;
+  v_line       record;
+  v_size_kind  text;
+  v_replay_for uuid;
+BEGIN
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Same key again (lost response): answer with the layaway as it is now.
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT sale_id INTO v_replay_for FROM layaway_payments WHERE idempotency_key = p_idempotency_key;
+    IF FOUND THEN
+      IF v_replay_for <> p_sale_id THEN
+        RAISE EXCEPTION 'IDEMPOTENCY_KEY_CONFLICT' USING ERRCODE = 'P0001';
+      END IF;
+      RETURN jsonb_build_object(
+        'saleId',           v_sale.id,
+        'status',           v_sale.status,
+        'layawayStatus',    v_sale.layaway_status,
+        'amountPaid',       COALESCE(v_sale.amount_paid, v_sale.total),
+        'balanceDue',       round(v_sale.total - COALESCE(v_sale.amount_paid, v_sale.total), 2),
+        'paidOff',          v_sale.layaway_status = 'completed',
+        'pointsEarned',     0,
+        'idempotentReplay', true
+      );
+    END IF;
+  END IF;
+
+  -- A voided layaway keeps layaway_status 'open' but takes no more payments.
+  IF v_sale.layaway_status IS DISTINCT FROM 'open' OR v_sale.status IS DISTINCT FROM 'layaway' THEN
+    RAISE EXCEPTION 'LAYAWAY_NOT_OPEN' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment must be more than 0' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_amount > round(v_sale.total - COALESCE(v_sale.amount_paid, 0), 2) THEN
+    RAISE EXCEPTION 'LAYAWAY_OVERPAYMENT' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO layaway_payments (sale_id, warehouse_id, kind, payment_method, amount, till_session_id, idempotency_key, created_by_email)
+  VALUES (p_sale_id, v_sale.warehouse_id, 'installment', lower(trim(p_payment_method)), v_amount, p_till_session_id, p_idempotency_key, p_email);
+
+  v_paid := COALESCE(v_sale.amount_paid, 0) + v_amount;
+  v_paid_off := v_paid >= v_sale.total;
+
+  IF v_paid_off THEN
+    FOR v_line IN
+      SELECT sl.product_id, sl.size_code, sl.qty
+      FROM sale_lines sl WHERE sl.sale_id = p_sale_id
+    LOOP
+      SELECT size_kind INTO v_size_kind FROM warehouse_products WHERE id = v_line.product_id;
+
+      IF v_size_kind = 'sized' AND v_line.size_code IS NOT NULL AND trim(v_line.size_code) <> '' THEN
+        UPDATE warehouse_inventory_by_size
+        SET quantity = quantity - v_line.qty, updated_at = now()
+        WHERE warehouse_id = v_sale.warehouse_id AND product_id = v_line.product_id AND size_code = v_line.size_code;
+        UPDATE warehouse_inventory
+        SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                        WHERE warehouse_id = v_sale.warehouse_id AND product_id = v_line.product_id),
+            updated_at = now()
+        WHERE warehouse_id = v_sale.warehouse_id AND product_id = v_line.product_id;
+      ELSE
+        UPDATE warehouse_inventory
+        SET quantity = quantity - v_line.qty, updated_at = now()
+        WHERE warehouse_id = v_sale.warehouse_id AND product_id = v_line.product_id;
+      END IF;
+    END LOOP;
+    DELETE FROM sale_reservations WHERE sale_id = p_sale_id;
+
+    UPDATE sales
+    SET amount_paid = v_paid, payment_status = 'paid', layaway_status = 'completed', status = 'completed',
+        layaway_closed_at = now()
+    WHERE id = p_sale_id;
+
+    IF v_sale.customer_id IS NOT NULL THEN
+      v_points := GREATEST(0, floor(v_sale.total * COALESCE(p_points_per_cedi, 0)))::int;
+      IF v_points > 0 THEN
+        INSERT INTO loyalty_ledger (customer_id, points, entry_type, sale_id, created_by_email)
+        VALUES (v_sale.customer_id, v_points, 'earn', p_sale_id, p_email);
+      END IF;
+    END IF;
+  ELSE
+    UPDATE sales SET amount_paid = v_paid WHERE id = p_sale_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'saleId',        p_sale_id,
+    'status',        CASE WHEN v_paid_off THEN 'completed' ELSE 'layaway' END,
+    'layawayStatus', CASE WHEN v_paid_off THEN 'completed' ELSE 'open' END,
+    'amountPaid',    v_paid,
+    'balanceDue',    round(v_sale.total - v_paid, 2),
+    'paidOff',       v_paid_off,
+    'pointsEarned',  v_points
+  );
+END;
+$$;
+
+-- 5) Release: reserved stock goes back on sale; the sale is cancelled. Payments stay on record.
+CREATE OR REPLACE FUNCTION release_layaway(p_sale_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_layaway_status text;
+  v_status         text;
+BEGIN
+  SELECT layaway_status, status INTO v_layaway_status, v_status FROM sales WHERE id = p_sale_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_layaway_status IS DISTINCT FROM 'open' OR v_status IS DISTINCT FROM 'layaway' THEN
+    RAISE EXCEPTION 'LAYAWAY_NOT_OPEN' USING ERRCODE = 'P0001';
+  END IF;
+  DELETE FROM sale_reservations WHERE sale_id = p_sale_id;
+  UPDATE sales
+  SET layaway_status = 'released', status = 'cancelled', layaway_closed_at = now()
+  WHERE id = p_sale_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_expired_layaways()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id    uuid;
+  v_count int := 0;
+BEGIN
+  FOR v_id IN
+    SELECT id FROM sales
+    WHERE layaway_status = 'open' AND status = 'layaway' AND layaway_expires_at < now()
+    ORDER BY layaway_expires_at
+  LOOP
+    PERFORM release_layaway(v_id);
+    v_count := v_count + 1;
+  END LOOP;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_layaway_payment(uuid, numeric, text, text, uuid, text, numeric) FROM PUBLIC;
+REVOKE ALL ON FUNCTION record_layaway_payment(uuid, numeric, text, text, uuid, text, numeric) FROM anon;
+REVOKE ALL ON FUNCTION record_layaway_payment(uuid, numeric, text, text, uuid, text, numeric) FROM authenticated;
+GRANT EXECUTE ON FUNCTION record_layaway_payment(uuid, numeric, text, text, uuid, text, numeric) TO service_role;
+
+REVOKE ALL ON FUNCTION release_layaway(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION release_layaway(uuid) FROM anon;
+REVOKE ALL ON FUNCTION release_layaway(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION release_layaway(uuid) TO service_role;
+
+REVOKE ALL ON FUNCTION release_expired_layaways() FROM PUBLIC;
+REVOKE ALL ON FUNCTION release_expired_layaways() FROM anon;
+REVOKE ALL ON FUNCTION release_expired_layaways() FROM authenticated;
+GRANT EXECUTE ON FUNCTION release_expired_layaways() TO service_role;
+
+COMMENT ON FUNCTION record_layaway_payment(uuid, numeric, text, text, uuid, text, numeric) IS 'Layaway instalment (LAYAWAY_NOT_OPEN, LAYAWAY_OVERPAYMENT). Paying off the balance deducts the reserved stock, completes the sale and earns points. Optional idempotency key.';
+COMMENT ON FUNCTION release_layaway(uuid) IS 'Release an open layaway: reserved stock back on sale, sale cancelled. Payments are kept; refunds are up to the store.';
+COMMENT ON FUNCTION release_expired_layaways() IS 'Release open layaways past layaway_expires_at. Run hourly by pg_cron. Returns how many were released.';
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'release-expired-layaways') THEN
+    PERFORM cron.unschedule('release-expired-layaways');
+  END IF;
+END
+$$;
+
+SELECT cron.schedule(
+  'release-expired-layaways',
+  '30 * * * *',
+  $$ SELECT release_expired_layaways(); $$
+);
+
+-- 6) Till figures: a layaway sale is not counted at its total; its deposit and instalments are counted in the
+-- session that took them (layaway_payments.till_session_id). Payments on voided sales are left out.
+CREATE OR REPLACE FUNCTION get_till_session_summary(p_session_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_float         numeric;
+  v_cash_sales    numeric := 0;
+  v_sales_total   numeric := 0;
+  v_sales_count   int := 0;
+  v_discounts     numeric := 0;
+  v_void_total    numeric := 0;
+  v_void_count    int := 0;
+  v_by_method     jsonb;
+  v_cash_refunds  numeric := 0;
+  v_refund_total  numeric := 0;
+  v_refund_count  int := 0;
+  v_paid_in       numeric := 0;
+  v_paid_out      numeric := 0;
+  v_layaway_total numeric := 0;
+  v_layaway_count int := 0;
+BEGIN
+  SELECT opening_float INTO v_float FROM till_sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Till session not found' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(s.total) FILTER (WHERE s.status IS DISTINCT FROM 'voided' AND s.layaway_status IS NULL), 0),
+    COUNT(*) FILTER (WHERE s.status IS DISTINCT FROM 'voided' AND s.layaway_status IS NULL),
+    COALESCE(SUM(s.discount_amt) FILTER (WHERE s.status IS DISTINCT FROM 'voided' AND s.layaway_status IS NULL), 0),
+    COALESCE(SUM(s.total) FILTER (WHERE s.status = 'voided'), 0),
+    COUNT(*) FILTER (WHERE s.status = 'voided')
+  INTO v_sales_total, v_sales_count, v_discounts, v_void_total, v_void_count
+  FROM sales s
+  WHERE s.till_session_id = p_session_id;
+
+  SELECT COALESCE(SUM(p.amount), 0), COUNT(*)
+  INTO v_layaway_total, v_layaway_count
+  FROM layaway_payments p
+  JOIN sales s ON s.id = p.sale_id
+  WHERE p.till_session_id = p_session_id
+    AND s.status IS DISTINCT FROM 'voided';
+
+  -- One row per payment leg: mixed sales split by payments_breakdown, everything else is one leg; then the
+  -- layaway payments taken in this session (a mixed deposit split the same way).
+  WITH legs AS (
+    SELECT lower(trim(leg->>'method')) AS method, COALESCE((leg->>'amount')::numeric, 0) AS amount
+    FROM sales s
+    CROSS JOIN LATERAL jsonb_array_elements(s.payments_breakdown) leg
+    WHERE s.till_session_id = p_session_id
+      AND s.status IS DISTINCT FROM 'voided'
+      AND s.layaway_status IS NULL
+      AND lower(trim(s.payment_method)) = 'mixed'
+      AND jsonb_typeof(s.payments_breakdown) = 'array'
+    UNION ALL
+    SELECT lower(trim(s.payment_method)), s.total
+    FROM sales s
+    WHERE s.till_session_id = p_session_id
+      AND s.status IS DISTINCT FROM 'voided'
+      AND s.layaway_status IS NULL
+      AND (lower(trim(s.payment_method)) <> 'mixed' OR jsonb_typeof(s.payments_breakdown) IS DISTINCT FROM 'array')
+    UNION ALL
+    SELECT lower(trim(leg->>'method')), COALESCE((leg->>'amount')::numeric, 0)
+    FROM layaway_payments p
+    JOIN sales s ON s.id = p.sale_id
+    CROSS JOIN LATERAL jsonb_array_elements(p.payments_breakdown) leg
+    WHERE p.till_session_id = p_session_id
+      AND s.status IS DISTINCT FROM 'voided'
+      AND lower(trim(p.payment_method)) = 'mixed'
+      AND jsonb_typeof(p.payments_breakdown) = 'array'
+    UNION ALL
+    SELECT lower(trim(p.payment_method)), p.amount
+    FROM layaway_payments p
+    JOIN sales s ON s.id = p.sale_id
+    WHERE p.till_session_id = p_session_id
+      AND s.status IS DISTINCT FROM 'voided'
+      AND (lower(trim(p.payment_method)) <> 'mixed' OR jsonb_typeof(p.payments_breakdown) IS DISTINCT FROM 'array')
+  ),
+  totals AS (
+    SELECT method, round(SUM(amount), 2) AS amount FROM legs GROUP BY method
+  )
+  SELECT
+    COALESCE(jsonb_object_agg(method, amount), '{}'::jsonb),
+    COALESCE(SUM(amount) FILTER (WHERE method = 'cash'), 0)
+  INTO v_by_method, v_cash_sales
+  FROM totals;
+
+  SELECT
+    COALESCE(SUM(r.refund_amount) FILTER (WHERE lower(r.refund_method) = 'cash'), 0),
+    COALESCE(SUM(r.refund_amount), 0),
+    COUNT(*)
+  INTO v_cash_refunds, v_refund_total, v_refund_count
+  FROM sale_returns r
+  WHERE r.till_session_id = p_session_id;
+
+  SELECT
+    COALESCE(SUM(m.amount) FILTER (WHERE m.kind = 'paid_in'), 0),
+    COALESCE(SUM(m.amount) FILTER (WHERE m.kind = 'paid_out'), 0)
+  INTO v_paid_in, v_paid_out
+  FROM till_cash_movements m
+  WHERE m.session_id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'openingFloat', v_float,
+    'salesCount',   v_sales_count,
+    'salesTotal',   round(v_sales_total, 2),
+    'discountTotal', round(v_discounts, 2),
+    'byMethod',     v_by_method,
+    'voidCount',    v_void_count,
+    'voidTotal',    round(v_void_total, 2),
+    'layawayCount', v_layaway_count,
+    'layawayTotal', round(v_layaway_total, 2),
+    'refundCount',  v_refund_count,
+    'refundTotal',  round(v_refund_total, 2),
+    'cashSales',    round(v_cash_sales, 2),
+    'cashRefunds',  round(v_cash_refunds, 2),
+    'paidIn',       round(v_paid_in, 2),
+    'paidOut',      round(v_paid_out, 2),
+    'expectedCash', round(v_float + v_cash_sales - v_cash_refunds + v_paid_in - v_paid_out, 2)
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION get_till_session_summary(uuid) IS 'Running till figures (X report): sales by payment method, layaway deposits and instalments, voids, refunds, paid in/out and expected cash in the drawer.';
@@ -0,0 +1,70 @@
+-- Held (parked) carts: a cashier holds a cart by name and any till at the same warehouse can recall it.
+-- 1) held_carts: the cart lines as the POS had them, an optional soft stock reservation and an expiry.
+-- 2) purge_expired_held_carts (hourly pg_cron): held carts past expires_at are dropped.
+-- The reservation is soft: record_sale does not check it. The POS leaves reserved quantities out of what it
+-- offers for sale, so another till does not sell the last pair of a held size.
+
+-- 1) Held carts
+CREATE TABLE IF NOT EXISTS held_carts (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  warehouse_id     uuid NOT NULL REFERENCES warehouses(id),
+  name             text NOT NULL CHECK (length(trim(name)) > 0),
+  lines            jsonb NOT NULL CHECK (jsonb_typeof(lines) = 'array' AND jsonb_array_length(lines) > 0),
+  item_count       int NOT NULL DEFAULT 0,
+  subtotal         numeric(12,2) NOT NULL DEFAULT 0,
+  reserve_stock    boolean NOT NULL DEFAULT false,
+  expires_at       timestamptz NOT NULL,
+  created_by_email text,
+  created_at       timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_held_carts_warehouse_created ON held_carts(warehouse_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_held_carts_expires ON held_carts(expires_at);
+
+COMMENT ON TABLE held_carts IS 'Carts parked at the POS (hold sale). Recalling a cart deletes it; expired carts are purged hourly.';
+COMMENT ON COLUMN held_carts.lines IS 'POS cart lines: [{ productId, sizeCode, sizeLabel, name, sku, unitPrice, qty, imageUrl, category }].';
+COMMENT ON COLUMN held_carts.reserve_stock IS 'Soft reservation: the POS treats these quantities as unavailable until the cart is recalled or expires. Not enforced by record_sale.';
+
+ALTER TABLE held_carts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_held_carts" ON held_carts;
+CREATE POLICY "service_role_held_carts" ON held_carts
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 2) Expiry
+CREATE OR REPLACE FUNCTION purge_expired_held_carts()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count int;
+BEGIN
+  DELETE FROM held_carts WHERE expires_at <= now();
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION purge_expired_held_carts() FROM PUBLIC;
+REVOKE ALL ON FUNCTION purge_expired_held_carts() FROM anon;
+REVOKE ALL ON FUNCTION purge_expired_held_carts() FROM authenticated;
+GRANT EXECUTE ON FUNCTION purge_expired_held_carts() TO service_role;
+
+COMMENT ON FUNCTION purge_expired_held_carts() IS 'Delete held carts past expires_at (their soft reservations go with them). Run hourly by pg_cron. Returns how many were deleted.';
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'purge-expired-held-carts') THEN
+    PERFORM cron.unschedule('purge-expired-held-carts');
+  END IF;
+END
+$$;
+
+SELECT cron.schedule(
+  'purge-expired-held-carts',
+  '15 * * * *',
+  $$ SELECT purge_expired_held_carts(); $$
+);
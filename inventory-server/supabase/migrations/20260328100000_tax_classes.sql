@@ -0,0 +1,555 @@
+-- Tax classes: Ghana VAT is charged as separate components (VAT, NHIL, GETFund levy, COVID-19 levy).
+-- 1) tax_classes: named sets of components, priced tax-inclusive or tax-exclusive. Seeded with standard (VAT + levies,
+--    inclusive, the default), zero_rated and exempt. category_tax_classes and warehouse_products.tax_class_id assign
+--    them; a product's own class wins over its category's, which wins over the default.
+-- 2) compute_line_tax: the component split for an amount. Levies are charged on the base; compound components
+--    (VAT) on the base plus the levies.
+-- 3) sale_lines tax columns, filled by a BEFORE INSERT trigger from the line's class at the time of sale and its share
+--    of the sale discount. Exclusive tax is on top of line_total (the cart adds it to sales.total); inclusive tax is
+--    inside it. sale_exclusive_tax works out the tax on top beforehand so the sales route can check the total.
+-- 4) sale_return_lines tax columns (trigger) and record_return refunding exclusive tax with the goods.
+-- 5) get_tax_summary: tax by class and by component for a period, net of returns, for filing.
+
+-- 1) Tax classes
+CREATE TABLE IF NOT EXISTS tax_classes (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code             text NOT NULL UNIQUE CHECK (code ~ '^[a-z0-9_]+$'),
+  name             text NOT NULL CHECK (length(trim(name)) > 0),
+  inclusive        boolean NOT NULL DEFAULT true,
+  components       jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(components) = 'array'),
+  is_default       boolean NOT NULL DEFAULT false,
+  active           boolean NOT NULL DEFAULT true,
+  updated_by_email text,
+  created_at       timestamptz NOT NULL DEFAULT now(),
+  updated_at       timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_classes_one_default ON tax_classes(is_default) WHERE is_default;
+
+COMMENT ON TABLE tax_classes IS 'Tax treatment assignable to products or categories. Exactly one class is the default for everything unassigned.';
+COMMENT ON COLUMN tax_classes.inclusive IS 'true: shelf prices include the tax. false: the tax is added on top at the till.';
+COMMENT ON COLUMN tax_classes.components IS '[{ code, label, rate, compound }]. rate is a percent. compound components are charged on the base plus the non-compound ones.';
+
+ALTER TABLE tax_classes ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_tax_classes" ON tax_classes;
+CREATE POLICY "service_role_tax_classes" ON tax_classes
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+INSERT INTO tax_classes (code, name, inclusive, components, is_default) VALUES
+  ('standard', 'Standard rate', true,
+   '[{"code":"NHIL","label":"NHIL","rate":2.5,"compound":false},
+     {"code":"GETFUND","label":"GETFund levy","rate":2.5,"compound":false},
+     {"code":"COVID","label":"COVID-19 levy","rate":1,"compound":false},
+     {"code":"VAT","label":"VAT","rate":15,"compound":true}]'::jsonb,
+   true),
+  ('zero_rated', 'Zero-rated', true, '[]'::jsonb, false),
+  ('exempt', 'Exempt', true, '[]'::jsonb, false)
+ON CONFLICT (code) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS category_tax_classes (
+  category         text PRIMARY KEY CHECK (category = lower(trim(category)) AND category <> ''),
+  tax_class_id     uuid NOT NULL REFERENCES tax_classes(id),
+  updated_by_email text,
+  updated_at       timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE category_tax_classes IS 'Tax class per product category (warehouse_products.category, lower-cased). Products without their own class use this.';
+
+ALTER TABLE category_tax_classes ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_category_tax_classes" ON category_tax_classes;
+CREATE POLICY "service_role_category_tax_classes" ON category_tax_classes
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+ALTER TABLE warehouse_products ADD COLUMN IF NOT EXISTS tax_class_id uuid REFERENCES tax_classes(id);
+
+COMMENT ON COLUMN warehouse_products.tax_class_id IS 'Own tax class. Null = the category''s class, else the default class.';
+
+-- 2) Component split
+CREATE OR REPLACE FUNCTION compute_line_tax(p_components jsonb, p_inclusive boolean, p_amount numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_levies     numeric;
+  v_compound   numeric;
+  v_base       numeric;
+  v_breakdown  jsonb;
+  v_tax        numeric;
+BEGIN
+  IF p_components IS NULL OR jsonb_typeof(p_components) <> 'array' OR jsonb_array_length(p_components) = 0
+     OR COALESCE(p_amount, 0) = 0 THEN
+    RETURN jsonb_build_object('taxableAmount', round(COALESCE(p_amount, 0), 2), 'taxAmount', 0, 'breakdown', '[]'::jsonb);
+  END IF;
+
+  SELECT COALESCE(SUM((c->>'rate')::numeric) FILTER (WHERE NOT COALESCE((c->>'compound')::boolean, false)), 0) / 100,
+         COALESCE(SUM((c->>'rate')::numeric) FILTER (WHERE COALESCE((c->>'compound')::boolean, false)), 0) / 100
+  INTO v_levies, v_compound
+  FROM jsonb_array_elements(p_components) c;
+
+  v_base := CASE WHEN p_inclusive THEN p_amount / ((1 + v_levies) * (1 + v_compound)) ELSE p_amount END;
+
+  SELECT jsonb_agg(jsonb_build_object(
+           'code',   c->>'code',
+           'label',  c->>'label',
+           'rate',   (c->>'rate')::numeric,
+           'amount', round(v_base
+                           * CASE WHEN COALESCE((c->>'compound')::boolean, false) THEN 1 + v_levies ELSE 1 END
+                           * (c->>'rate')::numeric / 100, 2)
+         ) ORDER BY ord)
+  INTO v_breakdown
+  FROM jsonb_array_elements(p_components) WITH ORDINALITY AS t(c, ord);
+
+  SELECT COALESCE(SUM((b->>'amount')::numeric), 0) INTO v_tax FROM jsonb_array_elements(v_breakdown) b;
+
+  RETURN jsonb_build_object(
+    'taxableAmount', round(CASE WHEN p_inclusive THEN p_amount - v_tax ELSE p_amount END, 2),
+    'taxAmount',     v_tax,
+    'breakdown',     v_breakdown
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION compute_line_tax(jsonb, boolean, numeric) IS
+  'Split an amount into taxable amount and tax per component. Inclusive: the amount already contains the tax. Each component is rounded to the pesewa; src/lib/tax.ts mirrors this.';
+
+-- 3) Tax on sale lines
+ALTER TABLE sale_lines ADD COLUMN IF NOT EXISTS tax_class_id   uuid REFERENCES tax_classes(id);
+ALTER TABLE sale_lines ADD COLUMN IF NOT EXISTS tax_inclusive  boolean;
+ALTER TABLE sale_lines ADD COLUMN IF NOT EXISTS taxable_amount numeric(12,2);
+ALTER TABLE sale_lines ADD COLUMN IF NOT EXISTS tax_amount     numeric(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE sale_lines ADD COLUMN IF NOT EXISTS tax_breakdown  jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN sale_lines.tax_inclusive IS 'Whether tax_amount is inside line_total (true) or was added on top (false). Null on lines sold before tax classes.';
+COMMENT ON COLUMN sale_lines.taxable_amount IS 'Value excluding tax after the line''s share of the sale discount.';
+COMMENT ON COLUMN sale_lines.tax_breakdown IS '[{ code, label, rate, amount }] as charged.';
+
+-- The class a product sells under: its own, then its category's, then the default. Inactive classes are skipped.
+CREATE OR REPLACE FUNCTION product_tax_class(p_product_id uuid)
+RETURNS SETOF tax_classes
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT tc.*
+  FROM tax_classes tc
+  WHERE tc.active AND tc.id = COALESCE(
+    (SELECT wp.tax_class_id FROM warehouse_products wp
+     JOIN tax_classes own ON own.id = wp.tax_class_id AND own.active
+     WHERE wp.id = p_product_id),
+    (SELECT ctc.tax_class_id FROM warehouse_products wp
+     JOIN category_tax_classes ctc ON ctc.category = lower(trim(wp.category))
+     JOIN tax_classes cat ON cat.id = ctc.tax_class_id AND cat.active
+     WHERE wp.id = p_product_id),
+    (SELECT d.id FROM tax_classes d WHERE d.is_default AND d.active)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION sale_lines_set_tax()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_subtotal  numeric;
+  v_discount  numeric;
+  v_class     tax_classes%ROWTYPE;
+  v_tax       jsonb;
+BEGIN
+  SELECT subtotal, discount_amt INTO v_subtotal, v_discount FROM sales WHERE id = NEW.sale_id;
+
+  SELECT * INTO v_class FROM product_tax_class(NEW.product_id);
+
+  IF NOT FOUND THEN
+    NEW.tax_class_id := NULL;
+    NEW.tax_inclusive := NULL;
+    NEW.taxable_amount := NEW.line_total;
+    NEW.tax_amount := 0;
+    NEW.tax_breakdown := '[]'::jsonb;
+    RETURN NEW;
+  END IF;
+
+  -- The sale-level discount comes off every line in proportion before tax.
+  v_tax := compute_line_tax(
+    v_class.components,
+    v_class.inclusive,
+    round(NEW.line_total * CASE WHEN COALESCE(v_subtotal, 0) > 0
+                                THEN (v_subtotal - COALESCE(v_discount, 0)) / v_subtotal ELSE 1 END, 2)
+  );
+
+  NEW.tax_class_id := v_class.id;
+  NEW.tax_inclusive := v_class.inclusive;
+  NEW.taxable_amount := (v_tax->>'taxableAmount')::numeric;
+  NEW.tax_amount := (v_tax->>'taxAmount')::numeric;
+  NEW.tax_breakdown := v_tax->'breakdown';
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sale_lines_set_tax ON sale_lines;
+CREATE TRIGGER trg_sale_lines_set_tax
+  BEFORE INSERT ON sale_lines
+  FOR EACH ROW EXECUTE FUNCTION sale_lines_set_tax();
+
+-- Exclusive tax the trigger will add for a sale's lines ([{ productId, lineTotal }]), so POST /api/sales can check
+-- the total before recording it. Same class resolution and discount share as sale_lines_set_tax.
+CREATE OR REPLACE FUNCTION sale_exclusive_tax(p_lines jsonb, p_subtotal numeric, p_discount_amt numeric)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM((compute_line_tax(
+           tc.components,
+           false,
+           round((l->>'lineTotal')::numeric * CASE WHEN COALESCE(p_subtotal, 0) > 0
+                                                   THEN (p_subtotal - COALESCE(p_discount_amt, 0)) / p_subtotal ELSE 1 END, 2)
+         )->>'taxAmount')::numeric), 0)
+  FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb)) l
+  CROSS JOIN LATERAL product_tax_class(
+    CASE WHEN l->>'productId' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+         THEN (l->>'productId')::uuid END
+  ) tc
+  WHERE NOT tc.inclusive;
+$$;
+
+REVOKE ALL ON FUNCTION sale_exclusive_tax(jsonb, numeric, numeric) FROM PUBLIC;
+REVOKE ALL ON FUNCTION sale_exclusive_tax(jsonb, numeric, numeric) FROM anon;
+REVOKE ALL ON FUNCTION sale_exclusive_tax(jsonb, numeric, numeric) FROM authenticated;
+GRANT EXECUTE ON FUNCTION sale_exclusive_tax(jsonb, numeric, numeric) TO service_role;
+
+-- 4) Tax on returns
+ALTER TABLE sale_return_lines ADD COLUMN IF NOT EXISTS taxable_amount numeric(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE sale_return_lines ADD COLUMN IF NOT EXISTS tax_amount     numeric(12,2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN sale_return_lines.tax_amount IS 'The sale line''s tax for the returned quantity; reverses it in get_tax_summary.';
+
+CREATE OR REPLACE FUNCTION sale_return_lines_set_tax()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line sale_lines%ROWTYPE;
+BEGIN
+  SELECT * INTO v_line FROM sale_lines WHERE id = NEW.sale_line_id;
+  IF FOUND AND v_line.qty > 0 THEN
+    NEW.taxable_amount := round(COALESCE(v_line.taxable_amount, v_line.line_total) * NEW.qty / v_line.qty, 2);
+    NEW.tax_amount := round(COALESCE(v_line.tax_amount, 0) * NEW.qty / v_line.qty, 2);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sale_return_lines_set_tax ON sale_return_lines;
+CREATE TRIGGER trg_sale_return_lines_set_tax
+  BEFORE INSERT ON sale_return_lines
+  FOR EACH ROW EXECUTE FUNCTION sale_return_lines_set_tax();
+
+-- record_return: with exclusive tax sales.total is more than subtotal − discount, so the discount share is taken from
+-- the discount itself and exclusive tax is refunded on top. Exchange sales get their exclusive tax added to the total.
+CREATE OR REPLACE FUNCTION record_return(
+  p_sale_id          uuid,
+  p_lines            jsonb,
+  p_refund_method    text,
+  p_reason           text  DEFAULT NULL,
+  p_created_by       uuid  DEFAULT NULL,
+  p_created_by_email text  DEFAULT NULL,
+  p_exchange_lines   jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return_id         uuid := gen_random_uuid();
+  v_warehouse_id      uuid;
+  v_status            text;
+  v_delivery_status   text;
+  v_customer_name     text;
+  v_customer_id       uuid;
+  v_subtotal          numeric;
+  v_discount          numeric;
+  v_total             numeric;
+  v_ratio             numeric;
+  v_line              jsonb;
+  v_sale_line         sale_lines%ROWTYPE;
+  v_qty               int;
+  v_returned          int;
+  v_size_kind         text;
+  v_line_refund       numeric;
+  v_refund_total      numeric := 0;
+  v_item_count        int := 0;
+  v_is_exchange       boolean;
+  v_exchange_subtotal numeric := 0;
+  v_exchange_tax      numeric := 0;
+  v_exchange          jsonb;
+  v_exchange_sale_id  uuid;
+  v_refund_method     text := lower(trim(p_refund_method));
+  v_points_earned     int;
+  v_points_clawback   int := 0;
+BEGIN
+  SELECT warehouse_id, status, delivery_status, customer_name, customer_id, subtotal, discount_amt, total
+  INTO v_warehouse_id, v_status, v_delivery_status, v_customer_name, v_customer_id, v_subtotal, v_discount, v_total
+  FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_status = 'voided' THEN
+    RAISE EXCEPTION 'SALE_VOIDED' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_delivery_status IS NOT NULL AND v_delivery_status <> 'delivered' THEN
+    RAISE EXCEPTION 'Cannot return items from a delivery that has not been delivered' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'At least one line to return is required' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_refund_method = 'store_credit' AND v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'CUSTOMER_REQUIRED' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_is_exchange := p_exchange_lines IS NOT NULL
+    AND jsonb_typeof(p_exchange_lines) = 'array'
+    AND jsonb_array_length(p_exchange_lines) > 0;
+
+  -- Refund at the price actually paid: spread the sale-level discount across lines.
+  v_ratio := CASE WHEN COALESCE(v_subtotal, 0) > 0 THEN (v_subtotal - COALESCE(v_discount, 0)) / v_subtotal ELSE 1 END;
+
+  INSERT INTO sale_returns (
+    id, sale_id, warehouse_id, return_type, refund_amount, refund_method,
+    reason, created_by, created_by_email, created_at
+  ) VALUES (
+    v_return_id, p_sale_id, v_warehouse_id,
+    CASE WHEN v_is_exchange THEN 'exchange' ELSE 'return' END,
+    0, v_refund_method,
+    NULLIF(trim(p_reason), ''), p_created_by, p_created_by_email, now()
+  );
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_qty := (v_line->>'qty')::int;
+    IF v_qty IS NULL OR v_qty < 1 THEN
+      RAISE EXCEPTION 'Return qty must be at least 1' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT * INTO v_sale_line
+    FROM sale_lines
+    WHERE id = (v_line->>'saleLineId')::uuid AND sale_id = p_sale_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Sale line not found on this sale' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT COALESCE(SUM(qty), 0)::int INTO v_returned
+    FROM sale_return_lines WHERE sale_line_id = v_sale_line.id;
+    IF v_returned + v_qty > v_sale_line.qty THEN
+      RAISE EXCEPTION 'RETURN_QTY_EXCEEDS_SOLD' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT size_kind INTO v_size_kind FROM warehouse_products WHERE id = v_sale_line.product_id;
+
+    IF v_size_kind = 'sized' AND v_sale_line.size_code IS NOT NULL AND trim(v_sale_line.size_code) <> '' THEN
+      UPDATE warehouse_inventory_by_size
+      SET quantity = quantity + v_qty, updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id
+        AND upper(trim(size_code)) = upper(trim(v_sale_line.size_code));
+      IF NOT FOUND THEN
+        INSERT INTO warehouse_inventory_by_size (warehouse_id, product_id, size_code, quantity, updated_at)
+        VALUES (v_warehouse_id, v_sale_line.product_id, upper(trim(v_sale_line.size_code)), v_qty, now());
+      END IF;
+      UPDATE warehouse_inventory
+      SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id),
+          updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id;
+    ELSE
+      UPDATE warehouse_inventory
+      SET quantity = quantity + v_qty, updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id;
+    END IF;
+
+    v_line_refund := round(
+      (v_sale_line.line_total * v_ratio
+       + CASE WHEN v_sale_line.tax_inclusive IS FALSE THEN v_sale_line.tax_amount ELSE 0 END)
+      / v_sale_line.qty * v_qty, 2);
+    v_refund_total := v_refund_total + v_line_refund;
+    v_item_count := v_item_count + v_qty;
+
+    INSERT INTO sale_return_lines (return_id, sale_line_id, product_id, size_code, qty, refund_amount)
+    VALUES (v_return_id, v_sale_line.id, v_sale_line.product_id, v_sale_line.size_code, v_qty, v_line_refund);
+  END LOOP;
+
+  IF v_customer_id IS NOT NULL THEN
+    -- Credit before the exchange sale so store_credit can settle it. Points earned on the sale go back
+    -- in proportion to the refunded value.
+    IF v_refund_method = 'store_credit' AND v_refund_total > 0 THEN
+      INSERT INTO store_credit_ledger (customer_id, amount, entry_type, sale_id, return_id, created_by_email)
+      VALUES (v_customer_id, v_refund_total, 'refund', p_sale_id, v_return_id, p_created_by_email);
+    END IF;
+    SELECT COALESCE(SUM(points), 0)::int INTO v_points_earned
+    FROM loyalty_ledger WHERE sale_id = p_sale_id AND entry_type = 'earn';
+    IF v_points_earned > 0 AND COALESCE(v_total, 0) > 0 THEN
+      v_points_clawback := LEAST(v_points_earned, round(v_points_earned * v_refund_total / v_total))::int;
+      IF v_points_clawback > 0 THEN
+        INSERT INTO loyalty_ledger (customer_id, points, entry_type, sale_id, return_id, created_by_email)
+        VALUES (v_customer_id, -v_points_clawback, 'reversal', p_sale_id, v_return_id, p_created_by_email);
+      END IF;
+    END IF;
+  END IF;
+
+  IF v_is_exchange THEN
+    SELECT COALESCE(SUM(COALESCE((l->>'lineTotal')::numeric,
+                                 COALESCE((l->>'unitPrice')::numeric, 0) * GREATEST(1, (l->>'qty')::int))), 0)
+    INTO v_exchange_subtotal
+    FROM jsonb_array_elements(p_exchange_lines) l;
+
+    -- record_sale raises INSUFFICIENT_STOCK for the new size; that rolls back the restock above too.
+    v_exchange := record_sale(
+      v_warehouse_id, p_exchange_lines, v_exchange_subtotal, 0, 0, v_exchange_subtotal,
+      v_refund_method,
+      v_customer_name, p_created_by, p_created_by_email,
+      p_customer_id => v_customer_id
+    );
+    v_exchange_sale_id := (v_exchange->>'id')::uuid;
+
+    SELECT COALESCE(SUM(tax_amount), 0) INTO v_exchange_tax
+    FROM sale_lines WHERE sale_id = v_exchange_sale_id AND tax_inclusive IS FALSE;
+    IF v_exchange_tax > 0 THEN
+      UPDATE sales SET total = total + v_exchange_tax WHERE id = v_exchange_sale_id;
+      v_exchange := v_exchange || jsonb_build_object('total', v_exchange_subtotal + v_exchange_tax);
+    END IF;
+  END IF;
+
+  UPDATE sale_returns
+  SET refund_amount = v_refund_total, exchange_sale_id = v_exchange_sale_id
+  WHERE id = v_return_id;
+
+  RETURN jsonb_build_object(
+    'id',             v_return_id,
+    'saleId',         p_sale_id,
+    'type',           CASE WHEN v_is_exchange THEN 'exchange' ELSE 'return' END,
+    'refundAmount',   v_refund_total,
+    'refundMethod',   v_refund_method,
+    'itemCount',      v_item_count,
+    'exchangeSale',   v_exchange,
+    'netAmount',      v_exchange_subtotal + v_exchange_tax - v_refund_total,
+    'pointsReversed', v_points_clawback,
+    'createdAt',      now()
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION record_return(uuid, jsonb, text, text, uuid, text, jsonb) IS
+  'Partial return / exchange: restock selected sale_lines, record refund at the price paid plus any tax added on top (store_credit credits the sale''s customer), claw back points earned on the refunded value, optionally sell replacement lines via record_sale (one transaction).';
+
+-- 5) Tax summary for filing
+CREATE OR REPLACE FUNCTION get_tax_summary(
+  p_warehouse_id uuid DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_by_class     jsonb;
+  v_by_component jsonb;
+  v_totals       jsonb;
+BEGIN
+  -- Supplies count when the goods are handed over: paid-off layaways on the day they were completed.
+  -- Returns count on the day of the return, against the class and components of the line they came off.
+  WITH tax_rows AS (
+    SELECT sl.tax_class_id,
+           sl.tax_inclusive,
+           sl.taxable_amount AS taxable,
+           sl.tax_amount AS tax,
+           sl.tax_breakdown AS breakdown,
+           1::numeric AS share,
+           'sale'::text AS kind
+    FROM sales s
+    JOIN sale_lines sl ON sl.sale_id = s.id
+    WHERE (p_warehouse_id IS NULL OR s.warehouse_id = p_warehouse_id)
+      AND s.status = 'completed'
+      AND sl.tax_class_id IS NOT NULL
+      AND (p_from IS NULL OR COALESCE(s.layaway_closed_at, s.created_at) >= p_from)
+      AND (p_to IS NULL OR COALESCE(s.layaway_closed_at, s.created_at) <= p_to)
+    UNION ALL
+    SELECT sl.tax_class_id,
+           sl.tax_inclusive,
+           -srl.taxable_amount,
+           -srl.tax_amount,
+           sl.tax_breakdown,
+           CASE WHEN sl.tax_amount > 0 THEN -srl.tax_amount / sl.tax_amount ELSE 0 END,
+           'return'
+    FROM sale_returns sr
+    JOIN sale_return_lines srl ON srl.return_id = sr.id
+    JOIN sale_lines sl ON sl.id = srl.sale_line_id
+    JOIN sales s ON s.id = sr.sale_id
+    WHERE (p_warehouse_id IS NULL OR sr.warehouse_id = p_warehouse_id)
+      AND s.status IS DISTINCT FROM 'voided'
+      AND sl.tax_class_id IS NOT NULL
+      AND (p_from IS NULL OR sr.created_at >= p_from)
+      AND (p_to IS NULL OR sr.created_at <= p_to)
+  )
+  SELECT
+    (SELECT COALESCE(jsonb_agg(row ORDER BY (row->>'taxAmount')::numeric DESC), '[]'::jsonb)
+     FROM (
+       SELECT jsonb_build_object(
+         'taxClassId',    t.tax_class_id,
+         'code',          MAX(tc.code),
+         'name',          MAX(tc.name),
+         'inclusive',     bool_and(t.tax_inclusive),
+         'taxableAmount', COALESCE(SUM(t.taxable), 0),
+         'taxAmount',     COALESCE(SUM(t.tax), 0),
+         'returnedTax',   COALESCE(-SUM(t.tax) FILTER (WHERE t.kind = 'return'), 0),
+         'lines',         COUNT(*) FILTER (WHERE t.kind = 'sale')
+       ) AS row
+       FROM tax_rows t
+       LEFT JOIN tax_classes tc ON tc.id = t.tax_class_id
+       GROUP BY t.tax_class_id
+     ) c),
+    (SELECT COALESCE(jsonb_agg(row ORDER BY row->>'code'), '[]'::jsonb)
+     FROM (
+       SELECT jsonb_build_object(
+         'code',   b->>'code',
+         'label',  MAX(b->>'label'),
+         'rate',   (b->>'rate')::numeric,
+         'amount', round(SUM((b->>'amount')::numeric * t.share), 2)
+       ) AS row
+       FROM tax_rows t
+       CROSS JOIN LATERAL jsonb_array_elements(t.breakdown) b
+       GROUP BY b->>'code', (b->>'rate')::numeric
+     ) c),
+    (SELECT jsonb_build_object(
+       'taxableAmount', COALESCE(SUM(taxable), 0),
+       'taxAmount',     COALESCE(SUM(tax), 0),
+       'grossAmount',   COALESCE(SUM(taxable + tax), 0)
+     ) FROM tax_rows)
+  INTO v_by_class, v_by_component, v_totals;
+
+  RETURN jsonb_build_object(
+    'from',        p_from,
+    'to',          p_to,
+    'totals',      v_totals,
+    'byClass',     v_by_class,
+    'byComponent', v_by_component
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_tax_summary(uuid, timestamptz, timestamptz) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_tax_summary(uuid, timestamptz, timestamptz) FROM anon;
+REVOKE ALL ON FUNCTION get_tax_summary(uuid, timestamptz, timestamptz) FROM authenticated;
+GRANT EXECUTE ON FUNCTION get_tax_summary(uuid, timestamptz, timestamptz) TO service_role;
+
+COMMENT ON FUNCTION get_tax_summary(uuid, timestamptz, timestamptz) IS
+  'Tax collected in a period by tax class and by component (VAT, NHIL, …), net of returns made in the period. Null warehouse = all warehouses. Lines sold before tax classes are left out.';
@@ -0,0 +1,70 @@
+-- GRA e-VAT fiscal invoices: each completed sale is submitted for signing and the signature / QR code the
+-- e-VAT API returns is kept for the receipt.
+-- 1) fiscal_invoices: one row per sale with the payload sent, the outcome and the retry schedule.
+-- 2) claim_fiscal_invoices: takes a batch of submissions that are due for a retry (the /api/fiscal/retry cron),
+--    pushing their next_attempt_at out so two runs do not submit the same invoice at the same time.
+
+-- 1) Fiscal invoices
+CREATE TABLE IF NOT EXISTS fiscal_invoices (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id         uuid NOT NULL UNIQUE REFERENCES sales(id) ON DELETE CASCADE,
+  warehouse_id    uuid NOT NULL REFERENCES warehouses(id),
+  invoice_number  text NOT NULL,
+  provider        text NOT NULL,
+  status          text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'signed', 'failed')),
+  payload         jsonb NOT NULL,
+  attempts        int NOT NULL DEFAULT 0,
+  last_error      text,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  sdc_id          text,
+  receipt_number  text,
+  signature       text,
+  qr_code         text,
+  signed_at       timestamptz,
+  response        jsonb,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  updated_at      timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fiscal_invoices_due ON fiscal_invoices(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_fiscal_invoices_warehouse_created ON fiscal_invoices(warehouse_id, created_at DESC);
+
+COMMENT ON TABLE fiscal_invoices IS 'Sales submitted to the GRA e-VAT API. pending = not signed yet (retried from next_attempt_at); failed = rejected by the API or out of retries, needs a manager to requeue it.';
+COMMENT ON COLUMN fiscal_invoices.payload IS 'Invoice as sent to the e-VAT API (lib/fiscal/evat.ts buildEvatInvoice). Rebuilt when a failed invoice is requeued.';
+COMMENT ON COLUMN fiscal_invoices.qr_code IS 'Verification text the API returns for the receipt QR code.';
+COMMENT ON COLUMN fiscal_invoices.response IS 'The API''s signing response, as returned.';
+
+ALTER TABLE fiscal_invoices ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_fiscal_invoices" ON fiscal_invoices;
+CREATE POLICY "service_role_fiscal_invoices" ON fiscal_invoices
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 2) Retry batch
+CREATE OR REPLACE FUNCTION claim_fiscal_invoices(p_limit int DEFAULT 20, p_lease_seconds int DEFAULT 120)
+RETURNS SETOF fiscal_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE fiscal_invoices f
+     SET next_attempt_at = now() + make_interval(secs => GREATEST(p_lease_seconds, 1)),
+         updated_at = now()
+   WHERE f.id IN (
+     SELECT id FROM fiscal_invoices
+      WHERE status = 'pending' AND next_attempt_at <= now()
+      ORDER BY next_attempt_at
+      LIMIT GREATEST(p_limit, 1)
+      FOR UPDATE SKIP LOCKED
+   )
+  RETURNING f.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_fiscal_invoices(int, int) FROM PUBLIC;
+REVOKE ALL ON FUNCTION claim_fiscal_invoices(int, int) FROM anon;
+REVOKE ALL ON FUNCTION claim_fiscal_invoices(int, int) FROM authenticated;
+GRANT EXECUTE ON FUNCTION claim_fiscal_invoices(int, int) TO service_role;
+
+COMMENT ON FUNCTION claim_fiscal_invoices(int, int) IS 'Pending fiscal invoices due for a retry, oldest first, at most p_limit. Each is leased for p_lease_seconds (next_attempt_at moved out) so a concurrent run skips it; the caller sets the real next attempt after submitting.';
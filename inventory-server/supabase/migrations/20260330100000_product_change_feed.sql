@@ -0,0 +1,199 @@
+-- Product change feed for incremental sync (GET /api/products/changes). Devices keep a cursor and fetch only the
+-- products that changed since, instead of re-downloading the catalog after every sale.
+-- 1) product_change_seq and a change_seq column on warehouse_products, warehouse_inventory and
+--    warehouse_inventory_by_size, set from the sequence on every insert and update, with change_xid, the
+--    transaction that wrote the row.
+-- 2) product_tombstones: deleted products (warehouse_id NULL) and stock rows deleted from a warehouse, so devices
+--    drop them.
+-- 3) get_product_changes: products changed at a warehouse after a cursor, in cursor order; product_change_cursor:
+--    the current cursor, read before a full load.
+-- change_seq is taken when a row is written, not when its transaction commits, so a slow transaction holding seq N
+-- can commit after a device has read past N+1. The cursor is therefore '<seq>:<xmin>', xmin being the oldest
+-- transaction still open when it was read: every row that read could not see was written by a transaction >= xmin,
+-- and the next read sends those products again whatever their seq ("overlap"). Devices just replace them.
+
+-- 1) Change sequence
+CREATE SEQUENCE IF NOT EXISTS product_change_seq;
+
+ALTER TABLE warehouse_products ADD COLUMN IF NOT EXISTS change_seq bigint NOT NULL DEFAULT nextval('product_change_seq');
+ALTER TABLE warehouse_inventory ADD COLUMN IF NOT EXISTS change_seq bigint NOT NULL DEFAULT nextval('product_change_seq');
+ALTER TABLE warehouse_inventory_by_size ADD COLUMN IF NOT EXISTS change_seq bigint NOT NULL DEFAULT nextval('product_change_seq');
+ALTER TABLE warehouse_products ADD COLUMN IF NOT EXISTS change_xid xid8 NOT NULL DEFAULT pg_current_xact_id();
+ALTER TABLE warehouse_inventory ADD COLUMN IF NOT EXISTS change_xid xid8 NOT NULL DEFAULT pg_current_xact_id();
+ALTER TABLE warehouse_inventory_by_size ADD COLUMN IF NOT EXISTS change_xid xid8 NOT NULL DEFAULT pg_current_xact_id();
+
+CREATE INDEX IF NOT EXISTS idx_warehouse_products_change_seq ON warehouse_products(change_seq);
+CREATE INDEX IF NOT EXISTS idx_warehouse_inventory_change_seq ON warehouse_inventory(warehouse_id, change_seq);
+CREATE INDEX IF NOT EXISTS idx_warehouse_inventory_by_size_change_seq ON warehouse_inventory_by_size(warehouse_id, change_seq);
+CREATE INDEX IF NOT EXISTS idx_warehouse_products_change_xid ON warehouse_products(change_xid);
+CREATE INDEX IF NOT EXISTS idx_warehouse_inventory_change_xid ON warehouse_inventory(warehouse_id, change_xid);
+CREATE INDEX IF NOT EXISTS idx_warehouse_inventory_by_size_change_xid ON warehouse_inventory_by_size(warehouse_id, change_xid);
+
+COMMENT ON COLUMN warehouse_products.change_seq IS 'product_change_seq value of the last insert/update; the product change feed cursor.';
+COMMENT ON COLUMN warehouse_inventory.change_seq IS 'product_change_seq value of the last insert/update; the product change feed cursor.';
+COMMENT ON COLUMN warehouse_inventory_by_size.change_seq IS 'product_change_seq value of the last insert/update; the product change feed cursor.';
+COMMENT ON COLUMN warehouse_products.change_xid IS 'Transaction of the last insert/update; lets the feed re-read rows committed after a cursor was handed out.';
+COMMENT ON COLUMN warehouse_inventory.change_xid IS 'Transaction of the last insert/update; lets the feed re-read rows committed after a cursor was handed out.';
+COMMENT ON COLUMN warehouse_inventory_by_size.change_xid IS 'Transaction of the last insert/update; lets the feed re-read rows committed after a cursor was handed out.';
+
+CREATE OR REPLACE FUNCTION fn_bump_change_seq()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.change_seq := nextval('product_change_seq');
+  NEW.change_xid := pg_current_xact_id();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_warehouse_products_change_seq ON warehouse_products;
+CREATE TRIGGER trg_warehouse_products_change_seq
+BEFORE UPDATE ON warehouse_products
+FOR EACH ROW EXECUTE FUNCTION fn_bump_change_seq();
+
+DROP TRIGGER IF EXISTS trg_warehouse_inventory_change_seq ON warehouse_inventory;
+CREATE TRIGGER trg_warehouse_inventory_change_seq
+BEFORE UPDATE ON warehouse_inventory
+FOR EACH ROW EXECUTE FUNCTION fn_bump_change_seq();
+
+DROP TRIGGER IF EXISTS trg_warehouse_inventory_by_size_change_seq ON warehouse_inventory_by_size;
+CREATE TRIGGER trg_warehouse_inventory_by_size_change_seq
+BEFORE UPDATE ON warehouse_inventory_by_size
+FOR EACH ROW EXECUTE FUNCTION fn_bump_change_seq();
+
+-- 2) Tombstones
+CREATE TABLE IF NOT EXISTS product_tombstones (
+  id           bigserial PRIMARY KEY,
+  product_id   uuid NOT NULL,
+  warehouse_id uuid,
+  change_seq   bigint NOT NULL DEFAULT nextval('product_change_seq'),
+  change_xid   xid8 NOT NULL DEFAULT pg_current_xact_id(),
+  deleted_at   timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_tombstones_change_seq ON product_tombstones(change_seq);
+CREATE INDEX IF NOT EXISTS idx_product_tombstones_change_xid ON product_tombstones(change_xid);
+
+COMMENT ON TABLE product_tombstones IS 'Deletions for the product change feed. warehouse_id NULL: the product was deleted; otherwise a stock row at that warehouse was.';
+
+ALTER TABLE product_tombstones ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_product_tombstones" ON product_tombstones;
+CREATE POLICY "service_role_product_tombstones" ON product_tombstones
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION fn_product_tombstone()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'warehouse_products' THEN
+    INSERT INTO product_tombstones (product_id) VALUES (OLD.id);
+  ELSE
+    INSERT INTO product_tombstones (product_id, warehouse_id) VALUES (OLD.product_id, OLD.warehouse_id);
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_warehouse_products_tombstone ON warehouse_products;
+CREATE TRIGGER trg_warehouse_products_tombstone
+AFTER DELETE ON warehouse_products
+FOR EACH ROW EXECUTE FUNCTION fn_product_tombstone();
+
+DROP TRIGGER IF EXISTS trg_warehouse_inventory_tombstone ON warehouse_inventory;
+CREATE TRIGGER trg_warehouse_inventory_tombstone
+AFTER DELETE ON warehouse_inventory
+FOR EACH ROW EXECUTE FUNCTION fn_product_tombstone();
+
+DROP TRIGGER IF EXISTS trg_warehouse_inventory_by_size_tombstone ON warehouse_inventory_by_size;
+CREATE TRIGGER trg_warehouse_inventory_by_size_tombstone
+AFTER DELETE ON warehouse_inventory_by_size
+FOR EACH ROW EXECUTE FUNCTION fn_product_tombstone();
+
+-- 3) Feed. Each table is read twice, after p_since by change_seq and from p_since_xmin by change_xid, so both
+-- halves can use their index.
+CREATE OR REPLACE FUNCTION get_product_changes(
+  p_warehouse_id uuid,
+  p_since bigint,
+  p_since_xmin xid8 DEFAULT NULL,
+  p_limit int DEFAULT 250
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH c AS (
+    SELECT p.id AS product_id, p.change_seq FROM warehouse_products p WHERE p.change_seq > p_since
+    UNION
+    SELECT p.id, p.change_seq FROM warehouse_products p WHERE p.change_xid >= p_since_xmin
+    UNION
+    SELECT i.product_id, i.change_seq FROM warehouse_inventory i
+    WHERE i.warehouse_id = p_warehouse_id AND i.change_seq > p_since
+    UNION
+    SELECT i.product_id, i.change_seq FROM warehouse_inventory i
+    WHERE i.warehouse_id = p_warehouse_id AND i.change_xid >= p_since_xmin
+    UNION
+    SELECT s.product_id, s.change_seq FROM warehouse_inventory_by_size s
+    WHERE s.warehouse_id = p_warehouse_id AND s.change_seq > p_since
+    UNION
+    SELECT s.product_id, s.change_seq FROM warehouse_inventory_by_size s
+    WHERE s.warehouse_id = p_warehouse_id AND s.change_xid >= p_since_xmin
+    UNION
+    SELECT t.product_id, t.change_seq FROM product_tombstones t
+    WHERE (t.warehouse_id IS NULL OR t.warehouse_id = p_warehouse_id) AND t.change_seq > p_since
+    UNION
+    SELECT t.product_id, t.change_seq FROM product_tombstones t
+    WHERE (t.warehouse_id IS NULL OR t.warehouse_id = p_warehouse_id) AND t.change_xid >= p_since_xmin
+  ),
+  fresh AS (
+    SELECT c.product_id, max(c.change_seq) AS change_seq
+    FROM c
+    WHERE c.change_seq > p_since
+    GROUP BY c.product_id
+    ORDER BY 2
+    LIMIT greatest(1, least(coalesce(p_limit, 250), 250))
+  ),
+  overlap AS (
+    SELECT DISTINCT c.product_id
+    FROM c
+    WHERE c.change_seq <= p_since AND c.product_id NOT IN (SELECT f.product_id FROM fresh f)
+  )
+  SELECT jsonb_build_object(
+    'changes', coalesce(
+      (SELECT jsonb_agg(jsonb_build_object('product_id', f.product_id, 'change_seq', f.change_seq::text) ORDER BY f.change_seq) FROM fresh f),
+      '[]'::jsonb
+    ),
+    'overlap', coalesce((SELECT jsonb_agg(o.product_id) FROM overlap o), '[]'::jsonb),
+    'xmin', pg_snapshot_xmin(pg_current_snapshot())::text
+  );
+$$;
+
+REVOKE ALL ON FUNCTION get_product_changes(uuid, bigint, xid8, int) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_product_changes(uuid, bigint, xid8, int) FROM anon;
+REVOKE ALL ON FUNCTION get_product_changes(uuid, bigint, xid8, int) FROM authenticated;
+GRANT EXECUTE ON FUNCTION get_product_changes(uuid, bigint, xid8, int) TO service_role;
+
+COMMENT ON FUNCTION get_product_changes(uuid, bigint, xid8, int) IS 'Product change feed page. changes: products whose row, stock at p_warehouse_id or tombstone changed after p_since, each once at its latest change_seq, in change_seq order (at most p_limit, max 250); the last change_seq is the next cursor seq. overlap: products at or before p_since written by a transaction >= p_since_xmin (open when the cursor was read), sent again. xmin: the next cursor''s xmin.';
+
+CREATE OR REPLACE FUNCTION product_change_cursor()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (CASE WHEN is_called THEN last_value ELSE 0 END)::text || ':' || pg_snapshot_xmin(pg_current_snapshot())::text
+  FROM product_change_seq;
+$$;
+
+REVOKE ALL ON FUNCTION product_change_cursor() FROM PUBLIC;
+REVOKE ALL ON FUNCTION product_change_cursor() FROM anon;
+REVOKE ALL ON FUNCTION product_change_cursor() FROM authenticated;
+GRANT EXECUTE ON FUNCTION product_change_cursor() TO service_role;
+
+COMMENT ON FUNCTION product_change_cursor() IS 'Current change feed cursor, ''<seq>:<xmin>''. Read before a full product load; changes after it (including ones by transactions still open now) come from get_product_changes.';
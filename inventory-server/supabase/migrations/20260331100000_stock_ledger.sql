@@ -0,0 +1,427 @@
+-- Per-size stock ledger with running balances. stock_movements only has the deltas some RPCs chose to write (no
+-- balance, not every path); stock_ledger gets a row for every stock change, whatever wrote it.
+-- 1) stock_ledger: append-only; one row per change of a size row (warehouse_inventory_by_size) or of a product
+--    without sizes (warehouse_inventory), with the balance before and after, what caused it and who.
+-- 2) Context: reference type / id / actor come from the request headers x-stock-reference-type,
+--    x-stock-reference-id and x-stock-actor (set by the API), else from the PostgREST path (/rpc/record_sale ->
+--    sale). Sales, returns and goods receipts put their own id in stock_ledger.reference_id for the transaction.
+-- 3) Triggers on warehouse_inventory_by_size and warehouse_inventory. A total that just follows its sizes (the sync
+--    trigger, record_sale) is not logged twice, nor one the NA/OS backfill trigger is about to give a size row; a
+--    total changed on its own (e.g. order return-stock on a sized product) is logged with size_code NULL.
+-- 4) record_return: an exchange inserts a sale inside the return, whose trigger would leave the exchange sale as the
+--    reference; the return sets its own id explicitly before restocking and again after the exchange sale.
+
+-- 1) Ledger
+CREATE TABLE IF NOT EXISTS stock_ledger (
+  id             bigserial PRIMARY KEY,
+  warehouse_id   uuid NOT NULL,
+  product_id     uuid NOT NULL,
+  size_code      text,
+  quantity_delta int  NOT NULL CHECK (quantity_delta <> 0),
+  balance_before int  NOT NULL,
+  balance_after  int  NOT NULL,
+  reference_type text NOT NULL,
+  reference_id   text,
+  actor          text,
+  created_at     timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_ledger_card ON stock_ledger(warehouse_id, product_id, size_code, id DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_ledger_reference ON stock_ledger(reference_id) WHERE reference_id IS NOT NULL;
+
+COMMENT ON TABLE stock_ledger IS 'Append-only stock card: every quantity change per warehouse / product / size with balance before and after. size_code NULL: product-level quantity (no sizes, or a total changed without a size). product_id has no FK so history outlives the product.';
+
+DROP TRIGGER IF EXISTS trg_stock_ledger_append_only ON stock_ledger;
+CREATE TRIGGER trg_stock_ledger_append_only
+  BEFORE UPDATE OR DELETE ON stock_ledger
+  FOR EACH ROW EXECUTE FUNCTION _ledger_append_only();
+
+ALTER TABLE stock_ledger ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_stock_ledger" ON stock_ledger;
+CREATE POLICY "service_role_stock_ledger" ON stock_ledger
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 2) Context
+CREATE OR REPLACE FUNCTION _stock_ledger_append(
+  p_warehouse_id uuid,
+  p_product_id   uuid,
+  p_size_code    text,
+  p_before       int,
+  p_after        int
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_headers json := nullif(current_setting('request.headers', true), '')::json;
+  v_path    text := nullif(current_setting('request.path', true), '');
+  v_rpc     text;
+  v_type    text;
+BEGIN
+  IF p_before = p_after THEN
+    RETURN;
+  END IF;
+
+  v_type := nullif(trim(v_headers->>'x-stock-reference-type'), '');
+  IF v_type IS NULL THEN
+    IF v_path IS NULL THEN
+      v_type := 'system';
+    ELSIF v_path LIKE '/rpc/%' THEN
+      v_rpc := substr(v_path, 6);
+      v_type := CASE v_rpc
+        WHEN 'record_sale'                   THEN 'sale'
+        WHEN 'process_sale'                  THEN 'sale'
+        WHEN 'void_sale'                     THEN 'void'
+        WHEN 'record_return'                 THEN 'return'
+        WHEN 'record_layaway_payment'        THEN 'layaway'
+        WHEN 'release_layaway'               THEN 'layaway_release'
+        WHEN 'record_goods_receipt'          THEN 'receipt'
+        WHEN 'receive_delivery'              THEN 'receipt'
+        WHEN 'receive_purchase_order'        THEN 'receipt'
+        WHEN 'process_return_stock'          THEN 'order_return'
+        WHEN 'process_sale_deductions'       THEN 'order_deduct'
+        WHEN 'complete_delivery'             THEN 'delivery'
+        WHEN 'release_delivery_reservations' THEN 'delivery'
+        WHEN 'dispatch_stock_transfer'       THEN 'transfer_out'
+        WHEN 'receive_stock_transfer'        THEN 'transfer_in'
+        WHEN 'cancel_stock_transfer'         THEN 'transfer_cancel'
+        WHEN 'apply_stock_count'             THEN 'count'
+        WHEN 'create_stock_adjustment'       THEN 'adjustment'
+        WHEN 'approve_stock_adjustment'      THEN 'adjustment'
+        ELSE v_rpc
+      END;
+    ELSE
+      v_type := 'manual';
+    END IF;
+  END IF;
+
+  INSERT INTO stock_ledger (
+    warehouse_id, product_id, size_code, quantity_delta, balance_before, balance_after,
+    reference_type, reference_id, actor
+  ) VALUES (
+    p_warehouse_id, p_product_id, p_size_code, p_after - p_before, p_before, p_after,
+    v_type,
+    coalesce(nullif(trim(v_headers->>'x-stock-reference-id'), ''), nullif(current_setting('stock_ledger.reference_id', true), '')),
+    nullif(trim(v_headers->>'x-stock-actor'), '')
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_stock_ledger_reference()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM set_config('stock_ledger.reference_id', NEW.id::text, true);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sales_stock_ledger_reference ON sales;
+CREATE TRIGGER trg_sales_stock_ledger_reference
+  AFTER INSERT ON sales
+  FOR EACH ROW EXECUTE FUNCTION fn_stock_ledger_reference();
+
+DROP TRIGGER IF EXISTS trg_sale_returns_stock_ledger_reference ON sale_returns;
+CREATE TRIGGER trg_sale_returns_stock_ledger_reference
+  AFTER INSERT ON sale_returns
+  FOR EACH ROW EXECUTE FUNCTION fn_stock_ledger_reference();
+
+DROP TRIGGER IF EXISTS trg_goods_receipts_stock_ledger_reference ON goods_receipts;
+CREATE TRIGGER trg_goods_receipts_stock_ledger_reference
+  AFTER INSERT ON goods_receipts
+  FOR EACH ROW EXECUTE FUNCTION fn_stock_ledger_reference();
+
+-- 3) Stock triggers. Named trg_* so they fire before trigger_sync_warehouse_inventory_from_by_size (alphabetical),
+-- which lets the total's trigger see that its sizes were just logged.
+CREATE OR REPLACE FUNCTION fn_stock_ledger_by_size()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM set_config('stock_ledger.sized', NEW.warehouse_id || ':' || NEW.product_id, true);
+    PERFORM _stock_ledger_append(NEW.warehouse_id, NEW.product_id, NEW.size_code, 0, NEW.quantity);
+  ELSIF TG_OP = 'UPDATE' THEN
+    PERFORM set_config('stock_ledger.sized', NEW.warehouse_id || ':' || NEW.product_id, true);
+    PERFORM _stock_ledger_append(NEW.warehouse_id, NEW.product_id, NEW.size_code, OLD.quantity, NEW.quantity);
+  ELSE
+    PERFORM set_config('stock_ledger.sized', OLD.warehouse_id || ':' || OLD.product_id, true);
+    PERFORM _stock_ledger_append(OLD.warehouse_id, OLD.product_id, OLD.size_code, OLD.quantity, 0);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION fn_stock_ledger_inventory()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_warehouse_id uuid;
+  v_product_id   uuid;
+  v_before       int := 0;
+  v_after        int := 0;
+  v_sizes        int;
+  v_size_total   int;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_warehouse_id := OLD.warehouse_id;
+    v_product_id   := OLD.product_id;
+    v_before       := OLD.quantity;
+  ELSE
+    v_warehouse_id := NEW.warehouse_id;
+    v_product_id   := NEW.product_id;
+    v_after        := NEW.quantity;
+    IF TG_OP = 'UPDATE' THEN
+      v_before := OLD.quantity;
+    END IF;
+  END IF;
+  IF v_before = v_after THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT count(*), coalesce(sum(quantity), 0)::int INTO v_sizes, v_size_total
+  FROM warehouse_inventory_by_size
+  WHERE warehouse_id = v_warehouse_id AND product_id = v_product_id;
+
+  -- The total just follows its sizes, which have their own rows.
+  IF v_after = v_size_total
+     AND (v_sizes > 0 OR current_setting('stock_ledger.sized', true) = v_warehouse_id || ':' || v_product_id) THEN
+    RETURN NULL;
+  END IF;
+  -- No sizes yet: backfill_by_size_from_inv_when_empty (fires after this) adds an NA/OS row, logged under that size.
+  IF v_sizes = 0 AND v_after > 0
+     AND (SELECT coalesce(size_kind, 'na') FROM warehouse_products WHERE id = v_product_id) IS DISTINCT FROM 'sized' THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM _stock_ledger_append(v_warehouse_id, v_product_id, NULL, v_before, v_after);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_stock_ledger_by_size ON warehouse_inventory_by_size;
+CREATE TRIGGER trg_stock_ledger_by_size
+  AFTER INSERT OR UPDATE OF quantity OR DELETE ON warehouse_inventory_by_size
+  FOR EACH ROW EXECUTE FUNCTION fn_stock_ledger_by_size();
+
+DROP TRIGGER IF EXISTS trg_stock_ledger_inventory ON warehouse_inventory;
+CREATE TRIGGER trg_stock_ledger_inventory
+  AFTER INSERT OR UPDATE OF quantity OR DELETE ON warehouse_inventory
+  FOR EACH ROW EXECUTE FUNCTION fn_stock_ledger_inventory();
+
+REVOKE ALL ON FUNCTION _stock_ledger_append(uuid, uuid, text, int, int) FROM PUBLIC;
+REVOKE ALL ON FUNCTION _stock_ledger_append(uuid, uuid, text, int, int) FROM anon;
+REVOKE ALL ON FUNCTION _stock_ledger_append(uuid, uuid, text, int, int) FROM authenticated;
+GRANT EXECUTE ON FUNCTION _stock_ledger_append(uuid, uuid, text, int, int) TO service_role;
+
+COMMENT ON FUNCTION _stock_ledger_append(uuid, uuid, text, int, int) IS 'Append a stock_ledger row (no-op when the balance did not change). Reference and actor from the x-stock-* request headers, else the PostgREST path and stock_ledger.reference_id.';
+COMMENT ON FUNCTION fn_stock_ledger_reference() IS 'Trigger: the inserted sale / return / goods receipt id becomes stock_ledger.reference_id for the rest of the transaction.';
+COMMENT ON FUNCTION fn_stock_ledger_by_size() IS 'Trigger: stock_ledger row for every change of a warehouse_inventory_by_size quantity.';
+COMMENT ON FUNCTION fn_stock_ledger_inventory() IS 'Trigger: stock_ledger row (size_code NULL) for a warehouse_inventory change that does not just follow its sizes.';
+
+-- 4) Return / exchange reference
+CREATE OR REPLACE FUNCTION record_return(
+  p_sale_id          uuid,
+  p_lines            jsonb,
+  p_refund_method    text,
+  p_reason           text  DEFAULT NULL,
+  p_created_by       uuid  DEFAULT NULL,
+  p_created_by_email text  DEFAULT NULL,
+  p_exchange_lines   jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return_id         uuid := gen_random_uuid();
+  v_warehouse_id      uuid;
+  v_status            text;
+  v_delivery_status   text;
+  v_customer_name     text;
+  v_customer_id       uuid;
+  v_subtotal          numeric;
+  v_discount          numeric;
+  v_total             numeric;
+  v_ratio             numeric;
+  v_line              jsonb;
+  v_sale_line         sale_lines%ROWTYPE;
+  v_qty               int;
+  v_returned          int;
+  v_size_kind         text;
+  v_line_refund       numeric;
+  v_refund_total      numeric := 0;
+  v_item_count        int := 0;
+  v_is_exchange       boolean;
+  v_exchange_subtotal numeric := 0;
+  v_exchange_tax      numeric := 0;
+  v_exchange          jsonb;
+  v_exchange_sale_id  uuid;
+  v_refund_method     text := lower(trim(p_refund_method));
+  v_points_earned     int;
+  v_points_clawback   int := 0;
+BEGIN
+  SELECT warehouse_id, status, delivery_status, customer_name, customer_id, subtotal, discount_amt, total
+  INTO v_warehouse_id, v_status, v_delivery_status, v_customer_name, v_customer_id, v_subtotal, v_discount, v_total
+  FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_status = 'voided' THEN
+    RAISE EXCEPTION 'SALE_VOIDED' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_delivery_status IS NOT NULL AND v_delivery_status <> 'delivered' THEN
+    RAISE EXCEPTION 'Cannot return items from a delivery that has not been delivered' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'At least one line to return is required' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_refund_method = 'store_credit' AND v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'CUSTOMER_REQUIRED' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_is_exchange := p_exchange_lines IS NOT NULL
+    AND jsonb_typeof(p_exchange_lines) = 'array'
+    AND jsonb_array_length(p_exchange_lines) > 0;
+
+  -- Refund at the price actually paid: spread the sale-level discount across lines.
+  v_ratio := CASE WHEN COALESCE(v_subtotal, 0) > 0 THEN (v_subtotal - COALESCE(v_discount, 0)) / v_subtotal ELSE 1 END;
+
+  INSERT INTO sale_returns (
+    id, sale_id, warehouse_id, return_type, refund_amount, refund_method,
+    reason, created_by, created_by_email, created_at
+  ) VALUES (
+    v_return_id, p_sale_id, v_warehouse_id,
+    CASE WHEN v_is_exchange THEN 'exchange' ELSE 'return' END,
+    0, v_refund_method,
+    NULLIF(trim(p_reason), ''), p_created_by, p_created_by_email, now()
+  );
+  PERFORM set_config('stock_ledger.reference_id', v_return_id::text, true);
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_qty := (v_line->>'qty')::int;
+    IF v_qty IS NULL OR v_qty < 1 THEN
+      RAISE EXCEPTION 'Return qty must be at least 1' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT * INTO v_sale_line
+    FROM sale_lines
+    WHERE id = (v_line->>'saleLineId')::uuid AND sale_id = p_sale_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Sale line not found on this sale' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT COALESCE(SUM(qty), 0)::int INTO v_returned
+    FROM sale_return_lines WHERE sale_line_id = v_sale_line.id;
+    IF v_returned + v_qty > v_sale_line.qty THEN
+      RAISE EXCEPTION 'RETURN_QTY_EXCEEDS_SOLD' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT size_kind INTO v_size_kind FROM warehouse_products WHERE id = v_sale_line.product_id;
+
+    IF v_size_kind = 'sized' AND v_sale_line.size_code IS NOT NULL AND trim(v_sale_line.size_code) <> '' THEN
+      UPDATE warehouse_inventory_by_size
+      SET quantity = quantity + v_qty, updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id
+        AND upper(trim(size_code)) = upper(trim(v_sale_line.size_code));
+      IF NOT FOUND THEN
+        INSERT INTO warehouse_inventory_by_size (warehouse_id, product_id, size_code, quantity, updated_at)
+        VALUES (v_warehouse_id, v_sale_line.product_id, upper(trim(v_sale_line.size_code)), v_qty, now());
+      END IF;
+      UPDATE warehouse_inventory
+      SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_inventory_by_size
+                      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id),
+          updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id;
+    ELSE
+      UPDATE warehouse_inventory
+      SET quantity = quantity + v_qty, updated_at = now()
+      WHERE warehouse_id = v_warehouse_id AND product_id = v_sale_line.product_id;
+    END IF;
+
+    v_line_refund := round(
+      (v_sale_line.line_total * v_ratio
+       + CASE WHEN v_sale_line.tax_inclusive IS FALSE THEN v_sale_line.tax_amount ELSE 0 END)
+      / v_sale_line.qty * v_qty, 2);
+    v_refund_total := v_refund_total + v_line_refund;
+    v_item_count := v_item_count + v_qty;
+
+    INSERT INTO sale_return_lines (return_id, sale_line_id, product_id, size_code, qty, refund_amount)
+    VALUES (v_return_id, v_sale_line.id, v_sale_line.product_id, v_sale_line.size_code, v_qty, v_line_refund);
+  END LOOP;
+
+  IF v_customer_id IS NOT NULL THEN
+    -- Credit before the exchange sale so store_credit can settle it. Points earned on the sale go back
+    -- in proportion to the refunded value.
+    IF v_refund_method = 'store_credit' AND v_refund_total > 0 THEN
+      INSERT INTO store_credit_ledger (customer_id, amount, entry_type, sale_id, return_id, created_by_email)
+      VALUES (v_customer_id, v_refund_total, 'refund', p_sale_id, v_return_id, p_created_by_email);
+    END IF;
+    SELECT COALESCE(SUM(points), 0)::int INTO v_points_earned
+    FROM loyalty_ledger WHERE sale_id = p_sale_id AND entry_type = 'earn';
+    IF v_points_earned > 0 AND COALESCE(v_total, 0) > 0 THEN
+      v_points_clawback := LEAST(v_points_earned, round(v_points_earned * v_refund_total / v_total))::int;
+      IF v_points_clawback > 0 THEN
+        INSERT INTO loyalty_ledger (customer_id, points, entry_type, sale_id, return_id, created_by_email)
+        VALUES (v_customer_id, -v_points_clawback, 'reversal', p_sale_id, v_return_id, p_created_by_email);
+      END IF;
+    END IF;
+  END IF;
+
+  IF v_is_exchange THEN
+    SELECT COALESCE(SUM(COALESCE((l->>'lineTotal')::numeric,
+                                 COALESCE((l->>'unitPrice')::numeric, 0) * GREATEST(1, (l->>'qty')::int))), 0)
+    INTO v_exchange_subtotal
+    FROM jsonb_array_elements(p_exchange_lines) l;
+
+    -- record_sale raises INSUFFICIENT_STOCK for the new size; that rolls back the restock above too.
+    v_exchange := record_sale(
+      v_warehouse_id, p_exchange_lines, v_exchange_subtotal, 0, 0, v_exchange_subtotal,
+      v_refund_method,
+      v_customer_name, p_created_by, p_created_by_email,
+      p_customer_id => v_customer_id
+    );
+    v_exchange_sale_id := (v_exchange->>'id')::uuid;
+    -- The exchange sale's insert made its id the ledger reference; anything after it belongs to the return again.
+    PERFORM set_config('stock_ledger.reference_id', v_return_id::text, true);
+
+    SELECT COALESCE(SUM(tax_amount), 0) INTO v_exchange_tax
+    FROM sale_lines WHERE sale_id = v_exchange_sale_id AND tax_inclusive IS FALSE;
+    IF v_exchange_tax > 0 THEN
+      UPDATE sales SET total = total + v_exchange_tax WHERE id = v_exchange_sale_id;
+      v_exchange := v_exchange || jsonb_build_object('total', v_exchange_subtotal + v_exchange_tax);
+    END IF;
+  END IF;
+
+  UPDATE sale_returns
+  SET refund_amount = v_refund_total, exchange_sale_id = v_exchange_sale_id
+  WHERE id = v_return_id;
+
+  RETURN jsonb_build_object(
+    'id',             v_return_id,
+    'saleId',         p_sale_id,
+    'type',           CASE WHEN v_is_exchange THEN 'exchange' ELSE 'return' END,
+    'refundAmount',   v_refund_total,
+    'refundMethod',   v_refund_method,
+    'itemCount',      v_item_count,
+    'exchangeSale',   v_exchange,
+    'netAmount',      v_exchange_subtotal + v_exchange_tax - v_refund_total,
+    'pointsReversed', v_points_clawback,
+    'createdAt',      now()
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION record_return(uuid, jsonb, text, text, uuid, text, jsonb) IS
+  'Partial return / exchange: restock selected sale_lines, record refund at the price paid plus any tax added on top (store_credit credits the sale''s customer), claw back points earned on the refunded value, optionally sell replacement lines via record_sale (one transaction).';
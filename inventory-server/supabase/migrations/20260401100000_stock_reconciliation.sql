@@ -0,0 +1,283 @@
+-- Stock reconciliation: the drift the nightly reconcile and the diagnostic scripts look for, as a report with a
+-- repair action (GET /api/admin/stock-reconciliation, POST /api/admin/stock-reconciliation/repair).
+-- 1) Opening balances in stock_ledger so every stock row replays from zero: one 'opening' row per size (or per
+--    product without sizes) that has stock and no ledger history, or whose history starts above zero.
+-- 2) get_stock_discrepancies: totals that are not the sum of their sizes (total_vs_sizes), and stock that is not
+--    the sum of its ledger deltas (ledger), with what the causes can be read from.
+-- 3) stock_reconciliations: audit of every repair. repair_stock_discrepancy corrects one discrepancy through a
+--    'correction' stock adjustment and records it.
+
+-- 1) Opening balances
+INSERT INTO stock_ledger (warehouse_id, product_id, size_code, quantity_delta, balance_before, balance_after, reference_type)
+SELECT s.warehouse_id, s.product_id, s.size_code, s.quantity, 0, s.quantity, 'opening'
+FROM warehouse_inventory_by_size s
+WHERE s.quantity <> 0
+  AND NOT EXISTS (
+    SELECT 1 FROM stock_ledger l
+    WHERE l.warehouse_id = s.warehouse_id AND l.product_id = s.product_id AND l.size_code = s.size_code
+  );
+
+INSERT INTO stock_ledger (warehouse_id, product_id, size_code, quantity_delta, balance_before, balance_after, reference_type)
+SELECT i.warehouse_id, i.product_id, NULL, i.quantity, 0, i.quantity, 'opening'
+FROM warehouse_inventory i
+WHERE i.quantity <> 0
+  AND NOT EXISTS (
+    SELECT 1 FROM warehouse_inventory_by_size s WHERE s.warehouse_id = i.warehouse_id AND s.product_id = i.product_id
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM stock_ledger l
+    WHERE l.warehouse_id = i.warehouse_id AND l.product_id = i.product_id AND l.size_code IS NULL
+  );
+
+-- Histories written before this migration start at the stock on hand then, not at zero.
+INSERT INTO stock_ledger (warehouse_id, product_id, size_code, quantity_delta, balance_before, balance_after, reference_type)
+SELECT f.warehouse_id, f.product_id, f.size_code, f.balance_before, 0, f.balance_before, 'opening'
+FROM (
+  SELECT DISTINCT ON (warehouse_id, product_id, size_code) warehouse_id, product_id, size_code, balance_before, reference_type
+  FROM stock_ledger
+  ORDER BY warehouse_id, product_id, size_code, id
+) f
+WHERE f.balance_before <> 0 AND f.reference_type <> 'opening';
+
+-- 2) Discrepancies. The openings backfilled above have higher ids than the entries they precede, so a lane is read in
+-- (reference_type = 'opening') DESC, id order: the opening first, then by id.
+CREATE OR REPLACE FUNCTION get_stock_discrepancies(p_warehouse_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  warehouse_id        uuid,
+  product_id          uuid,
+  product_name        text,
+  sku                 text,
+  size_code           text,
+  kind                text,
+  on_hand             int,
+  expected            int,
+  has_total_row       boolean,
+  ledger_entries      int,
+  ledger_balance      int,
+  chain_breaks        int,
+  last_reference_type text,
+  last_entry_at       timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH lanes AS (
+    SELECT x.warehouse_id, x.product_id, x.size_code,
+           count(*)::int AS entries,
+           sum(x.quantity_delta)::int AS replay,
+           (array_agg(x.balance_after ORDER BY x.reference_type = 'opening', x.id DESC))[1] AS last_balance,
+           (array_agg(x.reference_type ORDER BY x.reference_type = 'opening', x.id DESC))[1] AS last_reference_type,
+           (array_agg(x.created_at ORDER BY x.reference_type = 'opening', x.id DESC))[1] AS last_entry_at,
+           count(*) FILTER (
+             WHERE x.prev_after IS NOT NULL AND x.prev_after <> x.balance_before AND x.reference_type NOT IN ('opening', 'untracked')
+           )::int AS chain_breaks
+    FROM (
+      SELECT l.*, lag(l.balance_after) OVER (
+               PARTITION BY l.warehouse_id, l.product_id, l.size_code ORDER BY l.reference_type = 'opening' DESC, l.id
+             ) AS prev_after
+      FROM stock_ledger l
+      WHERE p_warehouse_id IS NULL OR l.warehouse_id = p_warehouse_id
+    ) x
+    GROUP BY x.warehouse_id, x.product_id, x.size_code
+  ),
+  sizes AS (
+    SELECT s.warehouse_id, s.product_id, sum(s.quantity)::int AS total
+    FROM warehouse_inventory_by_size s
+    WHERE p_warehouse_id IS NULL OR s.warehouse_id = p_warehouse_id
+    GROUP BY s.warehouse_id, s.product_id
+  ),
+  stock AS (
+    SELECT s.warehouse_id, s.product_id, s.size_code, s.quantity
+    FROM warehouse_inventory_by_size s
+    WHERE p_warehouse_id IS NULL OR s.warehouse_id = p_warehouse_id
+    UNION ALL
+    SELECT i.warehouse_id, i.product_id, NULL, i.quantity
+    FROM warehouse_inventory i
+    WHERE (p_warehouse_id IS NULL OR i.warehouse_id = p_warehouse_id)
+      AND NOT EXISTS (SELECT 1 FROM sizes z WHERE z.warehouse_id = i.warehouse_id AND z.product_id = i.product_id)
+  ),
+  found AS (
+    SELECT z.warehouse_id, z.product_id, NULL::text AS size_code, 'total_vs_sizes'::text AS kind,
+           coalesce(i.quantity, 0) AS on_hand, z.total AS expected, i.warehouse_id IS NOT NULL AS has_total_row,
+           coalesce(l.entries, 0) AS ledger_entries, l.last_balance AS ledger_balance, coalesce(l.chain_breaks, 0) AS chain_breaks,
+           l.last_reference_type, l.last_entry_at
+    FROM sizes z
+    LEFT JOIN warehouse_inventory i ON i.warehouse_id = z.warehouse_id AND i.product_id = z.product_id
+    LEFT JOIN lanes l ON l.warehouse_id = z.warehouse_id AND l.product_id = z.product_id AND l.size_code IS NULL
+    WHERE coalesce(i.quantity, 0) <> z.total
+    UNION ALL
+    SELECT coalesce(c.warehouse_id, l.warehouse_id), coalesce(c.product_id, l.product_id), coalesce(c.size_code, l.size_code),
+           'ledger', coalesce(c.quantity, 0), coalesce(l.replay, 0), true,
+           coalesce(l.entries, 0), l.last_balance, coalesce(l.chain_breaks, 0), l.last_reference_type, l.last_entry_at
+    FROM stock c
+    FULL JOIN lanes l
+      ON l.warehouse_id = c.warehouse_id AND l.product_id = c.product_id AND coalesce(l.size_code, '') = coalesce(c.size_code, '')
+    WHERE coalesce(c.quantity, 0) <> coalesce(l.replay, 0)
+      -- A sized product's size-less lane holds totals changed without a size; total_vs_sizes covers those.
+      AND NOT (c.warehouse_id IS NULL AND l.size_code IS NULL
+               AND EXISTS (SELECT 1 FROM sizes z WHERE z.warehouse_id = l.warehouse_id AND z.product_id = l.product_id))
+  )
+  SELECT f.warehouse_id, f.product_id, p.name, p.sku, f.size_code, f.kind, f.on_hand, f.expected, f.has_total_row,
+         f.ledger_entries, f.ledger_balance, f.chain_breaks, f.last_reference_type, f.last_entry_at
+  FROM found f
+  LEFT JOIN warehouse_products p ON p.id = f.product_id
+  ORDER BY p.name NULLS LAST, f.product_id, f.kind DESC, f.size_code NULLS FIRST;
+$$;
+
+REVOKE ALL ON FUNCTION get_stock_discrepancies(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_stock_discrepancies(uuid) FROM anon;
+REVOKE ALL ON FUNCTION get_stock_discrepancies(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION get_stock_discrepancies(uuid) TO service_role;
+
+COMMENT ON FUNCTION get_stock_discrepancies(uuid) IS 'Drift report. total_vs_sizes: warehouse_inventory.quantity <> sum of warehouse_inventory_by_size (expected = the sum). ledger: stock row <> sum of its stock_ledger deltas (expected = the replay). chain_breaks: entries whose balance_before is not the previous balance_after, i.e. changes the ledger missed.';
+
+-- 3) Repair + audit
+CREATE TABLE IF NOT EXISTS stock_reconciliations (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  warehouse_id   uuid NOT NULL,
+  product_id     uuid NOT NULL,
+  size_code      text,
+  kind           text NOT NULL CHECK (kind IN ('total_vs_sizes', 'ledger')),
+  action         text NOT NULL CHECK (action IN ('restore', 'accept')),
+  on_hand_before int  NOT NULL,
+  expected       int  NOT NULL,
+  on_hand_after  int  NOT NULL,
+  adjustment_id  uuid REFERENCES stock_adjustments(id),
+  note           text,
+  actor          text,
+  created_at     timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reconciliations_warehouse ON stock_reconciliations(warehouse_id, created_at DESC);
+
+COMMENT ON TABLE stock_reconciliations IS 'Audit of drift repairs. restore: stock set to the expected quantity through a correction adjustment (adjustment_id). accept: on-hand kept, the ledger told about the change it missed.';
+
+DROP TRIGGER IF EXISTS trg_stock_reconciliations_append_only ON stock_reconciliations;
+CREATE TRIGGER trg_stock_reconciliations_append_only
+  BEFORE UPDATE OR DELETE ON stock_reconciliations
+  FOR EACH ROW EXECUTE FUNCTION _ledger_append_only();
+
+ALTER TABLE stock_reconciliations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_stock_reconciliations" ON stock_reconciliations;
+CREATE POLICY "service_role_stock_reconciliations" ON stock_reconciliations
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- p_action: restore (default) sets the stock to the expected quantity; accept (ledger only) keeps it and records the
+-- missed change in the ledger. Both first record the missed change ('untracked'), so the ledger replays to on-hand.
+CREATE OR REPLACE FUNCTION repair_stock_discrepancy(
+  p_warehouse_id uuid,
+  p_product_id   uuid,
+  p_size_code    text,
+  p_kind         text,
+  p_action       text DEFAULT 'restore',
+  p_actor        text DEFAULT NULL,
+  p_note         text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_size    text := NULLIF(upper(trim(COALESCE(p_size_code, ''))), '');
+  v_row     record;
+  v_delta   int;
+  v_cost    numeric;
+  v_adj_id  uuid;
+  v_number  text;
+  v_after   int;
+  v_id      uuid;
+BEGIN
+  IF p_action NOT IN ('restore', 'accept') OR (p_kind = 'total_vs_sizes' AND p_action <> 'restore') THEN
+    RAISE EXCEPTION 'INVALID_REPAIR_ACTION' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock the stock rows so the discrepancy cannot move under the repair.
+  PERFORM 1 FROM warehouse_inventory
+  WHERE warehouse_id = p_warehouse_id AND product_id = p_product_id FOR UPDATE;
+  PERFORM 1 FROM warehouse_inventory_by_size
+  WHERE warehouse_id = p_warehouse_id AND product_id = p_product_id FOR UPDATE;
+
+  SELECT * INTO v_row FROM get_stock_discrepancies(p_warehouse_id) d
+  WHERE d.product_id = p_product_id AND d.kind = p_kind AND d.size_code IS NOT DISTINCT FROM v_size;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'DISCREPANCY_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_after := CASE WHEN p_action = 'restore' THEN v_row.expected ELSE v_row.on_hand END;
+
+  IF p_kind = 'ledger' THEN
+    -- The change the ledger missed, so that it replays to what is on hand now.
+    INSERT INTO stock_ledger (
+      warehouse_id, product_id, size_code, quantity_delta, balance_before, balance_after,
+      reference_type, actor
+    ) VALUES (
+      p_warehouse_id, p_product_id, v_size, v_row.on_hand - v_row.expected, v_row.expected, v_row.on_hand,
+      'untracked', p_actor
+    );
+  END IF;
+
+  IF p_action = 'restore' THEN
+    v_delta := v_row.expected - v_row.on_hand;
+    SELECT COALESCE(cost_price, 0) INTO v_cost FROM warehouse_products WHERE id = p_product_id;
+    v_adj_id := gen_random_uuid();
+    v_number := 'ADJ-' || to_char(now(), 'YYYYMMDD') || '-' || lpad((nextval('stock_adjustment_seq') % 10000)::text, 4, '0');
+    INSERT INTO stock_adjustments (
+      id, adjustment_number, warehouse_id, reason_code, note, status, units_delta, value_delta,
+      requested_by_email, decided_by_email, decided_at
+    ) VALUES (
+      v_adj_id, v_number, p_warehouse_id, 'correction',
+      'Reconciliation (' || p_kind || ')' || COALESCE(': ' || NULLIF(trim(p_note), ''), ''),
+      'applied', v_delta, round(v_delta * COALESCE(v_cost, 0), 2), p_actor, p_actor, now()
+    );
+    INSERT INTO stock_adjustment_lines (adjustment_id, product_id, size_code, qty_delta, unit_cost)
+    VALUES (v_adj_id, p_product_id, v_size, v_delta, COALESCE(v_cost, 0));
+    PERFORM set_config('stock_ledger.reference_id', v_adj_id::text, true);
+
+    IF v_size IS NOT NULL THEN
+      INSERT INTO warehouse_inventory_by_size (warehouse_id, product_id, size_code, quantity, updated_at)
+      VALUES (p_warehouse_id, p_product_id, v_size, v_row.expected, now())
+      ON CONFLICT (warehouse_id, product_id, size_code)
+      DO UPDATE SET quantity = EXCLUDED.quantity, updated_at = now();
+    ELSE
+      INSERT INTO warehouse_inventory (warehouse_id, product_id, quantity, updated_at)
+      VALUES (p_warehouse_id, p_product_id, v_row.expected, now())
+      ON CONFLICT (warehouse_id, product_id)
+      DO UPDATE SET quantity = EXCLUDED.quantity, updated_at = now();
+      IF p_kind = 'total_vs_sizes' THEN
+        -- The ledger trigger skips a total that matches its sizes; record the correction on the size-less lane.
+        PERFORM _stock_ledger_append(p_warehouse_id, p_product_id, NULL, v_row.on_hand, v_row.expected);
+      END IF;
+    END IF;
+
+    INSERT INTO stock_movements (warehouse_id, product_id, size_code, quantity_delta, reference_type, reference_id, reason_code)
+    VALUES (p_warehouse_id, p_product_id, v_size, v_delta, 'adjustment', v_adj_id, 'correction');
+  END IF;
+
+  INSERT INTO stock_reconciliations (
+    warehouse_id, product_id, size_code, kind, action, on_hand_before, expected, on_hand_after, adjustment_id, note, actor
+  ) VALUES (
+    p_warehouse_id, p_product_id, v_size, p_kind, p_action, v_row.on_hand, v_row.expected, v_after, v_adj_id,
+    NULLIF(trim(p_note), ''), p_actor
+  )
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object(
+    'id', v_id,
+    'action', p_action,
+    'onHandBefore', v_row.on_hand,
+    'onHandAfter', v_after,
+    'adjustmentId', v_adj_id,
+    'adjustmentNumber', v_number
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION repair_stock_discrepancy(uuid, uuid, text, text, text, text, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION repair_stock_discrepancy(uuid, uuid, text, text, text, text, text) FROM anon;
+REVOKE ALL ON FUNCTION repair_stock_discrepancy(uuid, uuid, text, text, text, text, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION repair_stock_discrepancy(uuid, uuid, text, text, text, text, text) TO service_role;
+
+COMMENT ON FUNCTION repair_stock_discrepancy(uuid, uuid, text, text, text, text, text) IS 'Repair one get_stock_discrepancies row (DISCREPANCY_NOT_FOUND when it is gone, INVALID_REPAIR_ACTION). restore: correction adjustment to the expected quantity; accept (ledger): keep on-hand. Audited in stock_reconciliations.';
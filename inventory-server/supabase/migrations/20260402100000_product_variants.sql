@@ -0,0 +1,243 @@
+-- Colour variants: product → variant (colour) → size, instead of one product per colourway.
+-- A variant is a warehouse_products row with parent_id set and its own colour, SKU, barcode and images. Its stock is
+-- warehouse_inventory / warehouse_inventory_by_size under the variant's id, so sales, transfers, counts, receipts and
+-- the stock ledger work on variants as they do on any product. The parent holds what the colourways share and, once
+-- it has variants, no stock of its own.
+-- 1) parent_id: one level deep, colour required and unique per parent.
+-- 2) Shared fields (name, description, category, prices, reorder level, tax class, supplier, tags) always come from
+--    the parent: copied on variant insert/update and pushed to the variants when the parent changes.
+-- 3) add_product_variant: the first variant of a product that has stock takes that stock over (it is the
+--    colourway the product was until now).
+-- 4) Product change feed: a change to a variant or its stock is reported as a change of the parent, which is what
+--    devices list.
+
+-- 1) Hierarchy
+ALTER TABLE warehouse_products
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES warehouse_products(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_warehouse_products_parent ON warehouse_products(parent_id) WHERE parent_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_warehouse_products_variant_color
+  ON warehouse_products(parent_id, lower(trim(color))) WHERE parent_id IS NOT NULL;
+
+ALTER TABLE warehouse_products DROP CONSTRAINT IF EXISTS chk_warehouse_products_variant;
+ALTER TABLE warehouse_products ADD CONSTRAINT chk_warehouse_products_variant
+  CHECK (parent_id IS NULL OR (parent_id <> id AND nullif(trim(color), '') IS NOT NULL));
+
+COMMENT ON COLUMN warehouse_products.parent_id IS 'Set on a colour variant: the product it belongs to. Variants have their own colour, SKU, barcode, images and stock; everything else comes from the parent.';
+
+-- 2) Shared fields
+CREATE OR REPLACE FUNCTION fn_warehouse_products_variant()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_parent warehouse_products%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_parent FROM warehouse_products WHERE id = NEW.parent_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PRODUCT_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'VARIANT_OF_VARIANT' USING ERRCODE = 'P0001';
+  END IF;
+  IF (TG_OP = 'INSERT' OR OLD.parent_id IS DISTINCT FROM NEW.parent_id)
+     AND EXISTS (SELECT 1 FROM warehouse_products WHERE parent_id = NEW.id) THEN
+    RAISE EXCEPTION 'PRODUCT_HAS_VARIANTS' USING ERRCODE = 'P0001';
+  END IF;
+
+  NEW.name          := v_parent.name;
+  NEW.description   := v_parent.description;
+  NEW.category      := v_parent.category;
+  NEW.selling_price := v_parent.selling_price;
+  NEW.cost_price    := v_parent.cost_price;
+  NEW.reorder_level := v_parent.reorder_level;
+  NEW.tax_class_id  := v_parent.tax_class_id;
+  NEW.supplier      := v_parent.supplier;
+  NEW.tags          := v_parent.tags;
+  NEW.color         := trim(NEW.color);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_warehouse_products_variant ON warehouse_products;
+CREATE TRIGGER trg_warehouse_products_variant
+  BEFORE INSERT OR UPDATE ON warehouse_products
+  FOR EACH ROW EXECUTE FUNCTION fn_warehouse_products_variant();
+
+CREATE OR REPLACE FUNCTION fn_warehouse_products_push_to_variants()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL
+     AND (NEW.name, NEW.description, NEW.category, NEW.selling_price, NEW.cost_price, NEW.reorder_level,
+          NEW.tax_class_id, NEW.supplier, NEW.tags)
+         IS DISTINCT FROM
+         (OLD.name, OLD.description, OLD.category, OLD.selling_price, OLD.cost_price, OLD.reorder_level,
+          OLD.tax_class_id, OLD.supplier, OLD.tags) THEN
+    -- trg_warehouse_products_variant copies the new values onto each variant.
+    UPDATE warehouse_products SET updated_at = now() WHERE parent_id = NEW.id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_warehouse_products_push_to_variants ON warehouse_products;
+CREATE TRIGGER trg_warehouse_products_push_to_variants
+  AFTER UPDATE ON warehouse_products
+  FOR EACH ROW EXECUTE FUNCTION fn_warehouse_products_push_to_variants();
+
+-- 3) Adding a variant
+CREATE OR REPLACE FUNCTION add_product_variant(
+  p_parent_id uuid,
+  p_color     text,
+  p_sku       text,
+  p_barcode   text DEFAULT NULL,
+  p_images    jsonb DEFAULT '[]'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id    uuid := gen_random_uuid();
+  v_first boolean;
+BEGIN
+  IF nullif(trim(COALESCE(p_color, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'COLOR_REQUIRED' USING ERRCODE = 'P0001';
+  END IF;
+  -- Serialise variant creation per product (first-variant check below).
+  PERFORM 1 FROM warehouse_products WHERE id = p_parent_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PRODUCT_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_first := NOT EXISTS (SELECT 1 FROM warehouse_products WHERE parent_id = p_parent_id);
+
+  INSERT INTO warehouse_products (
+    id, parent_id, color, sku, barcode, images, name, description, category, size_kind,
+    selling_price, cost_price, reorder_level, location, supplier, tags, tax_class_id, version, created_at, updated_at
+  )
+  SELECT v_id, p.id, trim(p_color), trim(COALESCE(p_sku, '')), trim(COALESCE(p_barcode, '')),
+         COALESCE(p_images, '[]'::jsonb), p.name, p.description, p.category, p.size_kind,
+         p.selling_price, p.cost_price, p.reorder_level, p.location, p.supplier, p.tags, p.tax_class_id, 1, now(), now()
+  FROM warehouse_products p
+  WHERE p.id = p_parent_id;
+
+  IF v_first THEN
+    INSERT INTO warehouse_inventory_by_size (warehouse_id, product_id, size_code, quantity, updated_at)
+    SELECT warehouse_id, v_id, size_code, quantity, now()
+    FROM warehouse_inventory_by_size WHERE product_id = p_parent_id;
+
+    INSERT INTO warehouse_inventory (warehouse_id, product_id, quantity, updated_at)
+    SELECT warehouse_id, v_id, quantity, now()
+    FROM warehouse_inventory WHERE product_id = p_parent_id
+    ON CONFLICT (warehouse_id, product_id) DO UPDATE SET quantity = EXCLUDED.quantity, updated_at = now();
+
+    DELETE FROM warehouse_inventory_by_size WHERE product_id = p_parent_id;
+    DELETE FROM warehouse_inventory WHERE product_id = p_parent_id;
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION add_product_variant(uuid, text, text, text, jsonb) FROM PUBLIC;
+REVOKE ALL ON FUNCTION add_product_variant(uuid, text, text, text, jsonb) FROM anon;
+REVOKE ALL ON FUNCTION add_product_variant(uuid, text, text, text, jsonb) FROM authenticated;
+GRANT EXECUTE ON FUNCTION add_product_variant(uuid, text, text, text, jsonb) TO service_role;
+
+COMMENT ON FUNCTION add_product_variant(uuid, text, text, text, jsonb) IS 'Add a colour variant to a product; returns its id. The first variant takes over the product''s stock in every warehouse. Errors: COLOR_REQUIRED, PRODUCT_NOT_FOUND, VARIANT_OF_VARIANT; duplicate colour or SKU: unique violation.';
+COMMENT ON FUNCTION fn_warehouse_products_variant() IS 'Trigger: a variant takes the shared fields from its parent; variants cannot have variants.';
+COMMENT ON FUNCTION fn_warehouse_products_push_to_variants() IS 'Trigger: shared field changes on a product are copied to its variants.';
+
+-- 4) Change feed: report variants as their parent.
+CREATE OR REPLACE FUNCTION fn_product_tombstone()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'warehouse_products' THEN
+    -- A deleted variant is a change of its product; the feed returns the product (still there) as changed.
+    INSERT INTO product_tombstones (product_id) VALUES (COALESCE(OLD.parent_id, OLD.id));
+  ELSE
+    INSERT INTO product_tombstones (product_id, warehouse_id) VALUES (OLD.product_id, OLD.warehouse_id);
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_product_changes(
+  p_warehouse_id uuid,
+  p_since bigint,
+  p_since_xmin xid8 DEFAULT NULL,
+  p_limit int DEFAULT 250
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH c AS (
+    SELECT coalesce(wp.parent_id, x.product_id) AS product_id, x.change_seq
+    FROM (
+      SELECT p.id AS product_id, p.change_seq FROM warehouse_products p WHERE p.change_seq > p_since
+      UNION
+      SELECT p.id, p.change_seq FROM warehouse_products p WHERE p.change_xid >= p_since_xmin
+      UNION
+      SELECT i.product_id, i.change_seq FROM warehouse_inventory i
+      WHERE i.warehouse_id = p_warehouse_id AND i.change_seq > p_since
+      UNION
+      SELECT i.product_id, i.change_seq FROM warehouse_inventory i
+      WHERE i.warehouse_id = p_warehouse_id AND i.change_xid >= p_since_xmin
+      UNION
+      SELECT s.product_id, s.change_seq FROM warehouse_inventory_by_size s
+      WHERE s.warehouse_id = p_warehouse_id AND s.change_seq > p_since
+      UNION
+      SELECT s.product_id, s.change_seq FROM warehouse_inventory_by_size s
+      WHERE s.warehouse_id = p_warehouse_id AND s.change_xid >= p_since_xmin
+      UNION
+      SELECT t.product_id, t.change_seq FROM product_tombstones t
+      WHERE (t.warehouse_id IS NULL OR t.warehouse_id = p_warehouse_id) AND t.change_seq > p_since
+      UNION
+      SELECT t.product_id, t.change_seq FROM product_tombstones t
+      WHERE (t.warehouse_id IS NULL OR t.warehouse_id = p_warehouse_id) AND t.change_xid >= p_since_xmin
+    ) x
+    LEFT JOIN warehouse_products wp ON wp.id = x.product_id
+  ),
+  fresh AS (
+    SELECT c.product_id, max(c.change_seq) AS change_seq
+    FROM c
+    WHERE c.change_seq > p_since
+    GROUP BY c.product_id
+    ORDER BY 2
+    LIMIT greatest(1, least(coalesce(p_limit, 250), 250))
+  ),
+  overlap AS (
+    SELECT DISTINCT c.product_id
+    FROM c
+    WHERE c.change_seq <= p_since AND c.product_id NOT IN (SELECT f.product_id FROM fresh f)
+  )
+  SELECT jsonb_build_object(
+    'changes', coalesce(
+      (SELECT jsonb_agg(jsonb_build_object('product_id', f.product_id, 'change_seq', f.change_seq::text) ORDER BY f.change_seq) FROM fresh f),
+      '[]'::jsonb
+    ),
+    'overlap', coalesce((SELECT jsonb_agg(o.product_id) FROM overlap o), '[]'::jsonb),
+    'xmin', pg_snapshot_xmin(pg_current_snapshot())::text
+  );
+$$;
+
+COMMENT ON FUNCTION get_product_changes(uuid, bigint, xid8, int) IS 'Product change feed page. changes: products whose row, stock at p_warehouse_id or tombstone changed after p_since (a variant counts as its parent), each once at its latest change_seq, in change_seq order (at most p_limit, max 250); the last change_seq is the next cursor seq. overlap: products at or before p_since written by a transaction >= p_since_xmin (open when the cursor was read), sent again. xmin: the next cursor''s xmin.';
@@ -0,0 +1,188 @@
+-- Bulk product import (POST /api/products/import): a CSV of products by SKU, previewed as a dry-run diff, then
+-- applied here in one transaction.
+-- 1) product_imports: one row per applied import; its id is the reference of the import's stock ledger rows.
+-- 2) import_products: creates or updates each row's product by SKU and sets its stock at the warehouse. Fields a row
+--    leaves out are kept; sizes a row leaves out are kept. Writes only what differs, so applying the same file
+--    twice changes nothing the second time.
+
+-- 1) Audit
+CREATE TABLE IF NOT EXISTS product_imports (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  warehouse_id  uuid NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  file_name     text,
+  row_count     int  NOT NULL DEFAULT 0,
+  created_count int  NOT NULL DEFAULT 0,
+  updated_count int  NOT NULL DEFAULT 0,
+  actor         text,
+  created_at    timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_imports_warehouse ON product_imports(warehouse_id, created_at DESC);
+
+COMMENT ON TABLE product_imports IS 'Applied product imports (CSV by SKU). Stock ledger rows of an import have reference_type import and reference_id = id.';
+
+ALTER TABLE product_imports ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "service_role_product_imports" ON product_imports;
+CREATE POLICY "service_role_product_imports" ON product_imports
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- 2) Apply
+-- p_rows: [{ sku, name?, category?, description?, barcode?, color?, selling_price?, cost_price?, reorder_level?,
+--            images?, quantity? | sizes?: [{ size_code, quantity }] }]. A key left out keeps the current value.
+CREATE OR REPLACE FUNCTION import_products(
+  p_warehouse_id uuid,
+  p_rows         jsonb,
+  p_file_name    text DEFAULT NULL,
+  p_actor        text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_import_id uuid := gen_random_uuid();
+  v_row       jsonb;
+  v_sku       text;
+  v_product   warehouse_products%ROWTYPE;
+  v_id        uuid;
+  v_new       boolean;
+  v_changed   boolean;
+  v_n         int;
+  v_created   int := 0;
+  v_updated   int := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM warehouses WHERE id = p_warehouse_id) THEN
+    RAISE EXCEPTION 'WAREHOUSE_NOT_FOUND' USING ERRCODE = 'P0001';
+  END IF;
+  PERFORM set_config('stock_ledger.reference_id', v_import_id::text, true);
+
+  FOR v_row IN SELECT value FROM jsonb_array_elements(COALESCE(p_rows, '[]'::jsonb)) LOOP
+    v_sku := trim(COALESCE(v_row->>'sku', ''));
+    IF v_sku = '' THEN
+      RAISE EXCEPTION 'SKU_REQUIRED' USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT * INTO v_product FROM warehouse_products WHERE sku = v_sku FOR UPDATE;
+    v_new := NOT FOUND;
+    v_changed := false;
+
+    IF v_new THEN
+      IF nullif(trim(COALESCE(v_row->>'name', '')), '') IS NULL THEN
+        RAISE EXCEPTION 'NAME_REQUIRED: %', v_sku USING ERRCODE = 'P0001';
+      END IF;
+      v_id := gen_random_uuid();
+      INSERT INTO warehouse_products (
+        id, sku, name, category, description, barcode, color, selling_price, cost_price, reorder_level, images,
+        size_kind, version, created_at, updated_at
+      ) VALUES (
+        v_id, v_sku, trim(v_row->>'name'),
+        COALESCE(nullif(trim(v_row->>'category'), ''), 'Uncategorized'),
+        COALESCE(v_row->>'description', ''),
+        COALESCE(v_row->>'barcode', ''),
+        nullif(trim(v_row->>'color'), ''),
+        COALESCE((v_row->>'selling_price')::numeric, 0),
+        COALESCE((v_row->>'cost_price')::numeric, 0),
+        COALESCE((v_row->>'reorder_level')::int, 0),
+        COALESCE(v_row->'images', '[]'::jsonb),
+        CASE WHEN v_row ? 'sizes' THEN 'sized' ELSE 'na' END,
+        1, now(), now()
+      );
+      v_created := v_created + 1;
+    ELSE
+      IF v_product.parent_id IS NOT NULL THEN
+        RAISE EXCEPTION 'SKU_IS_VARIANT: %', v_sku USING ERRCODE = 'P0001';
+      END IF;
+      v_id := v_product.id;
+      UPDATE warehouse_products p SET
+        name          = COALESCE(nullif(trim(v_row->>'name'), ''), p.name),
+        category      = COALESCE(nullif(trim(v_row->>'category'), ''), p.category),
+        description   = COALESCE(v_row->>'description', p.description),
+        barcode       = COALESCE(v_row->>'barcode', p.barcode),
+        color         = CASE WHEN v_row ? 'color' THEN nullif(trim(v_row->>'color'), '') ELSE p.color END,
+        selling_price = COALESCE((v_row->>'selling_price')::numeric, p.selling_price),
+        cost_price    = COALESCE((v_row->>'cost_price')::numeric, p.cost_price),
+        reorder_level = COALESCE((v_row->>'reorder_level')::int, p.reorder_level),
+        images        = COALESCE(v_row->'images', p.images),
+        size_kind     = CASE WHEN v_row ? 'sizes' THEN 'sized' ELSE p.size_kind END,
+        version       = p.version + 1,
+        updated_at    = now()
+      WHERE p.id = v_id
+        AND (p.name, p.category, p.description, p.barcode, p.color, p.selling_price, p.cost_price, p.reorder_level,
+             p.images, p.size_kind)
+            IS DISTINCT FROM
+            (COALESCE(nullif(trim(v_row->>'name'), ''), p.name),
+             COALESCE(nullif(trim(v_row->>'category'), ''), p.category),
+             COALESCE(v_row->>'description', p.description),
+             COALESCE(v_row->>'barcode', p.barcode),
+             CASE WHEN v_row ? 'color' THEN nullif(trim(v_row->>'color'), '') ELSE p.color END,
+             COALESCE((v_row->>'selling_price')::numeric, p.selling_price),
+             COALESCE((v_row->>'cost_price')::numeric, p.cost_price),
+             COALESCE((v_row->>'reorder_level')::int, p.reorder_level),
+             COALESCE(v_row->'images', p.images),
+             CASE WHEN v_row ? 'sizes' THEN 'sized' ELSE p.size_kind END);
+      v_changed := FOUND;
+    END IF;
+
+    IF (v_row ? 'sizes' OR v_row ? 'quantity')
+       AND EXISTS (SELECT 1 FROM warehouse_products WHERE parent_id = v_id) THEN
+      RAISE EXCEPTION 'PRODUCT_HAS_VARIANTS: %', v_sku USING ERRCODE = 'P0001';
+    END IF;
+
+    IF v_row ? 'sizes' THEN
+      INSERT INTO warehouse_inventory_by_size (warehouse_id, product_id, size_code, quantity, updated_at)
+      SELECT p_warehouse_id, v_id, upper(trim(s->>'size_code')), (s->>'quantity')::int, now()
+      FROM jsonb_array_elements(v_row->'sizes') s
+      ON CONFLICT (warehouse_id, product_id, size_code)
+      DO UPDATE SET quantity = EXCLUDED.quantity, updated_at = now()
+      WHERE warehouse_inventory_by_size.quantity IS DISTINCT FROM EXCLUDED.quantity;
+      GET DIAGNOSTICS v_n = ROW_COUNT;
+      v_changed := v_changed OR v_n > 0;
+
+      INSERT INTO warehouse_inventory (warehouse_id, product_id, quantity, updated_at)
+      SELECT p_warehouse_id, v_id, COALESCE(sum(quantity), 0), now()
+      FROM warehouse_inventory_by_size WHERE warehouse_id = p_warehouse_id AND product_id = v_id
+      ON CONFLICT (warehouse_id, product_id)
+      DO UPDATE SET quantity = EXCLUDED.quantity, updated_at = now()
+      WHERE warehouse_inventory.quantity IS DISTINCT FROM EXCLUDED.quantity;
+      GET DIAGNOSTICS v_n = ROW_COUNT;
+      v_changed := v_changed OR v_n > 0;
+    ELSIF v_row ? 'quantity' THEN
+      IF EXISTS (SELECT 1 FROM warehouse_inventory_by_size WHERE warehouse_id = p_warehouse_id AND product_id = v_id) THEN
+        RAISE EXCEPTION 'PRODUCT_HAS_SIZES: %', v_sku USING ERRCODE = 'P0001';
+      END IF;
+      INSERT INTO warehouse_inventory (warehouse_id, product_id, quantity, updated_at)
+      VALUES (p_warehouse_id, v_id, (v_row->>'quantity')::int, now())
+      ON CONFLICT (warehouse_id, product_id)
+      DO UPDATE SET quantity = EXCLUDED.quantity, updated_at = now()
+      WHERE warehouse_inventory.quantity IS DISTINCT FROM EXCLUDED.quantity;
+      GET DIAGNOSTICS v_n = ROW_COUNT;
+      v_changed := v_changed OR v_n > 0;
+    ELSIF NOT EXISTS (SELECT 1 FROM warehouse_products WHERE parent_id = v_id) THEN
+      -- Listed at this warehouse from now on, with no stock yet.
+      INSERT INTO warehouse_inventory (warehouse_id, product_id, quantity, updated_at)
+      VALUES (p_warehouse_id, v_id, 0, now())
+      ON CONFLICT (warehouse_id, product_id) DO NOTHING;
+      GET DIAGNOSTICS v_n = ROW_COUNT;
+      v_changed := v_changed OR v_n > 0;
+    END IF;
+
+    IF NOT v_new AND v_changed THEN
+      v_updated := v_updated + 1;
+    END IF;
+  END LOOP;
+
+  INSERT INTO product_imports (id, warehouse_id, file_name, row_count, created_count, updated_count, actor)
+  VALUES (v_import_id, p_warehouse_id, nullif(trim(p_file_name), ''), jsonb_array_length(COALESCE(p_rows, '[]'::jsonb)),
+          v_created, v_updated, p_actor);
+
+  RETURN jsonb_build_object('importId', v_import_id, 'created', v_created, 'updated', v_updated);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION import_products(uuid, jsonb, text, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION import_products(uuid, jsonb, text, text) FROM anon;
+REVOKE ALL ON FUNCTION import_products(uuid, jsonb, text, text) FROM authenticated;
+GRANT EXECUTE ON FUNCTION import_products(uuid, jsonb, text, text) TO service_role;
+
+COMMENT ON FUNCTION import_products(uuid, jsonb, text, text) IS 'Apply a product import at a warehouse in one transaction: create or update each row''s product by SKU and set its stock (quantity, or the sizes given). Only differences are written. Errors: WAREHOUSE_NOT_FOUND, SKU_REQUIRED, NAME_REQUIRED, SKU_IS_VARIANT, PRODUCT_HAS_VARIANTS, PRODUCT_HAS_SIZES (each with the SKU). Audited in product_imports.';
@@ -52,6 +52,14 @@ const Dashboard = lazyWithRetry(() => import('./pages/Dashboard').then(m => ({ d
 const InventoryPage = lazyWithRetry(() => import('./pages/InventoryPage').then(m => ({ default: m.default })));
 const SalesHistoryPage = lazyWithRetry(() => import('./pages/SalesHistoryPage').then(m => ({ default: m.default })));
 const DeliveriesPage = lazyWithRetry(() => import('./pages/DeliveriesPage').then(m => ({ default: m.default })));
+const TransfersPage = lazyWithRetry(() => import('./pages/TransfersPage').then(m => ({ default: m.default })));
+const ReceivingPage = lazyWithRetry(() => import('./pages/ReceivingPage').then(m => ({ default: m.default })));
+const PurchasingPage = lazyWithRetry(() => import('./pages/PurchasingPage').then(m => ({ default: m.default })));
+const StockTakePage = lazyWithRetry(() => import('./pages/StockTakePage').then(m => ({ default: m.default })));
+const StockReconciliationPage = lazyWithRetry(() => import('./pages/StockReconciliationPage').then(m => ({ default: m.default })));
+const ProductImportPage = lazyWithRetry(() => import('./pages/ProductImportPage').then(m => ({ default: m.default })));
+const CustomersPage = lazyWithRetry(() => import('./pages/CustomersPage').then(m => ({ default: m.default })));
+const PromotionsPage = lazyWithRetry(() => import('./pages/PromotionsPage').then(m => ({ default: m.default })));
 const Orders = lazyWithRetry(() => import('./pages/Orders').then(m => ({ default: m.Orders })));
 const Reports = lazyWithRetry(() => import('./pages/Reports').then(m => ({ default: m.Reports })));
 const Settings = lazyWithRetry(() => import('./pages/Settings').then(m => ({ default: m.Settings })));
@@ -375,6 +383,94 @@ function App() {
                             </ProtectedRoute>
                           }
                         />
+                        <Route
+                          path="transfers"
+                          element={
+                            <ProtectedRoute permission={PERMISSIONS.INVENTORY.TRANSFER} redirectPathIfForbidden="/pos">
+                              <RouteErrorBoundary routeName="Transfers">
+                                <TransfersPage />
+                              </RouteErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route
+                          path="receiving"
+                          element={
+                            <ProtectedRoute permission={PERMISSIONS.INVENTORY.RECEIVE} redirectPathIfForbidden="/pos">
+                              <RouteErrorBoundary routeName="Receiving">
+                                <ReceivingPage />
+                              </RouteErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route
+                          path="purchasing"
+                          element={
+                            <ProtectedRoute permission={PERMISSIONS.INVENTORY.PURCHASE} redirectPathIfForbidden="/pos">
+                              <RouteErrorBoundary routeName="Purchasing">
+                                <PurchasingPage />
+                              </RouteErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route
+                          path="stock-take"
+                          element={
+                            <ProtectedRoute permission={PERMISSIONS.INVENTORY.STOCK_TAKE} redirectPathIfForbidden="/pos">
+                              <RouteErrorBoundary routeName="Stock take">
+                                <StockTakePage />
+                              </RouteErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route
+                          path="reconciliation"
+                          element={
+                            <ProtectedRoute
+                              allowedRoles={['admin', 'super_admin']}
+                              redirectPathIfForbidden="/pos"
+                              permission={PERMISSIONS.SETTINGS.UPDATE_SYSTEM}
+                            >
+                              <RouteErrorBoundary routeName="Stock reconciliation">
+                                <StockReconciliationPage />
+                              </RouteErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route
+                          path="import"
+                          element={
+                            <ProtectedRoute
+                              allowedRoles={['admin', 'super_admin']}
+                              redirectPathIfForbidden="/pos"
+                              permission={PERMISSIONS.SETTINGS.UPDATE_SYSTEM}
+                            >
+                              <RouteErrorBoundary routeName="Import products">
+                                <ProductImportPage />
+                              </RouteErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route
+                          path="customers"
+                          element={
+                            <ProtectedRoute permission={PERMISSIONS.CUSTOMERS.VIEW} redirectPathIfForbidden="/pos">
+                              <RouteErrorBoundary routeName="Customers">
+                                <CustomersPage />
+                              </RouteErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
+                        <Route
+                          path="promotions"
+                          element={
+                            <ProtectedRoute permission={PERMISSIONS.PROMOTIONS.MANAGE} redirectPathIfForbidden="/pos">
+                              <RouteErrorBoundary routeName="Promotions">
+                                <PromotionsPage />
+                              </RouteErrorBoundary>
+                            </ProtectedRoute>
+                          }
+                        />
                         <Route
                           path="reports"
                           element={
@@ -55,7 +55,7 @@ export function SyncRejectionsCard() {
         </Button>
       </div>
       <p className="text-sm text-amber-800 mb-4">
-        These sales could not be applied (e.g. insufficient stock at sync time). Void to stop retries; no inventory change.
+        These offline sales could not be applied (e.g. insufficient stock at sync time) or were discarded at the till. Void once handled; no inventory change.
       </p>
       <ul className="space-y-2 max-h-60 overflow-y-auto">
         {list.map((r) => (
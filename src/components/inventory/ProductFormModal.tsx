@@ -14,6 +14,9 @@ import { isStorageUrl, extractPathFromUrl, deleteProductImage, uploadProductImag
 import { Button } from '../ui/Button';
 import SizesSection from './SizesSection';
 import { X, Upload, CloudOff } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { queryKeys } from '../../lib/queryKeys';
+import { fetchTaxSetup } from '../../services/taxApi';
 
 const MAX_PRODUCT_IMAGES = 5;
 
@@ -71,10 +74,11 @@ export function ProductFormModal({ isOpen, onClose, onSubmit, product, readOnlyM
     },
     images: [] as string[],
     expiryDate: null as Date | null,
-    variants: {} as { size?: string; color?: string; unit?: string },
     createdBy: 'admin',
     sizeKind: 'na' as SizeKind,
     quantityBySize: [] as { sizeCode: string; quantity: number }[],
+    /** null = the category's tax class, else the default. */
+    taxClassId: null as string | null,
   });
 
   const [tagInput, setTagInput] = useState('');
@@ -82,6 +86,12 @@ export function ProductFormModal({ isOpen, onClose, onSubmit, product, readOnlyM
   const [imageUploading, setImageUploading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [sizeCodes, setSizeCodes] = useState<SizeCodeOption[]>([]);
+  const { data: taxSetup } = useQuery({
+    queryKey: queryKeys.taxClasses(),
+    queryFn: fetchTaxSetup,
+    enabled: isOpen,
+    staleTime: 10 * 60_000,
+  });
   const wasOpenRef = useRef(false);
   const modalContentRef = useRef<HTMLDivElement>(null);
   const previousActiveRef = useRef<HTMLElement | null>(null);
@@ -181,10 +191,10 @@ export function ProductFormModal({ isOpen, onClose, onSubmit, product, readOnlyM
           : { name: '', contact: '', email: '' },
         images: skipImageOverwrite ? prev.images : validImages,
         expiryDate: currentProduct.expiryDate,
-        variants: currentProduct.variants || {},
         createdBy: currentProduct.createdBy,
         sizeKind: (currentProduct.sizeKind ?? 'na') as SizeKind,
         quantityBySize: qtyBySize.length > 0 ? qtyBySize : [],
+        taxClassId: currentProduct.taxClassId ?? null,
       }));
       if (!skipImageOverwrite) {
         setImagePreview(validImages);
@@ -209,10 +219,10 @@ export function ProductFormModal({ isOpen, onClose, onSubmit, product, readOnlyM
         supplier: { name: '', contact: '', email: '' },
         images: skipImageOverwrite ? prev.images : [],
         expiryDate: null,
-        variants: {},
         createdBy: 'admin',
         sizeKind: 'na',
         quantityBySize: [],
+        taxClassId: null,
       }));
       if (!skipImageOverwrite) {
         setImagePreview([]);
@@ -678,6 +688,26 @@ export function ProductFormModal({ isOpen, onClose, onSubmit, product, readOnlyM
                 className="input-field"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1.5">
+                Tax class
+              </label>
+              <select
+                value={formData.taxClassId ?? ''}
+                onChange={(e) => setFormData((prev) => ({ ...prev, taxClassId: e.target.value || null }))}
+                className="input-field"
+              >
+                <option value="">Same as category</option>
+                {(taxSetup?.classes ?? [])
+                  .filter((c) => c.active || c.id === formData.taxClassId)
+                  .map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
           </div>
 
           <div>
@@ -59,4 +59,14 @@ describe('buildInitialForm', () => {
     const form = buildInitialForm(product);
     expect(form.images).toEqual([]);
   });
+
+  it('prefills barcode in add mode from a scanned code', () => {
+    const form = buildInitialForm(null, ' 5012345678900 ');
+    expect(form.barcode).toBe('5012345678900');
+  });
+
+  it('keeps product barcode in edit mode', () => {
+    const product: Product = { ...minimalProduct, barcode: '123' };
+    expect(buildInitialForm(product, '999').barcode).toBe('123');
+  });
 });
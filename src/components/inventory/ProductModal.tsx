@@ -9,15 +9,29 @@
 // - Bottom sheet on mobile, centered modal on desktop.
 // - Sticky header + footer, scrollable body.
 // - Images: file upload (→ base64) + URL fallback, up to 5 images.
+// - Stock card (edit mode) is read-only and only fetched when expanded.
+// - Colours (edit mode) save on their own. A product with colours keeps
+//   its stock on them, so its own Color and Stock & Sizes are hidden.
 // ============================================================
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import type { Product } from '../../types';
+import { useQueryClient } from '@tanstack/react-query';
+import type { Product, ProductVariant } from '../../types';
+import { queryKeys } from '../../lib/queryKeys';
+import { getUserFriendlyMessage } from '../../lib/errorMessages';
+import { rollUpVariantStock, suggestVariantSku } from '../../lib/productVariants';
+import {
+  addProductVariant,
+  deleteProductVariant,
+  duplicateColor,
+  updateProductVariant,
+} from '../../services/productVariantsApi';
 import SizesSection, {
   type SizesSectionValue,
   type SizeCode,
   getValidationError,
 } from './SizesSection';
+import StockCard from './StockCard';
 
 // ── Image compression helper (canvas resize → compressed JPEG data-URL) ───
 // Resizes to max 900px, compresses to 0.82 quality — keeps file tiny in DB.
@@ -74,6 +88,8 @@ interface ProductModalProps {
   warehouseId?: string;
   onSubmit: (payload: Omit<Product, 'id'> & { id?: string }, isEdit: boolean) => Promise<void>;
   onClose: () => void;
+  /** Add mode only: prefill barcode (e.g. an unknown code just scanned). */
+  initialBarcode?: string;
 }
 
 // ── Helpers ────────────────────────────────────────────────────────────────
@@ -84,9 +100,9 @@ function generateSKU(): string {
   return `SKU-${seg(6)}${seg(2)}-${seg(5)}`;
 }
 
-export function buildInitialForm(product?: Product | null): FormState {
+export function buildInitialForm(product?: Product | null, initialBarcode?: string): FormState {
   if (product) {
-    const color = (product as { color?: string | null }).color ?? (product as { variants?: { color?: string } }).variants?.color ?? '';
+    const color = product.color ?? '';
     return {
       name: product.name ?? '',
       sku: product.sku ?? '',
@@ -123,7 +139,7 @@ export function buildInitialForm(product?: Product | null): FormState {
   return {
     name: '',
     sku: generateSKU(),
-    barcode: '',
+    barcode: initialBarcode?.trim() ?? '',
     category: '',
     color: '',
     description: '',
@@ -485,6 +501,267 @@ function ImageUpload({ images, onChange, disabled }: ImageUploadProps) {
   );
 }
 
+// ── Colour variants (edit mode) ────────────────────────────────────────────
+// Each change is saved straight away, not with "Save changes"; the server
+// answers with all the product's variants, which replace ours.
+
+interface VariantDraft {
+  color: string;
+  sku: string;
+  barcode: string;
+  images: string[];
+  sizes: SizesSectionValue;
+}
+
+function variantDraft(v: ProductVariant): VariantDraft {
+  return {
+    color: v.color,
+    sku: v.sku,
+    barcode: v.barcode ?? '',
+    images: v.images ?? [],
+    sizes: {
+      sizeKind: v.sizeKind ?? 'na',
+      quantity: v.quantity,
+      quantityBySize: v.quantityBySize.map(r => ({ sizeCode: r.sizeCode, quantity: r.quantity })),
+    },
+  };
+}
+
+interface VariantsSectionProps {
+  productId: string;
+  productSku: string;
+  warehouseId: string;
+  variants: ProductVariant[];
+  sizeCodes: SizeCode[];
+  disabled?: boolean;
+  onChange: (variants: ProductVariant[]) => void;
+}
+
+function VariantsSection({ productId, productSku, warehouseId, variants, sizeCodes, disabled, onChange }: VariantsSectionProps) {
+  const queryClient = useQueryClient();
+  const [adding, setAdding] = useState({ color: '', sku: '', barcode: '' });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<VariantDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  async function run(action: () => Promise<ProductVariant[]>): Promise<boolean> {
+    setBusy(true);
+    setError('');
+    try {
+      onChange(await action());
+      queryClient.invalidateQueries({ queryKey: queryKeys.products(warehouseId) });
+      return true;
+    } catch (e: unknown) {
+      setError(getUserFriendlyMessage(e));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleAdd() {
+    const color = adding.color.trim();
+    if (!color) return setError('Enter a colour.');
+    const taken = duplicateColor(variants, color);
+    if (taken) return setError(`${taken} is already a variant of this product.`);
+    const ok = await run(async () =>
+      (await addProductVariant(productId, warehouseId, {
+        color,
+        sku: adding.sku.trim() || suggestVariantSku(productSku, color),
+        barcode: adding.barcode.trim() || null,
+      })).variants
+    );
+    if (ok) setAdding({ color: '', sku: '', barcode: '' });
+  }
+
+  async function handleSave(id: string) {
+    if (!draft) return;
+    const color = draft.color.trim();
+    if (!color) return setError('Enter a colour.');
+    const taken = duplicateColor(variants, color, id);
+    if (taken) return setError(`${taken} is already a variant of this product.`);
+    const sizeError = getValidationError(draft.sizes);
+    if (sizeError) return setError(sizeError);
+    const ok = await run(async () =>
+      (await updateProductVariant(id, warehouseId, {
+        color,
+        sku: draft.sku.trim(),
+        barcode: draft.barcode.trim() || null,
+        images: draft.images,
+        sizeKind: draft.sizes.quantityBySize.length >= 2 ? 'sized' : draft.sizes.sizeKind,
+        quantity: draft.sizes.quantity,
+        quantityBySize: draft.sizes.quantityBySize,
+      })).variants
+    );
+    if (ok) { setEditingId(null); setDraft(null); }
+  }
+
+  async function handleRemove(v: ProductVariant) {
+    if (v.quantity > 0) return setError(`Move or adjust ${v.color}'s stock to 0 before removing it.`);
+    if (!window.confirm(`Remove the ${v.color} variant?`)) return;
+    const ok = await run(async () => {
+      await deleteProductVariant(v.id, warehouseId);
+      return variants.filter(x => x.id !== v.id);
+    });
+    if (ok && editingId === v.id) { setEditingId(null); setDraft(null); }
+  }
+
+  const locked = disabled || busy;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2">
+        <p className="text-[13px] font-semibold text-slate-500 uppercase tracking-wide">Colours</p>
+        <span className="text-[11px] text-slate-400 font-medium">
+          {variants.length > 0 ? `${variants.length} variant${variants.length === 1 ? '' : 's'} · stock per colour` : 'Optional'}
+        </span>
+      </div>
+
+      {error && (
+        <div className="px-3.5 py-2.5 rounded-xl bg-red-50 border border-red-100 text-[13px] font-medium text-red-600">
+          {error}
+        </div>
+      )}
+
+      {variants.map(v => {
+        const open = editingId === v.id && draft;
+        return (
+          <div key={v.id} className="rounded-xl border-[1.5px] border-slate-200">
+            <button
+              type="button"
+              disabled={locked}
+              onClick={() => {
+                setError('');
+                if (open) { setEditingId(null); setDraft(null); }
+                else { setEditingId(v.id); setDraft(variantDraft(v)); }
+              }}
+              className="w-full flex items-center gap-3 px-3.5 py-3 text-left disabled:opacity-60"
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-[14px] font-semibold text-slate-900 truncate">{v.color}</p>
+                <p className="text-[12px] font-mono text-slate-400 truncate">{v.sku || '—'}</p>
+              </div>
+              <span className="text-[13px] font-bold text-slate-700 tabular-nums">{v.quantity} in stock</span>
+              <IconChevron open={!!open} />
+            </button>
+
+            {open && (
+              <div className="flex flex-col gap-4 px-3.5 pb-4 border-t border-slate-100 pt-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <Field label="Colour" required>
+                    <input
+                      type="text"
+                      list="variant-color-datalist"
+                      value={draft.color}
+                      onChange={e => setDraft({ ...draft, color: e.target.value })}
+                      className={inputCls()}
+                    />
+                  </Field>
+                  <Field label="SKU">
+                    <input
+                      type="text"
+                      value={draft.sku}
+                      onChange={e => setDraft({ ...draft, sku: e.target.value })}
+                      className={`${inputCls()} font-mono text-[13px]`}
+                    />
+                  </Field>
+                </div>
+                <Field label="Barcode" hint="Optional">
+                  <input
+                    type="text"
+                    value={draft.barcode}
+                    onChange={e => setDraft({ ...draft, barcode: e.target.value })}
+                    placeholder="Scan or type barcode"
+                    className={inputCls()}
+                  />
+                </Field>
+                <Field label="Photos" hint="Optional · the product's photos are used when empty">
+                  <ImageUpload images={draft.images} onChange={images => setDraft({ ...draft, images })} disabled={locked} />
+                </Field>
+                <SizesSection
+                  value={draft.sizes}
+                  sizeCodes={sizeCodes}
+                  onChange={sizes => setDraft({ ...draft, sizes })}
+                  disabled={locked}
+                />
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    disabled={locked}
+                    onClick={() => handleRemove(v)}
+                    className="h-10 px-4 rounded-xl border-[1.5px] border-slate-200 text-[13px] font-semibold text-red-500 hover:bg-red-50 disabled:opacity-40 transition-all duration-150"
+                  >
+                    Remove
+                  </button>
+                  <button
+                    type="button"
+                    disabled={locked}
+                    onClick={() => handleSave(v.id)}
+                    className="flex-1 h-10 rounded-xl bg-slate-900 text-[13px] font-semibold text-white hover:bg-slate-800 disabled:opacity-60 transition-all duration-150"
+                  >
+                    {busy ? 'Saving…' : `Save ${v.color}`}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-col gap-3 rounded-xl bg-slate-50 px-3.5 py-3.5">
+        <div className="grid grid-cols-2 gap-3">
+          <Field label="Add colour">
+            <input
+              type="text"
+              list="variant-color-datalist"
+              value={adding.color}
+              onChange={e => setAdding({ ...adding, color: e.target.value })}
+              placeholder="e.g. Black"
+              className={inputCls()}
+            />
+          </Field>
+          <Field label="SKU" hint={adding.color.trim() && !adding.sku.trim() ? suggestVariantSku(productSku, adding.color) : undefined}>
+            <input
+              type="text"
+              value={adding.sku}
+              onChange={e => setAdding({ ...adding, sku: e.target.value })}
+              placeholder="Auto"
+              className={`${inputCls()} font-mono text-[13px]`}
+            />
+          </Field>
+        </div>
+        <Field label="Barcode" hint="Optional">
+          <input
+            type="text"
+            value={adding.barcode}
+            onChange={e => setAdding({ ...adding, barcode: e.target.value })}
+            placeholder="Scan or type barcode"
+            className={inputCls()}
+          />
+        </Field>
+        {variants.length === 0 && (
+          <p className="text-[12px] text-slate-400">
+            The first colour takes over this product's current stock; set the others' stock once added.
+          </p>
+        )}
+        <button
+          type="button"
+          disabled={locked || !adding.color.trim()}
+          onClick={handleAdd}
+          className="h-10 rounded-xl border-[1.5px] border-slate-200 bg-white text-[13px] font-semibold text-slate-700 hover:bg-slate-100 disabled:opacity-50 transition-all duration-150"
+        >
+          {busy && !editingId ? 'Adding…' : 'Add colour'}
+        </button>
+      </div>
+
+      <datalist id="variant-color-datalist">
+        {FORM_COLOR_OPTIONS.filter(Boolean).map(c => <option key={c} value={c} />)}
+      </datalist>
+    </div>
+  );
+}
+
 // ── Main Component ─────────────────────────────────────────────────────────
 
 export default function ProductModal({
@@ -494,6 +771,7 @@ export default function ProductModal({
   warehouseId: defaultWarehouseId,
   onSubmit,
   onClose,
+  initialBarcode,
 }: ProductModalProps) {
 
   const isEdit = !!product?.id;
@@ -502,6 +780,8 @@ export default function ProductModal({
   const [attempted, setAttempted] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [detailsOpen, setDetailsOpen] = useState(false);
+  const [stockCardOpen, setStockCardOpen] = useState(false);
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
   const [errors, setErrors] = useState<Partial<Record<keyof FormState, string>>>({});
   const hasInitialized = useRef(false);
   const scrollRef = useRef<HTMLDivElement>(null);
@@ -514,11 +794,13 @@ export default function ProductModal({
       setAttempted(false);
       setErrors({});
       setDetailsOpen(false);
+      setStockCardOpen(false);
       return;
     }
     if (hasInitialized.current) return;
     hasInitialized.current = true;
-    const initial = buildInitialForm(product);
+    const initial = buildInitialForm(product, initialBarcode);
+    setVariants(product?.variants ?? []);
     initialSizeCountRef.current = Array.isArray(product?.quantityBySize) ? product.quantityBySize.length : 0;
     setForm(initial);
     setAttempted(false);
@@ -557,13 +839,25 @@ export default function ProductModal({
     }));
   }, []);
 
+  const hasColors = variants.length > 0;
+
+  /** Colours changed on the server: the product's stock is now theirs (none once the last one is removed). */
+  function handleVariantsChange(next: ProductVariant[]) {
+    setVariants(next);
+    const sizes: SizesSectionValue = next.length > 0
+      ? rollUpVariantStock(next)
+      : { sizeKind: 'na', quantity: 0, quantityBySize: [] };
+    setForm(prev => ({ ...prev, sizes }));
+    initialSizeCountRef.current = sizes.quantityBySize.length;
+  }
+
   function validate(): boolean {
     const e: Partial<Record<keyof FormState, string>> = {};
     if (!form.name.trim()) e.name = 'Product name is required.';
     if (!form.category.trim()) e.category = 'Category is required.';
     if (form.sellingPrice === '' || Number(form.sellingPrice) < 0)
       e.sellingPrice = 'Enter a valid selling price.';
-    const sizeError = getValidationError(form.sizes);
+    const sizeError = hasColors ? null : getValidationError(form.sizes);
     if (sizeError) e.sizes = sizeError as any;
     setErrors(e);
     return Object.keys(e).length === 0;
@@ -582,6 +876,7 @@ export default function ProductModal({
       form.sizes.quantityBySize.length < initialSizeCountRef.current;
     if (
       product?.id &&
+      !hasColors &&
       hadMultipleSizes &&
       nowFewerSizes &&
       !window.confirm(
@@ -613,7 +908,7 @@ export default function ProductModal({
         location: { warehouse: defaultWarehouseId ?? '', ...form.location },
         supplier: form.supplier,
         images: form.images,
-        variants: { ...product?.variants, color: form.color.trim() || undefined },
+        color: form.color.trim() || null,
       };
       await onSubmit(payload as Omit<Product, 'id'> & { id?: string }, isEdit);
       onClose();
@@ -764,19 +1059,21 @@ export default function ProductModal({
                 </datalist>
               </Field>
 
-              {/* Color */}
-              <Field label="Color" hint="Used for filtering in inventory.">
-                <select
-                  value={form.color}
-                  onChange={e => set('color', e.target.value)}
-                  className={inputCls()}
-                >
-                  <option value="">Uncategorized</option>
-                  {FORM_COLOR_OPTIONS.filter(Boolean).map(c => (
-                    <option key={c} value={c}>{c}</option>
-                  ))}
-                </select>
-              </Field>
+              {/* Color (per colour variant once it has some) */}
+              {!hasColors && (
+                <Field label="Color" hint="Used for filtering in inventory.">
+                  <select
+                    value={form.color}
+                    onChange={e => set('color', e.target.value)}
+                    className={inputCls()}
+                  >
+                    <option value="">Uncategorized</option>
+                    {FORM_COLOR_OPTIONS.filter(Boolean).map(c => (
+                      <option key={c} value={c}>{c}</option>
+                    ))}
+                  </select>
+                </Field>
+              )}
 
               {/* SKU */}
               <Field label="SKU" hint="Auto-generated. Tap to edit.">
@@ -911,26 +1208,44 @@ export default function ProductModal({
             {/* ── Divider ── */}
             <div className="h-px bg-slate-100" />
 
-            {/* ── Section: Stock & Sizes ── */}
-            {(errors as any).sizes && (
-              <div className="px-3.5 py-2.5 rounded-xl bg-red-50 border border-red-100 text-[13px] font-medium text-red-600 mb-2">
-                {(errors as any).sizes}
-              </div>
+            {/* ── Section: Colours (edit only) ── */}
+            {isEdit && product?.id && defaultWarehouseId && (
+              <>
+                <VariantsSection
+                  productId={product.id}
+                  productSku={form.sku}
+                  warehouseId={defaultWarehouseId}
+                  variants={variants}
+                  sizeCodes={sizeCodes}
+                  disabled={isSubmitting}
+                  onChange={handleVariantsChange}
+                />
+                <div className="h-px bg-slate-100" />
+              </>
             )}
-            <SizesSection
-              value={form.sizes}
-              sizeCodes={sizeCodes}
-              onChange={sizes => set('sizes', sizes)}
-              showValidation={attempted}
-              onConfirmRemoveSizeBreakdown={() =>
-                window.confirm(
-                  'Switch to one size? This will remove the size breakdown (e.g. S, M, L). Continue?'
-                )
-              }
-            />
 
-            {/* ── Divider ── */}
-            <div className="h-px bg-slate-100" />
+            {/* ── Section: Stock & Sizes (on the colours once it has some) ── */}
+            {!hasColors && (
+              <>
+                {(errors as any).sizes && (
+                  <div className="px-3.5 py-2.5 rounded-xl bg-red-50 border border-red-100 text-[13px] font-medium text-red-600 mb-2">
+                    {(errors as any).sizes}
+                  </div>
+                )}
+                <SizesSection
+                  value={form.sizes}
+                  sizeCodes={sizeCodes}
+                  onChange={sizes => set('sizes', sizes)}
+                  showValidation={attempted}
+                  onConfirmRemoveSizeBreakdown={() =>
+                    window.confirm(
+                      'Switch to one size? This will remove the size breakdown (e.g. S, M, L). Continue?'
+                    )
+                  }
+                />
+                <div className="h-px bg-slate-100" />
+              </>
+            )}
 
             {/* ── Section: Location & Supplier (collapsible) ── */}
             <div>
@@ -997,6 +1312,35 @@ export default function ProductModal({
               )}
             </div>
 
+            {/* ── Section: Stock card (edit only, collapsible; loads when opened) ── */}
+            {isEdit && product?.id && defaultWarehouseId && (
+              <>
+                <div className="h-px bg-slate-100" />
+                <div>
+                  <button
+                    type="button"
+                    onClick={() => setStockCardOpen(o => !o)}
+                    className="
+                      w-full flex items-center justify-between
+                      text-[13px] font-semibold text-slate-500 uppercase tracking-wide
+                      py-1
+                    "
+                  >
+                    <span>Stock card</span>
+                    <IconChevron open={stockCardOpen} />
+                  </button>
+
+                  {stockCardOpen && (
+                    <StockCard
+                      warehouseId={defaultWarehouseId}
+                      productId={product.id}
+                      sizeCodes={(product.quantityBySize ?? []).map(s => s.sizeCode)}
+                    />
+                  )}
+                </div>
+              </>
+            )}
+
             {/* Bottom padding for sticky footer */}
             <div className="h-4" />
           </form>
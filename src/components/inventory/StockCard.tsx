@@ -0,0 +1,137 @@
+// ============================================================
+// StockCard.tsx
+// File: warehouse-pos/src/components/inventory/StockCard.tsx
+//
+// Stock card for one product at one warehouse: every stock change from the
+// server's stock ledger with the running balance, newest first.
+// - Lane picker: all, one size, or the product-level quantity.
+// - Loads 50 entries at a time ("Show older").
+// - Only fetches while mounted; ProductModal mounts it when expanded.
+// ============================================================
+
+import { useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { queryKeys } from '../../lib/queryKeys';
+import { fetchStockCard, stockReferenceLabel, type StockLedgerEntry } from '../../services/stockLedgerApi';
+
+const PAGE_SIZE = 50;
+/** Lane values for the picker; any other value is a size code. */
+const ALL_LANES = '*';
+const PRODUCT_LANE = '';
+
+interface StockCardProps {
+  warehouseId: string;
+  productId: string;
+  /** Size codes the product has now; older sizes still show under "All". */
+  sizeCodes: string[];
+}
+
+function formatWhen(iso: string): string {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime())
+    ? iso
+    : d.toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+function EntryRow({ entry, showSize }: { entry: StockLedgerEntry; showSize: boolean }) {
+  const positive = entry.quantityDelta > 0;
+  return (
+    <li className="flex items-center gap-3 py-2.5 border-b border-slate-100 last:border-b-0">
+      <div className="flex-1 min-w-0">
+        <p className="text-[13px] font-semibold text-slate-800 truncate">
+          {stockReferenceLabel(entry.referenceType)}
+          {showSize && (
+            <span className="ml-1.5 text-[11px] font-mono font-medium text-slate-400">
+              {entry.sizeCode ?? 'total'}
+            </span>
+          )}
+        </p>
+        <p className="text-[11px] text-slate-400 truncate">
+          {formatWhen(entry.createdAt)}
+          {entry.actor ? ` · ${entry.actor}` : ''}
+        </p>
+      </div>
+      <span className={`text-[13px] font-bold tabular-nums ${positive ? 'text-emerald-600' : 'text-red-500'}`}>
+        {positive ? `+${entry.quantityDelta}` : entry.quantityDelta}
+      </span>
+      <span className="w-20 text-right text-[12px] text-slate-500 tabular-nums">
+        {entry.balanceBefore} → <span className="font-semibold text-slate-800">{entry.balanceAfter}</span>
+      </span>
+    </li>
+  );
+}
+
+export default function StockCard({ warehouseId, productId, sizeCodes }: StockCardProps) {
+  const [lane, setLane] = useState<string>(ALL_LANES);
+
+  const query = useInfiniteQuery({
+    queryKey: queryKeys.stockCard(warehouseId, productId, lane),
+    queryFn: ({ pageParam, signal }) =>
+      fetchStockCard(warehouseId, productId, {
+        sizeCode: lane === ALL_LANES ? undefined : lane === PRODUCT_LANE ? null : lane,
+        before: pageParam,
+        limit: PAGE_SIZE,
+        signal,
+      }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (last) => last.nextBefore,
+    staleTime: 30_000,
+  });
+
+  const entries = query.data?.pages.flatMap((p) => p.data) ?? [];
+
+  return (
+    <div className="flex flex-col gap-3 mt-4">
+      <select
+        value={lane}
+        onChange={(e) => setLane(e.target.value)}
+        aria-label="Stock card size"
+        className="
+          h-10 px-3 rounded-xl border-[1.5px] border-slate-200 bg-slate-50
+          text-[13px] font-medium text-slate-700 outline-none
+          focus:border-red-400 focus:bg-white
+        "
+      >
+        <option value={ALL_LANES}>All sizes</option>
+        {sizeCodes.map((code) => (
+          <option key={code} value={code}>{code}</option>
+        ))}
+        <option value={PRODUCT_LANE}>{sizeCodes.length > 0 ? 'Total only (no size)' : 'Quantity'}</option>
+      </select>
+
+      {query.isLoading ? (
+        <p className="text-[13px] text-slate-400 py-2">Loading stock card…</p>
+      ) : query.isError ? (
+        <p className="text-[13px] text-red-500 py-2">
+          Couldn&apos;t load the stock card.{' '}
+          <button type="button" onClick={() => query.refetch()} className="font-semibold underline">
+            Retry
+          </button>
+        </p>
+      ) : entries.length === 0 ? (
+        <p className="text-[13px] text-slate-400 py-2">No stock changes recorded yet.</p>
+      ) : (
+        <ul className="flex flex-col">
+          {entries.map((entry) => (
+            <EntryRow key={entry.id} entry={entry} showSize={lane === ALL_LANES && sizeCodes.length > 0} />
+          ))}
+        </ul>
+      )}
+
+      {query.hasNextPage && (
+        <button
+          type="button"
+          onClick={() => query.fetchNextPage()}
+          disabled={query.isFetchingNextPage}
+          className="
+            h-9 rounded-xl border border-slate-200 bg-white
+            text-[12px] font-semibold text-slate-500
+            hover:bg-slate-50 disabled:opacity-50
+          "
+        >
+          {query.isFetchingNextPage ? 'Loading…' : 'Show older'}
+        </button>
+      )}
+    </div>
+  );
+}
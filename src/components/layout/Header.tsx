@@ -69,6 +69,14 @@ export function Header() {
     '/orders': 'Orders',
     '/sales': 'Sales',
     '/deliveries': 'Deliveries',
+    '/customers': 'Customers',
+    '/promotions': 'Promotions',
+    '/transfers': 'Transfers',
+    '/receiving': 'Receiving',
+    '/purchasing': 'Purchasing',
+    '/stock-take': 'Stock take',
+    '/reconciliation': 'Stock reconciliation',
+    '/import': 'Import products',
     '/reports': 'Reports',
     '/users': 'Users',
     '/settings': 'Settings',
@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from 'react';
+import type { QuaggaJSResultObject } from '@ericblade/quagga2';
+
+/**
+ * Camera barcode scanner (EAN-13/8, UPC-A/E, Code 128) for the POS.
+ * Quagga is loaded on demand so the main POS bundle doesn't carry the decoder.
+ * A code must be read twice in a row before it is reported — single-frame reads
+ * on glossy labels are often wrong by one digit.
+ */
+
+interface CameraScannerSheetProps {
+  open: boolean;
+  /** Called once per confirmed code. The sheet stays open so the cashier can keep scanning. */
+  onDetected: (code: string) => void;
+  onClose: () => void;
+}
+
+const READERS = ['ean_reader', 'ean_8_reader', 'upc_reader', 'upc_e_reader', 'code_128_reader'] as const;
+/**
+ * The last added code is ignored until it has been out of sight this long: every sighting restarts the window, so an
+ * item held in front of the lens is added once.
+ */
+const REPEAT_COOLDOWN_MS = 1500;
+
+export default function CameraScannerSheet({ open, onDetected, onClose }: CameraScannerSheetProps) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  const [error, setError] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [lastCode, setLastCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    onDetectedRef.current = onDetected;
+  }, [onDetected]);
+
+  useEffect(() => {
+    if (!open) return;
+    const target = viewportRef.current;
+    if (!target) return;
+
+    let cancelled = false;
+    let started = false;
+    let lastRead: string | null = null;
+    let lastEmitted: { code: string; seenAt: number } | null = null;
+    let quagga: typeof import('@ericblade/quagga2').default | null = null;
+
+    const handleDetected = (result: QuaggaJSResultObject) => {
+      const code = result.codeResult?.code?.trim();
+      if (!code) return;
+      const now = Date.now();
+      if (lastEmitted && lastEmitted.code === code && now - lastEmitted.seenAt < REPEAT_COOLDOWN_MS) {
+        lastEmitted.seenAt = now;
+        return;
+      }
+      if (lastRead !== code) {
+        lastRead = code;
+        return;
+      }
+      lastEmitted = { code, seenAt: now };
+      lastRead = null;
+      setLastCode(code);
+      onDetectedRef.current(code);
+    };
+
+    setError(null);
+    setLastCode(null);
+    setStarting(true);
+    import('@ericblade/quagga2')
+      .then(async (mod) => {
+        if (cancelled) return;
+        quagga = mod.default;
+        await quagga.init({
+          inputStream: {
+            type: 'LiveStream',
+            target,
+            constraints: { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 720 } },
+          },
+          locator: { patchSize: 'medium', halfSample: true },
+          decoder: { readers: [...READERS] },
+          locate: true,
+        });
+        if (cancelled) {
+          void quagga.stop();
+          return;
+        }
+        quagga.onDetected(handleDetected);
+        quagga.start();
+        started = true;
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        const name = err instanceof Error ? err.name : '';
+        setError(
+          name === 'NotAllowedError'
+            ? 'Camera permission denied. Allow camera access in your browser settings.'
+            : name === 'NotFoundError'
+              ? 'No camera found on this device.'
+              : 'Could not start the camera.'
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setStarting(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (quagga) {
+        quagga.offDetected(handleDetected);
+        if (started) void quagga.stop();
+      }
+    };
+  }, [open]);
+
+  if (!open) return null;
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-slate-900/70" onClick={onClose} aria-hidden />
+      <div
+        className="fixed bottom-0 left-0 right-0 z-50 rounded-t-2xl bg-white shadow-xl sm:left-1/2 sm:right-auto sm:bottom-auto sm:top-1/2 sm:w-[480px] sm:-translate-x-1/2 sm:-translate-y-1/2 sm:rounded-2xl"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Scan barcode with camera"
+      >
+        <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
+          <h3 className="font-semibold text-slate-900">Scan barcode</h3>
+          <button type="button" onClick={onClose} className="p-2 text-slate-500 hover:text-slate-700" aria-label="Close scanner">
+            ✕
+          </button>
+        </div>
+        <div className="p-4">
+          <div
+            ref={viewportRef}
+            className="relative aspect-[4/3] w-full overflow-hidden rounded-xl bg-slate-900 [&_canvas]:absolute [&_canvas]:inset-0 [&_canvas]:h-full [&_canvas]:w-full [&_video]:h-full [&_video]:w-full [&_video]:object-cover"
+          >
+            {starting && !error && (
+              <p className="absolute inset-0 flex items-center justify-center text-sm text-white/80">Starting camera…</p>
+            )}
+            <span className="pointer-events-none absolute left-[10%] right-[10%] top-1/2 h-0.5 -translate-y-1/2 bg-[var(--edk-red)] opacity-80" aria-hidden />
+          </div>
+          {error ? (
+            <p className="mt-3 text-sm text-red-600" role="alert">{error}</p>
+          ) : (
+            <p className="mt-3 text-sm text-slate-600">Hold the barcode steady inside the frame. Each item is added as it is read.</p>
+          )}
+          {lastCode && (
+            <p className="mt-1 text-xs font-mono text-slate-500" aria-live="polite">Last read: {lastCode}</p>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
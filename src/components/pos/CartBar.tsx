@@ -11,6 +11,10 @@ export interface CartLine {
 
 interface CartBarProps {
   lines: CartLine[];
+  /** GH₵ taken off by promotions. */
+  discount?: number;
+  /** GH₵ of tax-exclusive classes added on top. */
+  taxAdded?: number;
   onOpen: () => void;
 }
 
@@ -18,9 +22,9 @@ function fmt(n: number): string {
   return `GH₵${Number(n).toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 }
 
-export default function CartBar({ lines, onOpen }: CartBarProps) {
+export default function CartBar({ lines, discount = 0, taxAdded = 0, onOpen }: CartBarProps) {
   const count = lines.reduce((s, l) => s + l.qty, 0);
-  const total = lines.reduce((s, l) => s + l.unitPrice * l.qty, 0);
+  const total = Math.max(0, lines.reduce((s, l) => s + l.unitPrice * l.qty, 0) - discount + taxAdded);
 
   if (count === 0) return null;
 
@@ -1,4 +1,26 @@
 import { useState, useEffect, useRef } from 'react';
+import CustomerLookup from './CustomerLookup';
+import type { CustomerRecord } from '../../services/customersApi';
+import {
+  balanceTenderAmounts,
+  checkBalanceTender,
+  isBalanceTender,
+  tenderAvailable,
+} from '../../services/loyaltyApi';
+import type { Promotion } from '../../services/promotionsApi';
+import { applyPromotions } from '../../lib/promotions';
+import { discountNeedsApproval, type RoleLimits } from '../../services/managerApprovalApi';
+import ManagerApprovalSheet from './ManagerApprovalSheet';
+import {
+  coversMobileMoney,
+  fetchMobileMoneyPayment,
+  mobileMoneyAmount,
+  type MobileMoneyPayment,
+} from '../../services/mobileMoneyApi';
+import MobileMoneySheet from './MobileMoneySheet';
+import { parseDeposit } from '../../services/layawayApi';
+import type { SaleTax, TaxSetup } from '../../services/taxApi';
+import { cartTax, FALLBACK_TAX_SETUP, taxComponentLabel } from '../../lib/tax';
 
 export interface CartLine {
   key: string;
@@ -11,6 +33,10 @@ export interface CartLine {
   qty: number;
   /** Product image URL for receipt / API (e.g. first of warehouse_products.images). */
   imageUrl?: string | null;
+  /** Product category, for category-wide promotions and the category's tax class. */
+  category?: string | null;
+  /** The product's own tax class, if it has one. */
+  taxClassId?: string | null;
 }
 
 /** Optional delivery schedule captured at checkout. When set, sale is recorded with delivery_status = 'pending'. */
@@ -22,17 +48,21 @@ export interface DeliverySchedule {
   deliveryNotes?: string | null;
 }
 
-/** Single payment leg for mixed payments. */
-export type PaymentMethodType = 'cash' | 'card' | 'mobile_money';
+/** Single payment leg for mixed payments. points / store_credit need a directory customer. */
+export type PaymentMethodType = 'cash' | 'card' | 'mobile_money' | 'points' | 'store_credit';
 
 export interface SalePayload {
   warehouseId: string;
+  /** Customer directory id when a customer was picked at checkout. */
+  customerId?: string | null;
   customerName?: string | null;
   /** When set, receipt is emailed to this address after the sale. */
   customerEmail?: string | null;
   paymentMethod: string;
   /** When paymentMethod === 'mixed', required: amounts per method that sum to total. */
-  payments?: Array<{ method: PaymentMethodType; amount: number }>;
+  payments?: Array<{ method: PaymentMethodType; amount: number; mobileMoneyPaymentId?: string }>;
+  /** Paid mobile money prompt when paymentMethod === 'mobile_money' (mixed: on the mobile_money leg). */
+  mobileMoneyPaymentId?: string | null;
   subtotal: number;
   discountPct: number;
   discountAmt: number;
@@ -46,9 +76,21 @@ export interface SalePayload {
     sku: string;
     sizeLabel?: string | null;
     imageUrl?: string | null;
+    /** Set when a promotion priced the line; discountAmt is off unitPrice × qty. */
+    promotionId?: string | null;
+    promotionName?: string | null;
+    discountAmt?: number;
   }>;
   /** When present, sale is recorded as delivery (pending) with expected date/recipient. */
   deliverySchedule?: DeliverySchedule | null;
+  /** Manager approval token when discountPct is over the cashier's limit. */
+  managerApproval?: string | null;
+  /** Open till session on this device; set by POSPage, not the cart. */
+  tillSessionId?: string | null;
+  /** Layaway: the payment above is this deposit; stock is held until the rest is paid. */
+  layawayDeposit?: number | null;
+  /** Tax as the cart worked it out (total includes `added`). For the receipt; the server records its own per line. */
+  tax?: SaleTax | null;
 }
 
 interface CartSheetProps {
@@ -57,6 +99,16 @@ interface CartSheetProps {
   warehouseId: string;
   /** When false, charge is disabled and button shows "Loading...". Prevents sale with unloaded warehouse. */
   isWarehouseReady?: boolean;
+  /** Promotions running at the warehouse; applied to the lines automatically. */
+  promotions?: Promotion[];
+  /** The signed-in role's limits; a discount above maxDiscountPct asks for a manager PIN before charging. */
+  roleLimits?: RoleLimits | null;
+  /** Collect the mobile money part with a prompt to the customer's phone before charging (provider set up, online). */
+  mobileMoneyPrompt?: boolean;
+  /** Offer "Layaway" (deposit now, stock held). Online only: the server checks the deposit. */
+  layawayEnabled?: boolean;
+  /** Tax classes; the standard rate (prices include tax) until they have loaded. */
+  taxSetup?: TaxSetup | null;
   onUpdateQty: (key: string, delta: number) => void;
   onRemoveLine: (key: string) => void;
   onClearCart: () => void;
@@ -64,19 +116,29 @@ interface CartSheetProps {
   onClose: () => void;
 }
 
-const PAYMENT_OPTIONS = ['cash', 'card', 'mobile_money', 'mixed'] as const;
+/** points / store_credit are only offered once a customer with that balance is picked. */
+const PAYMENT_OPTIONS = ['cash', 'card', 'mobile_money', 'mixed', 'points', 'store_credit'] as const;
 
 const MIX_LABELS: Record<PaymentMethodType, string> = {
   cash: 'Cash (GH₵)',
   card: 'Card (GH₵)',
   mobile_money: 'Mobile Money (GH₵)',
+  points: 'Loyalty points (GH₵)',
+  store_credit: 'Store credit (GH₵)',
 };
 
+const MONEY_LEGS = ['cash', 'card', 'mobile_money'] as const;
+
 export default function CartSheet({
   isOpen,
   lines,
   warehouseId,
   isWarehouseReady = true,
+  promotions = [],
+  roleLimits = null,
+  mobileMoneyPrompt = false,
+  layawayEnabled = false,
+  taxSetup = null,
   onUpdateQty,
   onRemoveLine,
   onClearCart,
@@ -89,10 +151,21 @@ export default function CartSheet({
     cash: '',
     card: '',
     mobile_money: '',
+    points: '',
+    store_credit: '',
   });
   const [customerName, setCustomerName] = useState('');
   const [customerEmail, setCustomerEmail] = useState('');
+  const [customer, setCustomer] = useState<CustomerRecord | null>(null);
   const [discountPct, setDiscountPct] = useState(0);
+  /** Approval for discounts up to `pct` until it expires; a higher discount needs a new one. */
+  const [approval, setApproval] = useState<{ token: string; pct: number; expiresAt: string } | null>(null);
+  const [approvalOpen, setApprovalOpen] = useState(false);
+  /** Last paid prompt. Kept across a failed sale (the cart is emptied optimistically) so it is not collected twice. */
+  const [momoPayment, setMomoPayment] = useState<MobileMoneyPayment | null>(null);
+  const [momoOpen, setMomoOpen] = useState(false);
+  /** Approval token to charge with once the mobile money prompt is paid. */
+  const momoApprovalRef = useRef<string | null>(null);
   const [charging, setCharging] = useState(false);
   const [chargingLonger, setChargingLonger] = useState(false);
   useEffect(() => {
@@ -110,30 +183,69 @@ export default function CartSheet({
   const [recipientPhone, setRecipientPhone] = useState('');
   const [deliveryAddress, setDeliveryAddress] = useState('');
   const [deliveryNotes, setDeliveryNotes] = useState('');
+  const [layawayRequested, setLayawayRequested] = useState(false);
+  const [depositInput, setDepositInput] = useState('');
 
   const lastChargeTapRef = useRef(0);
 
+  // Cart emptied (sale completed or cleared): the next sale must not inherit the previous customer.
+  const cartEmpty = lines.length === 0;
+  useEffect(() => {
+    if (!cartEmpty) return;
+    setCustomer(null);
+    setCustomerName('');
+    setCustomerEmail('');
+    setApproval(null);
+    setLayawayRequested(false);
+    setDepositInput('');
+  }, [cartEmpty]);
+
+  // Balances belong to the picked customer: drop balance tenders when the customer is removed or changed.
+  const customerId = customer?.id ?? null;
+  useEffect(() => {
+    setPaymentMethod((m) => (isBalanceTender(m) ? 'cash' : m));
+    setMixedAmounts((prev) => ({ ...prev, points: '', store_credit: '' }));
+  }, [customerId]);
+
   if (!isOpen) return null;
 
-  const subtotal = lines.reduce((s, l) => s + l.unitPrice * l.qty, 0);
+  // Promotions price the lines first; the cashier's discount % applies to what is left.
+  const applied = applyPromotions(lines, promotions, { warehouseId });
+  const grossSubtotal = lines.reduce((s, l) => s + l.unitPrice * l.qty, 0);
+  const promotionDiscount = Math.round(Object.values(applied).reduce((s, a) => s + a.discountAmt, 0) * 100) / 100;
+  const subtotal = Math.max(0, grossSubtotal - promotionDiscount);
   const discountAmt = (subtotal * discountPct) / 100;
-  const total = Math.max(0, subtotal - discountAmt);
+  // Tax-exclusive classes are added on top; inclusive tax is already in the prices.
+  const tax = cartTax(
+    lines.map((l) => ({ ...l, amount: l.unitPrice * l.qty - (applied[l.key]?.discountAmt ?? 0) })),
+    taxSetup ?? FALLBACK_TAX_SETUP,
+    discountPct
+  );
+  const total = Math.max(0, Math.round((subtotal - discountAmt + tax.added) * 100) / 100);
+
+  // Layaway: the payment is the deposit. Points and store credit are not taken as deposits.
+  const isLayaway = layawayEnabled && layawayRequested && !deliveryRequested;
+  const deposit = isLayaway ? parseDeposit(depositInput, total) : null;
+  const payNow = deposit ?? total;
+  const layawayBlocked = isLayaway && (deposit == null || (customer == null && !customerName.trim()));
 
-  const mixedSum = (() => {
-    const c = parseFloat(mixedAmounts.cash) || 0;
-    const d = parseFloat(mixedAmounts.card) || 0;
-    const m = parseFloat(mixedAmounts.mobile_money) || 0;
-    return Math.round((c + d + m) * 100) / 100;
-  })();
-  const isMixedValid = paymentMethod !== 'mixed' || (mixedSum > 0 && Math.abs(mixedSum - total) < 0.01);
+  const balanceLegs = (['points', 'store_credit'] as const).filter((m) => !isLayaway && tenderAvailable(customer, m) > 0);
+  const paymentOptions = PAYMENT_OPTIONS.filter((opt) => !isBalanceTender(opt) || balanceLegs.includes(opt));
+  const mixLegs: PaymentMethodType[] = [...MONEY_LEGS, ...balanceLegs];
+
+  const mixedSum = Math.round(mixLegs.reduce((s, m) => s + (parseFloat(mixedAmounts[m]) || 0), 0) * 100) / 100;
+  const isMixedValid = paymentMethod !== 'mixed' || (mixedSum > 0 && Math.abs(mixedSum - payNow) < 0.01);
   const mixedPaymentsArray: Array<{ method: PaymentMethodType; amount: number }> =
     paymentMethod === 'mixed'
-      ? ([
-          { method: 'cash' as const, amount: parseFloat(mixedAmounts.cash) || 0 },
-          { method: 'card' as const, amount: parseFloat(mixedAmounts.card) || 0 },
-          { method: 'mobile_money' as const, amount: parseFloat(mixedAmounts.mobile_money) || 0 },
-        ].filter((p) => p.amount > 0) as Array<{ method: PaymentMethodType; amount: number }>)
+      ? mixLegs
+          .map((method) => ({ method, amount: parseFloat(mixedAmounts[method]) || 0 }))
+          .filter((p) => p.amount > 0)
       : [];
+  const balanceError = checkBalanceTender(customer, balanceTenderAmounts(paymentMethod, payNow, mixedPaymentsArray));
+
+  const approvalValid = approval != null && approval.pct >= discountPct && Date.parse(approval.expiresAt) > Date.now();
+  const needsApproval = discountNeedsApproval(roleLimits, discountPct) && !approvalValid;
+  const momoDue = mobileMoneyPrompt ? mobileMoneyAmount(paymentMethod, payNow, mixedPaymentsArray) : 0;
 
   const handleCharge = async () => {
     const now = Date.now();
@@ -141,9 +253,37 @@ export default function CartSheet({
     lastChargeTapRef.current = now;
     if (!warehouseId || !isWarehouseReady || lines.length === 0 || charging) return;
     if (paymentMethod === 'mixed' && !isMixedValid) return;
+    if (balanceError || layawayBlocked) return;
+    if (needsApproval) {
+      setApprovalOpen(true);
+      return;
+    }
+    await collectAndCharge(approvalValid && discountNeedsApproval(roleLimits, discountPct) ? (approval?.token ?? null) : null);
+  };
+
+  /** Sends the mobile money prompt first when part of the sale is paid that way; reuses a paid, unused one. */
+  const collectAndCharge = async (managerApproval: string | null) => {
+    if (momoDue <= 0) {
+      await charge(managerApproval, null);
+      return;
+    }
+    let kept = momoPayment;
+    if (kept && coversMobileMoney(kept, momoDue)) {
+      kept = await fetchMobileMoneyPayment(kept.id).catch(() => kept);
+      setMomoPayment(kept);
+    }
+    if (coversMobileMoney(kept, momoDue)) {
+      await charge(managerApproval, kept);
+      return;
+    }
+    momoApprovalRef.current = managerApproval;
+    setMomoOpen(true);
+  };
+
+  const charge = async (managerApproval: string | null, momo: MobileMoneyPayment | null) => {
     setCharging(true);
     try {
-      const deliverySchedule: DeliverySchedule | null = deliveryRequested
+      const deliverySchedule: DeliverySchedule | null = deliveryRequested && !isLayaway
         ? {
             expectedDate: deliveryAsap ? null : (expectedDate.trim() || null),
             recipientName: recipientName.trim() || null,
@@ -155,10 +295,15 @@ export default function CartSheet({
 
       await onCharge({
         warehouseId,
-        customerName: customerName.trim() || null,
+        customerId: customer?.id ?? null,
+        customerName: customer?.name ?? (customerName.trim() || null),
         customerEmail: customerEmail.trim() || null,
         paymentMethod,
-        payments: paymentMethod === 'mixed' ? mixedPaymentsArray : undefined,
+        payments:
+          paymentMethod === 'mixed'
+            ? mixedPaymentsArray.map((p) => (momo && p.method === 'mobile_money' ? { ...p, mobileMoneyPaymentId: momo.id } : p))
+            : undefined,
+        mobileMoneyPaymentId: momo && paymentMethod === 'mobile_money' ? momo.id : null,
         subtotal,
         discountPct,
         discountAmt,
@@ -172,8 +317,14 @@ export default function CartSheet({
           sku: l.sku,
           sizeLabel: l.sizeLabel,
           imageUrl: l.imageUrl ?? null,
+          promotionId: applied[l.key]?.promotionId ?? null,
+          promotionName: applied[l.key]?.promotionName ?? null,
+          discountAmt: applied[l.key]?.discountAmt ?? 0,
         })),
         deliverySchedule: deliverySchedule ?? undefined,
+        managerApproval,
+        layawayDeposit: deposit,
+        tax,
       });
     } finally {
       setCharging(false);
@@ -209,52 +360,66 @@ export default function CartSheet({
         </div>
         <div className="p-4 space-y-4">
           <ul className="space-y-2">
-            {lines.map((l) => (
-              <li key={l.key} className="flex items-center justify-between gap-2 rounded-xl bg-[var(--edk-bg)] p-3">
-                <div className="min-w-0 flex-1">
-                  <span className="font-medium text-[var(--edk-ink)] text-[13px]">{l.name}</span>
-                  {l.sizeLabel && <span className="ml-1 text-[11px] text-[var(--edk-ink-3)]">({l.sizeLabel})</span>}
-                  <div className="mt-1 flex items-center gap-2">
-                    <button
-                      type="button"
-                      onClick={() => onUpdateQty(l.key, -1)}
-                      className="min-h-[44px] min-w-[44px] flex items-center justify-center rounded border border-[var(--edk-border-mid)] text-[14px] font-semibold touch-manipulation"
-                    >
-                      −
-                    </button>
-                    <span className="w-8 text-center text-[13px] font-semibold">{l.qty}</span>
-                    <button
-                      type="button"
-                      onClick={() => onUpdateQty(l.key, 1)}
-                      className="min-h-[44px] min-w-[44px] flex items-center justify-center rounded border border-[var(--edk-border-mid)] text-[14px] font-semibold touch-manipulation"
-                    >
-                      +
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => onRemoveLine(l.key)}
-                      className="ml-2 min-h-[44px] flex items-center text-[11px] font-medium text-[var(--edk-red)] hover:underline"
-                    >
-                      Remove
-                    </button>
+            {lines.map((l) => {
+              const promo = applied[l.key];
+              return (
+                <li key={l.key} className="flex items-center justify-between gap-2 rounded-xl bg-[var(--edk-bg)] p-3">
+                  <div className="min-w-0 flex-1">
+                    <span className="font-medium text-[var(--edk-ink)] text-[13px]">{l.name}</span>
+                    {l.sizeLabel && <span className="ml-1 text-[11px] text-[var(--edk-ink-3)]">({l.sizeLabel})</span>}
+                    {promo && (
+                      <p className="mt-0.5 text-[11px] font-semibold text-emerald-700">
+                        {promo.promotionName} · −GH₵{promo.discountAmt.toLocaleString('en-GH', { minimumFractionDigits: 2 })}
+                      </p>
+                    )}
+                    <div className="mt-1 flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => onUpdateQty(l.key, -1)}
+                        className="min-h-[44px] min-w-[44px] flex items-center justify-center rounded border border-[var(--edk-border-mid)] text-[14px] font-semibold touch-manipulation"
+                      >
+                        −
+                      </button>
+                      <span className="w-8 text-center text-[13px] font-semibold">{l.qty}</span>
+                      <button
+                        type="button"
+                        onClick={() => onUpdateQty(l.key, 1)}
+                        className="min-h-[44px] min-w-[44px] flex items-center justify-center rounded border border-[var(--edk-border-mid)] text-[14px] font-semibold touch-manipulation"
+                      >
+                        +
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onRemoveLine(l.key)}
+                        className="ml-2 min-h-[44px] flex items-center text-[11px] font-medium text-[var(--edk-red)] hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </div>
                   </div>
-                </div>
-                <span className="font-extrabold text-[var(--edk-red)] text-[14px]" style={{ fontFamily: "'Barlow Condensed', sans-serif" }}>
-                  GH₵{(l.unitPrice * l.qty).toLocaleString('en-GH', { minimumFractionDigits: 2 })}
-                </span>
-              </li>
-            ))}
+                  <div className="text-right">
+                    {promo && (
+                      <span className="block text-[11px] text-[var(--edk-ink-3)] line-through">
+                        GH₵{(l.unitPrice * l.qty).toLocaleString('en-GH', { minimumFractionDigits: 2 })}
+                      </span>
+                    )}
+                    <span className="font-extrabold text-[var(--edk-red)] text-[14px]" style={{ fontFamily: "'Barlow Condensed', sans-serif" }}>
+                      GH₵{(l.unitPrice * l.qty - (promo?.discountAmt ?? 0)).toLocaleString('en-GH', { minimumFractionDigits: 2 })}
+                    </span>
+                  </div>
+                </li>
+              );
+            })}
           </ul>
-          <div>
-            <label className="block text-sm font-medium text-slate-700">Customer (optional)</label>
-            <input
-              type="text"
-              value={customerName}
-              onChange={(e) => setCustomerName(e.target.value)}
-              placeholder="Name"
-              className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm"
-            />
-          </div>
+          <CustomerLookup
+            name={customerName}
+            onNameChange={setCustomerName}
+            selected={customer}
+            onSelect={(c) => {
+              setCustomer(c);
+              if (c?.email && !customerEmail.trim()) setCustomerEmail(c.email);
+            }}
+          />
           <div>
             <label className="block text-sm font-medium text-slate-700">Email receipt (optional)</label>
             <input
@@ -268,87 +433,130 @@ export default function CartSheet({
           </div>
 
           {/* Schedule for delivery — optional; when set, sale is recorded as delivery (pending). */}
-          <div className="space-y-3 rounded-xl border border-slate-200 bg-slate-50/60 p-3">
-            <label className="flex cursor-pointer items-center gap-2">
-              <input
-                type="checkbox"
-                checked={deliveryRequested}
-                onChange={(e) => setDeliveryRequested(e.target.checked)}
-                className="h-4 w-4 rounded border-slate-300"
-              />
-              <span className="text-sm font-medium text-slate-700">Schedule for delivery</span>
-            </label>
-            {deliveryRequested && (
-              <>
-                <label className="flex cursor-pointer items-center gap-2">
-                  <input
-                    type="checkbox"
-                    checked={deliveryAsap}
-                    onChange={(e) => setDeliveryAsap(e.target.checked)}
-                    className="h-4 w-4 rounded border-slate-300"
-                  />
-                  <span className="text-sm text-slate-600">ASAP (no specific date)</span>
-                </label>
-                {!deliveryAsap && (
+          {!isLayaway && (
+            <div className="space-y-3 rounded-xl border border-slate-200 bg-slate-50/60 p-3">
+              <label className="flex cursor-pointer items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={deliveryRequested}
+                  onChange={(e) => setDeliveryRequested(e.target.checked)}
+                  className="h-4 w-4 rounded border-slate-300"
+                />
+                <span className="text-sm font-medium text-slate-700">Schedule for delivery</span>
+              </label>
+              {deliveryRequested && (
+                <>
+                  <label className="flex cursor-pointer items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={deliveryAsap}
+                      onChange={(e) => setDeliveryAsap(e.target.checked)}
+                      className="h-4 w-4 rounded border-slate-300"
+                    />
+                    <span className="text-sm text-slate-600">ASAP (no specific date)</span>
+                  </label>
+                  {!deliveryAsap && (
+                    <div>
+                      <label className="block text-xs font-medium text-slate-500">Preferred date</label>
+                      <input
+                        type="date"
+                        value={expectedDate}
+                        onChange={(e) => setExpectedDate(e.target.value)}
+                        min={new Date().toISOString().slice(0, 10)}
+                        className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm"
+                      />
+                    </div>
+                  )}
                   <div>
-                    <label className="block text-xs font-medium text-slate-500">Preferred date</label>
+                    <label className="block text-xs font-medium text-slate-500">Recipient name</label>
                     <input
-                      type="date"
-                      value={expectedDate}
-                      onChange={(e) => setExpectedDate(e.target.value)}
-                      min={new Date().toISOString().slice(0, 10)}
+                      type="text"
+                      value={recipientName}
+                      onChange={(e) => setRecipientName(e.target.value)}
+                      placeholder="Full name"
                       className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm"
                     />
                   </div>
-                )}
-                <div>
-                  <label className="block text-xs font-medium text-slate-500">Recipient name</label>
-                  <input
-                    type="text"
-                    value={recipientName}
-                    onChange={(e) => setRecipientName(e.target.value)}
-                    placeholder="Full name"
-                    className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm"
-                  />
-                </div>
-                <div>
-                  <label className="block text-xs font-medium text-slate-500">Phone</label>
-                  <input
-                    type="tel"
-                    value={recipientPhone}
-                    onChange={(e) => setRecipientPhone(e.target.value)}
-                    placeholder="e.g. 0244 XXX XXX"
-                    className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm"
-                  />
-                </div>
-                <div>
-                  <label className="block text-xs font-medium text-slate-500">Delivery address</label>
-                  <textarea
-                    value={deliveryAddress}
-                    onChange={(e) => setDeliveryAddress(e.target.value)}
-                    placeholder="Street, area, landmark"
-                    rows={2}
-                    className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm"
-                  />
-                </div>
-                <div>
-                  <label className="block text-xs font-medium text-slate-500">Notes (optional)</label>
-                  <input
-                    type="text"
-                    value={deliveryNotes}
-                    onChange={(e) => setDeliveryNotes(e.target.value)}
-                    placeholder="Gate code, time window, etc."
-                    className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm"
-                  />
-                </div>
-              </>
-            )}
-          </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-500">Phone</label>
+                    <input
+                      type="tel"
+                      value={recipientPhone}
+                      onChange={(e) => setRecipientPhone(e.target.value)}
+                      placeholder="e.g. 0244 XXX XXX"
+                      className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-500">Delivery address</label>
+                    <textarea
+                      value={deliveryAddress}
+                      onChange={(e) => setDeliveryAddress(e.target.value)}
+                      placeholder="Street, area, landmark"
+                      rows={2}
+                      className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-500">Notes (optional)</label>
+                    <input
+                      type="text"
+                      value={deliveryNotes}
+                      onChange={(e) => setDeliveryNotes(e.target.value)}
+                      placeholder="Gate code, time window, etc."
+                      className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {layawayEnabled && !deliveryRequested && (
+            <div className="space-y-2 rounded-xl border border-slate-200 bg-slate-50/60 p-3">
+              <label className="flex cursor-pointer items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={layawayRequested}
+                  onChange={(e) => setLayawayRequested(e.target.checked)}
+                  className="h-4 w-4 rounded border-slate-300"
+                />
+                <span className="text-sm font-medium text-slate-700">Layaway (deposit now, pay the rest later)</span>
+              </label>
+              {layawayRequested && (
+                <>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-500">Deposit (GH₵)</label>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      step={0.01}
+                      value={depositInput}
+                      onChange={(e) => setDepositInput(e.target.value)}
+                      placeholder="0.00"
+                      className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm"
+                    />
+                  </div>
+                  {deposit != null ? (
+                    <p className="text-xs text-slate-600">
+                      Balance due later: GH₵{(total - deposit).toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}. The items are held until it is paid.
+                    </p>
+                  ) : (
+                    <p className="text-xs font-medium text-amber-600">The deposit must be more than 0 and less than the total.</p>
+                  )}
+                  {customer == null && !customerName.trim() && (
+                    <p className="text-xs font-medium text-amber-600">Pick or name the customer for a layaway.</p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
 
           <div>
             <label className="block text-sm font-medium text-slate-700">Payment</label>
             <div className="mt-1 flex flex-wrap gap-2">
-              {PAYMENT_OPTIONS.map((opt) => (
+              {paymentOptions.map((opt) => (
                 <button
                   key={opt}
                   type="button"
@@ -358,13 +566,18 @@ export default function CartSheet({
                   }`}
                 >
                   {opt.replace('_', ' ')}
+                  {isBalanceTender(opt) && (
+                    <span className="ml-1 text-xs opacity-75">
+                      (GH₵{tenderAvailable(customer, opt).toLocaleString('en-GH', { minimumFractionDigits: 2 })})
+                    </span>
+                  )}
                 </button>
               ))}
             </div>
             {paymentMethod === 'mixed' && (
               <div className="mt-3 space-y-2 rounded-xl border border-slate-200 bg-slate-50/60 p-3">
-                <p className="text-xs font-medium text-slate-600">Payment mix — amounts must equal total (GH₵{total.toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })})</p>
-                {(['cash', 'card', 'mobile_money'] as const).map((method) => (
+                <p className="text-xs font-medium text-slate-600">Payment mix — amounts must equal {isLayaway ? 'the deposit' : 'total'} (GH₵{payNow.toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })})</p>
+                {mixLegs.map((method) => (
                   <div key={method}>
                     <label className="block text-xs text-slate-500">{MIX_LABELS[method]}</label>
                     <input
@@ -382,10 +595,11 @@ export default function CartSheet({
                   </div>
                 ))}
                 <p className={`text-xs font-medium ${isMixedValid ? 'text-emerald-600' : 'text-amber-600'}`}>
-                  Sum: GH₵{mixedSum.toLocaleString('en-GH', { minimumFractionDigits: 2 })} {isMixedValid ? '✓' : '(must equal total)'}
+                  Sum: GH₵{mixedSum.toLocaleString('en-GH', { minimumFractionDigits: 2 })} {isMixedValid ? '✓' : isLayaway ? '(must equal deposit)' : '(must equal total)'}
                 </p>
               </div>
             )}
+            {balanceError && <p className="mt-2 text-xs font-medium text-amber-600">{balanceError}</p>}
           </div>
           <div>
             <label className="block text-sm font-medium text-slate-700">Discount %</label>
@@ -398,14 +612,37 @@ export default function CartSheet({
               onChange={(e) => setDiscountPct(Number(e.target.value) || 0)}
               className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm"
             />
+            {needsApproval && (
+              <p className="mt-1 text-xs font-medium text-amber-600">
+                Above your {roleLimits?.maxDiscountPct}% limit. A manager will enter their PIN when you charge.
+              </p>
+            )}
           </div>
           <div className="flex items-center justify-between border-t border-slate-200 pt-4">
             <div>
+              {promotionDiscount > 0 && (
+                <p className="text-sm text-emerald-700">
+                  Promotions −GH₵{promotionDiscount.toLocaleString('en-GH', { minimumFractionDigits: 2 })}
+                </p>
+              )}
               {discountPct > 0 && (
                 <p className="text-sm text-slate-500">
                   −GH₵{discountAmt.toLocaleString('en-GH', { minimumFractionDigits: 2 })}
                 </p>
               )}
+              {tax.added > 0 && (
+                <p className="text-sm text-slate-500">
+                  + Tax GH₵{tax.added.toLocaleString('en-GH', { minimumFractionDigits: 2 })}
+                </p>
+              )}
+              {tax.breakdown.length > 0 && (
+                <p className="text-xs text-slate-400">
+                  {tax.added > 0 ? 'Tax: ' : 'Incl. tax: '}
+                  {tax.breakdown
+                    .map((b) => `${taxComponentLabel(b)} GH₵${b.amount.toLocaleString('en-GH', { minimumFractionDigits: 2 })}`)
+                    .join(' · ')}
+                </p>
+              )}
               <p className="text-lg font-bold text-slate-900">
                 Total: GH₵{total.toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
               </p>
@@ -413,10 +650,16 @@ export default function CartSheet({
             <button
               type="button"
               onClick={handleCharge}
-              disabled={charging || lines.length === 0 || !warehouseId || !isWarehouseReady || !isMixedValid}
+              disabled={charging || lines.length === 0 || !warehouseId || !isWarehouseReady || !isMixedValid || balanceError != null || layawayBlocked}
               className="min-h-[44px] w-full rounded-[var(--edk-radius-sm)] bg-[var(--edk-red)] hover:bg-[var(--edk-red-hover)] px-6 py-3 font-bold text-white disabled:opacity-50 touch-manipulation"
             >
-              {!isWarehouseReady ? 'Loading…' : charging ? '…' : `Charge GH₵${total.toLocaleString('en-GH', { minimumFractionDigits: 2 })}`}
+              {!isWarehouseReady
+                ? 'Loading…'
+                : charging
+                  ? '…'
+                  : isLayaway
+                    ? `Take deposit GH₵${payNow.toLocaleString('en-GH', { minimumFractionDigits: 2 })}`
+                    : `Charge GH₵${total.toLocaleString('en-GH', { minimumFractionDigits: 2 })}`}
             </button>
             {chargingLonger && (
               <p className="text-xs text-slate-500 mt-2 text-center" role="status" aria-live="polite">
@@ -426,6 +669,31 @@ export default function CartSheet({
           </div>
         </div>
       </div>
+      <ManagerApprovalSheet
+        open={approvalOpen}
+        action="discount"
+        amount={discountPct}
+        warehouseId={warehouseId}
+        reason={`Discount of ${discountPct}% is above the ${roleLimits?.maxDiscountPct ?? 0}% limit for your role.`}
+        onCancel={() => setApprovalOpen(false)}
+        onApproved={(a) => {
+          setApproval({ token: a.token, pct: discountPct, expiresAt: a.expiresAt });
+          setApprovalOpen(false);
+          void collectAndCharge(a.token);
+        }}
+      />
+      <MobileMoneySheet
+        open={momoOpen}
+        warehouseId={warehouseId}
+        amount={momoDue}
+        defaultPhone={customer?.phone ?? null}
+        onCancel={() => setMomoOpen(false)}
+        onPaid={(p) => {
+          setMomoPayment(p);
+          setMomoOpen(false);
+          void charge(momoApprovalRef.current, p);
+        }}
+      />
     </>
   );
 }
@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+import {
+  createCustomer,
+  formatPhone,
+  normalizePhone,
+  searchCustomers,
+  type CustomerRecord,
+} from '../../services/customersApi';
+import { getUserFriendlyMessage } from '../../lib/errorMessages';
+
+interface CustomerLookupProps {
+  /** Free-text name (walk-in customer not in the directory). */
+  name: string;
+  onNameChange: (name: string) => void;
+  selected: CustomerRecord | null;
+  onSelect: (customer: CustomerRecord | null) => void;
+}
+
+/**
+ * Checkout customer field: type a name or phone to find a directory customer, or add one on the spot.
+ * Without a pick, the typed text is kept as the receipt's free-text customer name.
+ */
+export default function CustomerLookup({ name, onNameChange, selected, onSelect }: CustomerLookupProps) {
+  const [results, setResults] = useState<CustomerRecord[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newPhone, setNewPhone] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const q = name.trim();
+    if (selected || q.length < 2) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setSearching(true);
+      searchCustomers(q, 5)
+        .then((list) => { if (!cancelled) setResults(list); })
+        .catch(() => { if (!cancelled) setResults([]); })
+        .finally(() => { if (!cancelled) setSearching(false); });
+    }, 250);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [name, selected]);
+
+  function startAdding() {
+    const q = name.trim();
+    const looksLikePhone = /^[\d\s+()-]+$/.test(q);
+    setNewPhone(looksLikePhone ? q : '');
+    setNewName(looksLikePhone ? '' : q);
+    setError(null);
+    setAdding(true);
+  }
+
+  async function saveNew() {
+    if (!newName.trim() || !normalizePhone(newPhone)) {
+      setError('Name and a valid phone number are required.');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const customer = await createCustomer({ name: newName.trim(), phone: newPhone });
+      onSelect(customer);
+      setAdding(false);
+    } catch (e: unknown) {
+      setError(getUserFriendlyMessage(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (selected) {
+    return (
+      <div>
+        <label className="block text-sm font-medium text-slate-700">Customer</label>
+        <div className="mt-1 flex items-center justify-between gap-2 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
+          <div className="min-w-0">
+            <p className="truncate text-sm font-semibold text-slate-900">{selected.name}</p>
+            <p className="text-xs text-slate-500">
+              {formatPhone(selected.phone)} · {selected.visitCount} visit{selected.visitCount !== 1 ? 's' : ''} · GH₵
+              {selected.lifetimeSpend.toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            </p>
+            {(selected.pointsBalance > 0 || selected.storeCreditBalance > 0) && (
+              <p className="text-xs font-medium text-emerald-700">
+                {selected.pointsBalance.toLocaleString('en-GH')} pts
+                {selected.storeCreditBalance > 0 &&
+                  ` · GH₵${selected.storeCreditBalance.toLocaleString('en-GH', { minimumFractionDigits: 2 })} store credit`}
+              </p>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => onSelect(null)}
+            className="min-h-[44px] min-w-[44px] flex items-center justify-center rounded-lg text-slate-500 hover:bg-slate-100"
+            aria-label="Remove customer"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-700">Customer (optional)</label>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => onNameChange(e.target.value)}
+        placeholder="Name or phone"
+        className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm"
+      />
+      {results.length > 0 && (
+        <ul className="mt-1 divide-y divide-slate-100 rounded-lg border border-slate-200 bg-white">
+          {results.map((c) => (
+            <li key={c.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(c)}
+                className="flex w-full items-center justify-between gap-2 px-3 py-2 text-left hover:bg-slate-50"
+              >
+                <span className="truncate text-sm font-medium text-slate-900">{c.name}</span>
+                <span className="text-xs text-slate-500">{formatPhone(c.phone)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {!adding && name.trim().length >= 2 && !searching && (
+        <button type="button" onClick={startAdding} className="mt-1 text-xs font-medium text-primary-600 hover:underline">
+          + Save as new customer
+        </button>
+      )}
+      {adding && (
+        <div className="mt-2 space-y-2 rounded-xl border border-slate-200 bg-slate-50/60 p-3">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Full name"
+            className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm"
+          />
+          <input
+            type="tel"
+            value={newPhone}
+            onChange={(e) => setNewPhone(e.target.value)}
+            placeholder="e.g. 0244 XXX XXX"
+            className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm"
+          />
+          {error && <p className="text-xs text-amber-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={saveNew}
+              disabled={saving}
+              className="rounded-lg bg-primary-600 px-3 py-2 text-sm font-medium text-white disabled:opacity-50"
+            >
+              {saving ? 'Saving…' : 'Save customer'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setAdding(false)}
+              className="rounded-lg bg-slate-100 px-3 py-2 text-sm font-medium text-slate-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { Button } from '../ui/Button';
+import { getUserFriendlyMessage } from '../../lib/errorMessages';
+import type { HeldCart } from '../../services/heldCartsApi';
+
+interface HeldCartsSheetProps {
+  open: boolean;
+  carts: HeldCart[];
+  loading?: boolean;
+  /** Items and subtotal of the current cart; the hold form is hidden when it is empty. */
+  cartCount: number;
+  cartSubtotal: number;
+  onHold: (name: string, reserveStock: boolean) => Promise<void>;
+  onRecall: (cart: HeldCart) => Promise<void>;
+  onDiscard: (cart: HeldCart) => Promise<void>;
+  onClose: () => void;
+}
+
+function fmt(n: number) {
+  return `GH₵${n.toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function timeLabel(iso: string, withDay = false) {
+  return new Date(iso).toLocaleString('en-GH', {
+    ...(withDay ? { weekday: 'short' as const } : {}),
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Africa/Accra',
+  });
+}
+
+/**
+ * Held carts at this warehouse: hold the current cart under a name (optionally reserving its stock), or recall a
+ * cart held at any till here. Recalling takes it off the list for every till.
+ */
+export default function HeldCartsSheet({
+  open,
+  carts,
+  loading = false,
+  cartCount,
+  cartSubtotal,
+  onHold,
+  onRecall,
+  onDiscard,
+  onClose,
+}: HeldCartsSheetProps) {
+  const [name, setName] = useState('');
+  const [reserveStock, setReserveStock] = useState(false);
+  /** Cart id being recalled or discarded, or 'hold' while holding. */
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setReserveStock(false);
+      setError(null);
+    }
+  }, [open]);
+
+  if (!open) return null;
+
+  async function run(key: string, action: () => Promise<void>) {
+    if (busy) return;
+    setBusy(key);
+    setError(null);
+    try {
+      await action();
+    } catch (e: unknown) {
+      setError(getUserFriendlyMessage(e));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-slate-900/50" onClick={onClose} aria-hidden />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Held carts"
+        className="fixed bottom-0 left-0 right-0 z-50 mx-auto flex max-h-[85vh] max-w-md flex-col rounded-t-2xl bg-[var(--edk-surface)] shadow-xl"
+      >
+        <div className="flex items-center justify-between border-b border-[var(--edk-border)] px-4 py-3">
+          <h3 className="text-[15px] font-bold text-[var(--edk-ink)]">Held carts</h3>
+          <button type="button" onClick={onClose} className="p-2 text-[var(--edk-ink-3)] hover:text-[var(--edk-ink)]" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {cartCount > 0 && (
+            <div className="space-y-2 rounded-xl border border-[var(--edk-border)] bg-[var(--edk-bg)] p-3">
+              <p className="text-[12px] font-semibold text-[var(--edk-ink-2)]">
+                Hold current cart · {cartCount} item{cartCount === 1 ? '' : 's'} · {fmt(cartSubtotal)}
+              </p>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={80}
+                placeholder="Name, e.g. customer or what they are trying on"
+                aria-label="Held cart name"
+                className="w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px] text-[var(--edk-ink)]"
+              />
+              <label className="flex cursor-pointer items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={reserveStock}
+                  onChange={(e) => setReserveStock(e.target.checked)}
+                  className="h-4 w-4 rounded border-slate-300"
+                />
+                <span className="text-[12px] font-medium text-[var(--edk-ink-2)]">Hold the stock (other tills will not offer it)</span>
+              </label>
+              <Button
+                type="button"
+                variant="primary"
+                className="w-full"
+                onClick={() => run('hold', () => onHold(name.trim(), reserveStock))}
+                disabled={!name.trim() || busy != null}
+                loading={busy === 'hold'}
+              >
+                Hold cart
+              </Button>
+            </div>
+          )}
+
+          {error && <p className="text-[12px] font-semibold text-[var(--edk-red)]">{error}</p>}
+
+          {loading && carts.length === 0 ? (
+            <p className="text-[13px] text-[var(--edk-ink-3)]">Loading held carts…</p>
+          ) : carts.length === 0 ? (
+            <p className="text-[13px] text-[var(--edk-ink-3)]">No held carts at this location.</p>
+          ) : (
+            <ul className="space-y-2">
+              {carts.map((c) => (
+                <li key={c.id} className="rounded-xl border border-[var(--edk-border)] p-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-[13px] font-semibold text-[var(--edk-ink)] truncate">{c.name}</p>
+                      <p className="text-[11px] text-[var(--edk-ink-3)]">
+                        {c.itemCount} item{c.itemCount === 1 ? '' : 's'} · {fmt(c.subtotal)} · held {timeLabel(c.createdAt)}
+                        {c.createdBy ? ` by ${c.createdBy}` : ''}
+                      </p>
+                      <p className="text-[11px] text-[var(--edk-ink-3)]">
+                        {c.reserveStock ? 'Stock held · ' : ''}Expires {timeLabel(c.expiresAt, true)}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-1.5">
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => run(c.id, () => onDiscard(c))}
+                        disabled={busy != null}
+                      >
+                        Discard
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="primary"
+                        size="sm"
+                        onClick={() => run(c.id, () => onRecall(c))}
+                        disabled={busy != null}
+                        loading={busy === c.id}
+                      >
+                        Recall
+                      </Button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
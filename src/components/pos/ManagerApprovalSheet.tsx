@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { Button } from '../ui/Button';
+import { getUserFriendlyMessage } from '../../lib/errorMessages';
+import {
+  APPROVAL_ACTION_LABELS,
+  requestManagerApproval,
+  type ApprovalAction,
+  type ManagerApproval,
+} from '../../services/managerApprovalApi';
+
+interface ManagerApprovalSheetProps {
+  open: boolean;
+  action: ApprovalAction;
+  /** Discount % for 'discount'. */
+  amount?: number | null;
+  warehouseId?: string | null;
+  saleId?: string | null;
+  /** Why approval is needed (the server's message, or the cart's own check). */
+  reason?: string | null;
+  onApproved: (approval: ManagerApproval) => void;
+  onCancel: () => void;
+}
+
+const PIN_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'back'];
+
+/**
+ * Manager override on the cashier's device: the manager enters their email and PIN, the server returns a
+ * short-lived approval token for this one action, and the caller retries with it.
+ */
+export default function ManagerApprovalSheet({
+  open,
+  action,
+  amount,
+  warehouseId,
+  saleId,
+  reason,
+  onApproved,
+  onCancel,
+}: ManagerApprovalSheetProps) {
+  const [managerEmail, setManagerEmail] = useState('');
+  const [pin, setPin] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setPin('');
+      setError(null);
+    }
+  }, [open]);
+
+  if (!open) return null;
+
+  const press = (key: string) => {
+    setError(null);
+    if (key === 'clear') setPin('');
+    else if (key === 'back') setPin((p) => p.slice(0, -1));
+    else setPin((p) => (p.length < 8 ? p + key : p));
+  };
+
+  async function handleApprove() {
+    if (!managerEmail.trim() || pin.length < 4 || submitting) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const approval = await requestManagerApproval({
+        managerEmail: managerEmail.trim(),
+        pin,
+        action,
+        amount: amount ?? null,
+        warehouseId: warehouseId ?? null,
+        saleId: saleId ?? null,
+        reason: reason ?? null,
+      });
+      onApproved(approval);
+    } catch (e: unknown) {
+      setPin('');
+      setError(getUserFriendlyMessage(e));
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <>
+      <div className="fixed inset-0 z-[60] bg-slate-900/60" onClick={onCancel} aria-hidden />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Manager approval"
+        className="fixed bottom-0 left-0 right-0 z-[70] mx-auto max-w-md rounded-t-2xl bg-[var(--edk-surface)] shadow-xl"
+      >
+        <div className="flex items-center justify-between border-b border-[var(--edk-border)] px-4 py-3">
+          <h3 className="text-[15px] font-bold text-[var(--edk-ink)]">
+            Manager approval · {APPROVAL_ACTION_LABELS[action]}
+            {action === 'discount' && amount != null && ` ${amount}%`}
+            {action === 'refund' && amount != null && ` GH₵${amount.toFixed(2)}`}
+          </h3>
+          <button type="button" onClick={onCancel} className="p-2 text-[var(--edk-ink-3)] hover:text-[var(--edk-ink)]" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {reason && <p className="text-[12px] text-[var(--edk-ink-2)]">{reason}</p>}
+          <input
+            type="email"
+            value={managerEmail}
+            onChange={(e) => setManagerEmail(e.target.value)}
+            placeholder="Manager email"
+            autoComplete="off"
+            className="w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px] text-[var(--edk-ink)]"
+          />
+          <div
+            className="flex h-10 items-center justify-center gap-2 rounded-xl bg-[var(--edk-surface-2)]"
+            aria-label={`${pin.length} digits entered`}
+          >
+            {pin.length === 0 ? (
+              <span className="text-[12px] text-[var(--edk-ink-3)]">Enter PIN</span>
+            ) : (
+              Array.from({ length: pin.length }, (_, i) => <span key={i} className="h-2.5 w-2.5 rounded-full bg-[var(--edk-ink)]" />)
+            )}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {PIN_KEYS.map((key) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => press(key)}
+                className="h-12 rounded-xl border border-[var(--edk-border)] text-[16px] font-semibold text-[var(--edk-ink)] active:bg-[var(--edk-surface-2)]"
+                aria-label={key === 'back' ? 'Delete digit' : key === 'clear' ? 'Clear PIN' : key}
+              >
+                {key === 'back' ? '⌫' : key === 'clear' ? 'C' : key}
+              </button>
+            ))}
+          </div>
+
+          {error && <p className="text-[12px] font-semibold text-[var(--edk-red)]">{error}</p>}
+
+          <Button
+            type="button"
+            variant="primary"
+            className="w-full"
+            onClick={handleApprove}
+            disabled={!managerEmail.trim() || pin.length < 4 || submitting}
+            loading={submitting}
+          >
+            Approve
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
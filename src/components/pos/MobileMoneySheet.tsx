@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { Button } from '../ui/Button';
+import { getUserFriendlyMessage } from '../../lib/errorMessages';
+import { formatPhone, normalizePhone } from '../../services/customersApi';
+import {
+  MOBILE_MONEY_POLL_MS,
+  fetchMobileMoneyPayment,
+  requestMobileMoneyPayment,
+  type MobileMoneyPayment,
+} from '../../services/mobileMoneyApi';
+
+interface MobileMoneySheetProps {
+  open: boolean;
+  warehouseId: string;
+  /** Amount to collect (GH₵). */
+  amount: number;
+  /** Picked customer's number, prefilled. */
+  defaultPhone?: string | null;
+  onPaid: (payment: MobileMoneyPayment) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Mobile money prompt at checkout: the cashier enters the customer's number, the server sends the prompt, and the
+ * sheet polls until the customer approves (onPaid) or declines (try again or cancel and take another tender).
+ */
+export default function MobileMoneySheet({ open, warehouseId, amount, defaultPhone, onPaid, onCancel }: MobileMoneySheetProps) {
+  const [phone, setPhone] = useState('');
+  const [payment, setPayment] = useState<MobileMoneyPayment | null>(null);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setPhone(defaultPhone ? formatPhone(defaultPhone) : '');
+      setPayment(null);
+      setError(null);
+    }
+  }, [open, defaultPhone]);
+
+  // Poll while the customer approves on their phone. A failed poll is retried on the next tick.
+  const pendingId = open && payment?.status === 'pending' ? payment.id : null;
+  useEffect(() => {
+    if (!pendingId) return;
+    let cancelled = false;
+    const t = setInterval(() => {
+      fetchMobileMoneyPayment(pendingId)
+        .then((p) => {
+          if (!cancelled && p.status !== 'pending') setPayment(p);
+        })
+        .catch(() => {});
+    }, MOBILE_MONEY_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(t);
+    };
+  }, [pendingId]);
+
+  useEffect(() => {
+    if (open && payment?.status === 'successful') onPaid(payment);
+  }, [open, payment?.id, payment?.status]); // eslint-disable-line react-hooks/exhaustive-deps -- fire once per paid payment, not per onPaid closure
+
+  if (!open) return null;
+
+  const validPhone = normalizePhone(phone) != null;
+
+  async function handleSend() {
+    if (!validPhone || sending) return;
+    setSending(true);
+    setError(null);
+    try {
+      setPayment(await requestMobileMoneyPayment({ warehouseId, phone, amount }));
+    } catch (e: unknown) {
+      setError(getUserFriendlyMessage(e));
+    } finally {
+      setSending(false);
+    }
+  }
+
+  const amountLabel = `GH₵${amount.toLocaleString('en-GH', { minimumFractionDigits: 2 })}`;
+
+  return (
+    <>
+      <div className="fixed inset-0 z-[60] bg-slate-900/60" onClick={onCancel} aria-hidden />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Mobile money payment"
+        className="fixed bottom-0 left-0 right-0 z-[70] mx-auto max-w-md rounded-t-2xl bg-[var(--edk-surface)] shadow-xl"
+      >
+        <div className="flex items-center justify-between border-b border-[var(--edk-border)] px-4 py-3">
+          <h3 className="text-[15px] font-bold text-[var(--edk-ink)]">Mobile money · {amountLabel}</h3>
+          <button type="button" onClick={onCancel} className="p-2 text-[var(--edk-ink-3)] hover:text-[var(--edk-ink)]" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {payment == null && (
+            <>
+              <input
+                type="tel"
+                inputMode="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                placeholder="Customer's mobile money number"
+                autoComplete="off"
+                className="w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px] text-[var(--edk-ink)]"
+              />
+              {error && <p className="text-[12px] font-semibold text-[var(--edk-red)]">{error}</p>}
+              <Button type="button" variant="primary" className="w-full" onClick={handleSend} disabled={!validPhone || sending} loading={sending}>
+                Send prompt
+              </Button>
+            </>
+          )}
+
+          {payment?.status === 'pending' && (
+            <p className="text-[13px] text-[var(--edk-ink-2)]" role="status" aria-live="polite">
+              Prompt sent to {formatPhone(payment.phone)}. Ask the customer to approve {amountLabel} on their phone…
+            </p>
+          )}
+
+          {payment?.status === 'successful' && (
+            <p className="text-[13px] font-semibold text-emerald-700" role="status">
+              Paid · {payment.financialTransactionId ?? payment.providerRef}
+            </p>
+          )}
+
+          {payment?.status === 'failed' && (
+            <>
+              <p className="text-[12px] font-semibold text-[var(--edk-red)]">
+                Not paid{payment.reason ? `: ${payment.reason}` : '.'}
+              </p>
+              <Button type="button" variant="primary" className="w-full" onClick={() => setPayment(null)}>
+                Try again
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '../ui/Button';
+import { getUserFriendlyMessage } from '../../lib/errorMessages';
+import { getQueuedSales, SALE_QUEUE_CHANGED_EVENT } from '../../services/offlineSaleQueue';
+import type { SaleQueueItem, SaleQueueStatus } from '../../db/inventoryDB';
+
+interface OfflineSalesSheetProps {
+  open: boolean;
+  isOnline: boolean;
+  onRetry: (sale: SaleQueueItem) => Promise<void>;
+  onDiscard: (sale: SaleQueueItem, reason: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const STATUS_LABEL: Record<SaleQueueStatus, string> = {
+  pending: 'Waiting to sync',
+  syncing: 'Syncing',
+  rejected: 'Rejected — not enough stock',
+  failed: 'Refused by the server',
+};
+
+function fmt(n: number) {
+  return `GH₵${n.toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function timeLabel(ts: number) {
+  return new Date(ts).toLocaleString('en-GH', {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Africa/Accra',
+  });
+}
+
+/**
+ * Sales saved on this device while offline. Ones the server refused stay here until the cashier retries them
+ * (e.g. once stock has been received) or discards them with a reason; a discarded sale is recorded for an admin.
+ */
+export default function OfflineSalesSheet({ open, isOnline, onRetry, onDiscard, onClose }: OfflineSalesSheetProps) {
+  const [sales, setSales] = useState<SaleQueueItem[]>([]);
+  /** Queue item id being retried or discarded. */
+  const [busy, setBusy] = useState<number | null>(null);
+  /** Queue item whose discard reason is being typed. */
+  const [discardingId, setDiscardingId] = useState<number | null>(null);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    getQueuedSales().then(setSales).catch(() => setSales([]));
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    setDiscardingId(null);
+    setError(null);
+    load();
+    window.addEventListener(SALE_QUEUE_CHANGED_EVENT, load);
+    return () => window.removeEventListener(SALE_QUEUE_CHANGED_EVENT, load);
+  }, [open, load]);
+
+  if (!open) return null;
+
+  async function run(id: number, action: () => Promise<void>) {
+    if (busy != null) return;
+    setBusy(id);
+    setError(null);
+    try {
+      await action();
+      setDiscardingId(null);
+    } catch (e: unknown) {
+      setError(getUserFriendlyMessage(e));
+    } finally {
+      setBusy(null);
+      load();
+    }
+  }
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-slate-900/50" onClick={onClose} aria-hidden />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Offline sales"
+        className="fixed bottom-0 left-0 right-0 z-50 mx-auto flex max-h-[85vh] max-w-md flex-col rounded-t-2xl bg-[var(--edk-surface)] shadow-xl"
+      >
+        <div className="flex items-center justify-between border-b border-[var(--edk-border)] px-4 py-3">
+          <h3 className="text-[15px] font-bold text-[var(--edk-ink)]">Offline sales</h3>
+          <button type="button" onClick={onClose} className="p-2 text-[var(--edk-ink-3)] hover:text-[var(--edk-ink)]" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {!isOnline && (
+            <p className="text-[12px] text-[var(--edk-ink-3)]">Offline — retry and discard need a connection.</p>
+          )}
+          {error && <p className="text-[12px] font-semibold text-[var(--edk-red)]">{error}</p>}
+
+          {sales.length === 0 ? (
+            <p className="text-[13px] text-[var(--edk-ink-3)]">No offline sales on this device.</p>
+          ) : (
+            <ul className="space-y-2">
+              {sales.map((s) => {
+                const stuck = s.status === 'rejected' || s.status === 'failed';
+                const total = typeof s.body.total === 'number' ? s.body.total : null;
+                const itemCount = Array.isArray(s.body.lines) ? s.body.lines.length : 0;
+                return (
+                  <li key={s.id} className="rounded-xl border border-[var(--edk-border)] p-3 space-y-2">
+                    <div className="min-w-0">
+                      <p className="text-[13px] font-semibold text-[var(--edk-ink)] truncate">{s.localReceiptId}</p>
+                      <p className="text-[11px] text-[var(--edk-ink-3)]">
+                        {itemCount} line{itemCount === 1 ? '' : 's'}
+                        {total != null ? ` · ${fmt(total)}` : ''} · {timeLabel(s.createdAt)}
+                      </p>
+                      <p className={`text-[11px] font-semibold ${stuck ? 'text-[var(--edk-red)]' : 'text-amber-700'}`}>
+                        {STATUS_LABEL[s.status]}
+                      </p>
+                      {stuck && s.error && <p className="text-[11px] text-[var(--edk-ink-3)]">{s.error}</p>}
+                    </div>
+                    {stuck && discardingId === s.id && (
+                      <div className="space-y-2">
+                        <input
+                          type="text"
+                          value={reason}
+                          onChange={(e) => setReason(e.target.value)}
+                          maxLength={300}
+                          placeholder="Reason, e.g. refunded the customer in cash"
+                          aria-label="Reason for discarding"
+                          className="w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px] text-[var(--edk-ink)]"
+                        />
+                        <div className="flex justify-end gap-1.5">
+                          <Button type="button" variant="secondary" size="sm" onClick={() => setDiscardingId(null)} disabled={busy != null}>
+                            Keep
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="danger"
+                            size="sm"
+                            onClick={() => run(s.id, () => onDiscard(s, reason.trim()))}
+                            disabled={!reason.trim() || !isOnline || busy != null}
+                            loading={busy === s.id}
+                          >
+                            Discard sale
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                    {stuck && discardingId !== s.id && (
+                      <div className="flex justify-end gap-1.5">
+                        <Button
+                          type="button"
+                          variant="secondary"
+                          size="sm"
+                          onClick={() => {
+                            setReason('');
+                            setDiscardingId(s.id);
+                          }}
+                          disabled={!isOnline || busy != null}
+                        >
+                          Discard
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="primary"
+                          size="sm"
+                          onClick={() => run(s.id, () => onRetry(s))}
+                          disabled={!isOnline || busy != null}
+                          loading={busy === s.id}
+                        >
+                          Retry
+                        </Button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -10,6 +10,20 @@ interface POSHeaderProps {
   onCartTap: () => void;
   /** Barcode: when user presses Enter in search, this is called with current value (single input for search + scan). */
   onBarcodeSubmit?: () => void;
+  /** Opens the camera scanner. Button is hidden when not provided. */
+  onCameraScan?: () => void;
+  /** Offline sales waiting to sync; chip hidden when 0. */
+  pendingSyncCount?: number;
+  onSyncTap?: () => void;
+  /** Offline sales the server refused; chip hidden when 0. Opens the offline sales list. */
+  stuckSaleCount?: number;
+  onStuckTap?: () => void;
+  /** Till (cash drawer) state on this device; null while unknown. Chip hidden when onTillTap is not provided. */
+  tillOpen?: boolean | null;
+  onTillTap?: () => void;
+  /** Carts held at this warehouse. Chip hidden when onHeldTap is not provided (offline). */
+  heldCount?: number;
+  onHeldTap?: () => void;
 }
 
 function MoreVerticalIcon() {
@@ -31,6 +45,15 @@ function BellIcon() {
   );
 }
 
+function CameraIcon() {
+  return (
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M23 19a2 2 0 0 1-2 2H3a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h4l2-3h6l2 3h4a2 2 0 0 1 2 2z" />
+      <circle cx="12" cy="13" r="4" />
+    </svg>
+  );
+}
+
 function LogOutIcon() {
   return (
     <svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -48,6 +71,15 @@ export default function POSHeader({
   onSearchChange,
   onCartTap,
   onBarcodeSubmit,
+  onCameraScan,
+  pendingSyncCount = 0,
+  onSyncTap,
+  stuckSaleCount = 0,
+  onStuckTap,
+  tillOpen = null,
+  onTillTap,
+  heldCount = 0,
+  onHeldTap,
 }: POSHeaderProps) {
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' && onBarcodeSubmit && search.trim()) {
@@ -78,9 +110,19 @@ export default function POSHeader({
           value={search}
           onChange={(e) => onSearchChange(e.target.value)}
           onKeyDown={handleKeyDown}
-          className="w-full h-[34px] pl-9 pr-[72px] rounded-lg bg-[var(--edk-bg)] border border-[var(--edk-border-mid)] text-[13px] text-[var(--edk-ink)] placeholder:text-[var(--edk-ink-3)] outline-none transition-[border-color,box-shadow] duration-150 focus:border-[var(--edk-red-border)] focus:shadow-[0_0_0_3px_var(--edk-red-soft)]"
+          className={`w-full h-[34px] pl-9 ${onCameraScan ? 'pr-[104px]' : 'pr-[72px]'} rounded-lg bg-[var(--edk-bg)] border border-[var(--edk-border-mid)] text-[13px] text-[var(--edk-ink)] placeholder:text-[var(--edk-ink-3)] outline-none transition-[border-color,box-shadow] duration-150 focus:border-[var(--edk-red-border)] focus:shadow-[0_0_0_3px_var(--edk-red-soft)]`}
           aria-label="Search products or scan barcode"
         />
+        {onCameraScan && (
+          <button
+            type="button"
+            onClick={onCameraScan}
+            className="absolute right-[58px] top-1/2 -translate-y-1/2 h-6 w-7 flex items-center justify-center rounded text-[var(--edk-ink-2)] hover:bg-[var(--edk-border)]"
+            aria-label="Scan barcode with camera"
+          >
+            <CameraIcon />
+          </button>
+        )}
         <button
           type="button"
           onClick={onBarcodeSubmit}
@@ -89,6 +131,50 @@ export default function POSHeader({
           Scan
         </button>
       </div>
+      {pendingSyncCount > 0 && (
+        <button
+          type="button"
+          onClick={onSyncTap}
+          className="shrink-0 h-[30px] px-2.5 rounded-[var(--edk-radius-sm)] bg-amber-50 border border-amber-300 text-[12px] font-semibold text-amber-700"
+          aria-label={`${pendingSyncCount} offline sale${pendingSyncCount === 1 ? '' : 's'} waiting to sync. Tap to sync now.`}
+        >
+          {pendingSyncCount} to sync
+        </button>
+      )}
+      {stuckSaleCount > 0 && (
+        <button
+          type="button"
+          onClick={onStuckTap}
+          className="shrink-0 h-[30px] px-2.5 rounded-[var(--edk-radius-sm)] bg-[var(--edk-red-soft)] border border-[var(--edk-red-border)] text-[12px] font-semibold text-[var(--edk-red)]"
+          aria-label={`${stuckSaleCount} offline sale${stuckSaleCount === 1 ? ' was' : 's were'} refused. Tap to retry or discard.`}
+        >
+          {stuckSaleCount} refused
+        </button>
+      )}
+      {onTillTap && (
+        <button
+          type="button"
+          onClick={onTillTap}
+          className={`shrink-0 h-[30px] px-2.5 rounded-[var(--edk-radius-sm)] border text-[12px] font-semibold ${
+            tillOpen === false
+              ? 'bg-amber-50 border-amber-300 text-amber-700'
+              : 'bg-[var(--edk-surface)] border-[var(--edk-border-mid)] text-[var(--edk-ink-2)]'
+          }`}
+          aria-label={tillOpen === false ? 'Till is closed. Tap to open the till.' : 'Till: paid in, paid out and close'}
+        >
+          {tillOpen === false ? 'Open till' : 'Till'}
+        </button>
+      )}
+      {onHeldTap && (
+        <button
+          type="button"
+          onClick={onHeldTap}
+          className="shrink-0 h-[30px] px-2.5 rounded-[var(--edk-radius-sm)] border bg-[var(--edk-surface)] border-[var(--edk-border-mid)] text-[12px] font-semibold text-[var(--edk-ink-2)]"
+          aria-label={heldCount > 0 ? `${heldCount} held cart${heldCount === 1 ? '' : 's'}. Tap to hold or recall.` : 'Held carts: hold or recall a cart'}
+        >
+          Held{heldCount > 0 ? ` (${heldCount})` : ''}
+        </button>
+      )}
       <button
         type="button"
         onClick={onCartTap}
@@ -2,6 +2,7 @@ import { useEffect, useMemo, useState } from 'react';
 import { ProductCardSkeleton } from '../inventory/ProductCard';
 import POSProductCard from './POSProductCard';
 import type { POSProduct } from './SizePickerSheet';
+import { productColors } from '../../lib/productVariants';
 
 export type { POSProduct };
 
@@ -153,9 +154,9 @@ function applyFilters(
   if (colorFilter.trim()) {
     const colorNorm = colorFilter.trim().toLowerCase();
     if (colorNorm === 'uncategorized') {
-      r = r.filter((p) => !(p.color ?? '').trim());
+      r = r.filter((p) => productColors(p).every((c) => !c));
     } else {
-      r = r.filter((p) => (p.color ?? '').trim().toLowerCase() === colorNorm);
+      r = r.filter((p) => productColors(p).includes(colorNorm));
     }
   }
   return r;
@@ -187,6 +188,7 @@ export default function ProductGrid({
         p.barcode ?? '',
         p.category ?? '',
         p.color ?? '',
+        ...(p.variants ?? []).flatMap((v) => [v.color, v.sku, v.barcode ?? '']),
         sizeCodes,
       ]
         .join(' ')
@@ -14,13 +14,21 @@
 import { useEffect, useState, useRef } from 'react';
 import { type SalePayload } from './CartSheet';
 import { getProductImageUrl } from '../../lib/productImageUrl';
-import { buildReceiptHtml } from '../../lib/receiptTemplate';
+import { buildReceiptHtml, type ReceiptFiscal } from '../../lib/receiptTemplate';
+import type { SaleLoyalty } from '../../services/loyaltyApi';
+import type { SaleLayaway } from '../../services/layawayApi';
 
 // ── Extended sale type (POSPage sets receiptId from server) ────────────────
 export interface CompletedSale extends SalePayload {
   receiptId?: string;
   saleId?: string;
   completedAt?: string;
+  /** From the server once the sale is recorded for a directory customer. */
+  loyalty?: SaleLoyalty | null;
+  /** Deposit paid and balance due when the sale was a layaway. */
+  layaway?: SaleLayaway | null;
+  /** GRA e-VAT signature and QR code, when the business fiscalises sales. */
+  fiscal?: ReceiptFiscal | null;
 }
 
 /** Line item with optional key for list rendering and imageUrl for thumbnail */
@@ -125,6 +133,8 @@ const PAYMENT_LABELS: Record<string, { icon: string; label: string; color: strin
   card: { icon: '💳', label: 'Card', color: 'bg-blue-500' },
   Card: { icon: '💳', label: 'Card', color: 'bg-blue-500' },
   mixed: { icon: '💰', label: 'Mixed', color: 'bg-slate-600' },
+  points: { icon: '⭐', label: 'Loyalty points', color: 'bg-violet-500' },
+  store_credit: { icon: '🎟️', label: 'Store credit', color: 'bg-violet-500' },
 };
 
 function getPaymentConfig(method: string): { icon: string; label: string; color: string } {
@@ -150,13 +160,20 @@ function downloadReceipt(sale: CompletedSale): void {
         sizeLabel: l.sizeLabel ?? null,
         qty: l.qty,
         unitPrice: l.unitPrice,
+        promotionName: l.promotionName ?? null,
+        discountAmt: l.discountAmt ?? 0,
       })),
       subtotal: sale.subtotal,
       discountPct: sale.discountPct,
       discountAmt: sale.discountAmt,
       total: sale.total,
       paymentMethod: sale.paymentMethod,
+      payments: sale.payments,
       customerName: sale.customerName ?? null,
+      loyalty: sale.loyalty ?? null,
+      layaway: sale.layaway ?? null,
+      tax: sale.tax ?? null,
+      fiscal: sale.fiscal ?? null,
       soldBy: (sale as { soldBy?: string | null }).soldBy ?? null,
     },
     { format: 'a5', title: 'Receipt' }
@@ -217,10 +234,15 @@ function ReceiptLine({ line }: { line: CompletedSaleLine }) {
           {line.sizeLabel ? `${line.sizeLabel} · ` : ''}
           {line.qty} × {fmt(line.unitPrice)}
         </p>
+        {(line.discountAmt ?? 0) > 0 && (
+          <p className="text-[11px] font-semibold text-emerald-600 mt-0.5">
+            {line.promotionName ?? 'Promotion'} −{fmt(line.discountAmt ?? 0)}
+          </p>
+        )}
       </div>
 
       <p className="text-[14px] font-extrabold text-slate-900 tabular-nums flex-shrink-0">
-        {fmt(line.unitPrice * line.qty)}
+        {fmt(line.unitPrice * line.qty - (line.discountAmt ?? 0))}
       </p>
     </div>
   );
@@ -328,6 +350,18 @@ export default function SaleSuccessScreen({
             </span>
           )}
 
+          {sale.layaway && (
+            <span className="inline-flex items-center h-7 px-3 rounded-full bg-amber-900/60 text-amber-300 text-[12px] font-semibold">
+              Layaway · {fmt(sale.layaway.balanceDue)} due
+            </span>
+          )}
+
+          {sale.loyalty && (
+            <span className="inline-flex items-center h-7 px-3 rounded-full bg-emerald-900/60 text-emerald-300 text-[12px] font-semibold">
+              ⭐ +{sale.loyalty.pointsEarned} pts · {sale.loyalty.pointsBalance} total
+            </span>
+          )}
+
           <span className="text-[12px] text-slate-500 font-medium">
             {fmtTime(sale.completedAt)}
           </span>
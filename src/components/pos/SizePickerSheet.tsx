@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { hasVariants, toVariantItem, type VariantLike } from '../../lib/productVariants';
 
 /**
  * POS product shape. Inventory Product (from useInventory) passed into POS views
@@ -18,6 +19,12 @@ export interface POSProduct {
   /** For POS filters (size, color) — API may send as top-level. */
   color?: string | null;
   barcode?: string | null;
+  /** Own tax class; null = the category's class or the default. */
+  taxClassId?: string | null;
+  /** Colour variants; the product itself is then sold only as one of them. */
+  variants?: VariantLike[];
+  /** Set when this is a colour variant as a sellable item (see lib/productVariants). */
+  parentId?: string;
 }
 
 export interface CartLineInput {
@@ -33,6 +40,7 @@ export interface CartLineInput {
 }
 
 interface SizePickerSheetProps {
+  /** A product with colour variants is picked colour first, then size. */
   product: POSProduct | null;
   onAdd: (input: CartLineInput) => void;
   onClose: () => void;
@@ -40,22 +48,29 @@ interface SizePickerSheetProps {
 
 export default function SizePickerSheet({ product, onAdd, onClose }: SizePickerSheetProps) {
   const [qty, setQty] = useState(1);
+  const [variantId, setVariantId] = useState<string | null>(null);
 
   if (!product) return null;
 
-  const isSized = (product.sizeKind === 'sized' || (Array.isArray(product.quantityBySize) && product.quantityBySize.length > 1)) && (product.quantityBySize?.length ?? 0) > 0;
-  const sizes = product.quantityBySize ?? [];
+  const variants = hasVariants(product) ? product.variants! : [];
+  // One colour only: nothing to choose.
+  const chosen = variants.length === 1 ? variants[0] : variants.find((v) => v.id === variantId) ?? null;
+  const pickingColor = variants.length > 1 && !chosen;
+  const item: POSProduct = chosen ? toVariantItem(product, chosen) : product;
+
+  const isSized = (item.sizeKind === 'sized' || (Array.isArray(item.quantityBySize) && item.quantityBySize.length > 1)) && (item.quantityBySize?.length ?? 0) > 0;
+  const sizes = item.quantityBySize ?? [];
 
   const handleAdd = (sizeCode: string | null, sizeLabel: string | null) => {
     onAdd({
-      productId: product.id,
-      name: product.name,
-      sku: product.sku,
+      productId: item.id,
+      name: item.name,
+      sku: item.sku,
       sizeCode: sizeCode ?? undefined,
       sizeLabel: sizeLabel ?? undefined,
-      unitPrice: product.sellingPrice,
+      unitPrice: item.sellingPrice,
       qty,
-      imageUrl: product.images?.[0] ?? null,
+      imageUrl: item.images?.[0] ?? null,
     });
     onClose();
   };
@@ -65,55 +80,96 @@ export default function SizePickerSheet({ product, onAdd, onClose }: SizePickerS
       <div className="fixed inset-0 z-40 bg-slate-900/50" onClick={onClose} aria-hidden />
       <div className="fixed bottom-0 left-0 right-0 z-50 max-h-[85vh] overflow-y-auto rounded-t-2xl bg-white shadow-xl">
         <div className="sticky top-0 flex items-center justify-between border-b border-slate-200 bg-white px-4 py-3">
-          <h3 className="font-semibold text-slate-900">{product.name}</h3>
-          <button type="button" onClick={onClose} className="p-2 text-slate-500 hover:text-slate-700">
-            ✕
-          </button>
-        </div>
-        <div className="p-4">
-          <div className="mb-4 flex items-center gap-4">
-            <span className="text-sm text-slate-600">Qty</span>
-            <div className="flex items-center gap-2">
+          <div className="flex min-w-0 items-center gap-2">
+            {variants.length > 1 && chosen && (
               <button
                 type="button"
-                onClick={() => setQty((n) => Math.max(1, n - 1))}
-                className="h-9 w-9 rounded-lg border border-slate-200 bg-slate-50 font-medium"
+                onClick={() => setVariantId(null)}
+                className="p-1 text-slate-500 hover:text-slate-700"
+                aria-label="Choose another colour"
               >
-                −
+                ‹
               </button>
-              <span className="w-8 text-center font-medium">{qty}</span>
-              <button
-                type="button"
-                onClick={() => setQty((n) => n + 1)}
-                className="h-9 w-9 rounded-lg border border-slate-200 bg-slate-50 font-medium"
-              >
-                +
-              </button>
-            </div>
+            )}
+            <h3 className="truncate font-semibold text-slate-900">{item.name}</h3>
           </div>
-          {isSized ? (
-            <div className="grid grid-cols-3 gap-2">
-              {sizes.map((row) => (
+          <button type="button" onClick={onClose} className="p-2 text-slate-500 hover:text-slate-700">
+            ✕
+          </button>
+        </div>
+        <div className="p-4">
+          {pickingColor ? (
+            <>
+              <p className="mb-3 text-sm text-slate-600">Colour</p>
+              <div className="grid grid-cols-2 gap-2">
+                {variants.map((v) => (
+                  <button
+                    key={v.id}
+                    type="button"
+                    disabled={v.quantity <= 0}
+                    onClick={() => setVariantId(v.id)}
+                    className="flex items-center gap-3 rounded-xl border border-slate-200 p-2 text-left font-medium disabled:opacity-50 disabled:cursor-not-allowed hover:border-primary-400 hover:bg-primary-50"
+                  >
+                    {(v.images?.[0] ?? product.images?.[0]) ? (
+                      <img src={v.images?.[0] ?? product.images?.[0]} alt="" className="h-10 w-10 flex-shrink-0 rounded-lg object-cover" />
+                    ) : (
+                      <span className="h-10 w-10 flex-shrink-0 rounded-lg bg-slate-100" aria-hidden />
+                    )}
+                    <span className="min-w-0">
+                      <span className="block truncate">{v.color}</span>
+                      <span className="text-xs text-slate-500">Stock: {v.quantity}</span>
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="mb-4 flex items-center gap-4">
+                <span className="text-sm text-slate-600">Qty</span>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setQty((n) => Math.max(1, n - 1))}
+                    className="h-9 w-9 rounded-lg border border-slate-200 bg-slate-50 font-medium"
+                  >
+                    −
+                  </button>
+                  <span className="w-8 text-center font-medium">{qty}</span>
+                  <button
+                    type="button"
+                    onClick={() => setQty((n) => n + 1)}
+                    className="h-9 w-9 rounded-lg border border-slate-200 bg-slate-50 font-medium"
+                  >
+                    +
+                  </button>
+                </div>
+              </div>
+              {isSized ? (
+                <div className="grid grid-cols-3 gap-2">
+                  {sizes.map((row) => (
+                    <button
+                      key={row.sizeCode}
+                      type="button"
+                      disabled={row.quantity <= 0}
+                      onClick={() => handleAdd(row.sizeCode, row.sizeLabel ?? null)}
+                      className="rounded-xl border border-slate-200 py-3 font-medium disabled:opacity-50 disabled:cursor-not-allowed hover:border-primary-400 hover:bg-primary-50"
+                    >
+                      <span className="block">{row.sizeLabel ?? row.sizeCode}</span>
+                      <span className="text-xs text-slate-500">Stock: {row.quantity}</span>
+                    </button>
+                  ))}
+                </div>
+              ) : (
                 <button
-                  key={row.sizeCode}
                   type="button"
-                  disabled={row.quantity <= 0}
-                  onClick={() => handleAdd(row.sizeCode, row.sizeLabel ?? null)}
-                  className="rounded-xl border border-slate-200 py-3 font-medium disabled:opacity-50 disabled:cursor-not-allowed hover:border-primary-400 hover:bg-primary-50"
+                  onClick={() => handleAdd(null, null)}
+                  className="w-full rounded-xl bg-primary-600 py-3 font-semibold text-white"
                 >
-                  <span className="block">{row.sizeLabel ?? row.sizeCode}</span>
-                  <span className="text-xs text-slate-500">Stock: {row.quantity}</span>
+                  Add to cart — GH₵{(item.sellingPrice * qty).toLocaleString('en-GH', { minimumFractionDigits: 2 })}
                 </button>
-              ))}
-            </div>
-          ) : (
-            <button
-              type="button"
-              onClick={() => handleAdd(null, null)}
-              className="w-full rounded-xl bg-primary-600 py-3 font-semibold text-white"
-            >
-              Add to cart — GH₵{(product.sellingPrice * qty).toLocaleString('en-GH', { minimumFractionDigits: 2 })}
-            </button>
+              )}
+            </>
           )}
         </div>
       </div>
@@ -0,0 +1,306 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '../ui/Button';
+import { getUserFriendlyMessage } from '../../lib/errorMessages';
+import { printTillReport } from '../../lib/printReceipt';
+import { queryKeys } from '../../lib/queryKeys';
+import {
+  addTillMovement,
+  closeTillSession,
+  fetchTillReport,
+  openTillSession,
+  type TillMovement,
+  type TillMovementKind,
+  type TillReport,
+  type TillSession,
+} from '../../services/tillApi';
+
+interface TillSheetProps {
+  open: boolean;
+  warehouseId: string;
+  warehouseName?: string | null;
+  deviceId: string;
+  session: TillSession | null;
+  movements: TillMovement[];
+  /** Managers can print an X report mid-shift. */
+  canViewX: boolean;
+  onClose: () => void;
+}
+
+function fmt(n: number) {
+  return `GH₵${n.toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function parseAmount(v: string): number {
+  const n = Number(v);
+  return v.trim() === '' || !Number.isFinite(n) ? NaN : Math.round(n * 100) / 100;
+}
+
+const inputClass =
+  'w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px] text-[var(--edk-ink)]';
+
+/**
+ * Till (cash drawer) for this device: open with a float, record paid in / paid out, and close with a blind count.
+ * The cashier never sees the expected cash before counting; closing prints the Z report with the variance.
+ */
+export default function TillSheet({
+  open,
+  warehouseId,
+  warehouseName,
+  deviceId,
+  session,
+  movements,
+  canViewX,
+  onClose,
+}: TillSheetProps) {
+  const queryClient = useQueryClient();
+  const [floatInput, setFloatInput] = useState('');
+  const [kind, setKind] = useState<TillMovementKind>('paid_out');
+  const [amountInput, setAmountInput] = useState('');
+  const [reason, setReason] = useState('');
+  const [countInput, setCountInput] = useState('');
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState<'open' | 'movement' | 'close' | 'x' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [closedReport, setClosedReport] = useState<TillReport | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      setClosedReport(null);
+    }
+  }, [open]);
+
+  if (!open) return null;
+
+  const tillKey = queryKeys.tillSession(warehouseId, deviceId);
+
+  async function run(which: NonNullable<typeof busy>, fn: () => Promise<void>) {
+    setBusy(which);
+    setError(null);
+    try {
+      await fn();
+    } catch (e: unknown) {
+      setError(getUserFriendlyMessage(e));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const handleOpen = () => {
+    const openingFloat = parseAmount(floatInput);
+    if (!(openingFloat >= 0)) {
+      setError('Enter the opening float (0 or more).');
+      return;
+    }
+    return run('open', async () => {
+      const result = await openTillSession({ warehouseId, deviceId, openingFloat });
+      queryClient.setQueryData(tillKey, result);
+      setFloatInput('');
+    });
+  };
+
+  const handleMovement = () => {
+    if (!session) return;
+    const amount = parseAmount(amountInput);
+    if (!(amount > 0)) {
+      setError('Enter an amount above 0.');
+      return;
+    }
+    if (!reason.trim()) {
+      setError('Enter a reason.');
+      return;
+    }
+    return run('movement', async () => {
+      const movement = await addTillMovement(session.id, { kind, amount, reason: reason.trim() });
+      queryClient.setQueryData(tillKey, { session, movements: [...movements, movement] });
+      setAmountInput('');
+      setReason('');
+    });
+  };
+
+  const handleClose = () => {
+    if (!session) return;
+    const countedCash = parseAmount(countInput);
+    if (!(countedCash >= 0)) {
+      setError('Count the cash in the drawer and enter the total.');
+      return;
+    }
+    return run('close', async () => {
+      const report = await closeTillSession(session.id, { countedCash, note: note.trim() || null });
+      queryClient.setQueryData(tillKey, { session: null, movements: [] });
+      setClosedReport(report);
+      setCountInput('');
+      setNote('');
+      printTillReport(report, warehouseName);
+    });
+  };
+
+  const handleXReport = () => {
+    if (!session) return;
+    return run('x', async () => {
+      printTillReport(await fetchTillReport(session.id), warehouseName);
+    });
+  };
+
+  const variance = closedReport?.session.variance ?? 0;
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-slate-900/50" onClick={onClose} aria-hidden />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Till"
+        className="fixed bottom-0 left-0 right-0 z-50 mx-auto max-w-md max-h-[90vh] overflow-y-auto rounded-t-2xl bg-[var(--edk-surface)] shadow-xl"
+      >
+        <div className="flex items-center justify-between border-b border-[var(--edk-border)] px-4 py-3">
+          <h3 className="text-[15px] font-bold text-[var(--edk-ink)]">
+            Till{session ? ` · ${session.sessionNumber}` : ''}
+          </h3>
+          <button type="button" onClick={onClose} className="p-2 text-[var(--edk-ink-3)] hover:text-[var(--edk-ink)]" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {closedReport ? (
+            <div className="space-y-3">
+              <p className="text-[13px] font-semibold text-[var(--edk-ink)]">Till closed. Z report sent to the printer.</p>
+              <div className="rounded-xl bg-[var(--edk-surface-2)] p-3 text-[13px] space-y-1">
+                <div className="flex justify-between"><span>Expected cash</span><span>{fmt(closedReport.session.summary.expectedCash)}</span></div>
+                <div className="flex justify-between"><span>Counted cash</span><span>{fmt(closedReport.session.countedCash ?? 0)}</span></div>
+                <div className={`flex justify-between font-bold ${variance < 0 ? 'text-[var(--edk-red)]' : 'text-[var(--edk-ink)]'}`}>
+                  <span>{variance === 0 ? 'Balanced' : variance > 0 ? 'Over' : 'Short'}</span>
+                  <span>{fmt(Math.abs(variance))}</span>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" variant="secondary" className="flex-1" onClick={() => printTillReport(closedReport, warehouseName)}>
+                  Reprint Z report
+                </Button>
+                <Button type="button" variant="primary" className="flex-1" onClick={onClose}>
+                  Done
+                </Button>
+              </div>
+            </div>
+          ) : !session ? (
+            <div className="space-y-3">
+              <p className="text-[12px] text-[var(--edk-ink-2)]">
+                No till is open on this device. Count the float into the drawer and enter it to start the shift.
+              </p>
+              <input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step="0.01"
+                value={floatInput}
+                onChange={(e) => setFloatInput(e.target.value)}
+                placeholder="Opening float (GH₵)"
+                className={inputClass}
+              />
+              <Button type="button" variant="primary" className="w-full" onClick={handleOpen} loading={busy === 'open'} disabled={busy != null}>
+                Open till
+              </Button>
+            </div>
+          ) : (
+            <>
+              <p className="text-[12px] text-[var(--edk-ink-2)]">
+                Opened {new Date(session.openedAt).toLocaleString('en-GH', { dateStyle: 'medium', timeStyle: 'short' })} by{' '}
+                {session.openedBy ?? '—'} · float {fmt(session.openingFloat)}
+              </p>
+
+              <section className="space-y-2">
+                <h4 className="text-[12px] font-bold uppercase tracking-wide text-[var(--edk-ink-3)]">Paid in / paid out</h4>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['paid_out', 'paid_in'] as const).map((k) => (
+                    <button
+                      key={k}
+                      type="button"
+                      onClick={() => setKind(k)}
+                      className={`h-9 rounded-xl border text-[13px] font-semibold ${
+                        kind === k
+                          ? 'border-[var(--edk-ink)] bg-[var(--edk-ink)] text-white'
+                          : 'border-[var(--edk-border-mid)] text-[var(--edk-ink-2)]'
+                      }`}
+                      aria-pressed={kind === k}
+                    >
+                      {k === 'paid_out' ? 'Paid out' : 'Paid in'}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step="0.01"
+                  value={amountInput}
+                  onChange={(e) => setAmountInput(e.target.value)}
+                  placeholder="Amount (GH₵)"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Reason (e.g. cleaner, change from bank)"
+                  maxLength={200}
+                  className={inputClass}
+                />
+                <Button type="button" variant="secondary" className="w-full" onClick={handleMovement} loading={busy === 'movement'} disabled={busy != null}>
+                  Record {kind === 'paid_out' ? 'paid out' : 'paid in'}
+                </Button>
+                {movements.length > 0 && (
+                  <ul className="divide-y divide-[var(--edk-border)] text-[12px]">
+                    {movements.map((m) => (
+                      <li key={m.id} className="flex justify-between gap-2 py-1.5">
+                        <span className="text-[var(--edk-ink-2)] truncate">{m.reason}</span>
+                        <span className="shrink-0 font-semibold text-[var(--edk-ink)]">
+                          {m.kind === 'paid_in' ? '+' : '−'}
+                          {fmt(m.amount)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+
+              <section className="space-y-2 border-t border-[var(--edk-border)] pt-3">
+                <h4 className="text-[12px] font-bold uppercase tracking-wide text-[var(--edk-ink-3)]">Close till</h4>
+                <p className="text-[12px] text-[var(--edk-ink-2)]">Count all the cash in the drawer, including the float.</p>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step="0.01"
+                  value={countInput}
+                  onChange={(e) => setCountInput(e.target.value)}
+                  placeholder="Counted cash (GH₵)"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Note (optional)"
+                  maxLength={500}
+                  className={inputClass}
+                />
+                <Button type="button" variant="primary" className="w-full" onClick={handleClose} loading={busy === 'close'} disabled={busy != null}>
+                  Close till &amp; print Z report
+                </Button>
+                {canViewX && (
+                  <Button type="button" variant="secondary" className="w-full" onClick={handleXReport} loading={busy === 'x'} disabled={busy != null}>
+                    Print X report
+                  </Button>
+                )}
+              </section>
+            </>
+          )}
+
+          {error && <p className="text-[12px] font-semibold text-[var(--edk-red)]">{error}</p>}
+        </div>
+      </div>
+    </>
+  );
+}
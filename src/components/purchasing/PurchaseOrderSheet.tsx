@@ -0,0 +1,286 @@
+import { useEffect, useRef, useState } from 'react';
+import { API_BASE_URL } from '../../lib/api';
+import { apiGet } from '../../lib/apiClient';
+import { getUserFriendlyMessage } from '../../lib/errorMessages';
+import { useToast } from '../../contexts/ToastContext';
+import { Button } from '../ui/Button';
+import type { POSProduct } from '../pos/SizePickerSheet';
+import {
+  createPurchaseOrder,
+  type PurchaseOrder,
+  type Supplier,
+} from '../../services/purchasingApi';
+
+type PurchasableProduct = POSProduct & { costPrice?: number };
+
+/** Product to prefill (e.g. from reorder suggestions). Sized products get one line per size with qty 0. */
+export interface PurchaseOrderPrefill {
+  productId: string;
+  suggestedQty: number;
+}
+
+interface DraftLine {
+  key: string;
+  productId: string;
+  name: string;
+  sizeCode: string | null;
+  qty: number;
+  unitCost: string;
+  /** Shown next to sized lines prefilled from a suggestion (total across sizes). */
+  hint?: string;
+}
+
+interface PurchaseOrderSheetProps {
+  isOpen: boolean;
+  warehouseId: string;
+  suppliers: Supplier[];
+  initialSupplierId?: string | null;
+  prefill?: PurchaseOrderPrefill[];
+  onClose: () => void;
+  onCreated: (po: PurchaseOrder) => void;
+}
+
+function linesForProduct(p: PurchasableProduct, suggestedQty?: number): DraftLine[] {
+  const cost = p.costPrice != null && p.costPrice > 0 ? String(p.costPrice) : '';
+  const sizes = p.sizeKind === 'sized' ? p.quantityBySize ?? [] : [];
+  if (sizes.length === 0) {
+    return [{ key: `${p.id}:`, productId: p.id, name: p.name, sizeCode: null, qty: suggestedQty ?? 1, unitCost: cost }];
+  }
+  return sizes.map((s) => ({
+    key: `${p.id}:${s.sizeCode}`,
+    productId: p.id,
+    name: p.name,
+    sizeCode: s.sizeCode,
+    qty: 0,
+    unitCost: cost,
+    hint: suggestedQty ? `suggested ${suggestedQty} total` : undefined,
+  }));
+}
+
+export default function PurchaseOrderSheet({
+  isOpen,
+  warehouseId,
+  suppliers,
+  initialSupplierId,
+  prefill,
+  onClose,
+  onCreated,
+}: PurchaseOrderSheetProps) {
+  const { showToast } = useToast();
+  const [supplierId, setSupplierId] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<PurchasableProduct[]>([]);
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [saving, setSaving] = useState(false);
+  const prefillRef = useRef<PurchaseOrderPrefill[] | undefined>(undefined);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSupplierId(initialSupplierId ?? suppliers[0]?.id ?? '');
+    setExpectedDate('');
+    setNotes('');
+    setQuery('');
+    setResults([]);
+    setLines([]);
+    prefillRef.current = undefined;
+  }, [isOpen, initialSupplierId, suppliers]);
+
+  useEffect(() => {
+    if (!isOpen || !prefill?.length || prefillRef.current === prefill) return;
+    prefillRef.current = prefill;
+    Promise.all(
+      prefill.map((item) =>
+        apiGet<PurchasableProduct>(
+          API_BASE_URL,
+          `/api/products/${encodeURIComponent(item.productId)}?warehouse_id=${encodeURIComponent(warehouseId)}`
+        )
+          .then((p) => linesForProduct(p, item.suggestedQty))
+          .catch(() => [] as DraftLine[])
+      )
+    ).then((groups) => setLines(groups.flat()));
+  }, [isOpen, prefill, warehouseId]);
+
+  useEffect(() => {
+    if (!isOpen || query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({ warehouse_id: warehouseId, q: query.trim(), limit: '10' });
+      apiGet<PurchasableProduct[] | { data?: PurchasableProduct[] }>(API_BASE_URL, `/api/products?${params.toString()}`)
+        .then((res) => {
+          if (!cancelled) setResults(Array.isArray(res) ? res : res?.data ?? []);
+        })
+        .catch(() => {
+          if (!cancelled) setResults([]);
+        });
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, query, warehouseId]);
+
+  if (!isOpen) return null;
+
+  const addProduct = (p: PurchasableProduct) => {
+    setQuery('');
+    setResults([]);
+    setLines((prev) => [...prev, ...linesForProduct(p).filter((l) => !prev.some((x) => x.key === l.key))]);
+  };
+
+  const updateLine = (key: string, patch: Partial<DraftLine>) =>
+    setLines((prev) => prev.map((l) => (l.key === key ? { ...l, ...patch } : l)));
+
+  const toSave = lines.filter((l) => l.qty > 0);
+  const total = toSave.reduce((sum, l) => sum + (Number(l.unitCost) || 0) * l.qty, 0);
+
+  const save = async () => {
+    if (!supplierId || toSave.length === 0) return;
+    setSaving(true);
+    try {
+      const po = await createPurchaseOrder({
+        supplierId,
+        warehouseId,
+        lines: toSave.map((l) => ({
+          productId: l.productId,
+          sizeCode: l.sizeCode,
+          qty: l.qty,
+          unitCost: l.unitCost.trim() ? Number(l.unitCost) : null,
+        })),
+        expectedDate: expectedDate || null,
+        notes: notes.trim() || null,
+      });
+      onCreated(po);
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px]';
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-slate-900/50" onClick={onClose} aria-hidden />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="New purchase order"
+        className="fixed bottom-0 left-0 right-0 z-50 max-h-[90vh] overflow-y-auto rounded-t-2xl bg-[var(--edk-surface)] shadow-xl"
+      >
+        <div className="sticky top-0 flex items-center justify-between border-b border-[var(--edk-border)] bg-[var(--edk-surface)] px-4 py-3">
+          <h3 className="text-[15px] font-bold text-[var(--edk-ink)]">New purchase order</h3>
+          <button type="button" onClick={onClose} className="p-2 text-[var(--edk-ink-3)] hover:text-[var(--edk-ink)]" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="block">
+              <span className="text-[12px] font-semibold text-[var(--edk-ink-2)]">Supplier</span>
+              <select value={supplierId} onChange={(e) => setSupplierId(e.target.value)} className={`mt-1 ${inputClass}`}>
+                {suppliers.map((s) => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-[12px] font-semibold text-[var(--edk-ink-2)]">Expected</span>
+              <input type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} className={`mt-1 ${inputClass}`} />
+            </label>
+          </div>
+
+          <div>
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Add product: search name, SKU or barcode…"
+              className={inputClass}
+            />
+            {results.length > 0 && (
+              <div className="mt-2 rounded-xl border border-[var(--edk-border)] divide-y divide-[var(--edk-border)]">
+                {results.map((p) => (
+                  <button
+                    key={p.id}
+                    type="button"
+                    onClick={() => addProduct(p)}
+                    className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left hover:bg-[var(--edk-bg)]"
+                  >
+                    <span className="text-[13px] font-semibold text-[var(--edk-ink)] truncate">{p.name}</span>
+                    <span className="text-[11px] text-[var(--edk-ink-3)]">{p.sku} · {p.quantity} in stock</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {lines.length > 0 && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_64px_88px_24px] gap-2 text-[10px] font-semibold uppercase tracking-wide text-[var(--edk-ink-3)]">
+                <span>Item</span><span className="text-right">Qty</span><span className="text-right">Unit cost</span><span />
+              </div>
+              {lines.map((l) => (
+                <div key={l.key} className="grid grid-cols-[1fr_64px_88px_24px] gap-2 items-center">
+                  <span className="text-[13px] text-[var(--edk-ink)] truncate">
+                    {l.name}{l.sizeCode ? ` · ${l.sizeCode}` : ''}
+                    {l.hint && <span className="ml-1 text-[11px] text-[var(--edk-ink-3)]">({l.hint})</span>}
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={l.qty || ''}
+                    aria-label={`Qty ${l.name} ${l.sizeCode ?? ''}`}
+                    onChange={(e) => updateLine(l.key, { qty: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                    className="h-8 px-2 rounded-lg border border-[var(--edk-border)] text-[13px] text-right tabular-nums"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={l.unitCost}
+                    aria-label={`Unit cost ${l.name}`}
+                    onChange={(e) => updateLine(l.key, { unitCost: e.target.value })}
+                    className="h-8 px-2 rounded-lg border border-[var(--edk-border)] text-[13px] text-right tabular-nums"
+                  />
+                  <button
+                    type="button"
+                    aria-label={`Remove ${l.name}`}
+                    onClick={() => setLines((prev) => prev.filter((x) => x.key !== l.key))}
+                    className="text-[var(--edk-ink-3)] hover:text-[var(--edk-red)]"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Notes for the supplier" className={inputClass} />
+
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-[13px] text-[var(--edk-ink-2)]">
+              {toSave.reduce((n, l) => n + l.qty, 0)} units · <strong>GH₵{total.toLocaleString('en-GH', { minimumFractionDigits: 2 })}</strong>
+            </p>
+            <Button
+              type="button"
+              variant="primary"
+              disabled={saving || !supplierId || toSave.length === 0}
+              loading={saving}
+              onClick={save}
+            >
+              Save draft
+            </Button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,4 +1,4 @@
-import { TrendingUp, DollarSign, ShoppingBag, Package, CreditCard, Info } from 'lucide-react';
+import { TrendingUp, DollarSign, ShoppingBag, Package, CreditCard, Info, Tag } from 'lucide-react';
 import { SalesReport } from '../../services/reportService';
 import { formatCurrency } from '../../lib/utils';
 
@@ -69,6 +69,15 @@ export function SalesMetrics({ report }: SalesMetricsProps) {
       color: 'green',
       tooltip: undefined as string | undefined,
     },
+    ...(report.promotionCost != null
+      ? [{
+          label: 'Promotion cost',
+          value: formatCurrency(report.promotionCost),
+          icon: Tag,
+          color: 'amber' as const,
+          tooltip: 'Discounts given by promotions in this period. Revenue is already net of them.' as string | undefined,
+        }]
+      : []),
   ];
 
   const colorClasses: Record<string, string> = {
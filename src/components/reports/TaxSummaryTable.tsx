@@ -0,0 +1,93 @@
+import type { TaxSummary } from '../../services/taxApi';
+import { taxComponentLabel } from '../../lib/tax';
+import { formatCurrency } from '../../lib/utils';
+import { Percent } from 'lucide-react';
+
+interface TaxSummaryTableProps {
+  summary: TaxSummary;
+}
+
+/** Tax for filing: totals, each component (VAT, NHIL, GETFund, COVID-19) and each tax class, net of returns. */
+export function TaxSummaryTable({ summary }: TaxSummaryTableProps) {
+  const th = 'px-4 py-3 text-xs font-medium text-[var(--edk-ink-3)] uppercase';
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 animate-fade-in-up">
+        {[
+          { label: 'Taxable value', value: summary.totals.taxableAmount },
+          { label: 'Tax', value: summary.totals.taxAmount },
+          { label: 'Gross sales', value: summary.totals.grossAmount },
+        ].map((card) => (
+          <div key={card.label} className="rounded-[var(--edk-radius)] border border-[var(--edk-border)] bg-[var(--edk-surface)] p-4">
+            <p className="text-sm text-[var(--edk-ink-3)]">{card.label}</p>
+            <p className="text-2xl font-bold text-[var(--edk-ink)] tabular-nums">{formatCurrency(card.value)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="table-container rounded-[var(--edk-radius)] border border-[var(--edk-border)] bg-[var(--edk-surface)] overflow-hidden">
+        <h3 className="text-lg font-semibold text-[var(--edk-ink)] mb-6 px-6 pt-6 flex items-center gap-2">
+          <Percent className="w-5 h-5 text-primary-600" strokeWidth={2} />
+          By component
+        </h3>
+        <div className="table-scroll-wrap">
+          <table className="w-full min-w-[280px]">
+            <thead className="table-header bg-[var(--edk-surface-2)] border-b border-[var(--edk-border)]">
+              <tr>
+                <th className={`${th} text-left`}>Component</th>
+                <th className={`${th} text-right`}>Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.byComponent.length === 0 ? (
+                <tr>
+                  <td colSpan={2} className="px-4 py-6 text-center text-sm text-[var(--edk-ink-3)]">No tax in this period.</td>
+                </tr>
+              ) : (
+                summary.byComponent.map((c) => (
+                  <tr key={`${c.code}@${c.rate}`} className="table-row border-b border-[var(--edk-border)]">
+                    <td className="px-4 py-3 font-medium text-[var(--edk-ink)]">{taxComponentLabel(c)}</td>
+                    <td className="px-4 py-3 text-right font-semibold text-[var(--edk-ink)] tabular-nums">{formatCurrency(c.amount)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="table-container rounded-[var(--edk-radius)] border border-[var(--edk-border)] bg-[var(--edk-surface)] overflow-hidden">
+        <h3 className="text-lg font-semibold text-[var(--edk-ink)] mb-6 px-6 pt-6">By tax class</h3>
+        <div className="table-scroll-wrap">
+          <table className="w-full min-w-[420px]">
+            <thead className="table-header bg-[var(--edk-surface-2)] border-b border-[var(--edk-border)]">
+              <tr>
+                <th className={`${th} text-left`}>Class</th>
+                <th className={`${th} text-right`}>Lines</th>
+                <th className={`${th} text-right`}>Taxable value</th>
+                <th className={`${th} text-right`}>Tax</th>
+                <th className={`${th} text-right`}>Refunded on returns</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.byClass.map((c) => (
+                <tr key={c.taxClassId ?? 'none'} className="table-row border-b border-[var(--edk-border)]">
+                  <td className="px-4 py-3 font-medium text-[var(--edk-ink)]">
+                    {c.name ?? 'No class (before tax classes)'}
+                    {c.inclusive === false && <span className="ml-2 text-xs text-[var(--edk-ink-3)]">added at till</span>}
+                  </td>
+                  <td className="px-4 py-3 text-right text-[var(--edk-ink-2)] tabular-nums">{c.lines}</td>
+                  <td className="px-4 py-3 text-right text-[var(--edk-ink-2)] tabular-nums">{formatCurrency(c.taxableAmount)}</td>
+                  <td className="px-4 py-3 text-right font-semibold text-[var(--edk-ink)] tabular-nums">{formatCurrency(c.taxAmount)}</td>
+                  <td className="px-4 py-3 text-right text-[var(--edk-ink-3)] tabular-nums">
+                    {c.returnedTax ? formatCurrency(c.returnedTax) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button } from '../ui/Button';
+import { getUserFriendlyMessage } from '../../lib/errorMessages';
+import { useTillSession } from '../../hooks/useTillSession';
+import {
+  installmentError,
+  recordLayawayPayment,
+  type LayawayPaymentMethod,
+  type LayawayPaymentResult,
+} from '../../services/layawayApi';
+
+export interface LayawayPaymentSale {
+  id: string;
+  receiptId: string;
+  warehouseId: string;
+  customerName: string | null;
+  balanceDue: number;
+}
+
+interface LayawayPaymentSheetProps {
+  sale: LayawayPaymentSale | null;
+  onClose: () => void;
+  onDone: (result: LayawayPaymentResult) => void;
+}
+
+const METHODS: { key: LayawayPaymentMethod; label: string }[] = [
+  { key: 'cash', label: 'Cash' },
+  { key: 'mobile_money', label: 'MoMo' },
+  { key: 'card', label: 'Card' },
+];
+
+function fmt(n: number) {
+  return `GH₵${n.toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Instalment on a layaway (SalesHistoryPage, "Balances due"). Prefilled with the balance; cash is taken into this
+ * device's open till. The last payment completes the sale and hands over the items.
+ */
+export default function LayawayPaymentSheet({ sale, onClose, onDone }: LayawayPaymentSheetProps) {
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<LayawayPaymentMethod>('cash');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  /** Kept across retries of the same payment so a lost answer does not record it twice. */
+  const keyRef = useRef(uuidv4());
+  const till = useTillSession(sale?.warehouseId ?? '');
+
+  useEffect(() => {
+    setAmount(sale ? sale.balanceDue.toFixed(2) : '');
+    setMethod('cash');
+    setError(null);
+    keyRef.current = uuidv4();
+  }, [sale?.id]); // eslint-disable-line react-hooks/exhaustive-deps -- reset per layaway, not when the list refreshes
+
+  if (!sale) return null;
+
+  const value = parseFloat(amount);
+  const amountError = installmentError(value, sale.balanceDue);
+
+  async function handleSubmit() {
+    if (!sale || amountError || submitting) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const result = await recordLayawayPayment(
+        { saleId: sale.id, amount: Math.round(value * 100) / 100, paymentMethod: method, tillSessionId: till.session?.id ?? null },
+        keyRef.current
+      );
+      keyRef.current = uuidv4();
+      onDone(result);
+    } catch (e: unknown) {
+      setError(getUserFriendlyMessage(e));
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-slate-900/50" onClick={onClose} aria-hidden />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Layaway payment for ${sale.receiptId}`}
+        className="fixed bottom-0 left-0 right-0 z-50 mx-auto max-w-md rounded-t-2xl bg-[var(--edk-surface)] shadow-xl"
+      >
+        <div className="flex items-center justify-between border-b border-[var(--edk-border)] px-4 py-3">
+          <h3 className="text-[15px] font-bold text-[var(--edk-ink)]">Layaway payment · {sale.receiptId}</h3>
+          <button type="button" onClick={onClose} className="p-2 text-[var(--edk-ink-3)] hover:text-[var(--edk-ink)]" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <p className="text-[13px] text-[var(--edk-ink-2)]">
+            {sale.customerName ? `${sale.customerName} · ` : ''}Balance due {fmt(sale.balanceDue)}
+          </p>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step={0.01}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            aria-label="Amount"
+            className="w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px] text-[var(--edk-ink)]"
+          />
+          <div className="flex gap-1">
+            {METHODS.map((m) => (
+              <button
+                key={m.key}
+                type="button"
+                onClick={() => setMethod(m.key)}
+                className={`flex-1 h-8 rounded-xl text-[12px] font-bold
+                  ${method === m.key ? 'bg-[var(--edk-ink)] text-white' : 'bg-[var(--edk-surface-2)] text-[var(--edk-ink-3)]'}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+          {amount !== '' && amountError && <p className="text-[12px] font-semibold text-amber-600">{amountError}</p>}
+          {!amountError && Math.abs(value - sale.balanceDue) < 0.005 && (
+            <p className="text-[12px] text-[var(--edk-ink-2)]">Pays it off: the items can be handed over.</p>
+          )}
+          {error && <p className="text-[12px] font-semibold text-[var(--edk-red)]">{error}</p>}
+          <Button type="button" variant="primary" className="w-full" onClick={handleSubmit} disabled={amountError != null || submitting} loading={submitting}>
+            Take {amountError ? 'payment' : fmt(value)}
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
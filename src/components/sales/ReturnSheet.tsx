@@ -0,0 +1,363 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { apiGet } from '../../lib/apiClient';
+import { Button } from '../ui/Button';
+import type { POSProduct } from '../pos/SizePickerSheet';
+import {
+  estimateRefund,
+  recordReturn,
+  returnableQty,
+  type ExchangeLineInput,
+  type RecordReturnResponse,
+  type RefundMethod,
+  type ReturnableLine,
+} from '../../services/returnsApi';
+import { isApprovalError } from '../../services/managerApprovalApi';
+import ManagerApprovalSheet from '../pos/ManagerApprovalSheet';
+import { useTillSession } from '../../hooks/useTillSession';
+
+/**
+ * Partial return / size exchange for one sale (SalesHistoryPage).
+ * Return: pick lines + qty, refund method, reason. Exchange: additionally pick a replacement size of
+ * the same product for each returned line; the server records both in one transaction.
+ * Over the role's refund limit the server answers APPROVAL_REQUIRED; a manager enters their PIN and it retries.
+ */
+
+export interface ReturnSheetLine extends ReturnableLine {
+  productId: string;
+  sizeCode: string | null;
+  name: string;
+  sku: string;
+  unitPrice: number;
+}
+
+export interface ReturnSheetSale {
+  id: string;
+  receiptId: string;
+  warehouseId: string;
+  subtotal: number;
+  total: number;
+  discountAmt?: number;
+  /** Directory customer; enables refunding to store credit. */
+  customerId?: string | null;
+  lines: ReturnSheetLine[];
+}
+
+interface ReturnSheetProps {
+  sale: ReturnSheetSale | null;
+  apiBaseUrl: string;
+  onClose: () => void;
+  onDone: (result: RecordReturnResponse) => void;
+}
+
+type Mode = 'return' | 'exchange';
+
+const REFUND_METHODS: { key: RefundMethod; label: string }[] = [
+  { key: 'cash', label: 'Cash' },
+  { key: 'mobile_money', label: 'MoMo' },
+  { key: 'card', label: 'Card' },
+  { key: 'store_credit', label: 'Credit' },
+];
+
+function fmt(n: number) {
+  return `GH₵${Math.abs(n).toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export default function ReturnSheet({ sale, apiBaseUrl, onClose, onDone }: ReturnSheetProps) {
+  const [mode, setMode] = useState<Mode>('return');
+  const [qtyByLine, setQtyByLine] = useState<Record<string, number>>({});
+  const [exchangeSize, setExchangeSize] = useState<Record<string, string>>({});
+  const [products, setProducts] = useState<Record<string, POSProduct>>({});
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>('cash');
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [approvalReason, setApprovalReason] = useState<string | null>(null);
+  const requestedRef = useRef(new Set<string>());
+  /** Cash refunds come out of this device's open till, if any. */
+  const till = useTillSession(sale?.warehouseId ?? '');
+
+  useEffect(() => {
+    setMode('return');
+    setQtyByLine({});
+    setExchangeSize({});
+    setReason('');
+    setError(null);
+    setApprovalReason(null);
+  }, [sale?.id]);
+
+  const selection = useMemo(
+    () =>
+      Object.entries(qtyByLine)
+        .filter(([, qty]) => qty > 0)
+        .map(([saleLineId, qty]) => ({ saleLineId, qty })),
+    [qtyByLine]
+  );
+
+  // Exchange needs current sizes + price for each returned product.
+  const selectedProductIds = useMemo(() => {
+    if (!sale || mode !== 'exchange') return [];
+    const ids = selection
+      .map((s) => sale.lines.find((l) => l.id === s.saleLineId)?.productId)
+      .filter((id): id is string => Boolean(id));
+    return Array.from(new Set(ids));
+  }, [sale, mode, selection]);
+
+  useEffect(() => {
+    if (!sale) return;
+    const missing = selectedProductIds.filter((id) => !requestedRef.current.has(id));
+    if (missing.length === 0) return;
+    missing.forEach((id) => requestedRef.current.add(id));
+    Promise.all(
+      missing.map((id) =>
+        apiGet<POSProduct>(apiBaseUrl, `/api/products/${encodeURIComponent(id)}?warehouse_id=${encodeURIComponent(sale.warehouseId)}`)
+          .then((p) => [id, p] as const)
+          .catch(() => null)
+      )
+    ).then((rows) => {
+      const loaded = rows.filter((row): row is readonly [string, POSProduct] => row != null);
+      if (loaded.length === 0) return;
+      setProducts((prev) => {
+        const next = { ...prev };
+        for (const [id, product] of loaded) next[id] = product;
+        return next;
+      });
+    });
+  }, [sale, apiBaseUrl, selectedProductIds]);
+
+  if (!sale) return null;
+
+  const refund = estimateRefund(sale, selection);
+
+  const exchangeLines: ExchangeLineInput[] = mode === 'exchange'
+    ? selection.flatMap((s) => {
+        const line = sale.lines.find((l) => l.id === s.saleLineId);
+        const sizeCode = exchangeSize[s.saleLineId];
+        const product = line ? products[line.productId] : undefined;
+        if (!line || !sizeCode) return [];
+        return [{
+          productId: line.productId,
+          sizeCode,
+          qty: s.qty,
+          unitPrice: product?.sellingPrice ?? line.unitPrice,
+          name: line.name,
+          sku: line.sku,
+          imageUrl: product?.images?.[0] ?? null,
+        }];
+      })
+    : [];
+  const exchangeTotal = exchangeLines.reduce((sum, l) => sum + l.unitPrice * l.qty, 0);
+  const net = Math.round((exchangeTotal - refund) * 100) / 100;
+
+  const exchangeIncomplete = mode === 'exchange' && exchangeLines.length !== selection.length;
+  const canSubmit = selection.length > 0 && !exchangeIncomplete && !submitting;
+
+  const setQty = (lineId: string, qty: number, max: number) => {
+    setQtyByLine((prev) => ({ ...prev, [lineId]: Math.max(0, Math.min(max, qty)) }));
+  };
+
+  async function handleSubmit(managerApproval?: string) {
+    if (!sale || !canSubmit) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const result = await recordReturn(apiBaseUrl.replace(/\/$/, ''), {
+        saleId: sale.id,
+        lines: selection,
+        refundMethod,
+        reason: reason.trim() || null,
+        exchangeLines: mode === 'exchange' ? exchangeLines : undefined,
+        managerApproval: managerApproval ?? null,
+        tillSessionId: till.session?.id ?? null,
+      });
+      onDone(result);
+    } catch (e: unknown) {
+      if (isApprovalError(e)) {
+        setApprovalReason(e instanceof Error ? e.message : "This refund needs a manager's approval.");
+        return;
+      }
+      setError(e instanceof Error ? e.message : 'Return failed. Check your connection and try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-slate-900/50" onClick={onClose} aria-hidden />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Return items from ${sale.receiptId}`}
+        className="fixed bottom-0 left-0 right-0 z-50 max-h-[90vh] overflow-y-auto rounded-t-2xl bg-[var(--edk-surface)] shadow-xl"
+      >
+        <div className="sticky top-0 flex items-center justify-between border-b border-[var(--edk-border)] bg-[var(--edk-surface)] px-4 py-3">
+          <h3 className="text-[15px] font-bold text-[var(--edk-ink)]">Return / exchange · {sale.receiptId}</h3>
+          <button type="button" onClick={onClose} className="p-2 text-[var(--edk-ink-3)] hover:text-[var(--edk-ink)]" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="flex gap-1">
+            {(['return', 'exchange'] as Mode[]).map((m) => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => setMode(m)}
+                className={`flex-1 h-8 rounded-xl text-[12px] font-bold transition-all duration-150
+                  ${mode === m ? 'bg-[var(--edk-red)] text-white' : 'bg-[var(--edk-surface-2)] text-[var(--edk-ink-3)]'}`}
+              >
+                {m === 'return' ? 'Return' : 'Exchange size'}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            {sale.lines.map((line) => {
+              const max = returnableQty(line);
+              const qty = qtyByLine[line.id] ?? 0;
+              const product = products[line.productId];
+              const sizes = (product?.quantityBySize ?? []).filter(
+                (s) => s.sizeCode.toUpperCase() !== (line.sizeCode ?? '').toUpperCase()
+              );
+              return (
+                <div key={line.id} className="rounded-xl border border-[var(--edk-border)] px-3 py-2.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-[13px] font-semibold text-[var(--edk-ink)] truncate">
+                        {line.name}
+                        {line.sizeCode && <span className="text-[var(--edk-ink-3)] font-normal"> · {line.sizeCode}</span>}
+                      </p>
+                      <p className="text-[11px] text-[var(--edk-ink-3)]">
+                        {max > 0 ? `${max} of ${line.qty} returnable` : 'Already returned'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <button
+                        type="button"
+                        aria-label={`Fewer ${line.name}`}
+                        disabled={qty <= 0}
+                        onClick={() => setQty(line.id, qty - 1, max)}
+                        className="h-8 w-8 rounded-lg border border-[var(--edk-border)] font-medium disabled:opacity-40"
+                      >
+                        −
+                      </button>
+                      <span className="w-6 text-center text-[13px] font-bold tabular-nums">{qty}</span>
+                      <button
+                        type="button"
+                        aria-label={`More ${line.name}`}
+                        disabled={qty >= max}
+                        onClick={() => setQty(line.id, qty + 1, max)}
+                        className="h-8 w-8 rounded-lg border border-[var(--edk-border)] font-medium disabled:opacity-40"
+                      >
+                        +
+                      </button>
+                    </div>
+                  </div>
+
+                  {mode === 'exchange' && qty > 0 && (
+                    <div className="mt-2">
+                      {!product ? (
+                        <p className="text-[11px] text-[var(--edk-ink-3)]">Loading sizes…</p>
+                      ) : sizes.length === 0 ? (
+                        <p className="text-[11px] text-[var(--edk-ink-3)]">No other sizes for this product.</p>
+                      ) : (
+                        <div className="grid grid-cols-4 gap-1.5">
+                          {sizes.map((s) => (
+                            <button
+                              key={s.sizeCode}
+                              type="button"
+                              disabled={s.quantity < qty}
+                              onClick={() => setExchangeSize((prev) => ({ ...prev, [line.id]: s.sizeCode }))}
+                              className={`rounded-lg border py-1.5 text-[12px] font-semibold disabled:opacity-40
+                                ${exchangeSize[line.id] === s.sizeCode
+                                  ? 'border-[var(--edk-red)] bg-[var(--edk-red-soft)] text-[var(--edk-red)]'
+                                  : 'border-[var(--edk-border)] text-[var(--edk-ink-2)]'}`}
+                            >
+                              {s.sizeLabel ?? s.sizeCode}
+                              <span className="block text-[10px] font-normal text-[var(--edk-ink-3)]">{s.quantity} left</span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div>
+            <p className="text-[12px] font-semibold text-[var(--edk-ink-2)] mb-1.5">
+              {mode === 'exchange' ? 'Settle difference by' : 'Refund method'}
+            </p>
+            <div className="flex gap-1">
+              {REFUND_METHODS.filter((m) => m.key !== 'store_credit' || sale.customerId).map((m) => (
+                <button
+                  key={m.key}
+                  type="button"
+                  onClick={() => setRefundMethod(m.key)}
+                  className={`flex-1 h-8 rounded-xl text-[12px] font-bold
+                    ${refundMethod === m.key ? 'bg-[var(--edk-ink)] text-white' : 'bg-[var(--edk-surface-2)] text-[var(--edk-ink-3)]'}`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (e.g. wrong size)"
+            className="w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px] text-[var(--edk-ink)]"
+          />
+
+          <div className="rounded-xl bg-[var(--edk-surface-2)] px-3 py-2.5 space-y-1 text-[13px]">
+            <div className="flex justify-between">
+              <span className="text-[var(--edk-ink-2)]">Returned value</span>
+              <span className="tabular-nums">{fmt(refund)}</span>
+            </div>
+            {mode === 'exchange' && (
+              <div className="flex justify-between">
+                <span className="text-[var(--edk-ink-2)]">Exchange items</span>
+                <span className="tabular-nums">{fmt(exchangeTotal)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-bold pt-1">
+              <span>{mode === 'exchange' && net > 0 ? 'Customer pays' : 'Refund to customer'}</span>
+              <span className="tabular-nums">{fmt(mode === 'exchange' ? net : refund)}</span>
+            </div>
+          </div>
+
+          {error && <p className="text-[12px] font-semibold text-[var(--edk-red)]">{error}</p>}
+
+          <Button
+            type="button"
+            variant="primary"
+            className="w-full"
+            onClick={() => handleSubmit()}
+            disabled={!canSubmit}
+            loading={submitting}
+          >
+            {mode === 'exchange' ? 'Complete exchange' : 'Complete return'}
+          </Button>
+        </div>
+      </div>
+      <ManagerApprovalSheet
+        open={approvalReason != null}
+        action="refund"
+        amount={refund}
+        saleId={sale.id}
+        warehouseId={sale.warehouseId}
+        reason={approvalReason}
+        onCancel={() => setApprovalReason(null)}
+        onApproved={(a) => {
+          setApprovalReason(null);
+          void handleSubmit(a.token);
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { KeyRound, Save } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { getUserFriendlyMessage } from '../../lib/errorMessages';
+import { queryKeys } from '../../lib/queryKeys';
+import {
+  fetchRoleLimits,
+  setManagerPin,
+  updateRoleLimits,
+  type RoleLimits,
+} from '../../services/managerApprovalApi';
+import { Button } from '../ui/Button';
+
+type LimitDraft = { maxDiscountPct: string; maxRefundAmount: string; requireApprovalVoid: boolean; requireApprovalRefund: boolean };
+
+function toDraft(l: RoleLimits): LimitDraft {
+  return {
+    maxDiscountPct: l.maxDiscountPct == null ? '' : String(l.maxDiscountPct),
+    maxRefundAmount: l.maxRefundAmount == null ? '' : String(l.maxRefundAmount),
+    requireApprovalVoid: l.requireApprovalVoid,
+    requireApprovalRefund: l.requireApprovalRefund,
+  };
+}
+
+/** Empty = no limit. */
+function parseLimit(v: string): number | null {
+  return v.trim() === '' ? null : Number(v);
+}
+
+/**
+ * Manager overrides: each manager sets the PIN they type on a cashier's device, and admins set how far each role
+ * can go (discount %, refund amount, voids / refunds) before that PIN is needed.
+ */
+export function ApprovalSettings() {
+  const { hasRole } = useAuth();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const isAdmin = hasRole(['admin', 'super_admin']);
+  const canApprove = hasRole(['admin', 'super_admin', 'manager']);
+
+  const [pin, setPin] = useState('');
+  const [pinConfirm, setPinConfirm] = useState('');
+  const [savingPin, setSavingPin] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, LimitDraft>>({});
+  const [savingRole, setSavingRole] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({ queryKey: [...queryKeys.roleLimits(), 'all'], queryFn: fetchRoleLimits });
+  const rows = data?.data ?? [];
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries((data?.data ?? []).map((l) => [l.role, toDraft(l)])));
+  }, [data]);
+
+  async function handlePinSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!/^\d{4,8}$/.test(pin)) {
+      showToast('error', 'PIN must be 4 to 8 digits.');
+      return;
+    }
+    if (pin !== pinConfirm) {
+      showToast('error', 'PINs do not match.');
+      return;
+    }
+    setSavingPin(true);
+    try {
+      await setManagerPin(pin);
+      setPin('');
+      setPinConfirm('');
+      showToast('success', 'Approval PIN saved.');
+    } catch (err) {
+      showToast('error', getUserFriendlyMessage(err));
+    } finally {
+      setSavingPin(false);
+    }
+  }
+
+  async function saveRole(role: string) {
+    const d = drafts[role];
+    if (!d) return;
+    setSavingRole(role);
+    try {
+      await updateRoleLimits(role, {
+        maxDiscountPct: parseLimit(d.maxDiscountPct),
+        maxRefundAmount: parseLimit(d.maxRefundAmount),
+        requireApprovalVoid: d.requireApprovalVoid,
+        requireApprovalRefund: d.requireApprovalRefund,
+      });
+      await queryClient.invalidateQueries({ queryKey: queryKeys.roleLimits() });
+      showToast('success', `Limits for ${role} saved.`);
+    } catch (err) {
+      showToast('error', getUserFriendlyMessage(err));
+    } finally {
+      setSavingRole(null);
+    }
+  }
+
+  const setDraft = (role: string, patch: Partial<LimitDraft>) =>
+    setDrafts((prev) => ({ ...prev, [role]: { ...prev[role], ...patch } }));
+
+  return (
+    <div className="space-y-6">
+      {canApprove && (
+        <div className="solid-card animate-fade-in-up">
+          <div className="flex items-center gap-3 mb-2">
+            <KeyRound className="w-6 h-6 text-primary-600" />
+            <h2 className="text-xl font-bold text-slate-900">Your approval PIN</h2>
+          </div>
+          <p className="text-sm text-slate-500 mb-4">
+            Type this on a cashier&apos;s till, with your email, to approve a discount, void or refund above their limit.
+          </p>
+          <form onSubmit={handlePinSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">New PIN</label>
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                className="input-field"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Confirm PIN</label>
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                value={pinConfirm}
+                onChange={(e) => setPinConfirm(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                className="input-field"
+              />
+            </div>
+            <Button type="submit" variant="primary" loading={savingPin} leftIcon={<Save className="w-4 h-4" />}>
+              Save PIN
+            </Button>
+          </form>
+        </div>
+      )}
+
+      <div className="solid-card animate-fade-in-up">
+        <h2 className="text-xl font-bold text-slate-900 mb-2">Role limits</h2>
+        <p className="text-sm text-slate-500 mb-4">
+          Leave a limit empty for no limit. Admins are never limited; roles not listed use the cashier limits.
+        </p>
+        {data?.mine && (
+          <p className="text-sm text-slate-700 mb-4">
+            Your role ({data.mine.role}): discounts up to {data.mine.maxDiscountPct ?? '∞'}%, refunds up to{' '}
+            {data.mine.maxRefundAmount == null ? 'any amount' : `GH₵${data.mine.maxRefundAmount.toLocaleString('en-GH')}`}.
+          </p>
+        )}
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading…</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-slate-500">Only managers can see every role&apos;s limits.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="py-2 pr-3">Role</th>
+                  <th className="py-2 pr-3">Max discount %</th>
+                  <th className="py-2 pr-3">Max refund (GH₵)</th>
+                  <th className="py-2 pr-3">Voids need approval</th>
+                  <th className="py-2 pr-3">Refunds need approval</th>
+                  {isAdmin && <th className="py-2" />}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((l) => {
+                  const d = drafts[l.role] ?? toDraft(l);
+                  return (
+                    <tr key={l.role} className="border-b border-slate-100">
+                      <td className="py-2 pr-3 font-medium capitalize">{l.role}</td>
+                      <td className="py-2 pr-3">
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={d.maxDiscountPct}
+                          disabled={!isAdmin}
+                          onChange={(e) => setDraft(l.role, { maxDiscountPct: e.target.value })}
+                          className="input-field w-24"
+                        />
+                      </td>
+                      <td className="py-2 pr-3">
+                        <input
+                          type="number"
+                          min={0}
+                          value={d.maxRefundAmount}
+                          disabled={!isAdmin}
+                          onChange={(e) => setDraft(l.role, { maxRefundAmount: e.target.value })}
+                          className="input-field w-28"
+                        />
+                      </td>
+                      <td className="py-2 pr-3">
+                        <input
+                          type="checkbox"
+                          checked={d.requireApprovalVoid}
+                          disabled={!isAdmin}
+                          onChange={(e) => setDraft(l.role, { requireApprovalVoid: e.target.checked })}
+                          aria-label={`Voids need approval for ${l.role}`}
+                        />
+                      </td>
+                      <td className="py-2 pr-3">
+                        <input
+                          type="checkbox"
+                          checked={d.requireApprovalRefund}
+                          disabled={!isAdmin}
+                          onChange={(e) => setDraft(l.role, { requireApprovalRefund: e.target.checked })}
+                          aria-label={`Refunds need approval for ${l.role}`}
+                        />
+                      </td>
+                      {isAdmin && (
+                        <td className="py-2">
+                          <Button
+                            type="button"
+                            variant="secondary"
+                            size="sm"
+                            loading={savingRole === l.role}
+                            onClick={() => saveRole(l.role)}
+                          >
+                            Save
+                          </Button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -124,21 +124,6 @@ export function BusinessProfile() {
             />
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-slate-700 mb-1">
-              Tax Rate (%) *
-            </label>
-            <input
-              type="number"
-              step="0.01"
-              value={formData.taxRate}
-              onChange={e => setFormData({ ...formData, taxRate: parseFloat(e.target.value) })}
-              className="input-field"
-              required
-              aria-required="true"
-            />
-          </div>
-
           <div className="md:col-span-2">
             <label className="block text-sm font-medium text-slate-700 mb-1">
               Address *
@@ -0,0 +1,418 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Percent, Plus, Save, Trash2 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useInventory } from '../../contexts/InventoryContext';
+import { useToast } from '../../contexts/ToastContext';
+import { getUserFriendlyMessage } from '../../lib/errorMessages';
+import { queryKeys } from '../../lib/queryKeys';
+import { effectiveTaxRate, STANDARD_COMPONENTS } from '../../lib/tax';
+import {
+  createTaxClass,
+  fetchTaxSetup,
+  setCategoryTaxClass,
+  updateTaxClass,
+  type TaxClass,
+  type TaxComponent,
+} from '../../services/taxApi';
+import { Button } from '../ui/Button';
+
+type ComponentDraft = { code: string; label: string; rate: string; compound: boolean };
+type ClassDraft = { code: string; name: string; inclusive: boolean; components: ComponentDraft[]; isDefault: boolean; active: boolean };
+
+function toComponentDrafts(components: TaxComponent[]): ComponentDraft[] {
+  return components.map((c) => ({ code: c.code, label: c.label, rate: String(c.rate), compound: c.compound }));
+}
+
+function toDraft(c: TaxClass): ClassDraft {
+  return {
+    code: c.code,
+    name: c.name,
+    inclusive: c.inclusive,
+    components: toComponentDrafts(c.components),
+    isDefault: c.isDefault,
+    active: c.active,
+  };
+}
+
+function parseComponents(drafts: ComponentDraft[]): TaxComponent[] {
+  return drafts.map((d) => ({
+    code: d.code.trim().toUpperCase(),
+    label: d.label.trim() || d.code.trim().toUpperCase(),
+    rate: Number(d.rate),
+    compound: d.compound,
+  }));
+}
+
+const EMPTY_DRAFT: ClassDraft = {
+  code: '',
+  name: '',
+  inclusive: true,
+  components: toComponentDrafts(STANDARD_COMPONENTS),
+  isDefault: false,
+  active: true,
+};
+
+function ComponentsEditor({
+  components,
+  disabled,
+  onChange,
+}: {
+  components: ComponentDraft[];
+  disabled: boolean;
+  onChange: (components: ComponentDraft[]) => void;
+}) {
+  const set = (i: number, patch: Partial<ComponentDraft>) =>
+    onChange(components.map((c, j) => (j === i ? { ...c, ...patch } : c)));
+  return (
+    <div className="space-y-2">
+      {components.map((c, i) => (
+        <div key={i} className="flex flex-wrap items-center gap-2">
+          <input
+            value={c.code}
+            disabled={disabled}
+            onChange={(e) => set(i, { code: e.target.value.toUpperCase() })}
+            placeholder="VAT"
+            className="input-field w-24"
+            aria-label="Component code"
+          />
+          <input
+            value={c.label}
+            disabled={disabled}
+            onChange={(e) => set(i, { label: e.target.value })}
+            placeholder="Label on receipts"
+            className="input-field w-40"
+            aria-label="Component label"
+          />
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step="0.01"
+            value={c.rate}
+            disabled={disabled}
+            onChange={(e) => set(i, { rate: e.target.value })}
+            className="input-field w-20"
+            aria-label="Rate %"
+          />
+          <label className="flex items-center gap-1 text-xs text-slate-600">
+            <input
+              type="checkbox"
+              checked={c.compound}
+              disabled={disabled}
+              onChange={(e) => set(i, { compound: e.target.checked })}
+            />
+            On top of levies
+          </label>
+          {!disabled && (
+            <button
+              type="button"
+              onClick={() => onChange(components.filter((_, j) => j !== i))}
+              className="p-1 text-slate-400 hover:text-red-600"
+              aria-label={`Remove ${c.code || 'component'}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      {!disabled && (
+        <button
+          type="button"
+          onClick={() => onChange([...components, { code: '', label: '', rate: '0', compound: false }])}
+          className="text-xs font-medium text-primary-600 hover:underline"
+        >
+          + Add component
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Tax classes (rates per component, prices with or without tax) and which class each product category falls under.
+ * A product's own class, set on the product, wins over its category's. Everyone can see the setup; managers edit it.
+ */
+export function TaxSettings() {
+  const { hasRole } = useAuth();
+  const { showToast } = useToast();
+  const { products } = useInventory();
+  const queryClient = useQueryClient();
+  const canEdit = hasRole(['admin', 'super_admin', 'manager']);
+
+  const [drafts, setDrafts] = useState<Record<string, ClassDraft>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [newDraft, setNewDraft] = useState<ClassDraft | null>(null);
+  const [savingCategory, setSavingCategory] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({ queryKey: queryKeys.taxClasses(), queryFn: fetchTaxSetup });
+  const classes = data?.classes ?? [];
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries((data?.classes ?? []).map((c) => [c.id, toDraft(c)])));
+  }, [data]);
+
+  const categories = useMemo(() => {
+    const names = new Set<string>();
+    for (const p of products) if (p.category?.trim()) names.add(p.category.trim().toLowerCase());
+    for (const c of data?.categories ?? []) names.add(c.category);
+    return Array.from(names).sort();
+  }, [products, data]);
+  const defaultClass = classes.find((c) => c.isDefault);
+
+  async function saveClass(id: string) {
+    const d = drafts[id];
+    if (!d) return;
+    setSavingId(id);
+    try {
+      await updateTaxClass(id, {
+        name: d.name.trim(),
+        inclusive: d.inclusive,
+        components: parseComponents(d.components),
+        isDefault: d.isDefault,
+        active: d.active,
+      });
+      await queryClient.invalidateQueries({ queryKey: queryKeys.taxClasses() });
+      showToast('success', `${d.name.trim()} saved.`);
+    } catch (err) {
+      showToast('error', getUserFriendlyMessage(err));
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  async function saveNewClass(e: React.FormEvent) {
+    e.preventDefault();
+    if (!newDraft) return;
+    setSavingId('new');
+    try {
+      await createTaxClass({
+        code: newDraft.code.trim().toLowerCase(),
+        name: newDraft.name.trim(),
+        inclusive: newDraft.inclusive,
+        components: parseComponents(newDraft.components),
+        isDefault: newDraft.isDefault,
+      });
+      await queryClient.invalidateQueries({ queryKey: queryKeys.taxClasses() });
+      showToast('success', `${newDraft.name.trim()} added.`);
+      setNewDraft(null);
+    } catch (err) {
+      showToast('error', getUserFriendlyMessage(err));
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  async function assignCategory(category: string, taxClassId: string | null) {
+    setSavingCategory(category);
+    try {
+      await setCategoryTaxClass(category, taxClassId);
+      await queryClient.invalidateQueries({ queryKey: queryKeys.taxClasses() });
+      showToast('success', `Tax class for ${category} saved.`);
+    } catch (err) {
+      showToast('error', getUserFriendlyMessage(err));
+    } finally {
+      setSavingCategory(null);
+    }
+  }
+
+  const setDraft = (id: string, patch: Partial<ClassDraft>) =>
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+
+  return (
+    <div className="space-y-6">
+      <div className="solid-card animate-fade-in-up">
+        <div className="flex items-center justify-between gap-3 mb-2">
+          <div className="flex items-center gap-3">
+            <Percent className="w-6 h-6 text-primary-600" />
+            <h2 className="text-xl font-bold text-slate-900">Tax classes</h2>
+          </div>
+          {canEdit && !newDraft && (
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              leftIcon={<Plus className="w-4 h-4" />}
+              onClick={() => setNewDraft({ ...EMPTY_DRAFT })}
+            >
+              New class
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-slate-500 mb-4">
+          Levies (NHIL, GETFund, COVID-19) are charged on the price before tax; components marked &quot;on top of
+          levies&quot; (VAT) on the price plus levies. Products without a class of their own use their category&apos;s
+          class, else the default.
+        </p>
+
+        {newDraft && (
+          <form onSubmit={saveNewClass} className="border border-slate-200 rounded-lg p-4 mb-4 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Code</label>
+                <input
+                  value={newDraft.code}
+                  onChange={(e) => setNewDraft({ ...newDraft, code: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_') })}
+                  placeholder="e.g. flat_rate"
+                  className="input-field"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+                <input
+                  value={newDraft.name}
+                  onChange={(e) => setNewDraft({ ...newDraft, name: e.target.value })}
+                  className="input-field"
+                  required
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={newDraft.inclusive}
+                onChange={(e) => setNewDraft({ ...newDraft, inclusive: e.target.checked })}
+              />
+              Prices include this tax
+            </label>
+            <ComponentsEditor
+              components={newDraft.components}
+              disabled={false}
+              onChange={(components) => setNewDraft({ ...newDraft, components })}
+            />
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="secondary" size="sm" onClick={() => setNewDraft(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="primary" size="sm" loading={savingId === 'new'} leftIcon={<Save className="w-4 h-4" />}>
+                Add class
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading…</p>
+        ) : classes.length === 0 ? (
+          <p className="text-sm text-slate-500">No tax classes yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {classes.map((c) => {
+              const d = drafts[c.id] ?? toDraft(c);
+              return (
+                <div key={c.id} className="border border-slate-200 rounded-lg p-4 space-y-3">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <input
+                      value={d.name}
+                      disabled={!canEdit}
+                      onChange={(e) => setDraft(c.id, { name: e.target.value })}
+                      className="input-field w-56"
+                      aria-label="Class name"
+                    />
+                    <span className="text-xs text-slate-500 font-mono">{c.code}</span>
+                    <span className="text-xs text-slate-500">
+                      {effectiveTaxRate(parseComponents(d.components)).toFixed(2)}% effective
+                    </span>
+                    {c.isDefault && (
+                      <span className="text-xs font-semibold text-primary-700 bg-primary-50 rounded px-2 py-0.5">Default</span>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-4 text-sm text-slate-700">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={d.inclusive}
+                        disabled={!canEdit}
+                        onChange={(e) => setDraft(c.id, { inclusive: e.target.checked })}
+                      />
+                      Prices include this tax
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={d.isDefault}
+                        disabled={!canEdit || c.isDefault}
+                        onChange={(e) => setDraft(c.id, { isDefault: e.target.checked })}
+                      />
+                      Default class
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={d.active}
+                        disabled={!canEdit || c.isDefault}
+                        onChange={(e) => setDraft(c.id, { active: e.target.checked })}
+                      />
+                      In use
+                    </label>
+                  </div>
+                  <ComponentsEditor
+                    components={d.components}
+                    disabled={!canEdit}
+                    onChange={(components) => setDraft(c.id, { components })}
+                  />
+                  {canEdit && (
+                    <div className="flex justify-end">
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        size="sm"
+                        loading={savingId === c.id}
+                        leftIcon={<Save className="w-4 h-4" />}
+                        onClick={() => saveClass(c.id)}
+                      >
+                        Save
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="solid-card animate-fade-in-up">
+        <h2 className="text-xl font-bold text-slate-900 mb-2">Categories</h2>
+        <p className="text-sm text-slate-500 mb-4">
+          Every product in a category uses this class unless the product has its own.
+        </p>
+        {categories.length === 0 ? (
+          <p className="text-sm text-slate-500">No product categories yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {categories.map((category) => {
+                const current = data?.categories.find((m) => m.category === category)?.taxClassId ?? '';
+                return (
+                  <tr key={category} className="border-b border-slate-100">
+                    <td className="py-2 pr-3 font-medium capitalize">{category}</td>
+                    <td className="py-2">
+                      <select
+                        value={current}
+                        disabled={!canEdit || savingCategory === category}
+                        onChange={(e) => assignCategory(category, e.target.value || null)}
+                        className="input-field w-64"
+                        aria-label={`Tax class for ${category}`}
+                      >
+                        <option value="">Default{defaultClass ? ` (${defaultClass.name})` : ''}</option>
+                        {classes
+                          .filter((c) => c.active || c.id === current)
+                          .map((c) => (
+                            <option key={c.id} value={c.id}>
+                              {c.name}
+                            </option>
+                          ))}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
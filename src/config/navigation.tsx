@@ -14,6 +14,14 @@ import {
   Users,
   Receipt,
   Truck,
+  ArrowLeftRight,
+  PackagePlus,
+  ClipboardCheck,
+  ScanLine,
+  Contact,
+  Tag,
+  Scale,
+  FileUp,
 } from 'lucide-react';
 import { PERMISSIONS, type Permission } from '../types/permissions';
 
@@ -32,6 +40,14 @@ export const baseNavigation: NavItem[] = [
   { name: 'POS', to: '/pos', icon: ShoppingCart, permission: PERMISSIONS.POS.ACCESS },
   { name: 'Sales', to: '/sales', icon: Receipt, permission: PERMISSIONS.REPORTS.VIEW_SALES },
   { name: 'Deliveries', to: '/deliveries', icon: Truck, permission: PERMISSIONS.DELIVERIES.VIEW },
+  { name: 'Customers', to: '/customers', icon: Contact, permission: PERMISSIONS.CUSTOMERS.VIEW },
+  { name: 'Promotions', to: '/promotions', icon: Tag, permission: PERMISSIONS.PROMOTIONS.MANAGE },
+  { name: 'Receiving', to: '/receiving', icon: PackagePlus, permission: PERMISSIONS.INVENTORY.RECEIVE },
+  { name: 'Purchasing', to: '/purchasing', icon: ClipboardCheck, permission: PERMISSIONS.INVENTORY.PURCHASE },
+  { name: 'Transfers', to: '/transfers', icon: ArrowLeftRight, permission: PERMISSIONS.INVENTORY.TRANSFER },
+  { name: 'Stock take', to: '/stock-take', icon: ScanLine, permission: PERMISSIONS.INVENTORY.STOCK_TAKE },
+  { name: 'Reconciliation', to: '/reconciliation', icon: Scale, permission: PERMISSIONS.SETTINGS.UPDATE_SYSTEM },
+  { name: 'Import', to: '/import', icon: FileUp, permission: PERMISSIONS.SETTINGS.UPDATE_SYSTEM },
   {
     name: 'Reports',
     to: '/reports',
@@ -25,6 +25,14 @@ import { useAuth } from './AuthContext';
 import { getCategoryDisplay, normalizeProductLocation, normalizeQuantityBySize } from '../lib/utils';
 import { parseProductsResponse } from '../lib/apiSchemas';
 import { getProductImages, setProductImages } from '../lib/productImagesStore';
+import {
+  applySizeRowChange,
+  fetchProductChangeCursor,
+  fetchProductChanges,
+  mergeProductChanges,
+  type SizeRowChange,
+} from '../services/productChangesApi';
+import { mergeProductsFromApi } from '../db/inventoryDB';
 
 /** React Query is the only cache for products; invalidate on Realtime and after mutations. */
 
@@ -49,26 +57,32 @@ function normalizeProductRow(p: any): Product {
 /** Default page size for initial load so new products (e.g. by name) stay visible after save; 250 matches API max. */
 const INITIAL_PRODUCTS_PAGE_SIZE = 250;
 
+/** Products query data. cursor: where incremental sync (/api/products/changes) continues from; absent = full refetch. */
+type ProductsQueryData = { list: Product[]; total?: number; cursor?: string };
+
 /** In-flight products fetches by logical key to prevent duplicate concurrent requests. */
-const productsFetchInFlight = new Map<string, Promise<{ list: Product[]; total?: number }>>();
+const productsFetchInFlight = new Map<string, Promise<ProductsQueryData>>();
 
 /**
  * Fetch products for a warehouse (Phase 6 Part 2: used as React Query queryFn).
  * When initialPageSize is set, fetches only the first page (API-side pagination).
  * When omitted, fetches all pages (legacy; avoid for initial load).
  * Deduplicates concurrent identical requests (same warehouse + options).
+ * Reads the change cursor first, so changes made while the pages load are picked up by the next incremental sync.
  */
 export async function fetchProductsForWarehouse(
   wid: string,
   opts?: { signal?: AbortSignal; timeoutMs?: number; initialPageSize?: number }
-): Promise<{ list: Product[]; total?: number }> {
+): Promise<ProductsQueryData> {
   const initialOnly = opts?.initialPageSize != null && opts.initialPageSize > 0;
   const pageLimit = initialOnly ? Math.min(opts!.initialPageSize!, 250) : 250;
   const dedupeKey = `${wid}:${pageLimit}:${initialOnly ? 'list' : 'full'}`;
   const existing = productsFetchInFlight.get(dedupeKey);
   if (existing) return existing;
 
-  const run = async (): Promise<{ list: Product[]; total?: number }> => {
+  const run = async (): Promise<ProductsQueryData> => {
+    // Older servers have no change feed: no cursor, and realtime falls back to full refetches.
+    const cursor = await fetchProductChangeCursor(wid, { signal: opts?.signal }).catch(() => undefined);
     const PRODUCTS_REQUEST_TIMEOUT_MS = 55_000;
     const getOpts = { signal: opts?.signal, timeoutMs: opts?.timeoutMs ?? PRODUCTS_REQUEST_TIMEOUT_MS, maxRetries: 3 };
     const allItems: Product[] = [];
@@ -103,7 +117,7 @@ export async function fetchProductsForWarehouse(
       if (initialOnly || page.length < pageLimit || (typeof totalFromApi === 'number' && allItems.length >= totalFromApi)) break;
       offset += pageLimit;
     }
-    return { list: allItems, total: totalFromApi };
+    return { list: allItems, total: totalFromApi, cursor };
   };
 
   const promise = run().finally(() => {
@@ -289,9 +303,10 @@ export function InventoryProvider({ children }: { children: ReactNode }) {
   }, [queryError, productsQuery.isSuccess, productsQuery.isFetching]);
 
   const setProductsQueryData = useCallback(
-    (updater: (old: { list: Product[]; total?: number } | undefined) => { list: Product[]; total?: number }) => {
+    (updater: (old: ProductsQueryData | undefined) => ProductsQueryData) => {
       if (!isValidWarehouseId(warehouseId)) return;
-      queryClient.setQueryData(queryKeys.products(warehouseId), updater);
+      // Writers only set list/total; the sync cursor carries over.
+      queryClient.setQueryData<ProductsQueryData>(queryKeys.products(warehouseId), (old) => ({ cursor: old?.cursor, ...updater(old) }));
     },
     [queryClient, warehouseId]
   );
@@ -436,14 +451,74 @@ export function InventoryProvider({ children }: { children: ReactNode }) {
     }
   }, [queryClient, warehouseId]);
 
-  useInventoryRealtime(warehouseId, { onRefetch: invalidateProducts });
-  useRealtimeSync({ onSync: invalidateProducts, intervalMs: 30_000 });
+  /**
+   * Incremental sync: fetch what changed since the cursor and merge it into the products query and Dexie. Without a
+   * cursor (older server) or when too much changed, falls back to a full refetch.
+   */
+  const productSyncInFlightRef = useRef<Promise<void> | null>(null);
+  const syncProductChanges = useCallback((): Promise<void> => {
+    if (!isValidWarehouseId(warehouseId)) return Promise.resolve();
+    if (productSyncInFlightRef.current) return productSyncInFlightRef.current;
+    const key = queryKeys.products(warehouseId);
+    const since = queryClient.getQueryData<ProductsQueryData>(key)?.cursor;
+    if (!since) {
+      invalidateProducts();
+      return Promise.resolve();
+    }
+    const run = async () => {
+      try {
+        const changes = await fetchProductChanges(warehouseId, since);
+        if (changes.truncated) {
+          invalidateProducts();
+          return;
+        }
+        const changed = changes.items
+          .filter((p) => p != null && typeof p === 'object')
+          .map((p) => normalizeProductRow(p));
+        queryClient.setQueryData<ProductsQueryData>(key, (old) => {
+          if (!old) return old;
+          // A partly loaded list gets new products with its next page (loadMore), not appended here.
+          const complete = typeof old.total !== 'number' || old.list.length >= old.total;
+          const merged = mergeProductChanges(old.list, changed, changes.deleted, { appendNew: complete });
+          return {
+            list: merged.list,
+            total: typeof old.total === 'number' ? old.total + merged.added - merged.removed : old.total,
+            cursor: changes.cursor,
+          };
+        });
+        void mergeProductsFromApi(changed, changes.deleted);
+      } catch (e) {
+        // Cursor unchanged, so the next sync catches up; an older server without the endpoint gets a full refetch.
+        if ((e as { status?: number })?.status === 404) invalidateProducts();
+      }
+    };
+    const promise = run().finally(() => {
+      productSyncInFlightRef.current = null;
+    });
+    productSyncInFlightRef.current = promise;
+    return promise;
+  }, [queryClient, warehouseId, invalidateProducts]);
+
+  /** Stock from the realtime payload, patched in before the change sync returns. */
+  const applySizeRow = useCallback(
+    (change: SizeRowChange) => {
+      setProductsQueryData((old) => ({ list: applySizeRowChange(old?.list ?? [], change), total: old?.total }));
+    },
+    [setProductsQueryData]
+  );
+
+  useInventoryRealtime(warehouseId, {
+    onRefetch: invalidateProducts,
+    onProductChanges: syncProductChanges,
+    onSizeRow: applySizeRow,
+  });
+  useRealtimeSync({ onSync: syncProductChanges, intervalMs: 30_000 });
 
   // When tab becomes visible (e.g. user returns from another device/browser), invalidate all list caches so mobile/desktop stay in sync.
   useEffect(() => {
     const onVisible = () => {
       if (document.visibilityState === 'visible') {
-        queryClient.invalidateQueries({ queryKey: ['products'] });
+        void syncProductChanges();
         queryClient.invalidateQueries({ queryKey: ['dashboard'] });
         queryClient.invalidateQueries({ queryKey: ['sales'] });
         queryClient.invalidateQueries({ queryKey: ['pos-products'] });
@@ -452,7 +527,7 @@ export function InventoryProvider({ children }: { children: ReactNode }) {
     };
     document.addEventListener('visibilitychange', onVisible);
     return () => document.removeEventListener('visibilitychange', onVisible);
-  }, [queryClient]);
+  }, [queryClient, syncProductChanges]);
 
   useEffect(() => {
     const onRetry = () => invalidateProducts();
@@ -502,6 +577,8 @@ export function InventoryProvider({ children }: { children: ReactNode }) {
       ...(product.version !== undefined && { version: product.version }),
       sizeKind: product.sizeKind ?? 'na',
       quantityBySize: Array.isArray(product.quantityBySize) ? product.quantityBySize : [],
+      ...(product.taxClassId !== undefined && { taxClassId: product.taxClassId }),
+      ...(product.color !== undefined && { color: product.color }),
       ...((product as Product & { warehouseId?: string }).warehouseId != null && { warehouseId: (product as Product & { warehouseId?: string }).warehouseId }),
     };
   };
@@ -688,10 +765,11 @@ export function InventoryProvider({ children }: { children: ReactNode }) {
       queryClient.refetchQueries({ queryKey: queryKeys.dashboard(warehouseId, today) });
       // Refetch products so server is source of truth; then ensure new product stays visible if it's outside first page (e.g. name order puts it after first 50).
       await queryClient.refetchQueries({ queryKey: queryKeys.products(warehouseId) });
-      queryClient.setQueryData(queryKeys.products(warehouseId), (old: { list: Product[]; total?: number } | undefined) => {
+      queryClient.setQueryData(queryKeys.products(warehouseId), (old: ProductsQueryData | undefined) => {
         if (!old?.list) return old;
         if (old.list.some((p) => p.id === resolvedId)) return old;
         return {
+          ...old,
           list: [normalized, ...old.list],
           total: typeof old.total === 'number' ? old.total + 1 : old.total,
         };
@@ -1,4 +1,5 @@
-import { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
+import { createContext, useContext, useState, ReactNode, useEffect, useCallback, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Transaction, TransactionItem, Payment } from '../types';
 import { useInventory } from './InventoryContext';
 import { useAuth } from './AuthContext';
@@ -8,6 +9,15 @@ import { generateTransactionNumber, calculateTotal } from '../lib/utils';
 import { getStoredData, setStoredData, isStorageAvailable } from '../lib/storage';
 import { API_BASE_URL } from '../lib/api';
 import { apiPost } from '../lib/apiClient';
+import { queryKeys } from '../lib/queryKeys';
+import { cartTax, FALLBACK_TAX_SETUP } from '../lib/tax';
+import { fetchTaxSetup } from '../services/taxApi';
+import {
+  getPendingSaleCount,
+  getStuckSaleCount,
+  replayQueuedSales,
+  SALE_QUEUE_CHANGED_EVENT,
+} from '../services/offlineSaleQueue';
 
 interface POSContextType {
   cart: TransactionItem[];
@@ -23,14 +33,16 @@ interface POSContextType {
   processTransaction: (payments: Payment[], customer?: any) => Promise<Transaction>;
   isOnline: boolean;
   pendingSyncCount: number;
+  /** Offline sales the server refused, waiting for the cashier to retry or discard them. */
+  stuckSaleCount: number;
   refreshPendingSyncCount: () => Promise<void>;
   syncNow: () => Promise<void>;
 }
 
 const POSContext = createContext<POSContextType | undefined>(undefined);
 
-// Ghana VAT is 15%
-const TAX_RATE = 0.15;
+/** Background replay of queued offline sales while online. */
+const SALE_REPLAY_INTERVAL_MS = 30_000;
 
 export function POSProvider({ children }: { children: ReactNode }) {
   const { products, refreshProducts } = useInventory();
@@ -40,11 +52,63 @@ export function POSProvider({ children }: { children: ReactNode }) {
   const [cart, setCart] = useState<TransactionItem[]>([]);
   const [discount, setDiscount] = useState(0);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [pendingSyncCount] = useState(0);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [stuckSaleCount, setStuckSaleCount] = useState(0);
+  const { data: taxSetup } = useQuery({
+    queryKey: queryKeys.taxClasses(),
+    queryFn: fetchTaxSetup,
+    staleTime: 10 * 60_000,
+  });
+
+  const refreshPendingSyncCount = useCallback(async () => {
+    const [pending, stuck] = await Promise.all([getPendingSaleCount(), getStuckSaleCount()]);
+    setPendingSyncCount(pending);
+    setStuckSaleCount(stuck);
+  }, []);
 
-  const refreshPendingSyncCount = useCallback(async () => {}, []);
+  /** Replay queued offline sales to POST /api/sales. Rejections are logged server-side in sync_rejections. */
+  const syncNow = useCallback(async () => {
+    if (!navigator.onLine) return;
+    const result = await replayQueuedSales();
+    if (result.synced > 0) {
+      showToast('success', `${result.synced} offline sale${result.synced === 1 ? '' : 's'} synced`);
+      refreshProducts().catch(() => {});
+    }
+    if (result.rejected > 0) {
+      showToast(
+        'error',
+        `${result.rejected} offline sale${result.rejected === 1 ? ' was' : 's were'} rejected for insufficient stock. Open Offline sales to retry or discard ${result.rejected === 1 ? 'it' : 'them'}.`
+      );
+    }
+    if (result.failed > 0) {
+      showToast(
+        'error',
+        `${result.failed} offline sale${result.failed === 1 ? '' : 's'} could not be synced. Open Offline sales to retry or discard ${result.failed === 1 ? 'it' : 'them'}.`
+      );
+    }
+  }, [showToast, refreshProducts]);
 
-  const syncNow = useCallback(async () => {}, []);
+  useEffect(() => {
+    refreshPendingSyncCount();
+    const onQueueChanged = () => { refreshPendingSyncCount(); };
+    window.addEventListener(SALE_QUEUE_CHANGED_EVENT, onQueueChanged);
+    return () => window.removeEventListener(SALE_QUEUE_CHANGED_EVENT, onQueueChanged);
+  }, [refreshPendingSyncCount]);
+
+  const syncNowRef = useRef(syncNow);
+  syncNowRef.current = syncNow;
+  const pendingSyncCountRef = useRef(pendingSyncCount);
+  pendingSyncCountRef.current = pendingSyncCount;
+
+  // Replay as soon as connectivity returns, then poll while anything is still queued.
+  useEffect(() => {
+    if (!isOnline) return;
+    syncNowRef.current().catch(() => {});
+    const id = setInterval(() => {
+      if (pendingSyncCountRef.current > 0) syncNowRef.current().catch(() => {});
+    }, SALE_REPLAY_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [isOnline]);
 
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -162,17 +226,36 @@ export function POSProvider({ children }: { children: ReactNode }) {
     );
   };
 
+  /** Tax by each product's class; discount is GH₵ off the whole cart, spread over the lines. */
+  const cartTaxSplit = () => {
+    const subtotal = calculateSubtotal();
+    const discountPct = subtotal > 0 ? Math.min(100, (discount / subtotal) * 100) : 0;
+    return cartTax(
+      cart.map((item) => {
+        const product = products.find((p) => p.id === item.productId);
+        return {
+          key: item.productId,
+          productId: item.productId,
+          category: product?.category ?? null,
+          taxClassId: product?.taxClassId ?? null,
+          amount: (item.unitPrice || 0) * (item.quantity || 0),
+        };
+      }),
+      taxSetup ?? FALLBACK_TAX_SETUP,
+      discountPct
+    );
+  };
+
+  /** All tax on the sale, whether inside the prices or added on top. */
   const calculateTax = (): number => {
-    const subtotal = calculateSubtotal() - discount;
-    if (subtotal <= 0) return 0;
-    const tax = subtotal * TAX_RATE;
-    return Math.round(tax * 100) / 100;
+    const { included, added } = cartTaxSplit();
+    return Math.round((included + added) * 100) / 100;
   };
 
+  /** Only tax-exclusive classes add to what the customer pays. */
   const calculateTotalAmount = (): number => {
     const subtotal = calculateSubtotal();
-    const tax = calculateTax();
-    const total = subtotal - discount + tax;
+    const total = subtotal - discount + cartTaxSplit().added;
     return Math.round(total * 100) / 100;
   };
 
@@ -253,6 +336,7 @@ export function POSProvider({ children }: { children: ReactNode }) {
         processTransaction,
         isOnline,
         pendingSyncCount,
+        stuckSaleCount,
         refreshPendingSyncCount,
         syncNow,
       }}
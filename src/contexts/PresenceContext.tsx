@@ -74,6 +74,14 @@ function getPageLabel(pathname: string): string {
   if (pathname.startsWith('/reports')) return 'Reports';
   if (pathname.startsWith('/sales')) return 'Sales';
   if (pathname.startsWith('/deliveries')) return 'Deliveries';
+  if (pathname.startsWith('/customers')) return 'Customers';
+  if (pathname.startsWith('/promotions')) return 'Promotions';
+  if (pathname.startsWith('/transfers')) return 'Transfers';
+  if (pathname.startsWith('/receiving')) return 'Receiving';
+  if (pathname.startsWith('/purchasing')) return 'Purchasing';
+  if (pathname.startsWith('/stock-take')) return 'Stock take';
+  if (pathname.startsWith('/reconciliation')) return 'Stock reconciliation';
+  if (pathname.startsWith('/import')) return 'Import products';
   if (pathname.startsWith('/settings')) return 'Settings';
   return 'App';
 }
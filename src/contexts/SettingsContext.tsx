@@ -7,7 +7,6 @@ export interface BusinessSettings {
   address: string;
   phone: string;
   email: string;
-  taxRate: number;
   currency: string;
   logo?: string;
 }
@@ -37,7 +36,6 @@ const defaultBusinessSettings: BusinessSettings = {
   address: 'Accra, Greater Accra, Ghana',
   phone: BRAND.storePhone,
   email: 'info@extremedeptkidz.com',
-  taxRate: 15,
   currency: 'GHS',
 };
 
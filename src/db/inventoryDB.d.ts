@@ -26,6 +26,17 @@ export interface InventoryDBInstance {
     delete(id: number): Promise<void>;
     clear(): Promise<void>;
   };
+  saleQueue: {
+    add(item: unknown): Promise<number>;
+    count(): Promise<number>;
+    orderBy(index: string): { toArray(): Promise<unknown[]>; reverse(): { toArray(): Promise<unknown[]> } };
+    where(index: string): {
+      equals(val: string): { count(): Promise<number>; toArray(): Promise<unknown[]> };
+      anyOf(...vals: string[]): { count(): Promise<number>; toArray(): Promise<unknown[]> };
+    };
+    update(id: number, data: unknown): Promise<void>;
+    delete(id: number): Promise<void>;
+  };
   metadata: {
     get(key: string): Promise<unknown>;
     put(record: unknown): Promise<void>;
@@ -44,6 +55,7 @@ export function addProduct(data: unknown): Promise<string>;
 export function updateProduct(id: string, data: unknown): Promise<void>;
 export function deleteProduct(id: string): Promise<void>;
 export function mirrorProductsFromApi(apiProducts: unknown[]): Promise<void>;
+export function mergeProductsFromApi(apiProducts: unknown[], deletedIds?: string[]): Promise<void>;
 export function getUnsyncedItems(): Promise<unknown[]>;
 export function getSyncQueueItems(): Promise<unknown[]>;
 export function getFailedQueueItems(): Promise<unknown[]>;
@@ -59,6 +71,26 @@ export function clearSyncError(productId: string): Promise<void>;
 export function retryQueueItem(queueItemId: number): Promise<void>;
 export function retryAllFailedQueueItems(): Promise<number>;
 export function clearFailedQueueItems(): Promise<number>;
+export type SaleQueueStatus = 'pending' | 'syncing' | 'failed' | 'rejected';
+
+export interface SaleQueueItem {
+  id: number;
+  idempotencyKey: string;
+  warehouseId: string;
+  localReceiptId: string;
+  body: Record<string, unknown>;
+  createdAt: number;
+  attempts: number;
+  error?: string | null;
+  status: SaleQueueStatus;
+}
+
+export function enqueueSale(sale: { idempotencyKey: string; warehouseId: string; localReceiptId: string; body: Record<string, unknown> }): Promise<number>;
+export function getPendingSales(): Promise<SaleQueueItem[]>;
+export function getAllQueuedSales(): Promise<SaleQueueItem[]>;
+export function countPendingSales(): Promise<number>;
+export function updateQueuedSale(id: number, data: Partial<SaleQueueItem>): Promise<void>;
+export function deleteQueuedSale(id: number): Promise<void>;
 export function getConflictPreference(): Promise<string | null>;
 export function setConflictPreference(strategy: string): Promise<void>;
 export function appendConflictAuditLog(entry: unknown): Promise<void>;
@@ -80,6 +80,24 @@ function notifyStorageQuotaExceeded() {
  * @property {SyncQueueStatus} status
  */
 
+/**
+ * @typedef {'pending' | 'syncing' | 'failed' | 'rejected'} SaleQueueStatus
+ */
+
+/**
+ * Offline POS sale waiting to be replayed to POST /api/sales.
+ * @typedef {Object} SaleQueueItem
+ * @property {number} id - Auto-increment primary key
+ * @property {string} idempotencyKey - Client-generated UUID; sent as Idempotency-Key so replays never double-record
+ * @property {string} warehouseId
+ * @property {string} localReceiptId - LOCAL-… id printed on the offline receipt
+ * @property {Object} body - POST /api/sales request body
+ * @property {number} createdAt - Unix ms when the sale was rung up
+ * @property {number} attempts - Replay attempts
+ * @property {string|null} [error] - Last error message if any
+ * @property {SaleQueueStatus} status - rejected = server refused (e.g. INSUFFICIENT_STOCK); logged in sync_rejections
+ */
+
 /**
  * @typedef {Object} MetadataRecord
  * @property {string} key - Primary key
@@ -115,8 +133,16 @@ class ExtremeDeptKidzDexie extends Dexie {
     }).upgrade((tx) => {
       // No schema change; run any one-time data migrations here if needed in future.
     });
+    // Version 3: offline POS sales queue (separate from product syncQueue — different replay endpoint and semantics).
+    this.version(3).stores({
+      products: 'id, sku, syncStatus, updatedAt, lastModified',
+      syncQueue: '++id, status, timestamp, attempts',
+      saleQueue: '++id, &idempotencyKey, status, createdAt',
+      metadata: 'key',
+    });
     this.products = this.table('products');
     this.syncQueue = this.table('syncQueue');
+    this.saleQueue = this.table('saleQueue');
     this.metadata = this.table('metadata');
   }
 }
@@ -357,6 +383,34 @@ export async function deleteProduct(id) {
   }
 }
 
+/**
+ * Dexie record for a product as the API returned it (syncStatus 'synced', serverId = id).
+ * @param {*} p - Product from the API
+ * @param {string} now - ISO fallback for missing dates
+ * @param {number} ts - lastModified
+ * @returns {ProductRecord|null}
+ */
+function toSyncedRecord(p, now, ts) {
+  if (!p || !p.id) return null;
+  return {
+    id: p.id,
+    name: p.name ?? '',
+    sku: p.sku ?? '',
+    category: p.category ?? '',
+    price: p.price ?? p.sellingPrice ?? 0,
+    quantity: p.quantity ?? 0,
+    description: p.description ?? '',
+    images: Array.isArray(p.images) ? p.images : [],
+    createdAt: typeof p.createdAt === 'string' ? p.createdAt : (p.createdAt instanceof Date ? p.createdAt.toISOString() : now),
+    updatedAt: typeof p.updatedAt === 'string' ? p.updatedAt : (p.updatedAt instanceof Date ? p.updatedAt.toISOString() : now),
+    syncStatus: 'synced',
+    serverId: p.id,
+    lastModified: ts,
+    sizeKind: p.sizeKind ?? p.size_kind ?? 'na',
+    quantityBySize: Array.isArray(p.quantityBySize) ? p.quantityBySize : [],
+  };
+}
+
 /**
  * Mirror product list from API into Dexie (Phase 1: alongside API, UI can still use API/state).
  * Clears products table and bulk-adds with syncStatus: 'synced', serverId = id.
@@ -373,26 +427,7 @@ export async function mirrorProductsFromApi(apiProducts) {
     await d.products.clear();
     const now = nowISO();
     const ts = nowTs();
-    const records = apiProducts.map((p) => {
-      if (!p || !p.id) return null;
-      return {
-        id: p.id,
-        name: p.name ?? '',
-        sku: p.sku ?? '',
-        category: p.category ?? '',
-        price: p.price ?? p.sellingPrice ?? 0,
-        quantity: p.quantity ?? 0,
-        description: p.description ?? '',
-        images: Array.isArray(p.images) ? p.images : [],
-        createdAt: typeof p.createdAt === 'string' ? p.createdAt : (p.createdAt instanceof Date ? p.createdAt.toISOString() : now),
-        updatedAt: typeof p.updatedAt === 'string' ? p.updatedAt : (p.updatedAt instanceof Date ? p.updatedAt.toISOString() : now),
-        syncStatus: 'synced',
-        serverId: p.id,
-        lastModified: ts,
-        sizeKind: p.sizeKind ?? p.size_kind ?? 'na',
-        quantityBySize: Array.isArray(p.quantityBySize) ? p.quantityBySize : [],
-      };
-    }).filter(Boolean);
+    const records = apiProducts.map((p) => toSyncedRecord(p, now, ts)).filter(Boolean);
     if (records.length > 0) {
       await d.products.bulkAdd(records);
     }
@@ -403,6 +438,42 @@ export async function mirrorProductsFromApi(apiProducts) {
   }
 }
 
+/**
+ * Merge changed products from the API into Dexie without clearing it (incremental sync, see
+ * services/productChangesApi). Upserts the changed products and deletes the deleted ids, but never touches a
+ * product with local edits waiting in syncQueue (syncStatus other than 'synced'). Catches QuotaExceededError.
+ *
+ * @param {Array<Object>} apiProducts - Changed or added products from the API
+ * @param {string[]} [deletedIds] - Products deleted or no longer stocked
+ * @returns {Promise<void>}
+ */
+export async function mergeProductsFromApi(apiProducts, deletedIds = []) {
+  const changed = Array.isArray(apiProducts) ? apiProducts : [];
+  const deleted = Array.isArray(deletedIds) ? deletedIds : [];
+  if (changed.length === 0 && deleted.length === 0) return;
+  try {
+    const d = await getDB();
+    if (!d) return;
+    const now = nowISO();
+    const ts = nowTs();
+    await d.transaction('rw', d.products, async () => {
+      const ids = [...changed.map((p) => p?.id).filter(Boolean), ...deleted];
+      const existing = await d.products.bulkGet(ids);
+      const localEdits = new Set(existing.filter((r) => r && r.syncStatus !== 'synced').map((r) => r.id));
+      const records = changed
+        .map((p) => toSyncedRecord(p, now, ts))
+        .filter((r) => r && !localEdits.has(r.id));
+      if (records.length > 0) await d.products.bulkPut(records);
+      const toDelete = deleted.filter((id) => !localEdits.has(id));
+      if (toDelete.length > 0) await d.products.bulkDelete(toDelete);
+    });
+  } catch (e) {
+    if (isTransactionError(e)) clearDbInstance();
+    if (isQuotaExceededError(e)) notifyStorageQuotaExceeded();
+    if (import.meta.env.DEV) console.warn('mergeProductsFromApi failed:', e);
+  }
+}
+
 /**
  * Get all products that are not yet synced. Safe: returns [] on Dexie/idb error.
  * @returns {Promise<ProductRecord[]>}
@@ -674,6 +745,101 @@ export async function clearFailedQueueItems() {
   return failed.length;
 }
 
+// ---------------------------------------------------------------------------
+// Offline sale queue
+// ---------------------------------------------------------------------------
+
+/**
+ * Queue a sale rung up while offline. Throws if IndexedDB is unavailable — caller must not
+ * report the sale as taken when it could not be stored.
+ * @param {{ idempotencyKey: string, warehouseId: string, localReceiptId: string, body: Object }} sale
+ * @returns {Promise<number>} Queue item id
+ */
+export async function enqueueSale(sale) {
+  const d = await getDB();
+  if (!d) throw new Error('Offline storage unavailable. Sale was not saved.');
+  try {
+    return await d.saleQueue.add({
+      idempotencyKey: sale.idempotencyKey,
+      warehouseId: sale.warehouseId,
+      localReceiptId: sale.localReceiptId,
+      body: sale.body,
+      createdAt: nowTs(),
+      attempts: 0,
+      error: null,
+      status: 'pending',
+    });
+  } catch (e) {
+    if (isTransactionError(e)) clearDbInstance();
+    if (isQuotaExceededError(e)) notifyStorageQuotaExceeded();
+    throw e;
+  }
+}
+
+/**
+ * Pending (and stuck syncing) offline sales, oldest first — replay order matters for stock.
+ * @returns {Promise<SaleQueueItem[]>}
+ */
+export async function getPendingSales() {
+  try {
+    const d = await getDB();
+    if (!d) return [];
+    const items = await d.saleQueue.where('status').anyOf('pending', 'syncing').toArray();
+    return items.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (e) {
+    if (isTransactionError(e)) clearDbInstance();
+    return [];
+  }
+}
+
+/**
+ * All queued sales (any status), newest first.
+ * @returns {Promise<SaleQueueItem[]>}
+ */
+export async function getAllQueuedSales() {
+  try {
+    const d = await getDB();
+    return d ? await d.saleQueue.orderBy('createdAt').reverse().toArray() : [];
+  } catch (e) {
+    if (isTransactionError(e)) clearDbInstance();
+    return [];
+  }
+}
+
+/**
+ * Number of sales still to be sent (pending + syncing). Safe: 0 on Dexie/idb error.
+ * @returns {Promise<number>}
+ */
+export async function countPendingSales() {
+  try {
+    const d = await getDB();
+    return d ? await d.saleQueue.where('status').anyOf('pending', 'syncing').count() : 0;
+  } catch (e) {
+    if (isTransactionError(e)) clearDbInstance();
+    return 0;
+  }
+}
+
+/**
+ * @param {number} id
+ * @param {Partial<SaleQueueItem>} data
+ * @returns {Promise<void>}
+ */
+export async function updateQueuedSale(id, data) {
+  const d = await getDB();
+  if (d) await d.saleQueue.update(id, data);
+}
+
+/**
+ * Remove a sale from the queue (after the server recorded it).
+ * @param {number} id
+ * @returns {Promise<void>}
+ */
+export async function deleteQueuedSale(id) {
+  const d = await getDB();
+  if (d) await d.saleQueue.delete(id);
+}
+
 const CONFLICT_PREFERENCE_KEY = 'conflict_resolution_preference';
 const CONFLICT_AUDIT_KEY = 'conflict_audit_log';
 
@@ -0,0 +1,56 @@
+/**
+ * Global keyboard-wedge scanner listener. Listens on window (capture phase) so a scan is
+ * caught whatever has focus; the terminating Enter of a detected scan is swallowed so a
+ * focused search box or form doesn't also submit it. Typed characters still reach the
+ * focused field — callers strip the code from their own input state if needed, or pass
+ * skipEditable to leave scans typed into a text field alone.
+ */
+
+import { useEffect, useRef } from 'react';
+import { createScanDetector, type ScanDetectorOptions } from '../lib/scanDetector';
+
+export interface UseBarcodeScannerOptions extends ScanDetectorOptions {
+  /** When false the listener is detached (e.g. a modal with its own barcode field is open). */
+  enabled?: boolean;
+  /** Ignore scans while a text field has focus: no callback, and the Enter reaches the field. */
+  skipEditable?: boolean;
+}
+
+const TEXT_INPUT_TYPES = new Set(['text', 'search', 'email', 'number', 'tel', 'url', 'password']);
+
+function isEditable(el: Element | null): boolean {
+  if (!el) return false;
+  if (el instanceof HTMLTextAreaElement) return !el.readOnly;
+  if (el instanceof HTMLInputElement) return TEXT_INPUT_TYPES.has(el.type) && !el.readOnly;
+  return el instanceof HTMLElement && el.isContentEditable;
+}
+
+export function useBarcodeScanner(
+  onScan: (code: string) => void,
+  { enabled = true, skipEditable = false, maxInterKeyMs, minLength }: UseBarcodeScannerOptions = {}
+): void {
+  const onScanRef = useRef(onScan);
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const detector = createScanDetector({ maxInterKeyMs, minLength });
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) {
+        detector.reset();
+        return;
+      }
+      const code = detector.feed(e.key, e.timeStamp);
+      if (code && skipEditable && isEditable(document.activeElement)) return;
+      if (code) {
+        e.preventDefault();
+        e.stopPropagation();
+        onScanRef.current(code);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [enabled, skipEditable, maxInterKeyMs, minLength]);
+}
@@ -5,6 +5,9 @@
  * Subscribes to warehouse_inventory_by_size and sales filtered by warehouse_id; warehouse_products (all changes).
  * On any change, invalidates React Query caches and calls onRefetch (InventoryContext passes invalidateProducts).
  * Realtime-triggered refetches are debounced (5s) to avoid request storms from burst of events.
+ * With onProductChanges, product and stock events call it instead (debounced 1s) and leave the products query alone:
+ * the caller fetches only what changed (GET /api/products/changes). onSizeRow gets each size row from the payload so
+ * stock can be patched in before that request returns.
  *
  * Requires: VITE_SUPABASE_URL, VITE_SUPABASE_ANON_KEY. Enable Replication in Supabase for the three tables.
  */
@@ -17,12 +20,33 @@ import { isValidWarehouseId } from '../lib/warehouseId';
 import { useRealtimeContext } from '../contexts/RealtimeContext';
 import type { RealtimeStatus } from '../contexts/RealtimeContext';
 import { debounce } from '../lib/utils';
+import type { SizeRowChange } from '../services/productChangesApi';
 
 const REALTIME_REFETCH_DEBOUNCE_MS = 5000;
+const REALTIME_DELTA_DEBOUNCE_MS = 1000;
 
 export interface UseInventoryRealtimeOptions {
   /** When provided, called on every inventory/products/sales change so the app can refetch and update state (required for cross-tab/cross-device sync). */
   onRefetch?: () => void;
+  /** Incremental sync: called (debounced) instead of onRefetch for product and stock changes. */
+  onProductChanges?: () => void;
+  /** Each warehouse_inventory_by_size change from the realtime payload, as it arrives. */
+  onSizeRow?: (change: SizeRowChange) => void;
+}
+
+type SizeRowPayload = {
+  eventType?: string;
+  new?: { product_id?: string; size_code?: string; quantity?: number | null } | null;
+  old?: { product_id?: string; size_code?: string } | null;
+};
+
+/** Size row from a realtime payload; null when the payload lacks the key columns. */
+function sizeRowChange(payload: SizeRowPayload): SizeRowChange | null {
+  const deleted = payload.eventType === 'DELETE';
+  const row = deleted ? payload.old : payload.new;
+  if (!row?.product_id || !row.size_code) return null;
+  const quantity = deleted ? null : Number((row as { quantity?: number | null }).quantity ?? 0);
+  return { productId: String(row.product_id), sizeCode: String(row.size_code), quantity };
 }
 
 function runRefetch(onRefetch: (() => void) | undefined): void {
@@ -39,13 +63,19 @@ export function useInventoryRealtime(
   warehouseId: string | null | undefined,
   options: UseInventoryRealtimeOptions = {}
 ): void {
-  const { onRefetch } = options;
+  const { onRefetch, onProductChanges, onSizeRow } = options;
   const queryClient = useQueryClient();
   const realtimeContext = useRealtimeContext();
   const setStatusRef = useRef(realtimeContext?.setStatus);
   setStatusRef.current = realtimeContext?.setStatus;
   const onRefetchRef = useRef(onRefetch);
   onRefetchRef.current = onRefetch;
+  const onProductChangesRef = useRef(onProductChanges);
+  onProductChangesRef.current = onProductChanges;
+  const onSizeRowRef = useRef(onSizeRow);
+  onSizeRowRef.current = onSizeRow;
+  /** Incremental mode is fixed per subscription (the effect does not re-run when callbacks change). */
+  const incremental = typeof onProductChanges === 'function';
 
   const debouncedRefetch = useMemo(
     () =>
@@ -55,6 +85,14 @@ export function useInventoryRealtime(
     []
   );
 
+  const debouncedProductChanges = useMemo(
+    () =>
+      debounce(() => {
+        runRefetch(onProductChangesRef.current);
+      }, REALTIME_DELTA_DEBOUNCE_MS),
+    []
+  );
+
   useEffect(() => {
     const setStatus = (s: RealtimeStatus) => setStatusRef.current?.(s);
 
@@ -77,6 +115,17 @@ export function useInventoryRealtime(
 
     setStatus('connecting');
 
+    /** Products or stock changed: sync just the changes, or invalidate and refetch everything. */
+    const productsChanged = () => {
+      if (incremental) {
+        debouncedProductChanges();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: queryKeys.products(warehouseId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.posProducts(warehouseId) });
+      debouncedRefetch();
+    };
+
     const channel = supabase
       .channel('warehouse-inventory-' + warehouseId)
       .on(
@@ -87,11 +136,11 @@ export function useInventoryRealtime(
           table: 'warehouse_inventory_by_size',
           filter: 'warehouse_id=eq.' + warehouseId,
         },
-        () => {
-          queryClient.invalidateQueries({ queryKey: queryKeys.products(warehouseId) });
+        (payload: SizeRowPayload) => {
+          const change = incremental ? sizeRowChange(payload) : null;
+          if (change) onSizeRowRef.current?.(change);
           queryClient.invalidateQueries({ queryKey: ['dashboard', warehouseId] });
-          queryClient.invalidateQueries({ queryKey: queryKeys.posProducts(warehouseId) });
-          debouncedRefetch();
+          productsChanged();
         }
       )
       .on(
@@ -106,7 +155,8 @@ export function useInventoryRealtime(
           queryClient.invalidateQueries({ queryKey: ['sales', warehouseId] });
           queryClient.invalidateQueries({ queryKey: ['dashboard', warehouseId] });
           queryClient.invalidateQueries({ queryKey: queryKeys.reports(warehouseId) });
-          debouncedRefetch();
+          if (incremental) debouncedProductChanges();
+          else debouncedRefetch();
         }
       )
       .on(
@@ -121,7 +171,8 @@ export function useInventoryRealtime(
           queryClient.invalidateQueries({ queryKey: ['sales', warehouseId] });
           queryClient.invalidateQueries({ queryKey: ['dashboard', warehouseId] });
           queryClient.invalidateQueries({ queryKey: queryKeys.reports(warehouseId) });
-          debouncedRefetch();
+          if (incremental) debouncedProductChanges();
+          else debouncedRefetch();
         }
       )
       .on(
@@ -136,7 +187,8 @@ export function useInventoryRealtime(
           queryClient.invalidateQueries({ queryKey: ['sales', warehouseId] });
           queryClient.invalidateQueries({ queryKey: ['dashboard', warehouseId] });
           queryClient.invalidateQueries({ queryKey: queryKeys.reports(warehouseId) });
-          debouncedRefetch();
+          if (incremental) debouncedProductChanges();
+          else debouncedRefetch();
         }
       )
       .on(
@@ -147,19 +199,21 @@ export function useInventoryRealtime(
           table: 'warehouse_products',
         },
         () => {
-          queryClient.invalidateQueries({ queryKey: queryKeys.products(warehouseId) });
           queryClient.invalidateQueries({ queryKey: ['dashboard', warehouseId] });
-          queryClient.invalidateQueries({ queryKey: queryKeys.posProducts(warehouseId) });
-          debouncedRefetch();
+          productsChanged();
         }
       )
       .subscribe((subscriptionStatus) => {
         if (subscriptionStatus === 'SUBSCRIBED') {
           setStatus('connected');
-          queryClient.invalidateQueries({ queryKey: queryKeys.products(warehouseId) });
+          // (Re)connected: catch up on anything missed while disconnected.
           queryClient.invalidateQueries({ queryKey: ['dashboard', warehouseId] });
           queryClient.invalidateQueries({ queryKey: ['sales', warehouseId] });
-          debouncedRefetch();
+          if (incremental) debouncedProductChanges();
+          else {
+            queryClient.invalidateQueries({ queryKey: queryKeys.products(warehouseId) });
+            debouncedRefetch();
+          }
         }
         if (subscriptionStatus === 'CHANNEL_ERROR') setStatus('error');
         if (subscriptionStatus === 'TIMED_OUT') setStatus('connecting');
@@ -169,5 +223,5 @@ export function useInventoryRealtime(
       supabase.removeChannel(channel);
       setStatus('disconnected');
     };
-  }, [warehouseId, queryClient]);
+  }, [warehouseId, queryClient, incremental, debouncedRefetch, debouncedProductChanges]);
 }
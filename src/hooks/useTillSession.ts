@@ -0,0 +1,29 @@
+/**
+ * The open till (cash drawer) session on this device, for the POS and for refunds paid at this till.
+ * The device id comes from the login binding when there is one, else from this browser (getTillDeviceId).
+ */
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import { queryKeys } from '../lib/queryKeys';
+import { isValidWarehouseId } from '../lib/warehouseId';
+import { fetchCurrentTillSession, getTillDeviceId } from '../services/tillApi';
+
+export function useTillSession(warehouseId: string) {
+  const { user } = useAuth();
+  const deviceId = useMemo(() => getTillDeviceId(user?.deviceId), [user?.deviceId]);
+  const query = useQuery({
+    queryKey: queryKeys.tillSession(warehouseId, deviceId),
+    queryFn: () => fetchCurrentTillSession(warehouseId, deviceId),
+    enabled: isValidWarehouseId(warehouseId),
+    staleTime: 60_000,
+  });
+  return {
+    deviceId,
+    session: query.data?.session ?? null,
+    movements: query.data?.movements ?? [],
+    isLoading: query.isLoading,
+    /** True once the server has answered for this device (session may still be null = till closed). */
+    isKnown: query.data !== undefined,
+  };
+}
@@ -166,9 +166,11 @@ export async function apiRequest<T = unknown>(options: ApiRequestOptions): Promi
           : body?.error ?? body?.message ?? `HTTP ${res.status}: ${res.statusText}`;
       const err = new Error(typeof msg === 'string' ? msg : 'Request failed') as Error & {
         status?: number;
+        code?: string;
         response?: Response;
       };
       err.status = res.status;
+      if (typeof body?.code === 'string') err.code = body.code;
       err.response = res;
       lastError = err;
 
@@ -0,0 +1,48 @@
+/**
+ * Scanner lookup: barcode → SKU fallback, UPC/EAN-13 equivalence, size-pick rule.
+ */
+import { describe, it, expect } from 'vitest';
+import { buildBarcodeIndex, lookupProductByCode, needsSizePick } from './barcodeLookup';
+
+const products = [
+  { id: 'a', sku: 'EDK-TEE-01', barcode: '5012345678900' },
+  { id: 'b', sku: 'EDK-SHOE-02', barcode: '036000291452' },
+  { id: 'c', sku: '5012345678900', barcode: null },
+];
+
+describe('lookupProductByCode', () => {
+  const index = buildBarcodeIndex(products);
+
+  it('matches barcode before SKU', () => {
+    expect(lookupProductByCode(index, '5012345678900')?.id).toBe('a');
+  });
+
+  it('falls back to SKU, case-insensitive and trimmed', () => {
+    expect(lookupProductByCode(index, '  edk-tee-01 ')?.id).toBe('a');
+  });
+
+  it('treats EAN-13 with leading zero as the stored UPC-A', () => {
+    expect(lookupProductByCode(index, '0036000291452')?.id).toBe('b');
+  });
+
+  it('returns null for unknown or empty codes', () => {
+    expect(lookupProductByCode(index, '999')).toBeNull();
+    expect(lookupProductByCode(index, '   ')).toBeNull();
+  });
+});
+
+describe('needsSizePick', () => {
+  it('is true for sized products with sizes', () => {
+    expect(needsSizePick({ sizeKind: 'sized', quantityBySize: [{}] })).toBe(true);
+    expect(needsSizePick({ quantityBySize: [{}, {}] })).toBe(true);
+  });
+
+  it('is false for one-size or empty size list', () => {
+    expect(needsSizePick({ sizeKind: 'na', quantityBySize: [{}] })).toBe(false);
+    expect(needsSizePick({ sizeKind: 'sized', quantityBySize: [] })).toBe(false);
+  });
+
+  it('is true for a product with colour variants, whatever its sizes', () => {
+    expect(needsSizePick({ sizeKind: 'na', quantityBySize: [], variants: [{}] })).toBe(true);
+  });
+});
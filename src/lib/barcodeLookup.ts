@@ -0,0 +1,58 @@
+/**
+ * Barcode / SKU lookup for scanner flows (camera and keyboard-wedge).
+ * Barcode wins over SKU when both match different products; keys are trimmed + lowercased
+ * so EAN/UPC digits and alphanumeric SKUs (Code 128) resolve the same way.
+ */
+
+export interface BarcodeIndexable {
+  sku?: string | null;
+  barcode?: string | null;
+}
+
+export interface BarcodeIndex<T> {
+  byBarcode: Map<string, T>;
+  bySku: Map<string, T>;
+}
+
+function normalizeCode(raw: string | null | undefined): string {
+  return (raw ?? '').trim().toLowerCase();
+}
+
+/** Build zero-latency lookup maps. First product wins on duplicate codes. */
+export function buildBarcodeIndex<T extends BarcodeIndexable>(products: T[]): BarcodeIndex<T> {
+  const byBarcode = new Map<string, T>();
+  const bySku = new Map<string, T>();
+  for (const p of products) {
+    const b = normalizeCode(p.barcode);
+    if (b && !byBarcode.has(b)) byBarcode.set(b, p);
+    const s = normalizeCode(p.sku);
+    if (s && !bySku.has(s)) bySku.set(s, p);
+  }
+  return { byBarcode, bySku };
+}
+
+/**
+ * Resolve a scanned code to a product: barcode first, then SKU.
+ * UPC-A scans are also tried as EAN-13 (leading 0) and vice versa, since scanners and
+ * label printers disagree on which form they emit.
+ */
+export function lookupProductByCode<T>(index: BarcodeIndex<T>, raw: string): T | null {
+  const code = normalizeCode(raw);
+  if (!code) return null;
+  const direct = index.byBarcode.get(code) ?? index.bySku.get(code);
+  if (direct) return direct;
+  if (/^\d{12}$/.test(code)) return index.byBarcode.get(`0${code}`) ?? null;
+  if (/^0\d{12}$/.test(code)) return index.byBarcode.get(code.slice(1)) ?? null;
+  return null;
+}
+
+/** Product needs a colour or size choice before it can go into the cart (same rule as SizePickerSheet). */
+export function needsSizePick(product: {
+  sizeKind?: string;
+  quantityBySize?: Array<unknown> | null;
+  variants?: Array<unknown> | null;
+}): boolean {
+  if (Array.isArray(product.variants) && product.variants.length > 0) return true;
+  const sizes = Array.isArray(product.quantityBySize) ? product.quantityBySize : [];
+  return (product.sizeKind === 'sized' || sizes.length > 1) && sizes.length > 0;
+}
@@ -0,0 +1,57 @@
+/**
+ * Goods-received note (GRN) — A4/A5 printable HTML. Quantities only, no prices; signed off by the receiver.
+ */
+
+import { BRAND } from '../config/branding';
+import { escapeHtml, formatReceiptDateTime } from './receiptTemplate';
+import type { GoodsReceipt } from '../services/receivingApi';
+
+export function buildGrnHtml(grn: GoodsReceipt, warehouseName?: string | null): string {
+  const rows = grn.lines
+    .map(
+      (l, i) =>
+        `<tr><td>${i + 1}</td><td>${escapeHtml(l.productName ?? l.productId)}</td><td>${escapeHtml(l.sku ?? '')}</td><td>${escapeHtml(l.sizeCode ?? '—')}</td><td class="qty">${l.qty}</td></tr>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en-GH">
+<head>
+  <meta charset="utf-8">
+  <title>GRN ${escapeHtml(grn.grnNumber)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; font-size: 12px; color: #09090b; padding: 24px; max-width: 720px; margin: 0 auto; }
+    h1 { font-size: 18px; margin: 0; }
+    h2 { font-size: 14px; margin: 4px 0 16px; color: #52525b; font-weight: 600; }
+    .meta { display: grid; grid-template-columns: 1fr 1fr; gap: 4px 24px; margin-bottom: 16px; }
+    .meta span { color: #71717a; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { text-align: left; padding: 6px 4px; border-bottom: 1px solid #e4e4e7; }
+    th { font-size: 10px; text-transform: uppercase; letter-spacing: 0.06em; color: #71717a; border-bottom: 2px solid #09090b; }
+    .qty { text-align: right; }
+    tfoot td { font-weight: 700; border-bottom: none; }
+    .notes { margin-top: 12px; color: #52525b; }
+    .sign { display: grid; grid-template-columns: 1fr 1fr; gap: 48px; margin-top: 48px; }
+    .sign div { border-top: 1px solid #09090b; padding-top: 4px; color: #71717a; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(BRAND.receiptTitle)}</h1>
+  <h2>Goods Received Note · ${escapeHtml(grn.grnNumber)}</h2>
+  <div class="meta">
+    <p><span>Date:</span> ${escapeHtml(formatReceiptDateTime(grn.createdAt))}</p>
+    <p><span>Location:</span> ${escapeHtml(warehouseName ?? '—')}</p>
+    <p><span>Supplier:</span> ${escapeHtml(grn.supplierName ?? '—')}</p>
+    <p><span>Reference:</span> ${escapeHtml(grn.reference ?? '—')}</p>
+    <p><span>Received by:</span> ${escapeHtml(grn.receivedBy ?? '—')}</p>
+  </div>
+  <table>
+    <thead><tr><th>#</th><th>Item</th><th>SKU</th><th>Size</th><th class="qty">Qty</th></tr></thead>
+    <tbody>${rows}</tbody>
+    <tfoot><tr><td></td><td colspan="3">Total units</td><td class="qty">${grn.totalUnits}</td></tr></tfoot>
+  </table>
+  ${grn.notes ? `<p class="notes">${escapeHtml(grn.notes)}</p>` : ''}
+  <div class="sign"><div>Received by (sign)</div><div>Delivered by (sign)</div></div>
+</body>
+</html>`;
+}
@@ -5,13 +5,21 @@
  * Date/time in Africa/Accra; currency GH₵.
  */
 
-import { buildReceiptHtml } from './receiptTemplate';
-import type { ReceiptPayload } from './receiptTemplate';
+import { buildReceiptHtml, buildTillReportHtml } from './receiptTemplate';
+import type { ReceiptFiscal, ReceiptLayaway, ReceiptLoyalty, ReceiptPayload, ReceiptTax } from './receiptTemplate';
+import type { TillReport } from '../services/tillApi';
 
 export interface PrintReceiptPayload {
   receiptId?: string;
   warehouseId?: string;
-  lines: Array<{ name: string; sizeLabel?: string | null; qty: number; unitPrice: number }>;
+  lines: Array<{
+    name: string;
+    sizeLabel?: string | null;
+    qty: number;
+    unitPrice: number;
+    promotionName?: string | null;
+    discountAmt?: number;
+  }>;
   subtotal?: number;
   discountPct?: number;
   discountAmt?: number;
@@ -23,6 +31,10 @@ export interface PrintReceiptPayload {
   completedAt?: string | null;
   /** Cashier email for audit (optional). */
   soldBy?: string | null;
+  loyalty?: ReceiptLoyalty | null;
+  layaway?: ReceiptLayaway | null;
+  tax?: ReceiptTax | null;
+  fiscal?: ReceiptFiscal | null;
 }
 
 /** Format date/time for Ghana receipt. Re-exported for share/serialisation. */
@@ -37,6 +49,8 @@ export function printReceipt(sale: PrintReceiptPayload): void {
       sizeLabel: l.sizeLabel ?? null,
       qty: l.qty,
       unitPrice: l.unitPrice,
+      promotionName: l.promotionName ?? null,
+      discountAmt: l.discountAmt ?? 0,
     })),
     subtotal: sale.subtotal,
     discountPct: sale.discountPct,
@@ -46,19 +60,32 @@ export function printReceipt(sale: PrintReceiptPayload): void {
     payments: sale.payments ?? undefined,
     customerName: sale.customerName ?? null,
     soldBy: sale.soldBy ?? null,
+    loyalty: sale.loyalty ?? null,
+    layaway: sale.layaway ?? null,
+    tax: sale.tax ?? null,
+    fiscal: sale.fiscal ?? null,
   };
   const html = buildReceiptHtml(payload, { format: 'thermal', title: 'Receipt' });
+  printHtml(html, 'Receipt print');
+}
+
+/** Print an X or Z till report on the receipt printer. */
+export function printTillReport(report: TillReport, warehouseName?: string | null): void {
+  printHtml(buildTillReportHtml(report, { warehouseName }), `${report.type} report print`);
+}
 
+/** Print a full HTML document (receipt, GRN) through a hidden in-window iframe. */
+export function printHtml(html: string, frameTitle = 'Print'): void {
   // In-window iframe: avoids pop-up blockers; no new window required.
   const iframe = document.createElement('iframe');
-  iframe.setAttribute('title', 'Receipt print');
+  iframe.setAttribute('title', frameTitle);
   iframe.style.cssText = 'position:absolute;width:0;height:0;border:0;left:-9999px;top:0;';
   document.body.appendChild(iframe);
 
   const doc = iframe.contentWindow?.document;
   if (!doc) {
     document.body.removeChild(iframe);
-    console.warn('[printReceipt] Could not get iframe document.');
+    console.warn('[printHtml] Could not get iframe document.');
     return;
   }
 
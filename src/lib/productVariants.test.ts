@@ -0,0 +1,88 @@
+/**
+ * Colour variants: sellable items for the POS and back, stock roll-up, colour filter values.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  collapseVariants,
+  expandVariants,
+  productColors,
+  rollUpVariantStock,
+  suggestVariantSku,
+  type VariantParent,
+} from './productVariants';
+
+const sneaker: VariantParent = {
+  id: 'p1',
+  name: 'Runner',
+  sku: 'RUN',
+  quantity: 5,
+  quantityBySize: [
+    { sizeCode: 'EU41', quantity: 3 },
+    { sizeCode: 'EU42', quantity: 2 },
+  ],
+  images: ['runner.jpg'],
+  variants: [
+    { id: 'v1', color: 'Black', sku: 'RUN-BLK', images: [], sizeKind: 'sized', quantity: 3, quantityBySize: [{ sizeCode: 'EU41', quantity: 2 }, { sizeCode: 'EU42', quantity: 1 }] },
+    { id: 'v2', color: 'White', sku: 'RUN-WHT', images: ['white.jpg'], sizeKind: 'sized', quantity: 2, quantityBySize: [{ sizeCode: 'EU41', quantity: 1 }, { sizeCode: 'EU42', quantity: 1 }] },
+  ],
+};
+const cap: VariantParent = { id: 'p2', name: 'Cap', sku: 'CAP', quantity: 4, color: 'Red' };
+
+describe('expandVariants', () => {
+  it('replaces a product by its variants, named by colour, with the product image as fallback', () => {
+    const items = expandVariants([sneaker, cap]);
+    expect(items.map((i) => i.id)).toEqual(['v1', 'v2', 'p2']);
+    expect(items[0]).toMatchObject({ parentId: 'p1', name: 'Runner — Black', sku: 'RUN-BLK', images: ['runner.jpg'], quantity: 3 });
+    expect(items[1].images).toEqual(['white.jpg']);
+  });
+
+  it('returns the same array when no product has variants', () => {
+    const list = [cap];
+    expect(expandVariants(list)).toBe(list);
+  });
+});
+
+describe('collapseVariants', () => {
+  it('takes variant stock from the items and rolls the product up', () => {
+    const items = expandVariants([sneaker, cap]).map((i) =>
+      i.id === 'v1' ? { ...i, quantity: 1, quantityBySize: [{ sizeCode: 'EU41', quantity: 1 }, { sizeCode: 'EU42', quantity: 0 }] } : i
+    );
+    const [runner, other] = collapseVariants([sneaker, cap], items);
+    expect(runner.variants?.[0].quantity).toBe(1);
+    expect(runner.quantity).toBe(3);
+    expect(runner.quantityBySize).toEqual([
+      { sizeCode: 'EU41', quantity: 2 },
+      { sizeCode: 'EU42', quantity: 1 },
+    ]);
+    expect(other).toBe(cap);
+  });
+});
+
+describe('rollUpVariantStock', () => {
+  it('sums sizes across variants', () => {
+    expect(rollUpVariantStock(sneaker.variants!)).toEqual({
+      quantity: 5,
+      quantityBySize: [
+        { sizeCode: 'EU41', quantity: 3 },
+        { sizeCode: 'EU42', quantity: 2 },
+      ],
+      sizeKind: 'sized',
+    });
+  });
+});
+
+describe('productColors', () => {
+  it("uses the variants' colours, else the product's own", () => {
+    expect(productColors(sneaker)).toEqual(['black', 'white']);
+    expect(productColors(cap)).toEqual(['red']);
+    expect(productColors({ color: null })).toEqual(['']);
+  });
+});
+
+describe('suggestVariantSku', () => {
+  it("appends the colour's first letters to the product SKU", () => {
+    expect(suggestVariantSku('RUN', 'Black')).toBe('RUN-BLA');
+    expect(suggestVariantSku('RUN', 'Off white')).toBe('RUN-OFF');
+    expect(suggestVariantSku('', 'Red')).toBe('RED');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Colour variants on the client. A product with variants is not sold itself: each variant is, with the product's
+ * name, category, price and tax class and its own id, colour, SKU, barcode, images and stock. The POS expands
+ * products into those sellable items for stock and scanning (expandVariants) and folds them back for the grid
+ * (collapseVariants).
+ */
+
+type SizeRow = { sizeCode: string; sizeLabel?: string; quantity: number };
+
+export interface VariantLike {
+  id: string;
+  color: string;
+  sku: string;
+  barcode?: string | null;
+  images?: string[];
+  sizeKind?: 'na' | 'one_size' | 'sized';
+  quantity: number;
+  quantityBySize?: SizeRow[];
+}
+
+export interface VariantParent {
+  id: string;
+  name: string;
+  sku: string;
+  quantity: number;
+  sizeKind?: 'na' | 'one_size' | 'sized';
+  quantityBySize?: SizeRow[];
+  images?: string[];
+  color?: string | null;
+  barcode?: string | null;
+  variants?: VariantLike[];
+}
+
+/** A variant as a sellable item: parentId is the product it belongs to. */
+export type VariantItem<T extends VariantParent> = T & { parentId?: string };
+
+export function hasVariants(product: { variants?: unknown[] }): boolean {
+  return Array.isArray(product.variants) && product.variants.length > 0;
+}
+
+/** Name of a variant on a cart line or receipt. */
+export function variantName(productName: string, color: string): string {
+  return `${productName} — ${color}`;
+}
+
+/** Colours a product can be filtered by (lowercase, trimmed): its variants', else its own. */
+export function productColors(product: { color?: string | null; variants?: Array<{ color: string }> }): string[] {
+  const colors = product.variants?.length ? product.variants.map((v) => v.color) : [product.color ?? ''];
+  return colors.map((c) => (c ?? '').trim().toLowerCase());
+}
+
+/** Stock of a product with variants: theirs summed, size by size. */
+export function rollUpVariantStock(
+  variants: Array<Pick<VariantLike, 'quantity' | 'quantityBySize' | 'sizeKind'>>
+): { quantity: number; quantityBySize: SizeRow[]; sizeKind: 'na' | 'one_size' | 'sized' } {
+  const bySize = new Map<string, SizeRow>();
+  for (const v of variants) {
+    for (const s of v.quantityBySize ?? []) {
+      const row = bySize.get(s.sizeCode);
+      if (row) row.quantity += s.quantity;
+      else bySize.set(s.sizeCode, { ...s });
+    }
+  }
+  return {
+    quantity: variants.reduce((s, v) => s + v.quantity, 0),
+    quantityBySize: [...bySize.values()].sort((a, b) =>
+      a.sizeCode.localeCompare(b.sizeCode, undefined, { numeric: true })
+    ),
+    sizeKind: variants.some((v) => v.sizeKind === 'sized') ? 'sized' : (variants[0]?.sizeKind ?? 'na'),
+  };
+}
+
+/** One variant as a sellable item. Images fall back to the product's when the variant has none. */
+export function toVariantItem<T extends VariantParent>(product: T, variant: VariantLike): VariantItem<T> {
+  return {
+    ...product,
+    id: variant.id,
+    parentId: product.id,
+    name: variantName(product.name, variant.color),
+    sku: variant.sku,
+    barcode: variant.barcode ?? null,
+    color: variant.color,
+    images: variant.images?.length ? variant.images : product.images,
+    sizeKind: variant.sizeKind,
+    quantity: variant.quantity,
+    quantityBySize: variant.quantityBySize ?? [],
+    variants: undefined,
+  };
+}
+
+/** Products with variants replaced by their variants as items; other products as they are. */
+export function expandVariants<T extends VariantParent>(products: T[]): VariantItem<T>[] {
+  if (!products.some(hasVariants)) return products;
+  return products.flatMap((p) => (hasVariants(p) ? p.variants!.map((v) => toVariantItem(p, v)) : [p]));
+}
+
+/**
+ * The reverse of expandVariants after the items' stock changed (e.g. held carts taken off): each product with
+ * variants gets its variants' stock from the items and its own rolled up. Same array back when nothing changed.
+ */
+export function collapseVariants<T extends VariantParent>(products: T[], items: VariantItem<T>[]): T[] {
+  if (items === products) return products;
+  const byId = new Map(items.map((i) => [i.id, i]));
+  return products.map((p) => {
+    if (!hasVariants(p)) return (byId.get(p.id) as T | undefined) ?? p;
+    const variants = p.variants!.map((v) => {
+      const item = byId.get(v.id);
+      return item ? { ...v, quantity: item.quantity, quantityBySize: item.quantityBySize ?? [] } : v;
+    });
+    return { ...p, variants, ...rollUpVariantStock(variants) };
+  });
+}
+
+/** Suggested SKU for a new variant: the product's SKU with the colour's first letters, e.g. RUN-BLA. */
+export function suggestVariantSku(productSku: string, color: string): string {
+  const code = color.replace(/[^a-z0-9]/gi, '').slice(0, 3).toUpperCase();
+  return [productSku.trim(), code].filter(Boolean).join('-');
+}
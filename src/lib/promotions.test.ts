@@ -0,0 +1,141 @@
+/**
+ * Cart promotions: each kind's discount, scope / window checks and one promotion per line, best saving first.
+ * The sales route's copy of the rules must price every cart the same way.
+ */
+import { describe, it, expect } from 'vitest';
+import { applyPromotions, isPromotionRunning } from './promotions';
+import { applyPromotions as applyServerPromotions } from '../../inventory-server/lib/data/promotionPricing';
+import type { Promotion } from '../services/promotionsApi';
+
+const WH = 'wh-1';
+const NOW = new Date('2026-03-22T12:00:00Z');
+
+function promo(overrides: Partial<Promotion>): Promotion {
+  return {
+    id: 'p1',
+    name: 'Promo',
+    kind: 'percent_off',
+    productIds: [],
+    categories: [],
+    warehouseIds: [],
+    percentOff: null,
+    amountOff: null,
+    buyQty: null,
+    getQty: null,
+    bundleQty: null,
+    bundlePrice: null,
+    startsAt: '2026-03-01T00:00:00Z',
+    endsAt: null,
+    active: true,
+    createdByEmail: null,
+    createdAt: '2026-03-01T00:00:00Z',
+    updatedAt: '2026-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const line = (key: string, unitPrice: number, qty = 1, category: string | null = 'Sneakers') => ({
+  key,
+  productId: `prod-${key}`,
+  category,
+  unitPrice,
+  qty,
+});
+
+describe('isPromotionRunning', () => {
+  it('respects active, the date window and warehouse scope', () => {
+    expect(isPromotionRunning(promo({}), WH, NOW)).toBe(true);
+    expect(isPromotionRunning(promo({ active: false }), WH, NOW)).toBe(false);
+    expect(isPromotionRunning(promo({ startsAt: '2026-04-01T00:00:00Z' }), WH, NOW)).toBe(false);
+    expect(isPromotionRunning(promo({ endsAt: '2026-03-22T12:00:00Z' }), WH, NOW)).toBe(false);
+    expect(isPromotionRunning(promo({ warehouseIds: ['wh-2'] }), WH, NOW)).toBe(false);
+    expect(isPromotionRunning(promo({ warehouseIds: ['wh-2', WH] }), WH, NOW)).toBe(true);
+  });
+});
+
+describe('applyPromotions', () => {
+  it('takes a percentage off matching categories only', () => {
+    const p = promo({ percentOff: 20, categories: ['sneakers'] });
+    const result = applyPromotions([line('a', 100, 2), line('b', 50, 1, 'Sandals')], [p], { warehouseId: WH, now: NOW });
+    expect(result).toEqual({ a: { promotionId: 'p1', promotionName: 'Promo', discountAmt: 40 } });
+  });
+
+  it('caps a fixed amount off at the unit price', () => {
+    const p = promo({ kind: 'fixed_off', amountOff: 30, productIds: ['prod-a', 'prod-b'] });
+    const result = applyPromotions([line('a', 100, 2), line('b', 20, 1)], [p], { warehouseId: WH, now: NOW });
+    expect(result.a.discountAmt).toBe(60);
+    expect(result.b.discountAmt).toBe(20);
+  });
+
+  it('gives the cheapest unit of each buy-2-get-1 group free', () => {
+    const p = promo({ kind: 'buy_x_get_y', buyQty: 2, getQty: 1 });
+    const result = applyPromotions([line('a', 100, 2), line('b', 40, 2)], [p], { warehouseId: WH, now: NOW });
+    // Units 100, 100, 40 | 40 → one full group; the 40 is free, the last unit is left over.
+    expect(result).toEqual({ b: { promotionId: 'p1', promotionName: 'Promo', discountAmt: 40 } });
+  });
+
+  it('halves the cheaper unit of each pair', () => {
+    const p = promo({ kind: 'second_half_off' });
+    const result = applyPromotions([line('a', 120), line('b', 80), line('c', 60)], [p], { warehouseId: WH, now: NOW });
+    expect(result.b.discountAmt).toBe(40);
+    expect(result.a).toBeUndefined();
+    expect(result.c).toBeUndefined();
+  });
+
+  it('spreads a bundle saving so the group costs exactly the bundle price', () => {
+    const p = promo({ kind: 'bundle_price', bundleQty: 3, bundlePrice: 100 });
+    const lines = [line('a', 50), line('b', 40), line('c', 30)];
+    const result = applyPromotions(lines, [p], { warehouseId: WH, now: NOW });
+    const saving = Object.values(result).reduce((s, r) => s + r.discountAmt, 0);
+    expect(Math.round(saving * 100) / 100).toBe(20);
+    expect(result.a.discountAmt).toBeCloseTo(8.33, 2);
+    expect(result.c.discountAmt).toBeCloseTo(5, 2);
+  });
+
+  it('gives each line to the promotion saving the most and never stacks', () => {
+    const small = promo({ id: 'small', name: '10% off', percentOff: 10 });
+    const big = promo({ id: 'big', name: 'Sneaker 25%', percentOff: 25, categories: ['Sneakers'] });
+    const lines = [line('a', 100), line('b', 100, 1, 'Bags')];
+    const result = applyPromotions(lines, [small, big], { warehouseId: WH, now: NOW });
+    expect(result.a).toEqual({ promotionId: 'big', promotionName: 'Sneaker 25%', discountAmt: 25 });
+    expect(result.b).toEqual({ promotionId: 'small', promotionName: '10% off', discountAmt: 10 });
+  });
+
+  it('ignores promotions outside their window or scope', () => {
+    const ended = promo({ percentOff: 50, endsAt: '2026-03-10T00:00:00Z' });
+    const elsewhere = promo({ id: 'p2', percentOff: 50, warehouseIds: ['wh-2'] });
+    expect(applyPromotions([line('a', 100)], [ended, elsewhere], { warehouseId: WH, now: NOW })).toEqual({});
+  });
+});
+
+describe('server promotion pricing', () => {
+  const carts = [
+    [line('a', 100, 2), line('b', 50, 1, 'Sandals')],
+    [line('a', 100, 2), line('b', 40, 2), line('c', 19.99, 3, 'Bags')],
+    [line('a', 120), line('b', 80), line('c', 60), line('d', 33.33, 2)],
+    [line('a', 50), line('b', 40), line('c', 30), line('d', 10, 4, null)],
+  ];
+  const promotionSets = [
+    [promo({ percentOff: 20, categories: ['sneakers'] })],
+    [promo({ kind: 'fixed_off', amountOff: 30, productIds: ['prod-a', 'prod-b'] })],
+    [promo({ kind: 'buy_x_get_y', buyQty: 2, getQty: 1 })],
+    [promo({ kind: 'second_half_off' })],
+    [promo({ kind: 'bundle_price', bundleQty: 3, bundlePrice: 100 })],
+    [
+      promo({ id: 'small', name: '10% off', percentOff: 10 }),
+      promo({ id: 'big', name: 'Sneaker 25%', percentOff: 25, categories: ['Sneakers'] }),
+      promo({ id: 'b2g1', kind: 'buy_x_get_y', buyQty: 2, getQty: 1, categories: ['bags'] }),
+      promo({ id: 'ended', percentOff: 50, endsAt: '2026-03-10T00:00:00Z' }),
+      promo({ id: 'elsewhere', percentOff: 50, warehouseIds: ['wh-2'] }),
+    ],
+  ];
+
+  it('gives every cart the same discounts as the cart rules', () => {
+    for (const cart of carts) {
+      for (const promotions of promotionSets) {
+        const options = { warehouseId: WH, now: NOW };
+        expect(applyServerPromotions(cart, promotions, options)).toEqual(applyPromotions(cart, promotions, options));
+      }
+    }
+  });
+});
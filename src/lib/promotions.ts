@@ -0,0 +1,162 @@
+/**
+ * Cart pricing rules: works out which promotion applies to each cart line and how much it takes off.
+ * Each line gets at most one promotion. Promotions are applied best-first: the one saving the most on the lines
+ * still unclaimed wins those lines, then the next, until nothing saves anything. Group deals (buy X get Y,
+ * bundle, second half off) pair units dearest-first so the cheaper units of each group are the discounted ones.
+ * The sales route re-runs the same rules (inventory-server/lib/data/promotionPricing.ts) and refuses a sale whose
+ * line discounts differ, so change both together; promotions.test.ts checks they agree.
+ */
+
+import type { Promotion } from '../services/promotionsApi';
+
+export interface PromotableLine {
+  key: string;
+  productId: string;
+  category?: string | null;
+  unitPrice: number;
+  qty: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  promotionName: string;
+  /** GH₵ off the line's unitPrice × qty. */
+  discountAmt: number;
+}
+
+interface Evaluation {
+  /** Line key → discount. */
+  discounts: Map<string, number>;
+  /** Lines the deal used (paid units of a buy-X-get-Y group included). */
+  used: Set<string>;
+  total: number;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Active, inside its date window and scoped to the warehouse (empty scope = everywhere). */
+export function isPromotionRunning(p: Promotion, warehouseId: string, now: Date = new Date()): boolean {
+  if (!p.active) return false;
+  const t = now.getTime();
+  if (Date.parse(p.startsAt) > t) return false;
+  if (p.endsAt && Date.parse(p.endsAt) <= t) return false;
+  return p.warehouseIds.length === 0 || p.warehouseIds.includes(warehouseId);
+}
+
+/** Targeted product or category; a promotion with neither targets every product. */
+export function promotionMatchesLine(p: Promotion, line: Pick<PromotableLine, 'productId' | 'category'>): boolean {
+  if (p.productIds.length === 0 && p.categories.length === 0) return true;
+  if (p.productIds.includes(line.productId)) return true;
+  const category = line.category?.trim().toLowerCase();
+  return !!category && p.categories.some((c) => c.trim().toLowerCase() === category);
+}
+
+/** One entry per unit, dearest first; ties keep cart order. */
+function units(lines: PromotableLine[]): Array<{ key: string; price: number }> {
+  return lines
+    .flatMap((l) => Array.from({ length: Math.max(0, l.qty) }, () => ({ key: l.key, price: l.unitPrice })))
+    .sort((a, b) => b.price - a.price);
+}
+
+/** Runs `discountGroup` over consecutive full groups of `size` units. */
+function evaluateGroups(
+  lines: PromotableLine[],
+  size: number,
+  discountGroup: (group: Array<{ key: string; price: number }>) => number[]
+): Evaluation {
+  const discounts = new Map<string, number>();
+  const used = new Set<string>();
+  const all = units(lines);
+  for (let i = 0; size > 0 && i + size <= all.length; i += size) {
+    const group = all.slice(i, i + size);
+    const off = discountGroup(group);
+    group.forEach((u, j) => {
+      used.add(u.key);
+      if (off[j] > 0) discounts.set(u.key, (discounts.get(u.key) ?? 0) + off[j]);
+    });
+  }
+  return finish(discounts, used);
+}
+
+function finish(discounts: Map<string, number>, used: Set<string>): Evaluation {
+  let total = 0;
+  for (const [key, amount] of discounts) {
+    const rounded = round2(amount);
+    discounts.set(key, rounded);
+    total += rounded;
+  }
+  return { discounts, used, total: round2(total) };
+}
+
+function evaluate(p: Promotion, lines: PromotableLine[]): Evaluation {
+  const discounts = new Map<string, number>();
+  switch (p.kind) {
+    case 'percent_off': {
+      const pct = Math.min(100, Math.max(0, p.percentOff ?? 0));
+      for (const l of lines) discounts.set(l.key, (l.unitPrice * l.qty * pct) / 100);
+      return finish(discounts, new Set(lines.map((l) => l.key)));
+    }
+    case 'fixed_off': {
+      const off = Math.max(0, p.amountOff ?? 0);
+      for (const l of lines) discounts.set(l.key, Math.min(off, l.unitPrice) * l.qty);
+      return finish(discounts, new Set(lines.map((l) => l.key)));
+    }
+    case 'buy_x_get_y': {
+      const buy = p.buyQty ?? 0;
+      const free = p.getQty ?? 0;
+      if (buy < 1 || free < 1) return finish(discounts, new Set());
+      return evaluateGroups(lines, buy + free, (group) => group.map((u, j) => (j >= buy ? u.price : 0)));
+    }
+    case 'second_half_off':
+      return evaluateGroups(lines, 2, (group) => [0, group[1].price / 2]);
+    case 'bundle_price': {
+      const size = p.bundleQty ?? 0;
+      const price = Math.max(0, p.bundlePrice ?? 0);
+      if (size < 2) return finish(discounts, new Set());
+      return evaluateGroups(lines, size, (group) => {
+        const gross = group.reduce((s, u) => s + u.price, 0);
+        const saving = round2(Math.max(0, gross - price));
+        if (saving <= 0 || gross <= 0) return group.map(() => 0);
+        // Spread the saving by price; the last unit takes the rounding remainder so the group costs exactly `price`.
+        const shares = group.map((u) => round2((saving * u.price) / gross));
+        shares[shares.length - 1] = round2(saving - shares.slice(0, -1).reduce((s, v) => s + v, 0));
+        return shares;
+      });
+    }
+  }
+}
+
+/**
+ * Line key → applied promotion for lines that get a discount. Lines without an entry are charged full price.
+ */
+export function applyPromotions(
+  lines: PromotableLine[],
+  promotions: Promotion[],
+  opts: { warehouseId: string; now?: Date }
+): Record<string, AppliedPromotion> {
+  const applied: Record<string, AppliedPromotion> = {};
+  let remaining = promotions.filter((p) => isPromotionRunning(p, opts.warehouseId, opts.now));
+  const claimed = new Set<string>();
+
+  while (remaining.length > 0) {
+    let best: { promotion: Promotion; result: Evaluation } | null = null;
+    for (const promotion of remaining) {
+      const eligible = lines.filter((l) => !claimed.has(l.key) && l.qty > 0 && promotionMatchesLine(promotion, l));
+      if (eligible.length === 0) continue;
+      const result = evaluate(promotion, eligible);
+      if (result.total > 0 && (!best || result.total > best.result.total)) best = { promotion, result };
+    }
+    if (!best) break;
+
+    const { promotion, result } = best;
+    for (const key of result.used) claimed.add(key);
+    for (const [key, amount] of result.discounts) {
+      if (amount > 0) applied[key] = { promotionId: promotion.id, promotionName: promotion.name, discountAmt: amount };
+    }
+    remaining = remaining.filter((p) => p.id !== promotion.id);
+  }
+
+  return applied;
+}
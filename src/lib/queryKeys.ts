@@ -13,4 +13,21 @@ export const queryKeys = {
   posProducts: (warehouseId: string) => ['pos-products', warehouseId] as const,
   /** Reports (sales/inventory). Invalidated on Realtime sales changes. */
   reports: (warehouseId: string) => ['reports', warehouseId] as const,
+  /** Promotions running now at a warehouse (evaluated by the POS cart). */
+  promotions: (warehouseId: string) => ['promotions', warehouseId] as const,
+  /** Signed-in role's limits (discount %, refunds, voids). */
+  roleLimits: () => ['role-limits'] as const,
+  /** Open till (cash drawer) session on this device. */
+  tillSession: (warehouseId: string, deviceId: string) => ['till-session', warehouseId, deviceId] as const,
+  /** Whether mobile money prompts are set up on the server. */
+  mobileMoneyConfig: () => ['mobile-money-config'] as const,
+  /** Carts parked at a warehouse (any till there can recall them). */
+  heldCarts: (warehouseId: string) => ['held-carts', warehouseId] as const,
+  /** Tax classes and category assignments (cart tax, Settings → Tax). */
+  taxClasses: () => ['tax-classes'] as const,
+  /** Tax summary report for a warehouse and date range. */
+  taxSummary: (warehouseId: string, from: string, to: string) => ['reports', warehouseId, 'tax', from, to] as const,
+  /** Stock card (ledger) for a product at a warehouse; sizeCode '' = product-level lane, '*' = all lanes. */
+  stockCard: (warehouseId: string, productId: string, sizeCode: string) =>
+    ['stock-card', warehouseId, productId, sizeCode] as const,
 };
@@ -0,0 +1,141 @@
+/**
+ * Till X / Z report HTML, the receipt tax breakdown and the e-VAT signature block.
+ */
+import { describe, it, expect } from 'vitest';
+import { buildReceiptHtml, buildTillReportHtml, fiscalLines, taxLines } from './receiptTemplate';
+import type { TillReport } from '../services/tillApi';
+
+const summary = {
+  openingFloat: 200,
+  salesCount: 3,
+  salesTotal: 450,
+  discountTotal: 0,
+  byMethod: { cash: 250, mobile_money: 200 },
+  voidCount: 1,
+  voidTotal: 80,
+  refundCount: 1,
+  refundTotal: 50,
+  cashSales: 250,
+  cashRefunds: 50,
+  paidIn: 0,
+  paidOut: 20,
+  expectedCash: 380,
+};
+
+const session = {
+  id: 's1',
+  sessionNumber: 'TILL-20260324-0001',
+  warehouseId: 'w1',
+  deviceId: 'd1',
+  openingFloat: 200,
+  openedBy: 'cashier@example.com',
+  openedAt: '2026-03-24T08:00:00.000Z',
+  note: null,
+  summary,
+};
+
+describe('buildTillReportHtml', () => {
+  it('prints the expected cash but no count on an X report', () => {
+    const report: TillReport = {
+      type: 'X',
+      session: { ...session, status: 'open', countedCash: null, expectedCash: 380, variance: null, closedBy: null, closedAt: null },
+      movements: [],
+    };
+    const html = buildTillReportHtml(report);
+    expect(html).toContain('X REPORT');
+    expect(html).toContain('GH₵380.00');
+    expect(html).toContain('Mobile Money');
+    expect(html).not.toContain('Counted cash');
+  });
+
+  it('prints the count, a signed variance and escaped paid-out reasons on a Z report', () => {
+    const report: TillReport = {
+      type: 'Z',
+      session: {
+        ...session,
+        status: 'closed',
+        countedCash: 370,
+        expectedCash: 380,
+        variance: -10,
+        closedBy: 'cashier@example.com',
+        closedAt: '2026-03-24T17:00:00.000Z',
+      },
+      movements: [
+        { id: 'm1', sessionId: 's1', kind: 'paid_out', amount: 20, reason: 'Water <office>', createdBy: null, createdAt: '2026-03-24T12:00:00.000Z' },
+      ],
+    };
+    const html = buildTillReportHtml(report, { warehouseName: 'Main Store' });
+    expect(html).toContain('Z REPORT');
+    expect(html).toContain('Main Store');
+    expect(html).toContain('Counted cash');
+    expect(html).toContain('Variance (short)');
+    expect(html).toContain('−GH₵10.00');
+    expect(html).toContain('Water &lt;office&gt;');
+  });
+});
+
+describe('taxLines', () => {
+  const tax = {
+    included: 21.9,
+    added: 0,
+    breakdown: [
+      { label: 'NHIL', rate: 2.5, amount: 2.5 },
+      { label: 'VAT', rate: 15, amount: 15.9 },
+    ],
+  };
+
+  it('lists each component after the tax in the prices', () => {
+    expect(taxLines(tax)).toEqual(['Prices include tax: GH₵21.90', 'NHIL 2.5%: GH₵2.50', 'VAT 15%: GH₵15.90']);
+    expect(taxLines({ included: 0, added: 0, breakdown: [] })).toEqual([]);
+  });
+
+  it('shows tax added at the till as a row above the total', () => {
+    const html = buildReceiptHtml({
+      receiptId: 'R1',
+      lines: [{ name: 'Shirt', qty: 1, unitPrice: 100 }],
+      subtotal: 100,
+      discountPct: 0,
+      discountAmt: 0,
+      total: 121.9,
+      paymentMethod: 'cash',
+      tax: { ...tax, included: 0, added: 21.9 },
+    }, { format: 'thermal' });
+    expect(html).toContain('<span>Tax</span><span>GH₵21.90</span>');
+    expect(html).toContain('Tax: GH₵21.90');
+  });
+});
+
+describe('fiscal block', () => {
+  const sale = {
+    receiptId: 'R2',
+    lines: [{ name: 'Dress', qty: 1, unitPrice: 120 }],
+    total: 120,
+    paymentMethod: 'cash',
+  };
+  const signed = {
+    status: 'signed' as const,
+    invoiceNumber: 'R2',
+    sdcId: 'SDC-0001',
+    receiptNumber: '7/7 NS',
+    signature: 'ABC123',
+    qrCode: 'https://evat.example/verify?sig=ABC123',
+    signedAt: '2026-03-29T10:00:00.000Z',
+  };
+
+  it('prints the QR code and signature once signed', () => {
+    for (const format of ['thermal', 'a5'] as const) {
+      const html = buildReceiptHtml({ ...sale, fiscal: signed }, { format });
+      expect(html).toMatch(/<svg class="qr"[^>]*><rect[^>]*\/><path d="M/);
+      expect(html).toContain('SDC ID: SDC-0001');
+      expect(html).toContain('Signature: ABC123');
+    }
+  });
+
+  it('says the signature is pending until the invoice is signed', () => {
+    const pending = { ...signed, status: 'pending' as const, signature: null, qrCode: null, signedAt: null };
+    expect(fiscalLines(pending)).toEqual(['GRA e-VAT signature pending']);
+    const html = buildReceiptHtml({ ...sale, fiscal: pending }, { format: 'thermal' });
+    expect(html).not.toContain('<svg');
+    expect(fiscalLines(null)).toEqual([]);
+  });
+});
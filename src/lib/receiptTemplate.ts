@@ -3,7 +3,9 @@
  * Ghana: GH₵, Africa/Accra. Clear hierarchy: brand → receipt # & date → cashier → items → totals → payment → footer.
  */
 
+import QRCode from 'qrcode';
 import { BRAND } from '../config/branding';
+import type { TillReport } from '../services/tillApi';
 
 const GHANA_TZ = 'Africa/Accra';
 const BUSINESS_NAME = BRAND.receiptTitle;
@@ -16,6 +18,9 @@ export interface ReceiptLine {
   sizeLabel?: string | null;
   qty: number;
   unitPrice: number;
+  /** Promotion that priced the line and GH₵ it took off unitPrice × qty. */
+  promotionName?: string | null;
+  discountAmt?: number;
 }
 
 export interface ReceiptPayload {
@@ -32,9 +37,47 @@ export interface ReceiptPayload {
   customerName?: string | null;
   /** Cashier / sold_by email for audit trail */
   soldBy?: string | null;
+  /** Points / store credit after this sale (sales linked to a directory customer). */
+  loyalty?: ReceiptLoyalty | null;
+  /** Layaway: paymentMethod / payments are the deposit; the rest is due by expiresAt. */
+  layaway?: ReceiptLayaway | null;
+  /** Tax on the sale by component; `added` is already in total. */
+  tax?: ReceiptTax | null;
+  /** GRA e-VAT signature; qrCode is the verification text printed as a QR code. */
+  fiscal?: ReceiptFiscal | null;
+}
+
+export interface ReceiptFiscal {
+  status: 'pending' | 'signed' | 'failed';
+  invoiceNumber: string;
+  sdcId: string | null;
+  receiptNumber: string | null;
+  signature: string | null;
+  qrCode: string | null;
+  signedAt: string | null;
+}
+
+export interface ReceiptTax {
+  included: number;
+  added: number;
+  breakdown: Array<{ label: string; rate: number; amount: number }>;
+}
+
+export interface ReceiptLayaway {
+  amountPaid: number;
+  balanceDue: number;
+  expiresAt: string;
 }
 
-function escapeHtml(s: string): string {
+export interface ReceiptLoyalty {
+  pointsEarned: number;
+  pointsRedeemed?: number;
+  pointsBalance: number;
+  storeCreditUsed?: number;
+  storeCreditBalance?: number;
+}
+
+export function escapeHtml(s: string): string {
   return s
     .replace(/&/g, '&amp;')
     .replace(/</g, '&lt;')
@@ -46,6 +89,17 @@ function formatMoney(n: number): string {
   return `GH₵${Number(n).toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 }
 
+/** What the customer pays for the line, after its promotion. */
+function lineAmount(l: ReceiptLine): number {
+  return l.unitPrice * l.qty - (l.discountAmt ?? 0);
+}
+
+function promoNote(l: ReceiptLine): string {
+  return l.discountAmt && l.discountAmt > 0
+    ? `${escapeHtml(l.promotionName || 'Promotion')} −${formatMoney(l.discountAmt)}`
+    : '';
+}
+
 /** Format date/time for Ghana receipt (Africa/Accra). */
 export function formatReceiptDateTime(isoOrNull?: string | null): string {
   const d = isoOrNull ? new Date(isoOrNull) : new Date();
@@ -88,12 +142,76 @@ const PAYMENT_LABELS: Record<string, string> = {
   mobile_money: 'Mobile Money',
   MoMo: 'Mobile Money',
   mixed: 'Mixed',
+  points: 'Loyalty points',
+  store_credit: 'Store credit',
 };
 
 function paymentLabel(method: string): string {
   return PAYMENT_LABELS[method] ?? (method || 'Payment');
 }
 
+/** "Points earned: +45 · Balance: 320 pts" plus a store-credit line when the customer has or used any. */
+export function loyaltyLines(loyalty: ReceiptLoyalty | null | undefined): string[] {
+  if (!loyalty) return [];
+  const points = [`Points earned: +${loyalty.pointsEarned}`];
+  if ((loyalty.pointsRedeemed ?? 0) > 0) points.push(`redeemed: −${loyalty.pointsRedeemed}`);
+  points.push(`Balance: ${loyalty.pointsBalance} pts`);
+  const lines = [points.join(' · ')];
+  if ((loyalty.storeCreditUsed ?? 0) > 0 || (loyalty.storeCreditBalance ?? 0) > 0) {
+    lines.push(`Store credit balance: ${formatMoney(loyalty.storeCreditBalance ?? 0)}`);
+  }
+  return lines;
+}
+
+/** "Layaway · Paid: GH₵50.00" and "Balance due: GH₵150.00 by 25 April 2026"; nothing for other sales. */
+export function layawayLines(layaway: ReceiptLayaway | null | undefined): string[] {
+  if (!layaway) return [];
+  return [
+    `Layaway · Paid: ${formatMoney(layaway.amountPaid)}`,
+    `Balance due: ${formatMoney(layaway.balanceDue)} by ${formatReceiptDateOnly(layaway.expiresAt)}`,
+  ];
+}
+
+/** Whether the prices included the tax, then "NHIL 2.5%: GH₵2.50" per component; nothing for untaxed sales. */
+export function taxLines(tax: ReceiptTax | null | undefined): string[] {
+  if (!tax || tax.breakdown.length === 0) return [];
+  const head =
+    tax.added > 0
+      ? `Tax: ${formatMoney(tax.included + tax.added)}${tax.included > 0 ? ` (${formatMoney(tax.added)} added)` : ''}`
+      : `Prices include tax: ${formatMoney(tax.included)}`;
+  return [head, ...tax.breakdown.map((b) => `${b.label} ${b.rate}%: ${formatMoney(b.amount)}`)];
+}
+
+/** "SDC ID: …", "SDC receipt: …", "Signature: …" once signed; a pending note until then; nothing when not fiscalised. */
+export function fiscalLines(fiscal: ReceiptFiscal | null | undefined): string[] {
+  if (!fiscal) return [];
+  if (fiscal.status !== 'signed' || !fiscal.signature) return ['GRA e-VAT signature pending'];
+  const lines = ['GRA e-VAT'];
+  if (fiscal.sdcId) lines.push(`SDC ID: ${fiscal.sdcId}`);
+  if (fiscal.receiptNumber) lines.push(`SDC receipt: ${fiscal.receiptNumber}`);
+  lines.push(`Signature: ${fiscal.signature}`);
+  if (fiscal.signedAt) lines.push(`Signed: ${formatReceiptDateTime(fiscal.signedAt)}`);
+  return lines;
+}
+
+/** QR code as inline SVG (no image request, so it prints straight away). Empty if the text does not fit a QR. */
+function qrSvg(text: string, sizePx: number): string {
+  let modules: { size: number; get(row: number, col: number): number | boolean };
+  try {
+    modules = QRCode.create(text, { errorCorrectionLevel: 'M' }).modules;
+  } catch {
+    return '';
+  }
+  const n = modules.size + 8;
+  const rects: string[] = [];
+  for (let r = 0; r < modules.size; r++) {
+    for (let c = 0; c < modules.size; c++) {
+      if (modules.get(r, c)) rects.push(`M${c + 4} ${r + 4}h1v1h-1z`);
+    }
+  }
+  return `<svg class="qr" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${n} ${n}" width="${sizePx}" height="${sizePx}" shape-rendering="crispEdges"><rect width="${n}" height="${n}" fill="#fff"/><path d="${rects.join('')}" fill="#000"/></svg>`;
+}
+
 /** Build receipt HTML. format: 'thermal' (80mm) or 'a5' (full page for download/print). */
 export function buildReceiptHtml(
   payload: ReceiptPayload,
@@ -117,11 +235,19 @@ export function buildReceiptHtml(
         .map((p) => `<p class="meta">${escapeHtml(paymentLabel(p.method))}: ${formatMoney(p.amount)}</p>`)
         .join('')
     : '';
+  const loyaltyText = loyaltyLines(payload.loyalty);
+  const layawayText = layawayLines(payload.layaway);
+  const taxText = taxLines(payload.tax);
+  const taxAdded = payload.tax?.added ?? 0;
+  const fiscalText = fiscalLines(payload.fiscal);
+  const fiscalQr =
+    payload.fiscal?.status === 'signed' && payload.fiscal.qrCode ? qrSvg(payload.fiscal.qrCode, format === 'thermal' ? 120 : 132) : '';
 
   const linesHtml = payload.lines
     .map(
       (l) =>
-        `<tr><td class="item-name">${escapeHtml(l.name)}${l.sizeLabel ? ` <span class="size">(${escapeHtml(l.sizeLabel)})</span>` : ''}</td><td class="qty">${l.qty}</td><td class="unit">${formatMoney(l.unitPrice)}</td><td class="amt">${formatMoney(l.unitPrice * l.qty)}</td></tr>`
+        `<tr><td class="item-name">${escapeHtml(l.name)}${l.sizeLabel ? ` <span class="size">(${escapeHtml(l.sizeLabel)})</span>` : ''}</td><td class="qty">${l.qty}</td><td class="unit">${formatMoney(l.unitPrice)}</td><td class="amt">${formatMoney(lineAmount(l))}</td></tr>` +
+        (promoNote(l) ? `<tr><td class="promo" colspan="4">${promoNote(l)}</td></tr>` : '')
     )
     .join('');
 
@@ -146,10 +272,12 @@ export function buildReceiptHtml(
     td { padding: 2px 0; }
     td.qty, td.unit, td.amt { text-align: right; }
     .item-name { word-break: break-word; max-width: 55%; }
+    td.promo { font-size: 10px; font-style: italic; padding-left: 8px; }
     .totals { margin-top: 6px; font-size: 11px; }
     .totals .row { display: flex; justify-content: space-between; padding: 1px 0; }
     .total-row { font-weight: bold; font-size: 13px; margin-top: 4px; padding-top: 4px; border-top: 2px solid #000; }
     .footer { margin-top: 10px; text-align: center; font-size: 10px; }
+    .fiscal { word-break: break-all; }
     .warn { margin-top: 6px; font-size: 10px; color: #b45309; font-weight: bold; text-align: center; }
   </style>
 </head>
@@ -172,11 +300,16 @@ export function buildReceiptHtml(
     <div class="totals">
       <div class="row"><span>Subtotal</span><span>${formatMoney(subtotal)}</span></div>
       ${hasDiscount ? `<div class="row"><span>Discount</span><span>−${formatMoney(discountAmt)}</span></div>` : ''}
+      ${taxAdded > 0 ? `<div class="row"><span>Tax</span><span>${formatMoney(taxAdded)}</span></div>` : ''}
       <div class="row total-row"><span>TOTAL</span><span>${formatMoney(payload.total)}</span></div>
     </div>
+    ${taxText.map((t) => `<p class="meta">${escapeHtml(t)}</p>`).join('')}
     <p class="meta">Payment: ${escapeHtml(payLabel)}</p>
     ${paymentLinesHtml}
+    ${layawayText.map((t) => `<p class="meta bold">${escapeHtml(t)}</p>`).join('')}
     ${payload.customerName ? `<p class="meta">Customer: ${escapeHtml(payload.customerName)}</p>` : ''}
+    ${loyaltyText.map((t) => `<p class="meta">${escapeHtml(t)}</p>`).join('')}
+    ${fiscalText.length > 0 ? `<div class="div"></div>${fiscalQr ? `<div class="center">${fiscalQr}</div>` : ''}${fiscalText.map((t) => `<p class="center meta fiscal">${escapeHtml(t)}</p>`).join('')}` : ''}
     ${isLocalOnly ? '<p class="warn">⚠ Not synced — reprint after sync</p>' : ''}
     <div class="div"></div>
     <p class="footer">Thank you for your purchase</p>
@@ -255,6 +388,7 @@ export function buildReceiptHtml(
     .item-row td { padding: 10px 0 2px; vertical-align: top; }
     .item-row + .item-row td { border-top: 1px solid #f4f4f5; }
     .item-name { font-size: 13px; font-weight: 600; color: #09090b; line-height: 1.35; }
+    .item-promo { font-size: 11px; font-weight: 600; color: #16a34a; margin-top: 2px; }
     .item-name .size { font-size: 11px; font-weight: 500; color: #71717a; background: #f4f4f5; padding: 1px 6px; border-radius: 4px; margin-left: 4px; }
     .item-qty, .item-price { font-size: 12px; color: #71717a; text-align: right; padding-top: 10px; }
     .item-amt { font-size: 13px; font-weight: 600; color: #09090b; text-align: right; padding-top: 10px; white-space: nowrap; }
@@ -283,6 +417,10 @@ export function buildReceiptHtml(
     }
     .payment-bar .label { font-size: 11px; font-weight: 600; letter-spacing: 0.06em; text-transform: uppercase; color: #a1a1aa; }
     .payment-bar .value { font-size: 13px; font-weight: 600; background: #09090b; color: #fff; padding: 6px 14px; border-radius: 999px; }
+    .loyalty-bar { padding: 10px 24px; border-top: 1px solid #f4f4f5; font-size: 12px; color: #16a34a; font-weight: 500; }
+    .tax-bar { padding: 10px 24px; border-top: 1px solid #f4f4f5; font-size: 11px; color: #71717a; }
+    .fiscal-bar { display: flex; gap: 14px; align-items: center; padding: 12px 24px; border-top: 1px solid #f4f4f5; font-size: 11px; color: #52525b; }
+    .fiscal-bar .fiscal-text { min-width: 0; word-break: break-all; font-family: 'DM Mono', monospace; }
     .footer {
       padding: 16px 24px 20px;
       border-top: 1px solid #f4f4f5;
@@ -320,13 +458,14 @@ export function buildReceiptHtml(
         <span class="col-head right">Amount</span>
       </div>
       <table class="items">
-        <tbody>${payload.lines.map((l) => `<tr class="item-row"><td class="item-name">${escapeHtml(l.name)}${l.sizeLabel ? ` <span class="size">${escapeHtml(l.sizeLabel)}</span>` : ''}</td><td class="item-qty">${l.qty}</td><td class="item-price">${formatMoney(l.unitPrice)}</td><td class="item-amt">${formatMoney(l.unitPrice * l.qty)}</td></tr>`).join('')}</tbody>
+        <tbody>${payload.lines.map((l) => `<tr class="item-row"><td class="item-name">${escapeHtml(l.name)}${l.sizeLabel ? ` <span class="size">${escapeHtml(l.sizeLabel)}</span>` : ''}${promoNote(l) ? `<div class="item-promo">${promoNote(l)}</div>` : ''}</td><td class="item-qty">${l.qty}</td><td class="item-price">${formatMoney(l.unitPrice)}</td><td class="item-amt">${formatMoney(lineAmount(l))}</td></tr>`).join('')}</tbody>
       </table>
     </div>
     ${subtotal !== payload.total || hasDiscount ? `
     <div class="summary">
       ${subtotal !== payload.total ? `<div class="summary-row"><span class="l">Subtotal</span><span class="r">${formatMoney(subtotal)}</span></div>` : ''}
       ${hasDiscount ? `<div class="summary-row discount"><span class="l">Discount</span><span class="r">−${formatMoney(discountAmt)}</span></div>` : ''}
+      ${taxAdded > 0 ? `<div class="summary-row"><span class="l">Tax</span><span class="r">${formatMoney(taxAdded)}</span></div>` : ''}
     </div>` : ''}
     <div class="total-bar">
       <div>
@@ -339,6 +478,10 @@ export function buildReceiptHtml(
       <span class="label">Payment</span>
       <span class="value">${escapeHtml(payLabel)}</span>
     </div>
+    ${taxText.length > 0 ? `<div class="tax-bar">${taxText.map((t) => `<div>${escapeHtml(t)}</div>`).join('')}</div>` : ''}
+    ${layawayText.length > 0 ? `<div class="loyalty-bar">${layawayText.map((t) => `<div>${escapeHtml(t)}</div>`).join('')}</div>` : ''}
+    ${loyaltyText.length > 0 ? `<div class="loyalty-bar">${loyaltyText.map((t) => `<div>${escapeHtml(t)}</div>`).join('')}</div>` : ''}
+    ${fiscalText.length > 0 ? `<div class="fiscal-bar">${fiscalQr}<div class="fiscal-text">${fiscalText.map((t) => `<div>${escapeHtml(t)}</div>`).join('')}</div></div>` : ''}
     ${mixedPayments ? `<div class="payment-breakdown" style="margin-top: 6px; padding-left: 12px; font-size: 0.9em; color: #374151;">${mixedPayments.map((p) => `${escapeHtml(paymentLabel(p.method))}: ${formatMoney(p.amount)}`).join(' · ')}</div>` : ''}
     <div class="footer">
       <div class="footer-msg">Thank you for shopping with us</div>
@@ -348,3 +491,82 @@ export function buildReceiptHtml(
 </body>
 </html>`;
 }
+
+function signedMoney(n: number): string {
+  if (n > 0) return `+${formatMoney(n)}`;
+  if (n < 0) return `−${formatMoney(-n)}`;
+  return formatMoney(0);
+}
+
+/**
+ * X / Z till report on the 80mm thermal layout. X = running figures while the till is open; Z = closing figures
+ * with the counted cash and variance (over +, short −).
+ */
+export function buildTillReportHtml(report: TillReport, options: { warehouseName?: string | null } = {}): string {
+  const { session, movements } = report;
+  const s = session.summary;
+  const isZ = report.type === 'Z';
+  const row = (label: string, value: string, cls = '') =>
+    `<div class="row${cls ? ` ${cls}` : ''}"><span>${escapeHtml(label)}</span><span>${escapeHtml(value)}</span></div>`;
+
+  const methodRows = Object.entries(s.byMethod)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([method, amount]) => row(paymentLabel(method), formatMoney(amount)))
+    .join('');
+  const movementRows = movements
+    .map(
+      (m) =>
+        `<p class="meta">${escapeHtml(formatReceiptTimeOnly(m.createdAt))} ${m.kind === 'paid_in' ? 'In' : 'Out'} ${formatMoney(m.amount)} — ${escapeHtml(m.reason)}</p>`
+    )
+    .join('');
+  const variance = session.variance ?? 0;
+
+  return `<!DOCTYPE html>
+<html lang="en-GH">
+<head>
+  <meta charset="utf-8">
+  <title>${report.type} report ${escapeHtml(session.sessionNumber)}</title>
+  <style>
+    @media print { body { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+    body { font-family: 'Courier New', Courier, monospace; font-size: 12px; padding: 8px; max-width: 72mm; margin: 0 auto; color: #000; }
+    .center { text-align: center; }
+    .div { border-bottom: 1px dashed #333; margin: 6px 0; }
+    h1 { font-size: 14px; margin: 0 0 4px 0; letter-spacing: 0.02em; }
+    h2 { font-size: 11px; margin: 6px 0 2px; text-transform: uppercase; }
+    .meta { font-size: 10px; margin: 3px 0; }
+    .row { display: flex; justify-content: space-between; padding: 1px 0; font-size: 11px; }
+    .strong { font-weight: bold; font-size: 13px; margin-top: 4px; padding-top: 4px; border-top: 2px solid #000; }
+    .footer { margin-top: 10px; text-align: center; font-size: 10px; }
+  </style>
+</head>
+<body>
+  <h1 class="center">${escapeHtml(BUSINESS_NAME)}</h1>
+  <p class="center meta"><strong>${isZ ? 'Z REPORT — TILL CLOSED' : 'X REPORT — TILL OPEN'}</strong></p>
+  <p class="center meta">${escapeHtml(session.sessionNumber)}${options.warehouseName ? ` · ${escapeHtml(options.warehouseName)}` : ''}</p>
+  <p class="center meta">Opened ${escapeHtml(formatReceiptDateTime(session.openedAt))} by ${escapeHtml(session.openedBy ?? '—')}</p>
+  ${isZ ? `<p class="center meta">Closed ${escapeHtml(formatReceiptDateTime(session.closedAt))} by ${escapeHtml(session.closedBy ?? '—')}</p>` : `<p class="center meta">Printed ${escapeHtml(formatReceiptDateTime(null))}</p>`}
+  <div class="div"></div>
+  <h2>Sales</h2>
+  ${row(`Sales (${s.salesCount})`, formatMoney(s.salesTotal))}
+  ${s.discountTotal > 0 ? row('Discounts given', `−${formatMoney(s.discountTotal)}`) : ''}
+  ${methodRows}
+  ${(s.layawayCount ?? 0) > 0 ? row(`Layaway payments (${s.layawayCount})`, formatMoney(s.layawayTotal ?? 0)) : ''}
+  ${row(`Voids (${s.voidCount})`, formatMoney(s.voidTotal))}
+  ${row(`Refunds (${s.refundCount})`, formatMoney(s.refundTotal))}
+  <div class="div"></div>
+  <h2>Cash drawer</h2>
+  ${row('Opening float', formatMoney(s.openingFloat))}
+  ${row('Cash sales', `+${formatMoney(s.cashSales)}`)}
+  ${row('Cash refunds', `−${formatMoney(s.cashRefunds)}`)}
+  ${row('Paid in', `+${formatMoney(s.paidIn)}`)}
+  ${row('Paid out', `−${formatMoney(s.paidOut)}`)}
+  ${row('Expected cash', formatMoney(s.expectedCash), 'strong')}
+  ${isZ ? row('Counted cash', formatMoney(session.countedCash ?? 0)) : ''}
+  ${isZ ? row(variance === 0 ? 'Variance' : variance > 0 ? 'Variance (over)' : 'Variance (short)', signedMoney(variance), 'strong') : ''}
+  ${movementRows ? `<div class="div"></div><h2>Paid in / out</h2>${movementRows}` : ''}
+  ${session.note ? `<p class="meta">Note: ${escapeHtml(session.note)}</p>` : ''}
+  <div class="div"></div>
+  <p class="footer">${escapeHtml(GHANA_TZ)} (GMT) · GH₵ — Ghana Cedi</p>
+</body>
+</html>`;
+}
@@ -0,0 +1,50 @@
+/**
+ * Keyboard-wedge scan detection: scanner bursts vs human typing.
+ */
+import { describe, it, expect } from 'vitest';
+import { createScanDetector } from './scanDetector';
+
+function type(detector: ReturnType<typeof createScanDetector>, text: string, start: number, gapMs: number) {
+  let t = start;
+  for (const ch of text) {
+    detector.feed(ch, t);
+    t += gapMs;
+  }
+  return detector.feed('Enter', t);
+}
+
+describe('createScanDetector', () => {
+  it('reports a fast burst ending in Enter as a scan', () => {
+    const d = createScanDetector();
+    expect(type(d, '5012345678900', 0, 8)).toBe('5012345678900');
+  });
+
+  it('ignores human-speed typing', () => {
+    const d = createScanDetector();
+    expect(type(d, 'EDK-TEE-01', 0, 120)).toBeNull();
+  });
+
+  it('drops slowly typed prefix and keeps the scanned run', () => {
+    const d = createScanDetector();
+    d.feed('s', 0);
+    d.feed('h', 150);
+    expect(type(d, '12345678', 400, 10)).toBe('12345678');
+  });
+
+  it('rejects bursts shorter than minLength', () => {
+    const d = createScanDetector({ minLength: 6 });
+    expect(type(d, '123', 0, 5)).toBeNull();
+  });
+
+  it('rejects Enter that arrives long after the burst', () => {
+    const d = createScanDetector();
+    '12345678'.split('').forEach((ch, i) => d.feed(ch, i * 5));
+    expect(d.feed('Enter', 2000)).toBeNull();
+  });
+
+  it('ignores non-printable keys', () => {
+    const d = createScanDetector();
+    d.feed('Shift', 0);
+    expect(type(d, 'ABC12345', 1, 6)).toBe('ABC12345');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Keyboard-wedge (USB/Bluetooth HID) scanner detection.
+ * Scanners "type" the whole code in a few milliseconds per key and finish with Enter;
+ * people don't get below ~50ms between keys. A run of keys that are all closer together
+ * than maxInterKeyMs, at least minLength long and terminated by Enter, is a scan.
+ * Pure (no DOM) so it can be unit-tested with synthetic timestamps.
+ */
+
+export interface ScanDetectorOptions {
+  /** Max gap between keys of the same scan. Default 35ms (typical scanners: 5–20ms). */
+  maxInterKeyMs?: number;
+  /** Shortest code accepted. Default 6 (EAN-8 is 8, short internal SKUs ~6). */
+  minLength?: number;
+}
+
+export interface ScanDetector {
+  /**
+   * Feed one keydown. Returns the scanned code when `key` is Enter closing a scanner burst,
+   * otherwise null. Only single printable characters and Enter are meaningful.
+   */
+  feed(key: string, at: number): string | null;
+  reset(): void;
+}
+
+export const DEFAULT_SCAN_MAX_INTER_KEY_MS = 35;
+export const DEFAULT_SCAN_MIN_LENGTH = 6;
+
+export function createScanDetector(options: ScanDetectorOptions = {}): ScanDetector {
+  const maxGap = options.maxInterKeyMs ?? DEFAULT_SCAN_MAX_INTER_KEY_MS;
+  const minLength = options.minLength ?? DEFAULT_SCAN_MIN_LENGTH;
+  let buffer = '';
+  let lastAt = -Infinity;
+
+  const reset = () => {
+    buffer = '';
+    lastAt = -Infinity;
+  };
+
+  return {
+    feed(key, at) {
+      if (key === 'Enter') {
+        const code = buffer;
+        const closesBurst = at - lastAt <= maxGap * 2;
+        reset();
+        return closesBurst && code.length >= minLength ? code : null;
+      }
+      if (key.length !== 1) return null;
+      // A slow gap starts a new candidate run; the previous keys were human typing.
+      buffer = at - lastAt <= maxGap ? buffer + key : key;
+      lastAt = at;
+      return null;
+    },
+    reset,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Cart tax: the Ghana component split (levies on the base, VAT on base + levies), inclusive vs exclusive prices and
+ * which class a line falls under.
+ */
+import { describe, it, expect } from 'vitest';
+import { cartTax, computeTax, resolveTaxClass, STANDARD_COMPONENTS } from './tax';
+import type { TaxClass, TaxSetup } from '../services/taxApi';
+
+function taxClass(overrides: Partial<TaxClass>): TaxClass {
+  return {
+    id: 'standard',
+    code: 'standard',
+    name: 'Standard rate',
+    inclusive: true,
+    components: STANDARD_COMPONENTS,
+    isDefault: true,
+    active: true,
+    updatedByEmail: null,
+    createdAt: '2026-03-28T00:00:00Z',
+    updatedAt: '2026-03-28T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const setup: TaxSetup = {
+  classes: [
+    taxClass({}),
+    taxClass({ id: 'exempt', code: 'exempt', name: 'Exempt', components: [], isDefault: false }),
+    taxClass({ id: 'added', code: 'added', name: 'Standard, added at till', inclusive: false, isDefault: false }),
+    taxClass({ id: 'old', code: 'old', name: 'Old', components: [], isDefault: false, active: false }),
+  ],
+  categories: [{ category: 'school books', taxClassId: 'exempt' }],
+};
+
+describe('computeTax', () => {
+  it('splits a tax-inclusive price into levies and VAT on top of them', () => {
+    const tax = computeTax(STANDARD_COMPONENTS, true, 121.9);
+    expect(tax.taxableAmount).toBe(100);
+    expect(tax.taxAmount).toBe(21.9);
+    expect(tax.breakdown.map((b) => [b.code, b.amount])).toEqual([
+      ['NHIL', 2.5],
+      ['GETFUND', 2.5],
+      ['COVID', 1],
+      ['VAT', 15.9],
+    ]);
+  });
+
+  it('adds the same tax on top of a tax-exclusive price', () => {
+    const tax = computeTax(STANDARD_COMPONENTS, false, 100);
+    expect(tax.taxableAmount).toBe(100);
+    expect(tax.taxAmount).toBe(21.9);
+  });
+
+  it('charges nothing without components', () => {
+    expect(computeTax([], true, 80)).toEqual({ taxableAmount: 80, taxAmount: 0, breakdown: [] });
+  });
+});
+
+describe('resolveTaxClass', () => {
+  it('uses the product class, then the category class, then the default', () => {
+    expect(resolveTaxClass(setup, { taxClassId: 'added', category: 'School Books' })?.id).toBe('added');
+    expect(resolveTaxClass(setup, { taxClassId: null, category: ' School Books ' })?.id).toBe('exempt');
+    expect(resolveTaxClass(setup, { taxClassId: null, category: 'Sneakers' })?.id).toBe('standard');
+  });
+
+  it('skips a switched-off class', () => {
+    expect(resolveTaxClass(setup, { taxClassId: 'old', category: null })?.id).toBe('standard');
+  });
+});
+
+describe('cartTax', () => {
+  it('keeps inclusive tax inside the prices and adds exclusive tax on top, after the discount', () => {
+    const tax = cartTax(
+      [
+        { key: 'a', productId: 'p1', amount: 121.9 },
+        { key: 'b', productId: 'p2', taxClassId: 'added', amount: 200 },
+        { key: 'c', productId: 'p3', category: 'school books', amount: 50 },
+      ],
+      setup,
+      50
+    );
+    expect(tax.included).toBe(10.95);
+    expect(tax.added).toBe(21.9);
+    expect(tax.breakdown.find((b) => b.code === 'VAT')?.amount).toBe(23.85);
+  });
+});
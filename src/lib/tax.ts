@@ -0,0 +1,124 @@
+/**
+ * Cart tax: which tax class each line falls under and the component split (VAT, NHIL, GETFund, COVID-19).
+ * Mirrors compute_line_tax / the sale_lines trigger on the server, which records the tax per line; the cart uses
+ * this to add tax-exclusive classes to the total and to show the breakdown. Levies are charged on the base and
+ * compound components (VAT) on the base plus the levies, each rounded to the pesewa.
+ */
+
+import type { SaleTax, TaxBreakdownItem, TaxClass, TaxComponent, TaxSetup } from '../services/taxApi';
+
+export interface TaxableLine {
+  key: string;
+  productId: string;
+  category?: string | null;
+  /** The product's own class; null = its category's class, else the default. */
+  taxClassId?: string | null;
+  /** What the line costs after its promotion, before the sale discount. */
+  amount: number;
+}
+
+export interface LineTaxResult {
+  taxableAmount: number;
+  taxAmount: number;
+  breakdown: TaxBreakdownItem[];
+}
+
+/** Ghana's standard rate as seeded by the tax_classes migration. Used until the till has loaded the real classes. */
+export const STANDARD_COMPONENTS: TaxComponent[] = [
+  { code: 'NHIL', label: 'NHIL', rate: 2.5, compound: false },
+  { code: 'GETFUND', label: 'GETFund levy', rate: 2.5, compound: false },
+  { code: 'COVID', label: 'COVID-19 levy', rate: 1, compound: false },
+  { code: 'VAT', label: 'VAT', rate: 15, compound: true },
+];
+
+export const FALLBACK_TAX_SETUP: TaxSetup = {
+  classes: [
+    {
+      id: 'standard',
+      code: 'standard',
+      name: 'Standard rate',
+      inclusive: true,
+      components: STANDARD_COMPONENTS,
+      isDefault: true,
+      active: true,
+      updatedByEmail: null,
+      createdAt: '',
+      updatedAt: '',
+    },
+  ],
+  categories: [],
+};
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Split an amount into taxable amount and tax per component. Inclusive: the amount already contains the tax. */
+export function computeTax(components: TaxComponent[], inclusive: boolean, amount: number): LineTaxResult {
+  if (components.length === 0 || !amount) {
+    return { taxableAmount: round2(amount || 0), taxAmount: 0, breakdown: [] };
+  }
+  const levies = components.filter((c) => !c.compound).reduce((s, c) => s + c.rate, 0) / 100;
+  const compound = components.filter((c) => c.compound).reduce((s, c) => s + c.rate, 0) / 100;
+  const base = inclusive ? amount / ((1 + levies) * (1 + compound)) : amount;
+  const breakdown = components.map((c) => ({
+    code: c.code,
+    label: c.label,
+    rate: c.rate,
+    amount: round2(base * (c.compound ? 1 + levies : 1) * (c.rate / 100)),
+  }));
+  const taxAmount = round2(breakdown.reduce((s, b) => s + b.amount, 0));
+  return { taxableAmount: round2(inclusive ? amount - taxAmount : amount), taxAmount, breakdown };
+}
+
+/** Product's own class, then its category's, then the default. Inactive classes are skipped. */
+export function resolveTaxClass(
+  setup: TaxSetup,
+  line: Pick<TaxableLine, 'taxClassId' | 'category'>
+): TaxClass | null {
+  const active = (id: string | null | undefined) => (id ? setup.classes.find((c) => c.id === id && c.active) : undefined);
+  const category = line.category?.trim().toLowerCase();
+  const byCategory = category ? setup.categories.find((c) => c.category === category)?.taxClassId : undefined;
+  return active(line.taxClassId) ?? active(byCategory) ?? setup.classes.find((c) => c.isDefault && c.active) ?? null;
+}
+
+/** Adds breakdown items of the same component and rate. */
+export function mergeBreakdown(items: TaxBreakdownItem[]): TaxBreakdownItem[] {
+  const byKey = new Map<string, TaxBreakdownItem>();
+  for (const b of items) {
+    const key = `${b.code}@${b.rate}`;
+    const prev = byKey.get(key);
+    byKey.set(key, { ...b, amount: round2((prev?.amount ?? 0) + b.amount) });
+  }
+  return Array.from(byKey.values()).filter((b) => b.amount !== 0);
+}
+
+/**
+ * Tax on the cart. discountPct is the cashier's discount, which comes off every line before tax (as on the server).
+ * `added` is what the total must include on top of subtotal − discount.
+ */
+export function cartTax(lines: TaxableLine[], setup: TaxSetup, discountPct = 0): SaleTax {
+  const ratio = Math.max(0, 1 - discountPct / 100);
+  let included = 0;
+  let added = 0;
+  const items: TaxBreakdownItem[] = [];
+  for (const line of lines) {
+    const taxClass = resolveTaxClass(setup, line);
+    if (!taxClass) continue;
+    const tax = computeTax(taxClass.components, taxClass.inclusive, round2(line.amount * ratio));
+    if (taxClass.inclusive) included += tax.taxAmount;
+    else added += tax.taxAmount;
+    items.push(...tax.breakdown);
+  }
+  return { included: round2(included), added: round2(added), breakdown: mergeBreakdown(items) };
+}
+
+/** "VAT 15%", "NHIL 2.5%". */
+export function taxComponentLabel(b: Pick<TaxBreakdownItem, 'label' | 'rate'>): string {
+  return `${b.label} ${b.rate}%`;
+}
+
+/** Effective rate of a class on the taxable base, e.g. 21.9 for the standard rate. */
+export function effectiveTaxRate(components: TaxComponent[]): number {
+  return computeTax(components, false, 100).taxAmount;
+}
@@ -87,7 +87,6 @@ export const businessProfileSchema = z.object({
   address: z.string().min(1, 'Address is required').max(500),
   phone: z.string().min(1, 'Phone is required').max(50),
   email: z.string().min(1, 'Email is required').email('Enter a valid email').max(200),
-  taxRate: z.coerce.number().min(0, 'Tax rate must be 0 or more').max(100).finite(),
   currency: z.string().max(10).default('GHS'),
   logo: z.string().optional(),
 });
@@ -0,0 +1,102 @@
+/**
+ * XLSX reading for imports: zip directory, stored and deflated parts, shared / inline strings, sparse cells.
+ */
+import { describe, it, expect } from 'vitest';
+import { readXlsxRows, toCsv } from './xlsx';
+
+async function deflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Response(data).body!.pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Minimal zip (no CRCs: the reader does not check them). */
+async function zip(files: Record<string, string>, compress: boolean): Promise<ArrayBuffer> {
+  const enc = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = enc.encode(name);
+    const raw = enc.encode(text);
+    const data = compress ? await deflate(raw) : raw;
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, compress ? 8 : 0, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, compress ? 8 : 0, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+  const centralSize = centrals.reduce((s, c) => s + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, centrals.length, true);
+  ev.setUint16(10, centrals.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const out = new Uint8Array(offset + centralSize + 22);
+  let p = 0;
+  for (const part of [...locals, ...centrals, eocd]) {
+    out.set(part, p);
+    p += part.length;
+  }
+  return out.buffer;
+}
+
+const workbook = {
+  'xl/workbook.xml':
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Products" sheetId="1" r:id="rId3"/></sheets></workbook>',
+  'xl/_rels/workbook.xml.rels':
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId3" Target="worksheets/products.xml"/></Relationships>',
+  'xl/sharedStrings.xml':
+    '<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><si><t>sku</t></si><si><t>name</t></si><si><t>price</t></si><si><r><t>Runner</t></r><r><t xml:space="preserve"> Black</t></r></si></sst>',
+  'xl/worksheets/products.xml':
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+    '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>' +
+    '<row r="3"><c r="A3" t="inlineStr"><is><t>RUN-BLK</t></is></c><c r="B3" t="s"><v>3</v></c><c r="D3"><v>450.5</v></c></row>' +
+    '</sheetData></worksheet>',
+};
+
+describe('readXlsxRows', () => {
+  it.each([
+    ['stored', false],
+    ['deflated', true],
+  ])('reads the first sheet of a %s workbook', async (_label, compress) => {
+    const rows = await readXlsxRows(await zip(workbook, compress));
+    expect(rows).toEqual([
+      ['sku', 'name', 'price'],
+      [],
+      ['RUN-BLK', 'Runner Black', '', '450.5'],
+    ]);
+  });
+
+  it('rejects a file that is not a zip', async () => {
+    await expect(readXlsxRows(new TextEncoder().encode('sku,name\n').buffer)).rejects.toThrow(/Not an \.xlsx file/);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes cells with separators, quotes or line breaks', () => {
+    expect(toCsv([['sku', 'sizes'], ['A "1"', 'EU40:2; EU41:3'], ['B', 'x,y']])).toBe(
+      'sku,sizes\n"A ""1""","EU40:2; EU41:3"\nB,"x,y"'
+    );
+  });
+});
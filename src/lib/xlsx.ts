@@ -0,0 +1,131 @@
+/**
+ * Just enough XLSX reading for imports: the first worksheet's cells as text, row by row. An .xlsx file is a zip of
+ * XML parts; entries are inflated with the browser's DecompressionStream and parsed with DOMParser, so no
+ * spreadsheet library is bundled. Formulas come through as their last computed value.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+function readZipEntries(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not an .xlsx file (no zip directory found).');
+
+  const count = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, ZipEntry>();
+  const decoder = new TextDecoder();
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(p, true) !== CENTRAL_SIGNATURE) throw new Error('Damaged .xlsx file.');
+    const nameLength = view.getUint16(p + 28, true);
+    const extraLength = view.getUint16(p + 30, true);
+    const commentLength = view.getUint16(p + 32, true);
+    entries.set(decoder.decode(bytes.subarray(p + 46, p + 46 + nameLength)), {
+      method: view.getUint16(p + 10, true),
+      compressedSize: view.getUint32(p + 20, true),
+      localOffset: view.getUint32(p + 42, true),
+    });
+    p += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipText(bytes: Uint8Array, entries: Map<string, ZipEntry>, name: string): Promise<string | null> {
+  const entry = entries.get(name);
+  if (!entry) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const p = entry.localOffset;
+  if (view.getUint32(p, true) !== LOCAL_SIGNATURE) throw new Error('Damaged .xlsx file.');
+  const start = p + 30 + view.getUint16(p + 26, true) + view.getUint16(p + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error('Unsupported .xlsx compression.');
+  const stream = new Response(data).body!.pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+/** Text of an element's <t> descendants (rich text runs joined). */
+function textOf(el: Element): string {
+  return Array.from(el.getElementsByTagName('t'))
+    .map((t) => t.textContent ?? '')
+    .join('');
+}
+
+/** Zero-based column of a cell reference such as "C7". */
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/[^A-Z]/gi, '').toUpperCase();
+  let n = 0;
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+/** Path of the workbook's first sheet, e.g. xl/worksheets/sheet1.xml. */
+async function firstSheetPath(bytes: Uint8Array, entries: Map<string, ZipEntry>): Promise<string> {
+  const workbook = await readZipText(bytes, entries, 'xl/workbook.xml');
+  const rels = await readZipText(bytes, entries, 'xl/_rels/workbook.xml.rels');
+  const sheet = workbook ? parseXml(workbook).getElementsByTagName('sheet')[0] : undefined;
+  const relId = sheet?.getAttribute('r:id');
+  if (rels && relId) {
+    const rel = Array.from(parseXml(rels).getElementsByTagName('Relationship')).find((r) => r.getAttribute('Id') === relId);
+    const target = rel?.getAttribute('Target');
+    if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+  return 'xl/worksheets/sheet1.xml';
+}
+
+/** Cells of the first worksheet as text; missing cells are ''. */
+export async function readXlsxRows(buffer: ArrayBuffer): Promise<string[][]> {
+  const bytes = new Uint8Array(buffer);
+  const entries = readZipEntries(bytes);
+  const sheetXml = await readZipText(bytes, entries, await firstSheetPath(bytes, entries));
+  if (!sheetXml) throw new Error('The workbook has no worksheet.');
+  const sharedXml = await readZipText(bytes, entries, 'xl/sharedStrings.xml');
+  const shared = sharedXml ? Array.from(parseXml(sharedXml).getElementsByTagName('si')).map(textOf) : [];
+
+  const rows: string[][] = [];
+  for (const rowEl of Array.from(parseXml(sheetXml).getElementsByTagName('row'))) {
+    const rowNumber = Number(rowEl.getAttribute('r')) || rows.length + 1;
+    while (rows.length < rowNumber - 1) rows.push([]);
+    const cells: string[] = [];
+    for (const c of Array.from(rowEl.getElementsByTagName('c'))) {
+      const ref = c.getAttribute('r');
+      const col = ref ? columnIndex(ref) : cells.length;
+      const type = c.getAttribute('t');
+      const raw = c.getElementsByTagName('v')[0]?.textContent ?? '';
+      let value: string;
+      if (type === 's') value = shared[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = textOf(c);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else value = raw;
+      while (cells.length < col) cells.push('');
+      cells[col] = value;
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+/** Rows as CSV text, quoting cells where needed. */
+export function toCsv(rows: string[][]): string {
+  return rows
+    .map((cells) => cells.map((c) => (/[",;\r\n]|^\s|\s$/.test(c) ? `"${c.replace(/"/g, '""')}"` : c)).join(','))
+    .join('\n');
+}
@@ -0,0 +1,365 @@
+// ============================================================
+// CustomersPage.tsx
+// File: warehouse-pos/src/pages/CustomersPage.tsx
+//
+// Customer directory (shared by all warehouses).
+//   - Search by name or phone, add customers
+//   - Profile: lifetime spend, visits, average basket, last visit
+//   - Loyalty points / store credit balances and their ledger entries
+//   - Past receipts with their items; edit details / delete (manage permission)
+// ============================================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { Contact } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { getUserFriendlyMessage } from '../lib/errorMessages';
+import { PERMISSIONS } from '../types/permissions';
+import { EmptyState } from '../components/ui/EmptyState';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import {
+  averageBasket,
+  createCustomer,
+  deleteCustomer,
+  fetchCustomer,
+  formatPhone,
+  normalizePhone,
+  searchCustomers,
+  updateCustomer,
+  type CustomerInput,
+  type CustomerProfile,
+  type CustomerRecord,
+} from '../services/customersApi';
+import { fetchCustomerLedger, type CustomerLedger } from '../services/loyaltyApi';
+
+const inputClass =
+  'w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px]';
+
+function fmtDate(iso: string) {
+  return new Date(iso).toLocaleDateString('en-GH', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+function fmtTime(iso: string) {
+  return new Date(iso).toLocaleString('en-GH', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+function fmtMoney(n: number) {
+  return `GH₵${n.toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// ── Add / edit form ───────────────────────────────────────────────────────
+
+function CustomerForm({
+  initial, saving, onSave, onCancel,
+}: {
+  initial?: CustomerRecord;
+  saving: boolean;
+  onSave: (input: CustomerInput) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(initial?.name ?? '');
+  const [phone, setPhone] = useState(initial ? formatPhone(initial.phone) : '');
+  const [email, setEmail] = useState(initial?.email ?? '');
+  const [notes, setNotes] = useState(initial?.notes ?? '');
+  const valid = name.trim() !== '' && normalizePhone(phone) != null;
+
+  return (
+    <div className="rounded-[var(--edk-radius)] border-[1.5px] border-[var(--edk-border)] bg-[var(--edk-surface)] p-4 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="Full name" className={inputClass} />
+        <input type="tel" value={phone} onChange={e => setPhone(e.target.value)} placeholder="Phone (e.g. 0244 XXX XXX)" className={inputClass} />
+        <input type="email" value={email} onChange={e => setEmail(e.target.value)} placeholder="Email (optional)" className={inputClass} />
+        <input type="text" value={notes} onChange={e => setNotes(e.target.value)} placeholder="Notes (kids' sizes, preferences…)" className={inputClass} />
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="primary" size="sm" loading={saving} disabled={saving || !valid}
+          onClick={() => onSave({ name: name.trim(), phone, email: email.trim() || null, notes: notes.trim() || null })}>
+          Save
+        </Button>
+        <Button type="button" variant="secondary" size="sm" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  );
+}
+
+// ── Profile ───────────────────────────────────────────────────────────────
+
+// ── Points & store credit ─────────────────────────────────────────────────
+
+const ENTRY_LABEL: Record<string, string> = {
+  earn: 'Earned',
+  redeem: 'Redeemed',
+  refund: 'Refund',
+  reversal: 'Reversed',
+  adjustment: 'Adjustment',
+};
+
+function LedgerHistory({ customerId }: { customerId: string }) {
+  const [ledger, setLedger] = useState<CustomerLedger | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCustomerLedger(customerId, 20)
+      .then(l => { if (!cancelled) setLedger(l); })
+      .catch(() => { if (!cancelled) setFailed(true); });
+    return () => { cancelled = true; };
+  }, [customerId]);
+
+  if (failed) return <p className="text-[13px] text-[var(--edk-ink-3)]">Could not load points history.</p>;
+  if (!ledger) return <div className="flex justify-center py-4"><LoadingSpinner size="sm" /></div>;
+
+  const entries = [
+    ...ledger.points.map(e => ({ id: e.id, createdAt: e.createdAt, label: ENTRY_LABEL[e.entryType], receiptId: e.receiptId, note: e.note, value: `${e.points > 0 ? '+' : ''}${e.points} pts` })),
+    ...ledger.storeCredit.map(e => ({ id: e.id, createdAt: e.createdAt, label: `${ENTRY_LABEL[e.entryType]} (credit)`, receiptId: e.receiptId, note: e.note, value: `${e.amount > 0 ? '+' : '−'}${fmtMoney(Math.abs(e.amount))}` })),
+  ].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  if (entries.length === 0) return <p className="text-[13px] text-[var(--edk-ink-3)]">No points or store credit yet.</p>;
+
+  return (
+    <div className="rounded-xl border border-[var(--edk-border)] bg-[var(--edk-surface)] divide-y divide-[var(--edk-border)]">
+      {entries.map(e => (
+        <div key={e.id} className="flex items-center justify-between gap-2 px-3 py-2 text-[12px]">
+          <span className="text-[var(--edk-ink-2)] truncate">
+            {e.label}{e.receiptId ? ` · ${e.receiptId}` : ''}{e.note ? ` · ${e.note}` : ''}
+            <span className="text-[var(--edk-ink-3)]"> · {fmtTime(e.createdAt)}</span>
+          </span>
+          <span className="font-semibold tabular-nums text-[var(--edk-ink)]">{e.value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CustomerProfileView({
+  profile, canManage, onChanged, onDeleted, onBack,
+}: {
+  profile: CustomerProfile;
+  canManage: boolean;
+  onChanged: (c: CustomerRecord) => void;
+  onDeleted: (id: string) => void;
+  onBack: () => void;
+}) {
+  const { showToast } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  async function save(input: CustomerInput) {
+    setSaving(true);
+    try {
+      onChanged(await updateCustomer(profile.id, input));
+      setEditing(false);
+      showToast('success', 'Customer updated.');
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove() {
+    if (!window.confirm(`Delete ${profile.name}? Past receipts are kept but no longer linked.`)) return;
+    try {
+      await deleteCustomer(profile.id);
+      onDeleted(profile.id);
+      showToast('success', 'Customer deleted.');
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <button type="button" onClick={onBack} className="text-[12px] font-semibold text-[var(--edk-ink-3)] hover:text-[var(--edk-ink)]">← All customers</button>
+          <p className="text-[18px] font-bold text-[var(--edk-ink)] mt-1">{profile.name}</p>
+          <p className="text-[12px] text-[var(--edk-ink-3)]">
+            {formatPhone(profile.phone)}{profile.email ? ` · ${profile.email}` : ''} · customer since {fmtDate(profile.createdAt)}
+          </p>
+          {profile.notes && <p className="text-[12px] text-[var(--edk-ink-2)] mt-1">{profile.notes}</p>}
+        </div>
+        {canManage && !editing && (
+          <div className="flex gap-2">
+            <Button type="button" variant="secondary" size="sm" onClick={() => setEditing(true)}>Edit</Button>
+            <Button type="button" variant="secondary" size="sm" onClick={remove}>Delete</Button>
+          </div>
+        )}
+      </div>
+
+      {editing && <CustomerForm initial={profile} saving={saving} onSave={save} onCancel={() => setEditing(false)} />}
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {[
+          { label: 'Lifetime spend', value: fmtMoney(profile.lifetimeSpend) },
+          { label: 'Visits', value: String(profile.visitCount) },
+          { label: 'Average basket', value: fmtMoney(averageBasket(profile)) },
+          { label: 'Last visit', value: profile.lastVisitAt ? fmtDate(profile.lastVisitAt) : '—' },
+          { label: 'Loyalty points', value: `${profile.pointsBalance.toLocaleString('en-GH')} (${fmtMoney(profile.pointsValue)})` },
+          { label: 'Store credit', value: fmtMoney(profile.storeCreditBalance) },
+        ].map(s => (
+          <div key={s.label} className="rounded-xl border border-[var(--edk-border)] bg-[var(--edk-surface)] px-3 py-2">
+            <p className="text-[11px] text-[var(--edk-ink-3)]">{s.label}</p>
+            <p className="text-[15px] font-bold text-[var(--edk-ink)] tabular-nums">{s.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h2 className="text-[13px] font-bold text-[var(--edk-ink-2)] mb-2">Points &amp; store credit</h2>
+        <LedgerHistory customerId={profile.id} />
+      </div>
+
+      <div>
+        <h2 className="text-[13px] font-bold text-[var(--edk-ink-2)] mb-2">Receipts</h2>
+        {profile.receipts.length === 0 ? (
+          <p className="text-[13px] text-[var(--edk-ink-3)]">No purchases yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {profile.receipts.map(r => (
+              <div key={r.id} className="rounded-xl border border-[var(--edk-border)] bg-[var(--edk-surface)]">
+                <button type="button" onClick={() => setExpanded(x => (x === r.id ? null : r.id))}
+                  className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left">
+                  <div className="min-w-0">
+                    <p className="text-[13px] font-semibold text-[var(--edk-ink)]">{r.receiptId}</p>
+                    <p className="text-[11px] text-[var(--edk-ink-3)]">
+                      {fmtTime(r.createdAt)} · {r.lines.reduce((n, l) => n + l.qty, 0)} items · {r.paymentMethod.replace('_', ' ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {r.status === 'voided' && <Badge variant="gray" size="sm">Voided</Badge>}
+                    <span className="text-[13px] font-bold text-[var(--edk-ink)] tabular-nums">{fmtMoney(r.total)}</span>
+                  </div>
+                </button>
+                {expanded === r.id && (
+                  <div className="border-t border-[var(--edk-border)] px-3 py-2 space-y-1">
+                    {r.lines.map((l, i) => (
+                      <div key={i} className="flex justify-between gap-2 text-[12px]">
+                        <span className="text-[var(--edk-ink-2)] truncate">{l.qty} × {l.name}{l.sizeCode ? ` · ${l.sizeCode}` : ''}</span>
+                        <span className="tabular-nums text-[var(--edk-ink-3)]">{fmtMoney(l.lineTotal)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ── Main Page ─────────────────────────────────────────────────────────────
+
+export default function CustomersPage() {
+  const { hasPermission } = useAuth();
+  const { showToast } = useToast();
+  const canManage = hasPermission(PERMISSIONS.CUSTOMERS.MANAGE);
+
+  const [query, setQuery] = useState('');
+  const [customers, setCustomers] = useState<CustomerRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [profile, setProfile] = useState<CustomerProfile | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback((q: string) => {
+    setLoading(true);
+    searchCustomers(q, 50)
+      .then(setCustomers)
+      .catch((e: unknown) => showToast('error', getUserFriendlyMessage(e)))
+      .finally(() => setLoading(false));
+  }, [showToast]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => load(query.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [query, load]);
+
+  async function open(id: string) {
+    try {
+      setProfile(await fetchCustomer(id));
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    }
+  }
+
+  async function add(input: CustomerInput) {
+    setSaving(true);
+    try {
+      const created = await createCustomer(input);
+      setAdding(false);
+      setCustomers(prev => [created, ...prev]);
+      await open(created.id);
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--edk-bg)] pb-20">
+      <div className="sticky top-0 z-30 bg-[var(--edk-surface)] border-b border-[var(--edk-border)] px-4 pt-4 pb-3">
+        <h1 className="text-[20px] font-extrabold text-[var(--edk-ink)] tracking-tight" style={{ fontFamily: "'Barlow Condensed', sans-serif" }}>Customers</h1>
+        <p className="text-[12px] text-[var(--edk-ink-3)] mt-0.5">Directory, spend and purchase history</p>
+      </div>
+
+      <div className="px-4 pt-4 space-y-4 max-w-3xl">
+        {profile ? (
+          <CustomerProfileView
+            key={profile.id}
+            profile={profile}
+            canManage={canManage}
+            onChanged={c => {
+              setProfile(prev => (prev ? { ...prev, ...c } : prev));
+              setCustomers(prev => prev.map(x => (x.id === c.id ? c : x)));
+            }}
+            onDeleted={id => {
+              setProfile(null);
+              setCustomers(prev => prev.filter(x => x.id !== id));
+            }}
+            onBack={() => setProfile(null)}
+          />
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <input type="search" value={query} onChange={e => setQuery(e.target.value)} placeholder="Search name or phone…" className={inputClass} />
+              {canManage && !adding && (
+                <Button type="button" variant="primary" size="sm" onClick={() => setAdding(true)}>Add</Button>
+              )}
+            </div>
+
+            {adding && <CustomerForm saving={saving} onSave={add} onCancel={() => setAdding(false)} />}
+
+            {loading && customers.length === 0 ? (
+              <div className="flex justify-center py-10"><LoadingSpinner /></div>
+            ) : customers.length === 0 ? (
+              <EmptyState icon={Contact} title="No customers found" description="Customers added at checkout or here show up in this list." />
+            ) : (
+              <div className="space-y-2">
+                {customers.map(c => (
+                  <button key={c.id} type="button" onClick={() => open(c.id)}
+                    className="w-full flex items-center justify-between gap-2 rounded-xl border border-[var(--edk-border)] bg-[var(--edk-surface)] px-3 py-2 text-left hover:bg-[var(--edk-bg)]">
+                    <div className="min-w-0">
+                      <p className="text-[13px] font-semibold text-[var(--edk-ink)] truncate">{c.name}</p>
+                      <p className="text-[11px] text-[var(--edk-ink-3)]">
+                        {formatPhone(c.phone)} · {c.visitCount} visit{c.visitCount !== 1 ? 's' : ''}
+                        {c.lastVisitAt ? ` · last ${fmtDate(c.lastVisitAt)}` : ''}
+                      </p>
+                    </div>
+                    <span className="text-[13px] font-bold text-[var(--edk-ink)] tabular-nums">{fmtMoney(c.lifetimeSpend)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -27,6 +27,9 @@ import { onUnauthorized } from '../lib/onUnauthorized';
 import { useWarehouse } from '../contexts/WarehouseContext';
 import { useInventory } from '../contexts/InventoryContext';
 import { useDashboardQuery } from '../hooks/useDashboardQuery';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import { buildBarcodeIndex, lookupProductByCode } from '../lib/barcodeLookup';
+import { expandVariants, productColors, type VariantItem } from '../lib/productVariants';
 import type { Warehouse, Product } from '../types';
 
 // ── Types ─────────────────────────────────────────────────────────────────
@@ -136,11 +139,11 @@ function applyFilters(
   }
   if (colorFilter) {
     const colorNorm = colorFilter.trim().toLowerCase();
-    const getColor = (p: Product) => (p as Product & { color?: string }).color ?? p.variants?.color ?? '';
+    // A product with colour variants matches any of its colours.
     if (colorNorm === 'uncategorized') {
-      r = r.filter(p => !getColor(p).trim());
+      r = r.filter(p => productColors(p).every(c => !c));
     } else {
-      r = r.filter(p => getColor(p).trim().toLowerCase() === colorNorm);
+      r = r.filter(p => productColors(p).includes(colorNorm));
     }
   }
   r.sort((a, b) => {
@@ -241,6 +244,43 @@ function DeleteDialog({
   );
 }
 
+// ── Unknown barcode ───────────────────────────────────────────────────────
+
+function UnknownBarcodeDialog({
+  barcode, onCreate, onCancel
+}: { barcode: string; onCreate: () => void; onCancel: () => void; }) {
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-black/40 backdrop-blur-[2px]" onClick={onCancel} aria-hidden />
+      <div
+        className="fixed bottom-0 left-0 right-0 z-50 rounded-t-[28px] px-5 pt-5 pb-10 animate-[sheetUp_0.3s_cubic-bezier(0.34,1.1,0.64,1)]"
+        style={{ background: 'var(--edk-surface)', boxShadow: '0 -8px 48px rgba(0,0,0,0.15)' }}
+        role="dialog"
+        aria-label="Unknown barcode"
+      >
+        <div className="w-10 h-1 rounded-full bg-[var(--edk-border-mid)] mx-auto mb-6" aria-hidden />
+        <div className="mb-7">
+          <p className="text-[17px] font-black text-[var(--edk-ink)]" style={{ fontFamily: "'Barlow Condensed', sans-serif" }}>
+            No product with this barcode
+          </p>
+          <p className="text-[13px] text-[var(--edk-ink-2)] mt-1 leading-relaxed">
+            <span className="font-mono font-semibold text-[var(--edk-ink)]">{barcode}</span> isn&apos;t in this
+            warehouse&apos;s inventory. Create a new product with this barcode?
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <Button type="button" variant="secondary" onClick={onCancel} className="flex-1 h-[52px]">
+            Cancel
+          </Button>
+          <Button type="button" variant="primary" onClick={onCreate} className="flex-1 h-[52px]">
+            Create product
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
+
 // ── Stat card ─────────────────────────────────────────────────────────────
 
 function StatCard({
@@ -337,6 +377,9 @@ export default function InventoryPage(_props: InventoryPageProps) {
   const [sortOpen, setSortOpen] = useState(false);
   const [modalOpen, setModalOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  /** Barcode to prefill when creating a product from an unknown scan. */
+  const [newProductBarcode, setNewProductBarcode] = useState<string | undefined>(undefined);
+  const [unknownBarcode, setUnknownBarcode] = useState<string | null>(null);
   const [confirmDelete, setConfirmDelete] = useState<Product | null>(null);
 
   const modalOpenRef = useRef(false);
@@ -509,16 +552,66 @@ export default function InventoryPage(_props: InventoryPageProps) {
 
   // ── Modal ─────────────────────────────────────────────────────────────────
 
-  function openAddModal()          { setEditingProduct(null); setModalOpen(true); }
+  function openAddModal()          { setEditingProduct(null); setNewProductBarcode(undefined); setModalOpen(true); }
   function openEditModal(p: Product) { setEditingProduct(structuredClone(p)); setModalOpen(true); }
 
   function closeModal() {
     setModalOpen(false);
     setEditingProduct(null);
+    setNewProductBarcode(undefined);
     const msSinceSave = Date.now() - lastSaveTimeRef.current;
     if (msSinceSave > 5000) setTimeout(() => refreshProducts({ silent: true }), 500);
   }
 
+  // ── Barcode scanner ───────────────────────────────────────────────────────
+  // Only the loaded page of products is indexed; fall back to a server search so a scan
+  // still finds products that haven't been paged in yet.
+
+  // A colour variant's SKU or barcode opens its product.
+  const barcodeIndex = useMemo(
+    () => buildBarcodeIndex<VariantItem<Product>>([...products, ...expandVariants(products)]),
+    [products]
+  );
+
+  function productForCode(index: typeof barcodeIndex, list: Product[], code: string): Product | null {
+    const found = lookupProductByCode(index, code);
+    return found?.parentId ? list.find(p => p.id === found.parentId) ?? null : found;
+  }
+
+  async function handleScan(code: string) {
+    let match = productForCode(barcodeIndex, products, code);
+    if (!match && warehouseId) {
+      try {
+        const raw = await apiFetch<unknown>(
+          `/api/products?warehouse_id=${encodeURIComponent(warehouseId)}&q=${encodeURIComponent(code)}&limit=10`
+        );
+        const list = (Array.isArray(raw) ? raw : (raw as { data?: Product[] })?.data ?? []) as Product[];
+        match = productForCode(buildBarcodeIndex<VariantItem<Product>>([...list, ...expandVariants(list)]), list, code);
+      } catch {
+        /* offline or server error: treat as unknown */
+      }
+    }
+    if (match) {
+      openEditModal(match);
+    } else {
+      setUnknownBarcode(code);
+    }
+  }
+
+  // Scans typed into the header search (or any other field) stay there as text.
+  useBarcodeScanner((code) => { void handleScan(code); }, {
+    enabled: !modalOpen && !confirmDelete && !unknownBarcode,
+    skipEditable: true,
+  });
+
+  function createFromUnknownBarcode() {
+    const code = unknownBarcode ?? undefined;
+    setUnknownBarcode(null);
+    setEditingProduct(null);
+    setNewProductBarcode(code);
+    setModalOpen(true);
+  }
+
   // ── Delete ────────────────────────────────────────────────────────────────
 
   async function executeDelete(product: Product) {
@@ -989,8 +1082,17 @@ export default function InventoryPage(_props: InventoryPageProps) {
         warehouseId={warehouseId}
         onSubmit={handleSubmit}
         onClose={closeModal}
+        initialBarcode={newProductBarcode}
       />
 
+      {unknownBarcode && (
+        <UnknownBarcodeDialog
+          barcode={unknownBarcode}
+          onCreate={createFromUnknownBarcode}
+          onCancel={() => setUnknownBarcode(null)}
+        />
+      )}
+
       {confirmDelete && (
         <DeleteDialog
           product={confirmDelete}
@@ -14,12 +14,17 @@
 //   4. "New sale" button → reloads products from server
 //      → this re-syncs frontend with DB truth after each sale
 //
-// POS is server-only: no offline queue or local storage. Sales go to POST /api/sales (Supabase).
-// If POST /api/sales fails or device is offline → toast + rollback; sale is not completed.
+// OFFLINE: if the device is offline (or the request never reaches the server), the sale is
+// queued in IndexedDB (services/offlineSaleQueue) with its Idempotency-Key and a LOCAL-…
+// receipt; POSContext replays the queue to POST /api/sales when connectivity returns.
+// Any other failure (stock, auth, validation) → toast + rollback; sale is not completed.
+//
+// HELD CARTS: "Hold sale" parks the cart on the server (services/heldCartsApi) so any till at the
+// warehouse can recall it. Stock a hold reserves is left out of what this page offers for sale.
 // ============================================================
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { useQueryClient, useMutation } from '@tanstack/react-query';
+import { useQueryClient, useMutation, useQuery } from '@tanstack/react-query';
 import { queryKeys } from '../lib/queryKeys';
 import { getApiHeaders, API_BASE_URL } from '../lib/api';
 import { resetAllApiCircuitBreakers } from '../lib/circuit';
@@ -27,12 +32,31 @@ import { getUserFriendlyMessage } from '../lib/errorMessages';
 import { getProductImageUrl } from '../lib/productImageUrl';
 import { isValidWarehouseId } from '../lib/warehouseId';
 import { normalizeQuantityBySize } from '../lib/utils';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import { buildBarcodeIndex, lookupProductByCode, needsSizePick } from '../lib/barcodeLookup';
+import { collapseVariants, expandVariants, rollUpVariantStock } from '../lib/productVariants';
 import { onUnauthorized } from '../lib/onUnauthorized';
 import { printReceipt, formatReceiptDate } from '../lib/printReceipt';
+import { fiscalLines, layawayLines, loyaltyLines, taxLines, type ReceiptFiscal } from '../lib/receiptTemplate';
+import { discardQueuedSale, queueOfflineSale, retryQueuedSale } from '../services/offlineSaleQueue';
+import type { SaleQueueItem } from '../db/inventoryDB';
+import { BALANCE_ERROR_CODES, balanceTenderAmounts, type SaleLoyalty } from '../services/loyaltyApi';
+import { fetchActivePromotions } from '../services/promotionsApi';
+import { fetchRoleLimits } from '../services/managerApprovalApi';
+import { fetchMobileMoneyConfig } from '../services/mobileMoneyApi';
+import type { SaleLayaway } from '../services/layawayApi';
+import { fetchHeldCarts, holdCart, recallHeldCart, withoutHeldStock, type HeldCart } from '../services/heldCartsApi';
+import { applyPromotions } from '../lib/promotions';
+import { cartTax, FALLBACK_TAX_SETUP } from '../lib/tax';
+import { fetchTaxSetup, type SaleTax } from '../services/taxApi';
+import { fetchProductChangeCursor, fetchProductChanges, mergeProductChanges } from '../services/productChangesApi';
+import { v4 as uuidv4 } from 'uuid';
 import { useWarehouse } from '../contexts/WarehouseContext';
 import { useAuth } from '../contexts/AuthContext';
+import { useTillSession } from '../hooks/useTillSession';
 import { useInventory } from '../contexts/InventoryContext';
 import { usePresence } from '../contexts/PresenceContext';
+import { usePOS } from '../contexts/POSContext';
 
 import type { Warehouse } from '../components/pos/SessionScreen';
 import POSHeader from '../components/pos/POSHeader';
@@ -46,6 +70,10 @@ import CartSheet, {
   type CartLine,
   type SalePayload,
 } from '../components/pos/CartSheet';
+import CameraScannerSheet from '../components/pos/CameraScannerSheet';
+import TillSheet from '../components/pos/TillSheet';
+import HeldCartsSheet from '../components/pos/HeldCartsSheet';
+import OfflineSalesSheet from '../components/pos/OfflineSalesSheet';
 import SaleSuccessScreen, { type CompletedSale as SaleSuccessCompletedSale } from '../components/pos/SaleSuccessScreen';
 import { LoadingSpinner } from '../components/ui/LoadingSpinner';
 import { BRAND } from '../config/branding';
@@ -60,6 +88,46 @@ export interface CompletedSale extends SalePayload {
   completedAt?: string;
 }
 
+/** POST /api/sales body. Shared by the online path and the offline queue so replays send the same payload. */
+function buildSaleRequestBody(payload: SalePayload): Record<string, unknown> & { warehouseId: string } {
+  return {
+    warehouseId: payload.warehouseId,
+    customerId: payload.customerId || null,
+    customerName: payload.customerName || null,
+    customerEmail: payload.customerEmail || null,
+    paymentMethod: payload.paymentMethod,
+    payments: payload.payments ?? null,
+    mobileMoneyPaymentId: payload.mobileMoneyPaymentId ?? null,
+    subtotal: payload.subtotal,
+    discountPct: payload.discountPct,
+    discountAmt: payload.discountAmt,
+    total: payload.total,
+    lines: payload.lines.map((l) => ({
+      productId: l.productId,
+      sizeCode: l.sizeCode || null,
+      qty: l.qty,
+      unitPrice: l.unitPrice,
+      lineTotal: Math.round((l.unitPrice * l.qty - (l.discountAmt ?? 0)) * 100) / 100,
+      name: l.name,
+      sku: l.sku ?? '',
+      imageUrl: l.imageUrl ?? null,
+      promotionId: l.promotionId ?? null,
+      discountAmt: l.discountAmt ?? 0,
+    })),
+    deliverySchedule: payload.deliverySchedule ?? null,
+    managerApproval: payload.managerApproval ?? null,
+    tillSessionId: payload.tillSessionId ?? null,
+    layaway: payload.layawayDeposit != null ? { deposit: payload.layawayDeposit } : null,
+  };
+}
+
+/** Request never got a response (no HTTP status): safe to queue and replay with the same Idempotency-Key. */
+function isNetworkFailure(err: unknown): boolean {
+  const status = (err as { status?: number })?.status;
+  const message = (err as Error)?.message ?? '';
+  return status == null && /failed to fetch|network|load failed|connection was lost/i.test(message);
+}
+
 function buildCartKey(productId: string, sizeCode: string | null): string {
   return `${productId}__${sizeCode ?? 'NA'}`;
 }
@@ -89,33 +157,43 @@ function getRemainingForProduct(
 const LOW_STOCK_BROADCAST_THRESHOLD = 3;
 const LOW_STOCK_BROADCAST_THROTTLE_MS = 60_000; // same product/size at most once per minute
 
-/** Apply sale lines deduction to a products list (pure, for optimistic apply and rollback). */
+/** Take one product's (or variant's) sale lines off its stock. */
+function deductSaleLines<T extends Pick<POSProduct, 'id' | 'sizeKind' | 'quantity' | 'quantityBySize'>>(
+  p: T,
+  lines: SalePayload['lines']
+): T {
+  const saleLines = lines.filter((l) => l.productId === p.id);
+  if (saleLines.length === 0) return p;
+  if (p.sizeKind === 'sized' || (Array.isArray(p.quantityBySize) && p.quantityBySize.length > 1)) {
+    const updatedSizes = (p.quantityBySize ?? []).map((row) => {
+      const line = saleLines.find(
+        (l) =>
+          (l.sizeCode ?? '').toString().toUpperCase() === (row.sizeCode ?? '').toString().toUpperCase()
+      );
+      const soldQty = line?.qty ?? 0;
+      return line
+        ? { ...row, quantity: Math.max(0, row.quantity - soldQty) }
+        : row;
+    });
+    return {
+      ...p,
+      quantityBySize: updatedSizes,
+      quantity: updatedSizes.reduce((s, r) => s + r.quantity, 0),
+    };
+  }
+  const totalSold = saleLines.reduce((s, l) => s + l.qty, 0);
+  return { ...p, quantity: Math.max(0, p.quantity - totalSold) };
+}
+
+/** Apply sale lines deduction to a products list (pure, for optimistic apply and rollback). Variant lines come off the variant. */
 function applySaleDeduction(
   products: POSProduct[],
   lines: SalePayload['lines']
 ): POSProduct[] {
   return products.map((p) => {
-    const saleLines = lines.filter((l) => l.productId === p.id);
-    if (saleLines.length === 0) return p;
-    if (p.sizeKind === 'sized' || (Array.isArray(p.quantityBySize) && p.quantityBySize.length > 1)) {
-      const updatedSizes = (p.quantityBySize ?? []).map((row) => {
-        const line = saleLines.find(
-          (l) =>
-            (l.sizeCode ?? '').toString().toUpperCase() === (row.sizeCode ?? '').toString().toUpperCase()
-        );
-        const soldQty = line?.qty ?? 0;
-        return line
-          ? { ...row, quantity: Math.max(0, row.quantity - soldQty) }
-          : row;
-      });
-      return {
-        ...p,
-        quantityBySize: updatedSizes,
-        quantity: updatedSizes.reduce((s, r) => s + r.quantity, 0),
-      };
-    }
-    const totalSold = saleLines.reduce((s, l) => s + l.qty, 0);
-    return { ...p, quantity: Math.max(0, p.quantity - totalSold) };
+    if (!p.variants?.length) return deductSaleLines(p, lines);
+    const variants = p.variants.map((v) => deductSaleLines(v, lines));
+    return { ...p, variants, ...rollUpVariantStock(variants) };
   });
 }
 
@@ -138,7 +216,7 @@ function useToast() {
 export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
   const queryClient = useQueryClient();
   const { currentWarehouse, currentWarehouseId, loadError: warehouseLoadError, refreshWarehouses } = useWarehouse();
-  const { user, tryRefreshSession } = useAuth();
+  const { user, tryRefreshSession, hasRole } = useAuth();
   useInventory(); // POS loads its own product list (limit 250); context still required by layout.
   const triedRefreshRef = useRef(false);
 
@@ -172,24 +250,67 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
   const [cart, setCart] = useState<CartLine[]>([]);
   const [cartOpen, setCartOpen] = useState(false);
   const [activeProduct, setActiveProduct] = useState<POSProduct | null>(null);
+  const [cameraOpen, setCameraOpen] = useState(false);
   const [saleResult, setSaleResult] = useState<CompletedSale | null>(null);
   const [charging, setCharging] = useState(false);
+  const [tillOpen, setTillOpen] = useState(false);
+  const [heldOpen, setHeldOpen] = useState(false);
+  const [offlineSalesOpen, setOfflineSalesOpen] = useState(false);
 
   const { toast, show: showToast } = useToast();
+
+  /** Promotions running at this till. Cached so an offline till keeps pricing with the last list it saw. */
+  const { data: promotions = [] } = useQuery({
+    queryKey: queryKeys.promotions(warehouseId),
+    queryFn: () => fetchActivePromotions(warehouseId),
+    enabled: isWarehouseLoaded,
+    staleTime: 5 * 60_000,
+  });
+  /** Tax classes and category assignments. Cached so an offline till keeps charging the last rates it saw. */
+  const { data: taxSetup = null } = useQuery({
+    queryKey: queryKeys.taxClasses(),
+    queryFn: fetchTaxSetup,
+    staleTime: 10 * 60_000,
+  });
+  /** This role's discount limit; the cart asks for a manager PIN above it (the server enforces it either way). */
+  const { data: roleLimits = null } = useQuery({
+    queryKey: queryKeys.roleLimits(),
+    queryFn: async () => (await fetchRoleLimits()).mine,
+    staleTime: 10 * 60_000,
+  });
+  /** Cash drawer session on this device; sales are linked to it so the Z report can work out expected cash. */
+  const till = useTillSession(warehouseId);
+  const isManager = hasRole(['admin', 'super_admin', 'manager']);
+  const { pendingSyncCount, stuckSaleCount, syncNow, isOnline } = usePOS();
+  /** Whether the server sends mobile money prompts; without one, mobile money is recorded without a prompt. */
+  const { data: momoConfig } = useQuery({
+    queryKey: queryKeys.mobileMoneyConfig(),
+    queryFn: fetchMobileMoneyConfig,
+    staleTime: 10 * 60_000,
+  });
+  /** Carts held at this warehouse, from every till. Online only: holds live on the server. */
+  const { data: heldCarts = [], isLoading: heldLoading, refetch: refetchHeldCarts } = useQuery({
+    queryKey: queryKeys.heldCarts(warehouseId),
+    queryFn: async () => (await fetchHeldCarts(warehouseId)).data,
+    enabled: isWarehouseLoaded && isOnline,
+    staleTime: 30_000,
+    refetchInterval: 60_000,
+  });
+  /** What this till can sell, item by item (colour variants in place of their product): stock less what held carts reserve. */
+  const saleItems = useMemo(() => withoutHeldStock(expandVariants(products), heldCarts), [products, heldCarts]);
+  /** The same per product, for the grid and the colour / size picker. */
+  const sellableProducts = useMemo(() => collapseVariants(products, saleItems), [products, saleItems]);
   const { sendLowStockAlert, receivedLowStockAlerts, dismissLowStockAlert } = usePresence();
   const safeReceivedLowStockAlerts = Array.isArray(receivedLowStockAlerts) ? receivedLowStockAlerts : [];
   const isMounted = useRef(true);
   const lastLowStockBroadcastRef = useRef<{ key: string; at: number } | null>(null);
 
-  /** Zero-latency barcode lookup (no API, no filter over array). Critical for scanner flow. */
-  const barcodeToProduct = useMemo(() => {
-    const map = new Map<string, POSProduct>();
-    for (const p of products) {
-      const b = (p.barcode ?? '').trim();
-      if (b && !map.has(b.toLowerCase())) map.set(b.toLowerCase(), p);
-    }
-    return map;
-  }, [products]);
+  /** Zero-latency barcode/SKU lookup (no API, no filter over array). Critical for scanner flow. */
+  // Variant codes resolve to the variant, a product's own code to the product (then colour is picked).
+  const barcodeIndex = useMemo(
+    () => buildBarcodeIndex([...saleItems, ...sellableProducts]),
+    [saleItems, sellableProducts]
+  );
 
   useEffect(() => {
     isMounted.current = true;
@@ -237,11 +358,12 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
         if (!res.ok) {
           if (res.status === 401) onUnauthorized();
           const body = await res.json().catch(() => ({}));
-          const b = body as { message?: string; error?: string; detail?: string };
+          const b = body as { message?: string; error?: string; detail?: string; code?: string };
           const msg = b.message ?? b.error ?? `HTTP ${res.status}`;
-          const err = new Error(msg) as Error & { status?: number; detail?: string };
+          const err = new Error(msg) as Error & { status?: number; detail?: string; code?: string };
           err.status = res.status;
           err.detail = b.detail;
+          err.code = b.code;
           throw err;
         }
         const text = await res.text();
@@ -257,6 +379,8 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
 
   const loadProductsAbortRef = useRef<AbortController | null>(null);
   const productsCacheRef = useRef<{ wid: string; list: POSProduct[]; at: number } | null>(null);
+  /** Change-feed cursor for the cached list; with it, reloads fetch only what changed (GET /api/products/changes). */
+  const productsCursorRef = useRef<{ wid: string; cursor: string } | null>(null);
   const postSaleRefetchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const PRODUCTS_CACHE_TTL_MS = 30_000;
   /** First page smaller so request completes before timeout (cold start); then 250 per page. */
@@ -266,14 +390,14 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
   function normalizeProductItem(item: unknown): POSProduct {
     const row = item as unknown as {
       color?: string;
-      variants?: { color?: string };
+      variants?: Array<{ quantityBySize?: unknown }>;
       barcode?: string | null;
       quantityBySize?: unknown;
       quantity_by_size?: unknown;
       sizeKind?: string;
       size_kind?: string;
     };
-    const color = (row.color != null ? String(row.color).trim() : '') || (row.variants?.color ?? '') || '';
+    const color = row.color != null ? String(row.color).trim() : '';
     const rawSizes = row.quantityBySize ?? row.quantity_by_size;
     const quantityBySize = normalizeQuantityBySize(rawSizes);
     const base = item as POSProduct;
@@ -286,18 +410,39 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
       barcode: row.barcode != null ? String(row.barcode) : null,
       sizeKind: kind,
       quantityBySize: keptSizes,
+      ...(Array.isArray(row.variants) && {
+        variants: (base.variants ?? []).map((v) => ({ ...v, quantityBySize: normalizeQuantityBySize(v.quantityBySize) })),
+      }),
     };
   }
 
   const loadProducts = useCallback(
     async (wid: string, silent = false, signal?: AbortSignal) => {
       const cached = productsCacheRef.current;
-      if (cached?.wid === wid && Date.now() - cached.at < PRODUCTS_CACHE_TTL_MS && cached.list.length >= 0) {
+      const cursor = productsCursorRef.current?.wid === wid ? productsCursorRef.current.cursor : null;
+      if (cached?.wid === wid && (cursor != null || Date.now() - cached.at < PRODUCTS_CACHE_TTL_MS) && cached.list.length >= 0) {
         if (isMounted.current) {
           setProducts(cached.list);
           setProductsLoadError(null);
         }
         if (!silent) setLoading(false);
+        if (cursor != null) {
+          const changes = await fetchProductChanges<POSProduct>(wid, cursor, { signal }).catch(() => null);
+          if (signal?.aborted || !isMounted.current) return;
+          if (changes && !changes.truncated) {
+            const base = productsCacheRef.current?.wid === wid ? productsCacheRef.current.list : cached.list;
+            const { list } = mergeProductChanges(base, changes.items.map((item) => normalizeProductItem(item)), changes.deleted, {
+              appendNew: true,
+            });
+            productsCacheRef.current = { wid, list, at: Date.now() };
+            productsCursorRef.current = { wid, cursor: changes.cursor };
+            setProducts(list);
+            return;
+          }
+          // No change feed (older server) or too much changed: revalidate every page below.
+          productsCursorRef.current = null;
+        }
+        const revalidateCursor = await fetchProductChangeCursor(wid, { signal }).catch(() => null);
         const allPages: POSProduct[] = [];
         let totalFromApi: number | undefined;
         let offset = 0;
@@ -330,6 +475,7 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
         }
         if (allPages.length > 0) {
           productsCacheRef.current = { wid, list: allPages, at: Date.now() };
+          productsCursorRef.current = revalidateCursor != null ? { wid, cursor: revalidateCursor } : null;
           if (isMounted.current) setProducts(allPages);
         }
         return;
@@ -339,6 +485,8 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
         setProductsLoadError(null);
       }
       try {
+        // Read before the pages so changes made while they load come through the next sync.
+        const loadCursor = await fetchProductChangeCursor(wid, { signal }).catch(() => null);
         const allPages: POSProduct[] = [];
         let totalFromApi: number | undefined;
         let offset = 0;
@@ -370,6 +518,7 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
         }
         if (isMounted.current) {
           productsCacheRef.current = { wid, list: allPages, at: Date.now() };
+          productsCursorRef.current = loadCursor != null ? { wid, cursor: loadCursor } : null;
           setProducts(allPages);
           setProductsLoadError(null);
         }
@@ -396,7 +545,8 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
   useEffect(() => {
     const onVisible = () => {
       if (document.visibilityState === 'visible' && isValidWarehouseId(warehouse.id)) {
-        productsCacheRef.current = null;
+        // With a cursor the reload only fetches what changed; otherwise drop the cache for a full reload.
+        if (productsCursorRef.current?.wid !== warehouse.id) productsCacheRef.current = null;
         loadProducts(warehouse.id, true).catch(() => {
           // Never let background revalidate crash the app; error state already shown if needed.
         });
@@ -464,6 +614,7 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
 
   type SaleMutationVars = {
     payload: SalePayload;
+    idempotencyKey: string;
     cartSnapshot: CartLine[];
     productsSnapshot: POSProduct[];
   };
@@ -475,10 +626,14 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
     itemCount?: number;
     status?: string;
     createdAt: string;
+    loyalty?: SaleLoyalty | null;
+    layaway?: SaleLayaway | null;
+    tax?: SaleTax | null;
+    fiscal?: ReceiptFiscal | null;
   };
 
   const saleMutation = useMutation({
-    mutationFn: async ({ payload, productsSnapshot }: SaleMutationVars): Promise<SaleMutationResult> => {
+    mutationFn: async ({ payload, idempotencyKey, productsSnapshot }: SaleMutationVars): Promise<SaleMutationResult> => {
       if (!isValidWarehouseId(payload.warehouseId)) {
         throw new Error('Warehouse not loaded. Please wait and try again.');
       }
@@ -514,34 +669,12 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
         if (e instanceof Error && (e as Error & { status?: number }).status === 422) throw e;
         console.warn('[POS] verify-stock failed, proceeding with sale:', e);
       }
-      const idempotencyKey = `pos-${payload.warehouseId}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
       const result = await apiFetch<SaleMutationResult>(
         '/api/sales',
         {
           method: 'POST',
           headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey },
-          body: JSON.stringify({
-          warehouseId: payload.warehouseId,
-          customerName: payload.customerName || null,
-          customerEmail: payload.customerEmail || null,
-          paymentMethod: payload.paymentMethod,
-          payments: payload.payments ?? null,
-          subtotal: payload.subtotal,
-          discountPct: payload.discountPct,
-          discountAmt: payload.discountAmt,
-          total: payload.total,
-          lines: payload.lines.map((l) => ({
-            productId: l.productId,
-            sizeCode: l.sizeCode || null,
-            qty: l.qty,
-            unitPrice: l.unitPrice,
-            lineTotal: l.unitPrice * l.qty,
-            name: l.name,
-            sku: l.sku ?? '',
-            imageUrl: l.imageUrl ?? null,
-          })),
-          deliverySchedule: payload.deliverySchedule ?? null,
-        }),
+          body: JSON.stringify(buildSaleRequestBody(payload)),
         },
         { timeoutMs: API_SALES_TIMEOUT_MS }
       );
@@ -553,9 +686,12 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
     },
     onError: (err: unknown, _vars: SaleMutationVars, context: { previousCart: CartLine[]; previousProducts: POSProduct[] } | undefined) => {
       if (isMounted.current) setCharging(false);
+      // Never reached the server: handleCharge queues it offline and keeps the optimistic state.
+      if (isNetworkFailure(err)) return;
       const status = (err as { status?: number })?.status;
       const message = (err as Error)?.message ?? '';
       const detail = (err as { detail?: string })?.detail;
+      const code = (err as { code?: string })?.code;
       if (context && Array.isArray(context.previousProducts)) {
         setProducts(context.previousProducts);
       }
@@ -565,6 +701,16 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
       setSaleResult(null);
       if (status === 422 && message.includes('Stock has changed')) {
         showToast(message, 'err');
+      } else if (code && BALANCE_ERROR_CODES.includes(code)) {
+        showToast(message, 'err');
+      } else if (code === 'APPROVAL_REQUIRED' || code === 'APPROVAL_INVALID') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.roleLimits() });
+        showToast(`${message} Charge again to ask a manager.`, 'err');
+      } else if (code === 'PROMOTION_NOT_AVAILABLE') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.promotions(warehouseId) });
+        showToast('A promotion in this cart has ended. The cart has been repriced; check the total and charge again.', 'err');
+      } else if (code === 'MOMO_NOT_CONFIRMED') {
+        showToast(`${message} Charge again to send a new prompt or choose another payment.`, 'err');
       } else if (status === 409 || status === 422) {
         showToast('Insufficient stock for one or more items. Adjust the cart and try again.', 'err');
       } else if (status === 401) {
@@ -585,19 +731,14 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
         );
       }
     },
-    onSuccess: (result, vars: SaleMutationVars) => {
+    onSuccess: (result, _vars: SaleMutationVars) => {
       if (isMounted.current) setCharging(false);
       const wid = warehouse.id?.trim();
-      // Optimistically update product quantities in cache from sale lines (before refetch).
+      // handleCharge already deducted the stock in the products cache. No products refetch: the server's figures for
+      // the rows this sale changed come back through the change feed (realtime, or the post-sale sync below).
       if (isValidWarehouseId(wid)) {
-        queryClient.setQueryData(queryKeys.products(wid), (old: { list: POSProduct[]; total?: number } | undefined) => ({
-          list: applySaleDeduction(old?.list ?? [], vars.payload.lines),
-          total: old?.total,
-        }));
-        queryClient.invalidateQueries({ queryKey: queryKeys.products(wid) });
         queryClient.invalidateQueries({ queryKey: queryKeys.dashboard(wid) });
       }
-      productsCacheRef.current = null;
       if (isValidWarehouseId(wid)) {
         postSaleRefetchTimeoutRef.current = setTimeout(() => {
           postSaleRefetchTimeoutRef.current = null;
@@ -605,7 +746,12 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
         }, 10_000);
       }
       if (!isMounted.current) return;
-      showToast('Sale complete. Stock updated. Receipt ready.', 'ok');
+      showToast(
+        result.layaway
+          ? `Layaway started. Balance ${fmt(result.layaway.balanceDue)} due; items held.`
+          : 'Sale complete. Stock updated. Receipt ready.',
+        'ok'
+      );
       setSaleResult((prev) =>
         prev
           ? {
@@ -613,23 +759,25 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
               saleId: result.id,
               receiptId: result.receiptId,
               completedAt: result.createdAt ?? new Date().toISOString(),
+              loyalty: result.loyalty ?? null,
+              layaway: result.layaway ?? null,
+              tax: result.tax ?? prev.tax ?? null,
+              fiscal: result.fiscal ?? null,
             }
           : null
       );
     },
   });
 
-  function handleBarcodeSubmit() {
-    const raw = search.trim();
-    if (!raw) return;
-    setSearch('');
-    const product = barcodeToProduct.get(raw.toLowerCase());
+  /** Scanned or typed code → cart (one-size) or size picker (sized). Returns false when not found. */
+  function handleScannedCode(raw: string): boolean {
+    const product = lookupProductByCode(barcodeIndex, raw);
     if (!product) {
-      showToast('Product not found for this barcode', 'err');
-      return;
+      showToast(`No product for barcode ${raw}`, 'err');
+      return false;
     }
-    const isSized = (product.sizeKind === 'sized' || (Array.isArray(product.quantityBySize) && product.quantityBySize.length > 1)) && (product.quantityBySize?.length ?? 0) > 0;
-    if (isSized) {
+    if (needsSizePick(product)) {
+      setCameraOpen(false);
       setActiveProduct(structuredClone(product));
     } else {
       handleAddToCart({
@@ -643,12 +791,29 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
         imageUrl: product.images?.[0] ?? null,
       });
     }
+    return true;
+  }
+
+  // HID scanners type into whatever has focus; strip the code back out of the search box.
+  useBarcodeScanner(
+    (code) => {
+      setSearch((s) => (s.endsWith(code) ? s.slice(0, -code.length) : s));
+      handleScannedCode(code);
+    },
+    { enabled: !saleResult && !cameraOpen }
+  );
+
+  function handleBarcodeSubmit() {
+    const raw = search.trim();
+    if (!raw) return;
+    setSearch('');
+    handleScannedCode(raw);
   }
 
   function handleAddToCart(input: CartLineInput) {
     const key = buildCartKey(input.productId, input.sizeCode ?? null);
     const maxAdd = getRemainingForProduct(
-      products,
+      saleItems,
       cart,
       input.productId,
       input.sizeCode ?? null,
@@ -677,6 +842,8 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
           unitPrice: input.unitPrice,
           qty: qtyToAdd,
           imageUrl: input.imageUrl ?? null,
+          category: saleItems.find((p) => p.id === input.productId)?.category ?? null,
+          taxClassId: saleItems.find((p) => p.id === input.productId)?.taxClassId ?? null,
         },
       ];
     });
@@ -684,7 +851,7 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
       `${input.name}${input.sizeLabel ? ` · ${input.sizeLabel}` : ''} added`
     );
     const remaining = getRemainingForProduct(
-      products,
+      saleItems,
       cart,
       input.productId,
       input.sizeCode ?? null,
@@ -717,7 +884,7 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
     }
     const maxQty =
       line.qty +
-      getRemainingForProduct(products, cart, line.productId, line.sizeCode ?? null, 0);
+      getRemainingForProduct(saleItems, cart, line.productId, line.sizeCode ?? null, 0);
     const cappedQty = Math.min(newQty, maxQty);
     setCart((prev) =>
       prev.map((l) => (l.key === key ? { ...l, qty: cappedQty } : l))
@@ -754,19 +921,111 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
     setCartOpen(false);
   }
 
-  async function handleCharge(payload: SalePayload) {
+  async function handleHoldCart(name: string, reserveStock: boolean) {
+    await holdCart({
+      warehouseId,
+      name,
+      reserveStock,
+      lines: cart.map((l) => ({
+        productId: l.productId,
+        sizeCode: l.sizeCode,
+        sizeLabel: l.sizeLabel,
+        name: l.name,
+        sku: l.sku,
+        unitPrice: l.unitPrice,
+        qty: l.qty,
+        imageUrl: l.imageUrl ?? null,
+        category: l.category ?? null,
+      })),
+    });
+    setCart([]);
+    setCartOpen(false);
+    setHeldOpen(false);
+    queryClient.invalidateQueries({ queryKey: queryKeys.heldCarts(warehouseId) });
+    showToast(`Cart held as "${name}"`);
+  }
+
+  /** Recalled lines take today's price when the product is still on the list. */
+  function heldLinesToCart(held: HeldCart): CartLine[] {
+    return held.lines.map((l) => ({
+      key: buildCartKey(l.productId, l.sizeCode),
+      productId: l.productId,
+      name: l.name,
+      sku: l.sku,
+      sizeCode: l.sizeCode,
+      sizeLabel: l.sizeLabel,
+      unitPrice: saleItems.find((p) => p.id === l.productId)?.sellingPrice ?? l.unitPrice,
+      qty: l.qty,
+      imageUrl: l.imageUrl,
+      category: l.category,
+      taxClassId: saleItems.find((p) => p.id === l.productId)?.taxClassId ?? null,
+    }));
+  }
+
+  async function handleRecallHeldCart(held: HeldCart) {
+    if (cart.length > 0 && !window.confirm('Replace the current cart with this held cart? Hold the current cart first to keep it.')) {
+      return;
+    }
+    try {
+      const recalled = await recallHeldCart(held.id);
+      setCart(heldLinesToCart(recalled));
+      setHeldOpen(false);
+      showToast(`Recalled "${recalled.name}"`);
+    } finally {
+      queryClient.invalidateQueries({ queryKey: queryKeys.heldCarts(warehouseId) });
+    }
+  }
+
+  async function handleDiscardHeldCart(held: HeldCart) {
+    if (!window.confirm(`Discard held cart "${held.name}"? Its items go back on sale.`)) return;
+    try {
+      await recallHeldCart(held.id);
+      showToast(`Discarded "${held.name}"`);
+    } finally {
+      queryClient.invalidateQueries({ queryKey: queryKeys.heldCarts(warehouseId) });
+    }
+  }
+
+  async function handleRetryOfflineSale(sale: SaleQueueItem) {
+    const result = await retryQueuedSale(sale.id);
+    if (result.synced > 0) {
+      showToast(`${sale.localReceiptId} synced`);
+      if (isValidWarehouseId(warehouse.id)) loadProducts(warehouse.id, true).catch(() => {});
+    } else if (result.rejected > 0 || result.failed > 0) {
+      showToast(`${sale.localReceiptId} was refused again.`, 'err');
+    } else {
+      showToast('Could not reach the server. The sale will sync when the connection is back.', 'warn');
+    }
+  }
+
+  async function handleDiscardOfflineSale(sale: SaleQueueItem, reason: string) {
+    if (!window.confirm(`Discard ${sale.localReceiptId}? Its stock is not taken; an admin will see the sale and your reason.`)) return;
+    await discardQueuedSale(sale, reason);
+    showToast(`Discarded ${sale.localReceiptId}`);
+  }
+
+  function openHeldCarts() {
+    setHeldOpen(true);
+    refetchHeldCarts().catch(() => {});
+  }
+
+  async function handleCharge(cartPayload: SalePayload) {
     if (charging) return;
+    const payload: SalePayload = { ...cartPayload, tillSessionId: till.session?.id ?? null };
     if (!isValidWarehouseId(payload.warehouseId)) {
       showToast('Warehouse not loaded yet. Please wait.', 'warn');
       return;
     }
-    setCharging(true);
-
-    if (typeof navigator !== 'undefined' && !navigator.onLine) {
-      setCharging(false);
-      showToast('You’re offline. Connect to the internet to complete the sale.', 'err');
+    // Balances are checked and spent by the server; an offline sale could not be replayed safely.
+    const fromBalances = balanceTenderAmounts(payload.paymentMethod, payload.total, payload.payments);
+    if ((fromBalances.points > 0 || fromBalances.store_credit > 0) && typeof navigator !== 'undefined' && !navigator.onLine) {
+      showToast('Points and store credit need a connection. Choose another payment method.', 'warn');
       return;
     }
+    setCharging(true);
+
+    const idempotencyKey = uuidv4();
+    const offline = typeof navigator !== 'undefined' && !navigator.onLine;
 
     // Optimistic update: deduct stock and show success screen immediately so deduction feels instant.
     const previousCart = cart;
@@ -788,19 +1047,56 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
     const wid = payload.warehouseId;
     if (isValidWarehouseId(wid)) {
       productsCacheRef.current = { wid, list: deductedProducts, at: Date.now() };
-      queryClient.setQueryData(queryKeys.products(wid), (old: { list: POSProduct[]; total?: number } | undefined) => ({
+      queryClient.setQueryData(queryKeys.products(wid), (old: { list: POSProduct[]; total?: number; cursor?: string } | undefined) => ({
+        ...old,
         list: deductedProducts,
         total: old?.total,
       }));
     }
 
+    const rollback = () => {
+      setProducts(previousProducts);
+      setCart(previousCart);
+      setSaleResult(null);
+      if (isValidWarehouseId(wid)) {
+        productsCacheRef.current = null;
+        queryClient.setQueryData(queryKeys.products(wid), (old: { list: POSProduct[]; total?: number; cursor?: string } | undefined) => ({
+          ...old,
+          list: previousProducts,
+          total: old?.total,
+        }));
+      }
+    };
+
+    const queueSale = async () => {
+      try {
+        const { localReceiptId } = await queueOfflineSale(buildSaleRequestBody(payload), { idempotencyKey });
+        setSaleResult((prev) => (prev ? { ...prev, receiptId: localReceiptId } : null));
+        showToast('Offline — sale saved on this device. It will sync when the connection is back.', 'warn');
+      } catch (e) {
+        rollback();
+        showToast(getUserFriendlyMessage(e) || 'Could not save the sale offline.', 'err');
+      }
+    };
+
+    if (offline) {
+      await queueSale();
+      setCharging(false);
+      return;
+    }
+
     try {
       await saleMutation.mutateAsync({
         payload,
+        idempotencyKey,
         cartSnapshot: previousCart,
         productsSnapshot: previousProducts,
       });
     } catch (err) {
+      if (isNetworkFailure(err)) {
+        await queueSale();
+        return;
+      }
       // Mutation already ran onError (toast + rollback); prevent unhandled rejection / error boundary
       const msg = getUserFriendlyMessage(err);
       if (msg && !/sale didn't reach|session expired|insufficient stock|not found|connection|sale took too long|stock has changed/i.test(msg)) {
@@ -821,7 +1117,8 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
     const lines = sale.lines
       .map(
         (l) =>
-          `${l.name}${l.sizeLabel ? ` (${l.sizeLabel})` : ''} x${l.qty} — ${fmt(l.unitPrice * l.qty)}`
+          `${l.name}${l.sizeLabel ? ` (${l.sizeLabel})` : ''} x${l.qty} — ${fmt(l.unitPrice * l.qty - (l.discountAmt ?? 0))}` +
+          (l.discountAmt ? `\n  ${l.promotionName ?? 'Promotion'} −${fmt(l.discountAmt)}` : '')
       )
       .join('\n');
 
@@ -833,8 +1130,12 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
       '─────────────────────',
       (sale.discountPct ?? 0) > 0 ? `Discount: −${fmt(sale.discountAmt ?? 0)}` : null,
       `Total: ${fmt(sale.total)}`,
+      ...taxLines(sale.tax),
       `Paid via: ${sale.paymentMethod}`,
       sale.customerName ? `Customer: ${sale.customerName}` : null,
+      ...layawayLines(sale.layaway),
+      ...loyaltyLines(sale.loyalty),
+      ...fiscalLines(sale.fiscal),
       `Date: ${formatReceiptDate(sale.completedAt ?? undefined)}`,
     ]
       .filter(Boolean)
@@ -859,6 +1160,8 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
         sizeLabel: l.sizeLabel ?? undefined,
         qty: l.qty,
         unitPrice: l.unitPrice,
+        promotionName: l.promotionName ?? null,
+        discountAmt: l.discountAmt ?? 0,
       })),
       subtotal: sale.subtotal ?? sale.total,
       discountPct: sale.discountPct,
@@ -868,6 +1171,10 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
       payments: sale.payments,
       customerName: sale.customerName,
       completedAt: sale.completedAt,
+      loyalty: sale.loyalty ?? null,
+      layaway: sale.layaway ?? null,
+      tax: sale.tax ?? null,
+      fiscal: sale.fiscal ?? null,
     });
   }
 
@@ -881,7 +1188,18 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
         : 'border-l-emerald-500';
 
   const subtotal = cart.reduce((s, l) => s + l.unitPrice * l.qty, 0);
-  const total = subtotal;
+  const { promotionDiscount, taxAdded } = useMemo(() => {
+    const applied = applyPromotions(cart, promotions, { warehouseId });
+    const tax = cartTax(
+      cart.map((l) => ({ ...l, amount: l.unitPrice * l.qty - (applied[l.key]?.discountAmt ?? 0) })),
+      taxSetup ?? FALLBACK_TAX_SETUP
+    );
+    return {
+      promotionDiscount: Math.round(Object.values(applied).reduce((s, a) => s + a.discountAmt, 0) * 100) / 100,
+      taxAdded: tax.added,
+    };
+  }, [cart, promotions, warehouseId, taxSetup]);
+  const total = Math.max(0, Math.round((subtotal - promotionDiscount + taxAdded) * 100) / 100);
 
   return (
     <div className="min-h-screen bg-[var(--edk-bg)] flex flex-col overflow-hidden">
@@ -892,6 +1210,15 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
         onSearchChange={setSearch}
         onCartTap={() => cartCount > 0 && setCartOpen(true)}
         onBarcodeSubmit={handleBarcodeSubmit}
+        onCameraScan={() => setCameraOpen(true)}
+        pendingSyncCount={pendingSyncCount}
+        onSyncTap={() => { syncNow().catch(() => {}); }}
+        stuckSaleCount={stuckSaleCount}
+        onStuckTap={() => setOfflineSalesOpen(true)}
+        tillOpen={till.isKnown ? till.session != null : null}
+        onTillTap={isWarehouseLoaded ? () => setTillOpen(true) : undefined}
+        heldCount={heldCarts.length}
+        onHeldTap={isWarehouseLoaded && isOnline ? openHeldCarts : undefined}
       />
       <div className="flex-1 flex flex-col lg:grid lg:grid-cols-[1fr_340px] min-h-0 overflow-hidden">
         {/* Products panel: on mobile add bottom padding for sticky CartBar */}
@@ -938,7 +1265,7 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
             </div>
           ) : (
             <ProductGrid
-              products={products}
+              products={sellableProducts}
               loading={loading}
               search={debouncedSearch}
               category={category}
@@ -1011,9 +1338,15 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
                   <span className="font-medium text-[var(--edk-ink-2)]">{fmt(subtotal)}</span>
                 </div>
                 <div className="flex justify-between text-[12px]">
-                  <span className="text-[var(--edk-ink-3)]">Discount</span>
-                  <span className="font-medium text-[var(--edk-green)]">−{fmt(0)}</span>
+                  <span className="text-[var(--edk-ink-3)]">Promotions</span>
+                  <span className="font-medium text-[var(--edk-green)]">−{fmt(promotionDiscount)}</span>
                 </div>
+                {taxAdded > 0 && (
+                  <div className="flex justify-between text-[12px]">
+                    <span className="text-[var(--edk-ink-3)]">Tax</span>
+                    <span className="font-medium text-[var(--edk-ink-2)]">+{fmt(taxAdded)}</span>
+                  </div>
+                )}
                 <div className="h-px bg-[var(--edk-border)] my-1" />
                 <div className="flex justify-between items-center">
                   <span className="text-[13px] font-semibold text-[var(--edk-ink)]">Total</span>
@@ -1032,7 +1365,12 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
                 <button type="button" className="flex-1 h-8 rounded-[var(--edk-radius-sm)] border border-[var(--edk-border-mid)] bg-[var(--edk-bg)] text-[11px] font-medium text-[var(--edk-ink-2)]">
                   + Discount
                 </button>
-                <button type="button" className="flex-1 h-8 rounded-[var(--edk-radius-sm)] border border-[var(--edk-border-mid)] bg-[var(--edk-bg)] text-[11px] font-medium text-[var(--edk-ink-2)]">
+                <button
+                  type="button"
+                  onClick={openHeldCarts}
+                  disabled={!isOnline}
+                  className="flex-1 h-8 rounded-[var(--edk-radius-sm)] border border-[var(--edk-border-mid)] bg-[var(--edk-bg)] text-[11px] font-medium text-[var(--edk-ink-2)] disabled:opacity-50"
+                >
                   Hold Sale
                 </button>
               </div>
@@ -1041,19 +1379,31 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
         </aside>
       </div>
 
-      <CartBar lines={cart} onOpen={() => cartCount > 0 && setCartOpen(true)} />
+      <CartBar lines={cart} discount={promotionDiscount} taxAdded={taxAdded} onOpen={() => cartCount > 0 && setCartOpen(true)} />
 
       <SizePickerSheet
+        key={activeProduct?.id ?? 'none'}
         product={activeProduct}
         onAdd={handleAddToCart}
         onClose={() => setActiveProduct(null)}
       />
 
+      <CameraScannerSheet
+        open={cameraOpen}
+        onDetected={handleScannedCode}
+        onClose={() => setCameraOpen(false)}
+      />
+
       <CartSheet
         isOpen={cartOpen}
         lines={cart}
         warehouseId={warehouseId}
         isWarehouseReady={isWarehouseLoaded}
+        promotions={promotions}
+        roleLimits={roleLimits}
+        mobileMoneyPrompt={momoConfig?.enabled === true && isOnline}
+        layawayEnabled={isOnline}
+        taxSetup={taxSetup}
         onUpdateQty={handleUpdateQty}
         onRemoveLine={handleRemoveLine}
         onClearCart={handleClearCart}
@@ -1061,6 +1411,37 @@ export default function POSPage({ apiBaseUrl: _ignored }: POSPageProps) {
         onClose={() => !charging && setCartOpen(false)}
       />
 
+      <TillSheet
+        open={tillOpen}
+        warehouseId={warehouseId}
+        warehouseName={warehouse.name}
+        deviceId={till.deviceId}
+        session={till.session}
+        movements={till.movements}
+        canViewX={isManager}
+        onClose={() => setTillOpen(false)}
+      />
+
+      <HeldCartsSheet
+        open={heldOpen}
+        carts={heldCarts}
+        loading={heldLoading}
+        cartCount={cartCount}
+        cartSubtotal={subtotal}
+        onHold={handleHoldCart}
+        onRecall={handleRecallHeldCart}
+        onDiscard={handleDiscardHeldCart}
+        onClose={() => setHeldOpen(false)}
+      />
+
+      <OfflineSalesSheet
+        open={offlineSalesOpen}
+        isOnline={isOnline}
+        onRetry={handleRetryOfflineSale}
+        onDiscard={handleDiscardOfflineSale}
+        onClose={() => setOfflineSalesOpen(false)}
+      />
+
       <SaleSuccessScreen
         sale={saleResult}
         onNewSale={handleNewSale}
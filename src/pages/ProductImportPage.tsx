@@ -0,0 +1,223 @@
+// ============================================================
+// ProductImportPage.tsx
+// File: warehouse-pos/src/pages/ProductImportPage.tsx
+//
+// Admin bulk import of products from a CSV or .xlsx file, by SKU:
+//   - Choosing a file previews it (dry run): new / update /
+//     unchanged / error per row, with each field and size that
+//     would change.
+//   - Apply writes every row at once, only while no row has an
+//     error. Applying the same file again finds nothing to change.
+// ============================================================
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { FileUp } from 'lucide-react';
+import { queryKeys } from '../lib/queryKeys';
+import { useWarehouse } from '../contexts/WarehouseContext';
+import { useToast } from '../contexts/ToastContext';
+import { getUserFriendlyMessage } from '../lib/errorMessages';
+import { EmptyState } from '../components/ui/EmptyState';
+import { Button } from '../components/ui/Button';
+import { Badge, type BadgeVariant } from '../components/ui/Badge';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import {
+  IMPORT_ACTION_LABEL,
+  IMPORT_TEMPLATE_CSV,
+  applyProductImport,
+  describeChange,
+  importFileToCsv,
+  previewProductImport,
+  type ImportAction,
+  type ImportPlan,
+  type ImportRowResult,
+} from '../services/productImportApi';
+
+const ACTION_BADGE: Record<ImportAction, BadgeVariant> = {
+  create: 'success',
+  update: 'blue',
+  unchanged: 'gray',
+  error: 'danger',
+};
+
+const inputClass =
+  'h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px]';
+
+function downloadTemplate() {
+  const blob = new Blob([IMPORT_TEMPLATE_CSV], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = 'product-import-template.csv';
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function ImportRowCard({ row }: { row: ImportRowResult }) {
+  return (
+    <div className="rounded-[var(--edk-radius)] border-[1.5px] border-[var(--edk-border)] bg-[var(--edk-surface)] p-4 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-[14px] font-bold text-[var(--edk-ink)] truncate">{row.name || '—'}</p>
+          <p className="text-[11px] text-[var(--edk-ink-3)] truncate">
+            Row {row.line} · {row.sku || 'no SKU'}
+          </p>
+        </div>
+        <Badge variant={ACTION_BADGE[row.action]} size="sm">{IMPORT_ACTION_LABEL[row.action]}</Badge>
+      </div>
+      {row.errors.length > 0 && (
+        <ul className="list-disc pl-5 space-y-0.5 text-[12px] text-[var(--edk-red)]">
+          {row.errors.map(e => <li key={e}>{e}</li>)}
+        </ul>
+      )}
+      {row.changes.length > 0 && (
+        <ul className="space-y-0.5 text-[12px] text-[var(--edk-ink-2)] tabular-nums">
+          {row.changes.map(c => <li key={c.field}>{describeChange(c)}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function ProductImportPage() {
+  const { warehouses, currentWarehouseId } = useWarehouse();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const [warehouseId, setWarehouseId] = useState<string>(currentWarehouseId);
+  const [file, setFile] = useState<{ name: string; csv: string } | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [filter, setFilter] = useState<ImportAction | 'all'>('all');
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const visible = useMemo(
+    () => (plan ? (filter === 'all' ? plan.rows : plan.rows.filter(r => r.action === filter)) : []),
+    [plan, filter]
+  );
+  const toWrite = plan ? plan.summary.create + plan.summary.update : 0;
+
+  const preview = useCallback(() => {
+    if (!file || !warehouseId) return;
+    setLoading(true);
+    previewProductImport(warehouseId, file.csv)
+      .then(p => {
+        setPlan(p);
+        setFilter(p.summary.error > 0 ? 'error' : 'all');
+      })
+      .catch((e: unknown) => {
+        setPlan(null);
+        showToast('error', getUserFriendlyMessage(e));
+      })
+      .finally(() => setLoading(false));
+  }, [file, warehouseId, showToast]);
+
+  useEffect(() => { preview(); }, [preview]);
+
+  async function chooseFile(picked: File | undefined) {
+    if (!picked) return;
+    try {
+      setFile({ name: picked.name, csv: await importFileToCsv(picked) });
+    } catch (e: unknown) {
+      showToast('error', e instanceof Error ? e.message : 'Could not read the file.');
+    }
+    if (fileRef.current) fileRef.current.value = '';
+  }
+
+  async function apply() {
+    if (!file || !plan) return;
+    const warehouseName = warehouses.find(w => w.id === warehouseId)?.name ?? 'this warehouse';
+    if (!window.confirm(`Apply ${toWrite} change${toWrite === 1 ? '' : 's'} from ${file.name} at ${warehouseName}?`)) return;
+    setApplying(true);
+    try {
+      const result = await applyProductImport(warehouseId, file.csv, file.name);
+      showToast('success', `Imported — ${result.summary.create} new, ${result.summary.update} updated.`);
+      queryClient.invalidateQueries({ queryKey: queryKeys.products(warehouseId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboard(warehouseId) });
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    } finally {
+      setApplying(false);
+      preview();
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--edk-bg)] pb-20">
+      <div className="sticky top-0 z-30 bg-[var(--edk-surface)] border-b border-[var(--edk-border)] px-4 pt-4 pb-3">
+        <h1 className="text-[20px] font-extrabold text-[var(--edk-ink)] tracking-tight" style={{ fontFamily: "'Barlow Condensed', sans-serif" }}>Import products</h1>
+        <p className="text-[12px] text-[var(--edk-ink-3)] mt-0.5">
+          Create and update products by SKU from a CSV or Excel file
+        </p>
+      </div>
+
+      <div className="px-4 pt-4 space-y-4 max-w-4xl">
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={warehouseId} onChange={e => setWarehouseId(e.target.value)} className={inputClass} aria-label="Warehouse">
+            {warehouses.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+          </select>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,.xlsx,.xlsm,text/csv"
+            className="hidden"
+            onChange={e => chooseFile(e.target.files?.[0])}
+          />
+          <Button type="button" variant="secondary" size="sm" disabled={loading || applying} onClick={() => fileRef.current?.click()}>
+            {file ? 'Choose another file' : 'Choose file'}
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={downloadTemplate}>Download template</Button>
+          {file && <span className="text-[12px] text-[var(--edk-ink-3)] truncate">{file.name}</span>}
+        </div>
+
+        {!file ? (
+          <EmptyState
+            icon={FileUp}
+            title="Choose a file to preview"
+            description="Columns: sku, name, category, selling_price, cost_price, sizes (EU40:2; EU41:3) or quantity, images. Nothing is saved until you apply."
+          />
+        ) : loading && !plan ? (
+          <div className="flex justify-center py-10"><LoadingSpinner /></div>
+        ) : plan && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              {(['all', 'create', 'update', 'unchanged', 'error'] as const).map(k => (
+                <button key={k} type="button" onClick={() => setFilter(k)}
+                  className={`h-8 px-3 rounded-full text-[12px] font-semibold border ${filter === k ? 'bg-[var(--edk-ink)] text-white border-[var(--edk-ink)]' : 'border-[var(--edk-border)] text-[var(--edk-ink-2)]'}`}>
+                  {k === 'all' ? `All (${plan.rows.length})` : `${IMPORT_ACTION_LABEL[k]} (${plan.summary[k]})`}
+                </button>
+              ))}
+              <Button
+                type="button"
+                variant="primary"
+                size="sm"
+                className="ml-auto"
+                disabled={loading || applying || plan.summary.error > 0 || toWrite === 0}
+                loading={applying}
+                onClick={apply}
+              >
+                {toWrite === 0 ? 'Nothing to apply' : `Apply ${toWrite} change${toWrite === 1 ? '' : 's'}`}
+              </Button>
+            </div>
+
+            {plan.summary.error > 0 && (
+              <p className="text-[12px] text-[var(--edk-red)]">
+                Fix the rows with errors in the file and choose it again; nothing is applied while any row has an error.
+              </p>
+            )}
+            {plan.ignoredColumns.length > 0 && (
+              <p className="text-[12px] text-[var(--edk-ink-3)]">
+                Not imported (unknown columns): {plan.ignoredColumns.join(', ')}
+              </p>
+            )}
+
+            <div className="space-y-3">
+              {visible.map(row => <ImportRowCard key={row.line} row={row} />)}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
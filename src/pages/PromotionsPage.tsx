@@ -0,0 +1,271 @@
+// ============================================================
+// PromotionsPage.tsx
+// File: warehouse-pos/src/pages/PromotionsPage.tsx
+//
+// POS promotions (managers).
+//   - List with status: running, scheduled, ended, switched off
+//   - Add / edit: kind and its numbers, products (by SKU) or categories, locations, date window
+//   - End a promotion early (switch off); promotions are never deleted
+// The POS cart applies running promotions automatically (lib/promotions.ts).
+// ============================================================
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Tag } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import { useWarehouse } from '../contexts/WarehouseContext';
+import { useInventory } from '../contexts/InventoryContext';
+import { getUserFriendlyMessage } from '../lib/errorMessages';
+import { EmptyState } from '../components/ui/EmptyState';
+import { Button } from '../components/ui/Button';
+import { Badge, type BadgeVariant } from '../components/ui/Badge';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import {
+  PROMOTION_KIND_LABELS,
+  createPromotion,
+  describePromotion,
+  fetchPromotions,
+  updatePromotion,
+  type Promotion,
+  type PromotionInput,
+  type PromotionKind,
+} from '../services/promotionsApi';
+
+const inputClass =
+  'w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px]';
+
+function fmtDate(iso: string) {
+  return new Date(iso).toLocaleDateString('en-GH', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+/** ISO → value for <input type="datetime-local"> in local time. */
+function toLocalInput(iso: string | null | undefined): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function promotionStatus(p: Promotion, now = Date.now()): { label: string; variant: BadgeVariant } {
+  if (!p.active) return { label: 'Off', variant: 'gray' };
+  if (Date.parse(p.startsAt) > now) return { label: 'Scheduled', variant: 'blue' };
+  if (p.endsAt && Date.parse(p.endsAt) <= now) return { label: 'Ended', variant: 'gray' };
+  return { label: 'Running', variant: 'success' };
+}
+
+// ── Add / edit form ───────────────────────────────────────────────────────
+
+function PromotionForm({
+  initial, saving, onSave, onCancel,
+}: {
+  initial?: Promotion;
+  saving: boolean;
+  onSave: (input: PromotionInput) => void;
+  onCancel: () => void;
+}) {
+  const { warehouses } = useWarehouse();
+  const { products } = useInventory();
+  const skuById = useMemo(() => new Map(products.map(p => [p.id, p.sku])), [products]);
+  const idBySku = useMemo(() => new Map(products.map(p => [p.sku.trim().toUpperCase(), p.id])), [products]);
+
+  const [name, setName] = useState(initial?.name ?? '');
+  const [kind, setKind] = useState<PromotionKind>(initial?.kind ?? 'percent_off');
+  const [percentOff, setPercentOff] = useState(String(initial?.percentOff ?? ''));
+  const [amountOff, setAmountOff] = useState(String(initial?.amountOff ?? ''));
+  const [buyQty, setBuyQty] = useState(String(initial?.buyQty ?? '2'));
+  const [getQty, setGetQty] = useState(String(initial?.getQty ?? '1'));
+  const [bundleQty, setBundleQty] = useState(String(initial?.bundleQty ?? '3'));
+  const [bundlePrice, setBundlePrice] = useState(String(initial?.bundlePrice ?? ''));
+  const [skus, setSkus] = useState((initial?.productIds ?? []).map(id => skuById.get(id) ?? id).join(', '));
+  const [categories, setCategories] = useState((initial?.categories ?? []).join(', '));
+  const [warehouseIds, setWarehouseIds] = useState<string[]>(initial?.warehouseIds ?? []);
+  const [startsAt, setStartsAt] = useState(toLocalInput(initial?.startsAt ?? new Date().toISOString()));
+  const [endsAt, setEndsAt] = useState(toLocalInput(initial?.endsAt));
+
+  const skuList = skus.split(',').map(s => s.trim()).filter(Boolean);
+  const unknownSkus = skuList.filter(s => !idBySku.has(s.toUpperCase()) && !initial?.productIds.includes(s));
+
+  function submit() {
+    const n = (v: string) => (v.trim() === '' ? null : Number(v));
+    onSave({
+      name: name.trim(),
+      kind,
+      percentOff: kind === 'percent_off' ? n(percentOff) : null,
+      amountOff: kind === 'fixed_off' ? n(amountOff) : null,
+      buyQty: kind === 'buy_x_get_y' ? n(buyQty) : null,
+      getQty: kind === 'buy_x_get_y' ? n(getQty) : null,
+      bundleQty: kind === 'bundle_price' ? n(bundleQty) : null,
+      bundlePrice: kind === 'bundle_price' ? n(bundlePrice) : null,
+      productIds: skuList.map(s => idBySku.get(s.toUpperCase()) ?? s),
+      categories: categories.split(',').map(c => c.trim()).filter(Boolean),
+      warehouseIds,
+      startsAt: startsAt ? new Date(startsAt).toISOString() : new Date().toISOString(),
+      endsAt: endsAt ? new Date(endsAt).toISOString() : null,
+    });
+  }
+
+  return (
+    <div className="rounded-[var(--edk-radius)] border-[1.5px] border-[var(--edk-border)] bg-[var(--edk-surface)] p-4 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="Name shown on the receipt" className={inputClass} />
+        <select value={kind} onChange={e => setKind(e.target.value as PromotionKind)} className={inputClass}>
+          {(Object.keys(PROMOTION_KIND_LABELS) as PromotionKind[]).map(k => (
+            <option key={k} value={k}>{PROMOTION_KIND_LABELS[k]}</option>
+          ))}
+        </select>
+        {kind === 'percent_off' && (
+          <input type="number" min={0} max={100} value={percentOff} onChange={e => setPercentOff(e.target.value)} placeholder="% off" className={inputClass} />
+        )}
+        {kind === 'fixed_off' && (
+          <input type="number" min={0} step={0.01} value={amountOff} onChange={e => setAmountOff(e.target.value)} placeholder="GH₵ off each item" className={inputClass} />
+        )}
+        {kind === 'buy_x_get_y' && (
+          <div className="flex gap-2">
+            <input type="number" min={1} value={buyQty} onChange={e => setBuyQty(e.target.value)} placeholder="Buy" className={inputClass} />
+            <input type="number" min={1} value={getQty} onChange={e => setGetQty(e.target.value)} placeholder="Get free" className={inputClass} />
+          </div>
+        )}
+        {kind === 'bundle_price' && (
+          <div className="flex gap-2">
+            <input type="number" min={2} value={bundleQty} onChange={e => setBundleQty(e.target.value)} placeholder="Items" className={inputClass} />
+            <input type="number" min={0} step={0.01} value={bundlePrice} onChange={e => setBundlePrice(e.target.value)} placeholder="For GH₵" className={inputClass} />
+          </div>
+        )}
+        <input type="text" value={skus} onChange={e => setSkus(e.target.value)} placeholder="Product SKUs, comma-separated" className={inputClass} />
+        <input type="text" value={categories} onChange={e => setCategories(e.target.value)} placeholder="Categories, comma-separated" className={inputClass} />
+        <label className="text-[12px] text-[var(--edk-ink-3)]">
+          Starts
+          <input type="datetime-local" value={startsAt} onChange={e => setStartsAt(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-[12px] text-[var(--edk-ink-3)]">
+          Ends (optional)
+          <input type="datetime-local" value={endsAt} onChange={e => setEndsAt(e.target.value)} className={inputClass} />
+        </label>
+      </div>
+      <p className="text-[11px] text-[var(--edk-ink-3)]">No products or categories = every product.</p>
+      {unknownSkus.length > 0 && (
+        <p className="text-[12px] text-[var(--edk-amber)]">Not in this location's catalogue: {unknownSkus.join(', ')}</p>
+      )}
+      {warehouses.length > 1 && (
+        <div className="flex flex-wrap gap-3">
+          {warehouses.map(w => (
+            <label key={w.id} className="flex items-center gap-1.5 text-[12px] text-[var(--edk-ink-2)]">
+              <input
+                type="checkbox"
+                checked={warehouseIds.includes(w.id)}
+                onChange={e => setWarehouseIds(prev => (e.target.checked ? [...prev, w.id] : prev.filter(id => id !== w.id)))}
+              />
+              {w.name}
+            </label>
+          ))}
+          <span className="text-[11px] text-[var(--edk-ink-3)]">None ticked = all locations</span>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Button type="button" variant="primary" size="sm" loading={saving} disabled={saving || !name.trim()} onClick={submit}>
+          Save
+        </Button>
+        <Button type="button" variant="secondary" size="sm" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  );
+}
+
+// ── Main Page ─────────────────────────────────────────────────────────────
+
+export default function PromotionsPage() {
+  const { showToast } = useToast();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Promotion | 'new' | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(() => {
+    setLoading(true);
+    fetchPromotions()
+      .then(setPromotions)
+      .catch((e: unknown) => showToast('error', getUserFriendlyMessage(e)))
+      .finally(() => setLoading(false));
+  }, [showToast]);
+
+  useEffect(() => { load(); }, [load]);
+
+  async function save(input: PromotionInput) {
+    setSaving(true);
+    try {
+      const saved = editing && editing !== 'new' ? await updatePromotion(editing.id, input) : await createPromotion(input);
+      setPromotions(prev => (prev.some(p => p.id === saved.id) ? prev.map(p => (p.id === saved.id ? saved : p)) : [saved, ...prev]));
+      setEditing(null);
+      showToast('success', `Saved ${saved.name}`);
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function setActive(p: Promotion, active: boolean) {
+    try {
+      const saved = await updatePromotion(p.id, { active });
+      setPromotions(prev => prev.map(x => (x.id === saved.id ? saved : x)));
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--edk-bg)] pb-20">
+      <div className="sticky top-0 z-30 bg-[var(--edk-surface)] border-b border-[var(--edk-border)] px-4 pt-4 pb-3">
+        <h1 className="text-[20px] font-extrabold text-[var(--edk-ink)] tracking-tight" style={{ fontFamily: "'Barlow Condensed', sans-serif" }}>Promotions</h1>
+        <p className="text-[12px] text-[var(--edk-ink-3)] mt-0.5">Deals the POS applies automatically</p>
+      </div>
+
+      <div className="px-4 pt-4 space-y-4 max-w-3xl">
+        {editing ? (
+          <PromotionForm
+            key={editing === 'new' ? 'new' : editing.id}
+            initial={editing === 'new' ? undefined : editing}
+            saving={saving}
+            onSave={save}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <Button type="button" variant="primary" size="sm" onClick={() => setEditing('new')}>New promotion</Button>
+        )}
+
+        {loading && promotions.length === 0 ? (
+          <div className="flex justify-center py-10"><LoadingSpinner /></div>
+        ) : promotions.length === 0 ? (
+          <EmptyState icon={Tag} title="No promotions yet" description="Create a deal and the POS will apply it to matching items." />
+        ) : (
+          <div className="space-y-2">
+            {promotions.map(p => {
+              const status = promotionStatus(p);
+              const target = [
+                p.productIds.length > 0 ? `${p.productIds.length} product${p.productIds.length !== 1 ? 's' : ''}` : null,
+                p.categories.length > 0 ? p.categories.join(', ') : null,
+              ].filter(Boolean).join(' · ') || 'All products';
+              return (
+                <div key={p.id} className="flex items-center justify-between gap-2 rounded-xl border border-[var(--edk-border)] bg-[var(--edk-surface)] px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-[13px] font-semibold text-[var(--edk-ink)] truncate">
+                      {p.name} <Badge variant={status.variant} size="sm">{status.label}</Badge>
+                    </p>
+                    <p className="text-[11px] text-[var(--edk-ink-3)]">
+                      {describePromotion(p)} · {target} · {fmtDate(p.startsAt)}{p.endsAt ? ` – ${fmtDate(p.endsAt)}` : ' onwards'}
+                    </p>
+                  </div>
+                  <div className="flex gap-1.5 flex-shrink-0">
+                    <Button type="button" variant="secondary" size="sm" onClick={() => setEditing(p)}>Edit</Button>
+                    <Button type="button" variant="secondary" size="sm" onClick={() => setActive(p, !p.active)}>
+                      {p.active ? 'Switch off' : 'Switch on'}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,513 @@
+// ============================================================
+// PurchasingPage.tsx
+// File: warehouse-pos/src/pages/PurchasingPage.tsx
+//
+// Purchase orders, reorder suggestions and suppliers for the selected warehouse.
+//   - Orders: draft → send → receive (full or partial, writes a GRN) → closed; short-close
+//   - Reorder: reorder level + sales velocity, one draft PO per supplier
+//   - Suppliers: add / edit / deactivate
+// ============================================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { ClipboardList } from 'lucide-react';
+import { queryKeys } from '../lib/queryKeys';
+import { printHtml } from '../lib/printReceipt';
+import { buildGrnHtml } from '../lib/grnTemplate';
+import { useWarehouse } from '../contexts/WarehouseContext';
+import { useToast } from '../contexts/ToastContext';
+import { isValidWarehouseId } from '../lib/warehouseId';
+import { getUserFriendlyMessage } from '../lib/errorMessages';
+import { EmptyState } from '../components/ui/EmptyState';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import PurchaseOrderSheet, { type PurchaseOrderPrefill } from '../components/purchasing/PurchaseOrderSheet';
+import {
+  PO_STATUS_LABEL,
+  createSupplier,
+  deactivateSupplier,
+  fetchPurchaseOrders,
+  fetchReorderSuggestions,
+  fetchSuppliers,
+  groupSuggestionsBySupplier,
+  outstandingQty,
+  poProgress,
+  receivePurchaseOrder,
+  updatePurchaseOrder,
+  updateSupplier,
+  type PurchaseOrder,
+  type PurchaseOrderStatus,
+  type ReorderSuggestion,
+  type Supplier,
+  type SupplierInput,
+} from '../services/purchasingApi';
+
+type Tab = 'orders' | 'reorder' | 'suppliers';
+
+const inputClass =
+  'w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px]';
+
+function fmtDate(iso: string) {
+  return new Date(iso).toLocaleDateString('en-GH', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+function fmtMoney(n: number) {
+  return `GH₵${n.toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function StatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  const variantMap: Record<PurchaseOrderStatus, 'warning' | 'blue' | 'success' | 'gray'> = {
+    draft: 'gray',
+    sent: 'blue',
+    partially_received: 'warning',
+    closed: 'success',
+  };
+  return <Badge variant={variantMap[status]} size="sm">{PO_STATUS_LABEL[status]}</Badge>;
+}
+
+// ── PO card ───────────────────────────────────────────────────────────────
+
+function PurchaseOrderCard({
+  po, busy, onAction, onReceive,
+}: {
+  po: PurchaseOrder;
+  busy: boolean;
+  onAction: (po: PurchaseOrder, action: 'send' | 'close') => void;
+  onReceive: (po: PurchaseOrder, qtyByLine: Record<string, number>, reference: string) => Promise<void>;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [receiving, setReceiving] = useState(false);
+  const [qtyByLine, setQtyByLine] = useState<Record<string, number>>({});
+  const [reference, setReference] = useState('');
+  const progress = poProgress(po);
+  const receivable = po.status === 'sent' || po.status === 'partially_received';
+
+  const startReceiving = () => {
+    setQtyByLine(Object.fromEntries(po.lines.map((l) => [l.id, outstandingQty(l)])));
+    setReference('');
+    setReceiving(true);
+  };
+
+  return (
+    <div className="bg-[var(--edk-surface)] rounded-[var(--edk-radius)] border-[1.5px] border-[var(--edk-border)] overflow-hidden">
+      <button type="button" onClick={() => setExpanded((v) => !v)}
+        className="w-full flex items-start gap-3 px-4 py-4 text-left hover:bg-[var(--edk-bg)] transition-colors">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-[14px] font-bold text-[var(--edk-ink)] truncate">{po.poNumber} · {po.supplierName ?? 'Supplier'}</p>
+            <StatusBadge status={po.status} />
+          </div>
+          <p className="text-[12px] text-[var(--edk-ink-2)] mt-0.5">
+            {progress.received}/{progress.ordered} units received · {fmtMoney(po.totalCost)}
+          </p>
+          <p className="text-[11px] text-[var(--edk-ink-3)] mt-0.5">
+            {fmtDate(po.createdAt)}{po.expectedDate ? ` · expected ${fmtDate(po.expectedDate)}` : ''}
+          </p>
+        </div>
+      </button>
+
+      {expanded && (
+        <div className="border-t border-[var(--edk-border)] px-4 py-3 space-y-3">
+          <div className="space-y-1.5">
+            {po.lines.map((l) => (
+              <div key={l.id} className="flex items-center justify-between gap-2">
+                <span className="text-[12px] text-[var(--edk-ink-2)] truncate">
+                  {l.productName ?? l.sku ?? l.productId}{l.sizeCode ? ` · ${l.sizeCode}` : ''}
+                  {l.unitCost != null && <span className="text-[var(--edk-ink-3)]"> @ {fmtMoney(l.unitCost)}</span>}
+                </span>
+                {receiving && outstandingQty(l) > 0 ? (
+                  <input type="number" min={0} max={outstandingQty(l)} value={qtyByLine[l.id] ?? 0}
+                    aria-label={`Receive qty ${l.productName ?? ''} ${l.sizeCode ?? ''}`}
+                    onChange={(e) => setQtyByLine((prev) => ({
+                      ...prev,
+                      [l.id]: Math.max(0, Math.min(outstandingQty(l), Math.floor(Number(e.target.value) || 0))),
+                    }))}
+                    className="w-16 h-8 px-2 rounded-lg border border-[var(--edk-border)] text-[13px] tabular-nums" />
+                ) : (
+                  <span className="text-[12px] font-semibold text-[var(--edk-ink)] tabular-nums">{l.qtyReceived}/{l.qtyOrdered}</span>
+                )}
+              </div>
+            ))}
+            {po.notes && <p className="text-[12px] italic text-[var(--edk-ink-3)] pt-1">{po.notes}</p>}
+          </div>
+
+          {receiving ? (
+            <div className="space-y-2">
+              <input type="text" value={reference} onChange={(e) => setReference(e.target.value)}
+                placeholder={`Invoice / waybill no. (default ${po.poNumber})`} className={inputClass} />
+              <div className="flex gap-2">
+                <Button type="button" variant="primary" size="sm" disabled={busy} loading={busy}
+                  onClick={() => onReceive(po, qtyByLine, reference).then(() => setReceiving(false))}>
+                  Receive {Object.values(qtyByLine).reduce((n, q) => n + q, 0)} units
+                </Button>
+                <Button type="button" variant="secondary" size="sm" disabled={busy} onClick={() => setReceiving(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {po.status === 'draft' && (
+                <Button type="button" variant="primary" size="sm" disabled={busy} loading={busy} onClick={() => onAction(po, 'send')}>
+                  Mark as sent
+                </Button>
+              )}
+              {receivable && (
+                <Button type="button" variant="primary" size="sm" disabled={busy} onClick={startReceiving}>
+                  Receive
+                </Button>
+              )}
+              {receivable && (
+                <Button type="button" variant="secondary" size="sm" disabled={busy}
+                  onClick={() => {
+                    if (window.confirm(`Close ${po.poNumber}? ${progress.outstanding} outstanding units will no longer be expected.`)) {
+                      onAction(po, 'close');
+                    }
+                  }}>
+                  Close PO
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ── Reorder tab ───────────────────────────────────────────────────────────
+
+function ReorderPanel({
+  rows, loading, onCreatePo,
+}: {
+  rows: ReorderSuggestion[];
+  loading: boolean;
+  onCreatePo: (supplierId: string | null, items: ReorderSuggestion[]) => void;
+}) {
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16"><LoadingSpinner size="sm" /></div>
+    );
+  }
+  if (rows.length === 0) {
+    return <EmptyState icon={ClipboardList} title="Nothing to reorder" description="Stock is above reorder levels and covers recent sales." />;
+  }
+  return (
+    <div className="space-y-4">
+      {groupSuggestionsBySupplier(rows).map((group) => (
+        <div key={group.supplierId ?? 'none'} className="rounded-[var(--edk-radius)] border-[1.5px] border-[var(--edk-border)] bg-[var(--edk-surface)]">
+          <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-[var(--edk-border)]">
+            <p className="text-[14px] font-bold text-[var(--edk-ink)]">{group.supplierName ?? 'No supplier assigned'}</p>
+            <Button type="button" variant="primary" size="sm" onClick={() => onCreatePo(group.supplierId, group.items)}>
+              Create PO
+            </Button>
+          </div>
+          <div className="divide-y divide-[var(--edk-border)]">
+            {group.items.map((r) => (
+              <div key={r.productId} className="flex items-center justify-between gap-3 px-4 py-2.5">
+                <div className="min-w-0">
+                  <p className="text-[13px] font-semibold text-[var(--edk-ink)] truncate">{r.name}</p>
+                  <p className="text-[11px] text-[var(--edk-ink-3)]">
+                    {r.onHand} on hand{r.onOrder > 0 ? ` · ${r.onOrder} on order` : ''} · reorder at {r.reorderLevel}
+                    {r.dailyRate > 0 ? ` · ${r.dailyRate}/day` : ''}
+                    {r.daysOfCover != null ? ` · ${r.daysOfCover} days left` : ''}
+                  </p>
+                </div>
+                <span className="text-[13px] font-bold text-[var(--edk-ink)] tabular-nums whitespace-nowrap">+{r.suggestedQty}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ── Suppliers tab ─────────────────────────────────────────────────────────
+
+function SupplierForm({ initial, onSave, onCancel }: {
+  initial?: Supplier;
+  onSave: (input: SupplierInput) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState<SupplierInput>({
+    name: initial?.name ?? '',
+    contactName: initial?.contactName ?? '',
+    phone: initial?.phone ?? '',
+    email: initial?.email ?? '',
+    notes: initial?.notes ?? '',
+  });
+  const [saving, setSaving] = useState(false);
+  const set = (k: keyof SupplierInput) => (e: React.ChangeEvent<HTMLInputElement>) => setForm((f) => ({ ...f, [k]: e.target.value }));
+
+  return (
+    <div className="rounded-[var(--edk-radius)] border-[1.5px] border-[var(--edk-border)] bg-[var(--edk-surface)] p-4 space-y-2">
+      <input type="text" value={form.name ?? ''} onChange={set('name')} placeholder="Supplier name" className={inputClass} />
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <input type="text" value={form.contactName ?? ''} onChange={set('contactName')} placeholder="Contact person" className={inputClass} />
+        <input type="tel" value={form.phone ?? ''} onChange={set('phone')} placeholder="Phone / WhatsApp" className={inputClass} />
+        <input type="email" value={form.email ?? ''} onChange={set('email')} placeholder="Email" className={inputClass} />
+      </div>
+      <input type="text" value={form.notes ?? ''} onChange={set('notes')} placeholder="Notes (terms, lead time…)" className={inputClass} />
+      <div className="flex gap-2">
+        <Button type="button" variant="primary" size="sm" disabled={saving || !form.name?.trim()} loading={saving}
+          onClick={() => {
+            setSaving(true);
+            onSave(form).finally(() => setSaving(false));
+          }}>
+          Save
+        </Button>
+        <Button type="button" variant="secondary" size="sm" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  );
+}
+
+// ── Main Page ─────────────────────────────────────────────────────────────
+
+export default function PurchasingPage() {
+  const { currentWarehouseId, currentWarehouse } = useWarehouse();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const warehouseId = currentWarehouseId || '';
+
+  const [tab, setTab] = useState<Tab>('orders');
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [suggestionsLoading, setSuggestionsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<'open' | PurchaseOrderStatus | 'all'>('open');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<{ supplierId: string | null; prefill?: PurchaseOrderPrefill[] } | null>(null);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | 'new' | null>(null);
+
+  const load = useCallback(async () => {
+    if (!isValidWarehouseId(warehouseId)) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const [pos, sups] = await Promise.all([fetchPurchaseOrders(warehouseId), fetchSuppliers()]);
+      setOrders(pos);
+      setSuppliers(sups);
+    } catch (e: unknown) {
+      const msg = getUserFriendlyMessage(e);
+      setError(msg);
+      showToast('error', msg);
+    } finally {
+      setLoading(false);
+    }
+  }, [warehouseId, showToast]);
+
+  useEffect(() => { load(); }, [load]);
+
+  useEffect(() => {
+    if (tab !== 'reorder' || !isValidWarehouseId(warehouseId)) return;
+    setSuggestionsLoading(true);
+    fetchReorderSuggestions(warehouseId)
+      .then(setSuggestions)
+      .catch((e: unknown) => showToast('error', getUserFriendlyMessage(e)))
+      .finally(() => setSuggestionsLoading(false));
+  }, [tab, warehouseId, showToast]);
+
+  const replaceOrder = (po: PurchaseOrder) => setOrders((prev) => prev.map((x) => (x.id === po.id ? po : x)));
+
+  async function handleAction(po: PurchaseOrder, action: 'send' | 'close') {
+    setBusyId(po.id);
+    try {
+      replaceOrder(await updatePurchaseOrder(po.id, { action }));
+      showToast('success', action === 'send' ? `${po.poNumber} marked as sent.` : `${po.poNumber} closed.`);
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleReceive(po: PurchaseOrder, qtyByLine: Record<string, number>, reference: string) {
+    const lines = Object.entries(qtyByLine)
+      .filter(([, qty]) => qty > 0)
+      .map(([poLineId, qty]) => ({ poLineId, qty }));
+    if (lines.length === 0) return;
+    setBusyId(po.id);
+    try {
+      const { purchaseOrder, receipt } = await receivePurchaseOrder(po.id, { lines, reference: reference.trim() || null });
+      replaceOrder(purchaseOrder);
+      queryClient.invalidateQueries({ queryKey: queryKeys.products(warehouseId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboard(warehouseId) });
+      showToast('success', receipt ? `${receipt.grnNumber}: ${receipt.totalUnits} units received.` : 'Stock received.');
+      if (receipt && window.confirm(`Print goods-received note ${receipt.grnNumber}?`)) {
+        printHtml(buildGrnHtml(receipt, currentWarehouse?.name ?? null), 'GRN print');
+      }
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function saveSupplier(input: SupplierInput) {
+    try {
+      if (editingSupplier && editingSupplier !== 'new') {
+        const updated = await updateSupplier(editingSupplier.id, input);
+        setSuppliers((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+      } else {
+        const created = await createSupplier(input);
+        setSuppliers((prev) => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      setEditingSupplier(null);
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    }
+  }
+
+  async function removeSupplier(s: Supplier) {
+    if (!window.confirm(`Deactivate ${s.name}? Existing purchase orders keep it.`)) return;
+    try {
+      await deactivateSupplier(s.id);
+      setSuppliers((prev) => prev.filter((x) => x.id !== s.id));
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    }
+  }
+
+  const filteredOrders = orders.filter((po) =>
+    statusFilter === 'all' ? true
+      : statusFilter === 'open' ? po.status !== 'closed'
+        : po.status === statusFilter
+  );
+
+  const TABS: { key: Tab; label: string }[] = [
+    { key: 'orders', label: 'Orders' },
+    { key: 'reorder', label: 'Reorder' },
+    { key: 'suppliers', label: 'Suppliers' },
+  ];
+  const FILTERS: { key: typeof statusFilter; label: string }[] = [
+    { key: 'open', label: 'Open' },
+    { key: 'draft', label: 'Draft' },
+    { key: 'sent', label: 'Sent' },
+    { key: 'partially_received', label: 'Part received' },
+    { key: 'closed', label: 'Closed' },
+    { key: 'all', label: 'All' },
+  ];
+  const pillClass = (active: boolean) =>
+    `flex-shrink-0 h-8 px-3 rounded-full text-[12px] font-bold border-[1.5px] transition-all ${active
+      ? 'bg-[var(--edk-red-soft)] text-[var(--edk-red)] border-[var(--edk-red-border)]'
+      : 'bg-[var(--edk-surface)] border-[var(--edk-border)] text-[var(--edk-ink-3)]'}`;
+
+  return (
+    <div className="min-h-screen bg-[var(--edk-bg)] pb-20">
+      <div className="sticky top-0 z-30 bg-[var(--edk-surface)] border-b border-[var(--edk-border)] px-4 pt-4 pb-3">
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <h1 className="text-[20px] font-extrabold text-[var(--edk-ink)] tracking-tight" style={{ fontFamily: "'Barlow Condensed', sans-serif" }}>Purchasing</h1>
+            <p className="text-[12px] text-[var(--edk-ink-3)] mt-0.5">{currentWarehouse?.name ?? 'Select a warehouse'}</p>
+          </div>
+          {tab === 'suppliers' ? (
+            <Button type="button" variant="primary" size="sm" onClick={() => setEditingSupplier('new')}>Add supplier</Button>
+          ) : (
+            <Button type="button" variant="primary" size="sm" disabled={suppliers.length === 0 || !isValidWarehouseId(warehouseId)}
+              onClick={() => setSheet({ supplierId: null })}>
+              New PO
+            </Button>
+          )}
+        </div>
+        <div className="flex gap-2 overflow-x-auto pb-0.5">
+          {TABS.map((t) => (
+            <button key={t.key} type="button" onClick={() => setTab(t.key)} className={pillClass(tab === t.key)}>{t.label}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="px-4 pt-4 space-y-3">
+        {loading && (
+          <div className="flex flex-col items-center justify-center gap-3 py-20 text-[var(--edk-ink-3)]">
+            <LoadingSpinner size="sm" />
+            <p className="text-[13px] font-medium">Loading purchasing…</p>
+          </div>
+        )}
+
+        {!loading && error != null && error !== '' && (
+          <div className="rounded-[var(--edk-radius)] border border-[var(--edk-red-border)] bg-[var(--edk-red-soft)] p-4 text-center">
+            <p className="text-[13px] text-[var(--edk-ink)] font-medium">{error}</p>
+            <Button type="button" variant="primary" size="sm" onClick={() => load()} className="mt-2">Retry</Button>
+          </div>
+        )}
+
+        {!loading && !error && tab === 'orders' && (
+          <>
+            <div className="flex gap-2 overflow-x-auto pb-0.5">
+              {FILTERS.map((f) => (
+                <button key={f.key} type="button" onClick={() => setStatusFilter(f.key)} className={pillClass(statusFilter === f.key)}>{f.label}</button>
+              ))}
+            </div>
+            {filteredOrders.length === 0 ? (
+              <EmptyState icon={ClipboardList} title="No purchase orders" description="Raise one with New PO or from the Reorder tab." />
+            ) : filteredOrders.map((po) => (
+              <PurchaseOrderCard key={po.id} po={po} busy={busyId === po.id} onAction={handleAction} onReceive={handleReceive} />
+            ))}
+          </>
+        )}
+
+        {!loading && !error && tab === 'reorder' && (
+          <ReorderPanel
+            rows={suggestions}
+            loading={suggestionsLoading}
+            onCreatePo={(supplierId, items) => {
+              if (suppliers.length === 0) {
+                showToast('error', 'Add a supplier first.');
+                return;
+              }
+              setSheet({ supplierId, prefill: items.map((i) => ({ productId: i.productId, suggestedQty: i.suggestedQty })) });
+            }}
+          />
+        )}
+
+        {!loading && !error && tab === 'suppliers' && (
+          <>
+            {editingSupplier === 'new' && <SupplierForm onSave={saveSupplier} onCancel={() => setEditingSupplier(null)} />}
+            {suppliers.length === 0 && editingSupplier !== 'new' && (
+              <EmptyState icon={ClipboardList} title="No suppliers" description="Add the people you restock from." />
+            )}
+            {suppliers.map((s) => editingSupplier !== 'new' && editingSupplier?.id === s.id ? (
+              <SupplierForm key={s.id} initial={s} onSave={saveSupplier} onCancel={() => setEditingSupplier(null)} />
+            ) : (
+              <div key={s.id} className="flex items-center justify-between gap-3 rounded-[var(--edk-radius)] border-[1.5px] border-[var(--edk-border)] bg-[var(--edk-surface)] px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-[14px] font-bold text-[var(--edk-ink)] truncate">{s.name}</p>
+                  <p className="text-[12px] text-[var(--edk-ink-3)] truncate">
+                    {[s.contactName, s.phone, s.email].filter(Boolean).join(' · ') || 'No contact details'}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button type="button" variant="secondary" size="sm" onClick={() => setEditingSupplier(s)}>Edit</Button>
+                  <Button type="button" variant="secondary" size="sm" onClick={() => removeSupplier(s)}>Remove</Button>
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      <PurchaseOrderSheet
+        isOpen={sheet != null}
+        warehouseId={warehouseId}
+        suppliers={suppliers}
+        initialSupplierId={sheet?.supplierId}
+        prefill={sheet?.prefill}
+        onClose={() => setSheet(null)}
+        onCreated={(po) => {
+          setSheet(null);
+          setOrders((prev) => [po, ...prev]);
+          setTab('orders');
+          showToast('success', `${po.poNumber} saved as draft.`);
+        }}
+      />
+    </div>
+  );
+}
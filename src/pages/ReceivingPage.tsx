@@ -0,0 +1,330 @@
+// ============================================================
+// ReceivingPage.tsx
+// File: warehouse-pos/src/pages/ReceivingPage.tsx
+//
+// Inbound goods receiving for the selected warehouse.
+//   - Scan (keyboard-wedge) or search to pick products
+//   - Per-size quantities for sized products (existing sizes + any other size code)
+//   - Optional supplier and reference (invoice / waybill no.)
+//   - Receive → stored GRN, print; recent GRNs can be reprinted
+// ============================================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { PackagePlus } from 'lucide-react';
+import { API_BASE_URL } from '../lib/api';
+import { apiGet } from '../lib/apiClient';
+import { queryKeys } from '../lib/queryKeys';
+import { printHtml } from '../lib/printReceipt';
+import { buildGrnHtml } from '../lib/grnTemplate';
+import { buildBarcodeIndex, lookupProductByCode } from '../lib/barcodeLookup';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import { useWarehouse } from '../contexts/WarehouseContext';
+import { useToast } from '../contexts/ToastContext';
+import { isValidWarehouseId } from '../lib/warehouseId';
+import { getUserFriendlyMessage } from '../lib/errorMessages';
+import { Button } from '../components/ui/Button';
+import type { POSProduct } from '../components/pos/SizePickerSheet';
+import {
+  addReceiveLine,
+  fetchReceipts,
+  recordReceipt,
+  type GoodsReceipt,
+  type ReceiveDraftLine,
+} from '../services/receivingApi';
+
+const inputClass =
+  'w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px]';
+
+function fmtTime(iso: string) {
+  return new Date(iso).toLocaleString('en-GH', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+async function searchProducts(warehouseId: string, q: string): Promise<POSProduct[]> {
+  const params = new URLSearchParams({ warehouse_id: warehouseId, q, limit: '10' });
+  const res = await apiGet<POSProduct[] | { data?: POSProduct[] }>(API_BASE_URL, `/api/products?${params.toString()}`);
+  return Array.isArray(res) ? res : res?.data ?? [];
+}
+
+// ── Per-size entry for one product ────────────────────────────────────────
+
+function SizeQtyEntry({
+  product, onAdd, onClose,
+}: {
+  product: POSProduct;
+  onAdd: (entries: Array<{ sizeCode: string | null; qty: number }>) => void;
+  onClose: () => void;
+}) {
+  const sized = product.sizeKind === 'sized';
+  const [qtyBySize, setQtyBySize] = useState<Record<string, number>>({});
+  const [otherSize, setOtherSize] = useState('');
+  const [otherQty, setOtherQty] = useState(0);
+  const [qty, setQty] = useState(1);
+
+  function submit() {
+    if (!sized) {
+      if (qty > 0) onAdd([{ sizeCode: null, qty }]);
+      return;
+    }
+    const entries = Object.entries(qtyBySize)
+      .filter(([, n]) => n > 0)
+      .map(([sizeCode, n]) => ({ sizeCode, qty: n }));
+    if (otherSize.trim() && otherQty > 0) entries.push({ sizeCode: otherSize.trim().toUpperCase(), qty: otherQty });
+    if (entries.length > 0) onAdd(entries);
+  }
+
+  return (
+    <div className="rounded-[var(--edk-radius)] border-[1.5px] border-[var(--edk-border)] bg-[var(--edk-surface)] p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-[14px] font-bold text-[var(--edk-ink)]">{product.name}</p>
+          <p className="text-[11px] text-[var(--edk-ink-3)]">{product.sku}</p>
+        </div>
+        <button type="button" onClick={onClose} className="p-1 text-[var(--edk-ink-3)] hover:text-[var(--edk-ink)]" aria-label="Close">✕</button>
+      </div>
+
+      {sized ? (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+            {(product.quantityBySize ?? []).map(s => (
+              <label key={s.sizeCode} className="block">
+                <span className="text-[11px] font-semibold text-[var(--edk-ink-2)]">
+                  {s.sizeLabel ?? s.sizeCode} <span className="font-normal text-[var(--edk-ink-3)]">({s.quantity})</span>
+                </span>
+                <input type="number" min={0} inputMode="numeric" value={qtyBySize[s.sizeCode] ?? ''}
+                  onChange={e => setQtyBySize(prev => ({ ...prev, [s.sizeCode]: Math.max(0, Number(e.target.value) || 0) }))}
+                  className="mt-0.5 w-full h-9 px-2 rounded-lg border border-[var(--edk-border)] text-[13px] tabular-nums" />
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input type="text" value={otherSize} onChange={e => setOtherSize(e.target.value)} placeholder="Other size (e.g. EU30)"
+              className="flex-1 h-9 px-2 rounded-lg border border-[var(--edk-border)] text-[13px]" />
+            <input type="number" min={0} inputMode="numeric" value={otherQty || ''} aria-label="Other size qty"
+              onChange={e => setOtherQty(Math.max(0, Number(e.target.value) || 0))}
+              className="w-20 h-9 px-2 rounded-lg border border-[var(--edk-border)] text-[13px] tabular-nums" />
+          </div>
+        </div>
+      ) : (
+        <label className="block">
+          <span className="text-[11px] font-semibold text-[var(--edk-ink-2)]">Quantity</span>
+          <input type="number" min={1} inputMode="numeric" value={qty}
+            onChange={e => setQty(Math.max(0, Number(e.target.value) || 0))}
+            className="mt-0.5 w-24 h-9 px-2 rounded-lg border border-[var(--edk-border)] text-[13px] tabular-nums" />
+        </label>
+      )}
+
+      <Button type="button" variant="primary" size="sm" onClick={submit}>Add to receipt</Button>
+    </div>
+  );
+}
+
+// ── Main Page ─────────────────────────────────────────────────────────────
+
+export default function ReceivingPage() {
+  const { warehouses, currentWarehouseId } = useWarehouse();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const warehouseId = currentWarehouseId || '';
+  const warehouseName = warehouses.find(w => w.id === warehouseId)?.name ?? null;
+
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<POSProduct[]>([]);
+  const [picked, setPicked] = useState<POSProduct | null>(null);
+  const [lines, setLines] = useState<ReceiveDraftLine[]>([]);
+  const [supplierName, setSupplierName] = useState('');
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [lastGrn, setLastGrn] = useState<GoodsReceipt | null>(null);
+  const [recent, setRecent] = useState<GoodsReceipt[]>([]);
+
+  const loadRecent = useCallback(() => {
+    if (!isValidWarehouseId(warehouseId)) return;
+    fetchReceipts(warehouseId).then(setRecent).catch(() => setRecent([]));
+  }, [warehouseId]);
+
+  useEffect(() => { loadRecent(); }, [loadRecent]);
+
+  useEffect(() => {
+    if (!isValidWarehouseId(warehouseId) || query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchProducts(warehouseId, query.trim())
+        .then(list => { if (!cancelled) setResults(list); })
+        .catch(() => { if (!cancelled) setResults([]); });
+    }, 250);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [query, warehouseId]);
+
+  const pickProduct = useCallback((p: POSProduct) => {
+    setQuery('');
+    setResults([]);
+    if (p.sizeKind === 'sized') {
+      setPicked(p);
+    } else {
+      setLines(prev => addReceiveLine(prev, { productId: p.id, name: p.name, sku: p.sku, sizeCode: null, qty: 1 }));
+    }
+  }, []);
+
+  const handleScan = useCallback(async (code: string) => {
+    if (!isValidWarehouseId(warehouseId)) return;
+    try {
+      const list = await searchProducts(warehouseId, code);
+      const match = lookupProductByCode(buildBarcodeIndex(list), code);
+      if (match) pickProduct(match);
+      else showToast('error', `No product found for ${code}`);
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    }
+  }, [warehouseId, pickProduct, showToast]);
+
+  useBarcodeScanner(handleScan, { enabled: !saving });
+
+  async function submit() {
+    if (lines.length === 0 || !isValidWarehouseId(warehouseId)) return;
+    setSaving(true);
+    try {
+      const grn = await recordReceipt({
+        warehouseId,
+        lines: lines.map(l => ({ productId: l.productId, sizeCode: l.sizeCode, qty: l.qty })),
+        supplierName: supplierName.trim() || null,
+        reference: reference.trim() || null,
+        notes: notes.trim() || null,
+      });
+      setLastGrn(grn);
+      setLines([]);
+      setSupplierName('');
+      setReference('');
+      setNotes('');
+      setRecent(prev => [grn, ...prev]);
+      queryClient.invalidateQueries({ queryKey: queryKeys.products(warehouseId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboard(warehouseId) });
+      showToast('success', `${grn.grnNumber}: ${grn.totalUnits} unit${grn.totalUnits !== 1 ? 's' : ''} received.`);
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const printGrn = (grn: GoodsReceipt) => printHtml(buildGrnHtml(grn, warehouseName), 'GRN print');
+  const totalUnits = lines.reduce((n, l) => n + l.qty, 0);
+
+  return (
+    <div className="min-h-screen bg-[var(--edk-bg)] pb-20">
+      <div className="sticky top-0 z-30 bg-[var(--edk-surface)] border-b border-[var(--edk-border)] px-4 pt-4 pb-3">
+        <h1 className="text-[20px] font-extrabold text-[var(--edk-ink)] tracking-tight" style={{ fontFamily: "'Barlow Condensed', sans-serif" }}>Receiving</h1>
+        <p className="text-[12px] text-[var(--edk-ink-3)] mt-0.5">
+          {warehouseName ?? 'Select a warehouse'} · scan or search to add items
+        </p>
+      </div>
+
+      <div className="px-4 pt-4 space-y-4 max-w-3xl">
+        {lastGrn && (
+          <div className="rounded-[var(--edk-radius)] border border-[var(--edk-border)] bg-[var(--edk-surface)] p-4 flex items-center justify-between gap-3">
+            <div>
+              <p className="text-[14px] font-bold text-[var(--edk-ink)]">{lastGrn.grnNumber} saved</p>
+              <p className="text-[12px] text-[var(--edk-ink-3)]">{lastGrn.totalUnits} units · {lastGrn.lines.length} lines</p>
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" variant="primary" size="sm" onClick={() => printGrn(lastGrn)}>Print GRN</Button>
+              <Button type="button" variant="secondary" size="sm" onClick={() => setLastGrn(null)}>Dismiss</Button>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <input type="text" value={supplierName} onChange={e => setSupplierName(e.target.value)} placeholder="Supplier (optional)" className={inputClass} />
+          <input type="text" value={reference} onChange={e => setReference(e.target.value)} placeholder="Invoice / waybill no. (optional)" className={inputClass} />
+        </div>
+
+        <div>
+          <input type="search" value={query} onChange={e => setQuery(e.target.value)} placeholder="Search product, SKU or barcode…" className={inputClass} />
+          {results.length > 0 && (
+            <div className="mt-2 rounded-xl border border-[var(--edk-border)] bg-[var(--edk-surface)] divide-y divide-[var(--edk-border)]">
+              {results.map(p => (
+                <button key={p.id} type="button" onClick={() => pickProduct(p)}
+                  className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left hover:bg-[var(--edk-bg)]">
+                  <span className="text-[13px] font-semibold text-[var(--edk-ink)] truncate">{p.name}</span>
+                  <span className="text-[11px] text-[var(--edk-ink-3)]">{p.sku} · {p.quantity} in stock</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {picked && (
+          <SizeQtyEntry
+            key={picked.id}
+            product={picked}
+            onClose={() => setPicked(null)}
+            onAdd={entries => {
+              setLines(prev => entries.reduce(
+                (acc, e) => addReceiveLine(acc, { productId: picked.id, name: picked.name, sku: picked.sku, sizeCode: e.sizeCode, qty: e.qty }),
+                prev
+              ));
+              setPicked(null);
+            }}
+          />
+        )}
+
+        <div className="rounded-[var(--edk-radius)] border-[1.5px] border-[var(--edk-border)] bg-[var(--edk-surface)]">
+          {lines.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-10 text-[var(--edk-ink-3)]">
+              <PackagePlus size={24} />
+              <p className="text-[13px] font-medium">No items yet</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-[var(--edk-border)]">
+              {lines.map((l, i) => (
+                <div key={`${l.productId}:${l.sizeCode ?? ''}`} className="flex items-center justify-between gap-2 px-4 py-2.5">
+                  <span className="text-[13px] text-[var(--edk-ink)] truncate">{l.name}{l.sizeCode ? ` · ${l.sizeCode}` : ''}</span>
+                  <div className="flex items-center gap-2">
+                    <input type="number" min={1} value={l.qty} aria-label={`Qty ${l.name}`}
+                      onChange={e => {
+                        const qty = Math.max(1, Number(e.target.value) || 1);
+                        setLines(prev => prev.map((x, j) => (j === i ? { ...x, qty } : x)));
+                      }}
+                      className="w-16 h-8 px-2 rounded-lg border border-[var(--edk-border)] text-[13px] tabular-nums" />
+                    <button type="button" aria-label={`Remove ${l.name}`} onClick={() => setLines(prev => prev.filter((_, j) => j !== i))}
+                      className="text-[var(--edk-ink-3)] hover:text-[var(--edk-red)] px-1">✕</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <input type="text" value={notes} onChange={e => setNotes(e.target.value)} placeholder="Notes (damaged items, short delivery…)" className={inputClass} />
+
+        <Button type="button" variant="primary" className="w-full" disabled={saving || lines.length === 0 || !isValidWarehouseId(warehouseId)}
+          loading={saving} onClick={submit}>
+          Receive {totalUnits > 0 ? `${totalUnits} unit${totalUnits !== 1 ? 's' : ''}` : 'stock'}
+        </Button>
+
+        {recent.length > 0 && (
+          <div>
+            <h2 className="text-[13px] font-bold text-[var(--edk-ink-2)] mb-2">Recent receipts</h2>
+            <div className="space-y-2">
+              {recent.map(r => (
+                <div key={r.id} className="flex items-center justify-between gap-2 rounded-xl border border-[var(--edk-border)] bg-[var(--edk-surface)] px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-[13px] font-semibold text-[var(--edk-ink)]">{r.grnNumber}</p>
+                    <p className="text-[11px] text-[var(--edk-ink-3)] truncate">
+                      {fmtTime(r.createdAt)} · {r.totalUnits} units{r.supplierName ? ` · ${r.supplierName}` : ''}{r.reference ? ` · ${r.reference}` : ''}
+                    </p>
+                  </div>
+                  <Button type="button" variant="secondary" size="sm" onClick={() => printGrn(r)}>Print</Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useMemo, lazy, Suspense } from 'react';
-import { Download, FileText, Table } from 'lucide-react';
+import { Download, FileText, Percent, Table } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
 import { useInventory } from '../contexts/InventoryContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useWarehouse } from '../contexts/WarehouseContext';
@@ -8,8 +9,13 @@ import { DateRangePicker } from '../components/reports/DateRangePicker';
 import { SalesMetrics } from '../components/reports/SalesMetrics';
 import { TopProductsTable } from '../components/reports/TopProductsTable';
 import { InventoryMetrics } from '../components/reports/InventoryMetrics';
+import { TaxSummaryTable } from '../components/reports/TaxSummaryTable';
 import { generateSalesReport, generateInventoryReport, exportToCSV, mapApiReportToSalesReport, SalesReport, InventoryReport } from '../services/reportService';
 import { fetchSalesReport } from '../services/reportsApi';
+import { fetchTaxSummary } from '../services/taxApi';
+import { queryKeys } from '../lib/queryKeys';
+import { taxComponentLabel } from '../lib/tax';
+import { getUserFriendlyMessage } from '../lib/errorMessages';
 import { fetchTransactionsFromApi } from '../services/transactionsApi';
 import { Transaction } from '../types';
 import { formatCurrency, getCategoryDisplay } from '../lib/utils';
@@ -26,7 +32,7 @@ const SalesChart = lazy(() =>
   import('../components/reports/SalesChart').then((m) => ({ default: m.SalesChart }))
 );
 
-type ReportType = 'sales' | 'inventory';
+type ReportType = 'sales' | 'inventory' | 'tax';
 type TransactionsSource = 'server' | 'local';
 
 export function Reports() {
@@ -100,6 +106,18 @@ export function Reports() {
   /** Displayed sales report: prefer API (SQL from sales/sale_lines), else JS from transactions. */
   const displayedSalesReport = salesReportFromApi ?? salesReport;
 
+  /** Tax for filing from sale_lines / sale_return_lines (get_tax_summary); loaded only on the Tax tab. */
+  const { data: taxSummary, isLoading: taxLoading, error: taxError } = useQuery({
+    queryKey: queryKeys.taxSummary(currentWarehouseId, startDate, endDate),
+    queryFn: () =>
+      fetchTaxSummary({
+        warehouseId: currentWarehouseId,
+        from: new Date(`${startDate}T00:00:00`).toISOString(),
+        to: new Date(`${endDate}T23:59:59.999`).toISOString(),
+      }),
+    enabled: reportType === 'tax' && isValidWarehouseId(currentWarehouseId),
+  });
+
   const getProductQty = useCallback((p: { quantity?: number; quantityBySize?: Array<{ quantity?: number }>; sizeKind?: string }) => {
     if (p.sizeKind === 'sized' && (p.quantityBySize?.length ?? 0) > 0) {
       return (p.quantityBySize ?? []).reduce((s, r) => s + (r.quantity ?? 0), 0);
@@ -257,6 +275,24 @@ export function Reports() {
     exportToCSV(exportData, 'sales_report');
   };
 
+  const handleExportTax = () => {
+    if (!taxSummary) return;
+    exportToCSV(
+      [
+        ...taxSummary.byComponent.map((c) => ({ Section: 'Component', Name: taxComponentLabel(c), 'Taxable Value': '', Tax: c.amount, Refunded: '' })),
+        ...taxSummary.byClass.map((c) => ({
+          Section: 'Tax class',
+          Name: c.name ?? 'No class',
+          'Taxable Value': c.taxableAmount,
+          Tax: c.taxAmount,
+          Refunded: c.returnedTax,
+        })),
+        { Section: 'Total', Name: '', 'Taxable Value': taxSummary.totals.taxableAmount, Tax: taxSummary.totals.taxAmount, Refunded: '' },
+      ],
+      `tax_report_${startDate}_${endDate}`
+    );
+  };
+
   const handleExportInventory = () => {
     const exportData = products.map(p => ({
       'SKU': p.sku,
@@ -278,7 +314,7 @@ export function Reports() {
         <Button
           type="button"
           variant="primary"
-          onClick={reportType === 'sales' ? handleExportSales : handleExportInventory}
+          onClick={reportType === 'sales' ? handleExportSales : reportType === 'tax' ? handleExportTax : handleExportInventory}
           className="flex items-center gap-2"
         >
           <Download className="w-5 h-5" strokeWidth={2} />
@@ -306,6 +342,15 @@ export function Reports() {
           <Table className="w-5 h-5" strokeWidth={2} />
           Inventory Report
         </Button>
+        <Button
+          type="button"
+          variant={reportType === 'tax' ? 'primary' : 'secondary'}
+          onClick={() => setReportType('tax')}
+          className="flex items-center gap-2 px-6 py-3 rounded-xl font-semibold"
+        >
+          <Percent className="w-5 h-5" strokeWidth={2} />
+          Tax Report
+        </Button>
       </div>
 
       {/* Sales Report */}
@@ -381,6 +426,35 @@ export function Reports() {
                 <SalesChart report={displayedSalesReport} />
               </Suspense>
               <TopProductsTable report={displayedSalesReport} />
+              {(displayedSalesReport.promotions?.length ?? 0) > 0 && (
+                <div className="table-container rounded-[var(--edk-radius)] border border-[var(--edk-border)] bg-[var(--edk-surface)] overflow-hidden">
+                  <h3 className="text-lg font-semibold text-[var(--edk-ink)] mb-6 px-6 pt-6">Promotions</h3>
+                  <div className="table-scroll-wrap">
+                    <table className="w-full min-w-[320px]">
+                      <thead className="table-header bg-[var(--edk-surface-2)] border-b border-[var(--edk-border)]">
+                        <tr>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-[var(--edk-ink-3)] uppercase">Promotion</th>
+                          <th className="px-4 py-3 text-right text-xs font-medium text-[var(--edk-ink-3)] uppercase">Sales</th>
+                          <th className="px-4 py-3 text-right text-xs font-medium text-[var(--edk-ink-3)] uppercase">Units</th>
+                          <th className="px-4 py-3 text-right text-xs font-medium text-[var(--edk-ink-3)] uppercase">Revenue</th>
+                          <th className="px-4 py-3 text-right text-xs font-medium text-[var(--edk-ink-3)] uppercase">Discount given</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {displayedSalesReport.promotions!.map((p, idx) => (
+                          <tr key={idx} className="table-row border-b border-[var(--edk-border)]">
+                            <td className="px-4 py-3 font-medium text-[var(--edk-ink)]">{p.name}</td>
+                            <td className="px-4 py-3 text-right text-[var(--edk-ink-2)]">{p.sales}</td>
+                            <td className="px-4 py-3 text-right text-[var(--edk-ink-2)]">{p.units}</td>
+                            <td className="px-4 py-3 text-right text-[var(--edk-ink-2)]">{formatCurrency(p.revenue)}</td>
+                            <td className="px-4 py-3 text-right font-semibold text-[var(--edk-ink)]">{formatCurrency(p.discount)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
               <div className="table-container rounded-[var(--edk-radius)] border border-[var(--edk-border)] bg-[var(--edk-surface)] overflow-hidden">
                 <h3 className="text-lg font-semibold text-[var(--edk-ink)] mb-6 px-6 pt-6">Category Performance</h3>
             <div className="table-scroll-wrap">
@@ -438,6 +512,35 @@ export function Reports() {
         </div>
       )}
 
+      {/* Tax Report */}
+      {reportType === 'tax' && (
+        <div className="space-y-6">
+          <div className="rounded-[var(--edk-radius)] border border-[var(--edk-border)] bg-[var(--edk-surface)] p-4 animate-fade-in-up">
+            <h3 className="font-semibold text-[var(--edk-ink)] mb-3">Period</h3>
+            <DateRangePicker
+              startDate={startDate}
+              endDate={endDate}
+              onStartDateChange={setStartDate}
+              onEndDateChange={setEndDate}
+            />
+          </div>
+          {!isValidWarehouseId(currentWarehouseId) ? (
+            <p className="text-sm text-[var(--edk-ink-3)]">Select a warehouse to see its tax.</p>
+          ) : taxLoading ? (
+            <div className="flex items-center gap-3 text-sm text-[var(--edk-ink-3)]">
+              <LoadingSpinner size="sm" />
+              <span>Loading tax report…</span>
+            </div>
+          ) : taxError ? (
+            <div className="rounded-[var(--edk-radius)] border border-[var(--edk-amber)]/30 bg-[var(--edk-amber-bg)] px-4 py-2.5 text-sm text-[var(--edk-ink)]">
+              {getUserFriendlyMessage(taxError)}
+            </div>
+          ) : (
+            taxSummary && <TaxSummaryTable summary={taxSummary} />
+          )}
+        </div>
+      )}
+
       {/* Inventory Report */}
       {reportType === 'inventory' && inventoryReport && (
         <div className="space-y-6">
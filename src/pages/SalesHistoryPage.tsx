@@ -7,14 +7,19 @@
 //   - Payment method breakdown
 //   - Searchable transaction list with receipt detail
 //   - Per-sale line items expandable
+//   - Partial returns / size exchanges (ReturnSheet)
+//   - Layaways: balances due, instalments (LayawayPaymentSheet), release
 //   - CSV export
 // ============================================================
 
 import { useState, useEffect, useCallback } from 'react';
-import { useQueryClient } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Receipt } from 'lucide-react';
 import { apiGet, apiPost, apiPatch } from '../lib/apiClient';
 import { printReceipt } from '../lib/printReceipt';
+import type { ReceiptFiscal } from '../lib/receiptTemplate';
+import { taxComponentLabel } from '../lib/tax';
+import type { SaleTax } from '../services/taxApi';
 import { queryKeys } from '../lib/queryKeys';
 import { useAuth } from '../contexts/AuthContext';
 import { useWarehouse } from '../contexts/WarehouseContext';
@@ -25,6 +30,12 @@ import { EmptyState } from '../components/ui/EmptyState';
 import { Button } from '../components/ui/Button';
 import { Badge } from '../components/ui/Badge';
 import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import ReturnSheet from '../components/sales/ReturnSheet';
+import LayawayPaymentSheet from '../components/sales/LayawayPaymentSheet';
+import ManagerApprovalSheet from '../components/pos/ManagerApprovalSheet';
+import { returnableQty, type RecordReturnResponse } from '../services/returnsApi';
+import { fetchRoleLimits, isApprovalError } from '../services/managerApprovalApi';
+import { daysUntilRelease, releaseLayaway, type LayawayPaymentResult, type LayawayStatus } from '../services/layawayApi';
 
 interface SalesHistoryPageProps { apiBaseUrl?: string; }
 
@@ -39,6 +50,10 @@ interface SaleLine {
   unitPrice: number;
   qty: number;
   lineTotal: number;
+  /** Units already returned via /api/sales/returns. */
+  returnedQty?: number;
+  taxInclusive?: boolean | null;
+  taxAmount?: number;
 }
 
 interface Sale {
@@ -46,6 +61,7 @@ interface Sale {
   receiptId: string;
   warehouseId: string;
   customerName: string | null;
+  customerId?: string | null;
   paymentMethod: 'Cash' | 'MoMo' | 'Card';
   subtotal: number;
   discountPct: number;
@@ -56,10 +72,19 @@ interface Sale {
   createdAt: string;
   status?: string | null;
   voidedAt?: string | null;
+  /** 'partial' while a layaway has a balance due. */
+  paymentStatus?: 'paid' | 'partial';
+  amountPaid?: number;
+  balanceDue?: number;
+  layawayStatus?: LayawayStatus | null;
+  layawayExpiresAt?: string | null;
+  tax?: SaleTax | null;
+  fiscal?: ReceiptFiscal | null;
   lines: SaleLine[];
 }
 
-type DateFilter = 'today' | 'week' | 'month' | 'all';
+/** 'balances' = open layaways with a balance due, not a date range. */
+type DateFilter = 'today' | 'week' | 'month' | 'all' | 'balances';
 
 // ── Helpers ────────────────────────────────────────────────────────────────
 
@@ -94,6 +119,11 @@ function startOf(filter: DateFilter): string | null {
   return null;
 }
 
+/** Open layaways and released ones took no (or not all the) money for the goods: left out of revenue. */
+function countsAsRevenue(sale: Sale): boolean {
+  return sale.status !== 'layaway' && sale.status !== 'cancelled';
+}
+
 // ── Icons ──────────────────────────────────────────────────────────────────
 
 const IconReceipt = () => (
@@ -151,6 +181,8 @@ function paymentMethodDisplay(method: string): string {
   if (m === 'card') return 'Card';
   if (m === 'mobile_money' || m === 'momo') return 'MoMo';
   if (m === 'mixed') return 'Mixed';
+  if (m === 'points') return 'Points';
+  if (m === 'store_credit') return 'Credit';
   return method || '—';
 }
 
@@ -159,6 +191,8 @@ const PAY_COLORS: Record<string, string> = {
   MoMo: 'bg-amber-100  text-amber-800',
   Card: 'bg-blue-100   text-blue-800',
   Mixed: 'bg-violet-100 text-violet-800',
+  Points: 'bg-violet-100 text-violet-800',
+  Credit: 'bg-violet-100 text-violet-800',
 };
 
 function PayBadge({ method }: { method: string }) {
@@ -195,15 +229,32 @@ function SaleRow({
   onVoid,
   canVoid,
   voiding,
+  onReturn,
+  canReturn,
+  onTakePayment,
+  onRelease,
+  canRelease,
+  releasing,
 }: {
   sale: Sale;
   onPrint: (s: Sale) => void;
   onVoid?: (s: Sale) => void;
   canVoid: boolean;
   voiding: boolean;
+  onReturn?: (s: Sale) => void;
+  canReturn: boolean;
+  onTakePayment?: (s: Sale) => void;
+  onRelease?: (s: Sale) => void;
+  canRelease: boolean;
+  releasing: boolean;
 }) {
   const [expanded, setExpanded] = useState(false);
   const isVoided = sale.status === 'voided' || Boolean(sale.voidedAt);
+  const returnedUnits = sale.lines.reduce((n, l) => n + (l.returnedQty ?? 0), 0);
+  const hasReturnable = sale.lines.some(l => returnableQty(l) > 0);
+  const isOpenLayaway = !isVoided && sale.status === 'layaway' && sale.layawayStatus === 'open';
+  const isReleased = sale.layawayStatus === 'released';
+  const balanceDue = sale.balanceDue ?? 0;
 
   return (
     <div className="rounded-[var(--edk-radius)] overflow-hidden border border-[var(--edk-border)] bg-[var(--edk-surface)]">
@@ -221,6 +272,11 @@ function SaleRow({
               <span className="text-[13px] font-bold text-[var(--edk-ink)]">{sale.receiptId}</span>
               <PayBadge method={sale.paymentMethod} />
               {isVoided && <Badge variant="gray" size="sm">Voided</Badge>}
+              {isOpenLayaway && <Badge variant="warning" size="sm">Layaway</Badge>}
+              {!isVoided && isReleased && <Badge variant="gray" size="sm">Layaway released</Badge>}
+              {!isVoided && returnedUnits > 0 && (
+                <Badge variant="gray" size="sm">{hasReturnable ? 'Part returned' : 'Returned'}</Badge>
+              )}
             </div>
             <p className="text-[11px] text-[var(--edk-ink-3)] mt-0.5">
               {fmtDate(sale.createdAt)}
@@ -228,6 +284,7 @@ function SaleRow({
             </p>
             <p className="text-[11px] text-[var(--edk-ink-3)]">
               {sale.itemCount} item{sale.itemCount !== 1 ? 's' : ''}
+              {isOpenLayaway && <> · <span className="font-semibold text-amber-700">{fmt(balanceDue)} due</span></>}
             </p>
           </div>
         </div>
@@ -250,7 +307,10 @@ function SaleRow({
                     {l.name}
                     {l.sizeCode != null && l.sizeCode !== '' && <span className="text-[var(--edk-ink-3)] font-normal"> · {l.sizeCode}</span>}
                   </p>
-                  <p className="text-[11px] text-[var(--edk-ink-3)]">{l.qty} × {fmt(l.unitPrice)}</p>
+                  <p className="text-[11px] text-[var(--edk-ink-3)]">
+                    {l.qty} × {fmt(l.unitPrice)}
+                    {(l.returnedQty ?? 0) > 0 && <> · {l.returnedQty} returned</>}
+                  </p>
                 </div>
                 <span className="text-[13px] font-bold text-[var(--edk-ink)] tabular-nums flex-shrink-0">
                   {fmt(l.lineTotal)}
@@ -272,17 +332,59 @@ function SaleRow({
                 <span className="text-[var(--edk-green)] tabular-nums">−{fmt(sale.discountAmt)}</span>
               </div>
             )}
+            {(sale.tax?.added ?? 0) > 0 && (
+              <div className="flex justify-between text-[12px]">
+                <span className="text-[var(--edk-ink-2)]">Tax</span>
+                <span className="text-[var(--edk-ink-2)] tabular-nums">+{fmt(sale.tax?.added ?? 0)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-[13px] font-bold pt-1">
               <span className="text-[var(--edk-ink)]">Total</span>
               <span className="text-[var(--edk-ink)] tabular-nums">{fmt(sale.total)}</span>
             </div>
+            {sale.tax && sale.tax.breakdown.length > 0 && (
+              <p className="text-[11px] text-[var(--edk-ink-3)]">
+                {sale.tax.added > 0 ? 'Tax' : 'Incl. tax'}: {sale.tax.breakdown.map((b) => `${taxComponentLabel(b)} ${fmt(b.amount)}`).join(' · ')}
+              </p>
+            )}
+            {sale.layawayStatus != null && (
+              <>
+                <div className="flex justify-between text-[12px]">
+                  <span className="text-[var(--edk-ink-2)]">Paid</span>
+                  <span className="text-[var(--edk-ink-2)] tabular-nums">{fmt(sale.amountPaid ?? 0)}</span>
+                </div>
+                {isOpenLayaway && (
+                  <div className="flex justify-between text-[12px] font-semibold">
+                    <span className="text-amber-700">
+                      Balance due{sale.layawayExpiresAt ? ` · released in ${daysUntilRelease(sale.layawayExpiresAt)} day(s)` : ''}
+                    </span>
+                    <span className="text-amber-700 tabular-nums">{fmt(balanceDue)}</span>
+                  </div>
+                )}
+              </>
+            )}
           </div>
 
           <div className="px-4 pb-3 flex justify-end gap-2">
             <Button type="button" variant="secondary" size="sm" onClick={() => onPrint(sale)} leftIcon={<IconPrint />}>
               Print receipt
             </Button>
-            {canVoid && !isVoided && onVoid != null && (
+            {isOpenLayaway && onTakePayment != null && (
+              <Button type="button" variant="primary" size="sm" onClick={() => onTakePayment(sale)}>
+                Take payment
+              </Button>
+            )}
+            {isOpenLayaway && canRelease && onRelease != null && (
+              <Button type="button" variant="secondary" size="sm" onClick={() => onRelease(sale)} disabled={releasing} loading={releasing}>
+                Release
+              </Button>
+            )}
+            {canReturn && !isVoided && countsAsRevenue(sale) && hasReturnable && onReturn != null && (
+              <Button type="button" variant="secondary" size="sm" onClick={() => onReturn(sale)}>
+                Return / exchange
+              </Button>
+            )}
+            {canVoid && !isVoided && !isReleased && onVoid != null && (
               <Button
                 type="button"
                 variant="danger"
@@ -312,8 +414,16 @@ export default function SalesHistoryPage({ apiBaseUrl = '' }: SalesHistoryPagePr
   const { hasPermission, hasRole } = useAuth();
   const { warehouses: contextWarehouses, currentWarehouseId } = useWarehouse();
   const { showToast } = useToast();
-  const canVoid = hasPermission(PERMISSIONS.POS.VOID_TRANSACTION);
+  // Roles whose limits require a manager's approval can still start a void / return; a manager enters their PIN.
+  const { data: roleLimits } = useQuery({
+    queryKey: queryKeys.roleLimits(),
+    queryFn: async () => (await fetchRoleLimits()).mine,
+    staleTime: 10 * 60_000,
+  });
+  const canVoid = hasPermission(PERMISSIONS.POS.VOID_TRANSACTION) || roleLimits?.requireApprovalVoid === true;
+  const canReturn = hasPermission(PERMISSIONS.POS.PROCESS_REFUND) || roleLimits?.requireApprovalRefund === true;
   const canClearHistory = hasRole(['admin', 'super_admin']);
+  const canReleaseLayaway = hasRole(['admin', 'super_admin', 'manager']);
 
   const warehouses = contextWarehouses.length > 0 ? contextWarehouses : FALLBACK_WAREHOUSES;
   const [sales, setSales]           = useState<Sale[]>([]);
@@ -324,6 +434,10 @@ export default function SalesHistoryPage({ apiBaseUrl = '' }: SalesHistoryPagePr
   const [search, setSearch]         = useState('');
   const [whDropdown, setWhDropdown] = useState(false);
   const [voidingId, setVoidingId]    = useState<string | null>(null);
+  const [returnSale, setReturnSale]  = useState<Sale | null>(null);
+  const [layawaySale, setLayawaySale] = useState<Sale | null>(null);
+  const [releasingId, setReleasingId] = useState<string | null>(null);
+  const [voidApproval, setVoidApproval] = useState<{ sale: Sale; reason: string } | null>(null);
   const [clearHistoryLoading, setClearHistoryLoading] = useState(false);
 
   // ── Fetch ─────────────────────────────────────────────────────────────────
@@ -341,6 +455,7 @@ export default function SalesHistoryPage({ apiBaseUrl = '' }: SalesHistoryPagePr
       const from = startOf(dateFilter);
       const params = new URLSearchParams({ warehouse_id: warehouseId, limit: '500' });
       if (from) params.set('from', from);
+      if (dateFilter === 'balances') params.set('layaway', 'open');
 
       const data = await apiGet<{ data?: Sale[] } | Sale[]>(
         apiBaseUrl,
@@ -387,27 +502,36 @@ export default function SalesHistoryPage({ apiBaseUrl = '' }: SalesHistoryPagePr
 
   // ── Derived stats ─────────────────────────────────────────────────────────
 
-  const totalRevenue    = displayed.reduce((s, x) => s + x.total, 0);
-  const totalItems      = displayed.reduce((s, x) => s + x.itemCount, 0);
+  const counted         = displayed.filter(countsAsRevenue);
+  const totalRevenue    = counted.reduce((s, x) => s + x.total, 0);
+  const totalItems      = counted.reduce((s, x) => s + x.itemCount, 0);
   const pm = (s: Sale) => (s.paymentMethod ?? '').trim().toLowerCase();
-  const cashTotal       = displayed.filter(s => pm(s) === 'cash').reduce((s, x) => s + x.total, 0);
-  const momoTotal       = displayed.filter(s => pm(s) === 'mobile_money' || pm(s) === 'momo').reduce((s, x) => s + x.total, 0);
-  const cardTotal       = displayed.filter(s => pm(s) === 'card').reduce((s, x) => s + x.total, 0);
-  const avgSale         = displayed.length > 0 ? totalRevenue / displayed.length : 0;
+  const cashTotal       = counted.filter(s => pm(s) === 'cash').reduce((s, x) => s + x.total, 0);
+  const momoTotal       = counted.filter(s => pm(s) === 'mobile_money' || pm(s) === 'momo').reduce((s, x) => s + x.total, 0);
+  const cardTotal       = counted.filter(s => pm(s) === 'card').reduce((s, x) => s + x.total, 0);
+  const avgSale         = counted.length > 0 ? totalRevenue / counted.length : 0;
+  const openLayaways    = displayed.filter(s => s.status === 'layaway' && s.layawayStatus === 'open');
+  const balancesDue     = openLayaways.reduce((s, x) => s + (x.balanceDue ?? 0), 0);
+  const depositsHeld    = openLayaways.reduce((s, x) => s + (x.amountPaid ?? 0), 0);
   const currentWh       = warehouses.find(w => w.id === warehouseId) ?? warehouses[0];
 
   // ── Print ─────────────────────────────────────────────────────────────────
 
-  async function handleVoid(sale: Sale) {
+  async function handleVoid(sale: Sale, managerApproval?: string) {
     if (!apiBaseUrl || !canVoid) return;
-    if (!window.confirm('Void this sale? Stock will be restored to inventory and the sale will be marked void. This cannot be undone.')) {
+    if (!managerApproval && !window.confirm('Void this sale? Stock will be restored to inventory and the sale will be marked void. This cannot be undone.')) {
       return;
     }
     setVoidingId(sale.id);
     setError(null);
     try {
       const base = apiBaseUrl.replace(/\/$/, '');
-      await apiPatch<unknown>(base, '/api/sales', { saleId: sale.id, warehouseId: sale.warehouseId, action: 'void' });
+      await apiPatch<unknown>(base, '/api/sales', {
+        saleId: sale.id,
+        warehouseId: sale.warehouseId,
+        action: 'void',
+        managerApproval: managerApproval ?? null,
+      });
       setSales(prev =>
         prev.map(s => (s.id === sale.id ? { ...s, status: 'voided', voidedAt: new Date().toISOString() } : s))
       );
@@ -418,6 +542,10 @@ export default function SalesHistoryPage({ apiBaseUrl = '' }: SalesHistoryPagePr
       showToast('success', 'Sale voided. Stock restored to inventory.');
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : 'Void failed. Check your connection and try again.';
+      if (isApprovalError(e)) {
+        setVoidApproval({ sale, reason: msg });
+        return;
+      }
       setError(msg);
       showToast('error', msg);
     } finally {
@@ -425,6 +553,61 @@ export default function SalesHistoryPage({ apiBaseUrl = '' }: SalesHistoryPagePr
     }
   }
 
+  function handleReturnDone(result: RecordReturnResponse) {
+    const sale = returnSale;
+    setReturnSale(null);
+    if (sale && isValidWarehouseId(sale.warehouseId)) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.products(sale.warehouseId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboard(sale.warehouseId) });
+    }
+    if (result.type === 'exchange') {
+      const due = result.netAmount;
+      showToast(
+        'success',
+        due > 0
+          ? `Exchange done (${result.exchangeSale?.receiptId ?? 'new sale'}). Collect ${fmt(due)}.`
+          : `Exchange done (${result.exchangeSale?.receiptId ?? 'new sale'}). Refund ${fmt(-due)}.`
+      );
+    } else {
+      showToast('success', `Return recorded. Refund ${fmt(result.refundAmount)}. Stock restored.`);
+    }
+    fetchSales();
+  }
+
+  function handleLayawayPaid(result: LayawayPaymentResult) {
+    const sale = layawaySale;
+    setLayawaySale(null);
+    if (result.paidOff) {
+      if (sale && isValidWarehouseId(sale.warehouseId)) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.products(sale.warehouseId) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.dashboard(sale.warehouseId) });
+      }
+      showToast('success', 'Layaway paid off. Hand over the items.');
+    } else {
+      showToast('success', `Payment taken. Balance due ${fmt(result.balanceDue)}.`);
+    }
+    fetchSales();
+  }
+
+  async function handleReleaseLayaway(sale: Sale) {
+    if (!canReleaseLayaway) return;
+    if (!window.confirm('Release this layaway? The items go back on sale. Deposits are not refunded automatically.')) return;
+    setReleasingId(sale.id);
+    try {
+      await releaseLayaway(sale.id);
+      if (isValidWarehouseId(sale.warehouseId)) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.products(sale.warehouseId) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.dashboard(sale.warehouseId) });
+      }
+      showToast('success', 'Layaway released. Items are back on sale.');
+      fetchSales();
+    } catch (e: unknown) {
+      showToast('error', e instanceof Error ? e.message : 'Release failed.');
+    } finally {
+      setReleasingId(null);
+    }
+  }
+
   function handlePrint(sale: Sale) {
     printReceipt({
       warehouseId: sale.warehouseId,
@@ -445,6 +628,8 @@ export default function SalesHistoryPage({ apiBaseUrl = '' }: SalesHistoryPagePr
         qty: l.qty,
       })),
       receiptId: sale.receiptId,
+      tax: sale.tax ?? null,
+      fiscal: sale.fiscal ?? null,
     });
   }
 
@@ -506,6 +691,7 @@ export default function SalesHistoryPage({ apiBaseUrl = '' }: SalesHistoryPagePr
     { key: 'week',  label: 'This week' },
     { key: 'month', label: 'This month' },
     { key: 'all',   label: 'All time' },
+    { key: 'balances', label: 'Balances due' },
   ];
 
   return (
@@ -571,14 +757,21 @@ export default function SalesHistoryPage({ apiBaseUrl = '' }: SalesHistoryPagePr
       <div className="px-4 py-4 space-y-4">
 
         {/* ── Summary cards ── */}
-        <div className="grid grid-cols-2 gap-3">
-          <SummaryCard label="Revenue" value={fmt(totalRevenue)} sub={`${displayed.length} transactions`} accent="text-[var(--edk-red)]" />
-          <SummaryCard label="Items sold" value={totalItems.toLocaleString()} sub={`Avg ${fmt(avgSale)}/sale`} />
-          <SummaryCard label="Cash" value={fmt(cashTotal)} />
-          <SummaryCard label="MoMo" value={fmt(momoTotal)} />
-        </div>
+        {dateFilter === 'balances' ? (
+          <div className="grid grid-cols-2 gap-3">
+            <SummaryCard label="Balances due" value={fmt(balancesDue)} sub={`${openLayaways.length} open layaway${openLayaways.length !== 1 ? 's' : ''}`} accent="text-[var(--edk-red)]" />
+            <SummaryCard label="Deposits held" value={fmt(depositsHeld)} />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            <SummaryCard label="Revenue" value={fmt(totalRevenue)} sub={`${counted.length} transactions`} accent="text-[var(--edk-red)]" />
+            <SummaryCard label="Items sold" value={totalItems.toLocaleString()} sub={`Avg ${fmt(avgSale)}/sale`} />
+            <SummaryCard label="Cash" value={fmt(cashTotal)} />
+            <SummaryCard label="MoMo" value={fmt(momoTotal)} />
+          </div>
+        )}
 
-        {cardTotal > 0 && (
+        {dateFilter !== 'balances' && cardTotal > 0 && (
           <SummaryCard label="Card" value={fmt(cardTotal)} />
         )}
 
@@ -623,8 +816,8 @@ export default function SalesHistoryPage({ apiBaseUrl = '' }: SalesHistoryPagePr
         {!loading && !error && displayed.length === 0 && (
           <EmptyState
             icon={Receipt}
-            title={dateFilter === 'today' ? 'No sales today' : 'No sales found'}
-            description="Complete a checkout to see sales here."
+            title={dateFilter === 'balances' ? 'No balances due' : dateFilter === 'today' ? 'No sales today' : 'No sales found'}
+            description={dateFilter === 'balances' ? 'Open layaways show here until they are paid off.' : 'Complete a checkout to see sales here.'}
           />
         )}
 
@@ -639,11 +832,44 @@ export default function SalesHistoryPage({ apiBaseUrl = '' }: SalesHistoryPagePr
                 onVoid={handleVoid}
                 canVoid={canVoid}
                 voiding={voidingId === sale.id}
+                onReturn={setReturnSale}
+                canReturn={canReturn}
+                onTakePayment={setLayawaySale}
+                onRelease={handleReleaseLayaway}
+                canRelease={canReleaseLayaway}
+                releasing={releasingId === sale.id}
               />
             ))}
           </div>
         )}
       </div>
+
+      <ReturnSheet
+        sale={returnSale}
+        apiBaseUrl={apiBaseUrl}
+        onClose={() => setReturnSale(null)}
+        onDone={handleReturnDone}
+      />
+
+      <LayawayPaymentSheet
+        sale={layawaySale ? { ...layawaySale, balanceDue: layawaySale.balanceDue ?? 0 } : null}
+        onClose={() => setLayawaySale(null)}
+        onDone={handleLayawayPaid}
+      />
+
+      <ManagerApprovalSheet
+        open={voidApproval != null}
+        action="void"
+        saleId={voidApproval?.sale.id}
+        warehouseId={voidApproval?.sale.warehouseId}
+        reason={voidApproval?.reason}
+        onCancel={() => setVoidApproval(null)}
+        onApproved={(a) => {
+          const sale = voidApproval?.sale;
+          setVoidApproval(null);
+          if (sale) void handleVoid(sale, a.token);
+        }}
+      />
     </div>
   );
 }
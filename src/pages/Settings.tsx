@@ -1,19 +1,21 @@
 import { useState, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { Building2, Settings as SettingsIcon, Users, Tag, RotateCcw, Database, Shield } from 'lucide-react';
+import { Building2, Settings as SettingsIcon, Users, Tag, RotateCcw, Database, Shield, KeyRound, Percent } from 'lucide-react';
 import { BusinessProfile } from '../components/settings/BusinessProfile';
 import { SystemPreferences } from '../components/settings/SystemPreferences';
 import { UserManagement } from '../components/settings/UserManagement';
 import { CategoryManagement } from '../components/settings/CategoryManagement';
 import { LocalStorageCacheView } from '../components/settings/LocalStorageCacheView';
 import { AdminDashboard } from '../components/settings/AdminDashboard';
+import { ApprovalSettings } from '../components/settings/ApprovalSettings';
+import { TaxSettings } from '../components/settings/TaxSettings';
 import { useSettings } from '../contexts/SettingsContext';
 import { useToast } from '../contexts/ToastContext';
 import { Button } from '../components/ui/Button';
 
-type SettingsTab = 'business' | 'system' | 'users' | 'categories' | 'cache' | 'admin';
+type SettingsTab = 'business' | 'system' | 'users' | 'categories' | 'tax' | 'approvals' | 'cache' | 'admin';
 
-const TAB_IDS: SettingsTab[] = ['business', 'system', 'users', 'categories', 'cache', 'admin'];
+const TAB_IDS: SettingsTab[] = ['business', 'system', 'users', 'categories', 'tax', 'approvals', 'cache', 'admin'];
 
 export function Settings() {
   const [searchParams, setSearchParams] = useSearchParams();
@@ -42,6 +44,8 @@ export function Settings() {
     { id: 'system' as SettingsTab, label: 'System', icon: SettingsIcon },
     { id: 'users' as SettingsTab, label: 'Users', icon: Users },
     { id: 'categories' as SettingsTab, label: 'Categories', icon: Tag },
+    { id: 'tax' as SettingsTab, label: 'Tax', icon: Percent },
+    { id: 'approvals' as SettingsTab, label: 'Approvals', icon: KeyRound },
     { id: 'cache' as SettingsTab, label: 'Data & cache', icon: Database },
     { id: 'admin' as SettingsTab, label: 'Admin & logs', icon: Shield },
   ];
@@ -94,6 +98,8 @@ export function Settings() {
           {activeTab === 'system' && <SystemPreferences />}
           {activeTab === 'users' && <UserManagement />}
           {activeTab === 'categories' && <CategoryManagement />}
+          {activeTab === 'tax' && <TaxSettings />}
+          {activeTab === 'approvals' && <ApprovalSettings />}
           {activeTab === 'cache' && <LocalStorageCacheView />}
           {activeTab === 'admin' && <AdminDashboard />}
         </div>
@@ -0,0 +1,202 @@
+// ============================================================
+// StockReconciliationPage.tsx
+// File: warehouse-pos/src/pages/StockReconciliationPage.tsx
+//
+// Admin report of stock that does not add up, per product / size:
+//   - Total ≠ sizes: warehouse_inventory is not the sum of its size rows
+//   - Stock ≠ ledger: the stock row is not what its stock ledger replays to
+// Each row lists likely causes; repair posts a correction adjustment
+// (or, for ledger drift, keeps on-hand and records the missed change).
+// Every repair is audited server-side.
+// ============================================================
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Scale } from 'lucide-react';
+import { queryKeys } from '../lib/queryKeys';
+import { useWarehouse } from '../contexts/WarehouseContext';
+import { useToast } from '../contexts/ToastContext';
+import { getUserFriendlyMessage } from '../lib/errorMessages';
+import { EmptyState } from '../components/ui/EmptyState';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { stockReferenceLabel } from '../services/stockLedgerApi';
+import {
+  DISCREPANCY_KIND_LABEL,
+  fetchStockDiscrepancies,
+  repairOptions,
+  repairStockDiscrepancy,
+  type DiscrepancyKind,
+  type RepairAction,
+  type StockDiscrepancy,
+} from '../services/stockReconciliationApi';
+
+/** '' = every warehouse. */
+const ALL_WAREHOUSES = '';
+
+const inputClass =
+  'h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px]';
+
+function rowKey(d: StockDiscrepancy) {
+  return `${d.warehouseId}:${d.productId}:${d.sizeCode ?? ''}:${d.kind}`;
+}
+
+function fmtTime(iso: string) {
+  return new Date(iso).toLocaleString('en-GH', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+function DiscrepancyCard({
+  row, warehouseName, busy, onRepair,
+}: {
+  row: StockDiscrepancy;
+  warehouseName: string | null;
+  busy: boolean;
+  onRepair: (row: StockDiscrepancy, action: RepairAction) => void;
+}) {
+  const diff = row.difference;
+  return (
+    <div className="rounded-[var(--edk-radius)] border-[1.5px] border-[var(--edk-border)] bg-[var(--edk-surface)] p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-[14px] font-bold text-[var(--edk-ink)] truncate">
+            {row.productName ?? row.productId}
+            {row.sizeCode && <span className="text-[var(--edk-ink-3)] font-semibold"> · {row.sizeCode}</span>}
+          </p>
+          <p className="text-[11px] text-[var(--edk-ink-3)] truncate">
+            {row.sku ?? '—'}{warehouseName ? ` · ${warehouseName}` : ''}
+          </p>
+        </div>
+        <Badge variant={row.kind === 'total_vs_sizes' ? 'warning' : 'blue'} size="sm">
+          {DISCREPANCY_KIND_LABEL[row.kind]}
+        </Badge>
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-[13px] tabular-nums">
+        <span className="text-[var(--edk-ink-2)]">On hand <strong className="text-[var(--edk-ink)]">{row.onHand}</strong></span>
+        <span className="text-[var(--edk-ink-2)]">
+          {row.kind === 'total_vs_sizes' ? 'Sum of sizes' : 'Ledger'} <strong className="text-[var(--edk-ink)]">{row.expected}</strong>
+        </span>
+        <span className={`font-semibold ${diff > 0 ? 'text-[var(--edk-green)]' : 'text-[var(--edk-red)]'}`}>
+          {diff > 0 ? `+${diff}` : diff}
+        </span>
+      </div>
+
+      {row.causes.length > 0 && (
+        <ul className="list-disc pl-5 space-y-0.5 text-[12px] text-[var(--edk-ink-2)]">
+          {row.causes.map(c => <li key={c}>{c}</li>)}
+        </ul>
+      )}
+      {row.lastReferenceType && row.lastEntryAt && (
+        <p className="text-[11px] text-[var(--edk-ink-3)]">
+          Last ledger entry: {stockReferenceLabel(row.lastReferenceType)} · {fmtTime(row.lastEntryAt)}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {repairOptions(row).map(o => (
+          <Button key={o.action} type="button" size="sm" variant={o.action === 'restore' ? 'primary' : 'secondary'}
+            disabled={busy} loading={busy} onClick={() => onRepair(row, o.action)}>
+            {o.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function StockReconciliationPage() {
+  const { warehouses, currentWarehouseId } = useWarehouse();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [warehouseId, setWarehouseId] = useState<string>(currentWarehouseId || ALL_WAREHOUSES);
+  const [kind, setKind] = useState<DiscrepancyKind | 'all'>('all');
+  const [rows, setRows] = useState<StockDiscrepancy[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const warehouseNames = useMemo(() => new Map(warehouses.map(w => [w.id, w.name])), [warehouses]);
+  const visible = useMemo(() => (kind === 'all' ? rows : rows.filter(r => r.kind === kind)), [rows, kind]);
+
+  const load = useCallback(() => {
+    setLoading(true);
+    fetchStockDiscrepancies(warehouseId || undefined)
+      .then(setRows)
+      .catch((e: unknown) => showToast('error', getUserFriendlyMessage(e)))
+      .finally(() => setLoading(false));
+  }, [warehouseId, showToast]);
+
+  useEffect(() => { load(); }, [load]);
+
+  async function repair(row: StockDiscrepancy, action: RepairAction) {
+    const label = `${row.productName ?? 'this product'}${row.sizeCode ? ` (${row.sizeCode})` : ''}`;
+    const question = action === 'restore'
+      ? `Post a correction adjustment setting ${label} from ${row.onHand} to ${row.expected}?`
+      : `Keep ${row.onHand} on hand for ${label} and record the missed change in the ledger?`;
+    const note = window.prompt(`${question}\n\nNote (optional):`, '');
+    if (note === null) return;
+
+    const key = rowKey(row);
+    setBusyKey(key);
+    try {
+      const result = await repairStockDiscrepancy(row, action, note);
+      showToast('success', result.adjustmentNumber ? `Repaired — ${result.adjustmentNumber}.` : 'Ledger updated.');
+      if (result.action === 'restore') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.products(row.warehouseId) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.dashboard(row.warehouseId) });
+      }
+      load();
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+      load();
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--edk-bg)] pb-20">
+      <div className="sticky top-0 z-30 bg-[var(--edk-surface)] border-b border-[var(--edk-border)] px-4 pt-4 pb-3">
+        <h1 className="text-[20px] font-extrabold text-[var(--edk-ink)] tracking-tight" style={{ fontFamily: "'Barlow Condensed', sans-serif" }}>Stock reconciliation</h1>
+        <p className="text-[12px] text-[var(--edk-ink-3)] mt-0.5">
+          Totals that differ from their sizes, and stock that differs from the ledger
+        </p>
+      </div>
+
+      <div className="px-4 pt-4 space-y-4 max-w-4xl">
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={warehouseId} onChange={e => setWarehouseId(e.target.value)} className={inputClass} aria-label="Warehouse">
+            <option value={ALL_WAREHOUSES}>All warehouses</option>
+            {warehouses.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+          </select>
+          {(['all', 'total_vs_sizes', 'ledger'] as const).map(k => (
+            <button key={k} type="button" onClick={() => setKind(k)}
+              className={`h-8 px-3 rounded-full text-[12px] font-semibold border ${kind === k ? 'bg-[var(--edk-ink)] text-white border-[var(--edk-ink)]' : 'border-[var(--edk-border)] text-[var(--edk-ink-2)]'}`}>
+              {k === 'all' ? `All (${rows.length})` : DISCREPANCY_KIND_LABEL[k]}
+            </button>
+          ))}
+          <Button type="button" variant="secondary" size="sm" disabled={loading} onClick={load}>Refresh</Button>
+        </div>
+
+        {loading && rows.length === 0 ? (
+          <div className="flex justify-center py-10"><LoadingSpinner /></div>
+        ) : visible.length === 0 ? (
+          <EmptyState icon={Scale} title="Everything adds up" description="Every total matches its sizes and every stock row matches its ledger." />
+        ) : (
+          <div className="space-y-3">
+            {visible.map(row => (
+              <DiscrepancyCard
+                key={rowKey(row)}
+                row={row}
+                warehouseName={warehouseId ? null : warehouseNames.get(row.warehouseId) ?? null}
+                busy={busyKey === rowKey(row)}
+                onRepair={repair}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,557 @@
+// ============================================================
+// StockTakePage.tsx
+// File: warehouse-pos/src/pages/StockTakePage.tsx
+//
+// Stock take / cycle count sessions for the selected warehouse.
+//   - Start a session (whole warehouse or one category) → expected qty is frozen
+//   - Count: scan adds 1 (several staff can count at once), or set per size by hand
+//   - Review: variances with value impact, approve / reject per line
+//   - Apply (manager) → approved variances posted as 'adjustment' stock movements
+// ============================================================
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { ScanLine } from 'lucide-react';
+import { API_BASE_URL } from '../lib/api';
+import { apiGet } from '../lib/apiClient';
+import { queryKeys } from '../lib/queryKeys';
+import { buildBarcodeIndex, lookupProductByCode } from '../lib/barcodeLookup';
+import { getCategoryDisplay } from '../lib/utils';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import { useAuth } from '../contexts/AuthContext';
+import { useInventory } from '../contexts/InventoryContext';
+import { useWarehouse } from '../contexts/WarehouseContext';
+import { useToast } from '../contexts/ToastContext';
+import { isValidWarehouseId } from '../lib/warehouseId';
+import { getUserFriendlyMessage } from '../lib/errorMessages';
+import { PERMISSIONS } from '../types/permissions';
+import { EmptyState } from '../components/ui/EmptyState';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import type { POSProduct } from '../components/pos/SizePickerSheet';
+import {
+  COUNT_STATUS_LABEL,
+  applyStockCount,
+  fetchStockCount,
+  fetchStockCounts,
+  lineVariance,
+  recordStockCountEntries,
+  startStockCount,
+  updateStockCount,
+  varianceSummary,
+  type StockCount,
+  type StockCountEntry,
+  type StockCountLine,
+  type StockCountStatus,
+} from '../services/stockCountApi';
+
+type LineFilter = 'all' | 'variances' | 'uncounted';
+
+/** Rendering thousands of rows on a phone is slow; the filters and search narrow it down. */
+const MAX_ROWS = 200;
+
+const inputClass =
+  'w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px]';
+
+function fmtTime(iso: string) {
+  return new Date(iso).toLocaleString('en-GH', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+function fmtMoney(n: number) {
+  const abs = Math.abs(n).toLocaleString('en-GH', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${n < 0 ? '−' : ''}GH₵${abs}`;
+}
+
+async function searchProducts(warehouseId: string, q: string): Promise<POSProduct[]> {
+  const params = new URLSearchParams({ warehouse_id: warehouseId, q, limit: '10' });
+  const res = await apiGet<POSProduct[] | { data?: POSProduct[] }>(API_BASE_URL, `/api/products?${params.toString()}`);
+  return Array.isArray(res) ? res : res?.data ?? [];
+}
+
+function StatusBadge({ status }: { status: StockCountStatus }) {
+  const variantMap: Record<StockCountStatus, 'warning' | 'blue' | 'success' | 'gray'> = {
+    counting: 'blue',
+    review: 'warning',
+    applied: 'success',
+    cancelled: 'gray',
+  };
+  return <Badge variant={variantMap[status]} size="sm">{COUNT_STATUS_LABEL[status]}</Badge>;
+}
+
+function VarianceCell({ line }: { line: StockCountLine }) {
+  const v = lineVariance(line);
+  if (v == null) return <span className="text-[var(--edk-ink-3)]">—</span>;
+  const tone = v === 0 ? 'text-[var(--edk-ink-3)]' : v > 0 ? 'text-[var(--edk-green)]' : 'text-[var(--edk-red)]';
+  return <span className={`font-semibold ${tone}`}>{v > 0 ? `+${v}` : v}</span>;
+}
+
+// ── Count entry for one product ───────────────────────────────────────────
+
+function CountEntry({
+  product, lines, busy, onRecord, onClose,
+}: {
+  product: { id: string; name: string; sku: string | null; sized: boolean };
+  lines: StockCountLine[];
+  busy: boolean;
+  onRecord: (entries: StockCountEntry[]) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [setQty, setSetQty] = useState<Record<string, string>>({});
+  const [otherSize, setOtherSize] = useState('');
+  const [otherQty, setOtherQty] = useState('');
+
+  async function save() {
+    const entries: StockCountEntry[] = Object.entries(setQty)
+      .filter(([, v]) => v.trim() !== '' && Number(v) >= 0)
+      .map(([key, v]) => ({ productId: product.id, sizeCode: key || null, qty: Math.floor(Number(v)), mode: 'set' }));
+    if (product.sized && otherSize.trim() && otherQty.trim() !== '') {
+      entries.push({ productId: product.id, sizeCode: otherSize.trim().toUpperCase(), qty: Math.floor(Number(otherQty) || 0), mode: 'set' });
+    }
+    if (entries.length === 0) return;
+    await onRecord(entries);
+    setSetQty({});
+    setOtherSize('');
+    setOtherQty('');
+  }
+
+  return (
+    <div className="rounded-[var(--edk-radius)] border-[1.5px] border-[var(--edk-border)] bg-[var(--edk-surface)] p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-[14px] font-bold text-[var(--edk-ink)]">{product.name}</p>
+          <p className="text-[11px] text-[var(--edk-ink-3)]">{product.sku}</p>
+        </div>
+        <button type="button" onClick={onClose} className="p-1 text-[var(--edk-ink-3)] hover:text-[var(--edk-ink)]" aria-label="Close">✕</button>
+      </div>
+
+      <div className="divide-y divide-[var(--edk-border)]">
+        {(lines.length > 0 ? lines : product.sized ? [] : [null]).map(line => {
+          const key = line?.sizeCode ?? '';
+          return (
+            <div key={line?.id ?? 'new'} className="flex items-center justify-between gap-2 py-2">
+              <span className="text-[13px] text-[var(--edk-ink)] min-w-[3rem]">{line?.sizeCode ?? (product.sized ? '—' : 'Qty')}</span>
+              <span className="text-[12px] text-[var(--edk-ink-3)] tabular-nums">counted {line?.countedQty ?? 0}</span>
+              <div className="flex items-center gap-2">
+                <Button type="button" variant="secondary" size="sm" disabled={busy}
+                  onClick={() => onRecord([{ productId: product.id, sizeCode: line?.sizeCode ?? null, qty: 1, mode: 'add' }])}>
+                  +1
+                </Button>
+                <input type="number" min={0} inputMode="numeric" placeholder="Set" value={setQty[key] ?? ''}
+                  aria-label={`Set count ${line?.sizeCode ?? product.name}`}
+                  onChange={e => setSetQty(prev => ({ ...prev, [key]: e.target.value }))}
+                  className="w-20 h-9 px-2 rounded-lg border border-[var(--edk-border)] text-[13px] tabular-nums" />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {product.sized && (
+        <div className="flex gap-2">
+          <input type="text" value={otherSize} onChange={e => setOtherSize(e.target.value)} placeholder="Size not listed (e.g. EU30)"
+            className="flex-1 h-9 px-2 rounded-lg border border-[var(--edk-border)] text-[13px]" />
+          <input type="number" min={0} inputMode="numeric" value={otherQty} aria-label="Counted qty for unlisted size"
+            onChange={e => setOtherQty(e.target.value)}
+            className="w-20 h-9 px-2 rounded-lg border border-[var(--edk-border)] text-[13px] tabular-nums" />
+        </div>
+      )}
+
+      <Button type="button" variant="primary" size="sm" disabled={busy} onClick={save}>Save counts</Button>
+    </div>
+  );
+}
+
+// ── Session view ──────────────────────────────────────────────────────────
+
+function SessionView({
+  count, canApprove, canSeeCost, onChange, onBack,
+}: {
+  count: StockCount;
+  canApprove: boolean;
+  canSeeCost: boolean;
+  onChange: (count: StockCount) => void;
+  onBack: () => void;
+}) {
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const [busy, setBusy] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<POSProduct[]>([]);
+  const [picked, setPicked] = useState<{ id: string; name: string; sku: string | null; sized: boolean } | null>(null);
+  const [filter, setFilter] = useState<LineFilter>(count.status === 'counting' ? 'all' : 'variances');
+  const [lineSearch, setLineSearch] = useState('');
+
+  const lines = useMemo(() => count.lines ?? [], [count.lines]);
+  const summary = useMemo(() => varianceSummary(lines), [lines]);
+  const counting = count.status === 'counting';
+  const open = counting || count.status === 'review';
+
+  const visible = useMemo(() => {
+    const q = lineSearch.trim().toLowerCase();
+    return lines.filter(l => {
+      if (filter === 'variances' && !lineVariance(l)) return false;
+      if (filter === 'uncounted' && l.countedQty != null) return false;
+      if (q && !`${l.productName ?? ''} ${l.sku ?? ''} ${l.sizeCode ?? ''}`.toLowerCase().includes(q)) return false;
+      return true;
+    });
+  }, [lines, filter, lineSearch]);
+
+  useEffect(() => {
+    if (!counting || query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchProducts(count.warehouseId, query.trim())
+        .then(list => { if (!cancelled) setResults(list); })
+        .catch(() => { if (!cancelled) setResults([]); });
+    }, 250);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [query, counting, count.warehouseId]);
+
+  const run = useCallback(async (fn: () => Promise<StockCount>, success?: string) => {
+    setBusy(true);
+    try {
+      onChange(await fn());
+      if (success) showToast('success', success);
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    } finally {
+      setBusy(false);
+    }
+  }, [onChange, showToast]);
+
+  const record = useCallback(
+    (entries: StockCountEntry[]) => run(() => recordStockCountEntries(count.id, entries)),
+    [run, count.id]
+  );
+
+  const pickProduct = useCallback((p: POSProduct) => {
+    setQuery('');
+    setResults([]);
+    setPicked({ id: p.id, name: p.name, sku: p.sku, sized: p.sizeKind === 'sized' });
+  }, []);
+
+  const handleScan = useCallback(async (code: string) => {
+    try {
+      const list = await searchProducts(count.warehouseId, code);
+      const match = lookupProductByCode(buildBarcodeIndex(list), code);
+      if (!match) {
+        showToast('error', `No product found for ${code}`);
+      } else if (match.sizeKind === 'sized') {
+        // One barcode covers every size, so the counter picks the size.
+        pickProduct(match);
+      } else {
+        await record([{ productId: match.id, sizeCode: null, qty: 1, mode: 'add' }]);
+      }
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    }
+  }, [count.warehouseId, pickProduct, record, showToast]);
+
+  useBarcodeScanner(handleScan, { enabled: counting && !busy });
+
+  async function apply() {
+    if (!window.confirm(`Apply ${count.countNumber}? Approved variances will be posted to stock.`)) return;
+    setBusy(true);
+    try {
+      const result = await applyStockCount(count.id);
+      onChange(result.stockCount);
+      queryClient.invalidateQueries({ queryKey: queryKeys.products(count.warehouseId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboard(count.warehouseId) });
+      const units = result.unitsDelta > 0 ? `+${result.unitsDelta}` : String(result.unitsDelta);
+      showToast('success', `${count.countNumber} applied: ${result.linesAdjusted} lines adjusted (${units} units).`);
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <button type="button" onClick={onBack} className="text-[12px] font-semibold text-[var(--edk-ink-3)] hover:text-[var(--edk-ink)]">← All counts</button>
+          <div className="flex items-center gap-2 mt-1">
+            <p className="text-[16px] font-bold text-[var(--edk-ink)]">{count.countNumber}</p>
+            <StatusBadge status={count.status} />
+          </div>
+          <p className="text-[12px] text-[var(--edk-ink-3)]">
+            {count.category ?? 'All categories'} · started {fmtTime(count.createdAt)}{count.createdBy ? ` by ${count.createdBy}` : ''}
+          </p>
+        </div>
+        <Button type="button" variant="secondary" size="sm" disabled={busy} onClick={() => run(() => fetchStockCount(count.id))}>Refresh</Button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {[
+          { label: 'Counted', value: `${summary.counted} / ${lines.length}` },
+          { label: 'Over', value: `+${summary.unitsOver}` },
+          { label: 'Short', value: `−${summary.unitsShort}` },
+          ...(canSeeCost ? [{ label: 'Value impact', value: fmtMoney(summary.valueImpact) }] : []),
+        ].map(s => (
+          <div key={s.label} className="rounded-xl border border-[var(--edk-border)] bg-[var(--edk-surface)] px-3 py-2">
+            <p className="text-[11px] text-[var(--edk-ink-3)]">{s.label}</p>
+            <p className="text-[15px] font-bold text-[var(--edk-ink)] tabular-nums">{s.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {counting && (
+        <div>
+          <input type="search" value={query} onChange={e => setQuery(e.target.value)} placeholder="Scan, or search product / SKU / barcode…" className={inputClass} />
+          {results.length > 0 && (
+            <div className="mt-2 rounded-xl border border-[var(--edk-border)] bg-[var(--edk-surface)] divide-y divide-[var(--edk-border)]">
+              {results.map(p => (
+                <button key={p.id} type="button" onClick={() => pickProduct(p)}
+                  className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left hover:bg-[var(--edk-bg)]">
+                  <span className="text-[13px] font-semibold text-[var(--edk-ink)] truncate">{p.name}</span>
+                  <span className="text-[11px] text-[var(--edk-ink-3)]">{p.sku}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {counting && picked && (
+        <CountEntry
+          key={picked.id}
+          product={picked}
+          lines={lines.filter(l => l.productId === picked.id)}
+          busy={busy}
+          onRecord={record}
+          onClose={() => setPicked(null)}
+        />
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {(['all', 'variances', 'uncounted'] as LineFilter[]).map(f => (
+          <button key={f} type="button" onClick={() => setFilter(f)}
+            className={`h-8 px-3 rounded-full text-[12px] font-semibold border ${filter === f ? 'bg-[var(--edk-ink)] text-white border-[var(--edk-ink)]' : 'border-[var(--edk-border)] text-[var(--edk-ink-2)]'}`}>
+            {f === 'all' ? 'All' : f === 'variances' ? 'Variances' : 'Not counted'}
+          </button>
+        ))}
+        <input type="search" value={lineSearch} onChange={e => setLineSearch(e.target.value)} placeholder="Filter lines…"
+          className="flex-1 min-w-[10rem] h-8 px-3 rounded-full border border-[var(--edk-border)] text-[12px]" />
+      </div>
+
+      <div className="rounded-[var(--edk-radius)] border-[1.5px] border-[var(--edk-border)] bg-[var(--edk-surface)] overflow-x-auto">
+        {visible.length === 0 ? (
+          <p className="py-8 text-center text-[13px] text-[var(--edk-ink-3)]">No lines match.</p>
+        ) : (
+          <table className="w-full text-[13px]">
+            <thead>
+              <tr className="text-left text-[11px] text-[var(--edk-ink-3)] border-b border-[var(--edk-border)]">
+                <th className="px-3 py-2 font-semibold">Product</th>
+                <th className="px-3 py-2 font-semibold text-right">Expected</th>
+                <th className="px-3 py-2 font-semibold text-right">Counted</th>
+                <th className="px-3 py-2 font-semibold text-right">Variance</th>
+                {canSeeCost && <th className="px-3 py-2 font-semibold text-right">Value</th>}
+                {open && <th className="px-3 py-2 font-semibold text-center">Approve</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--edk-border)]">
+              {visible.slice(0, MAX_ROWS).map(l => {
+                const v = lineVariance(l);
+                return (
+                  <tr key={l.id}>
+                    <td className="px-3 py-2">
+                      <button type="button" disabled={!counting} className="text-left disabled:cursor-default"
+                        onClick={() => setPicked({ id: l.productId, name: l.productName ?? l.sku ?? 'Product', sku: l.sku, sized: l.sizeCode != null })}>
+                        <span className="font-semibold text-[var(--edk-ink)]">{l.productName ?? '—'}</span>
+                        {l.sizeCode && <span className="text-[var(--edk-ink-3)]"> · {l.sizeCode}</span>}
+                      </button>
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">{l.expectedQty}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{l.countedQty ?? '—'}</td>
+                    <td className="px-3 py-2 text-right tabular-nums"><VarianceCell line={l} /></td>
+                    {canSeeCost && (
+                      <td className="px-3 py-2 text-right tabular-nums">{v ? fmtMoney(v * l.unitCost) : '—'}</td>
+                    )}
+                    {open && (
+                      <td className="px-3 py-2 text-center">
+                        {v ? (
+                          <input type="checkbox" checked={l.approved} disabled={busy || !canApprove}
+                            aria-label={`Approve ${l.productName ?? ''} ${l.sizeCode ?? ''}`}
+                            onChange={e => run(() => updateStockCount(count.id, { approvals: { [l.id]: e.target.checked } }))} />
+                        ) : null}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        {visible.length > MAX_ROWS && (
+          <p className="px-3 py-2 text-[11px] text-[var(--edk-ink-3)]">Showing {MAX_ROWS} of {visible.length} lines — filter to see more.</p>
+        )}
+      </div>
+
+      {open && (
+        <div className="flex flex-wrap gap-2">
+          {counting ? (
+            <Button type="button" variant="primary" size="sm" disabled={busy}
+              onClick={() => run(() => updateStockCount(count.id, { action: 'submit' }), 'Sent for review.')}>
+              Finish counting
+            </Button>
+          ) : (
+            <>
+              {canApprove && (
+                <Button type="button" variant="primary" size="sm" disabled={busy} loading={busy} onClick={apply}>
+                  Apply adjustments
+                </Button>
+              )}
+              <Button type="button" variant="secondary" size="sm" disabled={busy}
+                onClick={() => run(() => updateStockCount(count.id, { action: 'reopen' }))}>
+                Reopen counting
+              </Button>
+            </>
+          )}
+          <Button type="button" variant="secondary" size="sm" disabled={busy}
+            onClick={() => {
+              if (window.confirm(`Cancel ${count.countNumber}? No stock will change.`)) {
+                run(() => updateStockCount(count.id, { action: 'cancel' }), 'Stock count cancelled.');
+              }
+            }}>
+            Cancel count
+          </Button>
+        </div>
+      )}
+      {summary.uncounted > 0 && open && (
+        <p className="text-[11px] text-[var(--edk-ink-3)]">
+          {summary.uncounted} line{summary.uncounted !== 1 ? 's' : ''} not counted — left unchanged when applied.
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ── Main Page ─────────────────────────────────────────────────────────────
+
+export default function StockTakePage() {
+  const { warehouses, currentWarehouseId } = useWarehouse();
+  const { hasPermission } = useAuth();
+  const { products } = useInventory();
+  const { showToast } = useToast();
+  const warehouseId = currentWarehouseId || '';
+  const warehouseName = warehouses.find(w => w.id === warehouseId)?.name ?? null;
+
+  const [counts, setCounts] = useState<StockCount[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [active, setActive] = useState<StockCount | null>(null);
+  const [category, setCategory] = useState('');
+  const [notes, setNotes] = useState('');
+  const [starting, setStarting] = useState(false);
+
+  const categories = useMemo(
+    () => Array.from(new Set(products.map(p => getCategoryDisplay(p.category)).filter(Boolean))).sort(),
+    [products]
+  );
+
+  const load = useCallback(() => {
+    if (!isValidWarehouseId(warehouseId)) return;
+    setLoading(true);
+    fetchStockCounts(warehouseId)
+      .then(setCounts)
+      .catch((e: unknown) => showToast('error', getUserFriendlyMessage(e)))
+      .finally(() => setLoading(false));
+  }, [warehouseId, showToast]);
+
+  useEffect(() => { load(); setActive(null); }, [load]);
+
+  async function open(id: string) {
+    try {
+      setActive(await fetchStockCount(id));
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    }
+  }
+
+  async function start() {
+    if (!isValidWarehouseId(warehouseId)) return;
+    setStarting(true);
+    try {
+      const created = await startStockCount({ warehouseId, category: category || null, notes: notes.trim() || null });
+      setCategory('');
+      setNotes('');
+      load();
+      await open(created.id);
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  const handleChange = useCallback((c: StockCount) => {
+    setActive(c);
+    setCounts(prev => prev.map(x => (x.id === c.id ? { ...x, ...c, lines: undefined } : x)));
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-[var(--edk-bg)] pb-20">
+      <div className="sticky top-0 z-30 bg-[var(--edk-surface)] border-b border-[var(--edk-border)] px-4 pt-4 pb-3">
+        <h1 className="text-[20px] font-extrabold text-[var(--edk-ink)] tracking-tight" style={{ fontFamily: "'Barlow Condensed', sans-serif" }}>Stock take</h1>
+        <p className="text-[12px] text-[var(--edk-ink-3)] mt-0.5">
+          {warehouseName ?? 'Select a warehouse'} · count, review variances, apply
+        </p>
+      </div>
+
+      <div className="px-4 pt-4 space-y-4 max-w-4xl">
+        {active ? (
+          <SessionView
+            key={active.id}
+            count={active}
+            canApprove={hasPermission(PERMISSIONS.INVENTORY.APPROVE_ADJUSTMENT)}
+            canSeeCost={hasPermission(PERMISSIONS.INVENTORY.VIEW_COST_PRICE)}
+            onChange={handleChange}
+            onBack={() => { setActive(null); load(); }}
+          />
+        ) : (
+          <>
+            <div className="rounded-[var(--edk-radius)] border-[1.5px] border-[var(--edk-border)] bg-[var(--edk-surface)] p-4 space-y-3">
+              <p className="text-[14px] font-bold text-[var(--edk-ink)]">New count</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <select value={category} onChange={e => setCategory(e.target.value)} className={inputClass} aria-label="Category">
+                  <option value="">Whole warehouse</option>
+                  {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <input type="text" value={notes} onChange={e => setNotes(e.target.value)} placeholder="Notes (e.g. aisle 3, month-end)" className={inputClass} />
+              </div>
+              <Button type="button" variant="primary" size="sm" loading={starting}
+                disabled={starting || !isValidWarehouseId(warehouseId)} onClick={start}>
+                Start count
+              </Button>
+            </div>
+
+            {loading && counts.length === 0 ? (
+              <div className="flex justify-center py-10"><LoadingSpinner /></div>
+            ) : counts.length === 0 ? (
+              <EmptyState icon={ScanLine} title="No stock counts yet" description="Start a count to check shelf stock against the system." />
+            ) : (
+              <div className="space-y-2">
+                {counts.map(c => (
+                  <button key={c.id} type="button" onClick={() => open(c.id)}
+                    className="w-full flex items-center justify-between gap-2 rounded-xl border border-[var(--edk-border)] bg-[var(--edk-surface)] px-3 py-2 text-left hover:bg-[var(--edk-bg)]">
+                    <div className="min-w-0">
+                      <p className="text-[13px] font-semibold text-[var(--edk-ink)]">{c.countNumber}</p>
+                      <p className="text-[11px] text-[var(--edk-ink-3)] truncate">
+                        {fmtTime(c.createdAt)} · {c.category ?? 'All categories'}{c.notes ? ` · ${c.notes}` : ''}
+                      </p>
+                    </div>
+                    <StatusBadge status={c.status} />
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,482 @@
+// ============================================================
+// TransfersPage.tsx
+// File: warehouse-pos/src/pages/TransfersPage.tsx
+//
+// Stock transfers between warehouses (e.g. Main Town → Main Store).
+//   - In-transit totals for the selected warehouse (incoming / outgoing)
+//   - List of transfers from or to the warehouse, filter by status
+//   - Dispatch (source), Receive (destination), Cancel
+//   - New transfer sheet: product search, size, qty, save draft or dispatch now
+// ============================================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowLeftRight } from 'lucide-react';
+import { API_BASE_URL } from '../lib/api';
+import { apiGet } from '../lib/apiClient';
+import { useWarehouse } from '../contexts/WarehouseContext';
+import { useToast } from '../contexts/ToastContext';
+import { isValidWarehouseId } from '../lib/warehouseId';
+import { getUserFriendlyMessage } from '../lib/errorMessages';
+import { EmptyState } from '../components/ui/EmptyState';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import type { POSProduct } from '../components/pos/SizePickerSheet';
+import {
+  createTransfer,
+  fetchInTransit,
+  fetchTransfers,
+  summarizeInTransit,
+  transferDirection,
+  updateTransfer,
+  type StockTransfer,
+  type TransferAction,
+  type TransferStatus,
+} from '../services/transfersApi';
+
+type Filter = 'active' | TransferStatus | 'all';
+
+interface DraftLine {
+  key: string;
+  productId: string;
+  name: string;
+  sku: string;
+  sizeCode: string | null;
+  qty: number;
+  available: number;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function fmtTime(iso: string) {
+  return new Date(iso).toLocaleString('en-GH', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+const STATUS_LABEL: Record<TransferStatus, string> = {
+  draft: 'Draft',
+  in_transit: 'In transit',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+function StatusBadge({ status }: { status: TransferStatus }) {
+  const variantMap: Record<TransferStatus, 'warning' | 'blue' | 'success' | 'gray'> = {
+    draft: 'gray',
+    in_transit: 'blue',
+    received: 'success',
+    cancelled: 'gray',
+  };
+  return <Badge variant={variantMap[status]} size="sm">{STATUS_LABEL[status]}</Badge>;
+}
+
+// ── Transfer card ─────────────────────────────────────────────────────────
+
+function TransferCard({
+  transfer, warehouseId, warehouseName, onAction, actionLoading,
+}: {
+  transfer: StockTransfer;
+  warehouseId: string;
+  warehouseName: (id: string) => string;
+  onAction: (t: StockTransfer, action: TransferAction) => void;
+  actionLoading: string | null;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const direction = transferDirection(transfer, warehouseId);
+  const loading = actionLoading === transfer.id;
+  const units = transfer.lines.reduce((n, l) => n + l.qty, 0);
+
+  return (
+    <div className="bg-[var(--edk-surface)] rounded-[var(--edk-radius)] border-[1.5px] border-[var(--edk-border)] overflow-hidden">
+      <button type="button" onClick={() => setExpanded(v => !v)}
+        className="w-full flex items-start gap-3 px-4 py-4 text-left hover:bg-[var(--edk-bg)] transition-colors">
+        <div className={`w-10 h-10 rounded-xl flex items-center justify-center flex-shrink-0 mt-0.5
+          ${direction === 'incoming' ? 'bg-blue-50 text-blue-600' : 'bg-[var(--edk-amber-bg)] text-[var(--edk-amber)]'}`}>
+          <ArrowLeftRight size={16} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-[14px] font-bold text-[var(--edk-ink)] truncate">{transfer.transferNumber}</p>
+            <StatusBadge status={transfer.status} />
+          </div>
+          <p className="text-[12px] text-[var(--edk-ink-2)] mt-0.5 font-medium">
+            {warehouseName(transfer.fromWarehouseId)} → {warehouseName(transfer.toWarehouseId)}
+          </p>
+          <p className="text-[11px] text-[var(--edk-ink-3)] mt-0.5">
+            {units} unit{units !== 1 ? 's' : ''} · {fmtTime(transfer.createdAt)}
+          </p>
+        </div>
+      </button>
+
+      {expanded && (
+        <div className="border-t border-[var(--edk-border)]">
+          <div className="px-4 py-3 space-y-1.5">
+            {transfer.lines.map(l => (
+              <div key={l.id} className="flex items-center justify-between gap-2">
+                <span className="text-[12px] text-[var(--edk-ink-2)] truncate">
+                  {l.productName ?? l.sku ?? l.productId}{l.sizeCode ? ` · ${l.sizeCode}` : ''}
+                </span>
+                <span className="text-[12px] font-semibold text-[var(--edk-ink)] tabular-nums">× {l.qty}</span>
+              </div>
+            ))}
+            {transfer.notes && <p className="text-[12px] italic text-[var(--edk-ink-3)] pt-1">{transfer.notes}</p>}
+          </div>
+
+          <div className="px-4 pb-3 flex flex-wrap gap-2">
+            {transfer.status === 'draft' && direction === 'outgoing' && (
+              <Button type="button" variant="primary" size="sm" disabled={loading} loading={loading}
+                onClick={() => onAction(transfer, 'dispatch')}>
+                Dispatch
+              </Button>
+            )}
+            {transfer.status === 'in_transit' && direction === 'incoming' && (
+              <Button type="button" variant="primary" size="sm" disabled={loading} loading={loading}
+                onClick={() => onAction(transfer, 'receive')}>
+                Receive
+              </Button>
+            )}
+            {(transfer.status === 'draft' || transfer.status === 'in_transit') && direction === 'outgoing' && (
+              <Button type="button" variant="secondary" size="sm" disabled={loading}
+                onClick={() => {
+                  const msg = transfer.status === 'in_transit'
+                    ? 'Cancel this transfer? Stock goes back to the source warehouse.'
+                    : 'Cancel this draft transfer?';
+                  if (window.confirm(msg)) onAction(transfer, 'cancel');
+                }}>
+                Cancel transfer
+              </Button>
+            )}
+            {transfer.status === 'received' && transfer.receivedAt && (
+              <span className="text-[12px] font-medium text-[var(--edk-green)]">
+                Received {fmtTime(transfer.receivedAt)}{transfer.receivedBy ? ` by ${transfer.receivedBy}` : ''}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ── New transfer sheet ────────────────────────────────────────────────────
+
+function NewTransferSheet({
+  open, fromWarehouseId, destinations, onClose, onCreated,
+}: {
+  open: boolean;
+  fromWarehouseId: string;
+  destinations: Array<{ id: string; name: string }>;
+  onClose: () => void;
+  onCreated: (t: StockTransfer) => void;
+}) {
+  const { showToast } = useToast();
+  const [toWarehouseId, setToWarehouseId] = useState('');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<POSProduct[]>([]);
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setToWarehouseId(destinations[0]?.id ?? '');
+    setQuery('');
+    setResults([]);
+    setLines([]);
+    setNotes('');
+  }, [open, destinations]);
+
+  useEffect(() => {
+    if (!open || query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({ warehouse_id: fromWarehouseId, q: query.trim(), limit: '10' });
+      apiGet<POSProduct[] | { data?: POSProduct[] }>(API_BASE_URL, `/api/products?${params.toString()}`)
+        .then(res => {
+          if (!cancelled) setResults(Array.isArray(res) ? res : res?.data ?? []);
+        })
+        .catch(() => { if (!cancelled) setResults([]); });
+    }, 250);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [open, query, fromWarehouseId]);
+
+  if (!open) return null;
+
+  function addLine(p: POSProduct, sizeCode: string | null, available: number) {
+    const key = `${p.id}:${sizeCode ?? ''}`;
+    setLines(prev => prev.some(l => l.key === key)
+      ? prev
+      : [...prev, { key, productId: p.id, name: p.name, sku: p.sku, sizeCode, qty: 1, available }]);
+  }
+
+  async function save(dispatch: boolean) {
+    if (!toWarehouseId || lines.length === 0) return;
+    setSaving(true);
+    try {
+      const created = await createTransfer({
+        fromWarehouseId,
+        toWarehouseId,
+        lines: lines.map(l => ({ productId: l.productId, sizeCode: l.sizeCode, qty: l.qty })),
+        notes: notes.trim() || null,
+        dispatch,
+      });
+      onCreated(created);
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-slate-900/50" onClick={onClose} aria-hidden />
+      <div role="dialog" aria-modal="true" aria-label="New transfer"
+        className="fixed bottom-0 left-0 right-0 z-50 max-h-[90vh] overflow-y-auto rounded-t-2xl bg-[var(--edk-surface)] shadow-xl">
+        <div className="sticky top-0 flex items-center justify-between border-b border-[var(--edk-border)] bg-[var(--edk-surface)] px-4 py-3">
+          <h3 className="text-[15px] font-bold text-[var(--edk-ink)]">New transfer</h3>
+          <button type="button" onClick={onClose} className="p-2 text-[var(--edk-ink-3)] hover:text-[var(--edk-ink)]" aria-label="Close">✕</button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <label className="block">
+            <span className="text-[12px] font-semibold text-[var(--edk-ink-2)]">To</span>
+            <select value={toWarehouseId} onChange={e => setToWarehouseId(e.target.value)}
+              className="mt-1 w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px]">
+              {destinations.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+            </select>
+          </label>
+
+          <div>
+            <input type="search" value={query} onChange={e => setQuery(e.target.value)}
+              placeholder="Search product, SKU or barcode…"
+              className="w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px]" />
+            {results.length > 0 && (
+              <div className="mt-2 space-y-2">
+                {results.map(p => {
+                  const sized = p.sizeKind === 'sized' && (p.quantityBySize?.length ?? 0) > 0;
+                  return (
+                    <div key={p.id} className="rounded-xl border border-[var(--edk-border)] px-3 py-2">
+                      <p className="text-[13px] font-semibold text-[var(--edk-ink)]">{p.name}</p>
+                      <div className="flex flex-wrap gap-1.5 mt-1.5">
+                        {sized
+                          ? p.quantityBySize!.map(s => (
+                              <button key={s.sizeCode} type="button" disabled={s.quantity <= 0}
+                                onClick={() => addLine(p, s.sizeCode, s.quantity)}
+                                className="px-2.5 py-1 rounded-lg border border-[var(--edk-border)] text-[12px] font-semibold disabled:opacity-40">
+                                {s.sizeLabel ?? s.sizeCode} <span className="font-normal text-[var(--edk-ink-3)]">({s.quantity})</span>
+                              </button>
+                            ))
+                          : (
+                            <button type="button" disabled={p.quantity <= 0} onClick={() => addLine(p, null, p.quantity)}
+                              className="px-2.5 py-1 rounded-lg border border-[var(--edk-border)] text-[12px] font-semibold disabled:opacity-40">
+                              Add <span className="font-normal text-[var(--edk-ink-3)]">({p.quantity} in stock)</span>
+                            </button>
+                          )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {lines.length > 0 && (
+            <div className="space-y-2">
+              {lines.map(l => (
+                <div key={l.key} className="flex items-center justify-between gap-2">
+                  <span className="text-[13px] text-[var(--edk-ink)] truncate">{l.name}{l.sizeCode ? ` · ${l.sizeCode}` : ''}</span>
+                  <div className="flex items-center gap-2">
+                    <input type="number" min={1} max={l.available} value={l.qty} aria-label={`Qty ${l.name}`}
+                      onChange={e => {
+                        const qty = Math.max(1, Math.min(l.available, Number(e.target.value) || 1));
+                        setLines(prev => prev.map(x => x.key === l.key ? { ...x, qty } : x));
+                      }}
+                      className="w-16 h-8 px-2 rounded-lg border border-[var(--edk-border)] text-[13px] tabular-nums" />
+                    <button type="button" aria-label={`Remove ${l.name}`} onClick={() => setLines(prev => prev.filter(x => x.key !== l.key))}
+                      className="text-[var(--edk-ink-3)] hover:text-[var(--edk-red)] px-1">✕</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <input type="text" value={notes} onChange={e => setNotes(e.target.value)} placeholder="Notes (driver, vehicle…)"
+            className="w-full h-10 px-3 rounded-xl border-[1.5px] border-[var(--edk-border-mid)] bg-[var(--edk-surface)] text-[13px]" />
+
+          <div className="flex gap-2">
+            <Button type="button" variant="secondary" className="flex-1" disabled={saving || lines.length === 0 || !toWarehouseId}
+              onClick={() => save(false)}>
+              Save draft
+            </Button>
+            <Button type="button" variant="primary" className="flex-1" disabled={saving || lines.length === 0 || !toWarehouseId}
+              loading={saving} onClick={() => save(true)}>
+              Dispatch now
+            </Button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+// ── Main Page ─────────────────────────────────────────────────────────────
+
+export default function TransfersPage() {
+  const { warehouses, currentWarehouseId } = useWarehouse();
+  const { showToast } = useToast();
+  const warehouseId = currentWarehouseId || '';
+
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [inTransit, setInTransit] = useState({ incoming: 0, outgoing: 0 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<Filter>('active');
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [sheetOpen, setSheetOpen] = useState(false);
+
+  const warehouseName = useCallback(
+    (id: string) => warehouses.find(w => w.id === id)?.name ?? 'Other location',
+    [warehouses]
+  );
+  const destinations = warehouses.filter(w => w.id !== warehouseId).map(w => ({ id: w.id, name: w.name }));
+
+  const load = useCallback(async () => {
+    if (!isValidWarehouseId(warehouseId)) {
+      setLoading(false);
+      setTransfers([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const [list, transit] = await Promise.all([fetchTransfers(warehouseId), fetchInTransit(warehouseId)]);
+      setTransfers(list);
+      setInTransit(summarizeInTransit(transit));
+    } catch (e: unknown) {
+      const msg = getUserFriendlyMessage(e);
+      setError(msg);
+      showToast('error', msg);
+    } finally {
+      setLoading(false);
+    }
+  }, [warehouseId, showToast]);
+
+  useEffect(() => { load(); }, [load]);
+
+  async function handleAction(t: StockTransfer, action: TransferAction) {
+    setActionLoading(t.id);
+    try {
+      const updated = await updateTransfer(t.id, action);
+      setTransfers(prev => prev.map(x => (x.id === t.id ? updated : x)));
+      fetchInTransit(warehouseId).then(rows => setInTransit(summarizeInTransit(rows))).catch(() => {});
+      showToast(
+        'success',
+        action === 'dispatch' ? 'Transfer dispatched. Stock deducted here and shown as in transit.'
+          : action === 'receive' ? 'Transfer received. Stock added to this warehouse.'
+            : 'Transfer cancelled.'
+      );
+    } catch (e: unknown) {
+      showToast('error', getUserFriendlyMessage(e));
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  function handleCreated(t: StockTransfer) {
+    setSheetOpen(false);
+    setTransfers(prev => [t, ...prev]);
+    fetchInTransit(warehouseId).then(rows => setInTransit(summarizeInTransit(rows))).catch(() => {});
+    showToast('success', t.status === 'in_transit' ? `${t.transferNumber} dispatched.` : `${t.transferNumber} saved as draft.`);
+  }
+
+  const filtered = transfers.filter(t =>
+    filter === 'all' ? true
+      : filter === 'active' ? t.status === 'draft' || t.status === 'in_transit'
+        : t.status === filter
+  );
+
+  const FILTERS: { key: Filter; label: string }[] = [
+    { key: 'active', label: 'Active' },
+    { key: 'in_transit', label: 'In transit' },
+    { key: 'received', label: 'Received' },
+    { key: 'cancelled', label: 'Cancelled' },
+    { key: 'all', label: 'All' },
+  ];
+
+  return (
+    <div className="min-h-screen bg-[var(--edk-bg)] pb-20">
+      <div className="sticky top-0 z-30 bg-[var(--edk-surface)] border-b border-[var(--edk-border)] px-4 pt-4 pb-3">
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <h1 className="text-[20px] font-extrabold text-[var(--edk-ink)] tracking-tight" style={{ fontFamily: "'Barlow Condensed', sans-serif" }}>Transfers</h1>
+            <p className="text-[12px] text-[var(--edk-ink-3)] mt-0.5">
+              {warehouseName(warehouseId)} · {inTransit.incoming} incoming · {inTransit.outgoing} outgoing in transit
+            </p>
+          </div>
+          <Button type="button" variant="primary" size="sm" onClick={() => setSheetOpen(true)}
+            disabled={!isValidWarehouseId(warehouseId) || destinations.length === 0}>
+            New transfer
+          </Button>
+        </div>
+
+        <div className="flex gap-2 overflow-x-auto pb-0.5">
+          {FILTERS.map(f => (
+            <button key={f.key} type="button" onClick={() => setFilter(f.key)}
+              className={`flex-shrink-0 h-8 px-3 rounded-full text-[12px] font-bold border-[1.5px] transition-all
+                ${filter === f.key
+                  ? 'bg-[var(--edk-red-soft)] text-[var(--edk-red)] border-[var(--edk-red-border)]'
+                  : 'bg-[var(--edk-surface)] border-[var(--edk-border)] text-[var(--edk-ink-3)]'}`}>
+              {f.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="px-4 pt-4 space-y-3">
+        {loading && (
+          <div className="flex flex-col items-center justify-center gap-3 py-20 text-[var(--edk-ink-3)]">
+            <LoadingSpinner size="sm" />
+            <p className="text-[13px] font-medium">Loading transfers…</p>
+          </div>
+        )}
+
+        {!loading && error != null && error !== '' && (
+          <div className="rounded-[var(--edk-radius)] border border-[var(--edk-red-border)] bg-[var(--edk-red-soft)] p-4 text-center">
+            <p className="text-[13px] text-[var(--edk-ink)] font-medium">{error}</p>
+            <Button type="button" variant="primary" size="sm" onClick={() => load()} className="mt-2">Retry</Button>
+          </div>
+        )}
+
+        {!loading && !error && filtered.length === 0 && (
+          <EmptyState
+            icon={ArrowLeftRight}
+            title="No transfers"
+            description="Move stock to another location with New transfer."
+          />
+        )}
+
+        {!loading && !error && filtered.map(t => (
+          <TransferCard
+            key={t.id}
+            transfer={t}
+            warehouseId={warehouseId}
+            warehouseName={warehouseName}
+            onAction={handleAction}
+            actionLoading={actionLoading}
+          />
+        ))}
+      </div>
+
+      <NewTransferSheet
+        open={sheetOpen}
+        fromWarehouseId={warehouseId}
+        destinations={destinations}
+        onClose={() => setSheetOpen(false)}
+        onCreated={handleCreated}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Customer directory: phone normalisation (must match the server's), display format and average basket.
+ */
+import { describe, it, expect } from 'vitest';
+import { averageBasket, formatPhone, normalizePhone } from './customersApi';
+
+describe('normalizePhone', () => {
+  it('turns Ghana local numbers into 233 form', () => {
+    expect(normalizePhone('0244 123 456')).toBe('233244123456');
+    expect(normalizePhone('244123456')).toBe('233244123456');
+    expect(normalizePhone('+233 24-412-3456')).toBe('233244123456');
+    expect(normalizePhone('00233244123456')).toBe('233244123456');
+  });
+
+  it('keeps other international numbers and rejects junk', () => {
+    expect(normalizePhone('+44 7700 900123')).toBe('447700900123');
+    expect(normalizePhone('12')).toBeNull();
+    expect(normalizePhone(null)).toBeNull();
+  });
+});
+
+describe('formatPhone', () => {
+  it('shows Ghana numbers in local form', () => {
+    expect(formatPhone('233244123456')).toBe('0244 123 456');
+    expect(formatPhone('447700900123')).toBe('+447700900123');
+  });
+});
+
+describe('averageBasket', () => {
+  it('divides spend by visits and handles new customers', () => {
+    expect(averageBasket({ visitCount: 3, lifetimeSpend: 100 })).toBe(33.33);
+    expect(averageBasket({ visitCount: 0, lifetimeSpend: 0 })).toBe(0);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Customer directory: /api/customers. Customers are keyed by phone (stored as 233XXXXXXXXX) and shared by all
+ * warehouses; sales rung up for a customer carry customerId.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiDelete, apiGet, apiPatch, apiPost } from '../lib/apiClient';
+
+export interface CustomerRecord {
+  id: string;
+  name: string;
+  phone: string;
+  email: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+  visitCount: number;
+  lifetimeSpend: number;
+  lastVisitAt: string | null;
+  pointsBalance: number;
+  /** GH₵ the points are worth when redeemed. */
+  pointsValue: number;
+  storeCreditBalance: number;
+}
+
+export interface CustomerReceipt {
+  id: string;
+  receiptId: string;
+  warehouseId: string;
+  total: number;
+  status: string;
+  paymentMethod: string;
+  createdAt: string;
+  lines: Array<{ name: string; sizeCode: string | null; qty: number; lineTotal: number }>;
+}
+
+export interface CustomerProfile extends CustomerRecord {
+  receipts: CustomerReceipt[];
+}
+
+export type CustomerInput = Partial<Pick<CustomerRecord, 'name' | 'phone' | 'email' | 'notes'>>;
+
+/** Same rules as the server: digits only, Ghana 0XXXXXXXXX → 233XXXXXXXXX. null when not a plausible number. */
+export function normalizePhone(raw: string | null | undefined): string | null {
+  let digits = String(raw ?? '').replace(/\D/g, '');
+  if (digits.startsWith('00')) digits = digits.slice(2);
+  if (digits.length === 10 && digits.startsWith('0')) digits = `233${digits.slice(1)}`;
+  else if (digits.length === 9 && !digits.startsWith('0')) digits = `233${digits}`;
+  return digits.length >= 7 && digits.length <= 15 ? digits : null;
+}
+
+/** 233244123456 → "0244 123 456"; other numbers are shown as stored with a leading +. */
+export function formatPhone(phone: string): string {
+  if (/^233\d{9}$/.test(phone)) {
+    const local = `0${phone.slice(3)}`;
+    return `${local.slice(0, 4)} ${local.slice(4, 7)} ${local.slice(7)}`;
+  }
+  return phone ? `+${phone}` : '';
+}
+
+/** Average spend per visit, 0 for customers without visits. */
+export function averageBasket(customer: Pick<CustomerRecord, 'visitCount' | 'lifetimeSpend'>): number {
+  if (customer.visitCount <= 0) return 0;
+  return Math.round((customer.lifetimeSpend / customer.visitCount) * 100) / 100;
+}
+
+export async function searchCustomers(q: string, limit = 10): Promise<CustomerRecord[]> {
+  const params = new URLSearchParams({ q, limit: String(limit) });
+  const res = await apiGet<{ data?: CustomerRecord[] }>(API_BASE_URL, `/api/customers?${params.toString()}`);
+  return res?.data ?? [];
+}
+
+export function fetchCustomer(id: string): Promise<CustomerProfile> {
+  return apiGet<CustomerProfile>(API_BASE_URL, `/api/customers/${encodeURIComponent(id)}`);
+}
+
+export function createCustomer(body: CustomerInput): Promise<CustomerRecord> {
+  return apiPost<CustomerRecord>(API_BASE_URL, '/api/customers', body);
+}
+
+export function updateCustomer(id: string, body: CustomerInput): Promise<CustomerRecord> {
+  return apiPatch<CustomerRecord>(API_BASE_URL, `/api/customers/${encodeURIComponent(id)}`, body);
+}
+
+export function deleteCustomer(id: string): Promise<void> {
+  return apiDelete(API_BASE_URL, `/api/customers/${encodeURIComponent(id)}`);
+}
@@ -0,0 +1,62 @@
+/**
+ * Held carts: soft reservations taken off what the POS offers for sale.
+ */
+import { describe, it, expect } from 'vitest';
+import { heldQty, withoutHeldStock, type HeldCart } from './heldCartsApi';
+
+function cart(over: Partial<HeldCart>): HeldCart {
+  return {
+    id: 'h1',
+    warehouseId: 'w1',
+    name: 'Ama',
+    lines: [],
+    itemCount: 0,
+    subtotal: 0,
+    reserveStock: true,
+    expiresAt: '2026-03-28T10:00:00Z',
+    createdBy: null,
+    createdAt: '2026-03-27T10:00:00Z',
+    ...over,
+  };
+}
+
+const line = { name: 'Dress', sku: 'D1', sizeLabel: null, unitPrice: 100, imageUrl: null, category: null };
+
+describe('heldQty', () => {
+  it('sums reserving carts only, matching sizes case-insensitively', () => {
+    const carts = [
+      cart({ lines: [{ ...line, productId: 'p1', sizeCode: 'M', qty: 2 }] }),
+      cart({ id: 'h2', lines: [{ ...line, productId: 'p1', sizeCode: 'm', qty: 1 }] }),
+      cart({ id: 'h3', reserveStock: false, lines: [{ ...line, productId: 'p1', sizeCode: 'M', qty: 5 }] }),
+    ];
+    expect(heldQty(carts, 'p1', 'M')).toBe(3);
+    expect(heldQty(carts, 'p1', 'L')).toBe(0);
+    expect(heldQty(carts, 'p2', null)).toBe(0);
+  });
+});
+
+describe('withoutHeldStock', () => {
+  it('takes held quantities off sized and unsized products', () => {
+    const products = [
+      { id: 'p1', quantity: 5, quantityBySize: [{ sizeCode: 'M', quantity: 3 }, { sizeCode: 'L', quantity: 2 }] },
+      { id: 'p2', quantity: 4 },
+    ];
+    const carts = [
+      cart({
+        lines: [
+          { ...line, productId: 'p1', sizeCode: 'M', qty: 2 },
+          { ...line, productId: 'p2', sizeCode: null, qty: 6 },
+        ],
+      }),
+    ];
+    const out = withoutHeldStock(products, carts);
+    expect(out[0].quantityBySize).toEqual([{ sizeCode: 'M', quantity: 1 }, { sizeCode: 'L', quantity: 2 }]);
+    expect(out[0].quantity).toBe(3);
+    expect(out[1].quantity).toBe(0);
+  });
+
+  it('returns the same list when no cart reserves stock', () => {
+    const products = [{ id: 'p1', quantity: 5 }];
+    expect(withoutHeldStock(products, [cart({ reserveStock: false })])).toBe(products);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Held (parked) carts: /api/held-carts.
+ * "Hold sale" saves the cart by name on the server for this warehouse; any till there can recall it (which deletes
+ * it). A hold can softly reserve its stock: the POS leaves those quantities out of what it offers until the cart is
+ * recalled or expires. The server does not enforce the reservation at checkout.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiGet, apiPost } from '../lib/apiClient';
+
+export interface HeldCartLine {
+  productId: string;
+  sizeCode: string | null;
+  sizeLabel: string | null;
+  name: string;
+  sku: string;
+  unitPrice: number;
+  qty: number;
+  imageUrl: string | null;
+  category: string | null;
+}
+
+export interface HeldCart {
+  id: string;
+  warehouseId: string;
+  name: string;
+  lines: HeldCartLine[];
+  itemCount: number;
+  subtotal: number;
+  reserveStock: boolean;
+  expiresAt: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/** Recall of a cart another till already recalled, or one that expired. */
+export const HELD_CART_GONE = 'HELD_CART_GONE';
+
+export function fetchHeldCarts(warehouseId: string): Promise<{ data: HeldCart[] }> {
+  return apiGet(API_BASE_URL, `/api/held-carts?warehouse_id=${encodeURIComponent(warehouseId)}`);
+}
+
+export function holdCart(body: {
+  warehouseId: string;
+  name: string;
+  lines: Array<Omit<HeldCartLine, 'imageUrl' | 'category'> & { imageUrl?: string | null; category?: string | null }>;
+  reserveStock: boolean;
+}): Promise<HeldCart> {
+  return apiPost<HeldCart>(API_BASE_URL, '/api/held-carts', body);
+}
+
+/** Takes the cart off the server and returns it (also used to discard). */
+export function recallHeldCart(id: string): Promise<HeldCart> {
+  return apiPost<HeldCart>(API_BASE_URL, `/api/held-carts/${encodeURIComponent(id)}/recall`, {});
+}
+
+/** Quantity of (productId, sizeCode) softly reserved by held carts that reserve stock. */
+export function heldQty(carts: HeldCart[], productId: string, sizeCode: string | null): number {
+  const size = (sizeCode ?? '').toUpperCase();
+  let qty = 0;
+  for (const cart of carts) {
+    if (!cart.reserveStock) continue;
+    for (const l of cart.lines) {
+      if (l.productId === productId && (l.sizeCode ?? '').toUpperCase() === size) qty += l.qty;
+    }
+  }
+  return qty;
+}
+
+interface StockShape {
+  id: string;
+  quantity: number;
+  quantityBySize?: Array<{ sizeCode: string; quantity: number }>;
+}
+
+/**
+ * Products with held quantities taken off their stock, for what the POS offers for sale. Returns the same array
+ * when nothing is reserved so memoised consumers do not re-render.
+ */
+export function withoutHeldStock<T extends StockShape>(products: T[], carts: HeldCart[]): T[] {
+  if (!carts.some((c) => c.reserveStock)) return products;
+  return products.map((p) => {
+    const sizes = p.quantityBySize ?? [];
+    if (sizes.length > 0 && sizes.some((r) => heldQty(carts, p.id, r.sizeCode) > 0)) {
+      const quantityBySize = sizes.map((r) => ({ ...r, quantity: Math.max(0, r.quantity - heldQty(carts, p.id, r.sizeCode)) }));
+      return { ...p, quantityBySize, quantity: quantityBySize.reduce((s, r) => s + r.quantity, 0) };
+    }
+    const held = sizes.length > 0 ? 0 : heldQty(carts, p.id, null);
+    return held > 0 ? { ...p, quantity: Math.max(0, p.quantity - held) } : p;
+  });
+}
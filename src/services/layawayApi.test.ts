@@ -0,0 +1,42 @@
+/**
+ * Layaways: deposit and instalment checks at the till, and the days left before an unpaid layaway is released.
+ */
+import { describe, it, expect } from 'vitest';
+import { daysUntilRelease, installmentError, parseDeposit } from './layawayApi';
+
+describe('parseDeposit', () => {
+  it('accepts a deposit between 0 and the total, rounded to pesewas', () => {
+    expect(parseDeposit('50', 200)).toBe(50);
+    expect(parseDeposit('49.999', 200)).toBe(50);
+  });
+
+  it('rejects nothing, zero, or the whole total', () => {
+    expect(parseDeposit('', 200)).toBeNull();
+    expect(parseDeposit('0', 200)).toBeNull();
+    expect(parseDeposit('200', 200)).toBeNull();
+    expect(parseDeposit('250', 200)).toBeNull();
+  });
+});
+
+describe('installmentError', () => {
+  it('allows up to the balance due', () => {
+    expect(installmentError(150, 150)).toBeNull();
+    expect(installmentError(20, 150)).toBeNull();
+    expect(installmentError(150.01, 150)).toBe('More than the balance due.');
+    expect(installmentError(0, 150)).toBe('Enter an amount.');
+  });
+});
+
+describe('daysUntilRelease', () => {
+  const now = Date.parse('2026-03-26T10:00:00Z');
+
+  it('counts part days as a whole day', () => {
+    expect(daysUntilRelease('2026-03-28T09:00:00Z', now)).toBe(2);
+    expect(daysUntilRelease('2026-03-26T11:00:00Z', now)).toBe(1);
+  });
+
+  it('is 0 once the release date has passed', () => {
+    expect(daysUntilRelease('2026-03-25T10:00:00Z', now)).toBe(0);
+    expect(daysUntilRelease('not a date', now)).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Layaways: a sale taken with a deposit that holds its stock until the balance is paid.
+ * The cart sends layaway { deposit } with POST /api/sales; instalments go to POST /api/sales/layaway and a manager
+ * can release an open layaway early (POST /api/sales/layaway/release). Unpaid layaways are released by the server
+ * after its release period.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { API_BASE_URL } from '../lib/api';
+import { apiPost } from '../lib/apiClient';
+
+export type LayawayStatus = 'open' | 'completed' | 'released';
+export type LayawayPaymentMethod = 'cash' | 'card' | 'mobile_money';
+
+/** Returned with a layaway sale by POST /api/sales. */
+export interface SaleLayaway {
+  amountPaid: number;
+  balanceDue: number;
+  expiresAt: string;
+}
+
+export interface LayawayPayment {
+  id: string;
+  saleId: string;
+  kind: 'deposit' | 'installment';
+  paymentMethod: string;
+  amount: number;
+  tillSessionId: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface LayawayPaymentResult {
+  saleId: string;
+  status: 'layaway' | 'completed';
+  layawayStatus: LayawayStatus;
+  amountPaid: number;
+  balanceDue: number;
+  paidOff: boolean;
+  pointsEarned: number;
+  idempotentReplay?: boolean;
+}
+
+/** Error codes the layaway endpoints answer with. */
+export const LAYAWAY_ERROR_CODES = [
+  'LAYAWAY_DEPOSIT_INVALID',
+  'LAYAWAY_TENDER_NOT_ALLOWED',
+  'LAYAWAY_CUSTOMER_REQUIRED',
+  'LAYAWAY_OVERPAYMENT',
+  'LAYAWAY_NOT_OPEN',
+];
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Deposit typed at the till, when it is more than 0 and less than the total; else null. */
+export function parseDeposit(raw: string, total: number): number | null {
+  const deposit = round2(parseFloat(raw));
+  if (!Number.isFinite(deposit) || deposit <= 0 || deposit >= round2(total)) return null;
+  return deposit;
+}
+
+/** Whole days left before an open layaway is released (0 on the day itself or after). */
+export function daysUntilRelease(expiresAt: string, now: number = Date.now()): number {
+  const ms = Date.parse(expiresAt) - now;
+  return Number.isFinite(ms) && ms > 0 ? Math.ceil(ms / 86_400_000) : 0;
+}
+
+/** Why an instalment cannot be taken, or null when it can. */
+export function installmentError(amount: number, balanceDue: number): string | null {
+  if (!Number.isFinite(amount) || amount <= 0) return 'Enter an amount.';
+  if (round2(amount) > round2(balanceDue)) return 'More than the balance due.';
+  return null;
+}
+
+/**
+ * Takes an instalment. Pass the same idempotency key when retrying a payment whose answer was lost so it is not
+ * recorded twice.
+ */
+export function recordLayawayPayment(
+  body: { saleId: string; amount: number; paymentMethod: LayawayPaymentMethod; tillSessionId?: string | null },
+  idempotencyKey: string = uuidv4()
+): Promise<LayawayPaymentResult> {
+  return apiPost<LayawayPaymentResult>(API_BASE_URL, '/api/sales/layaway', body, { idempotencyKey });
+}
+
+export function releaseLayaway(saleId: string): Promise<{ saleId: string; status: 'cancelled'; layawayStatus: 'released' }> {
+  return apiPost(API_BASE_URL, '/api/sales/layaway/release', { saleId });
+}
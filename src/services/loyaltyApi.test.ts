@@ -0,0 +1,37 @@
+/**
+ * Loyalty / store credit: which amounts are paid from balances and whether the customer can cover them.
+ */
+import { describe, it, expect } from 'vitest';
+import { balanceTenderAmounts, checkBalanceTender } from './loyaltyApi';
+
+const customer = { pointsValue: 12.5, storeCreditBalance: 40 };
+
+describe('balanceTenderAmounts', () => {
+  it('takes the whole total for a single balance tender and nothing for money', () => {
+    expect(balanceTenderAmounts('points', 80)).toEqual({ points: 80, store_credit: 0 });
+    expect(balanceTenderAmounts('store_credit', 80)).toEqual({ points: 0, store_credit: 80 });
+    expect(balanceTenderAmounts('cash', 80)).toEqual({ points: 0, store_credit: 0 });
+  });
+
+  it('sums the balance legs of a mixed payment', () => {
+    const legs = [
+      { method: 'cash', amount: 30 },
+      { method: 'points', amount: 10 },
+      { method: 'store_credit', amount: 40 },
+    ];
+    expect(balanceTenderAmounts('mixed', 80, legs)).toEqual({ points: 10, store_credit: 40 });
+  });
+});
+
+describe('checkBalanceTender', () => {
+  it('passes money-only sales and covered balances', () => {
+    expect(checkBalanceTender(null, { points: 0, store_credit: 0 })).toBeNull();
+    expect(checkBalanceTender(customer, { points: 12.5, store_credit: 40 })).toBeNull();
+  });
+
+  it('rejects balance tenders without a customer or beyond the balance', () => {
+    expect(checkBalanceTender(null, { points: 5, store_credit: 0 })).toMatch(/customer/);
+    expect(checkBalanceTender(customer, { points: 12.51, store_credit: 0 })).toMatch(/points/);
+    expect(checkBalanceTender(customer, { points: 0, store_credit: 40.01 })).toMatch(/store credit/);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Loyalty points and store credit: GET /api/customers/:id/ledger, plus the checkout-side checks for paying
+ * with balances. The server (record_sale) is authoritative; these only stop the cashier from charging a tender
+ * the customer cannot cover.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiGet } from '../lib/apiClient';
+import type { CustomerRecord } from './customersApi';
+
+/** Payment methods that are paid from the customer's balances instead of money. */
+export const BALANCE_TENDERS = ['points', 'store_credit'] as const;
+export type BalanceTender = (typeof BALANCE_TENDERS)[number];
+
+/** Error codes from POST /api/sales when a balance tender cannot be taken. */
+export const BALANCE_ERROR_CODES = ['INSUFFICIENT_POINTS', 'INSUFFICIENT_STORE_CREDIT', 'CUSTOMER_REQUIRED'];
+
+/** `loyalty` block of the POST /api/sales response (only when the sale is linked to a customer). */
+export interface SaleLoyalty {
+  pointsEarned: number;
+  pointsRedeemed: number;
+  pointsBalance: number;
+  storeCreditUsed: number;
+  storeCreditBalance: number;
+}
+
+export interface LoyaltyEntry {
+  id: string;
+  points: number;
+  entryType: 'earn' | 'redeem' | 'reversal' | 'adjustment';
+  saleId: string | null;
+  receiptId: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface StoreCreditEntry {
+  id: string;
+  amount: number;
+  entryType: 'refund' | 'redeem' | 'reversal' | 'adjustment';
+  saleId: string | null;
+  receiptId: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface CustomerLedger {
+  customerId: string;
+  pointsBalance: number;
+  pointsValue: number;
+  storeCreditBalance: number;
+  config: { pointsPerCedi: number; pointValue: number };
+  points: LoyaltyEntry[];
+  storeCredit: StoreCreditEntry[];
+}
+
+export function isBalanceTender(method: string): method is BalanceTender {
+  return (BALANCE_TENDERS as readonly string[]).includes(method);
+}
+
+/** GH₵ the customer can pay with one balance. */
+export function tenderAvailable(
+  customer: Pick<CustomerRecord, 'pointsValue' | 'storeCreditBalance'> | null,
+  method: BalanceTender
+): number {
+  if (!customer) return 0;
+  return method === 'points' ? customer.pointsValue : customer.storeCreditBalance;
+}
+
+/**
+ * GH₵ to be paid from each balance: the whole total for a single balance tender, the matching legs for a
+ * mixed payment, nothing otherwise.
+ */
+export function balanceTenderAmounts(
+  paymentMethod: string,
+  total: number,
+  payments?: Array<{ method: string; amount: number }>
+): Record<BalanceTender, number> {
+  const out: Record<BalanceTender, number> = { points: 0, store_credit: 0 };
+  if (isBalanceTender(paymentMethod)) {
+    out[paymentMethod] = total;
+  } else if (paymentMethod === 'mixed') {
+    for (const p of payments ?? []) {
+      if (isBalanceTender(p.method)) out[p.method] += p.amount;
+    }
+  }
+  return out;
+}
+
+/** null when the customer's balances cover the amounts, else a message for the cashier. */
+export function checkBalanceTender(
+  customer: Pick<CustomerRecord, 'pointsValue' | 'storeCreditBalance'> | null,
+  amounts: Record<BalanceTender, number>
+): string | null {
+  if (amounts.points <= 0 && amounts.store_credit <= 0) return null;
+  if (!customer) return 'Pick a customer to pay with points or store credit.';
+  if (amounts.points - customer.pointsValue > 0.005) return 'Not enough loyalty points for this amount.';
+  if (amounts.store_credit - customer.storeCreditBalance > 0.005) return 'Not enough store credit for this amount.';
+  return null;
+}
+
+export function fetchCustomerLedger(customerId: string, limit = 50): Promise<CustomerLedger> {
+  return apiGet<CustomerLedger>(
+    API_BASE_URL,
+    `/api/customers/${encodeURIComponent(customerId)}/ledger?limit=${limit}`
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * Manager approvals: when the cart asks for a PIN up front, and which server errors mean "get an approval".
+ */
+import { describe, it, expect } from 'vitest';
+import { discountNeedsApproval, isApprovalError, type RoleLimits } from './managerApprovalApi';
+
+const cashier: RoleLimits = {
+  role: 'cashier',
+  maxDiscountPct: 10,
+  maxRefundAmount: null,
+  requireApprovalVoid: true,
+  requireApprovalRefund: true,
+  updatedByEmail: null,
+  updatedAt: null,
+};
+
+describe('discountNeedsApproval', () => {
+  it('asks only above the role limit', () => {
+    expect(discountNeedsApproval(cashier, 10)).toBe(false);
+    expect(discountNeedsApproval(cashier, 10.5)).toBe(true);
+  });
+
+  it('never blocks without a limit or before limits load', () => {
+    expect(discountNeedsApproval({ ...cashier, maxDiscountPct: null }, 90)).toBe(false);
+    expect(discountNeedsApproval(null, 90)).toBe(false);
+  });
+});
+
+describe('isApprovalError', () => {
+  it('matches missing and rejected approvals only', () => {
+    expect(isApprovalError(Object.assign(new Error('x'), { code: 'APPROVAL_REQUIRED' }))).toBe(true);
+    expect(isApprovalError({ code: 'APPROVAL_INVALID' })).toBe(true);
+    expect(isApprovalError({ code: 'INSUFFICIENT_STOCK' })).toBe(false);
+    expect(isApprovalError(null)).toBe(false);
+  });
+});
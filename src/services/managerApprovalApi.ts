@@ -0,0 +1,78 @@
+/**
+ * Role limits and manager overrides: /api/role-limits, /api/manager-approvals.
+ * The server enforces the limits; the POS reads the cashier's own limits to ask for a manager PIN before charging,
+ * and void / refund retry with an approval token when the server answers APPROVAL_REQUIRED.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiGet, apiPatch, apiPost, apiPut } from '../lib/apiClient';
+
+export type ApprovalAction = 'discount' | 'void' | 'refund';
+
+export interface RoleLimits {
+  role: string;
+  /** Highest discount % without approval; null = unlimited. */
+  maxDiscountPct: number | null;
+  /** Highest refund (GH₵) per return without approval; null = unlimited. */
+  maxRefundAmount: number | null;
+  requireApprovalVoid: boolean;
+  requireApprovalRefund: boolean;
+  updatedByEmail: string | null;
+  updatedAt: string | null;
+}
+
+export type RoleLimitsInput = Partial<Pick<RoleLimits, 'maxDiscountPct' | 'maxRefundAmount' | 'requireApprovalVoid' | 'requireApprovalRefund'>>;
+
+export interface ManagerApprovalRequest {
+  managerEmail: string;
+  pin: string;
+  action: ApprovalAction;
+  /** Discount % (required for 'discount'). */
+  amount?: number | null;
+  warehouseId?: string | null;
+  /** Sale being voided or refunded. */
+  saleId?: string | null;
+  reason?: string | null;
+}
+
+export interface ManagerApproval {
+  token: string;
+  expiresAt: string;
+  approvedBy: string;
+}
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalAction, string> = {
+  discount: 'Discount',
+  void: 'Void sale',
+  refund: 'Refund',
+};
+
+/** True when the server refused the action for want of a (valid) manager approval. */
+export function isApprovalError(err: unknown): boolean {
+  const code = (err as { code?: string } | null)?.code;
+  return code === 'APPROVAL_REQUIRED' || code === 'APPROVAL_INVALID';
+}
+
+/** Whether a discount of `pct` is over the role's limit. Unknown limits (not loaded yet) never block. */
+export function discountNeedsApproval(limits: RoleLimits | null | undefined, pct: number): boolean {
+  return limits?.maxDiscountPct != null && pct > limits.maxDiscountPct;
+}
+
+/** The caller's own limits, plus every role's limits for managers. */
+export function fetchRoleLimits(): Promise<{ mine: RoleLimits; data: RoleLimits[] }> {
+  return apiGet<{ mine: RoleLimits; data: RoleLimits[] }>(API_BASE_URL, '/api/role-limits');
+}
+
+/** Admins only. */
+export function updateRoleLimits(role: string, input: RoleLimitsInput): Promise<RoleLimits> {
+  return apiPatch<RoleLimits>(API_BASE_URL, '/api/role-limits', { role, ...input });
+}
+
+export function requestManagerApproval(body: ManagerApprovalRequest): Promise<ManagerApproval> {
+  return apiPost<ManagerApproval>(API_BASE_URL, '/api/manager-approvals', body);
+}
+
+/** Sets the signed-in manager's own override PIN (4–8 digits). */
+export function setManagerPin(pin: string): Promise<{ ok: boolean }> {
+  return apiPut<{ ok: boolean }>(API_BASE_URL, '/api/manager-approvals/pin', { pin });
+}
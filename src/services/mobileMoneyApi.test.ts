@@ -0,0 +1,50 @@
+/**
+ * Mobile money prompts: which part of a sale is collected by prompt, and when a paid prompt can still pay for the cart.
+ */
+import { describe, it, expect } from 'vitest';
+import { coversMobileMoney, mobileMoneyAmount, type MobileMoneyPayment } from './mobileMoneyApi';
+
+const paid: MobileMoneyPayment = {
+  id: 'p1',
+  provider: 'fake',
+  providerRef: 'fake.paid.1.x',
+  warehouseId: 'w1',
+  phone: '233244123456',
+  amount: 120,
+  currency: 'GHS',
+  status: 'successful',
+  reason: null,
+  financialTransactionId: 'FAKE-1',
+  requestedBy: null,
+  saleId: null,
+  saleRef: null,
+  createdAt: '2026-03-25T10:00:00Z',
+  updatedAt: '2026-03-25T10:00:05Z',
+};
+
+describe('mobileMoneyAmount', () => {
+  it('collects the whole total for mobile money and only that leg of a mix', () => {
+    expect(mobileMoneyAmount('mobile_money', 120.004)).toBe(120);
+    expect(
+      mobileMoneyAmount('mixed', 200, [
+        { method: 'cash', amount: 80 },
+        { method: 'mobile_money', amount: 120 },
+      ])
+    ).toBe(120);
+  });
+
+  it('collects nothing for other tenders', () => {
+    expect(mobileMoneyAmount('cash', 120)).toBe(0);
+    expect(mobileMoneyAmount('mixed', 120, [{ method: 'card', amount: 120 }])).toBe(0);
+  });
+});
+
+describe('coversMobileMoney', () => {
+  it('accepts a paid prompt for the same amount only', () => {
+    expect(coversMobileMoney(paid, 120)).toBe(true);
+    expect(coversMobileMoney(paid, 130)).toBe(false);
+    expect(coversMobileMoney({ ...paid, status: 'pending' }, 120)).toBe(false);
+    expect(coversMobileMoney({ ...paid, saleId: 's1' }, 120)).toBe(false);
+    expect(coversMobileMoney(null, 120)).toBe(false);
+  });
+});
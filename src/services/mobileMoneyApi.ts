@@ -0,0 +1,72 @@
+/**
+ * Mobile money prompts: /api/payments/mobile-money.
+ * When the server has a provider (MTN MoMo), the POS sends a prompt to the customer's phone for the mobile money
+ * part of the sale, polls until it is paid, and charges with the payment id; the server checks it before recording
+ * the sale. Without a provider (or offline) mobile money is recorded as before, without a prompt.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiGet, apiPost } from '../lib/apiClient';
+
+export type MobileMoneyStatus = 'pending' | 'successful' | 'failed';
+
+export interface MobileMoneyConfig {
+  enabled: boolean;
+  provider: string | null;
+  currency: string | null;
+}
+
+export interface MobileMoneyPayment {
+  id: string;
+  provider: string;
+  providerRef: string;
+  warehouseId: string;
+  phone: string;
+  amount: number;
+  currency: string;
+  status: MobileMoneyStatus;
+  /** Why it failed, in the provider's words. */
+  reason: string | null;
+  financialTransactionId: string | null;
+  requestedBy: string | null;
+  saleId: string | null;
+  saleRef: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** How often the POS asks for the status while the customer approves on their phone. */
+export const MOBILE_MONEY_POLL_MS = 3000;
+
+export function fetchMobileMoneyConfig(): Promise<MobileMoneyConfig> {
+  return apiGet<MobileMoneyConfig>(API_BASE_URL, '/api/payments/mobile-money');
+}
+
+export function requestMobileMoneyPayment(body: { warehouseId: string; phone: string; amount: number }): Promise<MobileMoneyPayment> {
+  return apiPost<MobileMoneyPayment>(API_BASE_URL, '/api/payments/mobile-money', body);
+}
+
+/** Current status; the server asks the provider first while the payment is pending. */
+export function fetchMobileMoneyPayment(id: string): Promise<MobileMoneyPayment> {
+  return apiGet<MobileMoneyPayment>(API_BASE_URL, `/api/payments/mobile-money/${encodeURIComponent(id)}`);
+}
+
+/** The part of a sale to collect by prompt: the total for mobile_money, the mobile money leg of a mixed payment. */
+export function mobileMoneyAmount(
+  paymentMethod: string,
+  total: number,
+  payments?: Array<{ method: string; amount: number }>
+): number {
+  if (paymentMethod === 'mobile_money') return Math.round(total * 100) / 100;
+  if (paymentMethod !== 'mixed') return 0;
+  const sum = (payments ?? []).filter((p) => p.method === 'mobile_money').reduce((s, p) => s + p.amount, 0);
+  return Math.round(sum * 100) / 100;
+}
+
+/**
+ * True when a paid prompt can be used for `amount`: a cart edit after payment, or a payment a sale has already
+ * used, needs a new prompt. A failed sale keeps its payment so the customer is not charged twice.
+ */
+export function coversMobileMoney(payment: MobileMoneyPayment | null, amount: number): boolean {
+  return payment != null && payment.status === 'successful' && payment.saleId == null && Math.abs(payment.amount - amount) < 0.01;
+}
@@ -0,0 +1,133 @@
+/**
+ * Offline sale queue: enqueue metadata, replay outcomes (synced, rejected, retry later), retry and discard.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SaleQueueItem } from '../db/inventoryDB';
+
+const mockEnqueue = vi.fn();
+const mockGetPending = vi.fn();
+const mockUpdate = vi.fn();
+const mockDelete = vi.fn();
+
+vi.mock('../db/inventoryDB', () => ({
+  enqueueSale: (...args: unknown[]) => mockEnqueue(...args),
+  getPendingSales: () => mockGetPending(),
+  getAllQueuedSales: vi.fn(() => Promise.resolve([])),
+  countPendingSales: vi.fn(() => Promise.resolve(0)),
+  updateQueuedSale: (...args: unknown[]) => mockUpdate(...args),
+  deleteQueuedSale: (...args: unknown[]) => mockDelete(...args),
+}));
+
+vi.mock('../lib/api', () => ({ API_BASE_URL: 'https://test.example.com' }));
+
+const mockApiPost = vi.fn();
+vi.mock('../lib/apiClient', () => ({
+  apiPost: (...args: unknown[]) => mockApiPost(...args),
+}));
+
+import { discardQueuedSale, queueOfflineSale, replayQueuedSales, retryQueuedSale } from './offlineSaleQueue';
+
+function item(id: number, overrides: Partial<SaleQueueItem> = {}): SaleQueueItem {
+  return {
+    id,
+    idempotencyKey: `00000000-0000-4000-8000-00000000000${id}`,
+    warehouseId: 'wh-1',
+    localReceiptId: `LOCAL-20260101-00000${id}`,
+    body: { warehouseId: 'wh-1', lines: [] },
+    createdAt: id,
+    attempts: 0,
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+function httpError(status: number, code?: string): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status, code });
+}
+
+describe('queueOfflineSale', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnqueue.mockResolvedValue(1);
+  });
+
+  it('stores a UUID idempotency key and LOCAL receipt id with offline metadata', async () => {
+    const res = await queueOfflineSale({ warehouseId: 'wh-1', total: 10 });
+    expect(res.idempotencyKey).toMatch(/^[0-9a-f-]{36}$/);
+    expect(res.localReceiptId).toMatch(/^LOCAL-\d{8}-[0-9A-F]{6}$/);
+    const stored = mockEnqueue.mock.calls[0][0];
+    expect(stored.idempotencyKey).toBe(res.idempotencyKey);
+    expect(stored.body.offline.localReceiptId).toBe(res.localReceiptId);
+    expect(stored.body.total).toBe(10);
+  });
+});
+
+describe('replayQueuedSales', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdate.mockResolvedValue(undefined);
+    mockDelete.mockResolvedValue(undefined);
+  });
+
+  it('sends each sale with its idempotency key and removes it on success', async () => {
+    mockGetPending.mockResolvedValue([item(1), item(2)]);
+    mockApiPost.mockResolvedValue({ id: 's1' });
+    const res = await replayQueuedSales();
+    expect(res).toEqual({ synced: 2, rejected: 0, failed: 0, remaining: 0 });
+    expect(mockApiPost.mock.calls[0][3].idempotencyKey).toBe(item(1).idempotencyKey);
+    expect(mockDelete).toHaveBeenCalledWith(1);
+    expect(mockDelete).toHaveBeenCalledWith(2);
+  });
+
+  it('marks INSUFFICIENT_STOCK as rejected and continues', async () => {
+    mockGetPending.mockResolvedValue([item(1), item(2)]);
+    mockApiPost.mockRejectedValueOnce(httpError(422, 'INSUFFICIENT_STOCK')).mockResolvedValueOnce({ id: 's2' });
+    const res = await replayQueuedSales();
+    expect(res).toMatchObject({ synced: 1, rejected: 1, remaining: 0 });
+    expect(mockUpdate).toHaveBeenCalledWith(1, expect.objectContaining({ status: 'rejected' }));
+  });
+
+  it('stops on network failure and keeps the sale pending', async () => {
+    mockGetPending.mockResolvedValue([item(1), item(2)]);
+    mockApiPost.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    const res = await replayQueuedSales();
+    expect(res).toMatchObject({ synced: 0, remaining: 2 });
+    expect(mockApiPost).toHaveBeenCalledTimes(1);
+    expect(mockUpdate).toHaveBeenLastCalledWith(1, expect.objectContaining({ status: 'pending' }));
+  });
+});
+
+describe('retry and discard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdate.mockResolvedValue(undefined);
+    mockDelete.mockResolvedValue(undefined);
+  });
+
+  it('puts a refused sale back in line and replays it', async () => {
+    mockGetPending.mockResolvedValue([item(1)]);
+    mockApiPost.mockResolvedValue({ id: 's1' });
+    const res = await retryQueuedSale(1);
+    expect(mockUpdate).toHaveBeenNthCalledWith(1, 1, { status: 'pending', error: null });
+    expect(res).toMatchObject({ synced: 1 });
+  });
+
+  it('records a discarded sale on the server before removing it', async () => {
+    mockApiPost.mockResolvedValue({ ok: true });
+    await discardQueuedSale(item(1, { status: 'rejected', error: 'Insufficient stock' }), 'Refunded in cash');
+    expect(mockApiPost).toHaveBeenCalledWith('https://test.example.com', '/api/sync-rejections', {
+      idempotencyKey: item(1).idempotencyKey,
+      warehouseId: 'wh-1',
+      reason: 'Refunded in cash',
+      localReceiptId: item(1).localReceiptId,
+      error: 'Insufficient stock',
+    });
+    expect(mockDelete).toHaveBeenCalledWith(1);
+  });
+
+  it('keeps the sale when the discard cannot be recorded', async () => {
+    mockApiPost.mockRejectedValue(new TypeError('Failed to fetch'));
+    await expect(discardQueuedSale(item(1, { status: 'failed' }), 'Duplicate')).rejects.toThrow();
+    expect(mockDelete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Offline POS sales: queue in IndexedDB (saleQueue) when the till has no connection, replay to
+ * POST /api/sales when it comes back. Each sale carries a client-generated UUID sent as
+ * Idempotency-Key, so a replay that reached the server but lost its response is not recorded twice.
+ * Server-side INSUFFICIENT_STOCK is logged in sync_rejections by the sales route; the local item is
+ * kept as 'rejected' (other refusals as 'failed') until the cashier retries or discards it from the POS.
+ * Discarding records the sale and reason in sync_rejections so it stays visible to an admin.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { API_BASE_URL } from '../lib/api';
+import { apiPost } from '../lib/apiClient';
+import { reportDiscardedSale } from './syncRejectionsApi';
+import {
+  enqueueSale,
+  getPendingSales,
+  getAllQueuedSales,
+  countPendingSales,
+  updateQueuedSale,
+  deleteQueuedSale,
+  type SaleQueueItem,
+} from '../db/inventoryDB';
+
+/** Fired on window whenever the queue changes (enqueue or replay). */
+export const SALE_QUEUE_CHANGED_EVENT = 'pos-sale-queue-changed';
+
+const REPLAY_TIMEOUT_MS = 45_000;
+
+export interface QueuedSaleResult {
+  idempotencyKey: string;
+  localReceiptId: string;
+}
+
+export interface ReplayResult {
+  synced: number;
+  rejected: number;
+  failed: number;
+  remaining: number;
+}
+
+function notifyQueueChanged(): void {
+  try {
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(SALE_QUEUE_CHANGED_EVENT));
+  } catch {
+    // ignore
+  }
+}
+
+function buildLocalReceiptId(key: string, at: Date): string {
+  const ymd = at.toISOString().slice(0, 10).replace(/-/g, '');
+  return `LOCAL-${ymd}-${key.replace(/-/g, '').slice(0, 6).toUpperCase()}`;
+}
+
+/**
+ * Store a sale for later replay. body is the POST /api/sales body; offline metadata is added here.
+ * Pass the key of a failed online attempt so a request that did reach the server isn't recorded twice.
+ * Throws if IndexedDB is unavailable.
+ */
+export async function queueOfflineSale(
+  body: Record<string, unknown> & { warehouseId: string },
+  options?: { idempotencyKey?: string }
+): Promise<QueuedSaleResult> {
+  const idempotencyKey = options?.idempotencyKey ?? uuidv4();
+  const queuedAt = new Date();
+  const localReceiptId = buildLocalReceiptId(idempotencyKey, queuedAt);
+  await enqueueSale({
+    idempotencyKey,
+    warehouseId: body.warehouseId,
+    localReceiptId,
+    body: { ...body, offline: { queuedAt: queuedAt.toISOString(), localReceiptId } },
+  });
+  notifyQueueChanged();
+  return { idempotencyKey, localReceiptId };
+}
+
+export function getPendingSaleCount(): Promise<number> {
+  return countPendingSales();
+}
+
+/** Every sale on this device's queue, newest first — including ones the server refused. */
+export function getQueuedSales(): Promise<SaleQueueItem[]> {
+  return getAllQueuedSales();
+}
+
+/** Sales the server refused ('rejected' / 'failed'); they stay on the device until retried or discarded. */
+export async function getStuckSaleCount(): Promise<number> {
+  const items = await getAllQueuedSales();
+  return items.filter((i) => i.status === 'rejected' || i.status === 'failed').length;
+}
+
+/** Put a refused sale back in line (e.g. after stock was received) and replay the queue. */
+export async function retryQueuedSale(id: number): Promise<ReplayResult> {
+  await updateQueuedSale(id, { status: 'pending', error: null });
+  notifyQueueChanged();
+  return replayQueuedSales();
+}
+
+/**
+ * Drop a refused sale from this device. The sale and reason are recorded on the server first (needs a
+ * connection), so the sale is not lost without trace.
+ */
+export async function discardQueuedSale(item: SaleQueueItem, reason: string): Promise<void> {
+  await reportDiscardedSale({
+    idempotencyKey: item.idempotencyKey,
+    warehouseId: item.warehouseId,
+    reason,
+    localReceiptId: item.localReceiptId,
+    error: item.error ?? null,
+  });
+  await deleteQueuedSale(item.id);
+  notifyQueueChanged();
+}
+
+/** Client errors that will fail the same way on every retry (bad payload, no warehouse access). */
+function isPermanentFailure(status: number | undefined): boolean {
+  return status != null && status >= 400 && status < 500 && status !== 401 && status !== 408 && status !== 429;
+}
+
+let replayInFlight: Promise<ReplayResult> | null = null;
+
+async function runReplay(): Promise<ReplayResult> {
+  const items = await getPendingSales();
+  const result: ReplayResult = { synced: 0, rejected: 0, failed: 0, remaining: items.length };
+
+  for (const item of items) {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) break;
+    await updateQueuedSale(item.id, { status: 'syncing', attempts: item.attempts + 1 });
+    try {
+      await apiPost(API_BASE_URL, '/api/sales', item.body, {
+        idempotencyKey: item.idempotencyKey,
+        timeoutMs: REPLAY_TIMEOUT_MS,
+      });
+      await deleteQueuedSale(item.id);
+      result.synced++;
+      result.remaining--;
+    } catch (e) {
+      const err = e as Error & { status?: number; code?: string };
+      if (err.status === 422 && err.code === 'INSUFFICIENT_STOCK') {
+        await updateQueuedSale(item.id, { status: 'rejected', error: err.message });
+        result.rejected++;
+        result.remaining--;
+      } else if (isPermanentFailure(err.status)) {
+        await updateQueuedSale(item.id, { status: 'failed', error: err.message });
+        result.failed++;
+        result.remaining--;
+      } else {
+        // Network, timeout, 5xx or expired session: keep order, try again on next replay.
+        await updateQueuedSale(item.id, { status: 'pending', error: err.message });
+        break;
+      }
+    }
+  }
+
+  notifyQueueChanged();
+  return result;
+}
+
+/** Replay pending sales oldest-first. Concurrent calls share one run. */
+export function replayQueuedSales(): Promise<ReplayResult> {
+  if (replayInFlight) return replayInFlight;
+  replayInFlight = runReplay().finally(() => {
+    replayInFlight = null;
+  });
+  return replayInFlight;
+}
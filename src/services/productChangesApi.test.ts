@@ -0,0 +1,112 @@
+/**
+ * Incremental product sync: paging the change feed, merging changes into a list, patching realtime size rows.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/api', () => ({ API_BASE_URL: 'https://test.example.com' }));
+
+const mockApiGet = vi.fn();
+vi.mock('../lib/apiClient', () => ({
+  apiGet: (...args: unknown[]) => mockApiGet(...args),
+}));
+
+import { applySizeRowChange, fetchProductChanges, mergeProductChanges } from './productChangesApi';
+
+const product = (id: string, quantity = 5) => ({
+  id,
+  quantity,
+  quantityBySize: [
+    { sizeCode: 'S', sizeLabel: 'Small', quantity: 2 },
+    { sizeCode: 'M', sizeLabel: 'Medium', quantity: quantity - 2 },
+  ],
+});
+
+describe('fetchProductChanges', () => {
+  beforeEach(() => mockApiGet.mockReset());
+
+  it('follows hasMore and returns the last cursor', async () => {
+    mockApiGet
+      .mockResolvedValueOnce({ data: [{ id: 'a' }], deleted: ['x'], cursor: '12', hasMore: true })
+      .mockResolvedValueOnce({ data: [{ id: 'b' }], deleted: [], cursor: '15', hasMore: false });
+    const res = await fetchProductChanges('wh-1', '10');
+    expect(res).toEqual({ items: [{ id: 'a' }, { id: 'b' }], deleted: ['x'], cursor: '15', truncated: false });
+    expect(mockApiGet.mock.calls[0][1]).toBe('/api/products/changes?warehouse_id=wh-1&since=10');
+    expect(mockApiGet.mock.calls[1][1]).toBe('/api/products/changes?warehouse_id=wh-1&since=12');
+  });
+
+  it('keeps only the latest entry for a product that comes back on a later page', async () => {
+    mockApiGet
+      .mockResolvedValueOnce({ data: [{ id: 'a', v: 1 }], deleted: ['x'], cursor: '12:700', hasMore: true })
+      .mockResolvedValueOnce({ data: [{ id: 'x', v: 2 }, { id: 'a', v: 2 }], deleted: [], cursor: '15:705', hasMore: false });
+    const res = await fetchProductChanges<{ id: string; v: number }>('wh-1', '10:690');
+    expect(res).toEqual({
+      items: [{ id: 'x', v: 2 }, { id: 'a', v: 2 }],
+      deleted: [],
+      cursor: '15:705',
+      truncated: false,
+    });
+    expect(mockApiGet.mock.calls[1][1]).toBe('/api/products/changes?warehouse_id=wh-1&since=12%3A700');
+  });
+
+  it('gives up as truncated after too many pages', async () => {
+    mockApiGet.mockImplementation(async () => ({ data: [], deleted: [], cursor: '20', hasMore: true }));
+    const res = await fetchProductChanges('wh-1', '10');
+    expect(res.truncated).toBe(true);
+    expect(mockApiGet).toHaveBeenCalledTimes(20);
+  });
+});
+
+describe('mergeProductChanges', () => {
+  it('replaces changed products in place and drops deleted ones', () => {
+    const list = [product('a'), product('b'), product('c')];
+    const res = mergeProductChanges(list, [product('b', 9)], ['c'], { appendNew: true });
+    expect(res.list.map((p) => [p.id, p.quantity])).toEqual([
+      ['a', 5],
+      ['b', 9],
+    ]);
+    expect(res).toMatchObject({ added: 0, removed: 1 });
+  });
+
+  it('appends new products only to a complete list', () => {
+    const list = [product('a')];
+    expect(mergeProductChanges(list, [product('n')], [], { appendNew: true }).list.map((p) => p.id)).toEqual(['a', 'n']);
+    const partial = mergeProductChanges(list, [product('n')], [], { appendNew: false });
+    expect(partial.list.map((p) => p.id)).toEqual(['a']);
+    expect(partial.added).toBe(0);
+  });
+});
+
+describe('applySizeRowChange', () => {
+  it('sets a size quantity and recomputes the total', () => {
+    const [next] = applySizeRowChange([product('a')], { productId: 'a', sizeCode: 'm', quantity: 1 });
+    expect(next.quantityBySize).toEqual([
+      { sizeCode: 'M', sizeLabel: 'Medium', quantity: 1 },
+      { sizeCode: 'S', sizeLabel: 'Small', quantity: 2 },
+    ]);
+    expect(next.quantity).toBe(3);
+  });
+
+  it('adds new sizes and removes deleted ones', () => {
+    const [added] = applySizeRowChange([product('a')], { productId: 'a', sizeCode: 'L', quantity: 4 });
+    expect(added.quantity).toBe(9);
+    const [removed] = applySizeRowChange([product('a')], { productId: 'a', sizeCode: 'S', quantity: null });
+    expect(removed.quantityBySize?.map((s) => s.sizeCode)).toEqual(['M']);
+    expect(removed.quantity).toBe(3);
+  });
+
+  it('patches a colour variant and rolls its product up', () => {
+    const parent = { id: 'p', quantity: 5, quantityBySize: [], variants: [product('v1'), product('v2', 3)] };
+    const [next] = applySizeRowChange([parent], { productId: 'v2', sizeCode: 'S', quantity: 0 });
+    expect(next.variants?.[1].quantity).toBe(1);
+    expect(next.quantity).toBe(6);
+    expect(next.quantityBySize).toEqual([
+      { sizeCode: 'M', sizeLabel: 'Medium', quantity: 4 },
+      { sizeCode: 'S', sizeLabel: 'Small', quantity: 2 },
+    ]);
+  });
+
+  it('returns the same list for a product that is not loaded', () => {
+    const list = [product('a')];
+    expect(applySizeRowChange(list, { productId: 'z', sizeCode: 'S', quantity: 1 })).toBe(list);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Incremental product sync: /api/products/changes. A device reads the cursor before a full product load, then on
+ * realtime events fetches only the products changed since and merges them into what it already has
+ * (mergeProductChanges). Stock moves on warehouse_inventory_by_size arrive in the realtime payload itself and are
+ * patched in straight away (applySizeRowChange), into the colour variant when the row is a variant's.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiGet } from '../lib/apiClient';
+import { rollUpVariantStock } from '../lib/productVariants';
+
+/** Stop paging after this many pages (250 each); the caller falls back to a full reload. */
+const MAX_CHANGE_PAGES = 20;
+
+export interface ProductChangesResult<T = { id: string }> {
+  /** Changed or added products, raw as in GET /api/products. */
+  items: T[];
+  /** Products deleted or no longer stocked at the warehouse. */
+  deleted: string[];
+  cursor: string;
+  /** Too many changes to page through; reload the full list instead. */
+  truncated: boolean;
+}
+
+/** One warehouse_inventory_by_size row from a realtime payload; quantity null when the row was deleted. */
+export interface SizeRowChange {
+  productId: string;
+  sizeCode: string;
+  quantity: number | null;
+}
+
+interface ProductLike {
+  id: string;
+  quantity: number;
+  quantityBySize?: Array<{ sizeCode: string; sizeLabel?: string; quantity: number }>;
+  variants?: Array<Omit<ProductLike, 'variants'>>;
+}
+
+function changesPath(warehouseId: string, since?: string): string {
+  const params = new URLSearchParams({ warehouse_id: warehouseId });
+  if (since != null) params.set('since', since);
+  return `/api/products/changes?${params.toString()}`;
+}
+
+/** Current cursor. Read it before a full load so nothing changed during the load is missed. */
+export async function fetchProductChangeCursor(warehouseId: string, options?: { signal?: AbortSignal }): Promise<string> {
+  const res = await apiGet<{ cursor?: string }>(API_BASE_URL, changesPath(warehouseId), { signal: options?.signal, maxRetries: 1 });
+  if (typeof res?.cursor !== 'string') throw new Error('Invalid product changes response');
+  return res.cursor;
+}
+
+/** Everything changed at the warehouse after `since`, following hasMore. */
+export async function fetchProductChanges<T extends { id: string } = { id: string }>(
+  warehouseId: string,
+  since: string,
+  options?: { signal?: AbortSignal }
+): Promise<ProductChangesResult<T>> {
+  const items: T[] = [];
+  const deleted: string[] = [];
+  let cursor = since;
+  for (let page = 0; page < MAX_CHANGE_PAGES; page++) {
+    const res = await apiGet<{ data?: T[]; deleted?: string[]; cursor?: string; hasMore?: boolean }>(
+      API_BASE_URL,
+      changesPath(warehouseId, cursor),
+      { signal: options?.signal, maxRetries: 2 }
+    );
+    if (typeof res?.cursor !== 'string') throw new Error('Invalid product changes response');
+    // A product can come back on a later page (the server re-sends ones changed by transactions that were still
+    // open); its latest entry wins.
+    const pageItems = res.data ?? [];
+    const pageDeleted = res.deleted ?? [];
+    const seen = new Set([...pageItems.map((p) => p.id), ...pageDeleted]);
+    items.splice(0, items.length, ...items.filter((p) => !seen.has(p.id)), ...pageItems);
+    deleted.splice(0, deleted.length, ...deleted.filter((id) => !seen.has(id)), ...pageDeleted);
+    cursor = res.cursor;
+    if (!res.hasMore) return { items, deleted, cursor, truncated: false };
+  }
+  return { items, deleted, cursor, truncated: true };
+}
+
+/**
+ * Applies a page of changes to a product list: changed products replace theirs in place, deleted ones are removed.
+ * Products not in the list are appended only when `appendNew` (the list is the whole catalog); a partly loaded list
+ * gets them with its next page instead.
+ */
+export function mergeProductChanges<T extends { id: string }>(
+  list: T[],
+  changed: T[],
+  deleted: string[],
+  options: { appendNew: boolean }
+): { list: T[]; added: number; removed: number } {
+  const byId = new Map(changed.map((p) => [p.id, p]));
+  const gone = new Set(deleted);
+  let removed = 0;
+  const next: T[] = [];
+  for (const p of list) {
+    if (gone.has(p.id)) {
+      removed++;
+      continue;
+    }
+    const update = byId.get(p.id);
+    next.push(update ?? p);
+    byId.delete(p.id);
+  }
+  const added = options.appendNew ? [...byId.values()] : [];
+  next.push(...added);
+  return { list: next, added: added.length, removed };
+}
+
+function withSizeRow<T extends ProductLike>(product: T, change: SizeRowChange): T {
+  const code = change.sizeCode.trim().toUpperCase();
+  const sizes = (product.quantityBySize ?? []).filter((s) => s.sizeCode.toUpperCase() !== code);
+  if (change.quantity != null) {
+    const label = product.quantityBySize?.find((s) => s.sizeCode.toUpperCase() === code)?.sizeLabel ?? code;
+    sizes.push({ sizeCode: code, sizeLabel: label, quantity: change.quantity });
+    sizes.sort((a, b) => a.sizeCode.localeCompare(b.sizeCode, undefined, { numeric: true }));
+  }
+  return { ...product, quantityBySize: sizes, quantity: sizes.reduce((s, r) => s + r.quantity, 0) };
+}
+
+/**
+ * Patches one size row into its product (quantity is the sum of the sizes), or into a colour variant and its
+ * product's rolled-up stock. Same list back when not loaded.
+ */
+export function applySizeRowChange<T extends ProductLike>(list: T[], change: SizeRowChange): T[] {
+  const index = list.findIndex((p) => p.id === change.productId);
+  if (index >= 0) {
+    const next = list.slice();
+    next[index] = withSizeRow(list[index], change);
+    return next;
+  }
+  const parentIndex = list.findIndex((p) => p.variants?.some((v) => v.id === change.productId));
+  if (parentIndex < 0) return list;
+  const parent = list[parentIndex];
+  const variants = parent.variants!.map((v) => (v.id === change.productId ? withSizeRow(v, change) : v));
+  const { quantity, quantityBySize } = rollUpVariantStock(variants);
+  const next = list.slice();
+  next[parentIndex] = { ...parent, variants, quantity, quantityBySize };
+  return next;
+}
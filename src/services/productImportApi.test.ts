@@ -0,0 +1,40 @@
+/**
+ * Product import: dry-run vs apply request bodies and the diff wording.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/api', () => ({ API_BASE_URL: 'https://test.example.com' }));
+
+const mockApiPost = vi.fn();
+vi.mock('../lib/apiClient', () => ({
+  apiPost: (...args: unknown[]) => mockApiPost(...args),
+}));
+
+import { applyProductImport, describeChange, previewProductImport } from './productImportApi';
+
+describe('productImportApi', () => {
+  beforeEach(() => {
+    mockApiPost.mockReset().mockResolvedValue({ rows: [], summary: {}, ignoredColumns: [] });
+  });
+
+  it('previews as a dry run and applies with the file name', async () => {
+    await previewProductImport('wh-1', 'sku,name\nA,B');
+    expect(mockApiPost.mock.calls[0][1]).toBe('/api/products/import');
+    expect(mockApiPost.mock.calls[0][2]).toEqual({ warehouseId: 'wh-1', csv: 'sku,name\nA,B', dryRun: true });
+
+    await applyProductImport('wh-1', 'sku,name\nA,B', 'stock.csv');
+    expect(mockApiPost.mock.calls[1][2]).toEqual({
+      warehouseId: 'wh-1',
+      csv: 'sku,name\nA,B',
+      fileName: 'stock.csv',
+      dryRun: false,
+    });
+  });
+
+  it('describes field, size and image changes', () => {
+    expect(describeChange({ field: 'sellingPrice', from: 400, to: 450 })).toBe('Selling price: 400 → 450');
+    expect(describeChange({ field: 'size:EU41', from: null, to: 3 })).toBe('Size EU41: — → 3');
+    expect(describeChange({ field: 'images', from: ['a'], to: ['a', 'b'] })).toBe('Images: 1 image → 2 images');
+    expect(describeChange({ field: 'quantity', from: 5, to: 0 })).toBe('Stock: 5 → 0');
+  });
+});
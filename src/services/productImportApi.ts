@@ -0,0 +1,101 @@
+/**
+ * Bulk product import (admin): POST /api/products/import. A CSV (or the first sheet of an .xlsx, sent as CSV) of
+ * products by SKU is previewed as a diff per row, then applied all at once; applying the same file again changes
+ * nothing.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiPost } from '../lib/apiClient';
+import { readXlsxRows, toCsv } from '../lib/xlsx';
+
+/** Large files take a while to check and apply (the route allows 60s). */
+const IMPORT_TIMEOUT_MS = 90_000;
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface ImportChange {
+  /** name, category, …, quantity, or size:<code> for the stock of one size. */
+  field: string;
+  from: string | number | string[] | null;
+  to: string | number | string[] | null;
+}
+
+export interface ImportRowResult {
+  /** Row in the file, the header being row 1. */
+  line: number;
+  sku: string;
+  name: string;
+  action: ImportAction;
+  productId: string | null;
+  changes: ImportChange[];
+  errors: string[];
+}
+
+export interface ImportPlan {
+  rows: ImportRowResult[];
+  summary: Record<ImportAction, number>;
+  /** Header cells that are not import columns; their values are not imported. */
+  ignoredColumns: string[];
+}
+
+export interface ImportApplyResult extends ImportPlan {
+  /** null when nothing needed writing. */
+  importId: string | null;
+}
+
+export const IMPORT_ACTION_LABEL: Record<ImportAction, string> = {
+  create: 'New',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  error: 'Error',
+};
+
+const FIELD_LABEL: Record<string, string> = {
+  name: 'Name',
+  category: 'Category',
+  description: 'Description',
+  barcode: 'Barcode',
+  color: 'Color',
+  sellingPrice: 'Selling price',
+  costPrice: 'Cost price',
+  reorderLevel: 'Reorder level',
+  images: 'Images',
+  sizeKind: 'Sizes',
+  quantity: 'Stock',
+};
+
+/** Header and one example row for a new file. */
+export const IMPORT_TEMPLATE_CSV = [
+  'sku,name,category,selling_price,cost_price,barcode,color,sizes,quantity,images',
+  'RUN-BLK,Runner Black,Sneakers,450,300,,Black,"EU40:2; EU41:3; EU42:1",,https://example.com/runner-black.jpg',
+].join('\n');
+
+/** One change as "Field: from → to" for the diff table. */
+export function describeChange(change: ImportChange): string {
+  const label = change.field.startsWith('size:') ? `Size ${change.field.slice(5)}` : FIELD_LABEL[change.field] ?? change.field;
+  const show = (v: ImportChange['from']) =>
+    v === null || v === '' ? '—' : Array.isArray(v) ? `${v.length} image${v.length === 1 ? '' : 's'}` : String(v);
+  return `${label}: ${show(change.from)} → ${show(change.to)}`;
+}
+
+/** File contents as CSV: .xlsx / .xlsm files are read from their first sheet, anything else as text. */
+export async function importFileToCsv(file: File): Promise<string> {
+  if (/\.xls[xm]$/i.test(file.name)) return toCsv(await readXlsxRows(await file.arrayBuffer()));
+  return file.text();
+}
+
+export function previewProductImport(warehouseId: string, csv: string): Promise<ImportPlan> {
+  return apiPost<ImportPlan>(API_BASE_URL, '/api/products/import', { warehouseId, csv, dryRun: true }, {
+    timeoutMs: IMPORT_TIMEOUT_MS,
+  });
+}
+
+/** Applies the file; rejects (IMPORT_HAS_ERRORS) while any row has an error. */
+export function applyProductImport(warehouseId: string, csv: string, fileName?: string): Promise<ImportApplyResult> {
+  return apiPost<ImportApplyResult>(API_BASE_URL, '/api/products/import', {
+    warehouseId,
+    csv,
+    fileName: fileName ?? null,
+    dryRun: false,
+  }, { timeoutMs: IMPORT_TIMEOUT_MS });
+}
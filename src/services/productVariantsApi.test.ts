@@ -0,0 +1,50 @@
+/**
+ * Colour variants: request shapes and the duplicate-colour check.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/api', () => ({ API_BASE_URL: 'https://test.example.com' }));
+
+const mockApiPost = vi.fn();
+const mockApiPut = vi.fn();
+const mockApiDelete = vi.fn();
+vi.mock('../lib/apiClient', () => ({
+  apiPost: (...args: unknown[]) => mockApiPost(...args),
+  apiPut: (...args: unknown[]) => mockApiPut(...args),
+  apiDelete: (...args: unknown[]) => mockApiDelete(...args),
+}));
+
+import { addProductVariant, deleteProductVariant, duplicateColor, updateProductVariant } from './productVariantsApi';
+
+describe('productVariantsApi', () => {
+  beforeEach(() => {
+    mockApiPost.mockReset().mockResolvedValue({ id: 'p-1', variants: [] });
+    mockApiPut.mockReset().mockResolvedValue({ id: 'p-1', variants: [] });
+    mockApiDelete.mockReset().mockResolvedValue(undefined);
+  });
+
+  it('adds a variant to a product at a warehouse', async () => {
+    await addProductVariant('p-1', 'wh-1', { color: ' Black ', sku: 'RUN-BLK' });
+    expect(mockApiPost).toHaveBeenCalledWith('https://test.example.com', '/api/products/variants', {
+      productId: 'p-1',
+      warehouseId: 'wh-1',
+      color: 'Black',
+      sku: 'RUN-BLK',
+    });
+  });
+
+  it('updates and removes a variant by id', async () => {
+    await updateProductVariant('v-1', 'wh-1', { quantityBySize: [{ sizeCode: 'EU42', quantity: 3 }] });
+    expect(mockApiPut.mock.calls[0][1]).toBe('/api/products/variants/v-1');
+    expect(mockApiPut.mock.calls[0][2]).toEqual({ quantityBySize: [{ sizeCode: 'EU42', quantity: 3 }], warehouseId: 'wh-1' });
+    await deleteProductVariant('v-1', 'wh-1');
+    expect(mockApiDelete.mock.calls[0][1]).toBe('/api/products/variants/v-1?warehouse_id=wh-1');
+  });
+
+  it('finds a colour already used by another variant', () => {
+    const variants = [{ id: 'v-1', color: 'Black' }, { id: 'v-2', color: 'White' }];
+    expect(duplicateColor(variants, ' black')).toBe('Black');
+    expect(duplicateColor(variants, 'Black', 'v-1')).toBeNull();
+    expect(duplicateColor(variants, 'Red')).toBeNull();
+  });
+});
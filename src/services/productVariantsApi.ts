@@ -0,0 +1,54 @@
+/**
+ * Colour variants of a product: /api/products/variants. A variant has its own colour, SKU, barcode, images and stock;
+ * name, category, prices and tax come from its product. Add and update return the product with all its variants.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiDelete, apiPost, apiPut } from '../lib/apiClient';
+import type { Product, ProductVariant } from '../types';
+
+export interface VariantInput {
+  color?: string;
+  sku?: string;
+  barcode?: string | null;
+  images?: string[];
+  sizeKind?: ProductVariant['sizeKind'];
+  quantity?: number;
+  quantityBySize?: Array<{ sizeCode: string; quantity: number }>;
+}
+
+/** Product as returned by the variant endpoints (raw API shape; dates as strings). */
+export type ProductWithVariants = Omit<Product, 'createdAt' | 'updatedAt'> & { variants: ProductVariant[] };
+
+/** Colour already used by another variant of the product (case-insensitive), or null. */
+export function duplicateColor(variants: Pick<ProductVariant, 'id' | 'color'>[], color: string, exceptId?: string): string | null {
+  const norm = color.trim().toLowerCase();
+  if (!norm) return null;
+  return variants.find((v) => v.id !== exceptId && v.color.trim().toLowerCase() === norm)?.color ?? null;
+}
+
+export function addProductVariant(
+  productId: string,
+  warehouseId: string,
+  input: VariantInput & { color: string }
+): Promise<ProductWithVariants> {
+  return apiPost<ProductWithVariants>(API_BASE_URL, '/api/products/variants', {
+    ...input,
+    productId,
+    warehouseId,
+    color: input.color.trim(),
+  });
+}
+
+export function updateProductVariant(variantId: string, warehouseId: string, input: VariantInput): Promise<ProductWithVariants> {
+  return apiPut<ProductWithVariants>(API_BASE_URL, `/api/products/variants/${encodeURIComponent(variantId)}`, {
+    ...input,
+    warehouseId,
+  });
+}
+
+/** Only a variant without stock in any warehouse can be removed. */
+export function deleteProductVariant(variantId: string, warehouseId: string): Promise<void> {
+  const qs = new URLSearchParams({ warehouse_id: warehouseId }).toString();
+  return apiDelete(API_BASE_URL, `/api/products/variants/${encodeURIComponent(variantId)}?${qs}`);
+}
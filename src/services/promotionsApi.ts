@@ -0,0 +1,80 @@
+/**
+ * Promotions: /api/promotions. The POS loads the promotions running at its warehouse and prices the cart with
+ * them (lib/promotions.ts); managers create, edit and end promotions from the Promotions page.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiGet, apiPatch, apiPost } from '../lib/apiClient';
+
+export type PromotionKind = 'percent_off' | 'fixed_off' | 'buy_x_get_y' | 'bundle_price' | 'second_half_off';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  kind: PromotionKind;
+  /** Empty productIds and categories = every product. */
+  productIds: string[];
+  categories: string[];
+  /** Empty = every warehouse. */
+  warehouseIds: string[];
+  percentOff: number | null;
+  amountOff: number | null;
+  buyQty: number | null;
+  getQty: number | null;
+  bundleQty: number | null;
+  bundlePrice: number | null;
+  startsAt: string;
+  endsAt: string | null;
+  active: boolean;
+  createdByEmail: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PromotionInput = Partial<Omit<Promotion, 'id' | 'createdByEmail' | 'createdAt' | 'updatedAt'>>;
+
+export const PROMOTION_KIND_LABELS: Record<PromotionKind, string> = {
+  percent_off: '% off',
+  fixed_off: 'GH₵ off each',
+  buy_x_get_y: 'Buy X get Y free',
+  bundle_price: 'Bundle price',
+  second_half_off: 'Second item half off',
+};
+
+/** Short description of the deal, e.g. "Buy 2 get 1 free" or "3 for GH₵100.00". */
+export function describePromotion(p: Promotion): string {
+  switch (p.kind) {
+    case 'percent_off':
+      return `${p.percentOff ?? 0}% off`;
+    case 'fixed_off':
+      return `GH₵${(p.amountOff ?? 0).toFixed(2)} off each`;
+    case 'buy_x_get_y':
+      return `Buy ${p.buyQty ?? 0} get ${p.getQty ?? 0} free`;
+    case 'bundle_price':
+      return `${p.bundleQty ?? 0} for GH₵${(p.bundlePrice ?? 0).toFixed(2)}`;
+    case 'second_half_off':
+      return 'Second item half off';
+  }
+}
+
+export async function fetchActivePromotions(warehouseId: string): Promise<Promotion[]> {
+  const res = await apiGet<{ data: Promotion[] }>(
+    API_BASE_URL,
+    `/api/promotions?warehouse_id=${encodeURIComponent(warehouseId)}`
+  );
+  return res.data ?? [];
+}
+
+/** Every promotion (managers). */
+export async function fetchPromotions(): Promise<Promotion[]> {
+  const res = await apiGet<{ data: Promotion[] }>(API_BASE_URL, '/api/promotions');
+  return res.data ?? [];
+}
+
+export function createPromotion(input: PromotionInput): Promise<Promotion> {
+  return apiPost<Promotion>(API_BASE_URL, '/api/promotions', input);
+}
+
+export function updatePromotion(id: string, input: PromotionInput): Promise<Promotion> {
+  return apiPatch<Promotion>(API_BASE_URL, `/api/promotions/${encodeURIComponent(id)}`, input);
+}
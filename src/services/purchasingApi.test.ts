@@ -0,0 +1,56 @@
+/**
+ * Purchasing: PO outstanding qty / progress and grouping reorder suggestions per supplier.
+ */
+import { describe, it, expect } from 'vitest';
+import { groupSuggestionsBySupplier, outstandingQty, poProgress, type ReorderSuggestion } from './purchasingApi';
+
+function suggestion(over: Partial<ReorderSuggestion>): ReorderSuggestion {
+  return {
+    productId: 'p',
+    name: 'Item',
+    sku: 'SKU',
+    supplierId: null,
+    supplierName: null,
+    onHand: 0,
+    onOrder: 0,
+    reorderLevel: 5,
+    sold: 0,
+    dailyRate: 0,
+    daysOfCover: null,
+    suggestedQty: 5,
+    ...over,
+  };
+}
+
+describe('outstandingQty / poProgress', () => {
+  const lines = [
+    { qtyOrdered: 10, qtyReceived: 4 },
+    { qtyOrdered: 5, qtyReceived: 5 },
+  ];
+
+  it('never goes below zero', () => {
+    expect(outstandingQty({ qtyOrdered: 2, qtyReceived: 3 })).toBe(0);
+  });
+
+  it('sums ordered, received and outstanding units', () => {
+    expect(poProgress({ lines: lines as never })).toEqual({ ordered: 15, received: 9, outstanding: 6 });
+  });
+});
+
+describe('groupSuggestionsBySupplier', () => {
+  it('groups by supplier, named suppliers first and unassigned last', () => {
+    const groups = groupSuggestionsBySupplier([
+      suggestion({ productId: 'a' }),
+      suggestion({ productId: 'b', supplierId: 's2', supplierName: 'Zed Kids' }),
+      suggestion({ productId: 'c', supplierId: 's1', supplierName: 'Accra Wholesale' }),
+      suggestion({ productId: 'd', supplierId: 's2', supplierName: 'Zed Kids' }),
+    ]);
+    expect(groups.map((g) => g.supplierId)).toEqual(['s1', 's2', null]);
+    expect(groups[1].items.map((i) => i.productId)).toEqual(['b', 'd']);
+  });
+
+  it('drops a legacy supplier name when there is no supplier record', () => {
+    const [group] = groupSuggestionsBySupplier([suggestion({ supplierName: 'From product jsonb' })]);
+    expect(group.supplierName).toBeNull();
+  });
+});
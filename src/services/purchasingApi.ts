@@ -0,0 +1,183 @@
+/**
+ * Suppliers, purchase orders and reorder suggestions: /api/suppliers, /api/purchase-orders.
+ * PO status: draft → sent → partially_received → closed. Receiving against a PO writes a GRN and updates cost price.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiDelete, apiGet, apiPatch, apiPost } from '../lib/apiClient';
+import type { GoodsReceipt } from './receivingApi';
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName: string | null;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SupplierInput = Partial<Pick<Supplier, 'name' | 'contactName' | 'phone' | 'email' | 'notes' | 'isActive'>>;
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'closed';
+
+export interface PurchaseOrderLine {
+  id: string;
+  productId: string;
+  productName: string | null;
+  sku: string | null;
+  sizeCode: string | null;
+  qtyOrdered: number;
+  qtyReceived: number;
+  unitCost: number | null;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  supplierId: string;
+  supplierName: string | null;
+  warehouseId: string;
+  status: PurchaseOrderStatus;
+  expectedDate: string | null;
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  sentAt: string | null;
+  closedAt: string | null;
+  totalCost: number;
+  lines: PurchaseOrderLine[];
+}
+
+export interface PurchaseOrderLineInput {
+  productId: string;
+  sizeCode: string | null;
+  qty: number;
+  unitCost: number | null;
+}
+
+export interface CreatePurchaseOrderRequest {
+  supplierId: string;
+  warehouseId: string;
+  lines: PurchaseOrderLineInput[];
+  expectedDate?: string | null;
+  notes?: string | null;
+}
+
+export interface ReorderSuggestion {
+  productId: string;
+  name: string;
+  sku: string;
+  supplierId: string | null;
+  supplierName: string | null;
+  onHand: number;
+  onOrder: number;
+  reorderLevel: number;
+  sold: number;
+  dailyRate: number;
+  daysOfCover: number | null;
+  suggestedQty: number;
+}
+
+export const PO_STATUS_LABEL: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Part received',
+  closed: 'Closed',
+};
+
+/** Units still expected on a PO line. */
+export function outstandingQty(line: Pick<PurchaseOrderLine, 'qtyOrdered' | 'qtyReceived'>): number {
+  return Math.max(0, line.qtyOrdered - line.qtyReceived);
+}
+
+/** Ordered / received / outstanding unit totals for a PO. */
+export function poProgress(po: Pick<PurchaseOrder, 'lines'>): { ordered: number; received: number; outstanding: number } {
+  return po.lines.reduce(
+    (acc, l) => ({
+      ordered: acc.ordered + l.qtyOrdered,
+      received: acc.received + l.qtyReceived,
+      outstanding: acc.outstanding + outstandingQty(l),
+    }),
+    { ordered: 0, received: 0, outstanding: 0 }
+  );
+}
+
+/**
+ * Group reorder suggestions by supplier so one draft PO can be raised per supplier.
+ * Products without a supplier are grouped under supplierId null.
+ */
+export function groupSuggestionsBySupplier(
+  rows: ReorderSuggestion[]
+): Array<{ supplierId: string | null; supplierName: string | null; items: ReorderSuggestion[] }> {
+  const groups = new Map<string, { supplierId: string | null; supplierName: string | null; items: ReorderSuggestion[] }>();
+  for (const r of rows) {
+    const key = r.supplierId ?? '';
+    const group = groups.get(key) ?? { supplierId: r.supplierId, supplierName: r.supplierId ? r.supplierName : null, items: [] };
+    group.items.push(r);
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) => {
+    if (!a.supplierId) return 1;
+    if (!b.supplierId) return -1;
+    return (a.supplierName ?? '').localeCompare(b.supplierName ?? '');
+  });
+}
+
+// ── Suppliers ──────────────────────────────────────────────────────────────
+
+export async function fetchSuppliers(includeInactive = false): Promise<Supplier[]> {
+  const qs = includeInactive ? '?include_inactive=1' : '';
+  const res = await apiGet<{ data?: Supplier[] }>(API_BASE_URL, `/api/suppliers${qs}`);
+  return res?.data ?? [];
+}
+
+export function createSupplier(body: SupplierInput): Promise<Supplier> {
+  return apiPost<Supplier>(API_BASE_URL, '/api/suppliers', body);
+}
+
+export function updateSupplier(id: string, body: SupplierInput): Promise<Supplier> {
+  return apiPatch<Supplier>(API_BASE_URL, `/api/suppliers/${encodeURIComponent(id)}`, body);
+}
+
+export function deactivateSupplier(id: string): Promise<void> {
+  return apiDelete(API_BASE_URL, `/api/suppliers/${encodeURIComponent(id)}`);
+}
+
+// ── Purchase orders ────────────────────────────────────────────────────────
+
+export async function fetchPurchaseOrders(warehouseId: string, status?: PurchaseOrderStatus): Promise<PurchaseOrder[]> {
+  const params = new URLSearchParams({ warehouse_id: warehouseId });
+  if (status) params.set('status', status);
+  const res = await apiGet<{ data?: PurchaseOrder[] }>(API_BASE_URL, `/api/purchase-orders?${params.toString()}`);
+  return res?.data ?? [];
+}
+
+export function createPurchaseOrder(body: CreatePurchaseOrderRequest): Promise<PurchaseOrder> {
+  return apiPost<PurchaseOrder>(API_BASE_URL, '/api/purchase-orders', body);
+}
+
+export function updatePurchaseOrder(
+  id: string,
+  body: { action: 'send' | 'close' } | { lines?: PurchaseOrderLineInput[]; expectedDate?: string | null; notes?: string | null }
+): Promise<PurchaseOrder> {
+  return apiPatch<PurchaseOrder>(API_BASE_URL, `/api/purchase-orders/${encodeURIComponent(id)}`, body);
+}
+
+export function receivePurchaseOrder(
+  id: string,
+  body: { lines: Array<{ poLineId: string; qty: number }>; reference?: string | null; notes?: string | null }
+): Promise<{ purchaseOrder: PurchaseOrder; receipt: GoodsReceipt | null }> {
+  return apiPost(API_BASE_URL, `/api/purchase-orders/${encodeURIComponent(id)}/receive`, body);
+}
+
+export async function fetchReorderSuggestions(warehouseId: string): Promise<ReorderSuggestion[]> {
+  const params = new URLSearchParams({ warehouse_id: warehouseId });
+  const res = await apiGet<{ data?: ReorderSuggestion[] }>(
+    API_BASE_URL,
+    `/api/purchase-orders/reorder-suggestions?${params.toString()}`
+  );
+  return res?.data ?? [];
+}
@@ -0,0 +1,53 @@
+/**
+ * Receiving: repeated scans merge into one line per product/size; GRN print escapes supplier input.
+ */
+import { describe, it, expect } from 'vitest';
+import { addReceiveLine, type GoodsReceipt, type ReceiveDraftLine } from './receivingApi';
+import { buildGrnHtml } from '../lib/grnTemplate';
+
+const tee: ReceiveDraftLine = { productId: 'p1', name: 'Tee', sku: 'TEE-1', sizeCode: 'm', qty: 1 };
+
+describe('addReceiveLine', () => {
+  it('adds a new line with an upper-cased size code', () => {
+    expect(addReceiveLine([], tee)).toEqual([{ ...tee, sizeCode: 'M' }]);
+  });
+
+  it('bumps qty when the same product and size is added again', () => {
+    const lines = addReceiveLine(addReceiveLine([], tee), { ...tee, sizeCode: 'M', qty: 4 });
+    expect(lines).toHaveLength(1);
+    expect(lines[0].qty).toBe(5);
+  });
+
+  it('keeps different sizes and non-sized products on separate lines', () => {
+    let lines = addReceiveLine([], tee);
+    lines = addReceiveLine(lines, { ...tee, sizeCode: 'L' });
+    lines = addReceiveLine(lines, { productId: 'p2', name: 'Cap', sku: 'CAP', sizeCode: null, qty: 2 });
+    expect(lines.map((l) => l.sizeCode)).toEqual(['M', 'L', null]);
+  });
+});
+
+describe('buildGrnHtml', () => {
+  const grn: GoodsReceipt = {
+    id: 'g1',
+    grnNumber: 'GRN-20260316-0001',
+    warehouseId: 'w1',
+    supplierName: 'Kids <Wholesale>',
+    reference: 'INV-88',
+    notes: null,
+    receivedBy: 'staff@example.com',
+    createdAt: '2026-03-16T10:00:00.000Z',
+    totalUnits: 3,
+    lines: [{ id: 'l1', productId: 'p1', productName: 'Tee', sku: 'TEE-1', sizeCode: 'M', qty: 3 }],
+  };
+
+  it('includes the GRN number, lines and total units', () => {
+    const html = buildGrnHtml(grn, 'Main Store');
+    expect(html).toContain('GRN-20260316-0001');
+    expect(html).toContain('Main Store');
+    expect(html).toContain('<td class="qty">3</td>');
+  });
+
+  it('escapes supplier text', () => {
+    expect(buildGrnHtml(grn)).toContain('Kids &lt;Wholesale&gt;');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Goods receiving: POST /api/deliveries/receive writes a goods-received note (GRN) and adds stock;
+ * GET /api/deliveries/receipts lists stored GRNs for reprint.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiGet, apiPost } from '../lib/apiClient';
+
+export interface GoodsReceiptLine {
+  id: string;
+  productId: string;
+  productName: string | null;
+  sku: string | null;
+  sizeCode: string | null;
+  qty: number;
+}
+
+export interface GoodsReceipt {
+  id: string;
+  grnNumber: string;
+  warehouseId: string;
+  supplierName: string | null;
+  reference: string | null;
+  notes: string | null;
+  receivedBy: string | null;
+  createdAt: string;
+  totalUnits: number;
+  lines: GoodsReceiptLine[];
+}
+
+/** A line on the receiving screen before it is submitted. */
+export interface ReceiveDraftLine {
+  productId: string;
+  name: string;
+  sku: string;
+  sizeCode: string | null;
+  qty: number;
+}
+
+export interface RecordReceiptRequest {
+  warehouseId: string;
+  lines: Array<{ productId: string; sizeCode: string | null; qty: number }>;
+  supplierName?: string | null;
+  reference?: string | null;
+  notes?: string | null;
+}
+
+function lineKey(productId: string, sizeCode: string | null): string {
+  return `${productId}:${(sizeCode ?? '').trim().toUpperCase()}`;
+}
+
+/**
+ * Add qty for a product/size, merging into an existing line (scanning the same item twice bumps the qty).
+ * Size codes compare case-insensitively, matching the by-size upper-case normalisation on the server.
+ */
+export function addReceiveLine(lines: ReceiveDraftLine[], add: ReceiveDraftLine): ReceiveDraftLine[] {
+  const key = lineKey(add.productId, add.sizeCode);
+  const idx = lines.findIndex((l) => lineKey(l.productId, l.sizeCode) === key);
+  if (idx === -1) return [...lines, { ...add, sizeCode: add.sizeCode?.trim().toUpperCase() || null }];
+  return lines.map((l, i) => (i === idx ? { ...l, qty: l.qty + add.qty } : l));
+}
+
+export function recordReceipt(body: RecordReceiptRequest): Promise<GoodsReceipt> {
+  return apiPost<GoodsReceipt>(API_BASE_URL, '/api/deliveries/receive', body);
+}
+
+export async function fetchReceipts(warehouseId: string, limit = 20): Promise<GoodsReceipt[]> {
+  const params = new URLSearchParams({ warehouse_id: warehouseId, limit: String(limit) });
+  const res = await apiGet<{ data?: GoodsReceipt[] }>(API_BASE_URL, `/api/deliveries/receipts?${params.toString()}`);
+  return res?.data ?? [];
+}
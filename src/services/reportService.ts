@@ -11,6 +11,7 @@ export function mapApiReportToSalesReport(api: SalesReportApiResponse): SalesRep
     totalTransactions: Number(api.transactionCount ?? 0),
     totalItemsSold: Number(api.unitsSold ?? 0),
     averageOrderValue: Number(api.averageOrderValue ?? 0),
+    promotionCost: api.promotionCost != null ? Number(api.promotionCost) : undefined,
     topSellingProducts: (api.topProducts ?? []).map((p) => ({
       productName: String(p.productName ?? ''),
       quantitySold: Number(p.unitsSold ?? 0),
@@ -25,6 +26,13 @@ export function mapApiReportToSalesReport(api: SalesReportApiResponse): SalesRep
       revenue: Number(d.revenue ?? 0),
       transactions: Number(d.transactions ?? 0),
     })),
+    promotions: (api.promotions ?? []).map((p) => ({
+      name: String(p.name ?? ''),
+      sales: Number(p.sales ?? 0),
+      units: Number(p.units ?? 0),
+      revenue: Number(p.revenue ?? 0),
+      discount: Number(p.discount ?? 0),
+    })),
   };
 }
 
@@ -36,6 +44,8 @@ export interface SalesReport {
   totalTransactions: number;
   totalItemsSold: number;
   averageOrderValue: number;
+  /** GH₵ given away by promotions. Present when report from API. */
+  promotionCost?: number;
   topSellingProducts: Array<{
     productName: string;
     quantitySold: number;
@@ -54,6 +64,14 @@ export interface SalesReport {
     revenue: number;
     transactions: number;
   }>;
+  /** Per-promotion cost (API only). */
+  promotions?: Array<{
+    name: string;
+    sales: number;
+    units: number;
+    revenue: number;
+    discount: number;
+  }>;
 }
 
 export interface InventoryReport {
@@ -13,6 +13,8 @@ export interface SalesReportApiResponse {
   transactionCount: number;
   unitsSold: number;
   averageOrderValue: number;
+  /** GH₵ taken off by promotions (sum of sale_lines.discount_amt); revenue is already net of it. */
+  promotionCost?: number;
   topProducts: Array<{
     productId?: string;
     productName?: string;
@@ -27,6 +29,15 @@ export interface SalesReportApiResponse {
     revenue: number;
     transactions: number;
   }>;
+  /** Cost per promotion, largest first. */
+  promotions?: Array<{
+    promotionId: string | null;
+    name: string;
+    sales: number;
+    units: number;
+    revenue: number;
+    discount: number;
+  }>;
 }
 
 export interface FetchSalesReportParams {
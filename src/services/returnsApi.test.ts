@@ -0,0 +1,45 @@
+/**
+ * Returns: returnable qty and refund estimate (must match record_return's rounding).
+ */
+import { describe, it, expect } from 'vitest';
+import { estimateRefund, returnableQty } from './returnsApi';
+
+const sale = {
+  subtotal: 400,
+  total: 360, // 10% sale discount
+  lines: [
+    { id: 'l1', qty: 2, lineTotal: 200 },
+    { id: 'l2', qty: 1, lineTotal: 200, returnedQty: 1 },
+  ],
+};
+
+describe('returnableQty', () => {
+  it('subtracts units already returned', () => {
+    expect(returnableQty(sale.lines[0])).toBe(2);
+    expect(returnableQty(sale.lines[1])).toBe(0);
+  });
+});
+
+describe('estimateRefund', () => {
+  it('refunds the discounted unit price for the selected qty', () => {
+    expect(estimateRefund(sale, [{ saleLineId: 'l1', qty: 1 }])).toBe(90);
+  });
+
+  it('ignores unknown lines and zero qty', () => {
+    expect(estimateRefund(sale, [{ saleLineId: 'nope', qty: 1 }, { saleLineId: 'l1', qty: 0 }])).toBe(0);
+  });
+
+  it('refunds tax that was added on top of the price', () => {
+    const taxed = {
+      subtotal: 400,
+      discountAmt: 40,
+      total: 438.84,
+      lines: [{ id: 'l1', qty: 2, lineTotal: 400, taxInclusive: false, taxAmount: 78.84 }],
+    };
+    expect(estimateRefund(taxed, [{ saleLineId: 'l1', qty: 1 }])).toBe(219.42);
+  });
+
+  it('uses full price when the sale has no subtotal', () => {
+    expect(estimateRefund({ subtotal: 0, total: 0, lines: sale.lines }, [{ saleLineId: 'l1', qty: 2 }])).toBe(200);
+  });
+});
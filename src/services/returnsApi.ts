@@ -0,0 +1,92 @@
+/**
+ * Partial returns and exchanges: POST /api/sales/returns.
+ * The server (record_return) is authoritative for refund amounts; estimateRefund mirrors its rounding
+ * so the sheet can show the cashier what will be handed back before submitting.
+ */
+
+import { apiPost } from '../lib/apiClient';
+
+/** store_credit goes to the sale's directory customer (only for sales with a customerId). */
+export type RefundMethod = 'cash' | 'card' | 'mobile_money' | 'store_credit';
+
+export interface ReturnableLine {
+  id: string;
+  qty: number;
+  lineTotal: number;
+  /** Units of this line already returned (from GET /api/sales). */
+  returnedQty?: number;
+  /** false: taxAmount was added on top of lineTotal and is refunded with it. */
+  taxInclusive?: boolean | null;
+  taxAmount?: number;
+}
+
+export interface ReturnLineInput {
+  saleLineId: string;
+  qty: number;
+}
+
+export interface ExchangeLineInput {
+  productId: string;
+  sizeCode: string | null;
+  qty: number;
+  unitPrice: number;
+  name: string;
+  sku?: string;
+  imageUrl?: string | null;
+}
+
+export interface RecordReturnRequest {
+  saleId: string;
+  lines: ReturnLineInput[];
+  refundMethod: RefundMethod;
+  reason?: string | null;
+  exchangeLines?: ExchangeLineInput[];
+  /** Approval token (POST /api/manager-approvals) when the refund is over the role's limit. */
+  managerApproval?: string | null;
+  /** Open till session on this device; the refund is paid out of that drawer. */
+  tillSessionId?: string | null;
+}
+
+export interface RecordReturnResponse {
+  id: string;
+  saleId: string;
+  type: 'return' | 'exchange';
+  refundAmount: number;
+  refundMethod: RefundMethod;
+  itemCount: number;
+  exchangeSale: { id: string; receiptId: string; total: number } | null;
+  /** Exchange total minus refund: > 0 customer pays the difference, < 0 store pays out. */
+  netAmount: number;
+  /** Points earned on the sale taken back for the refunded value. */
+  pointsReversed?: number;
+  createdAt: string;
+}
+
+/** Units of a sale line that can still be returned. */
+export function returnableQty(line: ReturnableLine): number {
+  return Math.max(0, line.qty - (line.returnedQty ?? 0));
+}
+
+/**
+ * Refund for the selected units at the price actually paid (sale discount spread across lines, plus any tax added
+ * on top), rounded per line to 2dp like record_return. Without discountAmt the discount is read off total.
+ */
+export function estimateRefund(
+  sale: { subtotal: number; total: number; discountAmt?: number; lines: ReturnableLine[] },
+  selection: ReturnLineInput[]
+): number {
+  const paid = sale.discountAmt != null ? sale.subtotal - sale.discountAmt : sale.total;
+  const ratio = sale.subtotal > 0 ? paid / sale.subtotal : 1;
+  let refund = 0;
+  for (const sel of selection) {
+    const line = sale.lines.find((l) => l.id === sel.saleLineId);
+    if (!line || line.qty <= 0 || sel.qty <= 0) continue;
+    const addedTax = line.taxInclusive === false ? line.taxAmount ?? 0 : 0;
+    refund += Math.round(((line.lineTotal * ratio + addedTax) / line.qty) * sel.qty * 100) / 100;
+  }
+  return Math.round(refund * 100) / 100;
+}
+
+export async function recordReturn(baseUrl: string, body: RecordReturnRequest): Promise<RecordReturnResponse> {
+  return apiPost<RecordReturnResponse>(baseUrl, '/api/sales/returns', body);
+}
@@ -0,0 +1,36 @@
+/**
+ * Stock take: per-line variance and the review summary (units over/short, value of approved variances).
+ */
+import { describe, it, expect } from 'vitest';
+import { lineVariance, varianceSummary } from './stockCountApi';
+
+describe('lineVariance', () => {
+  it('is null until the line is counted', () => {
+    expect(lineVariance({ expectedQty: 4, countedQty: null })).toBeNull();
+  });
+
+  it('is counted minus expected', () => {
+    expect(lineVariance({ expectedQty: 4, countedQty: 1 })).toBe(-3);
+    expect(lineVariance({ expectedQty: 0, countedQty: 2 })).toBe(2);
+  });
+});
+
+describe('varianceSummary', () => {
+  it('splits over and short units and counts uncounted lines', () => {
+    const s = varianceSummary([
+      { expectedQty: 5, countedQty: 7, unitCost: 10, approved: true },
+      { expectedQty: 5, countedQty: 2, unitCost: 10, approved: true },
+      { expectedQty: 3, countedQty: null, unitCost: 10, approved: true },
+    ]);
+    expect(s).toEqual({ counted: 2, uncounted: 1, unitsOver: 2, unitsShort: 3, valueImpact: -10 });
+  });
+
+  it('leaves rejected lines out of the value impact', () => {
+    const s = varianceSummary([
+      { expectedQty: 5, countedQty: 0, unitCost: 12.5, approved: false },
+      { expectedQty: 1, countedQty: 2, unitCost: 0.1, approved: true },
+    ]);
+    expect(s.unitsShort).toBe(5);
+    expect(s.valueImpact).toBe(0.1);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Stock take / cycle count sessions: /api/stock-counts.
+ * Session status: counting → review → applied (or cancelled). Expected qty is frozen when the session starts;
+ * applying adds the approved variances to current stock as 'adjustment' movements.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiGet, apiPatch, apiPost } from '../lib/apiClient';
+
+export type StockCountStatus = 'counting' | 'review' | 'applied' | 'cancelled';
+
+export interface StockCountLine {
+  id: string;
+  productId: string;
+  productName: string | null;
+  sku: string | null;
+  barcode: string | null;
+  sizeCode: string | null;
+  expectedQty: number;
+  countedQty: number | null;
+  unitCost: number;
+  approved: boolean;
+  countedBy: string | null;
+  updatedAt: string;
+}
+
+export interface StockCount {
+  id: string;
+  countNumber: string;
+  warehouseId: string;
+  category: string | null;
+  status: StockCountStatus;
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  submittedAt: string | null;
+  appliedBy: string | null;
+  appliedAt: string | null;
+  /** Present on the detail endpoints, not on the list. */
+  lines?: StockCountLine[];
+}
+
+export interface StockCountEntry {
+  productId: string;
+  sizeCode: string | null;
+  qty: number;
+  /** 'add' increments (scans, several counters); 'set' overwrites the counted qty. */
+  mode: 'add' | 'set';
+}
+
+export interface ApplyStockCountResult {
+  stockCount: StockCount;
+  linesAdjusted: number;
+  unitsDelta: number;
+  valueDelta: number;
+}
+
+export const COUNT_STATUS_LABEL: Record<StockCountStatus, string> = {
+  counting: 'Counting',
+  review: 'In review',
+  applied: 'Applied',
+  cancelled: 'Cancelled',
+};
+
+/** counted − expected; null while the line has not been counted. */
+export function lineVariance(line: Pick<StockCountLine, 'expectedQty' | 'countedQty'>): number | null {
+  return line.countedQty == null ? null : line.countedQty - line.expectedQty;
+}
+
+export interface VarianceSummary {
+  counted: number;
+  uncounted: number;
+  unitsOver: number;
+  unitsShort: number;
+  /** Cost value of approved variances (negative = shrinkage). */
+  valueImpact: number;
+}
+
+/** Totals for the review screen. Uncounted lines are left alone on apply, so they carry no variance. */
+export function varianceSummary(
+  lines: Array<Pick<StockCountLine, 'expectedQty' | 'countedQty' | 'unitCost' | 'approved'>>
+): VarianceSummary {
+  const summary: VarianceSummary = { counted: 0, uncounted: 0, unitsOver: 0, unitsShort: 0, valueImpact: 0 };
+  for (const line of lines) {
+    const variance = lineVariance(line);
+    if (variance == null) {
+      summary.uncounted += 1;
+      continue;
+    }
+    summary.counted += 1;
+    if (variance > 0) summary.unitsOver += variance;
+    else summary.unitsShort += -variance;
+    if (line.approved) summary.valueImpact += variance * line.unitCost;
+  }
+  summary.valueImpact = Math.round(summary.valueImpact * 100) / 100;
+  return summary;
+}
+
+export async function fetchStockCounts(warehouseId: string): Promise<StockCount[]> {
+  const params = new URLSearchParams({ warehouse_id: warehouseId });
+  const res = await apiGet<{ data?: StockCount[] }>(API_BASE_URL, `/api/stock-counts?${params.toString()}`);
+  return res?.data ?? [];
+}
+
+export function fetchStockCount(id: string): Promise<StockCount> {
+  return apiGet<StockCount>(API_BASE_URL, `/api/stock-counts/${encodeURIComponent(id)}`);
+}
+
+export function startStockCount(body: {
+  warehouseId: string;
+  category?: string | null;
+  notes?: string | null;
+}): Promise<StockCount> {
+  return apiPost<StockCount>(API_BASE_URL, '/api/stock-counts', body);
+}
+
+export function recordStockCountEntries(id: string, entries: StockCountEntry[]): Promise<StockCount> {
+  return apiPost<StockCount>(API_BASE_URL, `/api/stock-counts/${encodeURIComponent(id)}/entries`, { entries });
+}
+
+export function updateStockCount(
+  id: string,
+  body: { action: 'submit' | 'reopen' | 'cancel' } | { approvals: Record<string, boolean> }
+): Promise<StockCount> {
+  return apiPatch<StockCount>(API_BASE_URL, `/api/stock-counts/${encodeURIComponent(id)}`, body);
+}
+
+export function applyStockCount(id: string): Promise<ApplyStockCountResult> {
+  return apiPost<ApplyStockCountResult>(API_BASE_URL, `/api/stock-counts/${encodeURIComponent(id)}/apply`, {});
+}
@@ -0,0 +1,39 @@
+/**
+ * Stock card: request paths per size lane and reference labels.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/api', () => ({ API_BASE_URL: 'https://test.example.com' }));
+
+const mockApiGet = vi.fn();
+vi.mock('../lib/apiClient', () => ({
+  apiGet: (...args: unknown[]) => mockApiGet(...args),
+}));
+
+import { fetchStockCard, stockReferenceLabel } from './stockLedgerApi';
+
+describe('fetchStockCard', () => {
+  beforeEach(() => {
+    mockApiGet.mockReset();
+    mockApiGet.mockResolvedValue({ data: [], nextBefore: null });
+  });
+
+  it('asks for every lane when no size is given', async () => {
+    await fetchStockCard('wh-1', 'p-1');
+    expect(mockApiGet.mock.calls[0][1]).toBe('/api/stock-ledger?warehouse_id=wh-1&product_id=p-1');
+  });
+
+  it('filters by size, or by the product-level lane for null', async () => {
+    await fetchStockCard('wh-1', 'p-1', { sizeCode: 'EU42', before: '90' });
+    await fetchStockCard('wh-1', 'p-1', { sizeCode: null });
+    expect(mockApiGet.mock.calls[0][1]).toBe('/api/stock-ledger?warehouse_id=wh-1&product_id=p-1&size_code=EU42&before=90');
+    expect(mockApiGet.mock.calls[1][1]).toBe('/api/stock-ledger?warehouse_id=wh-1&product_id=p-1&size_code=');
+  });
+});
+
+describe('stockReferenceLabel', () => {
+  it('labels known reference types and falls back to the raw name', () => {
+    expect(stockReferenceLabel('void')).toBe('Sale voided');
+    expect(stockReferenceLabel('receive_purchase_order')).toBe('receive purchase order');
+  });
+});
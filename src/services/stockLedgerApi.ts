@@ -0,0 +1,74 @@
+/**
+ * Stock card: /api/stock-ledger. Every stock change for a product at a warehouse (one size, or all) with the
+ * balance before and after, what caused it and who, newest first. Written by DB triggers, so it covers every path
+ * that moves stock: sales, voids, returns, receipts, transfers, counts and product edits.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiGet } from '../lib/apiClient';
+
+export interface StockLedgerEntry {
+  id: string;
+  warehouseId: string;
+  productId: string;
+  /** null: product-level quantity (no sizes, or a total changed without a size). */
+  sizeCode: string | null;
+  quantityDelta: number;
+  balanceBefore: number;
+  balanceAfter: number;
+  referenceType: string;
+  referenceId: string | null;
+  actor: string | null;
+  createdAt: string;
+}
+
+export interface StockCardPage {
+  data: StockLedgerEntry[];
+  /** Pass as `before` for the next (older) page; null on the last page. */
+  nextBefore: string | null;
+}
+
+const REFERENCE_LABELS: Record<string, string> = {
+  sale: 'Sale',
+  void: 'Sale voided',
+  return: 'Return',
+  layaway: 'Layaway paid off',
+  layaway_release: 'Layaway released',
+  receipt: 'Goods received',
+  order_deduct: 'Order dispatched',
+  order_return: 'Order stock returned',
+  delivery: 'Delivery',
+  transfer_out: 'Transfer out',
+  transfer_in: 'Transfer in',
+  transfer_cancel: 'Transfer cancelled',
+  count: 'Stock count',
+  adjustment: 'Adjustment',
+  product_edit: 'Product edited',
+  reconciliation: 'Reconciliation',
+  variant: 'Colour variant added',
+  import: 'Product import',
+  untracked: 'Untracked change',
+  opening: 'Opening balance',
+  manual: 'Direct edit',
+  system: 'System',
+};
+
+/** Human label for a ledger reference type; unknown types are shown as-is. */
+export function stockReferenceLabel(referenceType: string): string {
+  return REFERENCE_LABELS[referenceType] ?? referenceType.replace(/_/g, ' ');
+}
+
+/**
+ * One page of the stock card. sizeCode: a size, null for the product-level lane, undefined for every lane.
+ */
+export function fetchStockCard(
+  warehouseId: string,
+  productId: string,
+  options: { sizeCode?: string | null; before?: string | null; limit?: number; signal?: AbortSignal } = {}
+): Promise<StockCardPage> {
+  const params = new URLSearchParams({ warehouse_id: warehouseId, product_id: productId });
+  if (options.sizeCode !== undefined) params.set('size_code', options.sizeCode ?? '');
+  if (options.before) params.set('before', options.before);
+  if (options.limit) params.set('limit', String(options.limit));
+  return apiGet<StockCardPage>(API_BASE_URL, `/api/stock-ledger?${params.toString()}`, { signal: options.signal });
+}
@@ -0,0 +1,78 @@
+/**
+ * Stock reconciliation: request shapes and which repairs a discrepancy offers.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/api', () => ({ API_BASE_URL: 'https://test.example.com' }));
+
+const mockApiGet = vi.fn();
+const mockApiPost = vi.fn();
+vi.mock('../lib/apiClient', () => ({
+  apiGet: (...args: unknown[]) => mockApiGet(...args),
+  apiPost: (...args: unknown[]) => mockApiPost(...args),
+}));
+
+import {
+  fetchStockDiscrepancies,
+  repairOptions,
+  repairStockDiscrepancy,
+  type StockDiscrepancy,
+} from './stockReconciliationApi';
+
+const base: StockDiscrepancy = {
+  warehouseId: 'wh-1',
+  productId: 'p-1',
+  productName: 'Runner',
+  sku: 'RUN-1',
+  sizeCode: null,
+  kind: 'total_vs_sizes',
+  onHand: 7,
+  expected: 5,
+  difference: 2,
+  hasTotalRow: true,
+  ledgerEntries: 3,
+  ledgerBalance: 7,
+  chainBreaks: 0,
+  lastReferenceType: 'order_return',
+  lastEntryAt: '2026-03-30T10:00:00Z',
+  causes: [],
+};
+
+describe('stock reconciliation requests', () => {
+  beforeEach(() => {
+    mockApiGet.mockReset();
+    mockApiPost.mockReset();
+    mockApiGet.mockResolvedValue({ data: [base] });
+    mockApiPost.mockResolvedValue({});
+  });
+
+  it('lists discrepancies for one warehouse or all of them', async () => {
+    expect(await fetchStockDiscrepancies('wh-1')).toEqual([base]);
+    await fetchStockDiscrepancies();
+    expect(mockApiGet.mock.calls[0][1]).toBe('/api/admin/stock-reconciliation?warehouse_id=wh-1');
+    expect(mockApiGet.mock.calls[1][1]).toBe('/api/admin/stock-reconciliation');
+  });
+
+  it('posts the discrepancy key with the chosen repair, dropping a blank note', async () => {
+    await repairStockDiscrepancy({ ...base, kind: 'ledger', sizeCode: 'EU42' }, 'accept', '  ');
+    expect(mockApiPost.mock.calls[0][1]).toBe('/api/admin/stock-reconciliation/repair');
+    expect(mockApiPost.mock.calls[0][2]).toEqual({
+      warehouseId: 'wh-1',
+      productId: 'p-1',
+      sizeCode: 'EU42',
+      kind: 'ledger',
+      action: 'accept',
+      note: undefined,
+    });
+  });
+});
+
+describe('repairOptions', () => {
+  it('only restores a total to its sizes; ledger drift can be restored or kept', () => {
+    expect(repairOptions(base).map((o) => o.action)).toEqual(['restore']);
+    expect(repairOptions({ ...base, kind: 'ledger' })).toEqual([
+      { action: 'restore', label: 'Restore to 5' },
+      { action: 'accept', label: 'Keep 7' },
+    ]);
+  });
+});
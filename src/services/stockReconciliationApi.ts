@@ -0,0 +1,77 @@
+/**
+ * Stock reconciliation (admin): /api/admin/stock-reconciliation. Products / sizes whose total is not the sum of
+ * their sizes, or whose stock is not what the stock ledger replays to, with likely causes and a repair that posts
+ * a correcting adjustment (audited server-side).
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiGet, apiPost } from '../lib/apiClient';
+
+export type DiscrepancyKind = 'total_vs_sizes' | 'ledger';
+/** restore: set stock to the expected quantity. accept: keep on-hand, record the missed change (ledger only). */
+export type RepairAction = 'restore' | 'accept';
+
+export interface StockDiscrepancy {
+  warehouseId: string;
+  productId: string;
+  productName: string | null;
+  sku: string | null;
+  /** null: the product total (total_vs_sizes) or a product without sizes (ledger). */
+  sizeCode: string | null;
+  kind: DiscrepancyKind;
+  onHand: number;
+  /** Sum of sizes (total_vs_sizes) or the ledger replay (ledger). */
+  expected: number;
+  difference: number;
+  hasTotalRow: boolean;
+  ledgerEntries: number;
+  ledgerBalance: number | null;
+  chainBreaks: number;
+  lastReferenceType: string | null;
+  lastEntryAt: string | null;
+  causes: string[];
+}
+
+export interface StockRepairResult {
+  id: string;
+  action: RepairAction;
+  onHandBefore: number;
+  onHandAfter: number;
+  adjustmentId: string | null;
+  adjustmentNumber: string | null;
+}
+
+export const DISCREPANCY_KIND_LABEL: Record<DiscrepancyKind, string> = {
+  total_vs_sizes: 'Total ≠ sizes',
+  ledger: 'Stock ≠ ledger',
+};
+
+/** Repairs that apply to a discrepancy, with button labels. A total can only be put back to its sizes. */
+export function repairOptions(d: StockDiscrepancy): { action: RepairAction; label: string }[] {
+  if (d.kind === 'total_vs_sizes') return [{ action: 'restore', label: `Set total to ${d.expected}` }];
+  return [
+    { action: 'restore', label: `Restore to ${d.expected}` },
+    { action: 'accept', label: `Keep ${d.onHand}` },
+  ];
+}
+
+export async function fetchStockDiscrepancies(warehouseId?: string): Promise<StockDiscrepancy[]> {
+  const qs = warehouseId ? `?${new URLSearchParams({ warehouse_id: warehouseId }).toString()}` : '';
+  const res = await apiGet<{ data?: StockDiscrepancy[] }>(API_BASE_URL, `/api/admin/stock-reconciliation${qs}`);
+  return res?.data ?? [];
+}
+
+export function repairStockDiscrepancy(
+  d: Pick<StockDiscrepancy, 'warehouseId' | 'productId' | 'sizeCode' | 'kind'>,
+  action: RepairAction,
+  note?: string
+): Promise<StockRepairResult> {
+  return apiPost<StockRepairResult>(API_BASE_URL, '/api/admin/stock-reconciliation/repair', {
+    warehouseId: d.warehouseId,
+    productId: d.productId,
+    sizeCode: d.sizeCode,
+    kind: d.kind,
+    action,
+    note: note?.trim() || undefined,
+  });
+}
@@ -3,7 +3,7 @@
  */
 
 import { API_BASE_URL } from '../lib/api';
-import { apiGet, apiPatch } from '../lib/apiClient';
+import { apiGet, apiPatch, apiPost } from '../lib/apiClient';
 
 export interface SyncRejection {
   id: string;
@@ -31,3 +31,14 @@ export async function fetchSyncRejections(options?: {
 export async function voidSyncRejection(id: string): Promise<void> {
   await apiPatch<{ ok: boolean }>(API_BASE_URL, `/api/sync-rejections/${id}/void`, {});
 }
+
+/** Record an offline sale this till discarded from its queue, so an admin sees it here. Any signed-in user. */
+export async function reportDiscardedSale(sale: {
+  idempotencyKey: string;
+  warehouseId: string;
+  reason: string;
+  localReceiptId?: string;
+  error?: string | null;
+}): Promise<void> {
+  await apiPost<{ ok: boolean }>(API_BASE_URL, '/api/sync-rejections', sale);
+}
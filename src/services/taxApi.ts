@@ -0,0 +1,102 @@
+/**
+ * Tax classes: /api/tax-classes. The POS loads the classes and category assignments to show tax in the cart
+ * (lib/tax.ts); the server works out the tax it records per sale line with the same classes. Managers edit them in
+ * Settings → Tax.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiGet, apiPatch, apiPost, apiPut } from '../lib/apiClient';
+
+export interface TaxComponent {
+  code: string;
+  label: string;
+  /** Percent. */
+  rate: number;
+  /** Charged on the base plus the non-compound components (Ghana VAT on top of NHIL, GETFund and COVID-19). */
+  compound: boolean;
+}
+
+export interface TaxClass {
+  id: string;
+  code: string;
+  name: string;
+  /** true: prices include the tax. false: the tax is added at the till. */
+  inclusive: boolean;
+  components: TaxComponent[];
+  isDefault: boolean;
+  active: boolean;
+  updatedByEmail: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CategoryTaxClass {
+  /** Lower-cased product category. */
+  category: string;
+  taxClassId: string;
+}
+
+export interface TaxSetup {
+  classes: TaxClass[];
+  categories: CategoryTaxClass[];
+}
+
+export type TaxClassInput = Partial<Pick<TaxClass, 'code' | 'name' | 'inclusive' | 'components' | 'isDefault' | 'active'>>;
+
+export interface TaxBreakdownItem {
+  code: string;
+  label: string;
+  rate: number;
+  amount: number;
+}
+
+/** Tax on a sale: inside the prices, added on top, and per component. */
+export interface SaleTax {
+  included: number;
+  added: number;
+  breakdown: TaxBreakdownItem[];
+}
+
+/** GET /api/reports/tax (get_tax_summary). Amounts are net of returns made in the period. */
+export interface TaxSummary {
+  from: string | null;
+  to: string | null;
+  totals: { taxableAmount: number; taxAmount: number; grossAmount: number };
+  byClass: Array<{
+    taxClassId: string | null;
+    code: string | null;
+    name: string | null;
+    inclusive: boolean | null;
+    taxableAmount: number;
+    taxAmount: number;
+    returnedTax: number;
+    lines: number;
+  }>;
+  byComponent: TaxBreakdownItem[];
+}
+
+export async function fetchTaxSetup(): Promise<TaxSetup> {
+  const res = await apiGet<{ data: TaxSetup }>(API_BASE_URL, '/api/tax-classes');
+  return { classes: res.data?.classes ?? [], categories: res.data?.categories ?? [] };
+}
+
+export function createTaxClass(input: TaxClassInput): Promise<TaxClass> {
+  return apiPost<TaxClass>(API_BASE_URL, '/api/tax-classes', input);
+}
+
+export function updateTaxClass(id: string, input: TaxClassInput): Promise<TaxClass> {
+  return apiPatch<TaxClass>(API_BASE_URL, `/api/tax-classes/${encodeURIComponent(id)}`, input);
+}
+
+/** null puts the category back on the default class. */
+export async function setCategoryTaxClass(category: string, taxClassId: string | null): Promise<CategoryTaxClass[]> {
+  const res = await apiPut<{ data: CategoryTaxClass[] }>(API_BASE_URL, '/api/tax-classes/categories', { category, taxClassId });
+  return res.data ?? [];
+}
+
+export function fetchTaxSummary(params: { warehouseId: string; from?: string; to?: string }): Promise<TaxSummary> {
+  const search = new URLSearchParams({ warehouse_id: params.warehouseId });
+  if (params.from) search.set('from', params.from);
+  if (params.to) search.set('to', params.to);
+  return apiGet<TaxSummary>(API_BASE_URL, `/api/reports/tax?${search.toString()}`);
+}
@@ -0,0 +1,127 @@
+/**
+ * Cash drawer (till) sessions: /api/till-sessions.
+ * A till is opened with a float on one device, takes paid in / paid out entries, and is closed with a blind cash
+ * count; the server works out the expected cash and variance and returns the Z report.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiGet, apiPost } from '../lib/apiClient';
+import { getStoredData, setStoredData } from '../lib/storage';
+
+export type TillSessionStatus = 'open' | 'closed';
+export type TillMovementKind = 'paid_in' | 'paid_out';
+
+export interface TillSummary {
+  openingFloat: number;
+  salesCount: number;
+  salesTotal: number;
+  discountTotal: number;
+  /** Takings per payment method, mixed sales split into their legs. */
+  byMethod: Record<string, number>;
+  voidCount: number;
+  voidTotal: number;
+  /** Layaway deposits and instalments taken (also in byMethod). Missing on sessions closed before layaways. */
+  layawayCount?: number;
+  layawayTotal?: number;
+  refundCount: number;
+  refundTotal: number;
+  cashSales: number;
+  cashRefunds: number;
+  paidIn: number;
+  paidOut: number;
+  expectedCash: number;
+}
+
+export interface TillSession {
+  id: string;
+  sessionNumber: string;
+  warehouseId: string;
+  deviceId: string;
+  status: TillSessionStatus;
+  openingFloat: number;
+  openedBy: string | null;
+  openedAt: string;
+  countedCash: number | null;
+  /** Null on the open session the cashier sees (blind count). */
+  expectedCash: number | null;
+  variance: number | null;
+  summary: TillSummary | null;
+  note: string | null;
+  closedBy: string | null;
+  closedAt: string | null;
+}
+
+export interface TillMovement {
+  id: string;
+  sessionId: string;
+  kind: TillMovementKind;
+  amount: number;
+  reason: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/** X = running figures while open (managers); Z = closing figures. session.summary is always set. */
+export interface TillReport {
+  type: 'X' | 'Z';
+  session: TillSession & { summary: TillSummary };
+  movements: TillMovement[];
+}
+
+const DEVICE_KEY = 'pos_till_device_id';
+
+/**
+ * Identifies this till. Uses the device the login is bound to when there is one, else an id kept in this
+ * browser's storage, so each register has its own drawer session.
+ */
+export function getTillDeviceId(boundDeviceId?: string | null): string {
+  if (boundDeviceId?.trim()) return boundDeviceId.trim();
+  const stored = getStoredData<string | null>(DEVICE_KEY, null);
+  if (stored) return stored;
+  const id =
+    typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+      ? crypto.randomUUID()
+      : `till-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  setStoredData(DEVICE_KEY, id);
+  return id;
+}
+
+export function fetchCurrentTillSession(
+  warehouseId: string,
+  deviceId: string
+): Promise<{ session: TillSession | null; movements: TillMovement[] }> {
+  const params = new URLSearchParams({ warehouse_id: warehouseId, device_id: deviceId });
+  return apiGet(API_BASE_URL, `/api/till-sessions/current?${params}`);
+}
+
+export function openTillSession(body: {
+  warehouseId: string;
+  deviceId: string;
+  openingFloat: number;
+}): Promise<{ session: TillSession; movements: TillMovement[] }> {
+  return apiPost(API_BASE_URL, '/api/till-sessions', body);
+}
+
+export function addTillMovement(
+  sessionId: string,
+  body: { kind: TillMovementKind; amount: number; reason: string }
+): Promise<TillMovement> {
+  return apiPost<TillMovement>(API_BASE_URL, `/api/till-sessions/${encodeURIComponent(sessionId)}/movements`, body);
+}
+
+/** Blind close: returns the Z report. */
+export function closeTillSession(sessionId: string, body: { countedCash: number; note?: string | null }): Promise<TillReport> {
+  return apiPost<TillReport>(API_BASE_URL, `/api/till-sessions/${encodeURIComponent(sessionId)}/close`, body);
+}
+
+/** X report while open (managers only), Z report once closed. */
+export function fetchTillReport(sessionId: string): Promise<TillReport> {
+  return apiGet<TillReport>(API_BASE_URL, `/api/till-sessions/${encodeURIComponent(sessionId)}/report`);
+}
+
+/** Manager review: sessions at a warehouse, newest first. */
+export function fetchTillSessions(warehouseId: string, status?: TillSessionStatus): Promise<{ data: TillSession[] }> {
+  const params = new URLSearchParams({ warehouse_id: warehouseId });
+  if (status) params.set('status', status);
+  return apiGet(API_BASE_URL, `/api/till-sessions?${params}`);
+}
@@ -0,0 +1,38 @@
+/**
+ * Transfers: in-transit totals and which side of a transfer a warehouse is on.
+ */
+import { describe, it, expect } from 'vitest';
+import { summarizeInTransit, transferDirection, type StockTransfer } from './transfersApi';
+
+const transfer = {
+  id: 't1',
+  fromWarehouseId: 'wh-town',
+  toWarehouseId: 'wh-store',
+} as StockTransfer;
+
+describe('summarizeInTransit', () => {
+  it('sums incoming and outgoing units across sizes', () => {
+    expect(
+      summarizeInTransit([
+        { productId: 'p1', sizeCode: 'M', incoming: 2, outgoing: 0 },
+        { productId: 'p1', sizeCode: 'L', incoming: 1, outgoing: 3 },
+        { productId: 'p2', sizeCode: null, incoming: 0, outgoing: 5 },
+      ])
+    ).toEqual({ incoming: 3, outgoing: 8 });
+  });
+
+  it('returns zeros for no rows', () => {
+    expect(summarizeInTransit([])).toEqual({ incoming: 0, outgoing: 0 });
+  });
+});
+
+describe('transferDirection', () => {
+  it('is outgoing at the source and incoming at the destination', () => {
+    expect(transferDirection(transfer, 'wh-town')).toBe('outgoing');
+    expect(transferDirection(transfer, 'wh-store')).toBe('incoming');
+  });
+
+  it('is null for an unrelated warehouse', () => {
+    expect(transferDirection(transfer, 'wh-other')).toBeNull();
+  });
+});
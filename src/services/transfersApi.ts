@@ -0,0 +1,89 @@
+/**
+ * Inter-warehouse stock transfers: /api/transfers.
+ * draft → in_transit (dispatch deducts the source) → received (adds to the destination); cancel returns
+ * in-transit stock to the source.
+ */
+
+import { API_BASE_URL } from '../lib/api';
+import { apiGet, apiPatch, apiPost } from '../lib/apiClient';
+
+export type TransferStatus = 'draft' | 'in_transit' | 'received' | 'cancelled';
+export type TransferAction = 'dispatch' | 'receive' | 'cancel';
+
+export interface TransferLine {
+  id: string;
+  productId: string;
+  productName: string | null;
+  sku: string | null;
+  sizeCode: string | null;
+  qty: number;
+}
+
+export interface StockTransfer {
+  id: string;
+  transferNumber: string;
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  status: TransferStatus;
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  dispatchedBy: string | null;
+  dispatchedAt: string | null;
+  receivedBy: string | null;
+  receivedAt: string | null;
+  cancelledAt: string | null;
+  lines: TransferLine[];
+}
+
+export interface InTransitRow {
+  productId: string;
+  sizeCode: string | null;
+  incoming: number;
+  outgoing: number;
+}
+
+export interface CreateTransferRequest {
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  lines: Array<{ productId: string; sizeCode: string | null; qty: number }>;
+  notes?: string | null;
+  /** Deduct the source immediately (skip the draft step). */
+  dispatch?: boolean;
+}
+
+/** Total units in transit to and from a warehouse. */
+export function summarizeInTransit(rows: InTransitRow[]): { incoming: number; outgoing: number } {
+  return rows.reduce(
+    (acc, r) => ({ incoming: acc.incoming + r.incoming, outgoing: acc.outgoing + r.outgoing }),
+    { incoming: 0, outgoing: 0 }
+  );
+}
+
+/** Which side of a transfer the current warehouse is on; null when it is neither. */
+export function transferDirection(t: StockTransfer, warehouseId: string): 'outgoing' | 'incoming' | null {
+  if (t.fromWarehouseId === warehouseId) return 'outgoing';
+  if (t.toWarehouseId === warehouseId) return 'incoming';
+  return null;
+}
+
+export async function fetchTransfers(warehouseId: string, status?: TransferStatus): Promise<StockTransfer[]> {
+  const params = new URLSearchParams({ warehouse_id: warehouseId });
+  if (status) params.set('status', status);
+  const res = await apiGet<{ data?: StockTransfer[] }>(API_BASE_URL, `/api/transfers?${params.toString()}`);
+  return res?.data ?? [];
+}
+
+export async function fetchInTransit(warehouseId: string): Promise<InTransitRow[]> {
+  const params = new URLSearchParams({ warehouse_id: warehouseId, view: 'in_transit' });
+  const res = await apiGet<{ data?: InTransitRow[] }>(API_BASE_URL, `/api/transfers?${params.toString()}`);
+  return res?.data ?? [];
+}
+
+export function createTransfer(body: CreateTransferRequest): Promise<StockTransfer> {
+  return apiPost<StockTransfer>(API_BASE_URL, '/api/transfers', body);
+}
+
+export function updateTransfer(id: string, action: TransferAction): Promise<StockTransfer> {
+  return apiPatch<StockTransfer>(API_BASE_URL, `/api/transfers/${encodeURIComponent(id)}`, { action });
+}
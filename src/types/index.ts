@@ -57,11 +57,13 @@ export interface Product {
   };
   images: string[];
   expiryDate: Date | null;
-  variants?: {
-    size?: string;
-    color?: string;
-    unit?: string;
-  };
+  /** Own colour (single-colour product). With colour variants, each variant has its colour instead. */
+  color?: string | null;
+  /**
+   * Colour variants: each has its own colour, SKU, barcode, images and stock. When present, quantity / quantityBySize
+   * are the variants' summed and stock is edited per variant.
+   */
+  variants?: ProductVariant[];
   createdAt: Date;
   updatedAt: Date;
   createdBy: string;
@@ -71,10 +73,24 @@ export interface Product {
   sizeKind?: 'na' | 'one_size' | 'sized';
   /** When sizeKind === 'sized', per-size quantities. Enables fast size lookup and POS size selector. */
   quantityBySize?: QuantityBySizeItem[];
+  /** Own tax class; null = the category's class or the default (Settings → Tax). */
+  taxClassId?: string | null;
   /** True while product is optimistically shown before server confirm (Phase 4). Do not persist. */
   _pending?: boolean;
 }
 
+/** A colour of a product; name, category, prices and tax come from the product. */
+export interface ProductVariant {
+  id: string;
+  color: string;
+  sku: string;
+  barcode: string | null;
+  images: string[];
+  sizeKind?: 'na' | 'one_size' | 'sized';
+  quantity: number;
+  quantityBySize: QuantityBySizeItem[];
+}
+
 export interface Transaction {
   id: string;
   transactionNumber: string;
@@ -15,6 +15,11 @@ export const PERMISSIONS = {
     ADJUST_STOCK: 'inventory.adjust_stock',
     VIEW_COST_PRICE: 'inventory.view_cost_price',
     BULK_ACTIONS: 'inventory.bulk_actions',
+    TRANSFER: 'inventory.transfer',
+    RECEIVE: 'inventory.receive',
+    PURCHASE: 'inventory.purchase',
+    STOCK_TAKE: 'inventory.stock_take',
+    APPROVE_ADJUSTMENT: 'inventory.approve_adjustment',
   },
   POS: {
     ACCESS: 'pos.access',
@@ -36,6 +41,13 @@ export const PERMISSIONS = {
     VIEW: 'deliveries.view',
     UPDATE_STATUS: 'deliveries.update_status',
   },
+  CUSTOMERS: {
+    VIEW: 'customers.view',
+    MANAGE: 'customers.manage',
+  },
+  PROMOTIONS: {
+    MANAGE: 'promotions.manage',
+  },
   REPORTS: {
     VIEW_SALES: 'reports.view_sales',
     VIEW_INVENTORY: 'reports.view_inventory',
@@ -63,6 +75,10 @@ export type Permission = {
   [K in keyof typeof PERMISSIONS]: (typeof PERMISSIONS)[K][keyof (typeof PERMISSIONS)[K]];
 }[keyof typeof PERMISSIONS];
 
+/**
+ * Display defaults only. The enforced limits live on the server (role_limits, GET /api/role-limits) and are
+ * seeded with the manager / cashier values below.
+ */
 export interface RoleLimits {
   maxDiscount?: number;
   maxRefundAmount?: number;
@@ -112,6 +128,8 @@ export const ROLES: Record<string, Role> = {
       ...Object.values(PERMISSIONS.POS),
       ...Object.values(PERMISSIONS.ORDERS),
       ...Object.values(PERMISSIONS.DELIVERIES),
+      ...Object.values(PERMISSIONS.CUSTOMERS),
+      ...Object.values(PERMISSIONS.PROMOTIONS),
       PERMISSIONS.REPORTS.VIEW_SALES,
       PERMISSIONS.REPORTS.VIEW_INVENTORY,
       PERMISSIONS.REPORTS.VIEW_PROFIT,
@@ -161,6 +179,9 @@ export const ROLES: Record<string, Role> = {
       PERMISSIONS.INVENTORY.VIEW,
       PERMISSIONS.INVENTORY.UPDATE,
       PERMISSIONS.INVENTORY.ADJUST_STOCK,
+      PERMISSIONS.INVENTORY.TRANSFER,
+      PERMISSIONS.INVENTORY.RECEIVE,
+      PERMISSIONS.INVENTORY.STOCK_TAKE,
       PERMISSIONS.ORDERS.VIEW,
       PERMISSIONS.ORDERS.UPDATE_STATUS,
     ],
@@ -188,6 +209,7 @@ export const ROLES: Record<string, Role> = {
       PERMISSIONS.INVENTORY.VIEW,
       PERMISSIONS.POS.ACCESS,
       PERMISSIONS.ORDERS.VIEW_ALL,
+      PERMISSIONS.CUSTOMERS.VIEW,
       PERMISSIONS.REPORTS.VIEW_SALES,
       PERMISSIONS.REPORTS.VIEW_INVENTORY,
       PERMISSIONS.REPORTS.VIEW_PROFIT,